@@ -10,17 +10,41 @@ const __dirname = path.dirname(__filename);
 const appRoot = path.resolve(__dirname, '..');
 const repoRoot = path.resolve(appRoot, '..');
 
-const dataFilePath = path.join(repoRoot, 'registries', 'entity-types.json');
-const schemaFilePath = path.join(repoRoot, 'schemas', 'registries', 'entity-type-registry.schema.json');
-const outputFilePath = path.join(
-  appRoot,
-  'src',
-  'services',
-  'config',
-  'entityTypeRegistry.generated.ts',
-);
-
-function renderGeneratedModule(registry) {
+const configDir = path.join(appRoot, 'src', 'services', 'config');
+const schemaDir = path.join(repoRoot, 'schemas', 'registries');
+
+const registries = [
+  {
+    name: 'Registry',
+    dataFilePath: path.join(repoRoot, 'registries', 'entity-types.json'),
+    schemaFilePath: path.join(schemaDir, 'entity-type-registry.schema.json'),
+    outputFilePath: path.join(configDir, 'entityTypeRegistry.generated.ts'),
+    exportName: 'ENTITY_TYPE_REGISTRY',
+    // Migrations are emitted separately, keyed by entity type
+    transform: (entityTypes) => entityTypes.map(({ migrations: _migrations, ...config }) => config),
+    extraOutputs: [
+      {
+        outputFilePath: path.join(configDir, 'entityTypeMigrations.generated.ts'),
+        exportName: 'ENTITY_TYPE_MIGRATIONS',
+        transform: (entityTypes) =>
+          Object.fromEntries(
+            entityTypes
+              .filter((config) => config.migrations?.length > 0)
+              .map((config) => [config.type, config.migrations]),
+          ),
+      },
+    ],
+  },
+  {
+    name: 'Game system registry',
+    dataFilePath: path.join(repoRoot, 'registries', 'game-systems.json'),
+    schemaFilePath: path.join(schemaDir, 'game-system-registry.schema.json'),
+    outputFilePath: path.join(configDir, 'gameSystemRegistry.generated.ts'),
+    exportName: 'GAME_SYSTEM_REGISTRY',
+  },
+];
+
+function renderGeneratedModule(exportName, registry) {
   const serialized = JSON.stringify(registry, null, 2);
   return [
     '/**',
@@ -28,43 +52,108 @@ function renderGeneratedModule(registry) {
     ' * Do not edit this file directly.',
     ' */',
     '',
-    `export const ENTITY_TYPE_REGISTRY = ${serialized} as const;`,
+    `export const ${exportName} = ${serialized} as const;`,
     '',
   ].join('\n');
 }
 
+async function readJson(filePath) {
+  return JSON.parse(await readFile(filePath, 'utf8'));
+}
+
+/**
+ * Checks the game systems only describe entity types that exist
+ */
+function validateGameSystemEntityTypes(gameSystems, entityTypes) {
+  const knownTypes = new Set(entityTypes.map((config) => config.type));
+  const unknown = gameSystems.flatMap((system) =>
+    Object.keys(system.systemPropertySchemas)
+      .filter((entityType) => !knownTypes.has(entityType))
+      .map((entityType) => `/${system.id}/systemPropertySchemas/${entityType} is not a registered entity type`),
+  );
+
+  if (unknown.length > 0) {
+    throw new Error(`Game system registry validation failed:\n${unknown.join('\n')}`);
+  }
+}
+
+/**
+ * Checks each entity type's migrations lead, one version at a time, up to its schemaVersion
+ */
+function validateEntityTypeMigrations(entityTypes) {
+  const errors = entityTypes.flatMap((config, index) => {
+    const migrations = config.migrations ?? [];
+    const stepErrors = migrations.flatMap((migration, migrationIndex) => {
+      const pointer = `/${index}/migrations/${migrationIndex}`;
+      const previous = migrations[migrationIndex - 1];
+      if (previous && migration.toVersion !== previous.toVersion + 1) {
+        return [`${pointer}/toVersion must follow version ${previous.toVersion}`];
+      }
+      if (migration.toVersion > config.schemaVersion) {
+        return [`${pointer}/toVersion is above the schemaVersion of ${config.type}`];
+      }
+      return [];
+    });
+
+    // The last migration must reach the current version, or entries would be left behind
+    const last = migrations[migrations.length - 1];
+    if (last && last.toVersion !== config.schemaVersion) {
+      stepErrors.push(
+        `/${index}/migrations/${migrations.length - 1}/toVersion must be the schemaVersion of ${config.type} (${config.schemaVersion})`,
+      );
+    }
+    return stepErrors;
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Registry validation failed:\n${errors.join('\n')}`);
+  }
+}
+
 async function main() {
   const checkOnly = process.argv.includes('--check');
 
-  const [rawData, rawSchema] = await Promise.all([
-    readFile(dataFilePath, 'utf8'),
-    readFile(schemaFilePath, 'utf8'),
-  ]);
+  const schemas = await Promise.all(registries.map(({ schemaFilePath }) => readJson(schemaFilePath)));
+  const data = await Promise.all(registries.map(({ dataFilePath }) => readJson(dataFilePath)));
 
-  const registry = JSON.parse(rawData);
-  const schema = JSON.parse(rawSchema);
+  // Game system fields reuse the entity type property field definition
+  const ajv = new Ajv2020({ allErrors: true, strict: true, schemas });
 
-  const ajv = new Ajv2020({ allErrors: true, strict: true });
-  const validate = ajv.compile(schema);
+  registries.forEach(({ name }, index) => {
+    const validate = ajv.getSchema(schemas[index].$id);
+    if (!validate(data[index])) {
+      const details = (validate.errors ?? [])
+        .map((error) => `${error.instancePath || '/'} ${error.message ?? ''}`.trim())
+        .join('\n');
+      throw new Error(`${name} validation failed:\n${details}`);
+    }
+  });
 
-  if (!validate(registry)) {
-    const details = (validate.errors ?? [])
-      .map((error) => `${error.instancePath || '/'} ${error.message ?? ''}`.trim())
-      .join('\n');
-    throw new Error(`Registry validation failed:\n${details}`);
-  }
+  const [entityTypes, gameSystems] = data;
+  validateEntityTypeMigrations(entityTypes);
+  validateGameSystemEntityTypes(gameSystems, entityTypes);
+
+  const outputs = registries.flatMap((registry, index) =>
+    [registry, ...(registry.extraOutputs ?? [])].map(({ outputFilePath, exportName, transform }) => ({
+      outputFilePath,
+      exportName,
+      data: transform ? transform(data[index]) : data[index],
+    })),
+  );
 
-  const generated = renderGeneratedModule(registry);
+  for (const { outputFilePath, exportName, data: outputData } of outputs) {
+    const generated = renderGeneratedModule(exportName, outputData);
 
-  if (checkOnly) {
-    const current = await readFile(outputFilePath, 'utf8').catch(() => '');
-    if (current !== generated) {
-      throw new Error('Generated registry is out of date. Run `pnpm gen:registry`.');
+    if (checkOnly) {
+      const current = await readFile(outputFilePath, 'utf8').catch(() => '');
+      if (current !== generated) {
+        throw new Error('Generated registry is out of date. Run `pnpm gen:registry`.');
+      }
+      continue;
     }
-    return;
-  }
 
-  await writeFile(outputFilePath, generated, 'utf8');
+    await writeFile(outputFilePath, generated, 'utf8');
+  }
 }
 
 main().catch((error) => {
@@ -10,6 +10,7 @@ import App from './App';
 import { api } from '@/services/api';
 import worldSidebarReducer from '@/store/worldSidebarSlice';
 import notificationsReducer from '@/store/notificationsSlice';
+import undoHistoryReducer from '@/store/undoHistorySlice';
 import { handlers } from '@/__tests__/mocks/handlers';
 
 // Mock useAccessCode to always return verified
@@ -37,6 +38,7 @@ const createMockStore = () => {
       sidePanel: (state = { isExpanded: true }) => state,
       worldSidebar: worldSidebarReducer,
       notifications: notificationsReducer,
+      undoHistory: undoHistoryReducer,
       [api.reducerPath]: api.reducer,
     },
     middleware: (getDefaultMiddleware) =>
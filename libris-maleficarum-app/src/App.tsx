@@ -4,6 +4,8 @@ import { WorldSidebar } from './components/WorldSidebar/WorldSidebar'
 import { MainPanel } from './components/MainPanel/MainPanel'
 import { ChatPanel } from './components/ChatPanel/ChatPanel'
 import { DeleteConfirmationModal } from './components/MainPanel/DeleteConfirmationModal'
+import { DuplicateEntityDialog } from './components/MainPanel/DuplicateEntityDialog'
+import { EntityTemplateDialog } from './components/MainPanel/EntityTemplateDialog'
 import { useGetDeleteOperationsQuery } from './services/asyncOperationsApi'
 import { useAppDispatch, useAppSelector } from './store/store'
 import { setPollingEnabled, performCleanup } from './store/notificationsSlice'
@@ -17,12 +19,17 @@ import { AuthGuard } from './components/AuthGuard';
 import { logger } from './lib/logger';
 import { useAccessCode } from './hooks/useAccessCode';
 import { AccessCodeDialog } from './components/shared/AccessCodeDialog';
+import { UnsavedChangesDialog } from './components/shared/UnsavedChangesDialog';
+import { useUrlSync } from './hooks/useUrlSync';
 import appIcon from '@/assets/libris-maleficarum-icon.png';
 
 function App() {
   const dispatch = useAppDispatch();
   const selectedWorldId = useAppSelector(selectSelectedWorldId);
 
+  // Keep world/entity selection and panel mode in sync with the URL (deep links, back/forward)
+  const { pendingRoute, confirmPendingNavigation, cancelPendingNavigation } = useUrlSync();
+
   // Access code gate
   const { accessCodeRequired, isVerified, isLoading: accessCodeLoading, error: accessCodeError, submitCode } = useAccessCode();
 
@@ -193,13 +200,20 @@ function App() {
             <div className="flex-1 flex overflow-hidden">
               <WorldSidebar optimisticallyDeletedIds={optimisticallyDeletedIds} />
               {settingsOpen ? (
-                <SettingsPage onClose={() => setSettingsOpen(false)} />
+                <SettingsPage worldId={selectedWorldId} onClose={() => setSettingsOpen(false)} />
               ) : (
                 <MainPanel />
               )}
               <ChatPanel />
             </div>
             <DeleteConfirmationModal />
+            <DuplicateEntityDialog />
+            <EntityTemplateDialog />
+            <UnsavedChangesDialog
+              open={pendingRoute !== null}
+              onDiscard={confirmPendingNavigation}
+              onCancel={cancelPendingNavigation}
+            />
           </WorldProvider>
         </AuthGuard>
       </div>
@@ -12,6 +12,7 @@ import App from '@/App';
 import { api } from '@/services/api';
 import worldSidebarReducer from '@/store/worldSidebarSlice';
 import notificationsReducer from '@/store/notificationsSlice';
+import undoHistoryReducer from '@/store/undoHistorySlice';
 import { handlers } from '@/__tests__/mocks/handlers';
 
 expect.extend(toHaveNoViolations);
@@ -39,6 +40,7 @@ const createMockStore = () => {
       sidePanel: (state = { isExpanded: true }) => state,
       worldSidebar: worldSidebarReducer,
       notifications: notificationsReducer,
+      undoHistory: undoHistoryReducer,
       [api.reducerPath]: api.reducer,
     },
     middleware: (getDefaultMiddleware) =>
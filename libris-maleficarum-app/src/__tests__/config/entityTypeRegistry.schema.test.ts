@@ -38,3 +38,40 @@ describe('Entity Type Registry JSON Schema', () => {
     expect(isValid).toBe(true);
   });
 });
+
+describe('Entity Type Registry JSON Schema - migrations', () => {
+  const schema = JSON.parse(
+    readFileSync(resolve(process.cwd(), '..', 'schemas', 'registries', 'entity-type-registry.schema.json'), 'utf8'),
+  );
+  const validate = new Ajv2020({ allErrors: true, strict: true }).compile(schema);
+
+  const withMigrationOperations = (operations: unknown[]) => [
+    {
+      type: 'Country',
+      label: 'Country',
+      description: 'A nation',
+      category: 'Geography',
+      icon: 'Map',
+      schemaVersion: 2,
+      suggestedChildren: [],
+      migrations: [{ toVersion: 2, description: 'Upgrade', operations }],
+    },
+  ];
+
+  it('accepts the declared migration operations', () => {
+    expect(
+      validate(withMigrationOperations([
+        { op: 'rename', from: 'capitol', to: 'capital' },
+        { op: 'split', from: 'ruler', to: ['rulerTitle', 'rulerName'], separator: ' ' },
+        { op: 'merge', from: ['north', 'south'], to: 'borders', separator: ', ' },
+        { op: 'textToTagArray', key: 'languages' },
+        { op: 'default', key: 'currency', value: 'Gold' },
+      ])),
+    ).toBe(true);
+  });
+
+  it('rejects unknown and incomplete migration operations', () => {
+    expect(validate(withMigrationOperations([{ op: 'delete', key: 'capital' }]))).toBe(false);
+    expect(validate(withMigrationOperations([{ op: 'rename', from: 'capitol' }]))).toBe(false);
+  });
+});
@@ -17,6 +17,7 @@ describe('Entity Selection Integration', () => {
     beforeEach(() => {
         server.resetHandlers();
         sessionStorage.clear();
+        localStorage.clear();
     });
 
     afterAll(() => {
@@ -40,7 +41,12 @@ describe('Entity Selection Integration', () => {
                 deletingEntityName: null,
                 showDeleteConfirmation: false,
                 movingEntityId: null,
+                duplicatingEntityId: null,
+                templateDialog: null,
                 creatingEntityParentId: null,
+                draggedEntity: null,
+                multiSelectedEntityIds: [],
+                selectionAnchorId: null,
             },
         };
 
@@ -159,7 +165,12 @@ describe('Entity Selection Integration', () => {
                 deletingEntityName: null,
                 showDeleteConfirmation: false,
                 movingEntityId: null,
+                duplicatingEntityId: null,
+                templateDialog: null,
                 creatingEntityParentId: null,
+                draggedEntity: null,
+                multiSelectedEntityIds: [],
+                selectionAnchorId: null,
             },
         };
 
@@ -76,7 +76,12 @@ describe('World Editing Integration', () => {
                 deletingEntityName: null,
                 showDeleteConfirmation: false,
                 movingEntityId: null,
+                duplicatingEntityId: null,
+                templateDialog: null,
                 creatingEntityParentId: null,
+                draggedEntity: null,
+                multiSelectedEntityIds: [],
+                selectionAnchorId: null,
             },
         };
 
@@ -178,7 +183,12 @@ describe('World Editing Integration', () => {
                 deletingEntityName: null,
                 showDeleteConfirmation: false,
                 movingEntityId: null,
+                duplicatingEntityId: null,
+                templateDialog: null,
                 creatingEntityParentId: null,
+                draggedEntity: null,
+                multiSelectedEntityIds: [],
+                selectionAnchorId: null,
             },
         };
 
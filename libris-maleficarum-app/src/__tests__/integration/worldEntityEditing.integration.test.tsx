@@ -67,6 +67,10 @@ const defaultHandlers = [
     if (entityId === 'parent-1') return HttpResponse.json({ data: { ...mockEntity, id: 'parent-1' } });
     return new HttpResponse(null, { status: 404 });
   }),
+  // World-wide entity list (used for tag autocomplete)
+  http.get(`${BASE_URL}/api/v1/worlds/:worldId/entities`, () => {
+    return HttpResponse.json({ data: [currentMockEntity], meta: { count: 1, nextCursor: null } });
+  }),
   // Handler for creating entities
   http.post(`${BASE_URL}/api/v1/worlds/:worldId/entities`, () => {
       // Create returns WorldEntityResponse { data: WorldEntity }
@@ -107,7 +111,12 @@ const createMockStore = (preloadedSidebarState?: Partial<WorldSidebarState>) =>
             deletingEntityName: null,
             showDeleteConfirmation: false,
             movingEntityId: null,
+            duplicatingEntityId: null,
+            templateDialog: null,
             creatingEntityParentId: null,
+            draggedEntity: null,
+            multiSelectedEntityIds: [],
+            selectionAnchorId: null,
             ...preloadedSidebarState // Override with specific test requirements
         }
     },
@@ -473,6 +482,62 @@ describe('World Entity Editing Integration (T013)', () => {
     });
   });
 
+  describe('Tag Editing', () => {
+    it('should edit tags with world-wide suggestions and track them as unsaved changes', async () => {
+      const user = userEvent.setup();
+      let updateBody: Partial<WorldEntity> | null = null;
+
+      server.use(
+        http.get(`${BASE_URL}/api/v1/worlds/:worldId/entities`, () => {
+          return HttpResponse.json({
+            data: [
+              currentMockEntity,
+              { ...mockEntity, id: 'entity-2', tags: ['primary', 'harpers'] },
+              { ...mockEntity, id: 'entity-3', tags: ['harpers'] },
+            ],
+            meta: { count: 3, nextCursor: null },
+          });
+        }),
+        http.put(`${BASE_URL}/api/v1/worlds/:worldId/entities/:entityId`, async ({ request }) => {
+          updateBody = (await request.json()) as Partial<WorldEntity>;
+          currentMockEntity = { ...currentMockEntity, ...updateBody };
+          return HttpResponse.json({ data: currentMockEntity });
+        }),
+      );
+
+      const store = createMockStore({
+          selectedWorldId: 'world-1',
+          selectedEntityId: 'entity-1',
+          editingEntityId: 'entity-1',
+          mainPanelMode: 'editing_entity'
+      });
+
+      render(
+        <Provider store={store}>
+          <MainPanel />
+        </Provider>,
+      );
+
+      // Existing tags are prefilled
+      const tagList = await screen.findByRole('list', { name: 'Tags tags' });
+      expect(within(tagList).getByText('primary')).toBeInTheDocument();
+      expect(store.getState().worldSidebar.hasUnsavedChanges).toBe(false);
+
+      // Suggestions come from tags used elsewhere in the world, with usage counts
+      await user.type(screen.getByRole('combobox', { name: 'Tags input' }), 'harp');
+      await user.click(await screen.findByRole('option', { name: 'harpers, used 2 times' }));
+
+      expect(within(tagList).getByText('harpers')).toBeInTheDocument();
+      expect(store.getState().worldSidebar.hasUnsavedChanges).toBe(true);
+
+      await user.click(screen.getByRole('button', { name: /save changes/i }));
+
+      await waitFor(() => {
+        expect(updateBody?.tags).toEqual(['primary', 'harpers']);
+      });
+    });
+  });
+
   describe('User Story 3: Validation Error Flow (T034)', () => {
     it('should display validation errors and prevent save with invalid data', async () => {
       const user = userEvent.setup();
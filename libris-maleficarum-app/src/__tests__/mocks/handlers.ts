@@ -14,6 +14,7 @@ import type {
   WorldEntityResponse,
   CreateWorldEntityRequest,
   UpdateWorldEntityRequest,
+  PatchWorldEntityRequest,
   MoveWorldEntityRequest,
 } from '@/services/types/worldEntity.types';
 import { WorldEntityType } from '@/services/types/worldEntity.types';
@@ -36,6 +37,11 @@ const mockWorlds: Map<string, World> = new Map();
  */
 const mockEntities: Map<string, WorldEntity> = new Map();
 
+/**
+ * Number of entities created through POST (keeps generated IDs unique)
+ */
+let createdEntityCount = 0;
+
 /**
  * Seed initial mock data
  */
@@ -410,6 +416,8 @@ export const worldEntityHandlers = [
     const page = parseInt(url.searchParams.get('page') ?? '1', 10);
     const pageSize = parseInt(url.searchParams.get('pageSize') ?? '50', 10);
     const includeDeleted = url.searchParams.get('includeDeleted') === 'true';
+    const limit = url.searchParams.get('limit');
+    const cursor = url.searchParams.get('cursor');
 
     console.log('[MSW GET /entities] Request:', {
       worldId,
@@ -436,6 +444,8 @@ export const worldEntityHandlers = [
     } else if (parentId === 'null') {
       // Explicit 'null' string - return root entities
       filteredEntities = filteredEntities.filter((entity) => entity.parentId === null);
+    } else if (parentId === 'all') {
+      // 'all' - flat list of every entity in the world (ignore hierarchy)
     } else {
       // Specific parentId - filter by it
       filteredEntities = filteredEntities.filter((entity) => entity.parentId === parentId);
@@ -458,17 +468,18 @@ export const worldEntityHandlers = [
       filteredEntities = filteredEntities.filter((entity) => !entity.isDeleted);
     }
 
-    // Pagination
+    // Pagination - cursor-based when `limit` is sent (as the backend does), the cursor
+    // being the offset of the next page; page/pageSize otherwise
     const totalCount = filteredEntities.length;
-    const startIndex = (page - 1) * pageSize;
-    const endIndex = startIndex + pageSize;
+    const startIndex = limit ? parseInt(cursor ?? '0', 10) : (page - 1) * pageSize;
+    const endIndex = startIndex + (limit ? parseInt(limit, 10) : pageSize);
     const paginatedEntities = filteredEntities.slice(startIndex, endIndex);
 
     const response: WorldEntityListResponse = {
       data: paginatedEntities,
       meta: {
         count: paginatedEntities.length,
-        nextCursor: endIndex < totalCount ? 'mock-next-cursor' : null,
+        nextCursor: endIndex < totalCount ? (limit ? String(endIndex) : 'mock-next-cursor') : null,
       },
     };
 
@@ -513,8 +524,8 @@ export const worldEntityHandlers = [
     const { worldId } = params;
     const body = (await request.json()) as CreateWorldEntityRequest;
 
-    // Generate new entity
-    const newEntityId = `entity-${Date.now()}`;
+    // Generate new entity (the counter keeps IDs unique when several are created at once)
+    const newEntityId = `entity-${Date.now()}-${++createdEntityCount}`;
     const parentEntity = body.parentId ? mockEntities.get(body.parentId) : null;
 
     const newEntity: WorldEntity = {
@@ -532,6 +543,9 @@ export const worldEntityHandlers = [
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
       isDeleted: false,
+      schemaId: body.schemaId,
+      properties: body.properties,
+      systemProperties: body.systemProperties,
       schemaVersion: body.schemaVersion ?? 1,
     };
 
@@ -577,11 +591,52 @@ export const worldEntityHandlers = [
         });
       }
 
+      // Like the backend, the parent and schema identifier are replaced with what is sent
+      entity.parentId = body.parentId ?? null;
+      entity.schemaId = body.schemaId;
+
       // Update entity fields
       if (body.name !== undefined) entity.name = body.name;
       if (body.description !== undefined) entity.description = body.description;
       if (body.tags !== undefined) entity.tags = body.tags;
       if (body.entityType !== undefined) entity.entityType = body.entityType;
+      if (body.sortKey !== undefined) entity.sortKey = body.sortKey;
+      entity.updatedAt = new Date().toISOString();
+
+      const response: WorldEntityResponse = {
+        data: entity,
+      };
+
+      return HttpResponse.json(response);
+    },
+  ),
+
+  /**
+   * PATCH /api/v1/worlds/:worldId/entities/:entityId
+   *
+   * Change only the fields sent
+   */
+  http.patch(
+    `${baseUrl}/api/v1/worlds/:worldId/entities/:entityId`,
+    async ({ params, request }) => {
+      const { entityId } = params;
+      const body = (await request.json()) as PatchWorldEntityRequest;
+
+      const entity = mockEntities.get(entityId as string);
+
+      if (!entity) {
+        return new HttpResponse(null, {
+          status: 404,
+          statusText: 'Entity not found',
+        });
+      }
+
+      if (body.name !== undefined) entity.name = body.name;
+      if (body.description !== undefined) entity.description = body.description;
+      if (body.tags !== undefined) entity.tags = body.tags;
+      if (body.entityType !== undefined) entity.entityType = body.entityType;
+      if (body.sortKey !== undefined) entity.sortKey = body.sortKey;
+      if (body.schemaVersion !== undefined) entity.schemaVersion = body.schemaVersion;
       entity.updatedAt = new Date().toISOString();
 
       const response: WorldEntityResponse = {
@@ -599,6 +654,97 @@ export const worldEntityHandlers = [
    * This placeholder is kept for documentation but the actual handler is in asyncOperationsHandlers.
    */
 
+  /**
+   * POST /api/v1/worlds/:worldId/entities/:entityId/restore
+   *
+   * Restore a soft-deleted entity (and its deleted descendants when cascade=true)
+   */
+  http.post(`${baseUrl}/api/v1/worlds/:worldId/entities/:entityId/restore`, ({ params, request }) => {
+    const { entityId } = params;
+    const cascade = new URL(request.url).searchParams.get('cascade') === 'true';
+
+    const entity = mockEntities.get(entityId as string);
+
+    if (!entity) {
+      return new HttpResponse(null, {
+        status: 404,
+        statusText: 'Entity not found',
+      });
+    }
+
+    const parent = entity.parentId ? mockEntities.get(entity.parentId) : null;
+    if (!entity.isDeleted || parent?.isDeleted) {
+      return HttpResponse.json(
+        {
+          type: 'https://api.example.com/problems/conflict',
+          title: 'Conflict',
+          status: 409,
+          detail: entity.isDeleted
+            ? 'The parent entity must be restored first'
+            : 'Entity is not deleted',
+        },
+        { status: 409 }
+      );
+    }
+
+    entity.isDeleted = false;
+    entity.updatedAt = new Date().toISOString();
+
+    if (cascade) {
+      for (const descendant of mockEntities.values()) {
+        if (descendant.isDeleted && descendant.path.includes(entity.id)) {
+          descendant.isDeleted = false;
+          descendant.updatedAt = entity.updatedAt;
+        }
+      }
+    }
+
+    const response: WorldEntityResponse = {
+      data: entity,
+    };
+
+    return HttpResponse.json(response);
+  }),
+
+  /**
+   * DELETE /api/v1/worlds/:worldId/entities/:entityId/permanent
+   *
+   * Permanently remove a soft-deleted entity and its descendants
+   */
+  http.delete(`${baseUrl}/api/v1/worlds/:worldId/entities/:entityId/permanent`, ({ params }) => {
+    const { entityId } = params;
+
+    const entity = mockEntities.get(entityId as string);
+
+    if (!entity) {
+      return new HttpResponse(null, {
+        status: 404,
+        statusText: 'Entity not found',
+      });
+    }
+
+    if (!entity.isDeleted) {
+      return HttpResponse.json(
+        {
+          type: 'https://api.example.com/problems/conflict',
+          title: 'Conflict',
+          status: 409,
+          detail: 'Only deleted entities can be permanently deleted',
+        },
+        { status: 409 }
+      );
+    }
+
+    for (const [id, descendant] of mockEntities) {
+      if (descendant.path.includes(entity.id)) {
+        mockEntities.delete(id);
+      }
+    }
+    mockEntities.delete(entity.id);
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+
   /**
    * PATCH /api/v1/worlds/:worldId/entities/:entityId/move
    *
@@ -702,8 +848,13 @@ export const asyncOperationsHandlers = [
         op.deletedCount = 10;
         op.completedAt = new Date().toISOString();
 
-        // Actually delete the entity from mock storage
+        // Soft delete the entity and its descendants in mock storage
         entity.isDeleted = true;
+        for (const descendant of mockEntities.values()) {
+          if (descendant.path.includes(entity.id)) {
+            descendant.isDeleted = true;
+          }
+        }
       }
     }, 3000);
 
@@ -20,9 +20,11 @@ import type { ReactNode } from 'react';
 import { api } from '@/services/api';
 import {
   useCreateWorldEntityMutation,
-  useGetEntitiesByParentQuery,
+  useGetEntitiesByParentInfiniteQuery,
   useGetWorldEntitiesQuery,
   useGetWorldEntityByIdQuery,
+  useGetWorldEntityIndexInfiniteQuery,
+  usePatchWorldEntityMutation,
   useUpdateWorldEntityMutation,
 } from '@/services/worldEntityApi';
 import type {
@@ -235,7 +237,7 @@ describe('WorldEntity API - Schema Versioning', () => {
 
       const { result } = renderHook(
         () =>
-          useGetEntitiesByParentQuery({
+          useGetEntitiesByParentInfiniteQuery({
             worldId: '550e8400-e29b-41d4-a716-446655440000',
             parentId: null,
           }),
@@ -248,8 +250,8 @@ describe('WorldEntity API - Schema Versioning', () => {
         expect(result.current.isSuccess).toBe(true);
       });
 
-      expect(result.current.data?.[0].createdAt).toBe('2025-01-07T00:00:00Z');
-      expect(result.current.data?.[0].updatedAt).toBe('2025-01-08T00:00:00Z');
+      expect(result.current.data?.pages[0].data[0].createdAt).toBe('2025-01-07T00:00:00Z');
+      expect(result.current.data?.pages[0].data[0].updatedAt).toBe('2025-01-08T00:00:00Z');
     });
   });
 
@@ -470,4 +472,86 @@ describe('WorldEntity API - Schema Versioning', () => {
       expect(typeof lastUpdateRequest!.properties).toBe('object');
     });
   });
+
+  describe('getEntitiesByParent cursor pagination', () => {
+    it('should request the next page with meta.nextCursor and keep both pages in one cache entry', async () => {
+      const requestedCursors: (string | null)[] = [];
+      server.use(
+        http.get(`${API_BASE_URL}/api/v1/worlds/:worldId/entities`, ({ request }) => {
+          const cursor = new URL(request.url).searchParams.get('cursor');
+          requestedCursors.push(cursor);
+
+          return HttpResponse.json({
+            data: [{ ...mockWorldEntity, id: cursor ? 'entity-page-2' : 'entity-page-1' }],
+            meta: { count: 1, nextCursor: cursor ? null : 'cursor-2' },
+          });
+        })
+      );
+
+      const { result } = renderHook(
+        () =>
+          useGetEntitiesByParentInfiniteQuery({
+            worldId: '550e8400-e29b-41d4-a716-446655440000',
+            parentId: null,
+          }),
+        {
+          wrapper: createWrapper(),
+        }
+      );
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+      expect(result.current.hasNextPage).toBe(true);
+
+      await act(async () => {
+        await result.current.fetchNextPage();
+      });
+
+      expect(requestedCursors).toEqual([null, 'cursor-2']);
+      await waitFor(() => {
+        expect(result.current.data?.pages.flatMap((page) => page.data.map(({ id }) => id))).toEqual([
+          'entity-page-1',
+          'entity-page-2',
+        ]);
+      });
+      expect(result.current.hasNextPage).toBe(false);
+    });
+  });
+
+  describe('getWorldEntityIndex cache tags', () => {
+    it('should refetch the index for name changes but not for reorders', async () => {
+      const worldId = mockWorldEntity.worldId;
+      let indexRequests = 0;
+      server.use(
+        http.get(`${API_BASE_URL}/api/v1/worlds/:worldId/entities`, ({ request }) => {
+          if (new URL(request.url).searchParams.get('parentId') === 'all') indexRequests++;
+          return HttpResponse.json({ data: [mockWorldEntity], meta: { count: 1, nextCursor: null } });
+        }),
+        http.patch(`${API_BASE_URL}/api/v1/worlds/:worldId/entities/:id`, async ({ request }) =>
+          HttpResponse.json({ data: { ...mockWorldEntity, ...((await request.json()) as object) } }),
+        ),
+      );
+
+      const { result } = renderHook(
+        () => ({ index: useGetWorldEntityIndexInfiniteQuery(worldId), patch: usePatchWorldEntityMutation()[0] }),
+        { wrapper: createWrapper() },
+      );
+      await waitFor(() => expect(result.current.index.isSuccess).toBe(true));
+      expect(indexRequests).toBe(1);
+
+      await act(async () => {
+        await result.current.patch({ worldId, entityId: mockWorldEntity.id, data: { sortKey: 2048 } }).unwrap();
+      });
+      // Give an invalidated index time to refetch
+      await act(() => new Promise((resolve) => setTimeout(resolve, 50)));
+      expect(indexRequests).toBe(1);
+
+      await act(async () => {
+        await result.current.patch({ worldId, entityId: mockWorldEntity.id, data: { name: 'Faerûn' } }).unwrap();
+      });
+
+      await waitFor(() => expect(indexRequests).toBe(2));
+    });
+  });
 });
@@ -9,6 +9,7 @@
  * - Offers Cancel and Delete options
  * - Handles deletion via API mutation
  * - Shows loading state during deletion
+ * - Records the deletion in the undo history (undone by restoring from the trash)
  *
  * @module components/MainPanel/DeleteConfirmationModal
  */
@@ -17,10 +18,12 @@ import { useDispatch, useSelector } from 'react-redux';
 import type { RootState } from '@/store/store';
 import { closeDeleteConfirmation } from '@/store/worldSidebarSlice';
 import { useInitiateEntityDeleteMutation } from '@/services/asyncOperationsApi';
-import { useOptimisticDelete } from '@/components/WorldSidebar/OptimisticDeleteContext';
+import { useOptimisticDelete } from '@/hooks/useOptimisticDelete';
+import { useUndoHistory } from '@/hooks/useUndoHistory';
+import { getEntityDeleteChange } from '@/lib/undoHistory';
 import { logger } from '@/lib/logger';
 import { toast } from 'sonner';
-import type { FetchBaseQueryError } from '@reduxjs/toolkit/query';
+import { shouldRollbackDelete } from '@/lib/asyncOperationHelpers';
 import {
   Dialog,
   DialogContent,
@@ -32,39 +35,6 @@ import {
 import { Button } from '@/components/ui/button';
 import { AlertTriangle, Loader2 } from 'lucide-react';
 
-/**
- * Determines if an RTK Query error should trigger an optimistic update rollback.
- * 
- * Rollback cases:
- * - Client errors (4xx): Request was rejected
- * - FETCH_ERROR: Network failure (no response from server)
- * - TIMEOUT_ERROR: Request timed out before completion
- * - PARSING_ERROR: Response received but couldn't be parsed
- * 
- * No rollback cases:
- * - Server errors (5xx): Operation may have been queued despite error
- * - Unknown errors: Conservative approach - assume operation may have succeeded
- */
-function shouldRollbackDelete(error: unknown): boolean {
-  // Type guard for FetchBaseQueryError
-  const fetchError = error as FetchBaseQueryError | undefined;
-  const status = fetchError?.status;
-  
-  if (typeof status === 'number') {
-    // HTTP status code - rollback only for client errors (4xx)
-    // Server errors (5xx) may indicate the operation was queued
-    return status >= 400 && status < 500;
-  }
-  
-  if (typeof status === 'string') {
-    // RTK Query string status types that indicate operation failure
-    return status === 'FETCH_ERROR' || status === 'TIMEOUT_ERROR' || status === 'PARSING_ERROR';
-  }
-  
-  // Unknown error type - don't rollback (conservative approach)
-  return false;
-}
-
 /**
  * Generates appropriate error message based on error type.
  */
@@ -91,6 +61,7 @@ export function DeleteConfirmationModal() {
   );
   
   const { onOptimisticDelete, onRollbackDelete } = useOptimisticDelete();
+  const { recordChange } = useUndoHistory();
 
   const [initiateAsyncDelete, { isLoading: isInitiatingAsync }] = useInitiateEntityDeleteMutation();
 
@@ -122,6 +93,11 @@ export function DeleteConfirmationModal() {
 
       // 3. Close dialog immediately - operation continues in background
       dispatch(closeDeleteConfirmation());
+
+      const entityName = deletingEntityName || 'Entry';
+      toast.success(`"${entityName}" was cast into the trash`, {
+        action: recordChange(selectedWorldId, `Delete "${entityName}"`, getEntityDeleteChange(deletingEntityId)),
+      });
       
       // Note: Notification will be registered automatically by RTK Query cache update
     } catch (error) {
@@ -176,7 +152,7 @@ export function DeleteConfirmationModal() {
           aria-live="polite"
         >
           <p className="m-0 text-sm text-foreground">
-            This rite cannot be undone. The entry and all its descendants will be permanently erased from the tome.
+            The entry and all its descendants will be cast into the trash. Undo (Ctrl+Z) brings them back.
           </p>
         </div>
 
@@ -0,0 +1,138 @@
+/**
+ * DuplicateEntityDialog Component
+ *
+ * Dialog opened from the entity context menu ("Duplicate To...") for placing a
+ * copy of an entity, alone or with its descendants, beneath a chosen parent or
+ * at the root of the codex.
+ *
+ * @module components/MainPanel/DuplicateEntityDialog
+ */
+
+import { useState } from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { EntityDestinationPicker, type MoveDestination } from '@/components/shared/EntityDestinationPicker';
+import { useAppDispatch, useAppSelector } from '@/store/store';
+import {
+  closeDuplicateEntity,
+  selectDuplicatingEntityId,
+  selectSelectedWorldId,
+} from '@/store/worldSidebarSlice';
+import { useGetWorldEntityByIdQuery } from '@/services/worldEntityApi';
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+import { useEntityDuplicate } from '@/hooks/useEntityDuplicate';
+import { validateEntityDuplicate } from '@/lib/entityHierarchy';
+
+/**
+ * Duplicate entity dialog component
+ *
+ * @returns Dialog shown while an entity is being duplicated elsewhere
+ */
+export function DuplicateEntityDialog() {
+  const dispatch = useAppDispatch();
+  const worldId = useAppSelector(selectSelectedWorldId);
+  const duplicatingEntityId = useAppSelector(selectDuplicatingEntityId);
+
+  const { data: entity } = useGetWorldEntityByIdQuery(
+    { worldId: worldId!, entityId: duplicatingEntityId! },
+    { skip: !worldId || !duplicatingEntityId },
+  );
+
+  const handleClose = () => {
+    dispatch(closeDuplicateEntity());
+  };
+
+  return (
+    <Dialog open={!!duplicatingEntityId} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Duplicate Entry</DialogTitle>
+          <DialogDescription>
+            {entity
+              ? `Choose where the copy of "${entity.name}" is placed.`
+              : 'Consulting the tome...'}
+          </DialogDescription>
+        </DialogHeader>
+        {entity && entity.id === duplicatingEntityId && (
+          <DuplicateEntityForm entity={entity} onClose={handleClose} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Destination picker and duplicate actions for a loaded entity
+ */
+function DuplicateEntityForm({ entity, onClose }: { entity: WorldEntity; onClose: () => void }) {
+  const { duplicateEntity, isDuplicating } = useEntityDuplicate();
+  const [destination, setDestination] = useState<MoveDestination | null>(null);
+
+  const target = destination?.kind === 'entity' ? destination.entity : null;
+  const validation = destination ? validateEntityDuplicate(entity, target, false) : null;
+  const subtreeValidation = destination ? validateEntityDuplicate(entity, target, true) : null;
+
+  // The picker offers every parent a lone copy may have; copying descendants is checked separately
+  const blockedReason = validation && !validation.canMove
+    ? validation.reason
+    : entity.hasChildren && subtreeValidation && !subtreeValidation.canMove
+      ? subtreeValidation.reason
+      : null;
+
+  const handleDuplicate = async (includeChildren: boolean) => {
+    if (!destination) return;
+
+    const copy = await duplicateEntity(entity, { includeChildren, parentId: target?.id ?? null });
+    if (copy) {
+      onClose();
+    }
+  };
+
+  return (
+    <>
+      <EntityDestinationPicker
+        worldId={entity.worldId}
+        movingEntityIds={[]}
+        value={destination}
+        onChange={setDestination}
+        validate={(candidate) => validateEntityDuplicate(entity, candidate, false)}
+      />
+      {blockedReason ? (
+        <p role="alert" className="text-sm text-destructive">{blockedReason}</p>
+      ) : (
+        validation?.warning && (
+          <p className="flex items-center gap-2 text-sm text-amber-600 dark:text-amber-400">
+            <AlertTriangle className="h-4 w-4 shrink-0" aria-hidden="true" />
+            {validation.warning}
+          </p>
+        )
+      )}
+      <DialogFooter className="gap-2">
+        <Button variant="outline" onClick={onClose} disabled={isDuplicating}>
+          Cancel
+        </Button>
+        {entity.hasChildren && (
+          <Button
+            variant="outline"
+            onClick={() => handleDuplicate(true)}
+            disabled={isDuplicating || !subtreeValidation?.canMove}
+          >
+            Duplicate with Children
+          </Button>
+        )}
+        <Button onClick={() => handleDuplicate(false)} disabled={isDuplicating || !validation?.canMove}>
+          {isDuplicating && <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />}
+          Duplicate Entry
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -10,13 +10,14 @@
  * - Aggregates field values into single properties object
  * - Tracks validation errors across all fields
  * - Handles entities without propertySchema (renders nothing)
+ * - Accepts another schema and title, e.g. for a game system's systemProperties
  *
  * @module components/MainPanel/DynamicPropertiesForm
  */
 
 import * as React from 'react';
 import type { WorldEntityType } from '@/services/types/worldEntity.types';
-import { getEntityTypeConfig } from '@/services/config/entityTypeRegistry';
+import { getEntityTypeConfig, type PropertyFieldSchema } from '@/services/config/entityTypeRegistry';
 import { DynamicPropertyField } from './DynamicPropertyField';
 
 /**
@@ -59,6 +60,19 @@ export interface DynamicPropertiesFormProps {
    * @default false
    */
   disabled?: boolean;
+
+  /**
+   * Fields to render instead of the entity type's propertySchema
+   * - Used for a game system's systemProperties fields
+   * @optional
+   */
+  schema?: readonly PropertyFieldSchema[];
+
+  /**
+   * Section header instead of `"{Entity Type Label} Properties"`
+   * @optional
+   */
+  title?: string;
 }
 
 /**
@@ -95,6 +109,8 @@ export function DynamicPropertiesForm({
   onChange,
   onValidationChange,
   disabled = false,
+  schema: schemaOverride,
+  title,
 }: DynamicPropertiesFormProps) {
   // T047: Track validation errors for all fields
   const [fieldErrors, setFieldErrors] = React.useState<Record<string, boolean>>({});
@@ -107,7 +123,7 @@ export function DynamicPropertiesForm({
 
   // T020: Fetch propertySchema from registry using getEntityTypeConfig
   const config = getEntityTypeConfig(entityType);
-  const schema = config?.propertySchema;
+  const schema = schemaOverride ?? config?.propertySchema;
 
   // T047: Notify parent when validation state changes
   React.useEffect(() => {
@@ -123,7 +139,7 @@ export function DynamicPropertiesForm({
   }
 
   // T022: Section header format: "{Entity Type Label} Properties"
-  const sectionTitle = `${config.label} Properties`;
+  const sectionTitle = title ?? `${config?.label ?? 'Custom'} Properties`;
 
   /**
    * Handle individual field value changes
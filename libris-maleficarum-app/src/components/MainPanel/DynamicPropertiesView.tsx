@@ -9,14 +9,20 @@
  * - Section header with entity type-specific title
  * - Numeric formatting with thousand separators
  * - TagArray rendering as badges
+ * - Textarea rendering as Markdown
+ * - Entity references rendered as links to the referenced entries
  * - Fallback to generic Object.entries() when schema missing
+ * - Accepts another schema and title, e.g. for a game system's systemProperties
  *
  * @module components/MainPanel/DynamicPropertiesView
  */
 
 import type { WorldEntityType } from '@/services/types/worldEntity.types';
-import { getEntityTypeConfig } from '@/services/config/entityTypeRegistry';
+import { getEntityTypeConfig, type PropertyFieldSchema } from '@/services/config/entityTypeRegistry';
 import { Badge } from '@/components/ui/badge';
+import { MarkdownRenderer } from '@/components/shared/MarkdownRenderer';
+import { EntityReferenceList } from '@/components/shared/EntityReferencePicker';
+import { toEntityReferenceItems } from '@/lib/entityReferences';
 
 /**
  * Props for the DynamicPropertiesView component
@@ -37,6 +43,19 @@ export interface DynamicPropertiesViewProps {
    * @required
    */
   value: Record<string, unknown> | null;
+
+  /**
+   * Fields to render instead of the entity type's propertySchema
+   * - Used for a game system's systemProperties fields
+   * @optional
+   */
+  schema?: readonly PropertyFieldSchema[];
+
+  /**
+   * Section header instead of `"{Entity Type Label} Properties"`
+   * @optional
+   */
+  title?: string;
 }
 
 /**
@@ -57,6 +76,7 @@ function formatNumericValue(value: number): string {
  * Render formatted field value based on schema type
  *
  * @param fieldKey - Schema field key
+ * @param fieldLabel - Schema field label
  * @param fieldValue - Raw field value
  * @param fieldType - Schema field type
  * @returns Formatted JSX element
@@ -64,6 +84,7 @@ function formatNumericValue(value: number): string {
  */
 function renderFormattedValue(
   fieldKey: string,
+  fieldLabel: string,
   fieldValue: unknown,
   fieldType: string
 ): React.ReactNode {
@@ -97,8 +118,22 @@ function renderFormattedValue(
     return <span className="text-muted-foreground italic">No items</span>;
   }
 
-  // Text/textarea: render as-is with multiline support
-  if (fieldType === 'text' || fieldType === 'textarea') {
+  // Entity references: links to the referenced entries
+  if (fieldType === 'entityReference' || fieldType === 'entityReferenceArray') {
+    const items = toEntityReferenceItems(fieldValue);
+    if (items.length > 0) {
+      return <EntityReferenceList items={items} label={fieldLabel} />;
+    }
+    return <span className="text-muted-foreground italic">No items</span>;
+  }
+
+  // Textarea: render as Markdown (line breaks are kept)
+  if (fieldType === 'textarea') {
+    return <MarkdownRenderer content={String(fieldValue)} />;
+  }
+
+  // Text: render as-is with multiline support
+  if (fieldType === 'text') {
     const textValue = String(fieldValue);
     return (
       <span className="whitespace-pre-wrap">
@@ -124,7 +159,9 @@ function renderFormattedValue(
  * - Section header format: `"{Entity Type Label} Properties"` (e.g., "Geographic Region Properties")
  * - Numeric values: formatted with thousand separators (T033)
  * - TagArray values: rendered as badge chips (T034)
- * - Text/textarea: preserve multiline formatting
+ * - Text: preserve multiline formatting
+ * - Textarea: rendered as Markdown
+ * - Entity references: rendered as link chips; legacy text values as unlinked text
  *
  * @example
  * ```tsx
@@ -142,6 +179,8 @@ function renderFormattedValue(
 export function DynamicPropertiesView({
   entityType,
   value,
+  schema: schemaOverride,
+  title,
 }: DynamicPropertiesViewProps) {
   // Return null if no properties
   if (!value || Object.keys(value).length === 0) {
@@ -150,10 +189,10 @@ export function DynamicPropertiesView({
 
   // T030: Fetch propertySchema from registry using getEntityTypeConfig
   const config = getEntityTypeConfig(entityType);
-  const schema = config?.propertySchema;
+  const schema = schemaOverride ?? config?.propertySchema;
 
   // T022: Section header format: "{Entity Type Label} Properties"
-  const sectionTitle = `${config?.label || 'Custom'} Properties`;
+  const sectionTitle = title ?? `${config?.label || 'Custom'} Properties`;
 
   // T031: If schema exists, use schema-based rendering
   if (schema && schema.length > 0) {
@@ -175,7 +214,7 @@ export function DynamicPropertiesView({
                   {fieldSchema.label}
                 </dt>
                 <dd className="text-sm">
-                  {renderFormattedValue(fieldSchema.key, fieldValue, fieldSchema.type)}
+                  {renderFormattedValue(fieldSchema.key, fieldSchema.label, fieldValue, fieldSchema.type)}
                 </dd>
               </div>
             );
@@ -6,13 +6,14 @@
  *
  * Supported field types:
  * - text: Single-line text input
- * - textarea: Multi-line text input with character counter
+ * - textarea: Markdown editor with character counter
  * - integer: Numeric input with whole number validation
  * - decimal: Numeric input with decimal validation
  * - tagArray: Tag/chip input for string arrays
  * - date: Date picker with calendar popover
  * - datetime: Date and time picker combined
  * - time: Time picker (HH:mm format)
+ * - entityReference / entityReferenceArray: Searchable picker for other entries
  *
  * @module components/MainPanel/DynamicPropertyField
  */
@@ -20,13 +21,16 @@
 import * as React from 'react';
 import { format } from 'date-fns';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
+import { MarkdownEditor } from '@/components/shared/MarkdownEditor';
+import { MarkdownRenderer } from '@/components/shared/MarkdownRenderer';
 import { TagInput } from '@/components/shared/TagInput';
+import { EntityReferenceList, EntityReferencePicker } from '@/components/shared/EntityReferencePicker';
 import { DatePicker } from '@/components/ui/date-picker';
 import { DateTimePicker } from '@/components/ui/datetime-picker';
 import { TimePicker } from '@/components/ui/time-picker';
 import type { PropertyFieldSchema } from '@/services/config/entityTypeRegistry';
 import { validateField } from '@/lib/validators/propertyValidation';
+import { toEntityReferenceItems, type EntityReferenceItem } from '@/lib/entityReferences';
 import {
   formatNumericDisplay,
 } from '@/lib/validators/numericValidation';
@@ -48,6 +52,8 @@ export interface DynamicPropertyFieldProps {
    * - text/textarea: string
    * - integer/decimal: number
    * - tagArray: string[]
+   * - entityReference: { id, name }
+   * - entityReferenceArray: { id, name }[]
    */
   value: unknown;
 
@@ -242,7 +248,11 @@ export function DynamicPropertyField({
           <div className="text-sm font-medium text-muted-foreground mb-1">
             {schema.label}
           </div>
-          <div className="text-sm whitespace-pre-wrap">{localValue || '-'}</div>
+          {localValue ? (
+            <MarkdownRenderer content={localValue} className="text-sm" />
+          ) : (
+            <div className="text-sm">-</div>
+          )}
         </div>
       );
     }
@@ -258,14 +268,13 @@ export function DynamicPropertyField({
             <span className="text-destructive ml-1">*</span>
           )}
         </label>
-        <Textarea
+        <MarkdownEditor
           id={`field-${schema.key}`}
           value={localValue}
-          onChange={(e) => handleChange(e.target.value)}
+          onChange={handleChange}
           placeholder={schema.placeholder}
           disabled={disabled}
           maxLength={schema.maxLength}
-          className="min-h-24"
           aria-invalid={!!error}
           aria-describedby={error ? `${schema.key}-error` : undefined}
         />
@@ -668,6 +677,75 @@ export function DynamicPropertyField({
     );
   }
 
+  // Entity reference field type rendering
+  if (schema.type === 'entityReference' || schema.type === 'entityReferenceArray') {
+    const multiple = schema.type === 'entityReferenceArray';
+    const items = toEntityReferenceItems(value);
+
+    const handleChange = (newItems: EntityReferenceItem[]) => {
+      if (multiple) {
+        onChange(newItems.length > 0 ? newItems : undefined);
+      } else {
+        onChange(newItems[0]);
+      }
+    };
+
+    if (readOnly) {
+      return (
+        <div>
+          <div className="text-sm font-medium text-muted-foreground mb-1">
+            {schema.label}
+          </div>
+          {items.length > 0 ? (
+            <EntityReferenceList items={items} label={schema.label} />
+          ) : (
+            <div className="text-sm">-</div>
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <div>
+        <label
+          htmlFor={`field-${schema.key}`}
+          className="block text-sm font-medium mb-3"
+        >
+          {schema.label}
+          {schema.validation?.required && (
+            <span className="text-destructive ml-1">*</span>
+          )}
+        </label>
+        <EntityReferencePicker
+          id={`field-${schema.key}`}
+          label={schema.label}
+          value={items}
+          onChange={handleChange}
+          multiple={multiple}
+          allowedTypes={schema.allowedTypes}
+          placeholder={schema.placeholder}
+          disabled={disabled}
+          aria-invalid={!!error}
+          aria-describedby={error ? `${schema.key}-error` : undefined}
+        />
+        {error && (
+          <span
+            id={`${schema.key}-error`}
+            className="text-xs text-destructive block mt-1"
+            role="alert"
+          >
+            {error}
+          </span>
+        )}
+        {schema.description && !error && (
+          <div className="text-xs text-muted-foreground mt-2">
+            {schema.description}
+          </div>
+        )}
+      </div>
+    );
+  }
+
   // Unknown field type - should never happen with proper TypeScript
   return (
     <div className="text-sm text-destructive">
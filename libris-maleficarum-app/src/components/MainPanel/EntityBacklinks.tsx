@@ -0,0 +1,94 @@
+/**
+ * EntityBacklinks Component
+ *
+ * "Referenced by" section below an entity's details, listing the other
+ * entries whose description or properties link to it with `[[...]]`.
+ * References are found in the world's entity index, so the list fills in as
+ * the index loads.
+ *
+ * @module components/MainPanel/EntityBacklinks
+ */
+
+import { createElement, useMemo } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAppDispatch } from '@/store/store';
+import { setSelectedEntity } from '@/store/worldSidebarSlice';
+import { useWorldEntityIndex } from '@/hooks/useWorldEntityIndex';
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+import { findEntityBacklinks } from '@/lib/entityLinks';
+import { getEntityIcon, type EntityType } from '@/lib/entityIcons';
+import { formatEntityType } from '@/lib/entityTypeHelpers';
+import { logger } from '@/lib/logger';
+
+export interface EntityBacklinksProps {
+  /** Entity whose references are listed */
+  entity: WorldEntity;
+}
+
+/**
+ * Entity backlinks component
+ *
+ * @param props - Component props
+ * @returns "Referenced by" card
+ */
+export function EntityBacklinks({ entity }: EntityBacklinksProps) {
+  const dispatch = useAppDispatch();
+  const { entities, isLoading, isError } = useWorldEntityIndex(entity.worldId);
+
+  const backlinks = useMemo(() => findEntityBacklinks(entities, entity.id), [entities, entity.id]);
+
+  const handleOpen = (referrer: WorldEntity) => {
+    logger.userAction('Open backlink', { entityId: referrer.id, referencedEntityId: entity.id });
+    dispatch(setSelectedEntity(referrer.id));
+  };
+
+  return (
+    <Card className="max-w-4xl mx-auto">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">
+          <h2>Referenced by</h2>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {backlinks.length > 0 && (
+          <ul className="space-y-1" aria-label={`Entries referring to ${entity.name}`}>
+            {backlinks.map((referrer) => (
+              <li key={referrer.id}>
+                <button
+                  type="button"
+                  className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  onClick={() => handleOpen(referrer)}
+                >
+                  {createElement(getEntityIcon(referrer.entityType as EntityType), {
+                    className: 'h-4 w-4 shrink-0 text-muted-foreground',
+                    'aria-hidden': true,
+                  })}
+                  <span className="truncate font-medium">{referrer.name}</span>
+                  <span className="ml-auto shrink-0 text-xs text-muted-foreground">
+                    {formatEntityType(referrer.entityType)}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {isLoading && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground" role="status">
+            <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+            Searching the codex for references...
+          </p>
+        )}
+
+        {!isLoading && isError && (
+          <p className="text-sm text-destructive">References could not be gathered. Please try again later.</p>
+        )}
+
+        {!isLoading && !isError && backlinks.length === 0 && (
+          <p className="text-sm text-muted-foreground italic">No other entries refer to this one.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
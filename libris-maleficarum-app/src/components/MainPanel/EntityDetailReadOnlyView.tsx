@@ -1,20 +1,29 @@
 /**
  * EntityDetailReadOnlyView Component
  *
- * Read-only display of a world entity with Edit button.
- * Displays entity name, type badge, tags, description, and custom properties.
+ * Read-only display of a world entity with Edit and Pin buttons.
+ * Displays entity name, type badge, tags, Markdown description, custom properties,
+ * and the game system's system properties, with the entry's revisions in a
+ * History tab.
  *
  * @module components/MainPanel/EntityDetailReadOnlyView
  * @see specs/008-edit-world-entity/contracts/EntityDetailReadOnlyView.contract.ts
  */
 
-import { Edit } from 'lucide-react';
+import { Edit, Pin, PinOff } from 'lucide-react';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import type { WorldEntity } from '@/services/types/worldEntity.types';
 import { formatEntityType } from '@/lib/entityTypeHelpers';
+import { logger } from '@/lib/logger';
+import { MAX_PINNED_ITEMS, useSearchHistory } from '@/hooks/useSearchHistory';
+import { useWorldGameSystem } from '@/hooks/useWorldGameSystem';
+import { getGameSystemForSchemaId, getSystemPropertySchema } from '@/services/config/gameSystemRegistry';
+import { MarkdownRenderer } from '@/components/shared/MarkdownRenderer';
 import { DynamicPropertiesView } from './DynamicPropertiesView';
+import { EntityRevisionHistory } from './EntityRevisionHistory';
 
 export interface EntityDetailReadOnlyViewProps {
   /** Entity to display in read-only mode */
@@ -38,6 +47,15 @@ export function EntityDetailReadOnlyView({
   onEditClick,
   disableEdit = false,
 }: EntityDetailReadOnlyViewProps) {
+  const { isPinned, canPin, togglePinnedEntity } = useSearchHistory(entity.worldId);
+  const pinned = isPinned(entity.id);
+  const [worldGameSystem] = useWorldGameSystem(entity.worldId);
+
+  const handleTogglePin = () => {
+    logger.userAction(pinned ? 'Unpin entity' : 'Pin entity', { entityId: entity.id });
+    togglePinnedEntity(entity);
+  };
+
   const hasDescription = entity.description && entity.description.trim().length > 0;
 
   const customProperties = entity.properties ?? null;
@@ -47,6 +65,14 @@ export function EntityDetailReadOnlyView({
     typeof customProperties === 'object' &&
     Object.keys(customProperties).length > 0;
 
+  // Entries keep the game system they were written for; others follow the world's
+  const gameSystem = getGameSystemForSchemaId(entity.schemaId) ?? worldGameSystem;
+  const systemProperties = entity.systemProperties ?? null;
+  const hasSystemProperties =
+    systemProperties &&
+    typeof systemProperties === 'object' &&
+    Object.keys(systemProperties).length > 0;
+
   return (
     <div className="max-w-4xl mx-auto space-y-6">
       <Card>
@@ -65,40 +91,79 @@ export function EntityDetailReadOnlyView({
             </div>
           </div>
 
-          <Button
-            variant="outline"
-            size="default"
-            onClick={onEditClick}
-            disabled={disableEdit}
-            aria-label={`Edit ${entity.name}`}
-            tabIndex={0}
-            className="shrink-0"
-          >
-            <Edit className="mr-2 h-4 w-4" aria-hidden="true" />
-            Edit
-          </Button>
+          <div className="flex items-center gap-2 shrink-0">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={handleTogglePin}
+              disabled={!pinned && !canPin}
+              aria-pressed={pinned}
+              aria-label={pinned ? `Unpin ${entity.name}` : `Pin ${entity.name}`}
+              title={
+                !pinned && !canPin
+                  ? `At most ${MAX_PINNED_ITEMS} entries can be pinned`
+                  : pinned
+                    ? 'Unpin from the sidebar'
+                    : 'Pin to the sidebar'
+              }
+            >
+              {pinned ? <PinOff className="h-4 w-4" aria-hidden="true" /> : <Pin className="h-4 w-4" aria-hidden="true" />}
+            </Button>
+            <Button
+              variant="outline"
+              size="default"
+              onClick={onEditClick}
+              disabled={disableEdit}
+              aria-label={`Edit ${entity.name}`}
+              tabIndex={0}
+            >
+              <Edit className="mr-2 h-4 w-4" aria-hidden="true" />
+              Edit
+            </Button>
+          </div>
         </CardHeader>
 
-        <CardContent className="space-y-6">
-          {/* Description */}
-          <div>
-            <h2 className="text-lg font-semibold mb-2">Description</h2>
-            {hasDescription ? (
-              <p className="prose dark:prose-invert max-w-none whitespace-pre-wrap">
-                {entity.description}
-              </p>
-            ) : (
-              <p className="text-muted-foreground italic">No lore has been inscribed for this entry.</p>
-            )}
-          </div>
+        <CardContent>
+          <Tabs defaultValue="details" className="gap-6">
+            <TabsList aria-label="Entry views">
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="details" className="space-y-6">
+              {/* Description */}
+              <div>
+                <h2 className="text-lg font-semibold mb-2">Description</h2>
+                {hasDescription ? (
+                  <MarkdownRenderer content={entity.description!} />
+                ) : (
+                  <p className="text-muted-foreground italic">No lore has been inscribed for this entry.</p>
+                )}
+              </div>
+
+              {/* T035: Custom Properties using DynamicPropertiesView */}
+              {hasCustomProperties && customProperties && (
+                <DynamicPropertiesView
+                  entityType={entity.entityType}
+                  value={customProperties}
+                />
+              )}
+
+              {/* System properties of the game system, or as stored when no system describes them */}
+              {hasSystemProperties && systemProperties && (
+                <DynamicPropertiesView
+                  entityType={entity.entityType}
+                  value={systemProperties}
+                  schema={getSystemPropertySchema(gameSystem?.id, entity.entityType) ?? []}
+                  title={gameSystem ? `System: ${gameSystem.abbreviation}` : 'System'}
+                />
+              )}
+            </TabsContent>
 
-          {/* T035: Custom Properties using DynamicPropertiesView */}
-          {hasCustomProperties && customProperties && (
-            <DynamicPropertiesView
-              entityType={entity.entityType}
-              value={customProperties}
-            />
-          )}
+            <TabsContent value="history">
+              <EntityRevisionHistory entity={entity} />
+            </TabsContent>
+          </Tabs>
         </CardContent>
       </Card>
     </div>
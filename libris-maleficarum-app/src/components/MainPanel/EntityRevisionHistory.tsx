@@ -0,0 +1,122 @@
+/**
+ * EntityRevisionHistory Component
+ *
+ * "History" tab of the entry details: the revisions recorded on this device,
+ * newest first. Choosing a revision shows what changed in that save, field by
+ * field (properties per the registry schema), and offers to restore the entry
+ * to it.
+ *
+ * @module components/MainPanel/EntityRevisionHistory
+ */
+
+import { useState } from 'react';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+import { useEntityRevisions } from '@/hooks/useEntityRevisions';
+import { getRevisionDiff } from '@/lib/revisionDiff';
+import { cn } from '@/lib/utils';
+import { FieldChangesTable } from './FieldChangesTable';
+
+export interface EntityRevisionHistoryProps {
+  /** Entry whose history is shown */
+  entity: WorldEntity;
+}
+
+function formatSavedAt(savedAt: string): string {
+  return new Date(savedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/**
+ * EntityRevisionHistory component
+ *
+ * @param props - Component props
+ * @returns Revision list with the changes of the chosen revision
+ */
+export function EntityRevisionHistory({ entity }: EntityRevisionHistoryProps) {
+  const { revisions, restoreRevision, isRestoring } = useEntityRevisions(entity);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  if (revisions === null) {
+    return (
+      <div role="status" className="flex items-center gap-2 text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+        Consulting the tome...
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className="text-muted-foreground italic">
+        No revisions have been recorded for this entry yet. A revision is kept on this device each
+        time the entry is saved.
+      </p>
+    );
+  }
+
+  const selectedIndex = Math.max(0, revisions.findIndex((revision) => revision.id === selectedId));
+  const selected = revisions[selectedIndex];
+  const previous = revisions[selectedIndex + 1] ?? null;
+  const changes = getRevisionDiff(previous?.snapshot ?? null, selected.snapshot);
+  const isCurrent = selected.savedAt === entity.updatedAt;
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[14rem_1fr]">
+      <ol aria-label="Revisions" className="space-y-1">
+        {revisions.map((revision) => (
+          <li key={revision.id}>
+            <button
+              type="button"
+              onClick={() => setSelectedId(revision.id)}
+              aria-current={revision === selected ? 'true' : undefined}
+              className={cn(
+                'flex w-full items-center justify-between gap-2 rounded-md px-3 py-2 text-left text-sm transition-colors',
+                'hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                revision === selected && 'bg-accent font-medium',
+              )}
+            >
+              <time dateTime={revision.savedAt}>{formatSavedAt(revision.savedAt)}</time>
+              {revision.savedAt === entity.updatedAt && <Badge variant="secondary">Current</Badge>}
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <section aria-labelledby="revision-changes-heading" className="space-y-4 min-w-0">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 id="revision-changes-heading" className="text-lg font-semibold">
+              {previous ? 'Changes in this revision' : 'Earliest recorded revision'}
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              Saved {formatSavedAt(selected.savedAt)}
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => void restoreRevision(selected)}
+            disabled={isCurrent || isRestoring}
+          >
+            {isRestoring ? (
+              <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+            ) : (
+              <RotateCcw className="h-4 w-4" aria-hidden="true" />
+            )}
+            Restore This Revision
+          </Button>
+        </div>
+
+        {changes.length === 0 ? (
+          <p className="flex items-center gap-2 text-muted-foreground italic">
+            <History className="h-4 w-4" aria-hidden="true" />
+            Nothing was changed in this save.
+          </p>
+        ) : (
+          <FieldChangesTable changes={changes} />
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,347 @@
+/**
+ * EntityTemplateDialog Component
+ *
+ * Dialog for entity templates, opened from the entity context menu and the
+ * create form:
+ * - "Save as Template..." stores an entity, optionally with its descendants,
+ *   as a named template for this world or for all of the user's worlds
+ * - "New from Template..." creates entries from a template beneath a parent,
+ *   asking for a value for each placeholder (e.g. `{{name}}`)
+ *
+ * @module components/MainPanel/EntityTemplateDialog
+ */
+
+import { useId, useState, type FormEvent } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAppDispatch, useAppSelector } from '@/store/store';
+import {
+  closeEntityForm,
+  closeTemplateDialog,
+  selectMainPanelMode,
+  selectSelectedWorldId,
+  selectTemplateDialog,
+  setSelectedEntity,
+} from '@/store/worldSidebarSlice';
+import { useGetWorldEntityByIdQuery } from '@/services/worldEntityApi';
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+import { useEntityTemplates } from '@/hooks/useEntityTemplates';
+import { useEntityTemplateCreate } from '@/hooks/useEntityTemplateCreate';
+import { useEntitySubtree } from '@/hooks/useEntitySubtree';
+import {
+  NAME_PLACEHOLDER,
+  countTemplateEntities,
+  createEntityTemplate,
+  getTemplatePlaceholders,
+  type EntityTemplateScope,
+} from '@/lib/entityTemplates';
+import { logger } from '@/lib/logger';
+
+/**
+ * Entity template dialog component
+ *
+ * @returns Dialog shown while an entity is saved as, or created from, a template
+ */
+export function EntityTemplateDialog() {
+  const dispatch = useAppDispatch();
+  const worldId = useAppSelector(selectSelectedWorldId);
+  const templateDialog = useAppSelector(selectTemplateDialog);
+
+  const handleClose = () => {
+    dispatch(closeTemplateDialog());
+  };
+
+  return (
+    <Dialog open={!!templateDialog && !!worldId} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-lg">
+        {worldId && templateDialog?.kind === 'save' && (
+          <SaveTemplateForm
+            key={templateDialog.entityId}
+            worldId={worldId}
+            entityId={templateDialog.entityId}
+            onClose={handleClose}
+          />
+        )}
+        {worldId && templateDialog?.kind === 'create' && (
+          <CreateFromTemplateForm worldId={worldId} parentId={templateDialog.parentId} onClose={handleClose} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Options for saving a loaded entity as a template
+ */
+function SaveTemplateForm({
+  worldId,
+  entityId,
+  onClose,
+}: {
+  worldId: string;
+  entityId: string;
+  onClose: () => void;
+}) {
+  const { data: entity } = useGetWorldEntityByIdQuery({ worldId, entityId });
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Save as Template</DialogTitle>
+        <DialogDescription>
+          {entity
+            ? `New entries can be created from "${entity.name}" with "New from Template...".`
+            : 'Consulting the tome...'}
+        </DialogDescription>
+      </DialogHeader>
+      {entity && <SaveTemplateFields worldId={worldId} entity={entity} onClose={onClose} />}
+    </>
+  );
+}
+
+function SaveTemplateFields({
+  worldId,
+  entity,
+  onClose,
+}: {
+  worldId: string;
+  entity: WorldEntity;
+  onClose: () => void;
+}) {
+  const fieldId = useId();
+  const { saveTemplate } = useEntityTemplates(worldId);
+  const { collectSubtree } = useEntitySubtree();
+  const [name, setName] = useState(entity.name);
+  const [scope, setScope] = useState<EntityTemplateScope>('world');
+  const [includeChildren, setIncludeChildren] = useState(entity.hasChildren);
+  const [useNamePlaceholder, setUseNamePlaceholder] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    logger.userAction('Save entity as template', { entityId: entity.id, includeChildren, scope });
+    setIsSaving(true);
+
+    try {
+      const entities = includeChildren ? await collectSubtree(entity) : [entity];
+      saveTemplate(createEntityTemplate(name, entities, { scope, useNamePlaceholder }));
+    } catch (error) {
+      logger.error('API', 'Failed to load entities for template', { entityId: entity.id, error });
+      toast.error(`"${entity.name}" could not be saved as a template`, {
+        description: 'Its descendants could not be loaded. Please try again.',
+      });
+      return;
+    } finally {
+      setIsSaving(false);
+    }
+
+    toast.success(`Template "${name.trim()}" was saved`);
+    onClose();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <label htmlFor={`${fieldId}-name`} className="block text-sm font-medium">
+          Template name <span className="text-destructive">*</span>
+        </label>
+        <Input
+          id={`${fieldId}-name`}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={100}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor={`${fieldId}-scope`} className="block text-sm font-medium">
+          Available in
+        </label>
+        <Select value={scope} onValueChange={(value) => setScope(value as EntityTemplateScope)}>
+          <SelectTrigger id={`${fieldId}-scope`} aria-label="Available in">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="world">This world</SelectItem>
+            <SelectItem value="user">All my worlds</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {entity.hasChildren && (
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="h-4 w-4 accent-primary"
+            checked={includeChildren}
+            onChange={(e) => setIncludeChildren(e.target.checked)}
+          />
+          Include descendants
+        </label>
+      )}
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          className="h-4 w-4 accent-primary"
+          checked={useNamePlaceholder}
+          onChange={(e) => setUseNamePlaceholder(e.target.checked)}
+        />
+        {`Replace "${entity.name}" with {{${NAME_PLACEHOLDER}}}`}
+      </label>
+
+      <DialogFooter className="gap-2">
+        <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving || !name.trim()}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />}
+          Save Template
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+/**
+ * Template choice and placeholder values for creating entries
+ */
+function CreateFromTemplateForm({
+  worldId,
+  parentId,
+  onClose,
+}: {
+  worldId: string;
+  parentId: string | null;
+  onClose: () => void;
+}) {
+  const dispatch = useAppDispatch();
+  const fieldId = useId();
+  const mainPanelMode = useAppSelector(selectMainPanelMode);
+  const { templates } = useEntityTemplates(worldId);
+  const { createFromTemplate, isCreating } = useEntityTemplateCreate();
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const { data: parent } = useGetWorldEntityByIdQuery(
+    { worldId, entityId: parentId! },
+    { skip: !parentId },
+  );
+
+  const template = templates.find(({ id }) => id === templateId) ?? null;
+  const placeholders = template ? getTemplatePlaceholders(template) : [];
+  const entryCount = template ? countTemplateEntities(template.root) : 0;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!template || !values[NAME_PLACEHOLDER]?.trim()) return;
+
+    const trimmed = Object.fromEntries(Object.entries(values).map(([key, value]) => [key, value.trim()]));
+    const top = await createFromTemplate(template, trimmed, parentId);
+    if (!top) return;
+
+    onClose();
+    if (mainPanelMode === 'creating_entity') {
+      dispatch(closeEntityForm());
+    }
+    dispatch(setSelectedEntity(top.id));
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>New from Template</DialogTitle>
+        <DialogDescription>
+          {parentId
+            ? `Create entries from a template beneath "${parent?.name ?? '...'}".`
+            : 'Create entries from a template at the root of the codex.'}
+        </DialogDescription>
+      </DialogHeader>
+
+      {templates.length === 0 ? (
+        <>
+          <p className="text-sm text-muted-foreground">
+            No templates have been inscribed yet. Save an entry as a template from its context menu.
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          </DialogFooter>
+        </>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <label htmlFor={`${fieldId}-template`} className="block text-sm font-medium">
+              Template
+            </label>
+            <Select value={templateId ?? ''} onValueChange={setTemplateId}>
+              <SelectTrigger id={`${fieldId}-template`} aria-label="Template">
+                <SelectValue placeholder="Choose a template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(({ id, name, scope }) => (
+                  <SelectItem key={id} value={id}>
+                    {name}
+                    {scope === 'user' && <span className="text-xs text-muted-foreground">(all worlds)</span>}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {template && (
+              <p className="text-sm text-muted-foreground">
+                {entryCount === 1 ? 'Creates 1 entry.' : `Creates ${entryCount} entries.`}
+              </p>
+            )}
+          </div>
+
+          {placeholders.map((key) => (
+            <div key={key} className="space-y-2">
+              <label htmlFor={`${fieldId}-${key}`} className="block text-sm font-medium">
+                {key === NAME_PLACEHOLDER ? 'Name' : `{{${key}}}`}
+                {key === NAME_PLACEHOLDER && <span className="text-destructive"> *</span>}
+              </label>
+              <Input
+                id={`${fieldId}-${key}`}
+                value={values[key] ?? ''}
+                onChange={(e) => setValues((current) => ({ ...current, [key]: e.target.value }))}
+                maxLength={key === NAME_PLACEHOLDER ? 100 : undefined}
+                required={key === NAME_PLACEHOLDER}
+              />
+            </div>
+          ))}
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isCreating}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isCreating || !template || !values[NAME_PLACEHOLDER]?.trim()}>
+              {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </form>
+      )}
+    </>
+  );
+}
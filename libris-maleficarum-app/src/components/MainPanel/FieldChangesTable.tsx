@@ -0,0 +1,49 @@
+/**
+ * FieldChangesTable Component
+ *
+ * Field-by-field comparison of two versions of an entry: one row per changed
+ * field with its value before and after. Used by the revision history and the
+ * schema upgrade preview.
+ *
+ * @module components/MainPanel/FieldChangesTable
+ */
+
+import type { FieldChange } from '@/lib/revisionDiff';
+
+export interface FieldChangesTableProps {
+  /** Changed fields, in display order */
+  changes: FieldChange[];
+}
+
+/**
+ * FieldChangesTable component
+ *
+ * @param props - Component props
+ * @returns Table of the changed fields
+ */
+export function FieldChangesTable({ changes }: FieldChangesTableProps) {
+  return (
+    <table className="w-full table-fixed text-sm">
+      <thead>
+        <tr className="border-b border-border text-left text-muted-foreground">
+          <th scope="col" className="w-1/5 py-2 pr-4 font-medium">Field</th>
+          <th scope="col" className="py-2 pr-4 font-medium">Before</th>
+          <th scope="col" className="py-2 font-medium">After</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map((change) => (
+          <tr key={change.field} className="border-b border-border/50 align-top">
+            <th scope="row" className="py-2 pr-4 text-left font-medium">{change.label}</th>
+            <td className="py-2 pr-4 whitespace-pre-wrap break-words text-destructive line-through decoration-destructive/50">
+              {change.before || <span className="text-muted-foreground no-underline">—</span>}
+            </td>
+            <td className="py-2 whitespace-pre-wrap break-words text-emerald-700 dark:text-emerald-400">
+              {change.after || <span className="text-muted-foreground">—</span>}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
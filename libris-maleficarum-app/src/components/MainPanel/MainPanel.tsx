@@ -6,6 +6,10 @@ import { useGetWorldByIdQuery } from '@/services/worldApi';
 import { WorldDetailForm } from './WorldDetailForm';
 import { EntityDetailForm as WorldEntityForm } from './WorldEntityForm';
 import { EntityDetailReadOnlyView } from './EntityDetailReadOnlyView';
+import { EntityBacklinks } from './EntityBacklinks';
+import { MoveEntityPanel } from './MoveEntityPanel';
+import { TrashPanel } from './TrashPanel';
+import { RelationshipGraphPanel } from './RelationshipGraphPanel';
 import { Loader2 } from 'lucide-react';
 
 export function MainPanel() {
@@ -51,6 +55,21 @@ export function MainPanel() {
     return <WorldEntityForm />;
   }
 
+  // Moving Entity Mode
+  if (mainPanelMode === 'moving_entity') {
+    return <MoveEntityPanel />;
+  }
+
+  // Trash Mode
+  if (mainPanelMode === 'viewing_trash') {
+    return <TrashPanel />;
+  }
+
+  // Relationship Graph Mode
+  if (mainPanelMode === 'viewing_graph') {
+    return <RelationshipGraphPanel />;
+  }
+
   // Initial Welcome State (No Entity Selected)
   if (!selectedEntityId) {
     return (
@@ -119,8 +138,9 @@ export function MainPanel() {
 
   // Entity Details View (mainPanelMode === 'viewing_entity')
   return (
-    <main className="flex-1 p-6 overflow-auto">
+    <main className="flex-1 p-6 overflow-auto space-y-6">
       <EntityDetailReadOnlyView entity={entity} onEditClick={handleEditClick} />
+      <EntityBacklinks entity={entity} />
     </main>
   );
 }
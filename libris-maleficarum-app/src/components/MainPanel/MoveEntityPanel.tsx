@@ -0,0 +1,168 @@
+/**
+ * MoveEntityPanel Component
+ *
+ * Main panel view for relocating an entity (mainPanelMode === 'moving_entity').
+ * Shows the entity's current location, a searchable destination tree that loads
+ * children lazily, a "top level" option gated by `canBeRoot`, and a preview of
+ * the new path before calling `moveWorldEntity`.
+ *
+ * @module components/MainPanel/MoveEntityPanel
+ */
+
+import { useState, type FormEvent } from 'react';
+import { AlertTriangle, FolderInput, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { FormActions } from '@/components/ui/form-actions';
+import { FormLayout } from '@/components/ui/form-layout';
+import { EntityDestinationPicker, type MoveDestination } from '@/components/shared/EntityDestinationPicker';
+import { EntityPathBreadcrumb } from '@/components/shared/EntityPathBreadcrumb';
+import { useAppDispatch, useAppSelector } from '@/store/store';
+import {
+  closeMoveEntity,
+  selectMovingEntityId,
+  selectSelectedWorldId,
+  setSelectedEntity,
+} from '@/store/worldSidebarSlice';
+import { useGetWorldEntityByIdQuery } from '@/services/worldEntityApi';
+import { useEntityMove } from '@/hooks/useEntityMove';
+import { validateEntityMove } from '@/lib/entityHierarchy';
+
+const MOVE_FORM_ID = 'move-entity-form';
+
+/**
+ * Move entity panel component
+ *
+ * @returns Move panel UI
+ */
+export function MoveEntityPanel() {
+  const dispatch = useAppDispatch();
+  const worldId = useAppSelector(selectSelectedWorldId);
+  const movingEntityId = useAppSelector(selectMovingEntityId);
+  const { moveEntity, isMoving } = useEntityMove();
+
+  const [destination, setDestination] = useState<MoveDestination | null>(null);
+
+  const { data: entity, isLoading, isError } = useGetWorldEntityByIdQuery(
+    { worldId: worldId!, entityId: movingEntityId! },
+    { skip: !worldId || !movingEntityId },
+  );
+
+  const handleClose = () => {
+    dispatch(closeMoveEntity());
+  };
+
+  if (isLoading) {
+    return (
+      <main className="flex-1 p-6 overflow-auto flex items-center justify-center h-full">
+        <div role="status" aria-label="Consulting the tome" className="flex flex-col items-center gap-2 text-muted-foreground">
+          <Loader2 className="h-8 w-8 animate-spin" />
+          <p>Consulting the tome...</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (isError || !entity || !worldId) {
+    return (
+      <FormLayout onBack={handleClose} backLabel="Back to codex">
+        <Card className="border-destructive/50">
+          <CardHeader>
+            <CardTitle className="text-destructive">The Scroll Is Damaged</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-muted-foreground">
+              The entry you wish to move could not be recovered from the grimoire.
+            </p>
+          </CardContent>
+        </Card>
+      </FormLayout>
+    );
+  }
+
+  const target = destination?.kind === 'entity' ? destination.entity : null;
+  const validation = destination ? validateEntityMove(entity, target) : null;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!destination || !validation?.canMove) return;
+
+    const moved = await moveEntity(entity, target);
+    if (moved) {
+      dispatch(closeMoveEntity());
+      dispatch(setSelectedEntity(entity.id));
+    }
+  };
+
+  return (
+    <FormLayout
+      onBack={handleClose}
+      backLabel="Back to codex"
+      aria-label={`Move ${entity.name}`}
+      footer={
+        <FormActions
+          submitLabel="Move Entry"
+          submitIcon={FolderInput}
+          submitFormId={MOVE_FORM_ID}
+          onCancel={handleClose}
+          isLoading={isMoving}
+          isSubmitDisabled={!validation?.canMove}
+        />
+      }
+    >
+      <form id={MOVE_FORM_ID} onSubmit={handleSubmit} className="space-y-6">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">Move "{entity.name}"</h1>
+          <EntityPathBreadcrumb
+            worldId={worldId}
+            ancestorIds={entity.path}
+            leafLabel={entity.name}
+            label="Current location"
+          />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Choose a new home</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <EntityDestinationPicker
+              worldId={worldId}
+              movingEntityIds={[entity.id]}
+              value={destination}
+              onChange={setDestination}
+              validate={(candidate) => validateEntityMove(entity, candidate)}
+            />
+          </CardContent>
+        </Card>
+
+        {destination && validation && (
+          <Card>
+            <CardHeader>
+              <CardTitle>New location</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <EntityPathBreadcrumb
+                worldId={worldId}
+                ancestorIds={target ? [...target.path, target.id] : []}
+                leafLabel={entity.name}
+                label="New location"
+              />
+              {validation.canMove ? (
+                validation.warning && (
+                  <p className="flex items-center gap-2 text-sm text-amber-600 dark:text-amber-400">
+                    <AlertTriangle className="h-4 w-4 shrink-0" aria-hidden="true" />
+                    {validation.warning}
+                  </p>
+                )
+              ) : (
+                <p role="alert" className="text-sm text-destructive">
+                  {validation.reason}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </form>
+    </FormLayout>
+  );
+}
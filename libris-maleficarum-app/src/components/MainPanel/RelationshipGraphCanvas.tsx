@@ -0,0 +1,266 @@
+/**
+ * RelationshipGraphCanvas Component
+ *
+ * Draws a laid-out relationship graph as SVG. Entities are shown as their
+ * type icon with their name; hierarchy edges are dashed, property references
+ * are arrows labelled on hover, and wiki-link mentions are faint arrows.
+ *
+ * The view is panned by dragging the background and zoomed with the mouse
+ * wheel or the zoom buttons. Nodes can be reached with Tab and opened with
+ * Enter or a click.
+ *
+ * @module components/MainPanel/RelationshipGraphCanvas
+ */
+
+import { createElement, useEffect, useState, type KeyboardEvent, type PointerEvent, type RefObject } from 'react';
+import { Maximize, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getEntityIcon, type EntityType } from '@/lib/entityIcons';
+import { formatEntityType } from '@/lib/entityTypeHelpers';
+import {
+  getGraphBounds,
+  type GraphBounds,
+  type NodePosition,
+  type RelationshipEdge,
+  type RelationshipGraph,
+} from '@/lib/relationshipGraph';
+import { cn } from '@/lib/utils';
+
+/** Radius of a node's circle */
+const NODE_RADIUS = 18;
+
+const ZOOM_STEP = 1.25;
+const MIN_ZOOM = 0.2;
+const MAX_ZOOM = 5;
+
+export interface RelationshipGraphCanvasProps {
+  /** Graph to draw */
+  graph: RelationshipGraph;
+
+  /** Position of each node */
+  positions: Map<string, NodePosition>;
+
+  /** Entity at the centre of the view, highlighted */
+  focusId: string | null;
+
+  /** Called when a node is opened */
+  onSelect: (entityId: string) => void;
+
+  /** Ref to the drawing, for exporting it */
+  svgRef: RefObject<SVGSVGElement | null>;
+
+  /** Accessible name of the drawing */
+  label: string;
+}
+
+const EDGE_CLASSES: Record<RelationshipEdge['kind'], string> = {
+  hierarchy: 'stroke-muted-foreground/60',
+  reference: 'stroke-primary',
+  mention: 'stroke-primary/40',
+};
+
+/**
+ * Relationship graph canvas component
+ *
+ * @param props - Component props
+ * @returns Pannable, zoomable graph drawing
+ */
+export function RelationshipGraphCanvas({
+  graph,
+  positions,
+  focusId,
+  onSelect,
+  svgRef,
+  label,
+}: RelationshipGraphCanvasProps) {
+  const bounds = getGraphBounds(positions);
+  const boundsKey = `${bounds.x},${bounds.y},${bounds.width},${bounds.height}`;
+  const [view, setView] = useState<{ key: string; box: GraphBounds }>({ key: boundsKey, box: bounds });
+  const [drag, setDrag] = useState<{ pointerId: number; clientX: number; clientY: number } | null>(null);
+
+  // A new layout resets the view to show the whole graph
+  const box = view.key === boundsKey ? view.box : bounds;
+  const setBox = (next: GraphBounds) => setView({ key: boundsKey, box: next });
+
+  const zoom = (factor: number, origin = { x: box.x + box.width / 2, y: box.y + box.height / 2 }) => {
+    const scale = bounds.width / (box.width / factor);
+    if (scale < MIN_ZOOM || scale > MAX_ZOOM) return;
+    setBox({
+      x: origin.x - (origin.x - box.x) / factor,
+      y: origin.y - (origin.y - box.y) / factor,
+      width: box.width / factor,
+      height: box.height / factor,
+    });
+  };
+
+  // React registers wheel listeners as passive, so zooming needs its own listener
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const origin =
+        rect.width > 0 && rect.height > 0
+          ? {
+              x: box.x + ((event.clientX - rect.left) / rect.width) * box.width,
+              y: box.y + ((event.clientY - rect.top) / rect.height) * box.height,
+            }
+          : undefined;
+      zoom(event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, origin);
+    };
+
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  });
+
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    if (event.target !== event.currentTarget || event.button !== 0) return;
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    setDrag({ pointerId: event.pointerId, clientX: event.clientX, clientY: event.clientY });
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    if (rect.width === 0) return;
+
+    const unitsPerPixel = box.width / rect.width;
+    setBox({
+      ...box,
+      x: box.x - (event.clientX - drag.clientX) * unitsPerPixel,
+      y: box.y - (event.clientY - drag.clientY) * unitsPerPixel,
+    });
+    setDrag({ ...drag, clientX: event.clientX, clientY: event.clientY });
+  };
+
+  const handlePointerUp = () => setDrag(null);
+
+  const handleNodeKeyDown = (event: KeyboardEvent<SVGGElement>, entityId: string) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      onSelect(entityId);
+    }
+  };
+
+  const names = new Map(graph.nodes.map((node) => [node.id, node.name]));
+  const markerId = 'relationship-graph-arrow';
+
+  return (
+    <div className="relative overflow-hidden rounded-lg border bg-card">
+      <div className="absolute right-2 top-2 z-10 flex gap-1">
+        <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => zoom(ZOOM_STEP)} aria-label="Zoom in">
+          <ZoomIn className="h-3.5 w-3.5" aria-hidden="true" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => zoom(1 / ZOOM_STEP)}
+          aria-label="Zoom out"
+        >
+          <ZoomOut className="h-3.5 w-3.5" aria-hidden="true" />
+        </Button>
+        <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => setBox(bounds)} aria-label="Fit graph">
+          <Maximize className="h-3.5 w-3.5" aria-hidden="true" />
+        </Button>
+      </div>
+
+      <svg
+        ref={svgRef}
+        role="group"
+        aria-label={label}
+        viewBox={`${box.x} ${box.y} ${box.width} ${box.height}`}
+        className={cn('block h-[32rem] w-full touch-none select-none', drag ? 'cursor-grabbing' : 'cursor-grab')}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <defs>
+          <marker id={markerId} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto">
+            <path d="M 0 0 L 10 5 L 0 10 z" className="fill-primary" />
+          </marker>
+        </defs>
+
+        {graph.edges.map((edge) => {
+          const from = positions.get(edge.source);
+          const to = positions.get(edge.target);
+          if (!from || !to) return null;
+
+          // Stop the line at the edge of each node's circle
+          const length = Math.max(Math.hypot(to.x - from.x, to.y - from.y), 1);
+          const ux = (to.x - from.x) / length;
+          const uy = (to.y - from.y) / length;
+          const description =
+            edge.kind === 'hierarchy'
+              ? `${names.get(edge.target)} is within ${names.get(edge.source)}`
+              : edge.kind === 'reference'
+                ? `${names.get(edge.source)} — ${edge.label}: ${names.get(edge.target)}`
+                : `${names.get(edge.source)} mentions ${names.get(edge.target)}`;
+
+          return (
+            <line
+              key={`${edge.kind}-${edge.source}-${edge.target}-${edge.label ?? ''}`}
+              x1={from.x + ux * NODE_RADIUS}
+              y1={from.y + uy * NODE_RADIUS}
+              x2={to.x - ux * (NODE_RADIUS + 2)}
+              y2={to.y - uy * (NODE_RADIUS + 2)}
+              className={EDGE_CLASSES[edge.kind]}
+              strokeWidth={edge.kind === 'reference' ? 2 : 1.5}
+              strokeDasharray={edge.kind === 'hierarchy' ? '4 4' : undefined}
+              markerEnd={edge.kind === 'hierarchy' ? undefined : `url(#${markerId})`}
+              data-edge-kind={edge.kind}
+            >
+              <title>{description}</title>
+            </line>
+          );
+        })}
+
+        {graph.nodes.map((node) => {
+          const position = positions.get(node.id);
+          if (!position) return null;
+          const isFocus = node.id === focusId;
+
+          return (
+            <g
+              key={node.id}
+              transform={`translate(${position.x} ${position.y})`}
+              role="button"
+              tabIndex={0}
+              aria-label={`${node.name} (${formatEntityType(node.entityType)})`}
+              className="group cursor-pointer focus:outline-none"
+              onClick={() => onSelect(node.id)}
+              onKeyDown={(event) => handleNodeKeyDown(event, node.id)}
+            >
+              <circle
+                r={NODE_RADIUS}
+                className={cn(
+                  'fill-background stroke-border group-hover:stroke-primary group-focus-visible:stroke-ring',
+                  isFocus && 'fill-primary/10 stroke-primary',
+                )}
+                strokeWidth={isFocus ? 3 : 1.5}
+              />
+              {createElement(getEntityIcon(node.entityType as EntityType), {
+                x: -9,
+                y: -9,
+                width: 18,
+                height: 18,
+                className: isFocus ? 'text-primary' : 'text-foreground',
+                'aria-hidden': true,
+              })}
+              <text
+                y={NODE_RADIUS + 14}
+                textAnchor="middle"
+                className={cn('fill-foreground text-[11px]', isFocus && 'font-semibold')}
+              >
+                {node.name.length > 24 ? `${node.name.slice(0, 23)}…` : node.name}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
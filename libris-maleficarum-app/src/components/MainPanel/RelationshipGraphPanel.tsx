@@ -0,0 +1,323 @@
+/**
+ * RelationshipGraphPanel Component
+ *
+ * Main panel view of the web of relationships in a world
+ * (mainPanelMode === 'viewing_graph'). Entities are drawn as nodes joined by
+ * their hierarchy, their reference properties and the wiki links in their
+ * lore. The graph can be narrowed by entity type and tags, or to the
+ * neighbourhood of one entry, and saved as an SVG or PNG image.
+ *
+ * The graph is only built once every entry has been loaded. Graphs of more
+ * than MAX_GRAPH_NODES entries are not drawn; the user is asked to narrow them
+ * first.
+ *
+ * Opening a node selects its entry, which leaves the graph for the entry's
+ * details.
+ *
+ * @module components/MainPanel/RelationshipGraphPanel
+ */
+
+import { useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { FormLayout } from '@/components/ui/form-layout';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TagInput, type TagSuggestion } from '@/components/shared/TagInput';
+import { useAppDispatch, useAppSelector } from '@/store/store';
+import {
+  closeRelationshipGraph,
+  selectSelectedEntityId,
+  selectSelectedWorldId,
+  setSelectedEntity,
+} from '@/store/worldSidebarSlice';
+import { useGetWorldByIdQuery } from '@/services/worldApi';
+import { useWorldEntityIndex } from '@/hooks/useWorldEntityIndex';
+import {
+  EMPTY_RELATIONSHIP_GRAPH_FILTER,
+  MAX_GRAPH_NODES,
+  buildRelationshipGraph,
+  filterRelationshipGraph,
+  getGraphBounds,
+  layoutRelationshipGraph,
+  type NodePosition,
+  type RelationshipGraph,
+  type RelationshipGraphFilter,
+} from '@/lib/relationshipGraph';
+import { downloadBlob, renderSvgToPng, serializeSvg, toFileName } from '@/lib/svgExport';
+import { formatEntityType } from '@/lib/entityTypeHelpers';
+import { logger } from '@/lib/logger';
+import { RelationshipGraphCanvas } from './RelationshipGraphCanvas';
+
+const ALL_TYPES = 'all';
+const WHOLE_WORLD = 'world';
+const HOP_OPTIONS = [1, 2, 3];
+
+/** Scale of exported PNG images, for sharper text */
+const PNG_SCALE = 2;
+
+const EMPTY_GRAPH: RelationshipGraph = { nodes: [], edges: [] };
+
+/**
+ * Relationship graph panel component
+ *
+ * @returns Relationship graph view UI
+ */
+export function RelationshipGraphPanel() {
+  const dispatch = useAppDispatch();
+  const worldId = useAppSelector(selectSelectedWorldId);
+  const selectedEntityId = useAppSelector(selectSelectedEntityId);
+  const { data: world } = useGetWorldByIdQuery(worldId ?? '', { skip: !worldId });
+  const { entities, isLoading, isError } = useWorldEntityIndex(worldId);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+
+  // Open on the neighbourhood of the entry that was being viewed
+  const [filter, setFilter] = useState<RelationshipGraphFilter>(() =>
+    selectedEntityId
+      ? { ...EMPTY_RELATIONSHIP_GRAPH_FILTER, focusId: selectedEntityId, hops: 2 }
+      : EMPTY_RELATIONSHIP_GRAPH_FILTER,
+  );
+
+  // Wait for the whole index rather than redrawing after every page
+  const graph = useMemo(() => (isLoading ? EMPTY_GRAPH : buildRelationshipGraph(entities)), [entities, isLoading]);
+  const visibleGraph = useMemo(() => filterRelationshipGraph(graph, filter), [graph, filter]);
+  const focusId = visibleGraph.nodes.some((node) => node.id === filter.focusId) ? filter.focusId : null;
+  const isTooLarge = visibleGraph.nodes.length > MAX_GRAPH_NODES;
+  const positions = useMemo(
+    () => (isTooLarge ? new Map<string, NodePosition>() : layoutRelationshipGraph(visibleGraph, focusId)),
+    [visibleGraph, focusId, isTooLarge],
+  );
+
+  const entityTypes = useMemo(
+    () => Array.from(new Set(graph.nodes.map((node) => node.entityType))).sort(),
+    [graph],
+  );
+  const tagSuggestions = useMemo<TagSuggestion[]>(() => {
+    const counts = new Map<string, number>();
+    graph.nodes.forEach((node) => node.tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+    return Array.from(counts, ([value, count]) => ({ value, count }));
+  }, [graph]);
+
+  const worldName = world?.name ?? 'world';
+
+  const handleClose = () => {
+    dispatch(closeRelationshipGraph());
+  };
+
+  const handleSelect = (entityId: string) => {
+    logger.userAction('Open entry from relationship graph', { entityId });
+    dispatch(setSelectedEntity(entityId));
+  };
+
+  const handleExport = async (format: 'svg' | 'png') => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const bounds = getGraphBounds(positions);
+    const viewBox = svg.getAttribute('viewBox');
+    const fileName = `${toFileName(worldName)}-relationships.${format}`;
+
+    try {
+      // Export the whole graph, whatever part of it is in view
+      svg.setAttribute('viewBox', `${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}`);
+      const size = { width: Math.round(bounds.width), height: Math.round(bounds.height) };
+      const svgText = serializeSvg(svg, size);
+      if (viewBox) svg.setAttribute('viewBox', viewBox);
+
+      if (format === 'svg') {
+        downloadBlob(new Blob([svgText], { type: 'image/svg+xml' }), fileName);
+      } else {
+        const background = window.getComputedStyle(svg.parentElement ?? svg).backgroundColor || '#ffffff';
+        const png = await renderSvgToPng(
+          svgText,
+          { width: size.width * PNG_SCALE, height: size.height * PNG_SCALE },
+          background,
+        );
+        downloadBlob(png, fileName);
+      }
+      logger.userAction('Export relationship graph', { worldId, format, nodeCount: visibleGraph.nodes.length });
+    } catch (error) {
+      if (viewBox) svg.setAttribute('viewBox', viewBox);
+      logger.error('UI', 'Failed to export relationship graph', { format, error });
+      toast.error('The graph could not be exported', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  const hasEntries = graph.nodes.length > 0;
+
+  return (
+    <FormLayout onBack={handleClose} backLabel="Back to codex" aria-label="Relationship graph">
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">Relationship Graph</h1>
+          <p className="text-muted-foreground">
+            The web of allegiances, rivalries and lineage binding the entries of {world?.name ?? 'this world'}.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div role="status" aria-label="Consulting the tome" className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+            <Loader2 className="h-8 w-8 animate-spin" />
+            <p>Consulting the tome...</p>
+          </div>
+        ) : isError ? (
+          <Card className="border-destructive/50">
+            <CardHeader>
+              <CardTitle className="text-destructive">The Scroll Is Damaged</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground">The entries of this world could not be gathered.</p>
+            </CardContent>
+          </Card>
+        ) : !hasEntries ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              No entries have been inscribed in this world yet.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-2" role="search" aria-label="Filter the graph">
+              <div className="space-y-1">
+                <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Entry type</span>
+                <Select
+                  value={filter.entityType ?? ALL_TYPES}
+                  onValueChange={(entityType) =>
+                    setFilter({ ...filter, entityType: entityType === ALL_TYPES ? null : entityType })
+                  }
+                >
+                  <SelectTrigger className="h-8 w-full text-xs" aria-label="Entry type">
+                    <SelectValue placeholder="All types" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_TYPES}>All types</SelectItem>
+                    {entityTypes.map((entityType) => (
+                      <SelectItem key={entityType} value={entityType}>
+                        {formatEntityType(entityType)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-[1fr_auto] gap-2">
+                <div className="space-y-1">
+                  <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Focus</span>
+                  <Select
+                    value={filter.focusId ?? WHOLE_WORLD}
+                    onValueChange={(focusId) => setFilter({ ...filter, focusId: focusId === WHOLE_WORLD ? null : focusId })}
+                  >
+                    <SelectTrigger className="h-8 w-full text-xs" aria-label="Focus on entry">
+                      <SelectValue placeholder="Whole world" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={WHOLE_WORLD}>Whole world</SelectItem>
+                      {graph.nodes.map((node) => (
+                        <SelectItem key={node.id} value={node.id}>
+                          {node.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Reach</span>
+                  <Select
+                    value={String(filter.hops)}
+                    onValueChange={(hops) => setFilter({ ...filter, hops: Number(hops) })}
+                    disabled={!filter.focusId}
+                  >
+                    <SelectTrigger className="h-8 w-28 text-xs" aria-label="Relationships to follow">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HOP_OPTIONS.map((hops) => (
+                        <SelectItem key={hops} value={String(hops)}>
+                          {hops === 1 ? '1 step' : `${hops} steps`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <TagInput
+                label="Tags"
+                value={filter.tags}
+                onChange={(tags) => setFilter({ ...filter, tags })}
+                suggestions={tagSuggestions}
+                placeholder="Add a tag and press Enter..."
+                className="md:col-span-2"
+              />
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground" role="status">
+                {visibleGraph.nodes.length} {visibleGraph.nodes.length === 1 ? 'entry' : 'entries'},{' '}
+                {visibleGraph.edges.length} {visibleGraph.edges.length === 1 ? 'relationship' : 'relationships'}
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => handleExport('svg')} disabled={visibleGraph.nodes.length === 0 || isTooLarge}>
+                  <Download className="mr-2 h-4 w-4" aria-hidden="true" />
+                  Export SVG
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleExport('png')} disabled={visibleGraph.nodes.length === 0 || isTooLarge}>
+                  <Download className="mr-2 h-4 w-4" aria-hidden="true" />
+                  Export PNG
+                </Button>
+              </div>
+            </div>
+
+            {visibleGraph.nodes.length === 0 ? (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  No entries match these filters.
+                </CardContent>
+              </Card>
+            ) : isTooLarge ? (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  Too many entries to draw at once. Narrow the graph by entry type or tags, or focus on one entry, to
+                  show at most {MAX_GRAPH_NODES}.
+                </CardContent>
+              </Card>
+            ) : (
+              <RelationshipGraphCanvas
+                graph={visibleGraph}
+                positions={positions}
+                focusId={focusId}
+                onSelect={handleSelect}
+                svgRef={svgRef}
+                label={`Relationships in ${worldName}`}
+              />
+            )}
+
+            <ul className="flex flex-wrap gap-4 text-xs text-muted-foreground" aria-label="Legend">
+              <li className="flex items-center gap-2">
+                <svg width="24" height="6" aria-hidden="true">
+                  <line x1="0" y1="3" x2="24" y2="3" className="stroke-muted-foreground/60" strokeWidth="1.5" strokeDasharray="4 4" />
+                </svg>
+                Contains
+              </li>
+              <li className="flex items-center gap-2">
+                <svg width="24" height="6" aria-hidden="true">
+                  <line x1="0" y1="3" x2="24" y2="3" className="stroke-primary" strokeWidth="2" />
+                </svg>
+                Property reference
+              </li>
+              <li className="flex items-center gap-2">
+                <svg width="24" height="6" aria-hidden="true">
+                  <line x1="0" y1="3" x2="24" y2="3" className="stroke-primary/40" strokeWidth="1.5" />
+                </svg>
+                Mentioned in lore
+              </li>
+            </ul>
+          </>
+        )}
+      </div>
+    </FormLayout>
+  );
+}
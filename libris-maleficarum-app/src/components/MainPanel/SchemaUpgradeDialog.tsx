@@ -0,0 +1,143 @@
+/**
+ * SchemaUpgradeDialog Component
+ *
+ * Dialog upgrading every entry of a type that was written for an older
+ * schema version: it lists the outdated entries with what their upgrade
+ * changes, then applies the registry's migrations to all of them at once.
+ *
+ * @module components/MainPanel/SchemaUpgradeDialog
+ */
+
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { WorldEntityType } from '@/services/types/worldEntity.types';
+import { useWorldEntityIndex } from '@/hooks/useWorldEntityIndex';
+import { useBulkEntityActions, type BulkActionFailure } from '@/hooks/useBulkEntityActions';
+import { formatEntityType } from '@/lib/entityTypeHelpers';
+import { getEntitySchemaUpgrade } from '@/lib/schemaMigrations';
+
+export interface SchemaUpgradeDialogProps {
+  /** Whether the dialog is open */
+  open: boolean;
+
+  /** World whose entries are upgraded */
+  worldId: string;
+
+  /** Entity type whose entries are upgraded */
+  entityType: WorldEntityType;
+
+  /** Called when the dialog closes */
+  onClose: () => void;
+}
+
+const entries = (count: number) => `${count} ${count === 1 ? 'entry' : 'entries'}`;
+
+/**
+ * Schema upgrade dialog component
+ *
+ * @param props - Component props
+ * @returns Dialog upgrading the outdated entries of a type
+ */
+export function SchemaUpgradeDialog({ open, worldId, entityType, onClose }: SchemaUpgradeDialogProps) {
+  const typeLabel = formatEntityType(entityType);
+  const { entities, isLoading } = useWorldEntityIndex(worldId, { skip: !open });
+  const { upgradeEntitySchemas, isProcessing } = useBulkEntityActions();
+  const [failures, setFailures] = useState<BulkActionFailure[]>([]);
+
+  const outdated = useMemo(
+    () =>
+      entities
+        .filter((entity) => entity.entityType === entityType && !entity.isDeleted)
+        .flatMap((entity) => {
+          const upgrade = getEntitySchemaUpgrade(entity);
+          return upgrade ? [{ entity, upgrade }] : [];
+        }),
+    [entities, entityType],
+  );
+
+  const handleClose = () => {
+    setFailures([]);
+    onClose();
+  };
+
+  const handleUpgrade = async () => {
+    const outcome = await upgradeEntitySchemas(outdated.map(({ entity }) => entity.id));
+    if (outcome.failed.length === 0) {
+      toast.success(`Upgraded ${entries(outcome.succeeded.length)}`, { action: outcome.undo });
+      handleClose();
+      return;
+    }
+    setFailures(outcome.failed);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Upgrade {typeLabel} Entries</DialogTitle>
+          <DialogDescription>
+            Bring every {typeLabel} entry written for an older version of its properties up to the
+            current version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div role="status" className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+            Consulting the tome...
+          </div>
+        ) : outdated.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">
+            Every {typeLabel} entry is up to date.
+          </p>
+        ) : (
+          <ul aria-label="Entries to upgrade" className="max-h-64 space-y-1 overflow-y-auto text-sm">
+            {outdated.map(({ entity, upgrade }) => (
+              <li key={entity.id} className="flex items-baseline justify-between gap-4">
+                <span className="truncate font-medium">{entity.name}</span>
+                <span className="shrink-0 text-muted-foreground">
+                  {upgrade.changes.length === 0
+                    ? `Version ${upgrade.fromVersion}, no values change`
+                    : `Version ${upgrade.fromVersion}, ${upgrade.changes.map((change) => change.label).join(', ')}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {failures.length > 0 && (
+          <div role="alert" className="space-y-1 text-sm text-destructive">
+            <p className="font-medium">{entries(failures.length)} could not be upgraded:</p>
+            <ul className="list-disc pl-5">
+              {failures.map((failure) => (
+                <li key={failure.id}>
+                  {failure.name}: {failure.reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleClose} disabled={isProcessing}>
+            Cancel
+          </Button>
+          <Button onClick={handleUpgrade} disabled={isProcessing || isLoading || outdated.length === 0}>
+            {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />}
+            Upgrade {entries(outdated.length)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
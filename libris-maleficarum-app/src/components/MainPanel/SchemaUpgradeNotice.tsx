@@ -0,0 +1,81 @@
+/**
+ * SchemaUpgradeNotice Component
+ *
+ * Shown by the entry form when the entry being edited was written for an
+ * older schema version of its type. The registry's migrations have already
+ * been applied to the form; the notice previews what they changed, field by
+ * field, and offers to upgrade every outdated entry of the type at once.
+ *
+ * @module components/MainPanel/SchemaUpgradeNotice
+ */
+
+import { ArrowUpCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { WorldEntityType } from '@/services/types/worldEntity.types';
+import { formatEntityType } from '@/lib/entityTypeHelpers';
+import type { EntitySchemaUpgrade } from '@/lib/schemaMigrations';
+import { FieldChangesTable } from './FieldChangesTable';
+
+export interface SchemaUpgradeNoticeProps {
+  /** Entity type of the entry */
+  entityType: WorldEntityType;
+
+  /** Upgrade applied to the form */
+  upgrade: EntitySchemaUpgrade;
+
+  /** Called to upgrade every outdated entry of the type */
+  onUpgradeAll: () => void;
+
+  /** Whether the button is disabled */
+  disabled?: boolean;
+}
+
+/**
+ * Schema upgrade notice component
+ *
+ * @param props - Component props
+ * @returns Upgrade preview with the migrated fields
+ */
+export function SchemaUpgradeNotice({
+  entityType,
+  upgrade,
+  onUpgradeAll,
+  disabled = false,
+}: SchemaUpgradeNoticeProps) {
+  const typeLabel = formatEntityType(entityType);
+
+  return (
+    <section aria-label="Schema upgrade" className="mb-6 rounded-lg border border-blue-500/40 bg-blue-500/10 p-4">
+      <div className="flex flex-wrap items-start gap-3">
+        <ArrowUpCircle className="mt-0.5 h-5 w-5 shrink-0 text-blue-700 dark:text-blue-300" aria-hidden="true" />
+        <div className="min-w-0 flex-1 space-y-1">
+          <h2 className="text-sm font-semibold">
+            Upgraded from version {upgrade.fromVersion} to {upgrade.toVersion} of the {typeLabel} properties
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            This entry was written for an older version of its properties. The upgrade is saved with
+            the entry; cancel to leave it as it was.
+          </p>
+          {upgrade.migrations.length > 0 && (
+            <ul className="list-disc pl-5 text-sm text-muted-foreground">
+              {upgrade.migrations.map((migration) => (
+                <li key={migration.toVersion}>{migration.description}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={onUpgradeAll} disabled={disabled}>
+          Upgrade All {typeLabel} Entries...
+        </Button>
+      </div>
+
+      <div className="mt-3">
+        {upgrade.changes.length > 0 ? (
+          <FieldChangesTable changes={upgrade.changes} />
+        ) : (
+          <p className="text-sm text-muted-foreground italic">No stored values change.</p>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,257 @@
+/**
+ * TrashPanel Component
+ *
+ * Main panel view of a world's soft-deleted entries (mainPanelMode === 'viewing_trash').
+ * Entries are grouped by the delete operation that removed them and nested
+ * beneath their deleted parents. Each entry can be restored on its own or with
+ * its deleted descendants, or deleted forever after confirmation.
+ *
+ * An entry whose parent is still in the trash cannot be restored until the
+ * parent is.
+ *
+ * @module components/MainPanel/TrashPanel
+ */
+
+import { createElement, useEffect, useMemo, useState } from 'react';
+import { ArchiveRestore, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FormLayout } from '@/components/ui/form-layout';
+import { useAppDispatch, useAppSelector } from '@/store/store';
+import { closeTrash, selectSelectedWorldId } from '@/store/worldSidebarSlice';
+import { useGetDeletedWorldEntitiesInfiniteQuery } from '@/services/worldEntityApi';
+import { useGetDeleteOperationsQuery } from '@/services/asyncOperationsApi';
+import { useEntityTrash } from '@/hooks/useEntityTrash';
+import {
+  countTrashNodes,
+  getTrashDescendantIds,
+  groupDeletedEntities,
+  type TrashGroup,
+  type TrashNode,
+} from '@/lib/trashGroups';
+import { formatElapsedTime } from '@/lib/asyncOperationHelpers';
+import { getEntityIcon, type EntityType } from '@/lib/entityIcons';
+import { formatEntityType } from '@/lib/entityTypeHelpers';
+
+/**
+ * Trash panel component
+ *
+ * @returns Trash view UI
+ */
+export function TrashPanel() {
+  const dispatch = useAppDispatch();
+  const worldId = useAppSelector(selectSelectedWorldId);
+  const { restoreEntity, purgeEntity, isPending } = useEntityTrash();
+  const [purgeTarget, setPurgeTarget] = useState<TrashNode | null>(null);
+
+  const { data, isLoading, isError, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useGetDeletedWorldEntitiesInfiniteQuery(worldId ?? '', { skip: !worldId });
+  // Same arguments as the notification center's query, so the cached list is shared
+  const { data: operations } = useGetDeleteOperationsQuery({ worldId: worldId! }, { skip: !worldId });
+
+  // Keep loading until there is no next cursor
+  useEffect(() => {
+    if (hasNextPage && !isFetchingNextPage && !isError) {
+      void fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, isError, fetchNextPage]);
+
+  const groups = useMemo(
+    () => groupDeletedEntities(data?.pages.flatMap((page) => page.data) ?? [], operations ?? []),
+    [data, operations],
+  );
+
+  const handleClose = () => {
+    dispatch(closeTrash());
+  };
+
+  const handlePurge = async () => {
+    if (!purgeTarget) return;
+
+    const purged = await purgeEntity(purgeTarget.entity);
+    if (purged) {
+      setPurgeTarget(null);
+    }
+  };
+
+  const actions: TrashNodeActions = {
+    isPending,
+    onRestore: (node, withDescendants) =>
+      restoreEntity(node.entity, withDescendants ? getTrashDescendantIds(node) : []),
+    onPurge: setPurgeTarget,
+  };
+
+  const purgeDescendantCount = purgeTarget ? countTrashNodes(purgeTarget) - 1 : 0;
+
+  return (
+    <FormLayout onBack={handleClose} backLabel="Back to codex" aria-label="Trash">
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">Trash</h1>
+          <p className="text-muted-foreground">
+            Entries banished from this world linger here. Restore them to the codex or delete them forever.
+          </p>
+        </div>
+
+        {isLoading || hasNextPage ? (
+          <div role="status" aria-label="Consulting the tome" className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+            <Loader2 className="h-8 w-8 animate-spin" />
+            <p>Consulting the tome...</p>
+          </div>
+        ) : isError ? (
+          <Card className="border-destructive/50">
+            <CardHeader>
+              <CardTitle className="text-destructive">The Scroll Is Damaged</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground">The trash could not be recovered from the grimoire.</p>
+            </CardContent>
+          </Card>
+        ) : groups.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              The trash is empty. Nothing has been banished from this world.
+            </CardContent>
+          </Card>
+        ) : (
+          groups.map((group) => <TrashGroupCard key={group.id} group={group} actions={actions} />)
+        )}
+      </div>
+
+      <Dialog open={!!purgeTarget} onOpenChange={(open) => !open && !isPending && setPurgeTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Forever</DialogTitle>
+            <DialogDescription>
+              {purgeDescendantCount > 0
+                ? `"${purgeTarget?.entity.name}" and its ${purgeDescendantCount} deleted descendants will be lost forever.`
+                : `"${purgeTarget?.entity.name}" will be lost forever.`}{' '}
+              This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setPurgeTarget(null)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handlePurge} disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />}
+              Delete Forever
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </FormLayout>
+  );
+}
+
+interface TrashNodeActions {
+  isPending: boolean;
+  onRestore: (node: TrashNode, withDescendants: boolean) => void;
+  onPurge: (node: TrashNode) => void;
+}
+
+/**
+ * Entries removed by one delete operation
+ */
+function TrashGroupCard({ group, actions }: { group: TrashGroup; actions: TrashNodeActions }) {
+  const { operation, entityCount } = group;
+  const entries = `${entityCount} ${entityCount === 1 ? 'entry' : 'entries'}`;
+
+  return (
+    <Card data-testid="trash-group">
+      <CardHeader>
+        <CardTitle>{operation ? `Deletion of "${operation.rootEntityName}"` : 'Earlier deletions'}</CardTitle>
+        <CardDescription>
+          {operation ? `${formatElapsedTime(operation)} • ${entries}` : entries}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul role="tree" aria-label={operation ? `Deletion of ${operation.rootEntityName}` : 'Earlier deletions'}>
+          {group.roots.map((node) => (
+            <TrashNodeItem key={node.entity.id} node={node} parentName={null} actions={actions} />
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * A deleted entry with its actions, followed by its deleted children
+ */
+function TrashNodeItem({
+  node,
+  parentName,
+  actions,
+}: {
+  node: TrashNode;
+  /** Name of the deleted parent (null when the parent is not in the trash) */
+  parentName: string | null;
+  actions: TrashNodeActions;
+}) {
+  const { entity, children } = node;
+  const restoreBlockedReason = parentName ? `Restore "${parentName}" first` : undefined;
+
+  return (
+    <li role="treeitem" aria-label={entity.name} aria-expanded={children.length > 0 ? true : undefined}>
+      <div className="flex items-center gap-2 rounded py-1 hover:bg-accent/50">
+        {createElement(getEntityIcon(entity.entityType as EntityType), {
+          className: 'h-4 w-4 shrink-0 text-muted-foreground',
+          'aria-hidden': true,
+        })}
+        <span className="truncate">{entity.name}</span>
+        <span className="text-xs text-muted-foreground">{formatEntityType(entity.entityType)}</span>
+        <div className="ml-auto flex shrink-0 items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => actions.onRestore(node, false)}
+            disabled={actions.isPending || !!restoreBlockedReason}
+            title={restoreBlockedReason}
+            aria-label={`Restore ${entity.name}`}
+          >
+            <ArchiveRestore className="h-4 w-4" aria-hidden="true" />
+            Restore
+          </Button>
+          {children.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => actions.onRestore(node, true)}
+              disabled={actions.isPending || !!restoreBlockedReason}
+              title={restoreBlockedReason}
+              aria-label={`Restore ${entity.name} with descendants`}
+            >
+              Restore with Descendants
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-destructive hover:text-destructive"
+            onClick={() => actions.onPurge(node)}
+            disabled={actions.isPending}
+            aria-label={`Delete ${entity.name} forever`}
+          >
+            <Trash2 className="h-4 w-4" aria-hidden="true" />
+          </Button>
+        </div>
+      </div>
+      {children.length > 0 && (
+        <ul role="group" className="ml-6 border-l border-border/40 pl-2">
+          {children.map((child) => (
+            <TrashNodeItem key={child.entity.id} node={child} parentName={entity.name} actions={actions} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,255 @@
+/**
+ * TypeChangeAssistantDialog Component
+ *
+ * Dialog opened by the entry form when the type of an entry with properties is
+ * changed. Each property of the old type is mapped onto a field of the new
+ * type (matching keys are mapped automatically) or left unmapped; unmapped
+ * values are previewed as lost, or moved into the description on request.
+ *
+ * @module components/MainPanel/TypeChangeAssistantDialog
+ */
+
+import { useId, useState } from 'react';
+import { AlertTriangle, ArrowRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getEntityTypeConfig } from '@/services/config/entityTypeRegistry';
+import type { WorldEntityType } from '@/services/types/worldEntity.types';
+import { formatEntityType } from '@/lib/entityTypeHelpers';
+import {
+  appendPropertiesToDescription,
+  applyPropertyMapping,
+  getAutoPropertyMapping,
+  getCompatibleFields,
+  getMappableProperties,
+  type PropertyMapping,
+} from '@/lib/propertyMapping';
+import { formatRevisionValue } from '@/lib/revisionDiff';
+
+/** Select value for leaving a property unmapped */
+const UNMAPPED = '__unmapped__';
+
+/** Longest description the entry form accepts */
+const DESCRIPTION_MAX_LENGTH = 500;
+
+/**
+ * A type change awaiting confirmation
+ */
+export interface PendingTypeChange {
+  fromType: WorldEntityType;
+  toType: WorldEntityType;
+}
+
+export interface TypeChangeAssistantDialogProps {
+  /** Type change to confirm (the dialog is closed when null) */
+  change: PendingTypeChange | null;
+
+  /** Properties of the entry under its current type */
+  properties: Record<string, unknown> | null;
+
+  /** Description of the entry */
+  description: string;
+
+  /** Called with the entry's properties and description under the new type */
+  onConfirm: (result: { properties: Record<string, unknown> | null; description: string }) => void;
+
+  /** Called when the type change is abandoned */
+  onCancel: () => void;
+}
+
+/**
+ * Type change assistant dialog component
+ *
+ * @param props - Component props
+ * @returns Dialog mapping properties onto the new type
+ */
+export function TypeChangeAssistantDialog({ change, onCancel, ...props }: TypeChangeAssistantDialogProps) {
+  return (
+    <Dialog open={!!change} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-2xl">
+        {change && (
+          <TypeChangeAssistant
+            key={`${change.fromType}>${change.toType}`}
+            change={change}
+            onCancel={onCancel}
+            {...props}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Property mapping and preview for a pending type change
+ */
+function TypeChangeAssistant({
+  change,
+  properties,
+  description,
+  onConfirm,
+  onCancel,
+}: TypeChangeAssistantDialogProps & { change: PendingTypeChange }) {
+  const fieldId = useId();
+  const fromLabel = formatEntityType(change.fromType);
+  const toLabel = formatEntityType(change.toType);
+  const targetSchema = getEntityTypeConfig(change.toType)?.propertySchema ?? [];
+  const sources = getMappableProperties(change.fromType, properties);
+
+  const [mapping, setMapping] = useState<PropertyMapping>(() => getAutoPropertyMapping(sources, targetSchema));
+  const [keepInDescription, setKeepInDescription] = useState(false);
+
+  const result = applyPropertyMapping(sources, mapping, targetSchema);
+  const nextDescription = keepInDescription
+    ? appendPropertiesToDescription(description, result.unmapped, change.fromType)
+    : description;
+
+  const handleConfirm = () => {
+    onConfirm({ properties: result.properties, description: nextDescription });
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Change Type to {toLabel}</DialogTitle>
+        <DialogDescription>
+          Choose where the {fromLabel} properties of this entry go. Properties with a matching{' '}
+          {toLabel} field have been mapped already.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="max-h-[50vh] space-y-6 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border text-left text-muted-foreground">
+              <th scope="col" className="py-2 pr-4 font-medium">{fromLabel} Property</th>
+              <th scope="col" className="py-2 pr-4 font-medium">Value</th>
+              <th scope="col" className="w-56 py-2 font-medium">{toLabel} Field</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sources.map((source) => {
+              const takenKeys = new Set(
+                Object.entries(mapping)
+                  .filter(([key, target]) => key !== source.key && target)
+                  .map(([, target]) => target),
+              );
+
+              return (
+                <tr key={source.key} className="border-b border-border/50 align-top">
+                  <th scope="row" className="py-2 pr-4 text-left font-medium">{source.label}</th>
+                  <td className="py-2 pr-4 break-words text-muted-foreground">
+                    <span className="line-clamp-3">{formatRevisionValue(source.value)}</span>
+                  </td>
+                  <td className="py-2">
+                    <Select
+                      value={mapping[source.key] ?? UNMAPPED}
+                      onValueChange={(value) =>
+                        setMapping((prev) => ({ ...prev, [source.key]: value === UNMAPPED ? null : value }))
+                      }
+                    >
+                      <SelectTrigger aria-label={`Map ${source.label} to`} className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Leave unmapped</SelectItem>
+                        {getCompatibleFields(source, targetSchema).map((field) => (
+                          <SelectItem key={field.key} value={field.key} disabled={takenKeys.has(field.key)}>
+                            {field.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {targetSchema.length === 0 && (
+          <p className="text-sm text-muted-foreground italic">
+            {toLabel} entries have no properties of their own.
+          </p>
+        )}
+
+        {result.unmapped.length > 0 && (
+          <section aria-labelledby={`${fieldId}-unmapped`} className="space-y-3">
+            <div className="flex items-center gap-2">
+              <input
+                id={`${fieldId}-keep`}
+                type="checkbox"
+                checked={keepInDescription}
+                onChange={(e) => setKeepInDescription(e.target.checked)}
+                className="h-4 w-4 accent-primary"
+              />
+              <label htmlFor={`${fieldId}-keep`} className="text-sm font-medium">
+                Move unmapped values into the description
+              </label>
+            </div>
+
+            {keepInDescription ? (
+              <>
+                <h3 id={`${fieldId}-unmapped`} className="text-sm font-semibold">
+                  Added to the description
+                </h3>
+                <pre className="whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">
+                  {appendPropertiesToDescription('', result.unmapped, change.fromType)}
+                </pre>
+                {nextDescription.length > DESCRIPTION_MAX_LENGTH && (
+                  <p className="flex items-center gap-2 text-sm text-amber-600 dark:text-amber-400">
+                    <AlertTriangle className="h-4 w-4 shrink-0" aria-hidden="true" />
+                    The description will be {nextDescription.length} characters long; shorten it to{' '}
+                    {DESCRIPTION_MAX_LENGTH} before saving.
+                  </p>
+                )}
+              </>
+            ) : (
+              <>
+                <h3
+                  id={`${fieldId}-unmapped`}
+                  className="flex items-center gap-2 text-sm font-semibold text-destructive"
+                >
+                  <AlertTriangle className="h-4 w-4 shrink-0" aria-hidden="true" />
+                  Data that will be lost
+                </h3>
+                <ul className="space-y-1 text-sm">
+                  {result.unmapped.map((property) => (
+                    <li key={property.key} className="break-words">
+                      <span className="font-medium">{property.label}:</span>{' '}
+                      <span className="text-muted-foreground">{formatRevisionValue(property.value)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </section>
+        )}
+      </div>
+
+      <DialogFooter className="gap-2">
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button onClick={handleConfirm}>
+          <ArrowRight className="h-4 w-4" aria-hidden="true" />
+          Change Type
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -4,6 +4,8 @@
  * Main panel form for creating and editing worlds.
  * This is a main panel form (not a modal) that works alongside ChatWindow.
  * Supports both create and edit modes with proper validation.
+ * In-progress changes are autosaved as a draft and offered for restoring
+ * when the form reopens.
  *
  * @module components/MainPanel/WorldDetailForm
  */
@@ -14,10 +16,13 @@ import { Pencil, Plus } from 'lucide-react';
 import { useCreateWorldMutation, useUpdateWorldMutation } from '@/services/worldApi';
 import { closeWorldForm, setUnsavedChanges, selectHasUnsavedChanges } from '@/store/worldSidebarSlice';
 import { logger } from '@/lib/logger';
+import { getWorldDraftKey } from '@/lib/formDrafts';
+import { useFormDraft } from '@/hooks/useFormDraft';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { FormActions } from '@/components/ui/form-actions';
 import { FormLayout } from '@/components/ui/form-layout';
+import { DraftRestoreBanner } from '@/components/shared/DraftRestoreBanner';
 import type { World } from '@/services/types/world.types';
 
 export interface WorldDetailFormProps {
@@ -52,6 +57,16 @@ export function WorldDetailForm({ mode, world, onSuccess }: WorldDetailFormProps
 
   const isLoading = isCreating || isUpdating;
 
+  // Autosave drafts of the world being edited, or of the new world
+  const loadedName = mode === 'edit' ? (world?.name ?? '') : '';
+  const loadedDescription = mode === 'edit' ? (world?.description || '') : '';
+  const { pendingDraft, isDraftStale, restoreDraft, dismissDraft, clearDraft } = useFormDraft({
+    draftKey: mode === 'create' ? getWorldDraftKey(null) : world ? getWorldDraftKey(world.id) : null,
+    values: { name, description },
+    isDirty: name !== loadedName || description !== loadedDescription,
+    baseUpdatedAt: mode === 'edit' ? world?.updatedAt : null,
+  });
+
   /* eslint-disable react-hooks/set-state-in-effect */
   // Handle form initialization and mode switching
   // We need to reset form state when mode/world props change
@@ -134,6 +149,7 @@ export function WorldDetailForm({ mode, world, onSuccess }: WorldDetailFormProps
           name: name.trim(),
           description: description.trim(),
         }).unwrap();
+        clearDraft();
 
         // Set the newly created world as selected
         setName('');
@@ -151,6 +167,7 @@ export function WorldDetailForm({ mode, world, onSuccess }: WorldDetailFormProps
             description: description.trim(),
           },
         }).unwrap();
+        clearDraft();
 
         dispatch(closeWorldForm());
 
@@ -165,12 +182,23 @@ export function WorldDetailForm({ mode, world, onSuccess }: WorldDetailFormProps
   };
 
   const handleCancel = () => {
+    clearDraft();
     setName(mode === 'edit' && world ? world.name : '');
     setDescription(mode === 'edit' && world ? world.description || '' : '');
     setErrors({});
     dispatch(closeWorldForm());
   };
 
+  const handleRestoreDraft = () => {
+    const values = restoreDraft();
+    if (!values) return;
+
+    logger.userAction('Restore world draft', { mode, worldId: world?.id, stale: isDraftStale });
+    setName(values.name);
+    setDescription(values.description);
+    setErrors({});
+  };
+
   const worldDetailFormId = 'world-detail-form-submit';
 
   return (
@@ -188,6 +216,16 @@ export function WorldDetailForm({ mode, world, onSuccess }: WorldDetailFormProps
         />
       )}
     >
+      {pendingDraft && (
+        <DraftRestoreBanner
+          savedAt={pendingDraft.savedAt}
+          isStale={isDraftStale}
+          onRestore={handleRestoreDraft}
+          onDiscard={dismissDraft}
+          disabled={isLoading}
+        />
+      )}
+
       <div className="mb-8">
         <h1 className="text-3xl font-bold mb-2">
           {mode === 'create' ? 'New Realm' : 'Edit Realm'}
@@ -1,7 +1,8 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
+import { toast } from 'sonner';
 import type { RootState } from '../../store/store';
-import { closeEntityForm, setUnsavedChanges, expandNode, setSelectedEntity } from '../../store/worldSidebarSlice';
+import { closeEntityForm, setUnsavedChanges, expandNode, setSelectedEntity, openCreateFromTemplate } from '../../store/worldSidebarSlice';
 import { logger } from '@/lib/logger';
 import {
   useCreateWorldEntityMutation,
@@ -11,16 +12,33 @@ import {
 import {
   WorldEntityType,
   ENTITY_SCHEMA_VERSIONS,
+  type WorldEntity,
 } from '../../services/types/worldEntity.types';
 import { getEntityTypeConfig } from '../../services/config/entityTypeRegistry';
+import {
+  getGameSystemForSchemaId,
+  getSystemPropertySchema,
+  getSystemSchemaId,
+} from '../../services/config/gameSystemRegistry';
+import { useWorldTags } from '@/hooks/useWorldTags';
+import { useWorldGameSystem } from '@/hooks/useWorldGameSystem';
+import { useFormDraft } from '@/hooks/useFormDraft';
+import { useUndoHistory } from '@/hooks/useUndoHistory';
+import { getEntityDraftKey } from '@/lib/formDrafts';
+import { getEntityCreateChange, getEntityUpdateChange, getPropertyBagRestore } from '@/lib/undoHistory';
+import { getMappableProperties } from '@/lib/propertyMapping';
+import { getEntitySchemaUpgrade } from '@/lib/schemaMigrations';
+import { Button } from '../ui/button';
 import { Input } from '../ui/input';
-import { Textarea } from '../ui/textarea';
+import { MarkdownEditor } from '../shared/MarkdownEditor';
 import { EntityTypeSelector } from '../shared/EntityTypeSelector';
+import { TagInput, type TagSuggestion } from '../shared/TagInput';
 import { FormActions } from '../ui/form-actions';
 import { FormLayout } from '../ui/form-layout';
 import { UnsavedChangesDialog } from '../shared/UnsavedChangesDialog';
+import { DraftRestoreBanner } from '../shared/DraftRestoreBanner';
 import { MainPanelTransientAlert } from '../shared/MainPanelTransientAlert';
-import { Loader2 } from 'lucide-react';
+import { LayoutTemplate, Loader2 } from 'lucide-react';
 import { validateWorldEntityForm, clearFieldError } from '../../services/validators/worldEntityValidator';
 import {
   isProblemDetails,
@@ -28,6 +46,9 @@ import {
   type ProblemDetails,
 } from '@/services/types/problemDetails.types';
 import { DynamicPropertiesForm } from './DynamicPropertiesForm';
+import { TypeChangeAssistantDialog, type PendingTypeChange } from './TypeChangeAssistantDialog';
+import { SchemaUpgradeNotice } from './SchemaUpgradeNotice';
+import { SchemaUpgradeDialog } from './SchemaUpgradeDialog';
 
 function hasPropertySchema(type: WorldEntityType | '') {
   if (!type) return false;
@@ -36,6 +57,23 @@ function hasPropertySchema(type: WorldEntityType | '') {
   return !!schema && schema.length > 0;
 }
 
+/**
+ * Values of the form kept in an autosaved draft
+ */
+interface EntityFormDraftValues {
+  name: string;
+  description: string;
+  entityType: WorldEntityType | '';
+  tags: string[];
+  properties: Record<string, unknown> | null;
+  systemProperties: Record<string, unknown> | null;
+}
+
+/** Treat an empty property bag like no properties when comparing drafts */
+function normalizePropertyBag(bag: Record<string, unknown> | null | undefined) {
+  return bag && Object.keys(bag).length > 0 ? bag : null;
+}
+
 /**
  * EntityDetailForm Component
  *
@@ -43,9 +81,16 @@ function hasPropertySchema(type: WorldEntityType | '') {
  * Rendered in MainPanel when mainPanelMode is 'creating_entity' or 'editing_entity'.
  *
  * Features:
- * - Create mode: Shows parent context and suggests relevant entity types
- * - Edit mode: Pre-populates form fields with existing entity data
+ * - Create mode: Shows parent context and suggests relevant entity types, and
+ *   offers creating the entry from a template instead
+ * - Edit mode: Pre-populates form fields with existing entity data, upgrading
+ *   the properties of entries written for an older schema version of their type
+ * - Tag editing with autocomplete from tags already used in the world
+ * - Type changes of entries with properties go through the type change
+ *   assistant, which maps the properties onto the new type
+ * - A "System" section for the game system's systemProperties fields
  * - Unsaved changes tracking with beforeunload warning
+ * - Autosaved drafts, offered for restoring when the form reopens
  * - Validation with inline error messages
  *
  * @component
@@ -64,9 +109,13 @@ export function EntityDetailForm() {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [entityType, setEntityType] = useState<WorldEntityType | ''>('');
+  const [tags, setTags] = useState<string[]>([]);
   const [customProperties, setCustomProperties] = useState<Record<string, unknown> | null>(null);
+  const [systemProperties, setSystemProperties] = useState<Record<string, unknown> | null>(null);
   const [errors, setErrors] = useState<{ name?: string; type?: string; description?: string }>({});
   const [showUnsavedChangesDialog, setShowUnsavedChangesDialog] = useState(false);
+  const [pendingTypeChange, setPendingTypeChange] = useState<PendingTypeChange | null>(null);
+  const [showSchemaUpgradeDialog, setShowSchemaUpgradeDialog] = useState(false);
   const [saveErrorMessage, setSaveErrorMessage] = useState<string | null>(null);
 
   const isEditing = !!editingEntityId;
@@ -85,14 +134,68 @@ export function EntityDetailForm() {
       { skip: isEditing || !selectedWorldId || !newEntityParentId }
     );
 
+  // Tags already used in this world, offered as autocomplete suggestions
+  const { tags: worldTags } = useWorldTags(selectedWorldId);
+
+  const tagSuggestions = useMemo<TagSuggestion[]>(
+    () => worldTags.map(({ tag, count }) => ({ value: tag, count })),
+    [worldTags]
+  );
+
   // Mutations
   const [createEntity, { isLoading: isCreating }] =
     useCreateWorldEntityMutation();
   const [updateEntity, { isLoading: isUpdating }] =
     useUpdateWorldEntityMutation();
+  const { recordChange } = useUndoHistory();
 
   const isSubmitting = isCreating || isUpdating;
 
+  // Entries written for an older schema version are upgraded when opened
+  const schemaUpgrade = useMemo(
+    () => (isEditing && existingEntity ? getEntitySchemaUpgrade(existingEntity) : null),
+    [isEditing, existingEntity],
+  );
+  const loadedProperties = schemaUpgrade ? schemaUpgrade.properties : existingEntity?.properties;
+
+  // Entries keep the game system they were written for; others follow the world's
+  const [worldGameSystem] = useWorldGameSystem(selectedWorldId);
+  const gameSystem = getGameSystemForSchemaId(existingEntity?.schemaId) ?? worldGameSystem;
+  const systemSchema = entityType ? getSystemPropertySchema(gameSystem?.id, entityType) : undefined;
+
+  // Autosave drafts once the entry being edited has loaded
+  const draftValues: EntityFormDraftValues = {
+    name,
+    description,
+    entityType,
+    tags,
+    properties: normalizePropertyBag(customProperties),
+    systemProperties: normalizePropertyBag(systemProperties),
+  };
+  const loadedValues: EntityFormDraftValues =
+    isEditing && existingEntity
+      ? {
+          name: existingEntity.name,
+          description: existingEntity.description || '',
+          entityType: existingEntity.entityType,
+          tags: existingEntity.tags ?? [],
+          properties: hasPropertySchema(existingEntity.entityType)
+            ? normalizePropertyBag(loadedProperties)
+            : null,
+          systemProperties: normalizePropertyBag(existingEntity.systemProperties),
+        }
+      : { name: '', description: '', entityType: '', tags: [], properties: null, systemProperties: null };
+  const isDraftReady = !!selectedWorldId && (!isEditing || existingEntity?.id === editingEntityId);
+  const { pendingDraft, isDraftStale, restoreDraft, dismissDraft, clearDraft } =
+    useFormDraft<EntityFormDraftValues>({
+      draftKey: isDraftReady
+        ? getEntityDraftKey(selectedWorldId, editingEntityId, newEntityParentId)
+        : null,
+      values: draftValues,
+      isDirty: JSON.stringify(draftValues) !== JSON.stringify(loadedValues),
+      baseUpdatedAt: isEditing ? existingEntity?.updatedAt : null,
+    });
+
   // Sync form state when entity data loads or form mode changes
   useEffect(() => {
     if (isEditing && existingEntity) {
@@ -101,31 +204,25 @@ export function EntityDetailForm() {
       setName(existingEntity.name);
       setDescription(existingEntity.description || '');
       setEntityType(existingEntity.entityType);
+      setTags(existingEntity.tags ?? []);
       setCustomProperties(
         hasPropertySchema(existingEntity.entityType)
-          ? (existingEntity.properties ?? null)
+          ? (loadedProperties ?? null)
           : null
       );
+      setSystemProperties(existingEntity.systemProperties ?? null);
     } else if (!isEditing) {
       // Reset for create mode
       setName('');
       setDescription('');
       setEntityType('');
+      setTags([]);
       setCustomProperties(null);
+      setSystemProperties(null);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [editingEntityId, existingEntity?.id]);
 
-  // Clear custom properties when entity type changes to a non-property type
-  useEffect(() => {
-    if (!entityType) return;
-
-    if (!hasPropertySchema(entityType)) {
-      // eslint-disable-next-line react-hooks/set-state-in-effect -- Clearing derived state when entity type changes
-      setCustomProperties(null);
-    }
-  }, [entityType]);
-
   // Track unsaved changes
   const hasChangesPrevRef = useRef(false);
 
@@ -136,22 +233,25 @@ export function EntityDetailForm() {
           const originalName = existingEntity.name || '';
           const originalDescription = existingEntity.description || '';
           const originalType = existingEntity.entityType || '';
+          const originalTags = existingEntity.tags ?? [];
 
           return (
             name !== originalName ||
             description !== originalDescription ||
-            entityType !== originalType
+            entityType !== originalType ||
+            tags.length !== originalTags.length ||
+            tags.some((tag, index) => tag !== originalTags[index])
           );
         })()
       : // Check if potentially dirty (for Create mode)
-        name.trim() !== '' || description.trim() !== '' || entityType !== '';
+        name.trim() !== '' || description.trim() !== '' || entityType !== '' || tags.length > 0;
 
     // Only dispatch if value actually changed
     if (hasChanges !== hasChangesPrevRef.current) {
       dispatch(setUnsavedChanges(hasChanges));
       hasChangesPrevRef.current = hasChanges;
     }
-  }, [name, description, entityType, dispatch, isEditing, existingEntity]);
+  }, [name, description, entityType, tags, dispatch, isEditing, existingEntity]);
 
   // Cleanup: reset unsaved changes when component unmounts
   useEffect(() => {
@@ -190,14 +290,63 @@ export function EntityDetailForm() {
     return result.isValid;
   };
 
+  /**
+   * Change the type, through the assistant when there are properties to carry over
+   */
+  const handleEntityTypeChange = (nextType: WorldEntityType) => {
+    if (errors.type) {
+      setErrors((prev) => clearFieldError(prev, 'type'));
+    }
+    if (nextType === entityType) return;
+
+    if (entityType && getMappableProperties(entityType, customProperties).length > 0) {
+      setPendingTypeChange({ fromType: entityType, toType: nextType });
+      return;
+    }
+
+    setEntityType(nextType);
+    setCustomProperties(null);
+  };
+
+  const handleTypeChangeConfirm = (result: {
+    properties: Record<string, unknown> | null;
+    description: string;
+  }) => {
+    if (!pendingTypeChange) return;
+
+    logger.userAction('Change entity type', {
+      ...pendingTypeChange,
+      mappedProperties: Object.keys(result.properties ?? {}),
+    });
+    setEntityType(pendingTypeChange.toType);
+    setCustomProperties(result.properties);
+    setDescription(result.description);
+    setPendingTypeChange(null);
+  };
+
   const handleClose = () => {
     if (hasUnsavedChanges) {
       setShowUnsavedChangesDialog(true);
     } else {
+      clearDraft();
       dispatch(closeEntityForm());
     }
   };
 
+  const handleRestoreDraft = () => {
+    const values = restoreDraft();
+    if (!values) return;
+
+    logger.userAction('Restore entity draft', { entityId: editingEntityId, stale: isDraftStale });
+    setName(values.name);
+    setDescription(values.description);
+    setEntityType(values.entityType);
+    setTags(values.tags);
+    setCustomProperties(values.properties);
+    setSystemProperties(values.systemProperties);
+    setErrors({});
+  };
+
   const getErrorMessage = (error: unknown): string => {
     if (!error || typeof error !== 'object' || !('data' in error)) {
       return 'Unable to save this entry right now. Please try again.';
@@ -222,6 +371,54 @@ export function EntityDetailForm() {
     return problem.detail || problem.title || 'Unable to save this entry right now. Please try again.';
   };
 
+  /**
+   * Confirm a save with a toast offering to undo it
+   */
+  const announceSaved = (saved: WorldEntity) => {
+    if (!selectedWorldId) return;
+
+    if (isEditing && existingEntity) {
+      toast.success(`"${saved.name}" was inscribed`, {
+        action: recordChange(selectedWorldId, `Edit "${existingEntity.name}"`, getEntityUpdateChange(existingEntity, saved)),
+      });
+    } else {
+      toast.success(`"${saved.name}" was added to the codex`, {
+        action: recordChange(selectedWorldId, `Create "${saved.name}"`, getEntityCreateChange(saved.id)),
+      });
+    }
+  };
+
+  /**
+   * systemProperties and schemaId to save: the game system's fields when it
+   * describes the entity type, otherwise the entry's schemaId is kept as is
+   */
+  const getSystemPayload = (typedEntityType: WorldEntityType) => {
+    if (!gameSystem || !systemSchema) {
+      return { schemaId: existingEntity?.schemaId };
+    }
+
+    const values = Object.entries(systemProperties ?? {}).filter(([key]) =>
+      systemSchema.some((field) => field.key === key)
+    );
+    return {
+      schemaId: getSystemSchemaId(gameSystem.id, typedEntityType),
+      systemProperties: values.length > 0 ? Object.fromEntries(values) : undefined,
+    };
+  };
+
+  /**
+   * properties to save: when the type changed or the entry was upgraded, keys
+   * that were removed are cleared, since updates merge property bags
+   */
+  const getPropertiesPayload = (typedEntityType: WorldEntityType) => {
+    if (isEditing && existingEntity && (typedEntityType !== existingEntity.entityType || schemaUpgrade)) {
+      return getPropertyBagRestore(customProperties ?? undefined, existingEntity.properties);
+    }
+
+    const hasProperties = customProperties && Object.keys(customProperties).length > 0;
+    return hasProperties ? customProperties : undefined;
+  };
+
   const handleDialogSave = async () => {
     // Trigger form submission logic
     if (!validate() || !selectedWorldId) {
@@ -231,36 +428,45 @@ export function EntityDetailForm() {
 
     try {
       const typedEntityType = entityType as WorldEntityType;
-      const hasProperties = customProperties && Object.keys(customProperties).length > 0;
-      const properties = hasProperties ? customProperties : undefined;
+      const properties = getPropertiesPayload(typedEntityType);
 
       if (isEditing && editingEntityId) {
-        await updateEntity({
+        const saved = await updateEntity({
           worldId: selectedWorldId,
           entityId: editingEntityId,
           data: {
+            // Updates replace the parent, so the current one is sent back
+            parentId: existingEntity?.parentId ?? null,
             name,
             description,
             entityType: typedEntityType,
+            tags,
             properties,
+            ...getSystemPayload(typedEntityType),
             schemaVersion: ENTITY_SCHEMA_VERSIONS[typedEntityType],
           },
           currentEntityType: existingEntity?.entityType || typedEntityType,
         }).unwrap();
+        clearDraft();
+        announceSaved(saved);
 
         dispatch(setSelectedEntity(editingEntityId));
       } else if (newEntityParentId) {
-        await createEntity({
+        const saved = await createEntity({
           worldId: selectedWorldId,
           data: {
             name,
             description,
             entityType: typedEntityType,
             parentId: newEntityParentId,
+            tags,
             properties,
+            ...getSystemPayload(typedEntityType),
             schemaVersion: ENTITY_SCHEMA_VERSIONS[typedEntityType],
           },
         }).unwrap();
+        clearDraft();
+        announceSaved(saved);
         dispatch(expandNode(newEntityParentId));
       }
 
@@ -277,6 +483,7 @@ export function EntityDetailForm() {
   };
 
   const handleDialogDiscard = () => {
+    clearDraft();
     dispatch(setUnsavedChanges(false));
     setShowUnsavedChangesDialog(false);
     dispatch(closeEntityForm());
@@ -301,22 +508,26 @@ export function EntityDetailForm() {
       const typedEntityType = entityType as WorldEntityType;
 
       // Only include properties if there's actual data (not empty object or null)
-      const hasProperties = customProperties && Object.keys(customProperties).length > 0;
-      const properties = hasProperties ? customProperties : undefined;
+      const properties = getPropertiesPayload(typedEntityType);
 
       if (isEditing && editingEntityId) {
-        await updateEntity({
+        const saved = await updateEntity({
           worldId: selectedWorldId,
           entityId: editingEntityId,
           data: {
+            parentId: existingEntity?.parentId ?? null,
             name,
             description,
             entityType: typedEntityType,
+            tags,
             properties,
+            ...getSystemPayload(typedEntityType),
             schemaVersion: ENTITY_SCHEMA_VERSIONS[typedEntityType],
           },
           currentEntityType: existingEntity?.entityType || typedEntityType,
         }).unwrap();
+        clearDraft();
+        announceSaved(saved);
 
         // T029: After successful edit save, return to read-only view
         dispatch(setUnsavedChanges(false));
@@ -324,18 +535,21 @@ export function EntityDetailForm() {
         dispatch(closeEntityForm());
         dispatch(setSelectedEntity(editingEntityId));
       } else {
-        await createEntity({
+        const saved = await createEntity({
           worldId: selectedWorldId,
           data: {
             parentId: newEntityParentId,
             name,
             description,
             entityType: typedEntityType,
-            tags: [],
+            tags,
             properties,
+            ...getSystemPayload(typedEntityType),
             schemaVersion: ENTITY_SCHEMA_VERSIONS[typedEntityType],
           },
         }).unwrap();
+        clearDraft();
+        announceSaved(saved);
 
         // Auto-expand parent node to show newly created entity
         if (newEntityParentId) {
@@ -387,6 +601,25 @@ export function EntityDetailForm() {
         />
       )}
 
+      {pendingDraft && (
+        <DraftRestoreBanner
+          savedAt={pendingDraft.savedAt}
+          isStale={isDraftStale}
+          onRestore={handleRestoreDraft}
+          onDiscard={dismissDraft}
+          disabled={isSubmitting}
+        />
+      )}
+
+      {schemaUpgrade && existingEntity && (
+        <SchemaUpgradeNotice
+          entityType={existingEntity.entityType}
+          upgrade={schemaUpgrade}
+          onUpgradeAll={() => setShowSchemaUpgradeDialog(true)}
+          disabled={isSubmitting}
+        />
+      )}
+
       <div className="mb-8">
         <h1 className="text-3xl font-bold mb-2">
           {isEditing ? 'Edit Entry' : 'New Entry'}
@@ -398,6 +631,17 @@ export function EntityDetailForm() {
               ? `Create a new entry beneath "${parentEntity.name}"`
               : 'Create a new entry at the root of the codex'}
         </p>
+        {!isEditing && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => dispatch(openCreateFromTemplate(newEntityParentId))}
+          >
+            <LayoutTemplate className="h-4 w-4" aria-hidden="true" />
+            New from Template...
+          </Button>
+        )}
       </div>
 
       {isLoading ? (
@@ -441,15 +685,10 @@ export function EntityDetailForm() {
             </label>
             <EntityTypeSelector
               value={entityType}
-              onValueChange={(val) => {
-                setEntityType(val);
-                if (errors.type) {
-                  setErrors((prev) => clearFieldError(prev, 'type'));
-                }
-              }}
+              onValueChange={handleEntityTypeChange}
               parentType={parentEntity?.entityType || null}
               allowAllTypes={false}
-              disabled={isEditing || isSubmitting}
+              disabled={isSubmitting}
               placeholder="Choose the nature of this entry"
               aria-label="Entity type"
               aria-invalid={!!errors.type}
@@ -466,11 +705,11 @@ export function EntityDetailForm() {
             <label htmlFor="description" className="block text-sm font-medium mb-3">
               Description
             </label>
-            <Textarea
+            <MarkdownEditor
               id="description"
               value={description}
-              onChange={(e) => {
-                setDescription(e.target.value);
+              onChange={(value) => {
+                setDescription(value);
                 if (errors.description) {
                   setErrors((prev) => clearFieldError(prev, 'description'));
                 }
@@ -480,7 +719,6 @@ export function EntityDetailForm() {
               aria-describedby={errors.description ? 'description-error' : 'description-hint'}
               disabled={isSubmitting}
               maxLength={500}
-              className="min-h-32"
             />
             {errors.description && (
               <span id="description-error" className="text-xs text-destructive block mt-1">
@@ -492,6 +730,16 @@ export function EntityDetailForm() {
             </div>
           </div>
 
+          <TagInput
+            label="Tags"
+            value={tags}
+            onChange={setTags}
+            suggestions={tagSuggestions}
+            placeholder="Add a tag and press Enter..."
+            description="Group related entries across the codex"
+            disabled={isSubmitting}
+          />
+
           {entityType && (
             <DynamicPropertiesForm
               entityType={entityType as WorldEntityType}
@@ -501,9 +749,37 @@ export function EntityDetailForm() {
             />
           )}
 
+          {gameSystem && systemSchema && (
+            <DynamicPropertiesForm
+              entityType={entityType as WorldEntityType}
+              schema={systemSchema}
+              title={`System: ${gameSystem.abbreviation}`}
+              value={systemProperties}
+              onChange={setSystemProperties}
+              disabled={isSubmitting}
+            />
+          )}
+
         </form>
         )}
 
+      <TypeChangeAssistantDialog
+        change={pendingTypeChange}
+        properties={customProperties}
+        description={description}
+        onConfirm={handleTypeChangeConfirm}
+        onCancel={() => setPendingTypeChange(null)}
+      />
+
+      {showSchemaUpgradeDialog && existingEntity && (
+        <SchemaUpgradeDialog
+          open
+          worldId={selectedWorldId}
+          entityType={existingEntity.entityType}
+          onClose={() => setShowSchemaUpgradeDialog(false)}
+        />
+      )}
+
       <UnsavedChangesDialog
         open={showUnsavedChangesDialog}
         onSave={handleDialogSave}
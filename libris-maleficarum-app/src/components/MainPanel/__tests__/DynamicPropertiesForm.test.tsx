@@ -10,6 +10,7 @@ import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import { DynamicPropertiesForm } from '../DynamicPropertiesForm';
+import { getSystemPropertySchema } from '@/services/config/gameSystemRegistry';
 
 expect.extend(toHaveNoViolations);
 
@@ -358,4 +359,26 @@ describe('DynamicPropertiesForm', () => {
       expect(screen.getByLabelText('Area (sq km)')).toBeDisabled();
     });
   });
+
+  describe('Schema override', () => {
+    it('should render the given schema and title instead of the entity type schema', async () => {
+      const user = userEvent.setup();
+      const onChange = vi.fn();
+      render(
+        <DynamicPropertiesForm
+          entityType="Character"
+          schema={getSystemPropertySchema('dnd5e', 'Character')}
+          title="System: D&D 5e"
+          value={null}
+          onChange={onChange}
+        />
+      );
+
+      expect(screen.getByRole('heading', { name: 'System: D&D 5e' })).toBeInTheDocument();
+      expect(screen.queryByLabelText('Race/Species')).toBeNull();
+
+      await user.type(screen.getByLabelText('Armor Class'), '1');
+      expect(onChange).toHaveBeenLastCalledWith({ armorClass: 1 });
+    });
+  });
 });
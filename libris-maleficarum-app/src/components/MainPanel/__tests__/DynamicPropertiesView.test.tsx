@@ -12,7 +12,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, within } from '@testing-library/react';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import { DynamicPropertiesView } from '../DynamicPropertiesView';
 import { WorldEntityType } from '@/services/types/worldEntity.types';
@@ -220,6 +220,21 @@ describe('T032: DynamicPropertiesView - Fallback to Object.entries()', () => {
   });
 });
 
+describe('DynamicPropertiesView - Entity References', () => {
+  it('should show legacy text in reference fields as unlinked entries', () => {
+    render(
+      <DynamicPropertiesView
+        entityType={WorldEntityType.Country}
+        value={{ capital: 'Waterdeep', allies: ['Amn', 'Tethyr'] }}
+      />
+    );
+
+    expect(screen.getByRole('list', { name: 'Capital City' })).toHaveTextContent('Waterdeep');
+    expect(within(screen.getByRole('list', { name: 'Allied Nations' })).getAllByRole('listitem')).toHaveLength(2);
+    expect(screen.getAllByText('(Not linked to an entry)')).toHaveLength(3);
+  });
+});
+
 describe('DynamicPropertiesView - Edge Cases', () => {
   it('should render nothing when value is null', () => {
     const { container } = render(
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for EntityBacklinks component
+ *
+ * Tests listing the entries that link to an entity and opening them.
+ *
+ * @module __tests__/EntityBacklinks.test
+ */
+
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse } from 'msw';
+import { EntityBacklinks } from '../EntityBacklinks';
+import { api } from '@/services/api';
+import worldSidebarReducer from '@/store/worldSidebarSlice';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+
+const BASE_URL = 'http://localhost:5000/api/v1/worlds/link-world';
+
+const createEntity = (id: string, name: string, overrides: Partial<WorldEntity> = {}): WorldEntity => ({
+  id,
+  worldId: 'link-world',
+  parentId: null,
+  entityType: WorldEntityType.Character,
+  name,
+  description: '',
+  tags: [],
+  path: [],
+  depth: 0,
+  hasChildren: false,
+  ownerId: 'test-user',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  isDeleted: false,
+  schemaVersion: 1,
+  ...overrides,
+});
+
+const elara = createEntity('elara', 'Queen Elara');
+
+const server = setupServer();
+
+function serveEntities(entities: WorldEntity[]) {
+  server.use(
+    http.get(`${BASE_URL}/entities`, () => HttpResponse.json({ data: entities, meta: { nextCursor: null } })),
+  );
+}
+
+function renderBacklinks() {
+  const store = configureStore({
+    reducer: {
+      worldSidebar: worldSidebarReducer,
+      [api.reducerPath]: api.reducer,
+    },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(api.middleware),
+  });
+  store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'link-world' });
+  store.dispatch({ type: 'worldSidebar/setSelectedEntity', payload: 'elara' });
+
+  render(
+    <Provider store={store}>
+      <EntityBacklinks entity={elara} />
+    </Provider>,
+  );
+
+  return store;
+}
+
+describe('EntityBacklinks', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'warn' }));
+  afterEach(() => server.resetHandlers());
+  afterAll(() => server.close());
+
+  it('should list entries whose description or properties link to the entity', async () => {
+    // Arrange
+    serveEntities([
+      elara,
+      createEntity('vex', 'Lord Vex', { description: 'Sworn enemy of [[entity:elara|Elara]].' }),
+      createEntity('guard', 'Royal Guard', {
+        entityType: WorldEntityType.Faction,
+        properties: { Liege: 'Serves [[entity:elara|the Queen]]' },
+      }),
+      createEntity('tavern', 'Tavern'),
+    ]);
+
+    // Act
+    renderBacklinks();
+
+    // Assert
+    const list = await screen.findByRole('list', { name: 'Entries referring to Queen Elara' });
+    expect(list.querySelectorAll('li')).toHaveLength(2);
+    expect(screen.getByRole('button', { name: /lord vex/i })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /royal guard/i })).toBeInTheDocument();
+    expect(screen.queryByText('Tavern')).not.toBeInTheDocument();
+  });
+
+  it('should open a referring entry when clicked', async () => {
+    // Arrange
+    const user = userEvent.setup();
+    serveEntities([elara, createEntity('vex', 'Lord Vex', { description: '[[entity:elara|Elara]]' })]);
+    const store = renderBacklinks();
+
+    // Act
+    await user.click(await screen.findByRole('button', { name: /lord vex/i }));
+
+    // Assert
+    expect(store.getState().worldSidebar.selectedEntityId).toBe('vex');
+  });
+
+  it('should say when nothing refers to the entity', async () => {
+    serveEntities([elara, createEntity('tavern', 'Tavern')]);
+
+    renderBacklinks();
+
+    expect(await screen.findByText('No other entries refer to this one.')).toBeInTheDocument();
+  });
+});
@@ -6,13 +6,14 @@
  * @module __tests__/EntityDetailReadOnlyView.test
  */
 
-import { describe, it, expect, vi } from 'vitest';
+import { afterEach, describe, it, expect, vi } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import { EntityDetailReadOnlyView } from '../EntityDetailReadOnlyView';
 import { WorldEntityType } from '@/services/types/worldEntity.types';
 import type { WorldEntity } from '@/services/types/worldEntity.types';
+import { writeUserPreference } from '@/lib/userPreferences';
 
 expect.extend(toHaveNoViolations);
 
@@ -69,6 +70,21 @@ describe('T037: EntityDetailReadOnlyView - Basic Rendering', () => {
 
     expect(screen.getByText('No lore has been inscribed for this entry.')).toBeInTheDocument();
   });
+
+  it('should pin and unpin the entity', async () => {
+    const user = userEvent.setup();
+    const entity = createEntity({ name: 'Test Continent' });
+
+    render(<EntityDetailReadOnlyView entity={entity} onEditClick={vi.fn()} />);
+
+    await user.click(screen.getByRole('button', { name: 'Pin Test Continent' }));
+    expect(screen.getByRole('button', { name: 'Unpin Test Continent' })).toHaveAttribute('aria-pressed', 'true');
+    expect(localStorage.getItem('lm.search.pinned.world-1')).toContain('"id":"entity-1"');
+
+    await user.click(screen.getByRole('button', { name: 'Unpin Test Continent' }));
+    expect(screen.getByRole('button', { name: 'Pin Test Continent' })).toHaveAttribute('aria-pressed', 'false');
+    expect(localStorage.getItem('lm.search.pinned.world-1')).toBe('[]');
+  });
 });
 
 describe('T037: EntityDetailReadOnlyView - Custom Properties with DynamicPropertiesView', () => {
@@ -157,6 +173,62 @@ describe('T037: EntityDetailReadOnlyView - Custom Properties with DynamicPropert
   });
 });
 
+describe('EntityDetailReadOnlyView - System Properties', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it("should render system properties with the world's game system", () => {
+    writeUserPreference('gameSystem', 'world-1', 'dnd5e');
+    const entity = createEntity({
+      entityType: WorldEntityType.Character,
+      systemProperties: { armorClass: 17, challengeRating: '1/2' },
+    });
+
+    render(<EntityDetailReadOnlyView entity={entity} onEditClick={vi.fn()} />);
+
+    expect(screen.getByRole('heading', { level: 2, name: 'System: D&D 5e' })).toBeInTheDocument();
+    expect(screen.getByText('Armor Class')).toBeInTheDocument();
+    expect(screen.getByText('17')).toBeInTheDocument();
+    expect(screen.getByText('Challenge Rating')).toBeInTheDocument();
+  });
+
+  it('should use the game system named by the schemaId over the world setting', () => {
+    writeUserPreference('gameSystem', 'world-1', 'dnd5e');
+    const entity = createEntity({
+      entityType: WorldEntityType.Character,
+      schemaId: 'pathfinder2e-character',
+      systemProperties: { fortitude: 11 },
+    });
+
+    render(<EntityDetailReadOnlyView entity={entity} onEditClick={vi.fn()} />);
+
+    expect(screen.getByRole('heading', { level: 2, name: 'System: PF2e' })).toBeInTheDocument();
+    expect(screen.getByText('Fortitude')).toBeInTheDocument();
+  });
+
+  it('should list system properties as stored when no game system describes them', () => {
+    const entity = createEntity({
+      entityType: WorldEntityType.Character,
+      systemProperties: { armorClass: 17 },
+    });
+
+    render(<EntityDetailReadOnlyView entity={entity} onEditClick={vi.fn()} />);
+
+    expect(screen.getByRole('heading', { level: 2, name: 'System' })).toBeInTheDocument();
+    expect(screen.getByText('armor Class')).toBeInTheDocument();
+  });
+
+  it('should not render the System section without system properties', () => {
+    writeUserPreference('gameSystem', 'world-1', 'dnd5e');
+    const entity = createEntity({ entityType: WorldEntityType.Character });
+
+    render(<EntityDetailReadOnlyView entity={entity} onEditClick={vi.fn()} />);
+
+    expect(screen.queryByRole('heading', { level: 2, name: /system/i })).toBeNull();
+  });
+});
+
 describe('EntityDetailReadOnlyView - Accessibility', () => {
   it('should have no accessibility violations', async () => {
     const entity = createEntity({
@@ -0,0 +1,157 @@
+/**
+ * EntityRevisionHistory Component Tests
+ *
+ * Tests the revision list, the field-by-field changes of a revision and
+ * restoring an entry to an earlier revision.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse } from 'msw';
+import { EntityRevisionHistory } from '../EntityRevisionHistory';
+import { api } from '@/services/api';
+import worldSidebarReducer from '@/store/worldSidebarSlice';
+import undoHistoryReducer from '@/store/undoHistorySlice';
+import {
+  createMemoryRevisionStore,
+  recordEntityRevision,
+  setRevisionStore,
+} from '@/lib/entityRevisions';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+
+const BASE_URL = 'http://localhost:5000/api/v1/worlds/world-1';
+
+const createEntity = (overrides: Partial<WorldEntity> = {}): WorldEntity => ({
+  id: 'cormyr',
+  worldId: 'world-1',
+  parentId: null,
+  entityType: WorldEntityType.Country,
+  name: 'Cormyr',
+  description: '',
+  tags: [],
+  path: [],
+  depth: 0,
+  hasChildren: false,
+  ownerId: 'user-1',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T10:00:00Z',
+  isDeleted: false,
+  schemaVersion: 2,
+  ...overrides,
+});
+
+const original = createEntity({ properties: { population: 1000 } });
+const current = createEntity({
+  name: 'Cormyr Reborn',
+  updatedAt: '2026-01-02T10:00:00Z',
+  properties: { population: 2000, currency: 'Golden lions' },
+});
+
+const requests: { url: string; body: Record<string, unknown> }[] = [];
+
+const server = setupServer(
+  http.put(`${BASE_URL}/entities/:entityId`, async ({ request }) => {
+    const body = (await request.json()) as Record<string, unknown>;
+    requests.push({ url: request.url, body });
+    return HttpResponse.json({
+      data: createEntity({ ...(body as Partial<WorldEntity>), updatedAt: '2026-01-03T10:00:00Z' }),
+    });
+  }),
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'bypass' }));
+beforeEach(async () => {
+  setRevisionStore(createMemoryRevisionStore());
+  await recordEntityRevision(current, original);
+});
+afterEach(() => {
+  server.resetHandlers();
+  requests.length = 0;
+  setRevisionStore(null);
+});
+afterAll(() => server.close());
+
+function renderHistory(entity: WorldEntity = current) {
+  const store = configureStore({
+    reducer: {
+      worldSidebar: worldSidebarReducer,
+      undoHistory: undoHistoryReducer,
+      [api.reducerPath]: api.reducer,
+    },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(api.middleware),
+  });
+
+  render(
+    <Provider store={store}>
+      <EntityRevisionHistory entity={entity} />
+    </Provider>,
+  );
+  return store;
+}
+
+describe('EntityRevisionHistory', () => {
+  it('lists the recorded revisions, newest first, marking the current one', async () => {
+    renderHistory();
+
+    const list = await screen.findByRole('list', { name: 'Revisions' });
+    const items = within(list).getAllByRole('button');
+    expect(items).toHaveLength(2);
+    expect(items[0]).toHaveAttribute('aria-current', 'true');
+    expect(within(items[0]).getByText('Current')).toBeInTheDocument();
+    expect(within(items[0]).getByText((_, element) => element?.getAttribute('datetime') === current.updatedAt)).toBeInTheDocument();
+  });
+
+  it('shows the changes of the newest revision field by field', async () => {
+    renderHistory();
+
+    const table = await screen.findByRole('table');
+    expect(within(table).getByRole('rowheader', { name: 'Name' })).toBeInTheDocument();
+    expect(within(table).getByText('Cormyr Reborn')).toBeInTheDocument();
+    expect(within(table).getByRole('rowheader', { name: 'Population' })).toBeInTheDocument();
+    expect(within(table).getByRole('rowheader', { name: 'Currency' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /restore this revision/i })).toBeDisabled();
+  });
+
+  it('shows the earliest revision when it is chosen', async () => {
+    const user = userEvent.setup();
+    renderHistory();
+
+    const list = await screen.findByRole('list', { name: 'Revisions' });
+    await user.click(within(list).getAllByRole('button')[1]);
+
+    expect(screen.getByRole('heading', { name: 'Earliest recorded revision' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /restore this revision/i })).toBeEnabled();
+  });
+
+  it('restores an earlier revision and records it in the undo history', async () => {
+    const user = userEvent.setup();
+    const store = renderHistory();
+
+    const list = await screen.findByRole('list', { name: 'Revisions' });
+    await user.click(within(list).getAllByRole('button')[1]);
+    await user.click(screen.getByRole('button', { name: /restore this revision/i }));
+
+    await waitFor(() => expect(requests).toHaveLength(1));
+    expect(requests[0].url).toContain('/entities/cormyr');
+    expect(requests[0].body).toMatchObject({
+      name: 'Cormyr',
+      properties: { population: 1000, currency: null },
+    });
+    await waitFor(() =>
+      expect(store.getState().undoHistory.past).toEqual([
+        expect.objectContaining({ label: 'Restore revision of "Cormyr Reborn"' }),
+      ]),
+    );
+    expect(await within(list).findAllByRole('button')).toHaveLength(3);
+  });
+
+  it('explains when no revisions are recorded', async () => {
+    renderHistory(createEntity({ id: 'sembia' }));
+
+    expect(await screen.findByText(/no revisions have been recorded/i)).toBeInTheDocument();
+  });
+});
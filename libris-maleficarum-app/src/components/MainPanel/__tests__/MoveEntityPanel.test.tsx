@@ -0,0 +1,160 @@
+/**
+ * Unit tests for MoveEntityPanel component
+ *
+ * Tests the current location breadcrumb, lazy destination tree, cycle prevention,
+ * root eligibility, search, new path preview and the move request itself.
+ *
+ * @module __tests__/MoveEntityPanel.test
+ */
+
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse } from 'msw';
+import { MoveEntityPanel } from '../MoveEntityPanel';
+import { api } from '@/services/api';
+import worldSidebarReducer from '@/store/worldSidebarSlice';
+import { handlers } from '@/__tests__/mocks/handlers';
+
+const server = setupServer(...handlers);
+
+const createMockStore = () => {
+  return configureStore({
+    reducer: {
+      worldSidebar: worldSidebarReducer,
+      [api.reducerPath]: api.reducer,
+    },
+    middleware: (getDefaultMiddleware) =>
+      getDefaultMiddleware().concat(api.middleware),
+  });
+};
+
+function renderPanel(entityId: string) {
+  const store = createMockStore();
+  store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'test-world-123' });
+  store.dispatch({ type: 'worldSidebar/openMoveEntity', payload: entityId });
+
+  render(
+    <Provider store={store}>
+      <MoveEntityPanel />
+    </Provider>,
+  );
+
+  return store;
+}
+
+describe('MoveEntityPanel', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'warn' }));
+  afterEach(() => server.resetHandlers());
+  afterAll(() => server.close());
+
+  it('should show the current location as a breadcrumb', async () => {
+    // Arrange & Act
+    renderPanel('city-suzail');
+
+    // Assert
+    const breadcrumb = await screen.findByRole('navigation', { name: 'Current location' });
+    await waitFor(() => {
+      expect(within(breadcrumb).getByText('Faerûn')).toBeInTheDocument();
+      expect(within(breadcrumb).getByText('Cormyr')).toBeInTheDocument();
+    });
+    expect(within(breadcrumb).getByText('Suzail')).toHaveAttribute('aria-current', 'location');
+  });
+
+  it('should disable the entity itself and its descendants in the destination tree', async () => {
+    // Arrange
+    const user = userEvent.setup();
+    renderPanel('country-cormyr');
+
+    // Act
+    await user.click(await screen.findByRole('button', { name: 'Expand Faerûn' }));
+
+    // Assert - Cormyr is listed but cannot be chosen, and cannot be expanded
+    const cormyr = await screen.findByRole('button', { name: /^Cormyr/ });
+    expect(cormyr).toBeDisabled();
+    expect(screen.queryByRole('button', { name: 'Expand Cormyr' })).not.toBeInTheDocument();
+  });
+
+  it('should gate the top level option by canBeRoot', async () => {
+    // Arrange & Act
+    renderPanel('city-suzail');
+
+    // Assert
+    const rootOption = await screen.findByRole('button', { name: 'Top level of the codex' });
+    expect(rootOption).toBeDisabled();
+    expect(rootOption).toHaveAttribute('title', 'City entries cannot be placed at the root of the codex');
+  });
+
+  it('should search for destinations and disable descendants in the results', async () => {
+    // Arrange
+    const user = userEvent.setup();
+    renderPanel('country-cormyr');
+    await screen.findByRole('button', { name: 'Expand Faerûn' });
+
+    // Act
+    await user.type(screen.getByRole('searchbox', { name: 'Search destinations' }), 'suz');
+
+    // Assert
+    const suzail = await screen.findByRole('button', { name: /^Suzail/ });
+    expect(suzail).toBeDisabled();
+    expect(screen.queryByRole('button', { name: 'Expand Faerûn' })).not.toBeInTheDocument();
+  });
+
+  it('should preview the new path and move the entity on submit', async () => {
+    // Arrange
+    let moveRequest: { entityId: string; body: unknown } | null = null;
+    server.use(
+      http.patch('http://localhost:5000/api/v1/worlds/:worldId/entities/:entityId/move', async ({ params, request }) => {
+        moveRequest = { entityId: params.entityId as string, body: await request.json() };
+        return HttpResponse.json({
+          data: { id: params.entityId, parentId: 'continent-faerun', path: ['continent-faerun'] },
+        });
+      }),
+    );
+    const user = userEvent.setup();
+    const store = renderPanel('city-suzail');
+    const submit = await screen.findByRole('button', { name: /move entry/i });
+    expect(submit).toBeDisabled();
+
+    // Act
+    await user.click(await screen.findByRole('button', { name: /^Faerûn/ }));
+
+    // Assert - preview shows the entity beneath its new parent with a type warning
+    const preview = screen.getByRole('navigation', { name: 'New location' });
+    expect(within(preview).getByText('Suzail')).toBeInTheDocument();
+    await waitFor(() => expect(within(preview).getByText('Faerûn')).toBeInTheDocument());
+    expect(screen.getByText('City is not a usual child of Continent')).toBeInTheDocument();
+
+    // Act
+    await user.click(submit);
+
+    // Assert
+    await waitFor(() => {
+      expect(moveRequest).toEqual({
+        entityId: 'city-suzail',
+        body: { newParentId: 'continent-faerun' },
+      });
+    });
+    await waitFor(() => {
+      expect(store.getState().worldSidebar.mainPanelMode).toBe('viewing_entity');
+    });
+    expect(store.getState().worldSidebar.selectedEntityId).toBe('city-suzail');
+    expect(store.getState().worldSidebar.movingEntityId).toBeNull();
+  });
+
+  it('should close without moving when cancelled', async () => {
+    // Arrange
+    const user = userEvent.setup();
+    const store = renderPanel('city-suzail');
+
+    // Act
+    await user.click(await screen.findByRole('button', { name: 'Cancel' }));
+
+    // Assert
+    expect(store.getState().worldSidebar.mainPanelMode).toBe('empty');
+    expect(store.getState().worldSidebar.movingEntityId).toBeNull();
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Unit tests for RelationshipGraphPanel component
+ *
+ * Tests drawing a world's relationships, narrowing the graph, opening entries
+ * from it and exporting it.
+ *
+ * @module __tests__/RelationshipGraphPanel.test
+ */
+
+import { describe, it, expect, vi, beforeAll, afterEach, afterAll } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse } from 'msw';
+import { RelationshipGraphPanel } from '../RelationshipGraphPanel';
+import { api } from '@/services/api';
+import { MAX_GRAPH_NODES, layoutRelationshipGraph } from '@/lib/relationshipGraph';
+import worldSidebarReducer from '@/store/worldSidebarSlice';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+
+vi.mock('@/lib/relationshipGraph', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/relationshipGraph')>();
+  return { ...actual, layoutRelationshipGraph: vi.fn(actual.layoutRelationshipGraph) };
+});
+
+const BASE_URL = 'http://localhost:5000/api/v1/worlds/graph-world';
+
+const createEntity = (id: string, name: string, overrides: Partial<WorldEntity> = {}): WorldEntity => ({
+  id,
+  worldId: 'graph-world',
+  parentId: null,
+  entityType: WorldEntityType.Country,
+  name,
+  description: '',
+  tags: [],
+  path: [],
+  depth: 0,
+  hasChildren: false,
+  ownerId: 'test-user',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  isDeleted: false,
+  schemaVersion: 2,
+  ...overrides,
+});
+
+const ENTITIES = [
+  createEntity('amn', 'Amn', { properties: { rivals: [{ id: 'tethyr', name: 'Tethyr' }] }, tags: ['Merchant'] }),
+  createEntity('athkatla', 'Athkatla', { entityType: WorldEntityType.City, parentId: 'amn' }),
+  createEntity('tethyr', 'Tethyr', { description: 'Borders [[entity:calimshan|Calimshan]].' }),
+  createEntity('calimshan', 'Calimshan', { tags: ['Merchant'] }),
+];
+
+const server = setupServer(
+  http.get(BASE_URL, () =>
+    HttpResponse.json({
+      data: {
+        id: 'graph-world',
+        name: 'The Realms',
+        ownerId: 'test-user',
+        createdAt: '2026-01-01T00:00:00Z',
+        updatedAt: '2026-01-01T00:00:00Z',
+        isDeleted: false,
+      },
+    }),
+  ),
+  http.get(`${BASE_URL}/entities`, () => HttpResponse.json({ data: ENTITIES, meta: { nextCursor: null } })),
+);
+
+function renderPanel(selectedEntityId: string | null = null) {
+  const store = configureStore({
+    reducer: {
+      worldSidebar: worldSidebarReducer,
+      [api.reducerPath]: api.reducer,
+    },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(api.middleware),
+  });
+  store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'graph-world' });
+  if (selectedEntityId) {
+    store.dispatch({ type: 'worldSidebar/setSelectedEntity', payload: selectedEntityId });
+  }
+  store.dispatch({ type: 'worldSidebar/openRelationshipGraph' });
+
+  render(
+    <Provider store={store}>
+      <RelationshipGraphPanel />
+    </Provider>,
+  );
+
+  return store;
+}
+
+describe('RelationshipGraphPanel', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'warn' }));
+  afterEach(() => {
+    server.resetHandlers();
+    vi.restoreAllMocks();
+    vi.mocked(layoutRelationshipGraph).mockClear();
+  });
+  afterAll(() => server.close());
+
+  it('should draw every entry with its hierarchy, references and mentions', async () => {
+    renderPanel();
+
+    const graph = await screen.findByRole('group', { name: 'Relationships in The Realms' });
+    expect(within(graph).getAllByRole('button').map((node) => node.getAttribute('aria-label'))).toEqual([
+      'Amn (Country)',
+      'Athkatla (City)',
+      'Calimshan (Country)',
+      'Tethyr (Country)',
+    ]);
+    expect(graph.querySelectorAll('[data-edge-kind="hierarchy"]')).toHaveLength(1);
+    expect(graph.querySelectorAll('[data-edge-kind="reference"]')).toHaveLength(1);
+    expect(graph.querySelectorAll('[data-edge-kind="mention"]')).toHaveLength(1);
+    expect(screen.getByText('4 entries, 3 relationships')).toBeInTheDocument();
+  });
+
+  it('should lay out the graph only once every page of entries has loaded', async () => {
+    server.use(
+      http.get(`${BASE_URL}/entities`, ({ request }) =>
+        new URL(request.url).searchParams.get('cursor') === 'page-2'
+          ? HttpResponse.json({ data: ENTITIES.slice(2), meta: { nextCursor: null } })
+          : HttpResponse.json({ data: ENTITIES.slice(0, 2), meta: { nextCursor: 'page-2' } }),
+      ),
+    );
+    renderPanel();
+
+    expect(await screen.findByText('4 entries, 3 relationships')).toBeInTheDocument();
+    const laidOut = vi.mocked(layoutRelationshipGraph).mock.calls.map(([graph]) => graph.nodes.length);
+    expect(laidOut.filter((count) => count > 0)).toEqual([4]);
+  });
+
+  it('should ask to narrow a graph with too many entries to draw', async () => {
+    const user = userEvent.setup();
+    const entities = [
+      ...Array.from({ length: MAX_GRAPH_NODES }, (_, index) => createEntity(`town-${index}`, `Town ${index}`)),
+      createEntity('waterdeep', 'Waterdeep', { entityType: WorldEntityType.City, tags: ['Capital'] }),
+    ];
+    server.use(http.get(`${BASE_URL}/entities`, () => HttpResponse.json({ data: entities, meta: { nextCursor: null } })));
+    renderPanel();
+
+    expect(await screen.findByText(/too many entries to draw at once/i)).toBeInTheDocument();
+    expect(screen.queryByRole('group', { name: 'Relationships in The Realms' })).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /export svg/i })).toBeDisabled();
+    expect(vi.mocked(layoutRelationshipGraph).mock.calls.some(([graph]) => graph.nodes.length > MAX_GRAPH_NODES)).toBe(
+      false,
+    );
+
+    await user.type(screen.getByLabelText('Tags input'), 'capital{Enter}');
+
+    const graph = screen.getByRole('group', { name: 'Relationships in The Realms' });
+    expect(within(graph).getByRole('button', { name: 'Waterdeep (City)' })).toBeInTheDocument();
+  });
+
+  it('should open on the neighbourhood of the selected entry', async () => {
+    renderPanel('athkatla');
+
+    // Athkatla → Amn → Tethyr are within two steps; Calimshan is three away
+    expect(await screen.findByText('3 entries, 2 relationships')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Calimshan (Country)' })).not.toBeInTheDocument();
+  });
+
+  it('should narrow the graph by tag', async () => {
+    const user = userEvent.setup();
+    renderPanel();
+
+    await screen.findByRole('group', { name: 'Relationships in The Realms' });
+    await user.type(screen.getByLabelText('Tags input'), 'merchant{Enter}');
+
+    expect(screen.getByText('2 entries, 0 relationships')).toBeInTheDocument();
+  });
+
+  it('should select an entry when its node is opened', async () => {
+    const user = userEvent.setup();
+    const store = renderPanel();
+
+    await user.click(await screen.findByRole('button', { name: 'Tethyr (Country)' }));
+
+    expect(store.getState().worldSidebar.selectedEntityId).toBe('tethyr');
+    expect(store.getState().worldSidebar.mainPanelMode).toBe('viewing_entity');
+  });
+
+  it('should export the graph as an SVG file', async () => {
+    const user = userEvent.setup();
+    const createObjectURL = vi.fn<(blob: Blob) => string>(() => 'blob:graph');
+    Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    renderPanel();
+
+    await screen.findByRole('group', { name: 'Relationships in The Realms' });
+    await user.click(screen.getByRole('button', { name: /export svg/i }));
+
+    const blob = createObjectURL.mock.calls[0][0];
+    expect(blob.type).toBe('image/svg+xml');
+    expect(await blob.text()).toContain('Tethyr');
+    expect((click.mock.instances[0] as unknown as HTMLAnchorElement).download).toBe('the-realms-relationships.svg');
+  });
+
+  it('should return to the codex from the back button', async () => {
+    const user = userEvent.setup();
+    const store = renderPanel();
+
+    await user.click(screen.getByRole('button', { name: 'Back to codex' }));
+
+    expect(store.getState().worldSidebar.mainPanelMode).toBe('empty');
+  });
+});
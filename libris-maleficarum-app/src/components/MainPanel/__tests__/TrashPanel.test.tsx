@@ -0,0 +1,187 @@
+/**
+ * Unit tests for TrashPanel component
+ *
+ * Tests grouping deleted entries by the delete operation that removed them,
+ * restoring single entries and subtrees, and deleting entries forever.
+ *
+ * @module __tests__/TrashPanel.test
+ */
+
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse } from 'msw';
+import { TrashPanel } from '../TrashPanel';
+import { api } from '@/services/api';
+import worldSidebarReducer from '@/store/worldSidebarSlice';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+import type { DeleteOperationDto } from '@/services/types/asyncOperations';
+
+const BASE_URL = 'http://localhost:5000/api/v1/worlds/trash-world';
+
+const createEntity = (id: string, name: string, path: string[], isDeleted = true): WorldEntity => ({
+  id,
+  worldId: 'trash-world',
+  parentId: path[path.length - 1] ?? null,
+  entityType: WorldEntityType.Location,
+  name,
+  description: '',
+  tags: [],
+  path,
+  depth: path.length,
+  hasChildren: false,
+  ownerId: 'test-user',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  isDeleted,
+  schemaVersion: 1,
+});
+
+const createOperation = (id: string, rootEntityId: string, rootEntityName: string): DeleteOperationDto => ({
+  id,
+  worldId: 'trash-world',
+  rootEntityId,
+  rootEntityName,
+  status: 'completed',
+  totalEntities: 2,
+  deletedCount: 2,
+  failedCount: 0,
+  failedEntityIds: null,
+  errorDetails: null,
+  cascade: true,
+  createdBy: 'test-user',
+  createdAt: new Date().toISOString(),
+  startedAt: null,
+  completedAt: null,
+});
+
+const server = setupServer();
+
+/**
+ * Serve a trash holding Cormyr (with Suzail) and a lone inn, recording restore and purge requests
+ */
+function serveTrash() {
+  const restored: { entityId: string; cascade: string | null }[] = [];
+  const purged: string[] = [];
+
+  server.use(
+    http.get(`${BASE_URL}/entities`, ({ request }) => {
+      const includeDeleted = new URL(request.url).searchParams.get('includeDeleted') === 'true';
+      const entities = [
+        createEntity('faerun', 'Faerûn', [], false),
+        createEntity('cormyr', 'Cormyr', ['faerun']),
+        createEntity('suzail', 'Suzail', ['faerun', 'cormyr']),
+        createEntity('yawning-portal', 'Yawning Portal', ['faerun']),
+      ];
+      return HttpResponse.json({
+        data: entities.filter((entity) => includeDeleted || !entity.isDeleted),
+        meta: { nextCursor: null },
+      });
+    }),
+    http.get(`${BASE_URL}/delete-operations`, () =>
+      HttpResponse.json({ data: [createOperation('op-cormyr', 'cormyr', 'Cormyr')] }),
+    ),
+    http.post(`${BASE_URL}/entities/:entityId/restore`, ({ params, request }) => {
+      const cascade = new URL(request.url).searchParams.get('cascade');
+      restored.push({ entityId: params.entityId as string, cascade });
+      return HttpResponse.json({ data: createEntity(params.entityId as string, 'Restored', ['faerun'], false) });
+    }),
+    http.delete(`${BASE_URL}/entities/:entityId/permanent`, ({ params }) => {
+      purged.push(params.entityId as string);
+      return new HttpResponse(null, { status: 204 });
+    }),
+  );
+
+  return { restored, purged };
+}
+
+function renderPanel() {
+  const store = configureStore({
+    reducer: {
+      worldSidebar: worldSidebarReducer,
+      [api.reducerPath]: api.reducer,
+    },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(api.middleware),
+  });
+  store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'trash-world' });
+  store.dispatch({ type: 'worldSidebar/openTrash' });
+
+  render(
+    <Provider store={store}>
+      <TrashPanel />
+    </Provider>,
+  );
+
+  return store;
+}
+
+describe('TrashPanel', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'warn' }));
+  afterEach(() => server.resetHandlers());
+  afterAll(() => server.close());
+
+  it('should group deleted entries by the operation that removed them', async () => {
+    // Arrange & Act
+    serveTrash();
+    renderPanel();
+
+    // Assert
+    const groups = await screen.findAllByTestId('trash-group');
+    expect(groups).toHaveLength(2);
+    expect(within(groups[0]).getByText('Deletion of "Cormyr"')).toBeInTheDocument();
+    expect(within(groups[0]).getByText(/2 entries/)).toBeInTheDocument();
+    expect(within(groups[0]).getByRole('treeitem', { name: 'Suzail' })).toBeInTheDocument();
+    expect(within(groups[1]).getByText('Earlier deletions')).toBeInTheDocument();
+    expect(within(groups[1]).getByRole('treeitem', { name: 'Yawning Portal' })).toBeInTheDocument();
+    expect(screen.queryByText('Faerûn')).not.toBeInTheDocument();
+  });
+
+  it('should restore a whole subtree and require the parent to be restored first', async () => {
+    // Arrange
+    const user = userEvent.setup();
+    const { restored } = serveTrash();
+    renderPanel();
+
+    // Assert - Suzail waits for Cormyr
+    const suzailRestore = await screen.findByRole('button', { name: 'Restore Suzail' });
+    expect(suzailRestore).toBeDisabled();
+    expect(suzailRestore).toHaveAttribute('title', 'Restore "Cormyr" first');
+
+    // Act
+    await user.click(screen.getByRole('button', { name: 'Restore Cormyr with descendants' }));
+
+    // Assert
+    await waitFor(() => {
+      expect(restored).toEqual([{ entityId: 'cormyr', cascade: 'true' }]);
+    });
+  });
+
+  it('should delete an entry forever only after confirmation', async () => {
+    // Arrange
+    const user = userEvent.setup();
+    const { purged } = serveTrash();
+    renderPanel();
+
+    // Act
+    await user.click(await screen.findByRole('button', { name: 'Delete Cormyr forever' }));
+
+    // Assert
+    const dialog = await screen.findByRole('dialog');
+    expect(dialog).toHaveTextContent('"Cormyr" and its 1 deleted descendants will be lost forever.');
+    expect(purged).toEqual([]);
+
+    // Act
+    await user.click(within(dialog).getByRole('button', { name: 'Delete Forever' }));
+
+    // Assert
+    await waitFor(() => {
+      expect(purged).toEqual(['cormyr']);
+    });
+    await waitFor(() => {
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+  });
+});
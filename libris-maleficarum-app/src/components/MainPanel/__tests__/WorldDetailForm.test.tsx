@@ -0,0 +1,128 @@
+/**
+ * Unit tests for WorldDetailForm component
+ *
+ * Tests offering, restoring and discarding autosaved drafts of the world form.
+ *
+ * @module __tests__/WorldDetailForm.test
+ */
+
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse } from 'msw';
+import { WorldDetailForm } from '../WorldDetailForm';
+import { api } from '@/services/api';
+import worldSidebarReducer from '@/store/worldSidebarSlice';
+import { readFormDraft, writeFormDraft } from '@/lib/formDrafts';
+import { DRAFT_SAVE_DELAY } from '@/hooks/useFormDraft';
+import type { World } from '@/services/types/world.types';
+
+const world: World = {
+  id: 'world-1',
+  name: 'Forgotten Realms',
+  description: 'A world of sword and sorcery',
+  ownerId: 'test-user',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-10-19T12:00:00Z',
+  isDeleted: false,
+};
+
+const server = setupServer();
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'bypass' }));
+afterEach(() => {
+  server.resetHandlers();
+  localStorage.clear();
+});
+afterAll(() => server.close());
+
+function renderForm(mode: 'create' | 'edit') {
+  const store = configureStore({
+    reducer: {
+      worldSidebar: worldSidebarReducer,
+      [api.reducerPath]: api.reducer,
+    },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(api.middleware),
+  });
+
+  render(
+    <Provider store={store}>
+      <WorldDetailForm mode={mode} world={mode === 'edit' ? world : undefined} />
+    </Provider>,
+  );
+}
+
+describe('WorldDetailForm - Drafts', () => {
+  it('restores a draft of a new world', async () => {
+    const user = userEvent.setup();
+    writeFormDraft('world.new', {
+      savedAt: new Date().toISOString(),
+      baseUpdatedAt: null,
+      values: { name: 'Eberron', description: 'A world of magitech' },
+    });
+
+    renderForm('create');
+
+    expect(screen.getByRole('heading', { name: /restore draft from/i })).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Restore' }));
+
+    expect(screen.getByLabelText(/realm name/i)).toHaveValue('Eberron');
+    expect(screen.getByLabelText(/description/i)).toHaveValue('A world of magitech');
+    expect(screen.queryByRole('heading', { name: /restore draft from/i })).not.toBeInTheDocument();
+  });
+
+  it('warns when the world changed after the draft was taken', () => {
+    writeFormDraft('world.world-1', {
+      savedAt: '2026-10-19T11:00:00Z',
+      baseUpdatedAt: '2026-10-19T10:00:00Z',
+      values: { name: 'Toril', description: '' },
+    });
+
+    renderForm('edit');
+
+    expect(screen.getByText(/changed elsewhere after the draft was taken/i)).toBeInTheDocument();
+    expect(screen.getByLabelText(/realm name/i)).toHaveValue('Forgotten Realms');
+  });
+
+  it('discards a draft', async () => {
+    const user = userEvent.setup();
+    writeFormDraft('world.world-1', {
+      savedAt: new Date().toISOString(),
+      baseUpdatedAt: world.updatedAt,
+      values: { name: 'Toril', description: '' },
+    });
+
+    renderForm('edit');
+    await user.click(screen.getByRole('button', { name: 'Discard Draft' }));
+
+    expect(screen.queryByRole('heading', { name: /restore draft from/i })).not.toBeInTheDocument();
+    expect(readFormDraft('world.world-1')).toBeNull();
+  });
+
+  it('clears the draft after saving', async () => {
+    const user = userEvent.setup();
+    server.use(
+      http.put('http://localhost:5000/api/v1/worlds/world-1', async ({ request }) =>
+        HttpResponse.json({ data: { ...world, ...((await request.json()) as object) } }),
+      ),
+    );
+    writeFormDraft('world.world-1', {
+      savedAt: new Date().toISOString(),
+      baseUpdatedAt: world.updatedAt,
+      values: { name: 'Toril', description: '' },
+    });
+
+    renderForm('edit');
+    await user.click(screen.getByRole('button', { name: 'Restore' }));
+    await user.click(screen.getByRole('button', { name: /save world/i }));
+
+    await waitFor(() => expect(readFormDraft('world.world-1')).toBeNull());
+
+    // A pending autosave does not bring the draft back
+    await new Promise((resolve) => setTimeout(resolve, DRAFT_SAVE_DELAY + 100));
+    expect(readFormDraft('world.world-1')).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for autosaved drafts of the entry form
+ *
+ * Tests offering and restoring drafts of edited and new entries, and clearing
+ * them when the entry is saved or the changes are discarded.
+ *
+ * @module __tests__/WorldEntityForm.drafts.test
+ */
+
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse } from 'msw';
+import { EntityDetailForm } from '../WorldEntityForm';
+import { api } from '@/services/api';
+import worldSidebarReducer from '@/store/worldSidebarSlice';
+import { readFormDraft, writeFormDraft } from '@/lib/formDrafts';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+
+const BASE_URL = 'http://localhost:5000/api/v1/worlds/draft-world';
+
+const entity: WorldEntity = {
+  id: 'cormyr',
+  worldId: 'draft-world',
+  parentId: null,
+  entityType: WorldEntityType.Location,
+  name: 'Cormyr',
+  description: 'The Forest Kingdom',
+  tags: ['kingdom'],
+  path: [],
+  depth: 0,
+  hasChildren: false,
+  ownerId: 'test-user',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-10-19T12:00:00Z',
+  isDeleted: false,
+  schemaVersion: 1,
+};
+
+const server = setupServer(
+  http.get(`${BASE_URL}/entities/cormyr`, () => HttpResponse.json({ data: entity })),
+  http.get(`${BASE_URL}/tags`, () => HttpResponse.json({ data: [] })),
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'bypass' }));
+afterEach(() => {
+  server.resetHandlers();
+  localStorage.clear();
+});
+afterAll(() => server.close());
+
+function renderForm(action: { type: string; payload: string | null }) {
+  const store = configureStore({
+    reducer: {
+      worldSidebar: worldSidebarReducer,
+      [api.reducerPath]: api.reducer,
+    },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(api.middleware),
+  });
+  store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'draft-world' });
+  store.dispatch(action);
+
+  render(
+    <Provider store={store}>
+      <EntityDetailForm />
+    </Provider>,
+  );
+  return store;
+}
+
+describe('EntityDetailForm - Drafts', () => {
+  it('restores a draft of an edited entry', async () => {
+    const user = userEvent.setup();
+    writeFormDraft('entity.draft-world.cormyr', {
+      savedAt: new Date().toISOString(),
+      baseUpdatedAt: entity.updatedAt,
+      values: {
+        name: 'Cormyr Reborn',
+        description: 'The Forest Kingdom, restored',
+        entityType: WorldEntityType.Location,
+        tags: ['kingdom', 'restored'],
+        properties: null,
+        systemProperties: null,
+      },
+    });
+
+    renderForm({ type: 'worldSidebar/openEntityFormEdit', payload: 'cormyr' });
+
+    expect(await screen.findByRole('heading', { name: /restore draft from/i })).toBeInTheDocument();
+    expect(screen.queryByText(/changed elsewhere/i)).not.toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Restore' }));
+
+    expect(screen.getByLabelText(/^name/i)).toHaveValue('Cormyr Reborn');
+    expect(screen.getByText('restored')).toBeInTheDocument();
+  });
+
+  it('warns when the entry changed after the draft was taken', async () => {
+    writeFormDraft('entity.draft-world.cormyr', {
+      savedAt: '2026-10-19T11:00:00Z',
+      baseUpdatedAt: '2026-10-19T10:00:00Z',
+      values: {
+        name: 'Cormyr Reborn',
+        description: '',
+        entityType: WorldEntityType.Location,
+        tags: [],
+        properties: null,
+        systemProperties: null,
+      },
+    });
+
+    renderForm({ type: 'worldSidebar/openEntityFormEdit', payload: 'cormyr' });
+
+    expect(await screen.findByText(/changed elsewhere after the draft was taken/i)).toBeInTheDocument();
+  });
+
+  it('offers the draft of a new entry beneath the same parent', async () => {
+    const user = userEvent.setup();
+    writeFormDraft('entity.draft-world.new.cormyr', {
+      savedAt: new Date().toISOString(),
+      baseUpdatedAt: null,
+      values: {
+        name: 'Suzail',
+        description: '',
+        entityType: '',
+        tags: [],
+        properties: null,
+        systemProperties: null,
+      },
+    });
+
+    renderForm({ type: 'worldSidebar/openEntityFormCreate', payload: 'cormyr' });
+
+    await user.click(await screen.findByRole('button', { name: 'Restore' }));
+    expect(screen.getByLabelText(/^name/i)).toHaveValue('Suzail');
+  });
+
+  it('clears the draft when the changes are discarded', async () => {
+    const user = userEvent.setup();
+    renderForm({ type: 'worldSidebar/openEntityFormEdit', payload: 'cormyr' });
+
+    const nameInput = await screen.findByLabelText(/^name/i);
+    await waitFor(() => expect(nameInput).toHaveValue('Cormyr'));
+    await user.type(nameInput, ' Reborn');
+    await waitFor(() => expect(readFormDraft('entity.draft-world.cormyr')).not.toBeNull(), { timeout: 2000 });
+
+    await user.click(screen.getByRole('button', { name: 'Cancel' }));
+    await user.click(await screen.findByRole('button', { name: "Don't Save" }));
+
+    expect(readFormDraft('entity.draft-world.cormyr')).toBeNull();
+  });
+});
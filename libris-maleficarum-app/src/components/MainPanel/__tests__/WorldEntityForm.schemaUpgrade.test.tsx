@@ -0,0 +1,186 @@
+/**
+ * Unit tests for upgrading entries written for an older schema version
+ *
+ * Tests the upgrade preview shown when an outdated entry is opened for edit,
+ * saving the upgraded properties, and upgrading every outdated entry of the
+ * type at once.
+ *
+ * @module __tests__/WorldEntityForm.schemaUpgrade.test
+ */
+
+import { describe, it, expect, vi, beforeAll, afterEach, afterAll } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse } from 'msw';
+import { EntityDetailForm } from '../WorldEntityForm';
+import { OptimisticDeleteProvider } from '@/components/WorldSidebar/OptimisticDeleteContext';
+import { api } from '@/services/api';
+import worldSidebarReducer from '@/store/worldSidebarSlice';
+import undoHistoryReducer from '@/store/undoHistorySlice';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+
+vi.mock('@/services/config/entityTypeMigrations', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/services/config/entityTypeMigrations')>();
+  return {
+    ...actual,
+    getPropertyMigrations: (entityType: WorldEntityType, fromVersion: number) =>
+      entityType === WorldEntityType.Country && fromVersion < 2
+        ? [
+            {
+              toVersion: 2,
+              description: 'Tongues are now Languages, kept as tags',
+              operations: [
+                { op: 'rename', from: 'tongues', to: 'languages' },
+                { op: 'textToTagArray', key: 'languages' },
+              ],
+            },
+          ]
+        : [],
+  };
+});
+
+const BASE_URL = 'http://localhost:5000/api/v1/worlds/upgrade-world';
+
+const createCountry = (id: string, name: string, overrides: Partial<WorldEntity> = {}): WorldEntity => ({
+  id,
+  worldId: 'upgrade-world',
+  parentId: null,
+  entityType: WorldEntityType.Country,
+  name,
+  description: '',
+  tags: [],
+  path: [],
+  depth: 0,
+  hasChildren: false,
+  ownerId: 'test-user',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-10-19T12:00:00Z',
+  isDeleted: false,
+  schemaVersion: 1,
+  ...overrides,
+});
+
+const cormyr = createCountry('cormyr', 'Cormyr', {
+  parentId: 'faerun',
+  properties: { governmentType: 'Monarchy', tongues: 'Common, Elvish' },
+});
+const sembia = createCountry('sembia', 'Sembia', { properties: { tongues: 'Common' } });
+const amn = createCountry('amn', 'Amn', { schemaVersion: 2 });
+
+const countries = [cormyr, sembia, amn];
+const requests: Record<string, Record<string, unknown>> = {};
+const patches: Record<string, Record<string, unknown>> = {};
+
+const server = setupServer(
+  http.get(`${BASE_URL}/entities/:entityId`, ({ params }) =>
+    HttpResponse.json({ data: countries.find((entity) => entity.id === params.entityId) }),
+  ),
+  http.get(`${BASE_URL}/entities`, () =>
+    HttpResponse.json({ data: countries, meta: { nextCursor: null } }),
+  ),
+  http.get(`${BASE_URL}/tags`, () => HttpResponse.json({ data: [] })),
+  http.put(`${BASE_URL}/entities/:entityId`, async ({ params, request }) => {
+    const body = (await request.json()) as Record<string, unknown>;
+    const entityId = params.entityId as string;
+    requests[entityId] = body;
+    const stored = countries.find((entity) => entity.id === entityId)!;
+    return HttpResponse.json({ data: { ...stored, ...body } });
+  }),
+  http.patch(`${BASE_URL}/entities/:entityId`, async ({ params, request }) => {
+    const body = (await request.json()) as Record<string, unknown>;
+    const entityId = params.entityId as string;
+    patches[entityId] = body;
+    const stored = countries.find((entity) => entity.id === entityId)!;
+    return HttpResponse.json({ data: { ...stored, ...body } });
+  }),
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'bypass' }));
+afterEach(() => {
+  server.resetHandlers();
+  for (const key of Object.keys(requests)) delete requests[key];
+  for (const key of Object.keys(patches)) delete patches[key];
+  localStorage.clear();
+});
+afterAll(() => server.close());
+
+function renderForm() {
+  const store = configureStore({
+    reducer: {
+      worldSidebar: worldSidebarReducer,
+      undoHistory: undoHistoryReducer,
+      [api.reducerPath]: api.reducer,
+    },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(api.middleware),
+  });
+  store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'upgrade-world' });
+  store.dispatch({ type: 'worldSidebar/openEntityFormEdit', payload: 'cormyr' });
+
+  render(
+    <Provider store={store}>
+      <OptimisticDeleteProvider value={{ onOptimisticDelete: vi.fn(), onRollbackDelete: vi.fn() }}>
+        <EntityDetailForm />
+      </OptimisticDeleteProvider>
+    </Provider>,
+  );
+
+  return { store };
+}
+
+describe('EntityDetailForm - Schema Upgrade', () => {
+  it('previews the upgrade of an outdated entry', async () => {
+    renderForm();
+
+    const notice = await screen.findByRole('region', { name: 'Schema upgrade' });
+    expect(notice).toHaveTextContent('Upgraded from version 1 to 2 of the Country properties');
+    expect(notice).toHaveTextContent('Tongues are now Languages, kept as tags');
+
+    const table = within(notice).getByRole('table');
+    expect(within(table).getByRole('rowheader', { name: 'Languages' })).toBeInTheDocument();
+    expect(within(table).getByRole('rowheader', { name: 'tongues' })).toBeInTheDocument();
+  });
+
+  it('saves the upgraded properties and schema version', async () => {
+    const user = userEvent.setup();
+    renderForm();
+
+    await screen.findByRole('region', { name: 'Schema upgrade' });
+    await user.click(screen.getByRole('button', { name: /save changes/i }));
+
+    await waitFor(() => expect(requests.cormyr).toBeDefined());
+    expect(requests.cormyr).toMatchObject({
+      parentId: 'faerun',
+      schemaVersion: 2,
+      properties: { governmentType: 'Monarchy', languages: ['Common', 'Elvish'], tongues: null },
+    });
+  });
+
+  it('upgrades every outdated entry of the type', async () => {
+    const user = userEvent.setup();
+    const { store } = renderForm();
+
+    const notice = await screen.findByRole('region', { name: 'Schema upgrade' });
+    await user.click(within(notice).getByRole('button', { name: 'Upgrade All Country Entries...' }));
+
+    const dialog = await screen.findByRole('dialog', { name: 'Upgrade Country Entries' });
+    const list = await within(dialog).findByRole('list', { name: 'Entries to upgrade' });
+    expect(within(list).getAllByRole('listitem').map((item) => item.textContent)).toEqual([
+      expect.stringContaining('Cormyr'),
+      expect.stringContaining('Sembia'),
+    ]);
+
+    await user.click(within(dialog).getByRole('button', { name: 'Upgrade 2 entries' }));
+
+    await waitFor(() => expect(screen.queryByRole('dialog')).not.toBeInTheDocument());
+    expect(Object.keys(patches).sort()).toEqual(['cormyr', 'sembia']);
+    // Only the properties and schema version are sent, so the entries keep their parent
+    expect(patches.sembia).toEqual({
+      properties: { languages: ['Common'], tongues: null },
+      schemaVersion: 2,
+    });
+    expect(store.getState().undoHistory.past).toHaveLength(1);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Unit tests for changing the type of an entry in the entry form
+ *
+ * Tests the type change assistant: automatic and manual property mapping, the
+ * preview of lost data, moving unmapped values into the description and
+ * abandoning the change.
+ *
+ * @module __tests__/WorldEntityForm.typeChange.test
+ */
+
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse } from 'msw';
+import { EntityDetailForm } from '../WorldEntityForm';
+import { api } from '@/services/api';
+import worldSidebarReducer from '@/store/worldSidebarSlice';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+
+const BASE_URL = 'http://localhost:5000/api/v1/worlds/type-world';
+
+const entity: WorldEntity = {
+  id: 'faerun',
+  worldId: 'type-world',
+  parentId: null,
+  entityType: WorldEntityType.Continent,
+  name: 'Faerûn',
+  description: 'The western continent',
+  tags: [],
+  path: [],
+  depth: 0,
+  hasChildren: false,
+  ownerId: 'test-user',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-10-19T12:00:00Z',
+  isDeleted: false,
+  schemaVersion: 1,
+  properties: {
+    area: 1250.5,
+    population: 1000,
+    climateZones: ['Temperate', 'Arctic'],
+  },
+};
+
+const requests: Record<string, unknown>[] = [];
+
+const server = setupServer(
+  http.get(`${BASE_URL}/entities/faerun`, () => HttpResponse.json({ data: entity })),
+  http.get(`${BASE_URL}/tags`, () => HttpResponse.json({ data: [] })),
+  http.put(`${BASE_URL}/entities/faerun`, async ({ request }) => {
+    const body = (await request.json()) as Record<string, unknown>;
+    requests.push(body);
+    return HttpResponse.json({ data: { ...entity, ...body } });
+  }),
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'bypass' }));
+afterEach(() => {
+  server.resetHandlers();
+  requests.length = 0;
+  localStorage.clear();
+});
+afterAll(() => server.close());
+
+function renderForm() {
+  const store = configureStore({
+    reducer: {
+      worldSidebar: worldSidebarReducer,
+      [api.reducerPath]: api.reducer,
+    },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(api.middleware),
+  });
+  store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'type-world' });
+  store.dispatch({ type: 'worldSidebar/openEntityFormEdit', payload: 'faerun' });
+
+  render(
+    <Provider store={store}>
+      <EntityDetailForm />
+    </Provider>,
+  );
+}
+
+async function chooseType(user: ReturnType<typeof userEvent.setup>, search: string, name: RegExp) {
+  await waitFor(() => expect(screen.getByLabelText(/^name/i)).toHaveValue('Faerûn'));
+  await user.click(screen.getByRole('combobox', { name: /entity type/i }));
+  await user.type(await screen.findByPlaceholderText(/filter/i), search);
+  await user.click(await screen.findByRole('option', { name }));
+}
+
+describe('EntityDetailForm - Type Change', () => {
+  it('maps properties with matching keys and previews the data that will be lost', async () => {
+    const user = userEvent.setup();
+    renderForm();
+
+    await chooseType(user, 'country', /^country/i);
+
+    const dialog = await screen.findByRole('dialog', { name: 'Change Type to Country' });
+    expect(within(dialog).getByRole('combobox', { name: 'Map Population to' })).toHaveTextContent('Population');
+    expect(within(dialog).getByRole('combobox', { name: 'Map Area (sq km) to' })).toHaveTextContent('Leave unmapped');
+
+    const lost = within(dialog).getByRole('region', { name: 'Data that will be lost' });
+    expect(within(lost).getByText(/area \(sq km\)/i)).toBeInTheDocument();
+    expect(within(lost).getByText(/climate zones/i)).toBeInTheDocument();
+  });
+
+  it('saves the mapped properties and moves unmapped values into the description', async () => {
+    const user = userEvent.setup();
+    renderForm();
+
+    await chooseType(user, 'country', /^country/i);
+    const dialog = await screen.findByRole('dialog', { name: 'Change Type to Country' });
+
+    await user.click(within(dialog).getByRole('combobox', { name: 'Map Climate Zones to' }));
+    await user.click(await screen.findByRole('option', { name: 'Languages' }));
+    await user.click(within(dialog).getByLabelText(/move unmapped values into the description/i));
+    expect(within(dialog).getByRole('region', { name: 'Added to the description' })).toHaveTextContent(
+      'Area (sq km): 1250.5',
+    );
+    await user.click(within(dialog).getByRole('button', { name: 'Change Type' }));
+
+    await waitFor(() => expect(screen.queryByRole('dialog')).not.toBeInTheDocument());
+    await user.click(screen.getByRole('button', { name: /save changes/i }));
+
+    await waitFor(() => expect(requests).toHaveLength(1));
+    expect(requests[0]).toMatchObject({
+      entityType: WorldEntityType.Country,
+      properties: { population: 1000, languages: ['Temperate', 'Arctic'] },
+      description: 'The western continent\n\n**Continent properties**\n- Area (sq km): 1250.5',
+    });
+  });
+
+  it('keeps the type when the change is cancelled', async () => {
+    const user = userEvent.setup();
+    renderForm();
+
+    await chooseType(user, 'country', /^country/i);
+    const dialog = await screen.findByRole('dialog', { name: 'Change Type to Country' });
+    await user.click(within(dialog).getByRole('button', { name: 'Cancel' }));
+
+    await waitFor(() => expect(screen.queryByRole('dialog')).not.toBeInTheDocument());
+    expect(screen.getByRole('combobox', { name: /entity type/i })).toHaveTextContent(/continent/i);
+    expect(screen.getByLabelText(/population/i)).toHaveValue('1,000');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * DuplicateOperationItem Component
+ *
+ * Notification for duplicating an entity subtree. Copies are created by the
+ * client, so the progress comes from the notifications slice rather than the API.
+ *
+ * Features:
+ * - Entity name and combined status message
+ * - Status icon (in-progress, completed, failed)
+ * - Unread indicator (blue left border)
+ * - Click to mark as read
+ * - Dismiss button
+ *
+ * @module NotificationCenter/DuplicateOperationItem
+ */
+
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2, CheckCircle, XCircle, X } from 'lucide-react';
+import { useAppDispatch, useAppSelector } from '@/store/store';
+import { markAsRead, dismissNotification, selectOperationMetadata } from '@/store/notificationsSlice';
+import { getDuplicateOperationStatusMessage } from '@/lib/asyncOperationHelpers';
+import type { DuplicateOperation } from '@/services/types/asyncOperations';
+import { cn } from '@/lib/utils';
+
+export interface DuplicateOperationItemProps {
+  /**
+   * Duplicate operation to display
+   */
+  operation: DuplicateOperation;
+}
+
+/**
+ * DuplicateOperationItem component
+ *
+ * @example
+ * ```tsx
+ * <DuplicateOperationItem operation={operation} />
+ * ```
+ */
+export function DuplicateOperationItem({ operation }: DuplicateOperationItemProps) {
+  const dispatch = useAppDispatch();
+  const metadata = useAppSelector(selectOperationMetadata(operation.id));
+
+  const isUnread = !metadata?.isRead;
+
+  const statusIcon = {
+    in_progress: <Loader2 className="h-4 w-4 animate-spin text-blue-500" aria-hidden="true" />,
+    completed: <CheckCircle className="h-4 w-4 text-green-600" aria-hidden="true" />,
+    failed: <XCircle className="h-4 w-4 text-red-600" aria-hidden="true" />,
+  }[operation.status];
+
+  const handleClick = () => {
+    if (isUnread) {
+      dispatch(markAsRead(operation.id));
+    }
+  };
+
+  const handleDismiss = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    dispatch(dismissNotification(operation.id));
+  };
+
+  return (
+    <Card
+      className={cn(
+        'p-3 transition-colors relative',
+        isUnread && 'border-l-4 border-l-blue-500'
+      )}
+      data-testid="notification-duplicate-item"
+    >
+      <div
+        className="cursor-pointer hover:bg-accent/50 rounded -m-3 p-3 pr-10"
+        onClick={handleClick}
+        aria-label={`Mark ${operation.rootEntityName} copy notification as read`}
+      >
+        <div className="flex items-start gap-3">
+          <div className="mt-0.5">{statusIcon}</div>
+          <div className="flex-1 min-w-0">
+            <p className="font-medium truncate">Copy of {operation.rootEntityName}</p>
+            <p className="text-sm text-muted-foreground">
+              {getDuplicateOperationStatusMessage(operation)}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 shrink-0 absolute top-3 right-3"
+        onClick={handleDismiss}
+        aria-label="Dismiss notification"
+        data-testid="dismiss-button"
+      >
+        <X className="h-4 w-4" aria-hidden="true" />
+      </Button>
+    </Card>
+  );
+}
@@ -6,6 +6,8 @@
  * 
  * Features:
  * - List of all active and recent async operations
+ * - Operations started together (bulk delete) collapsed into one entry
+ * - Progress of duplicating large subtrees
  * - Mark all as read action
  * - Clear all completed action
  * - Empty state message
@@ -21,9 +23,15 @@ import { Drawer, DrawerContent, DrawerHeader, DrawerTitle, DrawerDescription } f
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useAppSelector, useAppDispatch } from '@/store/store';
-import { selectVisibleOperations } from '@/store/notificationSelectors';
+import {
+  selectNotificationEntries,
+  selectVisibleDuplicateOperations,
+  selectVisibleOperations,
+} from '@/store/notificationSelectors';
 import { clearAllCompleted, markAsRead, selectNotificationMetadata } from '@/store/notificationsSlice';
 import { NotificationItem } from './NotificationItem';
+import { NotificationGroupItem } from './NotificationGroupItem';
+import { DuplicateOperationItem } from './DuplicateOperationItem';
 
 export interface NotificationCenterProps {
   /**
@@ -48,15 +56,20 @@ export interface NotificationCenterProps {
  */
 export function NotificationCenter({ open, onOpenChange }: NotificationCenterProps) {
   const operations = useAppSelector(selectVisibleOperations);
+  const duplicates = useAppSelector(selectVisibleDuplicateOperations);
+  const entries = useAppSelector(selectNotificationEntries);
   const metadata = useAppSelector(selectNotificationMetadata);
   const dispatch = useAppDispatch();
   const [announceMessage, setAnnounceMessage] = useState<string>('');
   
   // Count completed operations for "Clear Completed" button
-  const completedCount = operations.filter(op => op.status === 'completed').length;
+  const completedIds = [...operations, ...duplicates]
+    .filter(op => op.status === 'completed')
+    .map(op => op.id);
+  const completedCount = completedIds.length;
   
   // Check if all visible operations are already read
-  const allRead = operations.length === 0 || operations.every(op => metadata[op.id]?.isRead);
+  const allRead = [...operations, ...duplicates].every(op => metadata[op.id]?.isRead);
   
   // Announce status changes for screen readers
   useEffect(() => {
@@ -83,17 +96,13 @@ export function NotificationCenter({ open, onOpenChange }: NotificationCenterPro
   
   // Mark all visible operations as read
   const handleMarkAllRead = () => {
-    operations.forEach(op => {
+    [...operations, ...duplicates].forEach(op => {
       dispatch(markAsRead(op.id));
     });
   };
   
   // Clear all completed operations
   const handleClearCompleted = () => {
-    const completedIds = operations
-      .filter(op => op.status === 'completed')
-      .map(op => op.id);
-    
     dispatch(clearAllCompleted(completedIds));
   };
   
@@ -139,7 +148,7 @@ export function NotificationCenter({ open, onOpenChange }: NotificationCenterPro
         
         {/* Operations List */}
         <ScrollArea className="flex-1 px-4">
-          {operations.length === 0 ? (
+          {entries.length === 0 ? (
             <div className="flex items-center justify-center h-32">
               <p className="text-center text-muted-foreground py-8">
                 No tidings to report
@@ -147,10 +156,21 @@ export function NotificationCenter({ open, onOpenChange }: NotificationCenterPro
             </div>
           ) : (
             <div className="space-y-2 py-4">
-              {operations.map(operation => (
+              {entries.map(entry => entry.kind === 'group' ? (
+                <NotificationGroupItem
+                  key={entry.group.id}
+                  group={entry.group}
+                  operations={entry.operations}
+                />
+              ) : entry.kind === 'duplicate' ? (
+                <DuplicateOperationItem
+                  key={entry.operation.id}
+                  operation={entry.operation}
+                />
+              ) : (
                 <NotificationItem
-                  key={operation.id}
-                  operation={operation}
+                  key={entry.operation.id}
+                  operation={entry.operation}
                 />
               ))}
             </div>
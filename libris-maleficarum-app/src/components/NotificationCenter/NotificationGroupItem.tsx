@@ -0,0 +1,193 @@
+/**
+ * NotificationGroupItem Component
+ *
+ * Notification for a group of delete operations started together (e.g. a bulk
+ * delete from the tree). Shows the combined status and progress, and can be
+ * expanded to list each operation.
+ *
+ * Features:
+ * - Group label and combined status message
+ * - Expandable per-operation breakdown
+ * - Unread indicator while any operation is unread
+ * - Click to mark the whole group as read
+ * - Retry for failed operations
+ * - Dismiss button (dismisses every operation in the group)
+ *
+ * @module NotificationCenter/NotificationGroupItem
+ */
+
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Clock,
+  Loader2,
+  CheckCircle,
+  XCircle,
+  X,
+  RotateCw,
+  ChevronDown,
+  ChevronRight,
+} from 'lucide-react';
+import { useAppDispatch, useAppSelector } from '@/store/store';
+import { clearAllCompleted, markAllAsRead, selectNotificationMetadata } from '@/store/notificationsSlice';
+import { useRetryDeleteOperationMutation } from '@/services/asyncOperationsApi';
+import {
+  getOperationGroupStatus,
+  getOperationGroupStatusMessage,
+  getOperationStatusMessage,
+} from '@/lib/asyncOperationHelpers';
+import type { DeleteOperationDto, DeleteOperationGroup } from '@/services/types/asyncOperations';
+import { cn } from '@/lib/utils';
+import { useWorldOptional } from '@/contexts';
+import { logger } from '@/lib/logger';
+
+export interface NotificationGroupItemProps {
+  /**
+   * Group to display
+   */
+  group: DeleteOperationGroup;
+
+  /**
+   * Visible operations belonging to the group
+   */
+  operations: DeleteOperationDto[];
+}
+
+/**
+ * NotificationGroupItem component
+ *
+ * @example
+ * ```tsx
+ * <NotificationGroupItem group={group} operations={operations} />
+ * ```
+ */
+export function NotificationGroupItem({ group, operations }: NotificationGroupItemProps) {
+  const worldContext = useWorldOptional();
+  const dispatch = useAppDispatch();
+  const metadata = useAppSelector(selectNotificationMetadata);
+  const [retryOperation, { isLoading: isRetrying }] = useRetryDeleteOperationMutation();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const operationIds = operations.map((op) => op.id);
+  const isUnread = operations.some((op) => !metadata[op.id]?.isRead);
+  const status = getOperationGroupStatus(operations);
+  const retryable = operations.filter((op) => op.status === 'failed' || op.status === 'partial');
+
+  const statusIcon = {
+    pending: <Clock className="h-4 w-4 text-yellow-500" aria-hidden="true" />,
+    in_progress: <Loader2 className="h-4 w-4 animate-spin text-blue-500" aria-hidden="true" />,
+    completed: <CheckCircle className="h-4 w-4 text-green-600" aria-hidden="true" />,
+    failed: <XCircle className="h-4 w-4 text-red-600" aria-hidden="true" />,
+    partial: <XCircle className="h-4 w-4 text-orange-600" aria-hidden="true" />,
+  }[status];
+
+  const handleClick = () => {
+    if (isUnread) {
+      dispatch(markAllAsRead(operationIds));
+    }
+  };
+
+  const handleDismiss = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    dispatch(clearAllCompleted(operationIds));
+  };
+
+  const handleRetry = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    await Promise.all(
+      retryable.map(async (op) => {
+        try {
+          await retryOperation({ worldId: worldContext?.worldId || op.worldId, operationId: op.id }).unwrap();
+        } catch (error) {
+          logger.error('API', 'Failed to retry operation', {
+            operationId: op.id,
+            groupId: group.id,
+            error,
+          });
+        }
+      }),
+    );
+  };
+
+  return (
+    <Card
+      className={cn(
+        'p-3 transition-colors relative',
+        isUnread && 'border-l-4 border-l-blue-500'
+      )}
+      data-testid="notification-group-item"
+    >
+      {/* Main content - clickable area for marking as read */}
+      <div
+        className="cursor-pointer hover:bg-accent/50 rounded -m-3 p-3 pr-10 pb-2"
+        onClick={handleClick}
+        aria-label={`Mark ${group.label} notification as read`}
+      >
+        <div className="flex items-start gap-3">
+          <div className="mt-0.5">{statusIcon}</div>
+          <div className="flex-1 min-w-0">
+            <p className="font-medium truncate">{group.label}</p>
+            <p className="text-sm text-muted-foreground">
+              {getOperationGroupStatusMessage(operations)}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-2 flex flex-wrap gap-2 ml-7">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setIsExpanded((prev) => !prev)}
+          className="text-xs"
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? (
+            <ChevronDown className="h-3 w-3 mr-1" aria-hidden="true" />
+          ) : (
+            <ChevronRight className="h-3 w-3 mr-1" aria-hidden="true" />
+          )}
+          {isExpanded ? 'Hide details' : `Show ${operations.length} rites`}
+        </Button>
+
+        {retryable.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRetry}
+            disabled={isRetrying}
+            className="text-xs"
+            aria-label="Retry failed operations"
+          >
+            <RotateCw className={cn("h-3 w-3 mr-1", isRetrying && "animate-spin")} aria-hidden="true" />
+            {isRetrying ? 'Retrying...' : 'Retry'}
+          </Button>
+        )}
+      </div>
+
+      {isExpanded && (
+        <ul className="mt-2 ml-7 space-y-1" aria-label={`Rites in ${group.label}`}>
+          {operations.map((op) => (
+            <li key={op.id} className="text-xs">
+              <span className="font-medium">{op.rootEntityName}</span>
+              <span className="text-muted-foreground"> — {getOperationStatusMessage(op)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Dismiss Button - positioned absolutely */}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 shrink-0 absolute top-3 right-3"
+        onClick={handleDismiss}
+        aria-label="Dismiss notification"
+        data-testid="dismiss-button"
+      >
+        <X className="h-4 w-4" aria-hidden="true" />
+      </Button>
+    </Card>
+  );
+}
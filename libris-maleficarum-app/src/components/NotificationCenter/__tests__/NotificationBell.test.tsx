@@ -58,6 +58,8 @@ describe('NotificationBell', () => {
         notifications: {
           sidebarOpen: false,
           metadata: {},
+          groups: {},
+          duplicates: {},
           lastCleanupTimestamp: Date.now(),
           pollingEnabled: true,
         },
@@ -74,7 +76,12 @@ describe('NotificationBell', () => {
           deletingEntityId: null,
           showDeleteConfirmation: false,
           movingEntityId: null,
+          duplicatingEntityId: null,
+          templateDialog: null,
           creatingEntityParentId: null,
+          draggedEntity: null,
+          multiSelectedEntityIds: [],
+          selectionAnchorId: null,
         },
         [api.reducerPath]: {
           queries: {
@@ -90,7 +90,12 @@ describe('NotificationCenter', () => {
         deletingEntityId: null,
         showDeleteConfirmation: false,
         movingEntityId: null,
+        duplicatingEntityId: null,
+        templateDialog: null,
         creatingEntityParentId: null,
+        draggedEntity: null,
+        multiSelectedEntityIds: [],
+        selectionAnchorId: null,
       } as unknown as RootState['worldSidebar'],
       api: {
         queries: {
@@ -334,4 +339,80 @@ describe('NotificationCenter', () => {
     // Last should be op-3 (09:00:00)
     expect(within(items[2]).getByText('Location 1')).toBeInTheDocument();
   });
+
+  it('collapses a group of operations into a single expandable entry', async () => {
+    const user = userEvent.setup();
+    const preloadedState = {
+      ...createPreloadedState(),
+      notifications: {
+        sidebarOpen: false,
+        metadata: {},
+        groups: {
+          'bulk-1': { id: 'bulk-1', label: 'Bulk deletion of 2 entries', operationIds: ['op-1', 'op-2'], createdAt: Date.now() },
+        },
+        duplicates: {},
+        lastCleanupTimestamp: Date.now(),
+        pollingEnabled: true,
+      } satisfies DeleteOperationsState,
+    };
+
+    renderWithProviders(
+      <NotificationCenter open={true} onOpenChange={vi.fn()} />,
+      {
+        worldId: 'test-world-id',
+        worldName: 'Test World',
+        preloadedState: preloadedState as unknown as Partial<RootState>,
+      }
+    );
+
+    const group = screen.getByTestId('notification-group-item');
+    expect(within(group).getByText('Bulk deletion of 2 entries')).toBeInTheDocument();
+    expect(within(group).getByText('1 of 2 rites complete • 6 entries banished')).toBeInTheDocument();
+    expect(screen.getAllByTestId('notification-item')).toHaveLength(1);
+
+    await user.click(within(group).getByRole('button', { name: 'Show 2 rites' }));
+
+    const rites = within(group).getByRole('list', { name: 'Rites in Bulk deletion of 2 entries' });
+    expect(within(rites).getByText('World 1')).toBeInTheDocument();
+    expect(within(rites).getByText('Character 1')).toBeInTheDocument();
+  });
+
+  it('lists duplicate operations alongside delete operations', () => {
+    const preloadedState = {
+      ...createPreloadedState(),
+      notifications: {
+        sidebarOpen: false,
+        metadata: {},
+        groups: {},
+        duplicates: {
+          'dup-1': {
+            id: 'dup-1',
+            worldId: 'test-world-id',
+            rootEntityName: 'The Yawning Portal',
+            status: 'completed',
+            totalEntities: 12,
+            createdCount: 12,
+            errorDetails: null,
+            createdAt: new Date('2026-02-03T09:45:00Z').getTime(),
+          },
+        },
+        lastCleanupTimestamp: Date.now(),
+        pollingEnabled: true,
+      } satisfies DeleteOperationsState,
+    };
+
+    renderWithProviders(
+      <NotificationCenter open={true} onOpenChange={vi.fn()} />,
+      {
+        worldId: 'test-world-id',
+        worldName: 'Test World',
+        preloadedState: preloadedState as unknown as Partial<RootState>,
+      }
+    );
+
+    const duplicate = screen.getByTestId('notification-duplicate-item');
+    expect(within(duplicate).getByText('Copy of The Yawning Portal')).toBeInTheDocument();
+    expect(within(duplicate).getByText('Copy completed • 12 entries transcribed')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Clear Completed (2)' })).toBeEnabled();
+  });
 });
@@ -7,6 +7,10 @@
 export { NotificationBell } from './NotificationBell';
 export { NotificationCenter } from './NotificationCenter';
 export { NotificationItem } from './NotificationItem';
+export { NotificationGroupItem } from './NotificationGroupItem';
+export { DuplicateOperationItem } from './DuplicateOperationItem';
 export type { NotificationBellProps } from './NotificationBell';
 export type { NotificationCenterProps } from './NotificationCenter';
 export type { NotificationItemProps } from './NotificationItem';
+export type { NotificationGroupItemProps } from './NotificationGroupItem';
+export type { DuplicateOperationItemProps } from './DuplicateOperationItem';
@@ -0,0 +1,197 @@
+/**
+ * EntityTemplateManager Component
+ *
+ * Settings section listing the entity templates offered in the selected world
+ * (its own and the user's), where templates can be renamed, moved between
+ * "this world" and "all my worlds", and deleted.
+ *
+ * @module components/SettingsPage/EntityTemplateManager
+ */
+
+import { useState, type FormEvent } from 'react';
+import { Check, Pencil, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useEntityTemplates } from '@/hooks/useEntityTemplates';
+import {
+  countTemplateEntities,
+  type EntityTemplate,
+  type EntityTemplateScope,
+} from '@/lib/entityTemplates';
+import { logger } from '@/lib/logger';
+
+export interface EntityTemplateManagerProps {
+  /** World whose templates are listed (only user templates when null) */
+  worldId: string | null;
+}
+
+/**
+ * Entity template manager component
+ *
+ * @returns Template list section
+ */
+export function EntityTemplateManager({ worldId }: EntityTemplateManagerProps) {
+  const { templates, updateTemplate, deleteTemplate } = useEntityTemplates(worldId);
+  const [deleteTarget, setDeleteTarget] = useState<EntityTemplate | null>(null);
+
+  const handleDelete = () => {
+    if (!deleteTarget) return;
+
+    logger.userAction('Delete entity template', { templateId: deleteTarget.id });
+    deleteTemplate(deleteTarget.id);
+    setDeleteTarget(null);
+  };
+
+  return (
+    <section aria-labelledby="templates-heading" className="space-y-4">
+      <div>
+        <h2 id="templates-heading" className="text-lg font-semibold">
+          Entry Templates
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          Templates saved from entries with "Save as Template...". Placeholders such as {'{{name}}'} are
+          filled in when a template is used.
+        </p>
+      </div>
+
+      {templates.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No templates have been inscribed yet.</p>
+      ) : (
+        <ul className="divide-y divide-border rounded-md border" aria-label="Entry templates">
+          {templates.map((template) => (
+            <TemplateItem
+              key={template.id}
+              template={template}
+              canUseWorldScope={!!worldId}
+              onUpdate={(changes) => updateTemplate(template.id, changes)}
+              onDelete={() => setDeleteTarget(template)}
+            />
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Template</DialogTitle>
+            <DialogDescription>
+              {`"${deleteTarget?.name}" will no longer be offered. Entries created from it are kept.`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setDeleteTarget(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete}>
+              Delete Template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </section>
+  );
+}
+
+/**
+ * A template with rename, scope and delete controls
+ */
+function TemplateItem({
+  template,
+  canUseWorldScope,
+  onUpdate,
+  onDelete,
+}: {
+  template: EntityTemplate;
+  canUseWorldScope: boolean;
+  onUpdate: (changes: Partial<Pick<EntityTemplate, 'name' | 'scope'>>) => void;
+  onDelete: () => void;
+}) {
+  const [draftName, setDraftName] = useState<string | null>(null);
+  const entryCount = countTemplateEntities(template.root);
+
+  const handleRename = (e: FormEvent) => {
+    e.preventDefault();
+    const name = draftName?.trim();
+    if (name && name !== template.name) {
+      logger.userAction('Rename entity template', { templateId: template.id });
+      onUpdate({ name });
+    }
+    setDraftName(null);
+  };
+
+  const handleScopeChange = (scope: string) => {
+    logger.userAction('Change entity template scope', { templateId: template.id, scope });
+    onUpdate({ scope: scope as EntityTemplateScope });
+  };
+
+  return (
+    <li className="flex flex-wrap items-center gap-3 p-3" aria-label={template.name}>
+      {draftName === null ? (
+        <div className="min-w-0 flex-1">
+          <p className="truncate font-medium">{template.name}</p>
+          <p className="text-xs text-muted-foreground">
+            {entryCount === 1 ? '1 entry' : `${entryCount} entries`}
+          </p>
+        </div>
+      ) : (
+        <form onSubmit={handleRename} className="flex min-w-0 flex-1 items-center gap-1">
+          <Input
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            maxLength={100}
+            aria-label={`New name for ${template.name}`}
+            autoFocus
+          />
+          <Button type="submit" variant="ghost" size="icon" aria-label="Save name">
+            <Check className="h-4 w-4" aria-hidden="true" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" onClick={() => setDraftName(null)} aria-label="Cancel rename">
+            <X className="h-4 w-4" aria-hidden="true" />
+          </Button>
+        </form>
+      )}
+
+      <Select value={template.scope} onValueChange={handleScopeChange}>
+        <SelectTrigger className="w-40" aria-label={`Where ${template.name} is available`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="world" disabled={!canUseWorldScope}>
+            This world
+          </SelectItem>
+          <SelectItem value="user">All my worlds</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {draftName === null && (
+        <Button variant="ghost" size="icon" onClick={() => setDraftName(template.name)} aria-label={`Rename ${template.name}`}>
+          <Pencil className="h-4 w-4" aria-hidden="true" />
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="text-destructive hover:text-destructive"
+        onClick={onDelete}
+        aria-label={`Delete ${template.name}`}
+      >
+        <Trash2 className="h-4 w-4" aria-hidden="true" />
+      </Button>
+    </li>
+  );
+}
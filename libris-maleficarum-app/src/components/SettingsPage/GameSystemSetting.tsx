@@ -0,0 +1,71 @@
+/**
+ * GameSystemSetting Component
+ *
+ * Settings section for choosing the game system played in the selected world.
+ * The system decides which stat block fields ("System" section) entries of
+ * the world offer; entries keep the values of a system that is switched off.
+ *
+ * @module components/SettingsPage/GameSystemSetting
+ */
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useWorldGameSystem } from '@/hooks/useWorldGameSystem';
+import { getAllGameSystems } from '@/services/config/gameSystemRegistry';
+import { logger } from '@/lib/logger';
+
+const NO_SYSTEM = 'none';
+
+export interface GameSystemSettingProps {
+  /** World whose game system is chosen */
+  worldId: string;
+}
+
+/**
+ * Game system setting component
+ *
+ * @returns Game system section
+ */
+export function GameSystemSetting({ worldId }: GameSystemSettingProps) {
+  const [gameSystem, setGameSystem] = useWorldGameSystem(worldId);
+
+  const handleChange = (value: string) => {
+    const systemId = value === NO_SYSTEM ? null : value;
+    logger.userAction('Change world game system', { worldId, systemId });
+    setGameSystem(systemId);
+  };
+
+  return (
+    <section aria-labelledby="game-system-heading" className="space-y-4">
+      <h2 id="game-system-heading" className="text-lg font-semibold">
+        Game System
+      </h2>
+      <div className="max-w-sm space-y-2">
+        <label htmlFor="game-system-select" className="text-sm font-medium">
+          Rules played in this world
+        </label>
+        <Select value={gameSystem?.id ?? NO_SYSTEM} onValueChange={handleChange}>
+          <SelectTrigger id="game-system-select" aria-label="Game system">
+            <SelectValue placeholder="Choose a game system" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_SYSTEM}>No game system</SelectItem>
+            {getAllGameSystems().map((system) => (
+              <SelectItem key={system.id} value={system.id}>
+                {system.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-sm text-muted-foreground">
+          {gameSystem?.description ?? 'Entries record lore only, without stat blocks.'}
+        </p>
+      </div>
+    </section>
+  );
+}
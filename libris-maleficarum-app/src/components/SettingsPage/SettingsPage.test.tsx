@@ -3,6 +3,9 @@ import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import { SettingsPage } from './SettingsPage';
+import { readUserPreference, writeUserPreference } from '@/lib/userPreferences';
+import { WorldEntityType } from '@/services/types/worldEntity.types';
+import type { EntityTemplate } from '@/lib/entityTemplates';
 
 const mockLoadBackendStatus = vi.fn(async () => undefined);
 let mockBackendStatusState: {
@@ -24,6 +27,7 @@ expect.extend(toHaveNoViolations);
 
 beforeEach(() => {
   vi.clearAllMocks();
+  localStorage.clear();
   mockBackendStatusState = {
     isUninitialized: false,
     isLoading: false,
@@ -31,16 +35,26 @@ beforeEach(() => {
   };
 });
 
-function renderSettingsPage() {
+function renderSettingsPage(worldId: string | null = null) {
   const onClose = vi.fn();
   return {
     onClose,
     ...render(
-      <SettingsPage onClose={onClose} />
+      <SettingsPage onClose={onClose} worldId={worldId} />
     ),
   };
 }
 
+function seedTemplate(template: Partial<EntityTemplate> & Pick<EntityTemplate, 'id' | 'name' | 'scope'>) {
+  writeUserPreference('entityTemplates', template.scope === 'user' ? 'all-worlds' : 'world-1', [
+    {
+      createdAt: '2026-01-01T00:00:00Z',
+      root: { entityType: WorldEntityType.Location, name: '{{name}}', tags: [], children: [] },
+      ...template,
+    },
+  ]);
+}
+
 describe('SettingsPage', () => {
   it('renders heading and key settings sections', () => {
     renderSettingsPage();
@@ -100,6 +114,59 @@ describe('SettingsPage', () => {
     expect(mockLoadBackendStatus.mock.calls.length).toBeGreaterThan(initialCalls);
   });
 
+  it('lists the world and user entry templates', () => {
+    seedTemplate({ id: 'template-1', name: 'Village', scope: 'world' });
+    seedTemplate({ id: 'template-2', name: 'Dungeon', scope: 'user' });
+
+    renderSettingsPage('world-1');
+
+    expect(screen.getByRole('heading', { name: /entry templates/i })).toBeInTheDocument();
+    const items = screen.getAllByRole('listitem');
+    expect(items.map((item) => item.getAttribute('aria-label'))).toEqual(['Dungeon', 'Village']);
+  });
+
+  it('renames and deletes an entry template', async () => {
+    const user = userEvent.setup();
+    seedTemplate({ id: 'template-1', name: 'Village', scope: 'world' });
+
+    renderSettingsPage('world-1');
+
+    await user.click(screen.getByRole('button', { name: /rename village/i }));
+    const input = screen.getByRole('textbox', { name: /new name for village/i });
+    await user.clear(input);
+    await user.type(input, 'Hamlet{Enter}');
+
+    expect(screen.getByRole('listitem', { name: 'Hamlet' })).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /delete hamlet/i }));
+    await user.click(screen.getByRole('button', { name: /delete template/i }));
+
+    expect(screen.queryByRole('listitem', { name: 'Hamlet' })).not.toBeInTheDocument();
+    expect(screen.getByText(/no templates have been inscribed yet/i)).toBeInTheDocument();
+  });
+
+  it('chooses the game system of the selected world', async () => {
+    const user = userEvent.setup();
+    renderSettingsPage('world-1');
+
+    const select = screen.getByRole('combobox', { name: /game system/i });
+    expect(select).toHaveTextContent('No game system');
+
+    await user.click(select);
+    await user.click(screen.getByRole('option', { name: 'Dungeons & Dragons 5th Edition' }));
+
+    expect(screen.getByRole('combobox', { name: /game system/i })).toHaveTextContent(
+      'Dungeons & Dragons 5th Edition',
+    );
+    expect(readUserPreference('gameSystem', 'world-1', null)).toBe('dnd5e');
+  });
+
+  it('hides the game system without a selected world', () => {
+    renderSettingsPage();
+
+    expect(screen.queryByRole('combobox', { name: /game system/i })).not.toBeInTheDocument();
+  });
+
   it('has no accessibility violations', async () => {
     const { container } = renderSettingsPage();
 
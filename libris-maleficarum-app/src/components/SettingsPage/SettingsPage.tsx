@@ -12,9 +12,14 @@ import {
 import { Separator } from '@/components/ui/separator';
 import { useLazyGetAccessStatusQuery } from '@/services/configApi';
 import { useTheme, type ThemePreference } from '@/hooks/useTheme';
+import { EntityTemplateManager } from './EntityTemplateManager';
+import { GameSystemSetting } from './GameSystemSetting';
 
 interface SettingsPageProps {
   onClose: () => void;
+
+  /** Selected world, whose game system is chosen and whose entry templates are listed alongside the user's */
+  worldId?: string | null;
 }
 
 interface BackendStatus {
@@ -44,7 +49,7 @@ function isThemePreference(value: string): value is ThemePreference {
  * Settings page rendered in the main content region.
  * Mirrors the settings layout from Prompt Babbler while using Libris styling conventions.
  */
-export function SettingsPage({ onClose }: SettingsPageProps) {
+export function SettingsPage({ onClose, worldId = null }: SettingsPageProps) {
   const { theme, setTheme } = useTheme();
   const [loadBackendStatus, { isUninitialized, isLoading, isError, error }] =
     useLazyGetAccessStatusQuery();
@@ -72,7 +77,7 @@ export function SettingsPage({ onClose }: SettingsPageProps) {
           <div>
             <h1 className="text-2xl font-bold">Settings</h1>
             <p className="text-sm text-muted-foreground">
-              Appearance preferences and backend status.
+              Appearance preferences, game system, entry templates and backend status.
             </p>
           </div>
           <Button type="button" variant="outline" size="sm" onClick={onClose}>
@@ -115,6 +120,10 @@ export function SettingsPage({ onClose }: SettingsPageProps) {
           </div>
         </section>
 
+        {worldId && <GameSystemSetting worldId={worldId} />}
+
+        <EntityTemplateManager worldId={worldId} />
+
         <Card>
           <CardHeader>
             <CardTitle>Backend Status</CardTitle>
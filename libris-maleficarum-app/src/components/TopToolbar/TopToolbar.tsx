@@ -7,6 +7,7 @@ import { resetToHome } from '@/store/worldSidebarSlice';
 import { NotificationBell, NotificationCenter } from '@/components/NotificationCenter';
 import { GlobalSearch } from '@/components/GlobalSearch/GlobalSearch';
 import { ThemeToggle } from '@/components/shared/ThemeToggle';
+import { UndoHistoryMenu } from '@/components/UndoHistory';
 import { UserMenu } from '@/components/UserMenu';
 import appIcon from '@/assets/libris-maleficarum-icon.png';
 
@@ -46,6 +47,7 @@ export function TopToolbar({ onOpenSettings }: TopToolbarProps) {
             <div className="min-w-[200px] w-1/2">
               <GlobalSearch />
             </div>
+            <UndoHistoryMenu />
             <NotificationBell onClick={() => setNotificationCenterOpen(true)} />
             <ThemeToggle />
             <UserMenu onOpenSettings={onOpenSettings} />
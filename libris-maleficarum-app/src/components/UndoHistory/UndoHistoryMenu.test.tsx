@@ -0,0 +1,155 @@
+/**
+ * UndoHistoryMenu Component Tests
+ *
+ * Tests the list of recent changes, undoing and redoing them with the buttons
+ * and keyboard shortcuts, and replaying them through the API.
+ */
+
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse } from 'msw';
+import { UndoHistoryMenu } from './UndoHistoryMenu';
+import { api } from '@/services/api';
+import worldSidebarReducer from '@/store/worldSidebarSlice';
+import undoHistoryReducer, { changeRecorded } from '@/store/undoHistorySlice';
+import {
+  getEntityDeleteChange,
+  getEntityPatchChange,
+  type UndoableChange,
+} from '@/lib/undoHistory';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+
+const BASE_URL = 'http://localhost:5000/api/v1/worlds/world-1';
+
+const createEntity = (overrides: Partial<WorldEntity> = {}): WorldEntity => ({
+  id: 'cormyr',
+  worldId: 'world-1',
+  parentId: null,
+  entityType: WorldEntityType.Country,
+  name: 'Cormyr',
+  description: '',
+  tags: [],
+  path: [],
+  depth: 0,
+  hasChildren: false,
+  ownerId: 'user-1',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  isDeleted: false,
+  schemaVersion: 2,
+  ...overrides,
+});
+
+const requests: { method: string; url: string; body?: unknown }[] = [];
+
+const server = setupServer(
+  http.patch(`${BASE_URL}/entities/:entityId`, async ({ request }) => {
+    const body = (await request.json()) as Partial<WorldEntity>;
+    requests.push({ method: 'PATCH', url: request.url, body });
+    return HttpResponse.json({ data: createEntity(body) });
+  }),
+  http.post(`${BASE_URL}/entities/:entityId/restore`, ({ request }) => {
+    requests.push({ method: 'POST', url: request.url });
+    return HttpResponse.json({ data: createEntity() });
+  }),
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'bypass' }));
+afterEach(() => {
+  server.resetHandlers();
+  requests.length = 0;
+});
+afterAll(() => server.close());
+
+function renderMenu(changes: [string, UndoableChange][] = []) {
+  const store = configureStore({
+    reducer: {
+      worldSidebar: worldSidebarReducer,
+      undoHistory: undoHistoryReducer,
+      [api.reducerPath]: api.reducer,
+    },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(api.middleware),
+  });
+  store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'world-1' });
+  changes.forEach(([label, change], i) =>
+    store.dispatch(changeRecorded({ id: `change-${i}`, worldId: 'world-1', label, recordedAt: Date.now(), ...change })),
+  );
+
+  render(
+    <Provider store={store}>
+      <UndoHistoryMenu />
+      <input aria-label="Notes" />
+    </Provider>,
+  );
+  return store;
+}
+
+const rename = getEntityPatchChange(createEntity(), createEntity({ name: 'Cormyr Reborn' }), ['name']);
+
+describe('UndoHistoryMenu', () => {
+  it('shows that nothing has been changed yet', async () => {
+    const user = userEvent.setup();
+    renderMenu();
+
+    await user.click(screen.getByRole('button', { name: 'Undo history' }));
+
+    expect(screen.getByText(/no changes have been inscribed/i)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Undo' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Redo' })).toBeDisabled();
+  });
+
+  it('lists recent changes, newest first', async () => {
+    const user = userEvent.setup();
+    renderMenu([
+      ['Rename "Cormyr"', rename],
+      ['Delete "Suzail"', getEntityDeleteChange('suzail')],
+    ]);
+
+    await user.click(screen.getByRole('button', { name: 'Undo history' }));
+
+    const items = screen.getAllByRole('listitem');
+    expect(items[0]).toHaveTextContent('Delete "Suzail"');
+    expect(items[1]).toHaveTextContent('Rename "Cormyr"');
+  });
+
+  it('undoes the latest change with Ctrl+Z and redoes it with Ctrl+Shift+Z', async () => {
+    const user = userEvent.setup();
+    const store = renderMenu([['Rename "Cormyr"', rename]]);
+
+    await user.keyboard('{Control>}z{/Control}');
+    await waitFor(() => expect(store.getState().undoHistory.future).toHaveLength(1));
+    expect(requests[0]).toMatchObject({ method: 'PATCH', body: { name: 'Cormyr' } });
+
+    await user.keyboard('{Control>}{Shift>}z{/Shift}{/Control}');
+    await waitFor(() => expect(store.getState().undoHistory.past).toHaveLength(1));
+    expect(requests[1]).toMatchObject({ method: 'PATCH', body: { name: 'Cormyr Reborn' } });
+  });
+
+  it('restores a deleted entry from the trash when the delete is undone', async () => {
+    const user = userEvent.setup();
+    const store = renderMenu([['Delete "Suzail"', getEntityDeleteChange('suzail')]]);
+
+    await user.click(screen.getByRole('button', { name: 'Undo history' }));
+    await user.click(screen.getByRole('button', { name: 'Undo' }));
+
+    await waitFor(() => expect(store.getState().undoHistory.future).toHaveLength(1));
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].url).toContain('/entities/suzail/restore?cascade=true');
+    expect(screen.getByText('(undone)')).toBeInTheDocument();
+  });
+
+  it('leaves Ctrl+Z to text fields', async () => {
+    const user = userEvent.setup();
+    const store = renderMenu([['Rename "Cormyr"', rename]]);
+
+    await user.click(screen.getByRole('textbox', { name: 'Notes' }));
+    await user.keyboard('{Control>}z{/Control}');
+
+    expect(store.getState().undoHistory.past).toHaveLength(1);
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * UndoHistoryMenu Component
+ *
+ * Toolbar button opening the list of recent changes to the world's entries,
+ * with Undo and Redo buttons. Undone changes stay listed (dimmed) until a new
+ * change is made. Also handles the Ctrl+Z / Ctrl+Shift+Z shortcuts (Cmd on
+ * macOS) across the workspace, except while typing in a text field, where
+ * they keep undoing the typing.
+ *
+ * @module UndoHistory/UndoHistoryMenu
+ */
+
+import { useEffect } from 'react';
+import { History, Redo2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useAppSelector } from '@/store/store';
+import {
+  selectApplyingUndoEntryId,
+  selectUndoFuture,
+  selectUndoPast,
+} from '@/store/undoHistorySlice';
+import { useUndoHistory } from '@/hooks/useUndoHistory';
+import { cn } from '@/lib/utils';
+
+/**
+ * Whether a key press goes to a field with its own undo
+ */
+function isTextEditingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+}
+
+function formatRecordedAt(recordedAt: number): string {
+  return new Date(recordedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * UndoHistoryMenu component
+ *
+ * @example
+ * ```tsx
+ * <UndoHistoryMenu />
+ * ```
+ */
+export function UndoHistoryMenu() {
+  const past = useAppSelector(selectUndoPast);
+  const future = useAppSelector(selectUndoFuture);
+  const applyingEntryId = useAppSelector(selectApplyingUndoEntryId);
+  const { undo, redo } = useUndoHistory();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || !(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if (event.key.toLowerCase() !== 'z' || isTextEditingTarget(event.target)) return;
+
+      event.preventDefault();
+      void (event.shiftKey ? redo() : undo());
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const isApplying = applyingEntryId !== null;
+  // Newest first: undone changes above the ones that can still be undone
+  const entries = [
+    ...future.map((entry) => ({ entry, isUndone: true })),
+    ...[...past].reverse().map((entry) => ({ entry, isUndone: false })),
+  ];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Undo history" title="Undo history">
+          <History className="h-5 w-5" aria-hidden="true" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between gap-2 border-b border-border px-3 py-2">
+          <h2 className="text-sm font-semibold">Recent Changes</h2>
+          <div className="flex gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => void undo()}
+              disabled={past.length === 0 || isApplying}
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 className="h-4 w-4" aria-hidden="true" />
+              Undo
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => void redo()}
+              disabled={future.length === 0 || isApplying}
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 className="h-4 w-4" aria-hidden="true" />
+              Redo
+            </Button>
+          </div>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="px-3 py-4 text-sm text-muted-foreground">
+            No changes have been inscribed yet.
+          </p>
+        ) : (
+          <ol aria-label="Recent changes" className="max-h-80 overflow-y-auto py-1">
+            {entries.map(({ entry, isUndone }) => (
+              <li
+                key={entry.id}
+                className={cn(
+                  'flex items-baseline justify-between gap-3 px-3 py-1.5 text-sm',
+                  isUndone && 'text-muted-foreground line-through',
+                  entry.id === applyingEntryId && 'animate-pulse',
+                )}
+              >
+                <span className="truncate">
+                  {entry.label}
+                  {isUndone && <span className="sr-only"> (undone)</span>}
+                </span>
+                <time
+                  dateTime={new Date(entry.recordedAt).toISOString()}
+                  className="shrink-0 text-xs text-muted-foreground"
+                >
+                  {formatRecordedAt(entry.recordedAt)}
+                </time>
+              </li>
+            ))}
+          </ol>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
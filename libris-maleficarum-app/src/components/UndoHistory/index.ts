@@ -0,0 +1 @@
+export { UndoHistoryMenu } from './UndoHistoryMenu';
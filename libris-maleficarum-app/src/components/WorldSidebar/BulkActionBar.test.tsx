@@ -0,0 +1,201 @@
+/**
+ * BulkActionBar Component Tests
+ *
+ * Tests for the multi-selection toolbar: visibility, clearing, bulk tag edits,
+ * bulk delete of top-level entries only, and the partial failure summary.
+ *
+ * @see BulkActionBar.tsx
+ */
+
+import { describe, it, expect, vi, beforeAll, afterEach, afterAll } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse } from 'msw';
+import { BulkActionBar } from './BulkActionBar';
+import { OptimisticDeleteProvider } from './OptimisticDeleteContext';
+import { api } from '@/services/api';
+import worldSidebarReducer from '@/store/worldSidebarSlice';
+import notificationsReducer from '@/store/notificationsSlice';
+import { handlers } from '@/__tests__/mocks/handlers';
+import { ENTITY_SCHEMA_VERSIONS, WorldEntityType } from '@/services/types/worldEntity.types';
+
+const server = setupServer(...handlers);
+const baseUrl = 'http://localhost:5000';
+
+const createMockStore = () => {
+  return configureStore({
+    reducer: {
+      worldSidebar: worldSidebarReducer,
+      notifications: notificationsReducer,
+      [api.reducerPath]: api.reducer,
+    },
+    middleware: (getDefaultMiddleware) =>
+      getDefaultMiddleware().concat(api.middleware),
+  });
+};
+
+function renderBar(selectedIds: string[]) {
+  const store = createMockStore();
+  store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'test-world-123' });
+  store.dispatch({ type: 'worldSidebar/setMultiSelectedEntities', payload: selectedIds });
+
+  const optimisticDelete = {
+    onOptimisticDelete: vi.fn(),
+    onRollbackDelete: vi.fn(),
+  };
+
+  render(
+    <Provider store={store}>
+      <OptimisticDeleteProvider value={optimisticDelete}>
+        <BulkActionBar />
+      </OptimisticDeleteProvider>
+    </Provider>,
+  );
+
+  return { store, optimisticDelete };
+}
+
+describe('BulkActionBar', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'warn' }));
+  afterEach(() => server.resetHandlers());
+  afterAll(() => server.close());
+
+  it('should render nothing without a multi-selection', () => {
+    // Arrange & Act
+    renderBar([]);
+
+    // Assert
+    expect(screen.queryByRole('toolbar', { name: 'Bulk actions' })).not.toBeInTheDocument();
+  });
+
+  it('should show the selection count and clear the selection', async () => {
+    // Arrange
+    const user = userEvent.setup();
+    const { store } = renderBar(['continent-faerun', 'country-cormyr']);
+
+    // Assert
+    expect(screen.getByText('2 entries selected')).toBeInTheDocument();
+
+    // Act
+    await user.click(screen.getByRole('button', { name: 'Clear selection' }));
+
+    // Assert
+    expect(store.getState().worldSidebar.multiSelectedEntityIds).toEqual([]);
+  });
+
+  it('should add a tag to every selected entry', async () => {
+    // Arrange
+    const updates: Record<string, unknown> = {};
+    server.use(
+      http.patch(`${baseUrl}/api/v1/worlds/:worldId/entities/:entityId`, async ({ params, request }) => {
+        const body = (await request.json()) as Record<string, unknown>;
+        updates[params.entityId as string] = body;
+        return HttpResponse.json({ data: { id: params.entityId, ...body } });
+      }),
+    );
+    const user = userEvent.setup();
+    const { store } = renderBar(['continent-faerun', 'country-cormyr']);
+
+    // Act
+    await user.click(screen.getByRole('button', { name: 'Edit tags of selected entries' }));
+    await user.type(await screen.findByLabelText('Tags to add input'), 'lore{Enter}');
+    await user.click(screen.getByRole('button', { name: 'Apply Tags' }));
+
+    // Assert
+    await waitFor(() => {
+      // Only the tags are sent, so the entries keep their parent and schema
+      expect(updates).toEqual({
+        'continent-faerun': { tags: ['forgotten-realms', 'primary-setting', 'lore'] },
+        'country-cormyr': { tags: ['kingdom', 'purple-dragon', 'lore'] },
+      });
+    });
+    await waitFor(() => expect(store.getState().worldSidebar.multiSelectedEntityIds).toEqual([]));
+  });
+
+  it('should change the type of every selected entry without touching its parent', async () => {
+    // Arrange
+    const updates: Record<string, unknown> = {};
+    server.use(
+      http.patch(`${baseUrl}/api/v1/worlds/:worldId/entities/:entityId`, async ({ params, request }) => {
+        const body = (await request.json()) as Record<string, unknown>;
+        updates[params.entityId as string] = body;
+        return HttpResponse.json({ data: { id: params.entityId, ...body } });
+      }),
+    );
+    const user = userEvent.setup();
+    renderBar(['country-cormyr']);
+
+    // Act
+    await user.click(screen.getByRole('button', { name: 'Change type of selected entries' }));
+    await user.click(await screen.findByRole('combobox', { name: 'New entry type' }));
+    await user.type(await screen.findByPlaceholderText(/filter/i), 'region');
+    await user.click(await screen.findByRole('option', { name: /^region/i }));
+    await user.click(screen.getByRole('button', { name: 'Change Type' }));
+
+    // Assert
+    await waitFor(() => {
+      expect(updates).toEqual({
+        'country-cormyr': {
+          entityType: WorldEntityType.Region,
+          schemaVersion: ENTITY_SCHEMA_VERSIONS[WorldEntityType.Region],
+        },
+      });
+    });
+  });
+
+  it('should only delete the top-level entries of the selection', async () => {
+    // Arrange
+    const deletedIds: string[] = [];
+    server.use(
+      http.delete(`${baseUrl}/api/v1/worlds/:worldId/entities/:entityId`, ({ params }) => {
+        deletedIds.push(params.entityId as string);
+        return HttpResponse.json(
+          { data: { id: `op-${params.entityId}`, rootEntityId: params.entityId, status: 'pending' } },
+          { status: 202 },
+        );
+      }),
+    );
+    const user = userEvent.setup();
+    const { optimisticDelete } = renderBar(['continent-faerun', 'country-cormyr']);
+
+    // Act
+    await user.click(screen.getByRole('button', { name: 'Delete selected entries' }));
+    await user.click(await screen.findByRole('button', { name: 'Delete' }));
+
+    // Assert - Cormyr is deleted along with its ancestor
+    await waitFor(() => expect(deletedIds).toEqual(['continent-faerun']));
+    expect(optimisticDelete.onOptimisticDelete).toHaveBeenCalledWith('continent-faerun');
+  });
+
+  it('should summarize entries that resisted and keep only them selected', async () => {
+    // Arrange
+    server.use(
+      http.patch(`${baseUrl}/api/v1/worlds/:worldId/entities/:entityId`, async ({ params, request }) => {
+        if (params.entityId === 'country-cormyr') {
+          return HttpResponse.json(
+            { title: 'Conflict', status: 409, detail: 'Cormyr is sealed by the War Wizards' },
+            { status: 409, headers: { 'Content-Type': 'application/problem+json' } },
+          );
+        }
+        return HttpResponse.json({ data: { id: params.entityId, ...((await request.json()) as object) } });
+      }),
+    );
+    const user = userEvent.setup();
+    const { store } = renderBar(['continent-faerun', 'country-cormyr']);
+
+    // Act
+    await user.click(screen.getByRole('button', { name: 'Edit tags of selected entries' }));
+    await user.type(await screen.findByLabelText('Tags to add input'), 'lore{Enter}');
+    await user.click(screen.getByRole('button', { name: 'Apply Tags' }));
+
+    // Assert
+    const failures = await screen.findByRole('list', { name: 'Entries that resisted' });
+    expect(within(failures).getByText('Cormyr')).toBeInTheDocument();
+    expect(within(failures).getByText(/Cormyr is sealed by the War Wizards/)).toBeInTheDocument();
+    expect(screen.getByText('1 entry updated, 1 entry resisted the rite.')).toBeInTheDocument();
+    expect(store.getState().worldSidebar.multiSelectedEntityIds).toEqual(['country-cormyr']);
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * BulkActionBar Component
+ *
+ * Toolbar shown above the entity tree while several entries are multi-selected.
+ * Offers move, tag, change type and delete actions for the whole selection, each
+ * confirmed in a dialog. When some entries resist the action, the dialog lists
+ * them with the reason and the selection is narrowed to just those entries.
+ *
+ * @module components/WorldSidebar/BulkActionBar
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { shallowEqual } from 'react-redux';
+import { toast } from 'sonner';
+import { AlertTriangle, FolderInput, Loader2, Shapes, Tags, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { EntityDestinationPicker, type MoveDestination } from '@/components/shared/EntityDestinationPicker';
+import { EntityTypeSelector } from '@/components/shared/EntityTypeSelector';
+import { TagInput, type TagSuggestion } from '@/components/shared/TagInput';
+import { useAppDispatch, useAppSelector } from '@/store/store';
+import {
+  clearMultiSelection,
+  selectMultiSelectedEntityIds,
+  selectSelectedWorldId,
+  setMultiSelectedEntities,
+} from '@/store/worldSidebarSlice';
+import { worldEntityApi } from '@/services/worldEntityApi';
+import { useWorldTags } from '@/hooks/useWorldTags';
+import type { WorldEntity, WorldEntityType } from '@/services/types/worldEntity.types';
+import { useBulkEntityActions, type BulkActionResult } from '@/hooks/useBulkEntityActions';
+import { validateBulkEntityMove } from '@/lib/entityHierarchy';
+
+type BulkAction = 'move' | 'tags' | 'type' | 'delete';
+
+const ACTION_TITLES: Record<BulkAction, string> = {
+  move: 'Move Entries',
+  tags: 'Edit Tags',
+  type: 'Change Entry Type',
+  delete: 'Delete Entries',
+};
+
+/**
+ * Subscribe to the selected entities and return those loaded so far
+ */
+function useSelectedEntities(worldId: string, entityIds: string[]): WorldEntity[] {
+  const dispatch = useAppDispatch();
+
+  useEffect(() => {
+    const subscriptions = entityIds.map((entityId) =>
+      dispatch(worldEntityApi.endpoints.getWorldEntityById.initiate({ worldId, entityId })),
+    );
+    return () => subscriptions.forEach((subscription) => subscription.unsubscribe());
+  }, [dispatch, worldId, entityIds]);
+
+  const entities = useAppSelector(
+    (state) => entityIds.map(
+      (entityId) => worldEntityApi.endpoints.getWorldEntityById.select({ worldId, entityId })(state).data,
+    ),
+    shallowEqual,
+  );
+
+  return useMemo(
+    () => entities.filter((entity): entity is WorldEntity => !!entity),
+    [entities],
+  );
+}
+
+/**
+ * Pluralize "entry" for a count
+ */
+function entries(count: number): string {
+  return `${count} ${count === 1 ? 'entry' : 'entries'}`;
+}
+
+/**
+ * Bulk action bar component
+ *
+ * @returns Bulk action toolbar, or nothing when no entries are multi-selected
+ */
+export function BulkActionBar() {
+  const dispatch = useAppDispatch();
+  const worldId = useAppSelector(selectSelectedWorldId);
+  const selectedIds = useAppSelector(selectMultiSelectedEntityIds);
+
+  const [activeAction, setActiveAction] = useState<BulkAction | null>(null);
+  const [result, setResult] = useState<BulkActionResult | null>(null);
+
+  if (!worldId || selectedIds.length === 0) {
+    return null;
+  }
+
+  const handleOpen = (action: BulkAction) => {
+    setResult(null);
+    setActiveAction(action);
+  };
+
+  const handleClose = () => {
+    setActiveAction(null);
+    setResult(null);
+  };
+
+  /**
+   * Close on full success; otherwise show the failures and keep only them selected
+   */
+  const handleResult = (outcome: BulkActionResult, successMessage: string) => {
+    if (outcome.failed.length === 0) {
+      toast.success(successMessage, { action: outcome.undo });
+      dispatch(clearMultiSelection());
+      handleClose();
+      return;
+    }
+
+    setResult(outcome);
+    dispatch(setMultiSelectedEntities(outcome.failed.map((failure) => failure.id)));
+  };
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Bulk actions"
+      className="flex items-center gap-1 px-4 py-2 border-b border-border/40 bg-primary/5"
+    >
+      <span className="flex-1 text-xs font-medium" aria-live="polite">
+        {entries(selectedIds.length)} selected
+      </span>
+      <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleOpen('move')} aria-label="Move selected entries">
+        <FolderInput className="h-4 w-4" aria-hidden="true" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleOpen('tags')} aria-label="Edit tags of selected entries">
+        <Tags className="h-4 w-4" aria-hidden="true" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleOpen('type')} aria-label="Change type of selected entries">
+        <Shapes className="h-4 w-4" aria-hidden="true" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-6 w-6 text-destructive" onClick={() => handleOpen('delete')} aria-label="Delete selected entries">
+        <Trash2 className="h-4 w-4" aria-hidden="true" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => dispatch(clearMultiSelection())} aria-label="Clear selection">
+        <X className="h-4 w-4" aria-hidden="true" />
+      </Button>
+
+      <Dialog open={activeAction !== null} onOpenChange={(open) => !open && handleClose()}>
+        <DialogContent className="sm:max-w-lg">
+          {activeAction && (
+            <DialogHeader>
+              <DialogTitle>{ACTION_TITLES[activeAction]}</DialogTitle>
+              <DialogDescription>
+                {result
+                  ? `${entries(result.succeeded.length)} updated, ${entries(result.failed.length)} resisted the rite.`
+                  : `Applies to the ${entries(selectedIds.length)} selected in the codex.`}
+              </DialogDescription>
+            </DialogHeader>
+          )}
+
+          {result ? (
+            <BulkResultSummary result={result} onClose={handleClose} />
+          ) : (
+            <>
+              {activeAction === 'move' && (
+                <BulkMoveForm worldId={worldId} entityIds={selectedIds} onCancel={handleClose} onResult={handleResult} />
+              )}
+              {activeAction === 'tags' && (
+                <BulkTagsForm worldId={worldId} entityIds={selectedIds} onCancel={handleClose} onResult={handleResult} />
+              )}
+              {activeAction === 'type' && (
+                <BulkTypeForm entityIds={selectedIds} onCancel={handleClose} onResult={handleResult} />
+              )}
+              {activeAction === 'delete' && (
+                <BulkDeleteForm entityIds={selectedIds} onCancel={handleClose} onResult={handleResult} />
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+interface BulkFormProps {
+  entityIds: string[];
+  onCancel: () => void;
+  onResult: (result: BulkActionResult, successMessage: string) => void;
+}
+
+/**
+ * Shared footer for the bulk action forms
+ */
+function BulkFormFooter({
+  submitLabel,
+  isProcessing,
+  isSubmitDisabled,
+  onCancel,
+  onSubmit,
+  destructive,
+}: {
+  submitLabel: string;
+  isProcessing: boolean;
+  isSubmitDisabled?: boolean;
+  onCancel: () => void;
+  onSubmit: () => void;
+  destructive?: boolean;
+}) {
+  return (
+    <DialogFooter className="gap-2">
+      <Button variant="outline" onClick={onCancel} disabled={isProcessing}>
+        Cancel
+      </Button>
+      <Button
+        variant={destructive ? 'destructive' : 'default'}
+        onClick={onSubmit}
+        disabled={isProcessing || isSubmitDisabled}
+      >
+        {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />}
+        {submitLabel}
+      </Button>
+    </DialogFooter>
+  );
+}
+
+/**
+ * Choose one destination for every selected entry
+ */
+function BulkMoveForm({ worldId, entityIds, onCancel, onResult }: BulkFormProps & { worldId: string }) {
+  const { moveEntities, isProcessing } = useBulkEntityActions();
+  const entities = useSelectedEntities(worldId, entityIds);
+  const [destination, setDestination] = useState<MoveDestination | null>(null);
+
+  const target = destination?.kind === 'entity' ? destination.entity : null;
+  const validation = destination ? validateBulkEntityMove(entities, target) : null;
+
+  const handleSubmit = async () => {
+    if (!destination || !validation?.canMove) return;
+
+    const outcome = await moveEntities(entityIds, target);
+    onResult(
+      outcome,
+      target
+        ? `Moved ${entries(outcome.succeeded.length)} into "${target.name}"`
+        : `Moved ${entries(outcome.succeeded.length)} to the root of the codex`,
+    );
+  };
+
+  return (
+    <>
+      <EntityDestinationPicker
+        worldId={worldId}
+        movingEntityIds={entityIds}
+        value={destination}
+        onChange={setDestination}
+        validate={(candidate) => validateBulkEntityMove(entities, candidate)}
+      />
+      {validation && (validation.canMove ? (
+        validation.warning && (
+          <p className="flex items-center gap-2 text-sm text-amber-600 dark:text-amber-400">
+            <AlertTriangle className="h-4 w-4 shrink-0" aria-hidden="true" />
+            {validation.warning}
+          </p>
+        )
+      ) : (
+        <p role="alert" className="text-sm text-destructive">{validation.reason}</p>
+      ))}
+      <BulkFormFooter
+        submitLabel="Move Entries"
+        isProcessing={isProcessing}
+        isSubmitDisabled={!validation?.canMove}
+        onCancel={onCancel}
+        onSubmit={handleSubmit}
+      />
+    </>
+  );
+}
+
+/**
+ * Add and remove tags across every selected entry
+ */
+function BulkTagsForm({ worldId, entityIds, onCancel, onResult }: BulkFormProps & { worldId: string }) {
+  const { updateTags, isProcessing } = useBulkEntityActions();
+  const { tags: worldTags } = useWorldTags(worldId);
+  const [tagsToAdd, setTagsToAdd] = useState<string[]>([]);
+  const [tagsToRemove, setTagsToRemove] = useState<string[]>([]);
+
+  const tagSuggestions = useMemo<TagSuggestion[]>(
+    () => worldTags.map(({ tag, count }) => ({ value: tag, count })),
+    [worldTags],
+  );
+
+  const handleSubmit = async () => {
+    const outcome = await updateTags(entityIds, { add: tagsToAdd, remove: tagsToRemove });
+    onResult(outcome, `Updated the tags of ${entries(outcome.succeeded.length)}`);
+  };
+
+  return (
+    <>
+      <div className="space-y-4">
+        <TagInput
+          label="Tags to add"
+          value={tagsToAdd}
+          onChange={setTagsToAdd}
+          suggestions={tagSuggestions}
+          placeholder="Add a tag and press Enter..."
+        />
+        <TagInput
+          label="Tags to remove"
+          value={tagsToRemove}
+          onChange={setTagsToRemove}
+          suggestions={tagSuggestions}
+          placeholder="Remove a tag and press Enter..."
+        />
+      </div>
+      <BulkFormFooter
+        submitLabel="Apply Tags"
+        isProcessing={isProcessing}
+        isSubmitDisabled={tagsToAdd.length === 0 && tagsToRemove.length === 0}
+        onCancel={onCancel}
+        onSubmit={handleSubmit}
+      />
+    </>
+  );
+}
+
+/**
+ * Change the entity type of every selected entry
+ */
+function BulkTypeForm({ entityIds, onCancel, onResult }: BulkFormProps) {
+  const { changeEntityType, isProcessing } = useBulkEntityActions();
+  const [entityType, setEntityType] = useState<WorldEntityType | ''>('');
+
+  const handleSubmit = async () => {
+    if (!entityType) return;
+
+    const outcome = await changeEntityType(entityIds, entityType);
+    onResult(outcome, `Changed the type of ${entries(outcome.succeeded.length)}`);
+  };
+
+  return (
+    <>
+      <div className="space-y-2">
+        <EntityTypeSelector
+          value={entityType}
+          onValueChange={setEntityType}
+          allowAllTypes
+          aria-label="New entry type"
+        />
+        <p className="text-sm text-muted-foreground">
+          Properties the new type does not define will be discarded.
+        </p>
+      </div>
+      <BulkFormFooter
+        submitLabel="Change Type"
+        isProcessing={isProcessing}
+        isSubmitDisabled={!entityType}
+        onCancel={onCancel}
+        onSubmit={handleSubmit}
+      />
+    </>
+  );
+}
+
+/**
+ * Confirm deletion of every selected entry and its descendants
+ */
+function BulkDeleteForm({ entityIds, onCancel, onResult }: BulkFormProps) {
+  const { deleteEntities, isProcessing } = useBulkEntityActions();
+
+  const handleSubmit = async () => {
+    const outcome = await deleteEntities(entityIds);
+    onResult(outcome, `Began banishing ${entries(outcome.succeeded.length)} from the tome`);
+  };
+
+  return (
+    <>
+      <div
+        className="bg-destructive/10 border border-destructive/30 rounded-md px-4 py-3"
+        role="alert"
+      >
+        <p className="m-0 text-sm text-foreground">
+          The {entries(entityIds.length)} and all their descendants will be cast into the trash. Undo (Ctrl+Z) brings them back.
+        </p>
+      </div>
+      <BulkFormFooter
+        submitLabel="Delete"
+        isProcessing={isProcessing}
+        onCancel={onCancel}
+        onSubmit={handleSubmit}
+        destructive
+      />
+    </>
+  );
+}
+
+/**
+ * List the entries that resisted a bulk action
+ */
+function BulkResultSummary({ result, onClose }: { result: BulkActionResult; onClose: () => void }) {
+  return (
+    <>
+      <ul aria-label="Entries that resisted" className="max-h-60 overflow-auto space-y-1 text-sm">
+        {result.failed.map((failure) => (
+          <li key={failure.id}>
+            <span className="font-medium">{failure.name}</span>
+            <span className="text-muted-foreground"> — {failure.reason}</span>
+          </li>
+        ))}
+      </ul>
+      <p className="text-sm text-muted-foreground">
+        These entries remain selected so you may try again.
+      </p>
+      <DialogFooter>
+        <Button onClick={onClose}>Close</Button>
+      </DialogFooter>
+    </>
+  );
+}
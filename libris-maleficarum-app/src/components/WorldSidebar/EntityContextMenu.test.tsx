@@ -47,6 +47,7 @@ describe('EntityContextMenu', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    localStorage.clear();
   });
 
   it('renders children correctly', () => {
@@ -93,4 +94,37 @@ describe('EntityContextMenu', () => {
 
     expect(openEntityFormEdit).toHaveBeenCalledWith(mockEntity.id);
   });
+
+  it('pins and unpins the entity', async () => {
+    renderWithProviders(<TestWrapper />);
+    const trigger = screen.getByTestId('trigger');
+
+    await userEvent.pointer({ keys: '[MouseRight]', target: trigger });
+    await userEvent.click(await screen.findByRole('menuitem', { name: 'Pin Entry' }));
+
+    expect(localStorage.getItem('lm.search.pinned.world-1')).toContain('"id":"entity-1"');
+
+    await userEvent.pointer({ keys: '[MouseRight]', target: trigger });
+    await userEvent.click(await screen.findByRole('menuitem', { name: 'Unpin Entry' }));
+
+    expect(localStorage.getItem('lm.search.pinned.world-1')).toBe('[]');
+  });
+
+  it('offers duplicating with children only for entities that have children', async () => {
+    renderWithProviders(<TestWrapper />);
+
+    await userEvent.pointer({ keys: '[MouseRight]', target: screen.getByTestId('trigger') });
+
+    expect(await screen.findByRole('menuitem', { name: 'Duplicate Entry' })).toBeEnabled();
+    expect(screen.getByRole('menuitem', { name: 'Duplicate with Children' })).toHaveAttribute('aria-disabled', 'true');
+  });
+
+  it('opens the duplicate dialog when "Duplicate To..." is clicked', async () => {
+    const { store } = renderWithProviders(<TestWrapper />);
+
+    await userEvent.pointer({ keys: '[MouseRight]', target: screen.getByTestId('trigger') });
+    await userEvent.click(await screen.findByRole('menuitem', { name: 'Duplicate To...' }));
+
+    expect(store.getState().worldSidebar.duplicatingEntityId).toBe('entity-1');
+  });
 });
@@ -6,13 +6,16 @@
  * - Edit Entity
  * - Delete Entity
  * - Move Entity
+ * - Duplicate Entity (alone or with its children, beside it or elsewhere)
+ * - Pin / Unpin Entity (pinned entries are listed above the tree)
+ * - Save as Template / New from Template
  *
  * @module components/WorldSidebar/EntityContextMenu
  */
 
 import type { PropsWithChildren } from 'react';
 import { useDispatch } from 'react-redux';
-import { Plus, Edit, Trash2, Move } from 'lucide-react';
+import { Plus, Edit, Trash2, Move, Pin, PinOff, Copy, CopyPlus, FolderInput, LayoutTemplate, BookmarkPlus } from 'lucide-react';
 import {
   ContextMenu,
   ContextMenuTrigger,
@@ -25,8 +28,14 @@ import {
   openEntityFormEdit,
   openDeleteConfirmation,
   openMoveEntity,
+  openDuplicateEntity,
+  openSaveAsTemplate,
+  openCreateFromTemplate,
 } from '@/store/worldSidebarSlice';
 import type { WorldEntity } from '@/services/types/worldEntity.types';
+import { MAX_PINNED_ITEMS, useSearchHistory } from '@/hooks/useSearchHistory';
+import { useEntityDuplicate } from '@/hooks/useEntityDuplicate';
+import { logger } from '@/lib/logger';
 
 export interface EntityContextMenuProps extends PropsWithChildren {
   /** The entity to perform actions on */
@@ -46,6 +55,14 @@ export function EntityContextMenu({ entity, children }: EntityContextMenuProps)
     dispatch(openEntityFormCreate(entity.id));
   };
 
+  const handleCreateFromTemplate = () => {
+    dispatch(openCreateFromTemplate(entity.id));
+  };
+
+  const handleSaveAsTemplate = () => {
+    dispatch(openSaveAsTemplate(entity.id));
+  };
+
   const handleEdit = () => {
     dispatch(openEntityFormEdit(entity.id));
   };
@@ -58,6 +75,10 @@ export function EntityContextMenu({ entity, children }: EntityContextMenuProps)
     dispatch(openMoveEntity(entity.id));
   };
 
+  const handleDuplicateTo = () => {
+    dispatch(openDuplicateEntity(entity.id));
+  };
+
   return (
     <ContextMenu>
       <ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
@@ -66,6 +87,10 @@ export function EntityContextMenu({ entity, children }: EntityContextMenuProps)
           <Plus className="mr-2 h-4 w-4" />
           New Entry
         </ContextMenuItem>
+        <ContextMenuItem onClick={handleCreateFromTemplate}>
+          <LayoutTemplate className="mr-2 h-4 w-4" />
+          New from Template...
+        </ContextMenuItem>
         <ContextMenuItem onClick={handleEdit}>
           <Edit className="mr-2 h-4 w-4" />
           Edit Entry
@@ -74,6 +99,12 @@ export function EntityContextMenu({ entity, children }: EntityContextMenuProps)
           <Move className="mr-2 h-4 w-4" />
           Move Entry
         </ContextMenuItem>
+        <DuplicateEntityMenuItems entity={entity} onDuplicateTo={handleDuplicateTo} />
+        <PinEntityMenuItem entity={entity} />
+        <ContextMenuItem onClick={handleSaveAsTemplate}>
+          <BookmarkPlus className="mr-2 h-4 w-4" />
+          Save as Template...
+        </ContextMenuItem>
         <ContextMenuSeparator />
         <ContextMenuItem
           variant="destructive"
@@ -86,3 +117,60 @@ export function EntityContextMenu({ entity, children }: EntityContextMenuProps)
     </ContextMenu>
   );
 }
+
+/**
+ * Duplicate items (only mounted while the menu is open)
+ */
+function DuplicateEntityMenuItems({
+  entity,
+  onDuplicateTo,
+}: {
+  entity: WorldEntity;
+  onDuplicateTo: () => void;
+}) {
+  const { duplicateEntity } = useEntityDuplicate();
+
+  return (
+    <>
+      <ContextMenuItem onClick={() => void duplicateEntity(entity)}>
+        <Copy className="mr-2 h-4 w-4" />
+        Duplicate Entry
+      </ContextMenuItem>
+      <ContextMenuItem
+        onClick={() => void duplicateEntity(entity, { includeChildren: true })}
+        disabled={!entity.hasChildren}
+      >
+        <CopyPlus className="mr-2 h-4 w-4" />
+        Duplicate with Children
+      </ContextMenuItem>
+      <ContextMenuItem onClick={onDuplicateTo}>
+        <FolderInput className="mr-2 h-4 w-4" />
+        Duplicate To...
+      </ContextMenuItem>
+    </>
+  );
+}
+
+/**
+ * Pin / unpin item (only mounted while the menu is open, so closed menus do not read storage)
+ */
+function PinEntityMenuItem({ entity }: { entity: WorldEntity }) {
+  const { isPinned, canPin, togglePinnedEntity } = useSearchHistory(entity.worldId);
+  const pinned = isPinned(entity.id);
+
+  const handleTogglePin = () => {
+    logger.userAction(pinned ? 'Unpin entity' : 'Pin entity', { entityId: entity.id });
+    togglePinnedEntity(entity);
+  };
+
+  return (
+    <ContextMenuItem
+      onClick={handleTogglePin}
+      disabled={!pinned && !canPin}
+      title={!pinned && !canPin ? `At most ${MAX_PINNED_ITEMS} entries can be pinned` : undefined}
+    >
+      {pinned ? <PinOff className="mr-2 h-4 w-4" /> : <Pin className="mr-2 h-4 w-4" />}
+      {pinned ? 'Unpin Entry' : 'Pin Entry'}
+    </ContextMenuItem>
+  );
+}
@@ -8,7 +8,7 @@
  */
 
 import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import { Provider } from 'react-redux';
@@ -98,6 +98,7 @@ describe('EntityTree', () => {
   afterEach(() => {
     server.resetHandlers();
     sessionStorage.clear();
+    localStorage.clear();
   });
 
   // Clean up server after all tests
@@ -906,5 +907,709 @@ describe('EntityTree', () => {
       expect(level5TreeItem).toHaveAttribute('aria-level', '5'); // ARIA is 1-indexed
     });
   });
-});
 
+  describe('Drag-and-drop Reparenting', () => {
+    it('should move a dropped entity via moveWorldEntity', async () => {
+      // Arrange - capture the move request without mutating shared mock data
+      let moveRequest: { entityId: string; body: unknown } | null = null;
+      server.use(
+        http.patch('http://localhost:5000/api/v1/worlds/:worldId/entities/:entityId/move', async ({ params, request }) => {
+          moveRequest = { entityId: params.entityId as string, body: await request.json() };
+          return HttpResponse.json({
+            data: { id: params.entityId, parentId: 'continent-faerun', path: ['continent-faerun'] },
+          });
+        }),
+      );
+
+      const store = createMockStore();
+      store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'test-world-123' });
+      store.dispatch({ type: 'worldSidebar/setExpandedNodes', payload: ['continent-faerun', 'country-cormyr'] });
+
+      render(
+        <Provider store={store}>
+          <EntityTree />
+        </Provider>,
+      );
+
+      await waitFor(() => {
+        expect(screen.getByText('Suzail')).toBeInTheDocument();
+      });
+
+      const suzail = screen.getByText('Suzail').closest('[role="treeitem"]') as HTMLElement;
+      const faerun = screen.getByText('Faerûn').closest('[role="treeitem"]') as HTMLElement;
+
+      // Act
+      fireEvent.dragStart(suzail);
+      fireEvent.dragOver(faerun);
+      fireEvent.drop(faerun);
+
+      // Assert
+      await waitFor(() => {
+        expect(moveRequest).toEqual({
+          entityId: 'city-suzail',
+          body: { newParentId: 'continent-faerun' },
+        });
+      });
+      expect(store.getState().worldSidebar.draggedEntity).toBeNull();
+    });
+
+    it('should offer a root drop zone gated by canBeRoot while dragging', async () => {
+      // Arrange
+      const store = createMockStore();
+      store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'test-world-123' });
+      store.dispatch({ type: 'worldSidebar/setExpandedNodes', payload: ['continent-faerun'] });
+
+      render(
+        <Provider store={store}>
+          <EntityTree />
+        </Provider>,
+      );
+
+      await waitFor(() => {
+        expect(screen.getByText('Cormyr')).toBeInTheDocument();
+      });
+
+      expect(screen.queryByRole('button', { name: /move to top level/i })).not.toBeInTheDocument();
+
+      // Act - Country entries cannot be root entries
+      fireEvent.dragStart(screen.getByText('Cormyr').closest('[role="treeitem"]') as HTMLElement);
+
+      // Assert
+      const rootZone = screen.getByRole('button', { name: /move to top level/i });
+      expect(rootZone).toBeDisabled();
+      expect(screen.getByText(/moving "cormyr"/i)).toBeInTheDocument();
+    });
+  });
+
+  describe('Pagination', () => {
+    const createRootEntity = (id: string, name: string): WorldEntity => ({
+      id,
+      worldId: 'world-paged',
+      parentId: null,
+      entityType: WorldEntityType.Continent,
+      name,
+      description: '',
+      tags: [],
+      path: [],
+      depth: 0,
+      hasChildren: false,
+      ownerId: 'test-user@example.com',
+      createdAt: '2026-01-14T00:00:00Z',
+      updatedAt: '2026-01-14T00:00:00Z',
+      isDeleted: false,
+      schemaVersion: 1,
+    });
+
+    /** Serves three root entries two at a time, recording the cursors requested */
+    const servePagedRootLevel = () => {
+      const requestedCursors: (string | null)[] = [];
+      server.use(
+        http.get('http://localhost:5000/api/v1/worlds/world-paged/entities', ({ request }) => {
+          const cursor = new URL(request.url).searchParams.get('cursor');
+          requestedCursors.push(cursor);
+          const response: WorldEntityListResponse = cursor === 'page-2'
+            ? {
+                data: [createRootEntity('paged-3', 'Maztica')],
+                meta: { count: 1, nextCursor: null },
+              }
+            : {
+                data: [createRootEntity('paged-1', 'Faerûn'), createRootEntity('paged-2', 'Kara-Tur')],
+                meta: { count: 2, nextCursor: 'page-2' },
+              };
+          return HttpResponse.json(response);
+        }),
+      );
+      return requestedCursors;
+    };
+
+    it('should load the next page from the "Load more" row', async () => {
+      // Arrange
+      const requestedCursors = servePagedRootLevel();
+      const user = userEvent.setup();
+      const store = createMockStore();
+      store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'world-paged' });
+
+      render(
+        <Provider store={store}>
+          <EntityTree />
+        </Provider>,
+      );
+
+      const loadMore = await screen.findByRole('treeitem', { name: 'Load more entries (2 shown)' });
+      expect(screen.queryByText('Maztica')).not.toBeInTheDocument();
+
+      // Act
+      await user.click(loadMore);
+
+      // Assert - pages are merged into one level and the row disappears
+      expect(await screen.findByText('Maztica')).toBeInTheDocument();
+      expect(screen.getByText('Faerûn')).toBeInTheDocument();
+      expect(screen.queryByRole('treeitem', { name: /load more entries/i })).not.toBeInTheDocument();
+      expect(requestedCursors).toEqual([null, 'page-2']);
+    });
+
+    it('should reach the "Load more" row with arrow keys and load with Enter', async () => {
+      // Arrange
+      servePagedRootLevel();
+      const user = userEvent.setup();
+      const store = createMockStore();
+      store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'world-paged' });
+      store.dispatch({ type: 'worldSidebar/setSelectedEntity', payload: 'paged-2' });
+
+      render(
+        <Provider store={store}>
+          <EntityTree />
+        </Provider>,
+      );
+
+      const karaTur = (await screen.findByText('Kara-Tur')).closest('[role="treeitem"]') as HTMLElement;
+      karaTur.focus();
+
+      // Act
+      await user.keyboard('{ArrowDown}');
+
+      // Assert - focus moves to the row without changing the selection
+      const loadMore = screen.getByRole('treeitem', { name: 'Load more entries (2 shown)' });
+      expect(loadMore).toHaveFocus();
+      expect(store.getState().worldSidebar.selectedEntityId).toBe('paged-2');
+
+      // Act
+      await user.keyboard('{Enter}');
+
+      // Assert - focus lands on the first newly loaded entry
+      const maztica = (await screen.findByText('Maztica')).closest('[role="treeitem"]') as HTMLElement;
+      await waitFor(() => expect(maztica).toHaveFocus());
+
+      // Act
+      await user.keyboard('{ArrowUp}{ArrowUp}');
+
+      // Assert - navigation continues from there
+      expect(store.getState().worldSidebar.selectedEntityId).toBe('paged-1');
+    });
+
+    it('should record partially loaded levels in the session cache', async () => {
+      // Arrange
+      servePagedRootLevel();
+      const store = createMockStore();
+      store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'world-paged' });
+
+      // Act
+      render(
+        <Provider store={store}>
+          <EntityTree />
+        </Provider>,
+      );
+      await screen.findByText('Kara-Tur');
+
+      // Assert
+      await waitFor(() => {
+        const cached = JSON.parse(sessionStorage.getItem('sidebar_hierarchy_world-paged_root') ?? 'null');
+        expect(cached?.data).toMatchObject({ nextCursor: 'page-2' });
+        expect(cached?.data.entities).toHaveLength(2);
+      });
+    });
+  });
+
+  describe('Virtualization', () => {
+    const ENTRY_COUNT = 500;
+
+    /** Serves a single root level with many entries */
+    const serveLargeWorld = () => {
+      const entities: WorldEntity[] = Array.from({ length: ENTRY_COUNT }, (_, i) => ({
+        id: `region-${i}`,
+        worldId: 'world-large',
+        parentId: null,
+        entityType: WorldEntityType.GeographicRegion,
+        name: `Region ${i}`,
+        description: '',
+        tags: [],
+        path: [],
+        depth: 0,
+        hasChildren: false,
+        ownerId: 'test-user@example.com',
+        createdAt: '2026-01-14T00:00:00Z',
+        updatedAt: '2026-01-14T00:00:00Z',
+        isDeleted: false,
+        schemaVersion: 1,
+      }));
+      server.use(
+        http.get('http://localhost:5000/api/v1/worlds/world-large/entities', () =>
+          HttpResponse.json({ data: entities, meta: { count: entities.length, nextCursor: null } }),
+        ),
+      );
+    };
+
+    const renderLargeWorld = async () => {
+      serveLargeWorld();
+      const store = createMockStore();
+      store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'world-large' });
+
+      render(
+        <Provider store={store}>
+          <EntityTree />
+        </Provider>,
+      );
+
+      await screen.findByText('Region 0');
+      return store;
+    };
+
+    it('should only render the rows in view', async () => {
+      // Arrange & Act
+      await renderLargeWorld();
+
+      // Assert
+      expect(screen.getAllByRole('treeitem').length).toBeLessThan(50);
+      expect(screen.queryByText('Region 300')).not.toBeInTheDocument();
+      expect(screen.getByRole('treeitem', { name: /region 0/i })).toHaveAttribute('aria-posinset', '1');
+      expect(screen.getByRole('treeitem', { name: /region 0/i })).toHaveAttribute('aria-setsize', String(ENTRY_COUNT));
+    });
+
+    it('should render other rows when scrolled', async () => {
+      // Arrange
+      await renderLargeWorld();
+      const tree = screen.getByRole('tree');
+
+      // Act
+      tree.scrollTop = 300 * 32;
+      fireEvent.scroll(tree);
+
+      // Assert
+      expect(await screen.findByText('Region 300')).toBeInTheDocument();
+      expect(screen.queryByText('Region 0')).not.toBeInTheDocument();
+    });
+
+    it('should navigate to rows outside the window with the keyboard', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      const store = await renderLargeWorld();
+      screen.getByRole('treeitem', { name: /region 0/i }).focus();
+
+      // Act
+      await user.keyboard('{End}');
+
+      // Assert
+      expect(store.getState().worldSidebar.selectedEntityId).toBe(`region-${ENTRY_COUNT - 1}`);
+      const lastItem = (await screen.findByText(`Region ${ENTRY_COUNT - 1}`)).closest('[role="treeitem"]');
+      await waitFor(() => expect(lastItem).toHaveFocus());
+
+      // Act
+      await user.keyboard('{ArrowUp}');
+
+      // Assert
+      expect(store.getState().worldSidebar.selectedEntityId).toBe(`region-${ENTRY_COUNT - 2}`);
+    });
+  });
+
+  describe('Filtering', () => {
+    const renderFilterableTree = () => {
+      const store = createMockStore();
+      store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'test-world-123' });
+
+      render(
+        <Provider store={store}>
+          <EntityTree />
+        </Provider>,
+      );
+
+      return store;
+    };
+
+    it('should show matches with their ancestor chain expanded and highlight the match', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      const store = renderFilterableTree();
+      await screen.findByText('Faerûn');
+
+      // Act
+      await user.type(screen.getByLabelText('Find entries'), 'zai');
+
+      // Assert
+      const suzail = await screen.findByRole('treeitem', { name: /suzail/i });
+      expect(suzail.querySelector('mark')).toHaveTextContent('zai');
+      expect(screen.getByRole('treeitem', { name: /faerûn/i })).toHaveClass('text-muted-foreground');
+      expect(screen.getByRole('treeitem', { name: /cormyr/i })).toBeInTheDocument();
+      expect(screen.queryByRole('treeitem', { name: /elminster/i })).not.toBeInTheDocument();
+      expect(store.getState().worldSidebar.expandedNodeIds).toEqual(
+        expect.arrayContaining(['continent-faerun', 'country-cormyr']),
+      );
+      expect(screen.getByText('1 entry matches')).toBeInTheDocument();
+    });
+
+    it('should filter by tag', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      renderFilterableTree();
+      await screen.findByText('Faerûn');
+
+      // Act
+      await user.click(screen.getByRole('button', { name: 'Refine by category and tags' }));
+      await user.type(await screen.findByLabelText('Tags input'), 'wizard{Enter}');
+
+      // Assert - Elminster is revealed beneath Faerûn, Cormyr and Suzail
+      expect(await screen.findByRole('treeitem', { name: /elminster/i })).toBeInTheDocument();
+      expect(screen.getByRole('treeitem', { name: /suzail/i })).toHaveClass('text-muted-foreground');
+    });
+
+    it('should tell when nothing matches', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      renderFilterableTree();
+      await screen.findByText('Faerûn');
+
+      // Act
+      await user.type(screen.getByLabelText('Find entries'), 'Waterdeep');
+
+      // Assert
+      expect(await screen.findByText('No entries match the filter')).toBeInTheDocument();
+    });
+
+    it('should restore the previously expanded nodes when cleared', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      const store = renderFilterableTree();
+      store.dispatch({ type: 'worldSidebar/setExpandedNodes', payload: ['continent-faerun'] });
+      await screen.findByText('Cormyr');
+
+      await user.type(screen.getByLabelText('Find entries'), 'zai');
+      await screen.findByRole('treeitem', { name: /suzail/i });
+
+      // Act
+      await user.click(screen.getByRole('button', { name: 'Clear filter' }));
+
+      // Assert
+      await waitFor(() => {
+        expect(store.getState().worldSidebar.expandedNodeIds).toEqual(['continent-faerun']);
+      });
+      expect(screen.queryByText('Suzail')).not.toBeInTheDocument();
+      expect(screen.getByText('Cormyr')).toBeInTheDocument();
+    });
+  });
+
+  describe('Sorting', () => {
+    const createSortableEntity = (
+      id: string,
+      name: string,
+      entityType: WorldEntity['entityType'],
+      updatedAt: string,
+    ): WorldEntity => ({
+      id,
+      worldId: 'world-sorted',
+      parentId: null,
+      entityType,
+      name,
+      description: '',
+      tags: [],
+      path: [],
+      depth: 0,
+      hasChildren: false,
+      ownerId: 'test-user@example.com',
+      createdAt: '2026-01-14T00:00:00Z',
+      updatedAt,
+      isDeleted: false,
+      schemaVersion: 1,
+    });
+
+    /** Serves three root entries in a fixed API order and records saved sort keys */
+    const serveSortableWorld = () => {
+      const entities = [
+        createSortableEntity('kara-tur', 'Kara-Tur', WorldEntityType.Continent, '2026-03-01T00:00:00Z'),
+        createSortableEntity('abeir', 'Abeir', WorldEntityType.Continent, '2026-01-01T00:00:00Z'),
+        createSortableEntity('lore', 'Lore', WorldEntityType.Folder, '2026-02-01T00:00:00Z'),
+      ];
+      const savedSortKeys: Record<string, number> = {};
+
+      server.use(
+        http.get('http://localhost:5000/api/v1/worlds/world-sorted/entities', () => {
+          const response: WorldEntityListResponse = {
+            data: entities,
+            meta: { count: entities.length, nextCursor: null },
+          };
+          return HttpResponse.json(response);
+        }),
+        http.patch('http://localhost:5000/api/v1/worlds/world-sorted/entities/:entityId', async ({ params, request }) => {
+          const body = (await request.json()) as { sortKey?: number };
+          const entity = entities.find((candidate) => candidate.id === params.entityId)!;
+          entity.sortKey = body.sortKey;
+          savedSortKeys[entity.id] = body.sortKey!;
+          return HttpResponse.json({ data: entity });
+        }),
+      );
+
+      return savedSortKeys;
+    };
+
+    const renderSortableTree = () => {
+      const store = createMockStore();
+      store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'world-sorted' });
+
+      render(
+        <Provider store={store}>
+          <EntityTree />
+        </Provider>,
+      );
+    };
+
+    const getRowOrder = () =>
+      screen.getAllByRole('treeitem').map((item) => item.getAttribute('data-entity-id'));
+
+    it('should keep the API order by default and sort by name when chosen', async () => {
+      // Arrange
+      serveSortableWorld();
+      const user = userEvent.setup();
+      renderSortableTree();
+      await screen.findByText('Kara-Tur');
+      expect(getRowOrder()).toEqual(['kara-tur', 'abeir', 'lore']);
+
+      // Act
+      await user.click(screen.getByRole('button', { name: /sort entries/i }));
+      await user.click(await screen.findByRole('menuitemradio', { name: 'Name (A–Z)' }));
+
+      // Assert
+      expect(getRowOrder()).toEqual(['abeir', 'kara-tur', 'lore']);
+      expect(JSON.parse(localStorage.getItem('lm.prefs.anonymous.treeSort.world-sorted')!)).toEqual({
+        mode: 'alphabetical',
+        containersFirst: false,
+      });
+    });
+
+    it('should restore the remembered sort options of the world', async () => {
+      // Arrange
+      serveSortableWorld();
+      localStorage.setItem(
+        'lm.prefs.anonymous.treeSort.world-sorted',
+        JSON.stringify({ mode: 'updated', containersFirst: true }),
+      );
+
+      // Act
+      renderSortableTree();
+      await screen.findByText('Kara-Tur');
+
+      // Assert - the folder first, then the most recently updated entry
+      expect(getRowOrder()).toEqual(['lore', 'kara-tur', 'abeir']);
+      expect(screen.getByRole('button', { name: 'Sort entries (Recently updated)' })).toBeInTheDocument();
+    });
+
+    it('should move an entry down with Alt+ArrowDown and save the manual order', async () => {
+      // Arrange
+      const savedSortKeys = serveSortableWorld();
+      const user = userEvent.setup();
+      renderSortableTree();
+      await user.click(await screen.findByText('Kara-Tur'));
+
+      // Act
+      await user.keyboard('{Alt>}{ArrowDown}{/Alt}');
+
+      // Assert - no sibling had a sort key yet, so all are numbered in the new order
+      await waitFor(() => {
+        expect(getRowOrder()).toEqual(['abeir', 'kara-tur', 'lore']);
+      });
+      await waitFor(() => {
+        expect(savedSortKeys).toEqual({ abeir: 1024, 'kara-tur': 2048, lore: 3072 });
+      });
+      expect(screen.getByRole('treeitem', { name: /kara-tur/i })).toHaveFocus();
+    });
+  });
+
+  describe('Persistence', () => {
+    const renderWorldTree = () => {
+      const store = createMockStore();
+      store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'test-world-123' });
+
+      const view = render(
+        <Provider store={store}>
+          <EntityTree />
+        </Provider>,
+      );
+      return { store, ...view };
+    };
+
+    it('should restore the expanded entries and the selection of the world', async () => {
+      // Arrange - expand and select in a first session
+      const user = userEvent.setup();
+      const first = renderWorldTree();
+      await user.click(await screen.findByRole('button', { name: /expand faerûn/i }));
+      await user.click(await screen.findByText('Cormyr'));
+      first.unmount();
+
+      // Act
+      const { store } = renderWorldTree();
+
+      // Assert
+      expect(await screen.findByText('Cormyr')).toBeInTheDocument();
+      expect(store.getState().worldSidebar.expandedNodeIds).toEqual(['continent-faerun']);
+      expect(store.getState().worldSidebar.selectedEntityId).toBe('country-cormyr');
+    });
+
+    it('should prune remembered entries that no longer exist', async () => {
+      // Arrange
+      localStorage.setItem(
+        'lm.prefs.anonymous.treeState.test-world-123',
+        JSON.stringify({
+          expanded: [
+            { id: 'continent-faerun', parentId: null },
+            { id: 'continent-lost', parentId: null },
+          ],
+          selected: { id: 'continent-lost', parentId: null },
+        }),
+      );
+
+      // Act
+      const { store } = renderWorldTree();
+
+      // Assert
+      expect(await screen.findByText('Cormyr')).toBeInTheDocument();
+      await waitFor(() => {
+        expect(store.getState().worldSidebar.expandedNodeIds).toEqual(['continent-faerun']);
+      });
+      expect(store.getState().worldSidebar.selectedEntityId).toBeNull();
+      expect(JSON.parse(localStorage.getItem('lm.prefs.anonymous.treeState.test-world-123')!)).toEqual({
+        expanded: [{ id: 'continent-faerun', parentId: null }],
+        selected: null,
+      });
+    });
+
+    it('should expand the tree to a depth and collapse it again', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      renderWorldTree();
+      await screen.findByText('Faerûn');
+
+      // Act - depth 2 expands Faerûn and Cormyr
+      await user.click(screen.getByRole('button', { name: 'Expand or collapse entries' }));
+      await user.click(await screen.findByRole('menuitem', { name: 'Expand to depth 2' }));
+
+      // Assert
+      expect(await screen.findByText('Suzail')).toBeInTheDocument();
+
+      // Act
+      await user.click(screen.getByRole('button', { name: 'Expand or collapse entries' }));
+      await user.click(await screen.findByRole('menuitem', { name: 'Collapse all' }));
+
+      // Assert
+      await waitFor(() => {
+        expect(screen.queryByText('Cormyr')).not.toBeInTheDocument();
+      });
+      expect(screen.getByText('Faerûn')).toBeInTheDocument();
+    });
+  });
+
+  describe('Inline rename', () => {
+    /**
+     * Serves PATCH requests without changing the shared mock data, recording the saved names.
+     * Responses are held until released, so the optimistic name can be observed.
+     */
+    const serveRename = (status = 200) => {
+      const savedNames: string[] = [];
+      const requestBodies: unknown[] = [];
+      let release = () => {};
+      const released = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+
+      server.use(
+        http.patch('http://localhost:5000/api/v1/worlds/test-world-123/entities/:entityId', async ({ request }) => {
+          const body = (await request.json()) as { name: string };
+          requestBodies.push(body);
+          await released;
+          if (status !== 200) {
+            return HttpResponse.json(
+              { title: 'Validation failed', status, errors: { Name: ['That name is already taken in this realm'] } },
+              { status },
+            );
+          }
+          savedNames.push(body.name);
+          return HttpResponse.json({ data: { id: 'continent-faerun', parentId: null, name: body.name } });
+        }),
+      );
+      return { savedNames, requestBodies, release };
+    };
+
+    const renderRenameTree = async () => {
+      const user = userEvent.setup();
+      const store = createMockStore();
+      store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'test-world-123' });
+      store.dispatch({ type: 'worldSidebar/setUnsavedChanges', payload: true });
+
+      render(
+        <Provider store={store}>
+          <EntityTree />
+        </Provider>,
+      );
+      await user.click(await screen.findByText('Faerûn'));
+      return { user, store };
+    };
+
+    it('should rename an entry with F2 and Enter, showing the new name immediately', async () => {
+      // Arrange
+      const { savedNames, requestBodies, release } = serveRename();
+      const { user, store } = await renderRenameTree();
+
+      // Act
+      await user.keyboard('{F2}');
+      const input = screen.getByRole('textbox', { name: 'Rename Faerûn' });
+      await user.clear(input);
+      await user.type(input, 'Toril{Enter}');
+
+      // Assert - shown before the server answers
+      expect(await screen.findByText('Toril')).toBeInTheDocument();
+      expect(screen.getByRole('treeitem', { name: /toril/i })).toHaveFocus();
+
+      // Act
+      release();
+
+      // Assert
+      await waitFor(() => {
+        expect(savedNames).toEqual(['Toril']);
+      });
+      // Only the name is sent, so the entry keeps its parent and schema
+      expect(requestBodies).toEqual([{ name: 'Toril' }]);
+      expect(store.getState().worldSidebar.hasUnsavedChanges).toBe(true);
+    });
+
+    it('should keep editing while the name is invalid and cancel with Escape', async () => {
+      // Arrange
+      const { savedNames } = serveRename();
+      const { user, store } = await renderRenameTree();
+      await user.keyboard('{F2}');
+      const input = screen.getByRole('textbox', { name: 'Rename Faerûn' });
+
+      // Act
+      await user.clear(input);
+      await user.keyboard('{Enter}');
+
+      // Assert
+      expect(screen.getByRole('alert')).toHaveTextContent(/name/i);
+      expect(input).toHaveAttribute('aria-invalid', 'true');
+
+      // Act
+      await user.keyboard('{Escape}');
+
+      // Assert
+      expect(screen.queryByRole('textbox', { name: 'Rename Faerûn' })).not.toBeInTheDocument();
+      expect(screen.getByText('Faerûn')).toBeInTheDocument();
+      expect(savedNames).toEqual([]);
+      expect(store.getState().worldSidebar.hasUnsavedChanges).toBe(true);
+    });
+
+    it('should restore the previous name when the server rejects the new one', async () => {
+      // Arrange
+      const { release } = serveRename(400);
+      const { user } = await renderRenameTree();
+
+      // Act
+      await user.dblClick(screen.getByText('Faerûn'));
+      const input = screen.getByRole('textbox', { name: 'Rename Faerûn' });
+      await user.clear(input);
+      await user.type(input, 'Toril{Enter}');
+
+      // Assert - shown optimistically, then rolled back
+      expect(await screen.findByText('Toril')).toBeInTheDocument();
+      release();
+      await waitFor(() => {
+        expect(screen.getByText('Faerûn')).toBeInTheDocument();
+      });
+      expect(screen.queryByText('Toril')).not.toBeInTheDocument();
+    });
+  });
+});
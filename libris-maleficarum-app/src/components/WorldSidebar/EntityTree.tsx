@@ -1,30 +1,79 @@
 /**
  * EntityTree Component
  *
- * Recursive tree component for displaying world entity hierarchy.
- * Supports lazy loading, sessionStorage caching, and keyboard navigation.
+ * Tree component for displaying world entity hierarchy.
+ * Each expanded level is loaded lazily with cursor pagination ("Load more" per
+ * level) and cached in sessionStorage. The loaded levels are flattened into rows
+ * and only the rows in view are rendered, so very large worlds stay responsive;
+ * keyboard navigation works from the flattened rows rather than the DOM.
+ * A filter bar narrows the tree to matching entries and their ancestors, and a
+ * sort menu orders siblings (remembered per user and world); in manual order,
+ * siblings can be rearranged by dragging or with Alt+Up / Alt+Down.
+ * Expanded entries and the last selection are remembered per user and world, and
+ * a menu expands the tree to a chosen depth or collapses it.
+ * Supports drag-and-drop reparenting (including a drop zone for the root level).
  *
  * @module components/WorldSidebar/EntityTree
  */
 
-import { useEffect, useRef, useState } from 'react';
-import { useSelector, useDispatch } from 'react-redux';
-import { Plus } from 'lucide-react';
-import { useGetEntitiesByParentQuery } from '@/services/worldEntityApi';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSelector, useDispatch, useStore } from 'react-redux';
+import { Plus, ArrowUpToLine, Loader2, ChevronsDown } from 'lucide-react';
+import { useGetEntitiesByParentInfiniteQuery } from '@/services/worldEntityApi';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import {
   selectSelectedWorldId,
   selectExpandedNodeIds,
   selectSelectedEntityId,
+  selectDraggedEntity,
   setSelectedEntity,
+  setExpandedNodes,
   toggleNodeExpanded,
   openEntityFormCreate,
+  endEntityDrag,
 } from '@/store/worldSidebarSlice';
 import { EntityTreeNode } from './EntityTreeNode';
+import { EntityTreeOrderProvider, type EntityTreeOrderContextValue } from './EntityTreeOrderContext';
+import { EntityTreeFilterBar } from './EntityTreeFilterBar';
+import { EntityTreeSortMenu } from './EntityTreeSortMenu';
+import { EntityTreeExpandMenu } from './EntityTreeExpandMenu';
 import { get as cacheGet, set as cacheSet } from '@/lib/sessionCache';
+import { validateEntityMove } from '@/lib/entityHierarchy';
+import {
+  flattenEntityTree,
+  getExpandedRowIds,
+  getNavigationTargetIndex,
+  getTreeLevelKey,
+  type EntityTreeLevels,
+  type EntityTreeLevelState,
+  type EntityTreeRow,
+} from '@/lib/entityTreeRows';
+import {
+  EMPTY_ENTITY_TREE_FILTER,
+  applyEntityTreeFilter,
+  buildFilteredTreeLevels,
+  isEntityTreeFilterActive,
+  type EntityTreeFilter,
+} from '@/lib/entityTreeFilter';
+import { isContainerEntity, sortEntityTreeLevels } from '@/lib/entityTreeSort';
+import { useEntityMove } from '@/hooks/useEntityMove';
+import { useVirtualRows } from '@/hooks/useVirtualRows';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { useWorldEntityIndex } from '@/hooks/useWorldEntityIndex';
+import { useEntityTreeSort } from '@/hooks/useEntityTreeSort';
+import { useEntityReorder } from '@/hooks/useEntityReorder';
+import { usePersistedTreeState } from '@/hooks/usePersistedTreeState';
+import { useTreeExpansion } from '@/hooks/useTreeExpansion';
+import type { RootState } from '@/store/store';
+import { cn } from '@/lib/utils';
 import type { WorldEntity } from '@/services/types/worldEntity.types';
 
+/** Height of a tree row in pixels (must match the row styling) */
+const TREE_ROW_HEIGHT = 32;
+
+const EMPTY_ENTITIES: WorldEntity[] = [];
+
 /**
  * Entity tree component
  *
@@ -32,96 +81,377 @@ import type { WorldEntity } from '@/services/types/worldEntity.types';
  */
 export function EntityTree({ optimisticallyDeletedIds }: { optimisticallyDeletedIds?: Set<string> }) {
   const selectedWorldId = useSelector(selectSelectedWorldId);
-  const selectedEntityId = useSelector(selectSelectedEntityId);
+
+  if (!selectedWorldId) {
+    return (
+      <div className="px-4 py-8 text-center text-muted-foreground">
+        <p className="m-0 text-sm">Choose a realm to explore its chronicles</p>
+      </div>
+    );
+  }
+
+  // Keyed by world so loaded levels never carry over to another world
+  return (
+    <WorldEntityTree
+      key={selectedWorldId}
+      worldId={selectedWorldId}
+      optimisticallyDeletedIds={optimisticallyDeletedIds}
+    />
+  );
+}
+
+interface WorldEntityTreeProps {
+  worldId: string;
+  optimisticallyDeletedIds?: Set<string>;
+}
+
+/**
+ * Tree of a single world: loads the expanded levels and renders them as rows
+ */
+function WorldEntityTree({ worldId, optimisticallyDeletedIds }: WorldEntityTreeProps) {
+  const dispatch = useDispatch();
+  const store = useStore<RootState>();
   const expandedNodeIds = useSelector(selectExpandedNodeIds);
+  const draggedEntity = useSelector(selectDraggedEntity);
+  const [levels, setLevels] = useState<EntityTreeLevels>({});
+  const loadMoreByLevelRef = useRef(new Map<string, () => void>());
+
+  const [filter, setFilter] = useState<EntityTreeFilter>(EMPTY_ENTITY_TREE_FILTER);
+  const filterQuery = useDebouncedValue(filter.query.trim(), 200);
+  const activeFilter = useMemo(() => ({ ...filter, query: filterQuery }), [filter, filterQuery]);
+  const isFiltering = isEntityTreeFilterActive(activeFilter);
+  const entityIndex = useWorldEntityIndex(worldId, { skip: !isFiltering });
+  const [sort, setSort] = useEntityTreeSort(worldId);
+  const { reorderEntity } = useEntityReorder();
+  const { expandToDepth, collapseAll, isExpanding } = useTreeExpansion();
+
+  // Filtering expands ancestors of matches only temporarily, so that is not remembered
+  usePersistedTreeState(worldId, levels, { paused: isFiltering });
+
+  const filterResult = useMemo(
+    () => (isFiltering ? applyEntityTreeFilter(entityIndex.entities, activeFilter) : null),
+    [isFiltering, entityIndex.entities, activeFilter],
+  );
+
+  // While filtering, the root and every ancestor of a match show only the filtered entities
+  const filteredLevels = useMemo(
+    () => (filterResult ? buildFilteredTreeLevels(entityIndex.entities, filterResult) : null),
+    [filterResult, entityIndex.entities],
+  );
+  const visibleLevels = useMemo(
+    () => (filteredLevels ? { ...levels, ...filteredLevels } : levels),
+    [levels, filteredLevels],
+  );
+  const sortedLevels = useMemo(() => sortEntityTreeLevels(visibleLevels, sort), [visibleLevels, sort]);
+
+  // Remember the expanded nodes when filtering starts and restore them when it ends
+  const expandedBeforeFilterRef = useRef<string[] | null>(null);
+  useEffect(() => {
+    if (isFiltering) {
+      expandedBeforeFilterRef.current ??= selectExpandedNodeIds(store.getState());
+    } else if (expandedBeforeFilterRef.current) {
+      dispatch(setExpandedNodes(expandedBeforeFilterRef.current));
+      expandedBeforeFilterRef.current = null;
+    }
+  }, [isFiltering, store, dispatch]);
+
+  // Reveal the matches by expanding their ancestors
+  const filterAncestorIds = filterResult?.ancestorIds;
+  useEffect(() => {
+    if (filterAncestorIds) {
+      dispatch(setExpandedNodes([...filterAncestorIds]));
+    }
+  }, [filterAncestorIds, dispatch]);
+
+  const expandedIds = useMemo(() => new Set(expandedNodeIds), [expandedNodeIds]);
+  const rows = useMemo(
+    () => flattenEntityTree(sortedLevels, expandedIds, optimisticallyDeletedIds),
+    [sortedLevels, expandedIds, optimisticallyDeletedIds],
+  );
+  // Filtered levels are already complete, so only the other expanded levels are loaded
+  const expandedParentIds = useMemo(
+    () => getExpandedRowIds(rows).filter((parentId) => !filteredLevels?.[parentId]),
+    [rows, filteredLevels],
+  );
+
+  // Manual reordering needs every sibling, so it is unavailable while filtering
+  const canReorder = sort.mode === 'manual' && !isFiltering;
+  const treeOrder = useMemo<EntityTreeOrderContextValue>(() => {
+    const entityRows = rows.filter((row) => row.kind === 'entity');
+    return {
+      getOrderedEntityIds: () => entityRows.map((row) => row.key),
+      getSiblingIds: (parentId) =>
+        entityRows.filter((row) => row.entity.parentId === parentId).map((row) => row.key),
+      reorderEntity: canReorder
+        ? (entityId, targetId, placement) => {
+            const entity = entityRows.find((row) => row.key === entityId)?.entity;
+            if (!entity) return;
+
+            // With containers kept first, entries are reordered within their own group
+            const siblings = entityRows
+              .map((row) => row.entity)
+              .filter(
+                (sibling) =>
+                  sibling.parentId === entity.parentId &&
+                  (!sort.containersFirst || isContainerEntity(sibling) === isContainerEntity(entity)),
+              );
+            const targetIndex = siblings
+              .filter((sibling) => sibling.id !== entityId)
+              .findIndex((sibling) => sibling.id === targetId);
+            if (targetIndex === -1) return;
+
+            void reorderEntity(siblings, entity, targetIndex + (placement === 'after' ? 1 : 0));
+          }
+        : undefined,
+    };
+  }, [rows, canReorder, sort.containersFirst, reorderEntity]);
+
+  const handleLevelChange = useCallback(
+    (levelKey: string, state: EntityTreeLevelState, loadMore: () => void) => {
+      loadMoreByLevelRef.current.set(levelKey, loadMore);
+      setLevels((prev) => ({ ...prev, [levelKey]: state }));
+    },
+    [],
+  );
+
+  const handleLoadMore = useCallback((parentId: string | null) => {
+    loadMoreByLevelRef.current.get(getTreeLevelKey(parentId))?.();
+  }, []);
+
+  const rootLevel = visibleLevels[getTreeLevelKey(null)];
+
+  let content: React.ReactNode;
+  if (isFiltering && rows.length === 0) {
+    // Filter without (or not yet with) results
+    content = entityIndex.isLoading ? (
+      <div className="px-4 py-8 text-center text-muted-foreground" role="status">
+        <p className="m-0 text-sm">Consulting the tome...</p>
+      </div>
+    ) : (
+      <div className="px-4 py-8 text-center text-muted-foreground" role="status">
+        <p className="m-0 text-sm">
+          {entityIndex.isError ? 'The codex could not be searched' : 'No entries match the filter'}
+        </p>
+      </div>
+    );
+  } else if (!rootLevel || rootLevel.isLoading) {
+    // Loading state
+    content = (
+      <div className="p-4 flex flex-col gap-2" role="status" aria-label="Loading entities">
+        <Skeleton className="w-full h-8" />
+      </div>
+    );
+  } else if (rootLevel.isError && !rootLevel.isFetchNextPageError) {
+    // Error state
+    content = (
+      <div className="p-4 text-center text-destructive">
+        <p className="m-0 text-sm">The codex could not be read</p>
+      </div>
+    );
+  } else if (rows.length === 0) {
+    // Empty state
+    content = (
+      <div className="px-4 py-8 text-center text-muted-foreground">
+        <p className="m-0 mb-2 text-sm">No entries inscribed yet</p>
+        <Button
+          variant="outline"
+          size="default"
+          onClick={() => dispatch(openEntityFormCreate(null))}
+          aria-label="Add Codex Entry"
+        >
+          <Plus size={16} aria-hidden="true" />
+          Add Codex Entry
+        </Button>
+      </div>
+    );
+  } else {
+    content = (
+      <EntityTreeOrderProvider value={treeOrder}>
+        <EntityTreeRowList
+          rows={rows}
+          onLoadMore={handleLoadMore}
+          highlight={filterQuery}
+          matchIds={filterResult?.matchIds}
+        />
+      </EntityTreeOrderProvider>
+    );
+  }
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      <div aria-live="polite" className="sr-only">
+        {draggedEntity
+          ? `Moving "${draggedEntity.name}". Focus a destination entry and press Control+V to place it there, or Escape to cancel.`
+          : ''}
+      </div>
+      {draggedEntity && <RootDropZone />}
+      <div className="flex items-center gap-1 px-2 pt-2">
+        <EntityTreeFilterBar value={filter} onChange={setFilter} className="flex-1" />
+        <EntityTreeSortMenu value={sort} onChange={setSort} />
+        <EntityTreeExpandMenu
+          onExpandToDepth={(depth) => void expandToDepth(depth)}
+          onCollapseAll={collapseAll}
+          isExpanding={isExpanding}
+          disabled={isFiltering}
+        />
+      </div>
+      {filterResult && (
+        <p className="sr-only" role="status">
+          {filterResult.matchIds.size === 1 ? '1 entry matches' : `${filterResult.matchIds.size} entries match`}
+        </p>
+      )}
+      <EntityTreeLevelLoader worldId={worldId} parentId={null} onChange={handleLevelChange} />
+      {expandedParentIds.map((parentId) => (
+        <EntityTreeLevelLoader
+          key={parentId}
+          worldId={worldId}
+          parentId={parentId}
+          onChange={handleLevelChange}
+        />
+      ))}
+      {content}
+    </div>
+  );
+}
+
+interface EntityTreeRowListProps {
+  rows: EntityTreeRow[];
+  onLoadMore: (parentId: string | null) => void;
+  /** Text to highlight in the names of matching entries */
+  highlight?: string;
+  /** Entries matching the active filter (others are shown as context) */
+  matchIds?: Set<string>;
+}
+
+/**
+ * Windowed list of tree rows with roving focus and keyboard navigation
+ */
+function EntityTreeRowList({ rows, onLoadMore, highlight, matchIds }: EntityTreeRowListProps) {
   const dispatch = useDispatch();
-  const treeRef = useRef<HTMLDivElement>(null);
-  const [flattenedEntities, setFlattenedEntities] = useState<WorldEntity[]>([]);
+  const selectedEntityId = useSelector(selectSelectedEntityId);
+  const { containerRef, onScroll, startIndex, endIndex, totalHeight, scrollToIndex } =
+    useVirtualRows<HTMLDivElement>(rows.length, { rowHeight: TREE_ROW_HEIGHT });
+
+  // Row to focus once it is rendered (it may first need to be scrolled into the window)
+  const pendingFocusKeyRef = useRef<string | null>(null);
+  // After "Load more" from the keyboard, focus the first entry of the new page
+  const pendingLoadFocusRef = useRef<{ parentId: string | null; index: number } | null>(null);
+  // Last selection scrolled into view, so a selection made elsewhere is revealed once
+  const revealedSelectionRef = useRef<string | null>(null);
 
-  // Flatten the tree for keyboard navigation
   useEffect(() => {
-    if (treeRef.current) {
-      const nodes = Array.from(
-        treeRef.current.querySelectorAll('[role="treeitem"]'),
-      ) as HTMLElement[];
-      const entities: WorldEntity[] = [];
-      nodes.forEach((node) => {
-        const entityId = node.getAttribute('data-entity-id');
-        if (entityId) {
-          // Store reference for navigation
-          entities.push({ id: entityId } as WorldEntity);
-        }
-      });
-      setFlattenedEntities(entities);
+    const pendingLoad = pendingLoadFocusRef.current;
+    if (pendingLoad) {
+      const siblings = rows.filter(
+        (row) => row.kind === 'entity' && row.entity.parentId === pendingLoad.parentId,
+      );
+      if (siblings.length > pendingLoad.index) {
+        pendingLoadFocusRef.current = null;
+        pendingFocusKeyRef.current = siblings[pendingLoad.index].key;
+        scrollToIndex(rows.indexOf(siblings[pendingLoad.index]));
+      }
+    }
+
+    const key = pendingFocusKeyRef.current;
+    if (!key) return;
+    if (!rows.some((row) => row.key === key)) {
+      pendingFocusKeyRef.current = null;
+      return;
+    }
+
+    const item = containerRef.current?.querySelector<HTMLElement>(`[data-row-key="${key}"] [role="treeitem"]`);
+    if (item) {
+      pendingFocusKeyRef.current = null;
+      item.focus();
+    }
+  });
+
+  // Reveal the selected entity when it is selected from outside the tree (search, links)
+  useEffect(() => {
+    if (!selectedEntityId || revealedSelectionRef.current === selectedEntityId) return;
+    const index = rows.findIndex((row) => row.kind === 'entity' && row.key === selectedEntityId);
+    if (index === -1) return;
+    revealedSelectionRef.current = selectedEntityId;
+    scrollToIndex(index);
+  }, [selectedEntityId, rows, scrollToIndex]);
+
+  const moveToRow = (index: number) => {
+    const row = rows[index];
+    if (row.kind === 'entity') {
+      revealedSelectionRef.current = row.key;
+      dispatch(setSelectedEntity(row.key));
     }
-  }, [expandedNodeIds, selectedWorldId]);
+    pendingFocusKeyRef.current = row.key;
+    scrollToIndex(index);
+    containerRef.current
+      ?.querySelector<HTMLElement>(`[data-row-key="${row.key}"] [role="treeitem"]`)
+      ?.focus();
+  };
+
+  const handleLoadMore = (parentId: string | null, loadedCount: number, viaKeyboard: boolean) => {
+    pendingLoadFocusRef.current = viaKeyboard ? { parentId, index: loadedCount } : null;
+    onLoadMore(parentId);
+  };
 
   // Handle keyboard navigation
   const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
-    if (!selectedEntityId || flattenedEntities.length === 0) return;
-
-    const currentIndex = flattenedEntities.findIndex(
-      (entity) => entity.id === selectedEntityId,
-    );
+    // Prefer the focused row (which may be a "Load more" row), then the selected entity
+    const focusedKey = (e.target as HTMLElement).closest<HTMLElement>('[data-row-key]')?.dataset.rowKey;
+    let currentIndex = focusedKey ? rows.findIndex((row) => row.key === focusedKey) : -1;
+    if (currentIndex === -1) {
+      currentIndex = rows.findIndex((row) => row.kind === 'entity' && row.key === selectedEntityId);
+    }
     if (currentIndex === -1) return;
 
+    const current = rows[currentIndex];
     let handled = false;
 
     switch (e.key) {
       case 'ArrowDown':
-        // Move to next item
-        if (currentIndex < flattenedEntities.length - 1) {
-          const nextEntity = flattenedEntities[currentIndex + 1];
-          dispatch(setSelectedEntity(nextEntity.id));
-          handled = true;
-        }
-        break;
-
       case 'ArrowUp':
-        // Move to previous item
-        if (currentIndex > 0) {
-          const prevEntity = flattenedEntities[currentIndex - 1];
-          dispatch(setSelectedEntity(prevEntity.id));
+      case 'Home':
+      case 'End': {
+        const targetIndex = getNavigationTargetIndex(rows, currentIndex, e.key);
+        if (targetIndex !== -1) {
+          moveToRow(targetIndex);
           handled = true;
         }
         break;
+      }
 
       case 'ArrowRight':
-        // Expand node if collapsed and has children
-        if (treeRef.current) {
-          const currentNode = treeRef.current.querySelector(
-            `[data-entity-id="${selectedEntityId}"]`,
-          );
-          if (currentNode) {
-            const isExpanded = currentNode.getAttribute('aria-expanded') === 'true';
-            const hasChildren = currentNode.hasAttribute('aria-expanded');
-            if (hasChildren && !isExpanded) {
-              dispatch(toggleNodeExpanded(selectedEntityId));
-              handled = true;
+        // Expand a collapsed node, or move into an expanded one
+        if (current.kind === 'entity' && current.entity.hasChildren) {
+          if (!current.isExpanded) {
+            dispatch(toggleNodeExpanded(current.key));
+          } else {
+            const childIndex = getNavigationTargetIndex(rows, currentIndex, 'ArrowDown');
+            if (childIndex !== -1 && rows[childIndex].level > current.level) {
+              moveToRow(childIndex);
             }
           }
+          handled = true;
         }
         break;
 
-      case 'ArrowLeft':
-        // Collapse node if expanded
-        if (treeRef.current) {
-          const currentNode = treeRef.current.querySelector(
-            `[data-entity-id="${selectedEntityId}"]`,
-          );
-          if (currentNode) {
-            const isExpanded = currentNode.getAttribute('aria-expanded') === 'true';
-            if (isExpanded) {
-              dispatch(toggleNodeExpanded(selectedEntityId));
-              handled = true;
-            }
-          }
+      case 'ArrowLeft': {
+        // Collapse an expanded node, or move to the parent
+        if (current.kind === 'entity' && current.isExpanded) {
+          dispatch(toggleNodeExpanded(current.key));
+          handled = true;
+          break;
+        }
+        const parentIndex = getNavigationTargetIndex(rows, currentIndex, 'ArrowLeft');
+        if (parentIndex !== -1) {
+          moveToRow(parentIndex);
+          handled = true;
         }
         break;
+      }
 
       case 'Enter':
       case ' ':
-        // Already handled by node's onClick
+        // Already handled by the row's own key handler
         handled = true;
         break;
     }
@@ -132,50 +462,172 @@ export function EntityTree({ optimisticallyDeletedIds }: { optimisticallyDeleted
     }
   };
 
-  if (!selectedWorldId) {
-    return (
-      <div className="px-4 py-8 text-center text-muted-foreground">
-        <p className="m-0 text-sm">Choose a realm to explore its chronicles</p>
-      </div>
-    );
-  }
+  const renderRow = (row: EntityTreeRow) => {
+    switch (row.kind) {
+      case 'entity':
+        return (
+          <EntityTreeNode
+            entity={row.entity}
+            level={row.level}
+            posInSet={row.posInSet}
+            setSize={row.setSize}
+            highlight={matchIds?.has(row.key) ? highlight : undefined}
+            dimmed={!!matchIds && !matchIds.has(row.key)}
+          />
+        );
+
+      case 'loadMore':
+        return (
+          <LoadMoreTreeItem
+            level={row.level}
+            loadedCount={row.loadedCount}
+            isLoading={row.isFetchingNextPage}
+            isError={row.isFetchNextPageError}
+            onLoadMore={(viaKeyboard) => handleLoadMore(row.parentId, row.loadedCount, viaKeyboard)}
+          />
+        );
+
+      case 'loading':
+        return (
+          <div
+            role="treeitem"
+            aria-level={row.level + 1}
+            aria-selected={false}
+            aria-busy="true"
+            aria-label="Loading entities"
+            className="flex items-center h-full pr-2"
+            style={{ paddingLeft: `${row.level * 20 + 8}px` }}
+          >
+            <Skeleton className="w-full h-6" />
+          </div>
+        );
+
+      case 'error':
+        return (
+          <div
+            role="treeitem"
+            aria-level={row.level + 1}
+            aria-selected={false}
+            className="flex items-center h-full text-xs text-destructive"
+            style={{ paddingLeft: `${row.level * 20 + 8}px` }}
+          >
+            The codex could not be read
+          </div>
+        );
+    }
+  };
 
   return (
-    <div ref={treeRef} onKeyDown={handleKeyDown}>
-      <EntityTreeLevel 
-        parentId={null} 
-        worldId={selectedWorldId} 
-        level={0} 
-        optimisticallyDeletedIds={optimisticallyDeletedIds}
-      />
+    <div
+      ref={containerRef}
+      role="tree"
+      aria-label="Codex entry hierarchy"
+      aria-multiselectable="true"
+      className="flex-1 min-h-0 overflow-y-auto p-2"
+      onScroll={onScroll}
+      onKeyDown={handleKeyDown}
+    >
+      <div className="relative" style={{ height: totalHeight }}>
+        {rows.slice(startIndex, endIndex).map((row, offset) => (
+          <div
+            key={row.key}
+            className="absolute inset-x-0"
+            style={{ top: (startIndex + offset) * TREE_ROW_HEIGHT, height: TREE_ROW_HEIGHT }}
+            data-row-key={row.key}
+          >
+            {renderRow(row)}
+          </div>
+        ))}
+      </div>
     </div>
   );
 }
 
-interface EntityTreeLevelProps {
-  parentId: string | null;
+/**
+ * Drop target for moving the dragged entity to the root level.
+ * Rendered as a button so keyboard users can also place a picked-up entity at the root.
+ */
+function RootDropZone() {
+  const dispatch = useDispatch();
+  const draggedEntity = useSelector(selectDraggedEntity);
+  const { moveEntity } = useEntityMove();
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  if (!draggedEntity) return null;
+
+  const validation = validateEntityMove(draggedEntity, null);
+
+  const handleMoveToRoot = () => {
+    if (!validation.canMove) return;
+    dispatch(endEntityDrag());
+    void moveEntity(draggedEntity, null);
+  };
+
+  return (
+    <button
+      type="button"
+      className={cn(
+        'mx-2 mt-2 flex w-[calc(100%-1rem)] items-center justify-center gap-2 rounded border border-dashed px-2 py-2 text-xs text-muted-foreground transition-colors',
+        validation.canMove ? 'border-border' : 'border-border/40 opacity-60 cursor-not-allowed',
+        isDragOver && validation.canMove && 'border-primary bg-primary/10 text-foreground',
+      )}
+      onClick={handleMoveToRoot}
+      disabled={!validation.canMove}
+      title={validation.reason}
+      onDragOver={(e) => {
+        if (!validation.canMove) return;
+        e.preventDefault();
+        if (e.dataTransfer) e.dataTransfer.dropEffect = 'move';
+        setIsDragOver(true);
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragOver(false);
+        handleMoveToRoot();
+      }}
+    >
+      <ArrowUpToLine size={14} aria-hidden="true" />
+      Move to top level
+    </button>
+  );
+}
+
+interface EntityTreeLevelLoaderProps {
   worldId: string;
-  level: number;
-  optimisticallyDeletedIds?: Set<string>;
+  parentId: string | null;
+  onChange: (levelKey: string, state: EntityTreeLevelState, loadMore: () => void) => void;
 }
 
 /**
- * Recursive tree level component
- * Fetches children for a given parent entity
+ * Level snapshot kept in sessionStorage; `nextCursor` records whether the level
+ * was only partially loaded when it was cached
  */
-function EntityTreeLevel({ worldId, parentId, level, optimisticallyDeletedIds }: EntityTreeLevelProps) {
-  const dispatch = useDispatch();
-  const expandedNodeIds = useSelector(selectExpandedNodeIds);
-  const cacheKey = `sidebar_hierarchy_${worldId}_${parentId || 'root'}`;
+interface CachedTreeLevel {
+  entities: WorldEntity[];
+  nextCursor: string | null;
+}
 
-  // Check cache first
-  const cachedData = cacheGet<WorldEntity[]>(cacheKey, []);
+/**
+ * Fetches the children of one parent, one page at a time, and reports them to the tree.
+ * Renders nothing; one loader is mounted per visible expanded level.
+ */
+function EntityTreeLevelLoader({ worldId, parentId, onChange }: EntityTreeLevelLoaderProps) {
+  const levelKey = getTreeLevelKey(parentId);
+  const cacheKey = `sidebar_hierarchy_${worldId}_${levelKey}`;
+
+  // Check cache first (read once; it is only a fallback until the first page arrives)
+  const [cachedLevel] = useState(() => cacheGet<CachedTreeLevel | null>(cacheKey, null));
 
   const {
-    data: fetchedEntities,
+    data,
     isLoading,
-    error,
-  } = useGetEntitiesByParentQuery(
+    isError,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+  } = useGetEntitiesByParentInfiniteQuery(
     { worldId, parentId },
     {
       // Always fetch to ensure fresh data after mutations
@@ -184,97 +636,93 @@ function EntityTreeLevel({ worldId, parentId, level, optimisticallyDeletedIds }:
     },
   );
 
+  // Merge the loaded pages into one list
+  const fetchedEntities = useMemo(() => data?.pages.flatMap((page) => page.data), [data]);
+  const nextCursor = data?.pages[data.pages.length - 1]?.meta?.nextCursor ?? null;
+
   // Use fetched data if available, otherwise use cache as fallback
-  let entities = fetchedEntities || cachedData;
-  
-  // Filter out optimistically deleted entities
-  if (optimisticallyDeletedIds && optimisticallyDeletedIds.size > 0) {
-    entities = entities?.filter(entity => !optimisticallyDeletedIds.has(entity.id));
-  }
+  const entities = fetchedEntities ?? cachedLevel?.entities ?? EMPTY_ENTITIES;
+  const hasMore = data ? hasNextPage : !!cachedLevel?.nextCursor;
 
   // Update cache when data fetched (keep sync)
   useEffect(() => {
     if (fetchedEntities && fetchedEntities.length > 0) {
-      cacheSet(cacheKey, fetchedEntities);
+      cacheSet<CachedTreeLevel>(cacheKey, { entities: fetchedEntities, nextCursor });
     }
-  }, [fetchedEntities, cacheKey]);
+  }, [fetchedEntities, nextCursor, cacheKey]);
 
-  // Loading state
-  if (isLoading) {
-    return (
-      <div className="p-4 flex flex-col gap-2" role="status" aria-label="Loading entities">
-        <Skeleton className="w-full h-8" />
-      </div>
-    );
-  }
-
-  // Error state
-  if (error) {
-    return (
-      <div className="p-4 text-center text-destructive">
-        <p className="m-0 text-sm">The codex could not be read</p>
-      </div>
-    );
-  }
+  // Keep the latest fetchNextPage without re-reporting the level whenever its identity changes
+  const fetchNextPageRef = useRef(fetchNextPage);
+  useEffect(() => {
+    fetchNextPageRef.current = fetchNextPage;
+  }, [fetchNextPage]);
 
-  // Empty state
-  if (!entities || entities.length === 0) {
-    if (parentId === null) {
-      // Root level empty
-      return (
-        <div className="px-4 py-8 text-center text-muted-foreground">
-          <p className="m-0 mb-2 text-sm">No entries inscribed yet</p>
-          <Button
-            variant="outline"
-            size="default"
-            onClick={() => dispatch(openEntityFormCreate(null))}
-            aria-label="Add Codex Entry"
-          >
-            <Plus size={16} aria-hidden="true" />
-            Add Codex Entry
-          </Button>
-        </div>
-      );
+  const loadMore = useCallback(() => {
+    if (data && !isFetchingNextPage) {
+      void fetchNextPageRef.current();
     }
-    return null; // Child level empty - don't show anything
-  }
+  }, [data, isFetchingNextPage]);
 
-  // Render tree
-  if (level === 0) {
-    // Root level - add tree role
-    return (
-      <div role="tree" aria-label="Codex entry hierarchy" className="flex-1 overflow-y-auto p-2">
-        {entities.map((entity) => (
-          <EntityTreeNode key={entity.id} entity={entity} level={level}>
-            {entity.hasChildren && expandedNodeIds.includes(entity.id) && (
-              <EntityTreeLevel
-                worldId={worldId}
-                parentId={entity.id}
-                level={level + 1}
-                optimisticallyDeletedIds={optimisticallyDeletedIds}
-              />
-            )}
-          </EntityTreeNode>
-        ))}
-      </div>
+  useEffect(() => {
+    onChange(
+      levelKey,
+      { entities, hasMore, isLoading, isError, isFetchingNextPage, isFetchNextPageError },
+      loadMore,
     );
-  }
+  }, [onChange, levelKey, entities, hasMore, isLoading, isError, isFetchingNextPage, isFetchNextPageError, loadMore]);
+
+  return null;
+}
+
+interface LoadMoreTreeItemProps {
+  level: number;
+  loadedCount: number;
+  isLoading: boolean;
+  isError: boolean;
+  onLoadMore: (viaKeyboard: boolean) => void;
+}
+
+/**
+ * Row at the end of a partially loaded level that fetches the next page.
+ * Rendered as a treeitem so arrow-key navigation can reach it.
+ */
+function LoadMoreTreeItem({ level, loadedCount, isLoading, isError, onLoadMore }: LoadMoreTreeItemProps) {
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      onLoadMore(true);
+    }
+  };
 
-  // Child levels - no role needed
   return (
-    <>
-      {entities.map((entity) => (
-        <EntityTreeNode key={entity.id} entity={entity} level={level}>
-          {entity.hasChildren && expandedNodeIds.includes(entity.id) && (
-            <EntityTreeLevel
-              parentId={entity.id}
-              worldId={worldId}
-              level={level + 1}
-              optimisticallyDeletedIds={optimisticallyDeletedIds}
-            />
-          )}
-        </EntityTreeNode>
-      ))}
-    </>
+    <div
+      role="treeitem"
+      aria-level={level + 1}
+      aria-selected={false}
+      aria-busy={isLoading}
+      aria-label={isLoading ? 'Loading more entries' : `Load more entries (${loadedCount} shown)`}
+      tabIndex={-1}
+      className={cn(
+        'flex items-center gap-2 px-2 py-1.5 rounded text-xs cursor-pointer select-none outline-none',
+        'text-muted-foreground hover:bg-accent hover:text-foreground',
+        'focus-visible:outline-2 focus-visible:outline-ring focus-visible:outline-offset-2',
+        isError && 'text-destructive',
+      )}
+      style={{ paddingLeft: `${level * 20 + 8}px` }}
+      onClick={() => onLoadMore(false)}
+      onKeyDown={handleKeyDown}
+      data-load-more="true"
+    >
+      {isLoading ? (
+        <Loader2 size={14} className="animate-spin" aria-hidden="true" />
+      ) : (
+        <ChevronsDown size={14} aria-hidden="true" />
+      )}
+      {isLoading
+        ? 'Consulting the tome...'
+        : isError
+          ? 'The next pages could not be read. Try again'
+          : 'Load more entries'}
+    </div>
   );
 }
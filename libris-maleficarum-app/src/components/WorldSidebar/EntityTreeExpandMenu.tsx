@@ -0,0 +1,82 @@
+/**
+ * EntityTreeExpandMenu Component
+ *
+ * Menu next to the tree sort menu for expanding every entry down to a chosen
+ * depth or collapsing the whole tree.
+ *
+ * @module components/WorldSidebar/EntityTreeExpandMenu
+ */
+
+import { ChevronsUpDown, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+/** Depths offered by the menu */
+const EXPAND_DEPTHS = [1, 2, 3, 4];
+
+export interface EntityTreeExpandMenuProps {
+  /** Called with the depth to expand to */
+  onExpandToDepth: (depth: number) => void;
+
+  /** Called to collapse every entry */
+  onCollapseAll: () => void;
+
+  /** Whether an expand command is still loading levels */
+  isExpanding?: boolean;
+
+  /** Disable the menu (e.g. while filtering) */
+  disabled?: boolean;
+}
+
+/**
+ * Entity tree expand menu component
+ *
+ * @example
+ * ```tsx
+ * <EntityTreeExpandMenu onExpandToDepth={expandToDepth} onCollapseAll={collapseAll} />
+ * ```
+ */
+export function EntityTreeExpandMenu({
+  onExpandToDepth,
+  onCollapseAll,
+  isExpanding = false,
+  disabled = false,
+}: EntityTreeExpandMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          aria-label="Expand or collapse entries"
+          aria-busy={isExpanding}
+          disabled={disabled || isExpanding}
+        >
+          {isExpanding ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin" aria-hidden="true" />
+          ) : (
+            <ChevronsUpDown className="h-3.5 w-3.5" aria-hidden="true" />
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48">
+        <DropdownMenuLabel>Unfold the codex</DropdownMenuLabel>
+        {EXPAND_DEPTHS.map((depth) => (
+          <DropdownMenuItem key={depth} onSelect={() => onExpandToDepth(depth)}>
+            Expand to depth {depth}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={onCollapseAll}>Collapse all</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,157 @@
+/**
+ * EntityTreeFilterBar Component
+ *
+ * Filter controls shown above the entity tree: a name filter, plus an entity
+ * type category and tags in a popover. Clearing the filter restores the tree
+ * as it was before filtering.
+ *
+ * @module components/WorldSidebar/EntityTreeFilterBar
+ */
+
+import { useMemo, useState } from 'react';
+import { useSelector } from 'react-redux';
+import { Filter, SlidersHorizontal, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TagInput, type TagSuggestion } from '@/components/shared/TagInput';
+import { selectSelectedWorldId } from '@/store/worldSidebarSlice';
+import { useWorldTags } from '@/hooks/useWorldTags';
+import { getEntityTypeCategories, type EntityTypeCategory } from '@/services/config/entityTypeRegistry';
+import {
+  EMPTY_ENTITY_TREE_FILTER,
+  isEntityTreeFilterActive,
+  type EntityTreeFilter,
+} from '@/lib/entityTreeFilter';
+import { cn } from '@/lib/utils';
+
+const ALL_CATEGORIES = 'all';
+
+export interface EntityTreeFilterBarProps {
+  /** Current filter */
+  value: EntityTreeFilter;
+
+  /** Called with the updated filter */
+  onChange: (filter: EntityTreeFilter) => void;
+
+  /** Additional classes for the container */
+  className?: string;
+}
+
+/**
+ * Entity tree filter bar component
+ *
+ * @example
+ * ```tsx
+ * <EntityTreeFilterBar value={filter} onChange={setFilter} />
+ * ```
+ */
+export function EntityTreeFilterBar({ value, onChange, className }: EntityTreeFilterBarProps) {
+  const worldId = useSelector(selectSelectedWorldId);
+  const [isRefining, setIsRefining] = useState(false);
+  // Tag suggestions are only needed once the type and tag filters are opened
+  const { tags: worldTags } = useWorldTags(worldId, { skip: !isRefining });
+
+  const tagSuggestions = useMemo<TagSuggestion[]>(
+    () => worldTags.map(({ tag, count }) => ({ value: tag, count })),
+    [worldTags],
+  );
+
+  const refinementCount = (value.category ? 1 : 0) + value.tags.length;
+  const isActive = isEntityTreeFilterActive(value);
+
+  return (
+    <div className={cn('flex items-center gap-1', className)} role="search" aria-label="Filter codex entries">
+      <div className="relative flex-1">
+        <Filter
+          className="absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground"
+          aria-hidden="true"
+        />
+        <Input
+          value={value.query}
+          onChange={(e) => onChange({ ...value, query: e.target.value })}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape' && isActive) {
+              e.preventDefault();
+              onChange(EMPTY_ENTITY_TREE_FILTER);
+            }
+          }}
+          placeholder="Find entries..."
+          aria-label="Find entries"
+          className="h-7 pl-7 text-xs"
+        />
+      </div>
+
+      <Popover open={isRefining} onOpenChange={setIsRefining}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn('relative h-7 w-7', refinementCount > 0 && 'text-primary')}
+            aria-label={
+              refinementCount > 0
+                ? `Refine by category and tags (${refinementCount} active)`
+                : 'Refine by category and tags'
+            }
+          >
+            <SlidersHorizontal className="h-3.5 w-3.5" aria-hidden="true" />
+            {refinementCount > 0 && (
+              <span
+                className="absolute -right-0.5 -top-0.5 flex h-3.5 min-w-3.5 items-center justify-center rounded-full bg-primary px-0.5 text-[10px] text-primary-foreground"
+                aria-hidden="true"
+              >
+                {refinementCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72 space-y-3">
+          <div className="space-y-1">
+            <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Category</span>
+            <Select
+              value={value.category ?? ALL_CATEGORIES}
+              onValueChange={(category) =>
+                onChange({
+                  ...value,
+                  category: category === ALL_CATEGORIES ? null : (category as EntityTypeCategory),
+                })
+              }
+            >
+              <SelectTrigger className="h-8 w-full text-xs" aria-label="Entry category">
+                <SelectValue placeholder="All categories" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                {getEntityTypeCategories().map((category) => (
+                  <SelectItem key={category} value={category}>
+                    {category}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <TagInput
+            label="Tags"
+            value={value.tags}
+            onChange={(tags) => onChange({ ...value, tags })}
+            suggestions={tagSuggestions}
+            placeholder="Add a tag and press Enter..."
+          />
+        </PopoverContent>
+      </Popover>
+
+      {isActive && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => onChange(EMPTY_ENTITY_TREE_FILTER)}
+          aria-label="Clear filter"
+        >
+          <X className="h-3.5 w-3.5" aria-hidden="true" />
+        </Button>
+      )}
+    </div>
+  );
+}
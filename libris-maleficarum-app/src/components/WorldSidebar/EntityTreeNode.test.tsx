@@ -8,7 +8,7 @@
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import { Provider } from 'react-redux';
@@ -778,4 +778,242 @@ describe('EntityTreeNode', () => {
       expect(setSelectedCalls).toHaveLength(0);
     });
   });
+
+  describe('Drag-and-drop Reparenting', () => {
+    const siblingContinent: WorldEntity = {
+      ...mockEntity,
+      id: 'entity-3',
+      name: 'Kara-Tur',
+      path: [],
+    };
+
+    const renderNodes = (store: ReturnType<typeof createMockStore>) =>
+      render(
+        <Provider store={store}>
+          <EntityTreeNode entity={mockEntity} level={0} />
+          <EntityTreeNode entity={mockEntityNoChildren} level={1} />
+          <EntityTreeNode entity={siblingContinent} level={0} />
+        </Provider>,
+      );
+
+    const getTreeItem = (name: string) =>
+      screen.getByText(name).closest('[role="treeitem"]') as HTMLElement;
+
+    it('should make tree items draggable', () => {
+      const store = createMockStore();
+      renderNodes(store);
+
+      expect(getTreeItem('Faerûn')).toHaveAttribute('draggable', 'true');
+    });
+
+    it('should track the dragged entity in Redux on drag start and clear it on drag end', () => {
+      const store = createMockStore();
+      renderNodes(store);
+
+      fireEvent.dragStart(getTreeItem('Cormyr'));
+      expect(store.getState().worldSidebar.draggedEntity).toEqual({
+        id: 'entity-2',
+        name: 'Cormyr',
+        parentId: 'entity-1',
+        entityType: WorldEntityType.Country,
+      });
+
+      fireEvent.dragEnd(getTreeItem('Cormyr'));
+      expect(store.getState().worldSidebar.draggedEntity).toBeNull();
+    });
+
+    it('should highlight a valid drop target', () => {
+      const store = createMockStore();
+      renderNodes(store);
+
+      fireEvent.dragStart(getTreeItem('Cormyr'));
+      fireEvent.dragOver(getTreeItem('Kara-Tur'));
+
+      expect(getTreeItem('Kara-Tur')).toHaveAttribute('data-drop-state', 'valid');
+    });
+
+    it('should mark descendants as invalid drop targets', () => {
+      const store = createMockStore();
+      const cormyrChild: WorldEntity = {
+        ...mockEntityNoChildren,
+        id: 'entity-4',
+        name: 'Suzail',
+        parentId: 'entity-2',
+        path: ['entity-1', 'entity-2'],
+      };
+
+      render(
+        <Provider store={store}>
+          <EntityTreeNode entity={mockEntity} level={0} />
+          <EntityTreeNode entity={cormyrChild} level={2} />
+        </Provider>,
+      );
+
+      fireEvent.dragStart(getTreeItem('Faerûn'));
+      fireEvent.dragOver(getTreeItem('Suzail'));
+
+      expect(getTreeItem('Suzail')).toHaveAttribute('data-drop-state', 'invalid');
+      expect(getTreeItem('Suzail')).toHaveAttribute('title', expect.stringContaining('descendant'));
+    });
+
+    it('should warn when the target does not suggest the dragged type', () => {
+      const store = createMockStore();
+      renderNodes(store);
+
+      fireEvent.dragStart(getTreeItem('Kara-Tur'));
+      fireEvent.dragOver(getTreeItem('Cormyr'));
+
+      expect(getTreeItem('Cormyr')).toHaveAttribute('data-drop-state', 'warning');
+      expect(getTreeItem('Cormyr')).toHaveAttribute('title', 'Continent is not a usual child of Country');
+    });
+
+    it('should auto-expand a collapsed target after hovering', () => {
+      vi.useFakeTimers();
+      try {
+        const store = createMockStore();
+        renderNodes(store);
+
+        fireEvent.dragStart(getTreeItem('Kara-Tur'));
+        fireEvent.dragOver(getTreeItem('Faerûn'));
+        vi.advanceTimersByTime(700);
+
+        expect(store.getState().worldSidebar.expandedNodeIds).toContain('entity-1');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should support keyboard pick-up with Ctrl+X and cancel with Escape', () => {
+      const store = createMockStore();
+      renderNodes(store);
+
+      fireEvent.keyDown(getTreeItem('Cormyr'), { key: 'x', ctrlKey: true });
+      expect(store.getState().worldSidebar.draggedEntity?.id).toBe('entity-2');
+
+      fireEvent.keyDown(getTreeItem('Kara-Tur'), { key: 'Escape' });
+      expect(store.getState().worldSidebar.draggedEntity).toBeNull();
+    });
+  });
+
+  describe('Multi-select', () => {
+    const siblingContinent: WorldEntity = {
+      ...mockEntity,
+      id: 'entity-3',
+      name: 'Kara-Tur',
+      path: [],
+    };
+
+    const renderTree = (store: ReturnType<typeof createMockStore>) =>
+      render(
+        <Provider store={store}>
+          <div role="tree" aria-label="Codex entry hierarchy" aria-multiselectable="true">
+            <EntityTreeNode entity={mockEntity} level={0} />
+            <EntityTreeNode entity={mockEntityNoChildren} level={1} />
+            <EntityTreeNode entity={siblingContinent} level={0} />
+          </div>
+        </Provider>,
+      );
+
+    const getTreeItem = (name: string) =>
+      screen.getByText(name).closest('[role="treeitem"]') as HTMLElement;
+
+    it('should toggle entries into the selection with Ctrl-click', () => {
+      // Arrange
+      const store = createMockStore();
+      renderTree(store);
+      fireEvent.click(getTreeItem('Faerûn'));
+
+      // Act
+      fireEvent.click(getTreeItem('Kara-Tur'), { ctrlKey: true });
+
+      // Assert
+      expect(store.getState().worldSidebar.multiSelectedEntityIds).toEqual(['entity-1', 'entity-3']);
+      expect(getTreeItem('Faerûn')).toHaveAttribute('aria-selected', 'true');
+      expect(getTreeItem('Kara-Tur')).toHaveAttribute('aria-selected', 'true');
+      expect(getTreeItem('Cormyr')).toHaveAttribute('aria-selected', 'false');
+    });
+
+    it('should select the visible range from the anchor with Shift-click', () => {
+      // Arrange
+      const store = createMockStore();
+      renderTree(store);
+      fireEvent.click(getTreeItem('Faerûn'));
+
+      // Act
+      fireEvent.click(getTreeItem('Kara-Tur'), { shiftKey: true });
+
+      // Assert
+      expect(store.getState().worldSidebar.multiSelectedEntityIds).toEqual(['entity-1', 'entity-2', 'entity-3']);
+    });
+
+    it('should select all siblings with Ctrl+A and clear with Escape', () => {
+      // Arrange
+      const store = createMockStore();
+      renderTree(store);
+
+      // Act
+      fireEvent.keyDown(getTreeItem('Faerûn'), { key: 'a', ctrlKey: true });
+
+      // Assert - Cormyr is at a different level
+      expect(store.getState().worldSidebar.multiSelectedEntityIds).toEqual(['entity-1', 'entity-3']);
+
+      // Act
+      fireEvent.keyDown(getTreeItem('Faerûn'), { key: 'Escape' });
+
+      // Assert
+      expect(store.getState().worldSidebar.multiSelectedEntityIds).toEqual([]);
+    });
+  });
+
+  describe('Inline rename', () => {
+    const renderNode = () => {
+      const store = createMockStore();
+      store.dispatch({ type: 'worldSidebar/setSelectedEntity', payload: mockEntity.id });
+      store.dispatch({ type: 'worldSidebar/toggleEntityInSelection', payload: 'entity-2' });
+      render(
+        <Provider store={store}>
+          <EntityTreeNode entity={mockEntity} level={0} />
+        </Provider>,
+      );
+      return store;
+    };
+
+    it('should open a rename field with F2 and close it with Escape', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      const store = renderNode();
+      const treeItem = screen.getByRole('treeitem');
+      const selection = store.getState().worldSidebar.multiSelectedEntityIds;
+      expect(selection.length).toBeGreaterThan(0);
+
+      // Act
+      fireEvent.keyDown(treeItem, { key: 'F2' });
+
+      // Assert
+      const input = screen.getByRole('textbox', { name: 'Rename Faerûn' });
+      expect(input).toHaveValue('Faerûn');
+      expect(input).toHaveFocus();
+      expect(treeItem).toHaveAttribute('draggable', 'false');
+
+      // Act
+      await user.keyboard('{Escape}');
+
+      // Assert - the Escape does not reach the tree (which would clear the multi-selection)
+      expect(screen.queryByRole('textbox')).not.toBeInTheDocument();
+      expect(treeItem).toHaveFocus();
+      expect(store.getState().worldSidebar.multiSelectedEntityIds).toEqual(selection);
+    });
+
+    it('should open a rename field when the name is double-clicked', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      renderNode();
+
+      // Act
+      await user.dblClick(screen.getByText('Faerûn'));
+
+      // Assert
+      expect(screen.getByRole('textbox', { name: 'Rename Faerûn' })).toHaveFocus();
+    });
+  });
 });
@@ -3,27 +3,78 @@
  *
  * Individual tree node representing a single world entity.
  * Supports expand/collapse, selection, keyboard navigation, and ARIA tree pattern.
+ * Nodes can be dragged onto other nodes to reparent them, with a keyboard
+ * alternative: Ctrl/Cmd+X picks a node up, Ctrl/Cmd+V drops it into the focused node,
+ * Escape cancels. In manual sort order, dropping on the top or bottom edge of a
+ * sibling (or Alt+Up / Alt+Down) reorders the node among its siblings instead.
+ * Ctrl/Cmd-click toggles a node in the multi-selection, Shift-click selects a
+ * visible range from the anchor, and Ctrl/Cmd+A selects all siblings.
+ * F2 or double-clicking the name renames the entity inline (Enter saves, Escape cancels).
+ * Nodes are rendered as flat rows by EntityTree; children are separate rows.
  *
  * @module components/WorldSidebar/EntityTreeNode
  */
 
-import { createElement, memo } from 'react';
+import { createElement, memo, useEffect, useRef, useState } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { ChevronRight, ChevronDown, Plus, Pencil } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import {
   selectIsNodeExpanded,
   selectSelectedEntityId,
+  selectDraggedEntity,
+  selectIsEntityMultiSelected,
+  selectSelectionAnchorId,
   toggleNodeExpanded,
+  expandNode,
   setSelectedEntity,
   openEntityFormCreate,
   openEntityFormEdit,
+  startEntityDrag,
+  endEntityDrag,
+  toggleEntityInSelection,
+  setMultiSelectedEntities,
+  clearMultiSelection,
 } from '@/store/worldSidebarSlice';
 import { getEntityIcon, type EntityType } from '@/lib/entityIcons';
+import { validateEntityMove } from '@/lib/entityHierarchy';
+import { findMatchRange } from '@/lib/entityTreeFilter';
+import { useEntityMove } from '@/hooks/useEntityMove';
+import { useEntityRename } from '@/hooks/useEntityRename';
+import { validateName } from '@/services/validators/worldEntityValidator';
 import type { WorldEntity } from '@/services/types/worldEntity.types';
 import { EntityContextMenu } from './EntityContextMenu';
+import { useEntityTreeOrder } from './EntityTreeOrderContext';
 import { cn } from '@/lib/utils';
 
+/** MIME type used to tag entity drags in the DataTransfer */
+const ENTITY_DRAG_MIME = 'application/x-libris-entity';
+
+/** Hover time before a collapsed drop target auto-expands */
+const AUTO_EXPAND_DELAY_MS = 600;
+
+/** Share of the row height at the top and bottom that reorders instead of reparenting */
+const REORDER_EDGE_RATIO = 0.25;
+
+type ReorderPlacement = 'before' | 'after';
+
+/**
+ * Entity IDs of the currently rendered tree items, in visual order.
+ * Fallback for nodes rendered outside an EntityTree (which provides the order from data).
+ *
+ * @param element - Any element inside the tree
+ * @param filter - Optional attribute selector to narrow the items (e.g. siblings)
+ */
+function getRenderedTreeItemIds(element: HTMLElement, filter = ''): string[] {
+  const tree = element.closest('[role="tree"]');
+  if (!tree) return [];
+
+  return Array.from(tree.querySelectorAll<HTMLElement>(`[role="treeitem"]${filter}`))
+    .map((node) => node.getAttribute('data-entity-id'))
+    .filter((id): id is string => !!id);
+}
+
 export interface EntityTreeNodeProps {
   /** Entity data to render */
   entity: WorldEntity;
@@ -31,8 +82,17 @@ export interface EntityTreeNodeProps {
   /** Depth level in tree (0-indexed) */
   level: number;
 
-  /** Children nodes (rendered recursively) */
-  children?: React.ReactNode;
+  /** 1-based position among its siblings */
+  posInSet?: number;
+
+  /** Number of siblings (-1 when not all are loaded) */
+  setSize?: number;
+
+  /** Filter text to highlight in the name */
+  highlight?: string;
+
+  /** Show the node muted (e.g. an ancestor shown only as context for filter matches) */
+  dimmed?: boolean;
 }
 
 /**
@@ -41,12 +101,104 @@ export interface EntityTreeNodeProps {
  * @param props - Component props
  * @returns Tree node UI
  */
-const EntityTreeNodeComponent = memo(function EntityTreeNode({ entity, level, children }: EntityTreeNodeProps) {
+const EntityTreeNodeComponent = memo(function EntityTreeNode({ entity, level, posInSet, setSize, highlight, dimmed }: EntityTreeNodeProps) {
   const dispatch = useDispatch();
+  const treeOrder = useEntityTreeOrder();
   const isExpanded = useSelector(selectIsNodeExpanded(entity.id));
   const selectedEntityId = useSelector(selectSelectedEntityId);
+  const isMultiSelected = useSelector(selectIsEntityMultiSelected(entity.id));
+  const selectionAnchorId = useSelector(selectSelectionAnchorId);
+
+  const draggedEntity = useSelector(selectDraggedEntity);
+  const { moveEntity } = useEntityMove();
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [reorderPlacement, setReorderPlacement] = useState<ReorderPlacement | null>(null);
+  const expandTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const { renameEntity } = useEntityRename();
+  // Name being edited inline (null when not renaming)
+  const [renameValue, setRenameValue] = useState<string | null>(null);
+  const [renameError, setRenameError] = useState<string | null>(null);
+  const isRenamingRef = useRef(false);
+  const refocusAfterRenameRef = useRef(false);
+  const renameInputRef = useRef<HTMLInputElement>(null);
+  const treeItemRef = useRef<HTMLDivElement>(null);
+  const isRenaming = renameValue !== null;
 
   const isSelected = selectedEntityId === entity.id;
+  const isPickedUp = draggedEntity?.id === entity.id;
+  const dropValidation = draggedEntity ? validateEntityMove(draggedEntity, entity) : null;
+  const dropState = !isDragOver || !dropValidation || reorderPlacement
+    ? undefined
+    : !dropValidation.canMove
+      ? 'invalid'
+      : dropValidation.warning
+        ? 'warning'
+        : 'valid';
+
+  const clearExpandTimer = () => {
+    if (expandTimerRef.current) {
+      clearTimeout(expandTimerRef.current);
+      expandTimerRef.current = null;
+    }
+  };
+
+  useEffect(() => clearExpandTimer, []);
+
+  // Focus the name when renaming starts, and the row again when it ends
+  useEffect(() => {
+    if (isRenaming) {
+      renameInputRef.current?.focus();
+      renameInputRef.current?.select();
+    } else if (refocusAfterRenameRef.current) {
+      refocusAfterRenameRef.current = false;
+      treeItemRef.current?.focus();
+    }
+  }, [isRenaming]);
+
+  const startRename = () => {
+    isRenamingRef.current = true;
+    setRenameError(null);
+    setRenameValue(entity.name);
+  };
+
+  const finishRename = (commit: boolean) => {
+    if (!isRenamingRef.current || renameValue === null) return;
+
+    if (commit) {
+      const error = validateName(renameValue);
+      if (error) {
+        setRenameError(error);
+        return;
+      }
+    }
+
+    isRenamingRef.current = false;
+    // Only take focus back when finishing from the field (not when focus moved elsewhere)
+    refocusAfterRenameRef.current = document.activeElement === renameInputRef.current;
+    setRenameValue(null);
+    setRenameError(null);
+    if (commit) {
+      void renameEntity(entity, renameValue);
+    }
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keep typing from reaching the tree's keyboard navigation
+    e.stopPropagation();
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      finishRename(true);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      finishRename(false);
+    }
+  };
+
+  const handleRenameBlur = () => {
+    // Leaving the field saves a valid name and discards an invalid one
+    finishRename(validateName(renameValue ?? '') === null);
+  };
 
   const handleToggleExpand = (e: React.MouseEvent | React.KeyboardEvent) => {
     e.stopPropagation();
@@ -56,20 +208,214 @@ const EntityTreeNodeComponent = memo(function EntityTreeNode({ entity, level, ch
     }
   };
 
-  const handleSelect = () => {
+  const handleSelect = (e: React.MouseEvent | React.KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey) {
+      dispatch(toggleEntityInSelection(entity.id));
+      return;
+    }
+
+    const anchorId = selectionAnchorId ?? selectedEntityId;
+    if (e.shiftKey && anchorId) {
+      const orderedIds = treeOrder
+        ? treeOrder.getOrderedEntityIds()
+        : getRenderedTreeItemIds(e.currentTarget as HTMLElement);
+      const anchorIndex = orderedIds.indexOf(anchorId);
+      const currentIndex = orderedIds.indexOf(entity.id);
+
+      if (anchorIndex !== -1 && currentIndex !== -1) {
+        dispatch(setMultiSelectedEntities(orderedIds.slice(
+          Math.min(anchorIndex, currentIndex),
+          Math.max(anchorIndex, currentIndex) + 1,
+        )));
+        return;
+      }
+    }
+
     dispatch(setSelectedEntity(entity.id));
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    // Ignore keyboard events from interactive children (buttons)
-    if ((e.target as HTMLElement).tagName === 'BUTTON') {
+    // Ignore keyboard events from interactive children (buttons, the rename field)
+    if ((e.target as HTMLElement).tagName === 'BUTTON' || (e.target as HTMLElement).tagName === 'INPUT') {
+      return;
+    }
+
+    if (e.key === 'F2') {
+      e.preventDefault();
+      startRename();
+      return;
+    }
+
+    const isModified = e.ctrlKey || e.metaKey;
+
+    if (isModified && e.key.toLowerCase() === 'x') {
+      // Keyboard alternative to dragging: pick this entity up
+      e.preventDefault();
+      dispatch(startEntityDrag({
+        id: entity.id,
+        name: entity.name,
+        parentId: entity.parentId,
+        entityType: entity.entityType,
+      }));
+      return;
+    }
+
+    if (isModified && e.key.toLowerCase() === 'v' && draggedEntity) {
+      // Drop the picked-up entity into this node (stays picked up if invalid)
+      e.preventDefault();
+      if (dropValidation?.canMove) {
+        dispatch(endEntityDrag());
+      }
+      void moveEntity(draggedEntity, entity);
+      return;
+    }
+
+    if (e.key === 'Escape' && draggedEntity) {
+      e.preventDefault();
+      dispatch(endEntityDrag());
+      return;
+    }
+
+    if (e.altKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown') && treeOrder?.reorderEntity) {
+      // Move this entity one place up or down among its siblings
+      e.preventDefault();
+      e.stopPropagation();
+      const siblingIds = treeOrder.getSiblingIds(entity.parentId);
+      const index = siblingIds.indexOf(entity.id);
+      const targetId = siblingIds[e.key === 'ArrowUp' ? index - 1 : index + 1];
+      if (index !== -1 && targetId) {
+        treeOrder.reorderEntity(entity.id, targetId, e.key === 'ArrowUp' ? 'before' : 'after');
+      }
+      return;
+    }
+
+    if (isModified && e.key.toLowerCase() === 'a') {
+      // Select every loaded sibling at this level
+      e.preventDefault();
+      dispatch(setMultiSelectedEntities(treeOrder
+        ? treeOrder.getSiblingIds(entity.parentId)
+        : getRenderedTreeItemIds(
+          e.currentTarget as HTMLElement,
+          `[data-parent-id="${entity.parentId ?? 'root'}"]`,
+        )));
+      return;
+    }
+
+    if (e.key === 'Escape') {
+      dispatch(clearMultiSelection());
       return;
     }
 
     if (e.key === 'Enter' || e.key === ' ') {
       e.preventDefault();
-      handleSelect();
+      handleSelect(e);
+    }
+  };
+
+  const handleDragStart = (e: React.DragEvent) => {
+    e.stopPropagation();
+    if (e.dataTransfer) {
+      e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData(ENTITY_DRAG_MIME, entity.id);
     }
+    dispatch(startEntityDrag({
+      id: entity.id,
+      name: entity.name,
+      parentId: entity.parentId,
+      entityType: entity.entityType,
+    }));
+  };
+
+  const handleDragEnd = () => {
+    clearExpandTimer();
+    setIsDragOver(false);
+    setReorderPlacement(null);
+    dispatch(endEntityDrag());
+  };
+
+  /** Whether the pointer is over an edge of a sibling row (reorder rather than reparent) */
+  const getReorderPlacement = (e: React.DragEvent): ReorderPlacement | null => {
+    if (
+      !treeOrder?.reorderEntity ||
+      !draggedEntity ||
+      draggedEntity.id === entity.id ||
+      draggedEntity.parentId !== entity.parentId
+    ) {
+      return null;
+    }
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (rect.height === 0) return null;
+
+    const offset = (e.clientY - rect.top) / rect.height;
+    return offset < REORDER_EDGE_RATIO ? 'before' : offset > 1 - REORDER_EDGE_RATIO ? 'after' : null;
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!draggedEntity) return;
+    e.stopPropagation();
+
+    if (!isDragOver) {
+      setIsDragOver(true);
+    }
+
+    const placement = getReorderPlacement(e);
+    if (placement !== reorderPlacement) {
+      setReorderPlacement(placement);
+    }
+
+    if (placement) {
+      clearExpandTimer();
+      e.preventDefault();
+      if (e.dataTransfer) e.dataTransfer.dropEffect = 'move';
+      return;
+    }
+
+    if (!dropValidation?.canMove) {
+      if (e.dataTransfer) e.dataTransfer.dropEffect = 'none';
+      return;
+    }
+
+    // Allow drop
+    e.preventDefault();
+    if (e.dataTransfer) e.dataTransfer.dropEffect = 'move';
+
+    if (entity.hasChildren && !isExpanded && !expandTimerRef.current) {
+      expandTimerRef.current = setTimeout(() => {
+        expandTimerRef.current = null;
+        dispatch(expandNode(entity.id));
+      }, AUTO_EXPAND_DELAY_MS);
+    }
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore moves between this row's own children
+    if (e.relatedTarget instanceof Node && e.currentTarget.contains(e.relatedTarget)) {
+      return;
+    }
+    clearExpandTimer();
+    setIsDragOver(false);
+    setReorderPlacement(null);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    clearExpandTimer();
+    setIsDragOver(false);
+    setReorderPlacement(null);
+
+    const placement = getReorderPlacement(e);
+    if (draggedEntity && placement) {
+      dispatch(endEntityDrag());
+      treeOrder?.reorderEntity?.(draggedEntity.id, entity.id, placement);
+      return;
+    }
+
+    if (!draggedEntity || !dropValidation?.canMove) return;
+
+    dispatch(endEntityDrag());
+    void moveEntity(draggedEntity, entity);
   };
 
   const handleExpandKeyDown = (e: React.KeyboardEvent) => {
@@ -91,28 +437,58 @@ const EntityTreeNodeComponent = memo(function EntityTreeNode({ entity, level, ch
   };
 
   const indentStyle = { paddingLeft: `${level * 20 + 8}px` };
+  const matchRange = highlight ? findMatchRange(entity.name, highlight) : null;
 
   return (
     <div className="flex flex-col relative" data-level={level}>
       <EntityContextMenu entity={entity}>
         <div
+          ref={treeItemRef}
           role="treeitem"
           aria-level={level + 1} // ARIA level is 1-indexed
-          aria-selected={isSelected}
+          aria-selected={isSelected || isMultiSelected}
           aria-expanded={entity.hasChildren ? isExpanded : undefined}
+          aria-posinset={posInSet}
+          aria-setsize={setSize}
           tabIndex={isSelected ? 0 : -1}
+          title={dropState === 'invalid' ? dropValidation?.reason : dropState === 'warning' ? dropValidation?.warning : undefined}
           className={cn(
             "group flex items-center gap-2 px-2 py-1.5 cursor-pointer rounded transition-colors select-none outline-none relative z-10",
             "hover:bg-accent",
             "focus-visible:outline-2 focus-visible:outline-ring focus-visible:outline-offset-2",
-            isSelected && "bg-accent text-accent-foreground font-medium"
+            dimmed && !isSelected && "text-muted-foreground",
+            isSelected && "bg-accent text-accent-foreground font-medium",
+            isMultiSelected && "bg-primary/15 text-foreground",
+            isPickedUp && "opacity-50 ring-1 ring-dashed ring-primary",
+            dropState === 'valid' && "bg-primary/10 ring-2 ring-primary",
+            dropState === 'warning' && "bg-amber-500/10 ring-2 ring-amber-500",
+            dropState === 'invalid' && "ring-2 ring-destructive/60 cursor-not-allowed"
           )}
           style={indentStyle}
           onClick={handleSelect}
           onKeyDown={handleKeyDown}
+          aria-keyshortcuts="F2"
+          draggable={!isRenaming}
+          onDragStart={handleDragStart}
+          onDragEnd={handleDragEnd}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
           data-hovered="true"
           data-entity-id={entity.id}
+          data-parent-id={entity.parentId ?? 'root'}
+          data-drop-state={dropState}
+          data-reorder-placement={reorderPlacement ?? undefined}
         >
+          {reorderPlacement && (
+            <span
+              className={cn(
+                'pointer-events-none absolute inset-x-2 h-0.5 rounded-full bg-primary',
+                reorderPlacement === 'before' ? 'top-0' : 'bottom-0',
+              )}
+              aria-hidden="true"
+            />
+          )}
           {entity.hasChildren ? (
             <Button
               variant="icon-expand"
@@ -140,7 +516,55 @@ const EntityTreeNodeComponent = memo(function EntityTreeNode({ entity, level, ch
             role: 'img'
           })}
 
-          <span className="flex-1 text-sm overflow-hidden text-ellipsis whitespace-nowrap">{entity.name}</span>
+          {isRenaming ? (
+            <div className="relative flex-1 min-w-0">
+              <Input
+                ref={renameInputRef}
+                value={renameValue}
+                onChange={(e) => {
+                  setRenameValue(e.target.value);
+                  setRenameError(null);
+                }}
+                onKeyDown={handleRenameKeyDown}
+                onBlur={handleRenameBlur}
+                onClick={(e) => e.stopPropagation()}
+                onDoubleClick={(e) => e.stopPropagation()}
+                aria-label={`Rename ${entity.name}`}
+                aria-invalid={!!renameError}
+                aria-describedby={renameError ? `rename-error-${entity.id}` : undefined}
+                className="h-6 px-1.5 py-0 text-sm"
+              />
+              {renameError && (
+                <p
+                  id={`rename-error-${entity.id}`}
+                  role="alert"
+                  className="absolute left-0 top-full z-20 mt-1 rounded-sm bg-destructive px-2 py-1 text-xs text-white shadow-md"
+                >
+                  {renameError}
+                </p>
+              )}
+            </div>
+          ) : (
+            <span
+              className="flex-1 text-sm overflow-hidden text-ellipsis whitespace-nowrap"
+              onDoubleClick={(e) => {
+                e.stopPropagation();
+                startRename();
+              }}
+            >
+              {matchRange ? (
+                <>
+                  {entity.name.slice(0, matchRange[0])}
+                  <mark className="rounded-sm bg-primary/25 text-inherit">
+                    {entity.name.slice(matchRange[0], matchRange[1])}
+                  </mark>
+                  {entity.name.slice(matchRange[1])}
+                </>
+              ) : (
+                entity.name
+              )}
+            </span>
+          )}
 
           <Button
             variant="icon-expander-action"
@@ -165,8 +589,6 @@ const EntityTreeNodeComponent = memo(function EntityTreeNode({ entity, level, ch
           </Button>
         </div>
       </EntityContextMenu>
-
-      {entity.hasChildren && isExpanded && children}
     </div>
   );
 });
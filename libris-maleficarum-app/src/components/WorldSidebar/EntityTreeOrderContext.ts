@@ -0,0 +1,46 @@
+/**
+ * Entity Tree Order Context
+ *
+ * Exposes the display order of the flattened entity tree to its nodes, so range
+ * and sibling selection work from data even for rows that are scrolled out of
+ * the (virtualized) DOM. In manual sort order it also lets nodes reorder siblings.
+ *
+ * @module WorldSidebar/EntityTreeOrderContext
+ */
+
+import { createContext, useContext } from 'react';
+
+export interface EntityTreeOrderContextValue {
+  /** Entity IDs of all visible rows, in display order */
+  getOrderedEntityIds: () => string[];
+
+  /**
+   * Entity IDs of the loaded children of a parent, in display order
+   *
+   * @param parentId - Parent entity ID (null for the root level)
+   */
+  getSiblingIds: (parentId: string | null) => string[];
+
+  /**
+   * Move an entity before or after one of its siblings; only provided while the
+   * tree is in manual order (and not filtered)
+   *
+   * @param entityId - Entity to move
+   * @param targetId - Sibling to place it next to
+   * @param placement - Side of the sibling to place it on
+   */
+  reorderEntity?: (entityId: string, targetId: string, placement: 'before' | 'after') => void;
+}
+
+const EntityTreeOrderContext = createContext<EntityTreeOrderContextValue | null>(null);
+
+export const EntityTreeOrderProvider = EntityTreeOrderContext.Provider;
+
+/**
+ * Hook to access the tree display order
+ *
+ * @returns Order accessors, or null for nodes rendered outside an EntityTree
+ */
+export function useEntityTreeOrder(): EntityTreeOrderContextValue | null {
+  return useContext(EntityTreeOrderContext);
+}
@@ -0,0 +1,87 @@
+/**
+ * EntityTreeSortMenu Component
+ *
+ * Menu next to the tree filter for choosing how siblings are ordered and
+ * whether containers are kept at the top.
+ *
+ * @module components/WorldSidebar/EntityTreeSortMenu
+ */
+
+import { ArrowUpDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { EntityTreeSortMode, EntityTreeSortOptions } from '@/lib/entityTreeSort';
+
+const SORT_MODE_LABELS: Record<EntityTreeSortMode, string> = {
+  manual: 'Manual order',
+  alphabetical: 'Name (A–Z)',
+  type: 'Type',
+  updated: 'Recently updated',
+};
+
+export interface EntityTreeSortMenuProps {
+  /** Current sort options */
+  value: EntityTreeSortOptions;
+
+  /** Called with the updated sort options */
+  onChange: (sort: EntityTreeSortOptions) => void;
+}
+
+/**
+ * Entity tree sort menu component
+ *
+ * @example
+ * ```tsx
+ * <EntityTreeSortMenu value={sort} onChange={setSort} />
+ * ```
+ */
+export function EntityTreeSortMenu({ value, onChange }: EntityTreeSortMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          aria-label={`Sort entries (${SORT_MODE_LABELS[value.mode]})`}
+        >
+          <ArrowUpDown className="h-3.5 w-3.5" aria-hidden="true" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Sort entries</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={value.mode}
+          onValueChange={(mode) => onChange({ ...value, mode: mode as EntityTreeSortMode })}
+        >
+          {(Object.keys(SORT_MODE_LABELS) as EntityTreeSortMode[]).map((mode) => (
+            <DropdownMenuRadioItem key={mode} value={mode}>
+              {SORT_MODE_LABELS[mode]}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={value.containersFirst}
+          onCheckedChange={(checked) => onChange({ ...value, containersFirst: checked === true })}
+        >
+          Containers first
+        </DropdownMenuCheckboxItem>
+        {value.mode === 'manual' && (
+          <p className="px-2 py-1.5 text-xs text-muted-foreground">
+            Drag an entry to the top or bottom edge of a sibling, or press Alt+Up / Alt+Down, to reorder it.
+          </p>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
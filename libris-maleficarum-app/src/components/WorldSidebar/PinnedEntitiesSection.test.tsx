@@ -0,0 +1,177 @@
+/**
+ * PinnedEntitiesSection Component Tests
+ *
+ * Tests for the pinned entries list: revealing a pin in the tree, keeping pins
+ * in sync with renamed or deleted entities, reordering and collapsing.
+ *
+ * @see PinnedEntitiesSection.tsx
+ */
+
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { render, screen, waitFor, within, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { setupServer } from 'msw/node';
+import { PinnedEntitiesSection } from './PinnedEntitiesSection';
+import { api } from '@/services/api';
+import worldSidebarReducer from '@/store/worldSidebarSlice';
+import { handlers } from '@/__tests__/mocks/handlers';
+import type { PinnedEntityRecord } from '@/hooks/useSearchHistory';
+
+const server = setupServer(...handlers);
+const PINNED_STORAGE_KEY = 'lm.search.pinned.test-world-123';
+
+const createMockStore = () => {
+  return configureStore({
+    reducer: {
+      worldSidebar: worldSidebarReducer,
+      [api.reducerPath]: api.reducer,
+    },
+    middleware: (getDefaultMiddleware) =>
+      getDefaultMiddleware().concat(api.middleware),
+  });
+};
+
+const createPin = (id: string, name: string, path: string[] = []): PinnedEntityRecord => ({
+  id,
+  worldId: 'test-world-123',
+  name,
+  entityType: 'Country',
+  path,
+  updatedAt: '2026-01-13T12:00:00Z',
+});
+
+function renderSection(pins: PinnedEntityRecord[], optimisticallyDeletedIds?: Set<string>) {
+  localStorage.setItem(PINNED_STORAGE_KEY, JSON.stringify(pins));
+  const store = createMockStore();
+  store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'test-world-123' });
+
+  render(
+    <Provider store={store}>
+      <PinnedEntitiesSection optimisticallyDeletedIds={optimisticallyDeletedIds} />
+    </Provider>,
+  );
+
+  return { store };
+}
+
+const getStoredPinIds = () =>
+  (JSON.parse(localStorage.getItem(PINNED_STORAGE_KEY) ?? '[]') as PinnedEntityRecord[]).map((pin) => pin.id);
+
+const getPinOrder = () =>
+  within(screen.getByRole('region', { name: 'Pinned entries' }))
+    .getAllByRole('listitem')
+    .map((item) => item.getAttribute('data-pinned-entity-id'));
+
+describe('PinnedEntitiesSection', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'warn' }));
+  afterEach(() => {
+    server.resetHandlers();
+    localStorage.clear();
+  });
+  afterAll(() => server.close());
+
+  it('should render nothing when nothing is pinned', () => {
+    // Arrange & Act
+    renderSection([]);
+
+    // Assert
+    expect(screen.queryByRole('region', { name: 'Pinned entries' })).not.toBeInTheDocument();
+  });
+
+  it('should select a pinned entry and reveal it in the tree', async () => {
+    // Arrange
+    const user = userEvent.setup();
+    const { store } = renderSection([createPin('city-suzail', 'Suzail', ['continent-faerun', 'country-cormyr'])]);
+
+    // Act
+    await user.click(await screen.findByRole('button', { name: 'Suzail' }));
+
+    // Assert
+    expect(store.getState().worldSidebar.selectedEntityId).toBe('city-suzail');
+    expect(store.getState().worldSidebar.expandedNodeIds).toEqual(['continent-faerun', 'country-cormyr']);
+  });
+
+  it('should update a pin when its entity was renamed', async () => {
+    // Arrange & Act
+    renderSection([createPin('country-cormyr', 'Old Cormyr', ['continent-faerun'])]);
+
+    // Assert
+    expect(await screen.findByRole('button', { name: 'Cormyr' })).toBeInTheDocument();
+    await waitFor(() => {
+      expect(localStorage.getItem(PINNED_STORAGE_KEY)).toContain('"name":"Cormyr"');
+    });
+  });
+
+  it('should remove the pin of an entity that no longer exists', async () => {
+    // Arrange & Act
+    renderSection([createPin('country-cormyr', 'Cormyr'), createPin('country-lost', 'Netheril')]);
+
+    // Assert
+    await waitFor(() => {
+      expect(getStoredPinIds()).toEqual(['country-cormyr']);
+    });
+    expect(screen.queryByRole('button', { name: 'Netheril' })).not.toBeInTheDocument();
+  });
+
+  it('should hide pins beneath an entity that is being deleted', () => {
+    // Arrange & Act
+    renderSection(
+      [createPin('continent-faerun', 'Faerûn'), createPin('country-cormyr', 'Cormyr', ['continent-faerun'])],
+      new Set(['continent-faerun']),
+    );
+
+    // Assert
+    expect(screen.queryByRole('button', { name: 'Faerûn' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Cormyr' })).not.toBeInTheDocument();
+    expect(getStoredPinIds()).toEqual(['continent-faerun', 'country-cormyr']);
+  });
+
+  it('should reorder pins with Alt+ArrowDown and by dragging', async () => {
+    // Arrange
+    const user = userEvent.setup();
+    renderSection([
+      createPin('continent-faerun', 'Faerûn'),
+      createPin('country-cormyr', 'Cormyr', ['continent-faerun']),
+      createPin('city-suzail', 'Suzail', ['continent-faerun', 'country-cormyr']),
+    ]);
+    await user.click(await screen.findByRole('button', { name: 'Faerûn' }));
+
+    // Act
+    await user.keyboard('{Alt>}{ArrowDown}{/Alt}');
+
+    // Assert
+    expect(getPinOrder()).toEqual(['country-cormyr', 'continent-faerun', 'city-suzail']);
+    expect(getStoredPinIds()).toEqual(['country-cormyr', 'continent-faerun', 'city-suzail']);
+
+    // Act - drag Suzail onto the first pin
+    const [first, , last] = within(screen.getByRole('region', { name: 'Pinned entries' })).getAllByRole('listitem');
+    fireEvent.dragStart(last!);
+    fireEvent.dragOver(first!);
+    fireEvent.drop(first!);
+
+    // Assert
+    expect(getPinOrder()).toEqual(['city-suzail', 'country-cormyr', 'continent-faerun']);
+  });
+
+  it('should collapse and expand the list', async () => {
+    // Arrange
+    const user = userEvent.setup();
+    renderSection([createPin('country-cormyr', 'Cormyr')]);
+    const toggle = screen.getByRole('button', { name: /pinned/i });
+
+    // Act
+    await user.click(toggle);
+
+    // Assert
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.queryByRole('button', { name: 'Cormyr' })).not.toBeInTheDocument();
+
+    // Act
+    await user.click(toggle);
+
+    // Assert
+    expect(screen.getByRole('button', { name: 'Cormyr' })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * PinnedEntitiesSection Component
+ *
+ * Collapsible "Pinned" list at the top of the sidebar with the entries pinned in
+ * the selected world (see `useSearchHistory`). Choosing a pin selects the entry
+ * and reveals it in the tree; pins can be reordered by dragging or with
+ * Alt+Up / Alt+Down.
+ *
+ * Each pin is checked against its entity, so pins follow renames and moves and
+ * disappear once their entity is deleted.
+ *
+ * @module components/WorldSidebar/PinnedEntitiesSection
+ */
+
+import { createElement, useEffect, useId, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { ChevronDown, ChevronRight, PinOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  expandNodes,
+  selectSelectedEntityId,
+  selectSelectedWorldId,
+  setSelectedEntity,
+} from '@/store/worldSidebarSlice';
+import { useGetWorldEntityByIdQuery } from '@/services/worldEntityApi';
+import {
+  useSearchHistory,
+  type PinnableEntity,
+  type PinnedEntityRecord,
+} from '@/hooks/useSearchHistory';
+import { getEntityIcon, type EntityType } from '@/lib/entityIcons';
+import { logger } from '@/lib/logger';
+import { cn } from '@/lib/utils';
+
+/** Drag data type for reordering pins (distinct from moving entities in the tree) */
+const PINNED_DRAG_MIME = 'application/x-libris-pinned-entity';
+
+/** How often a pin whose entity is being deleted checks whether the entity is gone */
+const PENDING_DELETE_POLL_MS = 5000;
+
+export interface PinnedEntitiesSectionProps {
+  /** Entities being deleted; their pins (and pins beneath them) are hidden */
+  optimisticallyDeletedIds?: Set<string>;
+}
+
+/**
+ * Pinned entities section component
+ *
+ * @returns The section, or nothing when no world is selected or nothing is pinned
+ */
+export function PinnedEntitiesSection({ optimisticallyDeletedIds }: PinnedEntitiesSectionProps) {
+  const worldId = useSelector(selectSelectedWorldId);
+  const { pinnedEntities, reorderPinnedEntity, syncPinnedEntity, removePinnedEntity, togglePinnedEntity } =
+    useSearchHistory(worldId);
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const listId = useId();
+
+  if (!worldId || pinnedEntities.length === 0) return null;
+
+  const isPendingDelete = (pin: PinnedEntityRecord) =>
+    !!optimisticallyDeletedIds &&
+    (optimisticallyDeletedIds.has(pin.id) || (pin.path ?? []).some((id) => optimisticallyDeletedIds.has(id)));
+
+  const handleReorder = (entityId: string, targetIndex: number) => {
+    logger.userAction('Reorder pinned entity', { entityId, targetIndex });
+    reorderPinnedEntity(entityId, targetIndex);
+  };
+
+  return (
+    <section className="border-b border-border/40 px-2 py-1" aria-label="Pinned entries">
+      <button
+        type="button"
+        className="flex w-full items-center gap-1 rounded-sm px-2 py-1 text-xs font-semibold uppercase tracking-wider text-muted-foreground hover:text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        aria-expanded={!isCollapsed}
+        aria-controls={listId}
+        onClick={() => setIsCollapsed((collapsed) => !collapsed)}
+      >
+        {isCollapsed ? (
+          <ChevronRight className="h-3.5 w-3.5" aria-hidden="true" />
+        ) : (
+          <ChevronDown className="h-3.5 w-3.5" aria-hidden="true" />
+        )}
+        Pinned
+        <span className="ml-auto font-normal normal-case tracking-normal">{pinnedEntities.length}</span>
+      </button>
+
+      {!isCollapsed && (
+        <ul id={listId} className="m-0 list-none p-0 pb-1">
+          {pinnedEntities.map((pin, index) => (
+            <PinnedEntityItem
+              key={pin.id}
+              worldId={worldId}
+              pin={pin}
+              index={index}
+              count={pinnedEntities.length}
+              isHidden={isPendingDelete(pin)}
+              draggedId={draggedId}
+              onDragStateChange={setDraggedId}
+              onReorder={handleReorder}
+              onSync={syncPinnedEntity}
+              onRemove={removePinnedEntity}
+              onUnpin={() => {
+                logger.userAction('Unpin entity', { entityId: pin.id });
+                togglePinnedEntity(pin);
+              }}
+            />
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+interface PinnedEntityItemProps {
+  worldId: string;
+  pin: PinnedEntityRecord;
+  index: number;
+  count: number;
+  /** Hide the pin while its entity (or an ancestor) is being deleted */
+  isHidden: boolean;
+  draggedId: string | null;
+  onDragStateChange: (entityId: string | null) => void;
+  onReorder: (entityId: string, targetIndex: number) => void;
+  onSync: (entity: PinnableEntity) => void;
+  onRemove: (entityId: string) => void;
+  onUnpin: () => void;
+}
+
+/**
+ * A single pin, kept in sync with its entity
+ */
+function PinnedEntityItem({
+  worldId,
+  pin,
+  index,
+  count,
+  isHidden,
+  draggedId,
+  onDragStateChange,
+  onReorder,
+  onSync,
+  onRemove,
+  onUnpin,
+}: PinnedEntityItemProps) {
+  const dispatch = useDispatch();
+  const selectedEntityId = useSelector(selectSelectedEntityId);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
+  // Refetched whenever the entity is updated or moved (its cache tag is invalidated)
+  const { data: entity, error } = useGetWorldEntityByIdQuery(
+    { worldId, entityId: pin.id },
+    { pollingInterval: isHidden ? PENDING_DELETE_POLL_MS : 0 },
+  );
+  const isGone =
+    entity?.isDeleted === true || (!!error && 'status' in error && error.status === 404);
+
+  useEffect(() => {
+    if (isGone) {
+      logger.info('STATE', 'Removing pin of deleted entity', { entityId: pin.id });
+      onRemove(pin.id);
+    } else if (entity) {
+      onSync(entity);
+    }
+  }, [isGone, entity, pin.id, onRemove, onSync]);
+
+  if (isHidden || isGone) return null;
+
+  const name = entity?.name ?? pin.name;
+  const entityType = entity?.entityType ?? pin.entityType;
+
+  const handleSelect = () => {
+    logger.userAction('Open pinned entity', { entityId: pin.id });
+    const path = entity?.path ?? pin.path ?? [];
+    if (path.length > 0) {
+      dispatch(expandNodes(path));
+    }
+    dispatch(setSelectedEntity(pin.id));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (!e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
+    e.preventDefault();
+    const targetIndex = index + (e.key === 'ArrowUp' ? -1 : 1);
+    if (targetIndex >= 0 && targetIndex < count) {
+      onReorder(pin.id, targetIndex);
+    }
+  };
+
+  const handleDragStart = (e: React.DragEvent<HTMLLIElement>) => {
+    if (e.dataTransfer) {
+      e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData(PINNED_DRAG_MIME, pin.id);
+    }
+    onDragStateChange(pin.id);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLLIElement>) => {
+    if (!draggedId || draggedId === pin.id) return;
+    e.preventDefault();
+    if (e.dataTransfer) e.dataTransfer.dropEffect = 'move';
+    setIsDropTarget(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLLIElement>) => {
+    e.preventDefault();
+    setIsDropTarget(false);
+    const entityId = e.dataTransfer?.getData(PINNED_DRAG_MIME) || draggedId;
+    onDragStateChange(null);
+    if (entityId && entityId !== pin.id) {
+      onReorder(entityId, index);
+    }
+  };
+
+  return (
+    <li
+      draggable
+      onDragStart={handleDragStart}
+      onDragEnd={() => onDragStateChange(null)}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDropTarget(false)}
+      onDrop={handleDrop}
+      data-pinned-entity-id={pin.id}
+      className={cn(
+        'group flex items-center gap-1 rounded-sm pr-1',
+        selectedEntityId === pin.id && 'bg-accent text-accent-foreground',
+        draggedId === pin.id && 'opacity-50',
+        isDropTarget && 'ring-1 ring-primary',
+      )}
+    >
+      <button
+        type="button"
+        className="flex min-w-0 flex-1 items-center gap-2 rounded-sm px-2 py-1 text-left text-sm hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        aria-current={selectedEntityId === pin.id ? 'true' : undefined}
+        aria-keyshortcuts="Alt+ArrowUp Alt+ArrowDown"
+        onClick={handleSelect}
+        onKeyDown={handleKeyDown}
+      >
+        {createElement(getEntityIcon(entityType as EntityType), {
+          className: 'h-4 w-4 shrink-0 text-muted-foreground',
+          'aria-hidden': true,
+        })}
+        <span className="overflow-hidden text-ellipsis whitespace-nowrap">{name}</span>
+      </button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-5 w-5 opacity-0 transition-opacity group-hover:opacity-100 focus-visible:opacity-100"
+        aria-label={`Unpin ${name}`}
+        onClick={onUnpin}
+      >
+        <PinOff className="h-3.5 w-3.5" aria-hidden="true" />
+      </Button>
+    </li>
+  );
+}
@@ -3,7 +3,10 @@
  *
  * Main sidebar container that orchestrates:
  * - World selection via WorldSelector
+ * - Pinned entries
  * - Entity tree navigation (future)
+ * - Bulk actions for multi-selected entries
+ * - Access to the world's trash and relationship graph
  * - Entity form modals
  * - Optimistic UI updates for async operations
  *
@@ -11,14 +14,18 @@
  */
 
 import { useSelector, useDispatch } from 'react-redux';
-import { Plus } from 'lucide-react';
+import { Network, Plus, Trash2 } from 'lucide-react';
 import {
   selectSelectedWorldId,
   openEntityFormCreate,
+  openTrash,
+  openRelationshipGraph,
 } from '@/store/worldSidebarSlice';
 import { Button } from '@/components/ui/button';
 import { WorldSelector } from './WorldSelector';
 import { EntityTree } from './EntityTree';
+import { BulkActionBar } from './BulkActionBar';
+import { PinnedEntitiesSection } from './PinnedEntitiesSection';
 
 export interface WorldSidebarProps {
   /**
@@ -40,6 +47,14 @@ export function WorldSidebar({ optimisticallyDeletedIds }: WorldSidebarProps) {
     dispatch(openEntityFormCreate(null));
   };
 
+  const handleOpenTrash = () => {
+    dispatch(openTrash());
+  };
+
+  const handleOpenGraph = () => {
+    dispatch(openRelationshipGraph());
+  };
+
   return (
     <aside data-testid="world-sidebar" className="flex flex-col w-80 h-screen bg-background border-r border-border overflow-hidden" role="complementary" aria-label="Realm codex">
       {/* World Selector */}
@@ -50,18 +65,48 @@ export function WorldSidebar({ optimisticallyDeletedIds }: WorldSidebarProps) {
         <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
           Codex Entries
         </span>
-        <Button
-          variant="ghost"
-          size="icon"
-          className="h-6 w-6"
-          onClick={handleAddRootEntity}
-          disabled={!selectedWorldId}
-          aria-label="Add Codex Entry"
-        >
-          <Plus className="h-4 w-4" />
-        </Button>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={handleOpenGraph}
+            disabled={!selectedWorldId}
+            aria-label="Open Relationship Graph"
+            title="Relationship graph"
+          >
+            <Network className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={handleOpenTrash}
+            disabled={!selectedWorldId}
+            aria-label="Open Trash"
+            title="Trash"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={handleAddRootEntity}
+            disabled={!selectedWorldId}
+            aria-label="Add Codex Entry"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
       </div>
 
+      {/* Pinned Entries */}
+      <PinnedEntitiesSection optimisticallyDeletedIds={optimisticallyDeletedIds} />
+
+      {/* Bulk Actions (multi-selection only) */}
+      <BulkActionBar />
+
       {/* Entity Tree Navigation */}
       <EntityTree optimisticallyDeletedIds={optimisticallyDeletedIds} />
     </aside>
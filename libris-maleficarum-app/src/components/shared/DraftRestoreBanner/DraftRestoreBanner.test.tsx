@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { axe, toHaveNoViolations } from 'jest-axe';
+import { DraftRestoreBanner } from './DraftRestoreBanner';
+import { formatDraftTime } from '@/lib/formDrafts';
+
+expect.extend(toHaveNoViolations);
+
+const SAVED_AT = new Date().toISOString();
+
+describe('DraftRestoreBanner', () => {
+  it('asks to restore the draft from the time it was saved', () => {
+    render(<DraftRestoreBanner savedAt={SAVED_AT} onRestore={vi.fn()} onDiscard={vi.fn()} />);
+
+    expect(
+      screen.getByRole('heading', { name: `Restore draft from ${formatDraftTime(SAVED_AT)}?` }),
+    ).toBeInTheDocument();
+    expect(screen.queryByText(/changed elsewhere/i)).not.toBeInTheDocument();
+  });
+
+  it('warns when the item changed after the draft was taken', () => {
+    render(<DraftRestoreBanner savedAt={SAVED_AT} isStale onRestore={vi.fn()} onDiscard={vi.fn()} />);
+
+    expect(screen.getByText(/changed elsewhere after the draft was taken/i)).toBeInTheDocument();
+  });
+
+  it('restores or discards the draft', async () => {
+    const user = userEvent.setup();
+    const onRestore = vi.fn();
+    const onDiscard = vi.fn();
+    render(<DraftRestoreBanner savedAt={SAVED_AT} onRestore={onRestore} onDiscard={onDiscard} />);
+
+    await user.click(screen.getByRole('button', { name: 'Restore' }));
+    await user.click(screen.getByRole('button', { name: 'Discard Draft' }));
+
+    expect(onRestore).toHaveBeenCalledOnce();
+    expect(onDiscard).toHaveBeenCalledOnce();
+  });
+
+  it('has no accessibility violations', async () => {
+    const { container } = render(
+      <DraftRestoreBanner savedAt={SAVED_AT} isStale onRestore={vi.fn()} onDiscard={vi.fn()} />,
+    );
+
+    expect(await axe(container)).toHaveNoViolations();
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * DraftRestoreBanner Component
+ *
+ * Offers to restore an autosaved form draft when a form opens, e.g.
+ * "Restore draft from 14:32?". Warns when the item was changed on the server
+ * after the draft was taken, since restoring would bring back older values.
+ *
+ * @module components/shared/DraftRestoreBanner
+ */
+
+import { AlertTriangle, History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { formatDraftTime } from '@/lib/formDrafts';
+import { cn } from '@/lib/utils';
+
+export interface DraftRestoreBannerProps {
+  /** When the draft was saved (ISO 8601) */
+  savedAt: string;
+
+  /** Whether the item was changed on the server after the draft was taken */
+  isStale?: boolean;
+
+  /** Called to fill the form with the draft */
+  onRestore: () => void;
+
+  /** Called to throw the draft away */
+  onDiscard: () => void;
+
+  /** Whether the buttons are disabled */
+  disabled?: boolean;
+}
+
+/**
+ * Draft restore banner component
+ *
+ * @param props - Component props
+ * @returns Restore prompt with Restore and Discard buttons
+ */
+export function DraftRestoreBanner({
+  savedAt,
+  isStale = false,
+  onRestore,
+  onDiscard,
+  disabled = false,
+}: DraftRestoreBannerProps) {
+  const Icon = isStale ? AlertTriangle : History;
+  const title = `Restore draft from ${formatDraftTime(savedAt)}?`;
+
+  return (
+    <section
+      aria-label="Unsaved draft"
+      className={cn(
+        'mb-6 rounded-lg border p-4',
+        isStale ? 'border-amber-500/40 bg-amber-500/10' : 'border-blue-500/40 bg-blue-500/10',
+      )}
+    >
+      <div className="flex flex-wrap items-start gap-3">
+        <Icon
+          className={cn(
+            'mt-0.5 h-5 w-5 shrink-0',
+            isStale ? 'text-amber-700 dark:text-amber-300' : 'text-blue-700 dark:text-blue-300',
+          )}
+          aria-hidden="true"
+        />
+        <div className="min-w-0 flex-1 space-y-1">
+          <h2 className="text-sm font-semibold">{title}</h2>
+          <p className="text-sm text-muted-foreground">
+            {isStale
+              ? 'This was changed elsewhere after the draft was taken. Restoring brings back the draft\'s values over those changes.'
+              : 'Changes that were never saved were kept from an earlier session.'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={onDiscard} disabled={disabled}>
+            Discard Draft
+          </Button>
+          <Button type="button" size="sm" onClick={onRestore} disabled={disabled}>
+            Restore
+          </Button>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,5 @@
+/**
+ * DraftRestoreBanner component barrel export
+ */
+export { DraftRestoreBanner } from './DraftRestoreBanner';
+export type { DraftRestoreBannerProps } from './DraftRestoreBanner';
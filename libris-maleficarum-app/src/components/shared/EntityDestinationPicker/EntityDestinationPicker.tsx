@@ -0,0 +1,294 @@
+/**
+ * EntityDestinationPicker Component
+ *
+ * Picker for choosing where to move one or more entities: a "top level" option,
+ * a destination tree whose children load lazily when expanded, and a search mode
+ * that lists matches with their location. Each option is enabled or disabled by
+ * the caller-supplied validation (cycle prevention, root eligibility).
+ *
+ * @module components/shared/EntityDestinationPicker
+ */
+
+import { createElement, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { useGetEntitiesByParentInfiniteQuery } from '@/services/worldEntityApi';
+import type { WorldEntity, WorldEntityType } from '@/services/types/worldEntity.types';
+import type { SearchResultItem } from '@/services/types';
+import { MIN_QUERY_LENGTH, useEntitySearch } from '@/hooks/useEntitySearch';
+import type { EntityMoveValidation, MoveTargetEntity } from '@/lib/entityHierarchy';
+import { getEntityIcon, type EntityType } from '@/lib/entityIcons';
+import { formatEntityType } from '@/lib/entityTypeHelpers';
+import { cn } from '@/lib/utils';
+import { EntityPathBreadcrumb } from '../EntityPathBreadcrumb';
+
+/**
+ * Destination chosen in the picker: the top level of the codex, or a parent entity
+ */
+export type MoveDestination = { kind: 'root' } | { kind: 'entity'; entity: MoveTargetEntity };
+
+export interface EntityDestinationPickerProps {
+  /** World containing the entities */
+  worldId: string;
+
+  /** IDs of the entities being moved (listed, but never expandable) */
+  movingEntityIds: string[];
+
+  /** Currently chosen destination (null if none) */
+  value: MoveDestination | null;
+
+  /** Callback when a destination is chosen */
+  onChange: (destination: MoveDestination) => void;
+
+  /** Validate a destination (null for the top level) */
+  validate: (target: MoveTargetEntity | null) => EntityMoveValidation;
+}
+
+type DestinationListProps = Omit<EntityDestinationPickerProps, 'value'> & {
+  /** ID of the selected destination entity (null if none or root) */
+  selectedId: string | null;
+};
+
+const optionClassName = cn(
+  'rounded-md text-left text-sm transition-colors',
+  'hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+  'disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:bg-transparent',
+);
+
+/**
+ * Convert a search projection into a move target
+ */
+function toMoveTarget(item: SearchResultItem): MoveTargetEntity {
+  return {
+    id: item.id,
+    name: item.name,
+    path: item.path ?? [],
+    entityType: item.entityType as WorldEntityType,
+  };
+}
+
+/**
+ * Selectable destination button shared by the tree and the search results
+ */
+function DestinationOption({
+  target,
+  selectedId,
+  onChange,
+  validate,
+}: Pick<DestinationListProps, 'selectedId' | 'onChange' | 'validate'> & { target: MoveTargetEntity }) {
+  const validation = validate(target);
+  const isSelected = selectedId === target.id;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onChange({ kind: 'entity', entity: target })}
+      disabled={!validation.canMove}
+      aria-pressed={isSelected}
+      title={validation.reason}
+      className={cn(
+        optionClassName,
+        'flex min-w-0 flex-1 items-center gap-2 px-2 py-1',
+        isSelected && 'bg-accent font-medium',
+      )}
+    >
+      {createElement(getEntityIcon(target.entityType as EntityType), {
+        className: 'h-4 w-4 shrink-0 text-muted-foreground',
+        'aria-hidden': true,
+      })}
+      <span className="truncate">{target.name}</span>
+      <span className="sr-only">, {formatEntityType(target.entityType)}</span>
+    </button>
+  );
+}
+
+/**
+ * One level of the destination tree; children are fetched only when a node is expanded,
+ * one page at a time
+ */
+function DestinationTreeLevel({
+  parentId,
+  depth,
+  ...listProps
+}: DestinationListProps & { parentId: string | null; depth: number }) {
+  const { worldId } = listProps;
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } =
+    useGetEntitiesByParentInfiniteQuery({ worldId, parentId });
+  const children = useMemo(() => data?.pages.flatMap((page) => page.data) ?? [], [data]);
+
+  if (isLoading) {
+    return (
+      <p className="py-1 text-sm text-muted-foreground" style={{ paddingLeft: depth * 16 + 8 }}>
+        Consulting the tome...
+      </p>
+    );
+  }
+
+  if (children.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="space-y-0.5">
+      {children.map((child) => (
+        <DestinationTreeItem key={child.id} entity={child} depth={depth} {...listProps} />
+      ))}
+      {hasNextPage && (
+        <li style={{ paddingLeft: depth * 16 + 24 }}>
+          <button
+            type="button"
+            onClick={() => void fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className={cn(optionClassName, 'px-2 py-1 text-muted-foreground')}
+          >
+            {isFetchingNextPage ? 'Consulting the tome...' : 'Load more entries'}
+          </button>
+        </li>
+      )}
+    </ul>
+  );
+}
+
+/**
+ * Destination tree row with its own expand/collapse state
+ */
+function DestinationTreeItem({
+  entity,
+  depth,
+  ...listProps
+}: DestinationListProps & { entity: WorldEntity; depth: number }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  // Descendants of a moving entity are never valid destinations, so don't offer them
+  const canExpand = entity.hasChildren && !listProps.movingEntityIds.includes(entity.id);
+
+  return (
+    <li>
+      <div className="flex items-center gap-1" style={{ paddingLeft: depth * 16 }}>
+        {canExpand ? (
+          <button
+            type="button"
+            onClick={() => setIsExpanded((prev) => !prev)}
+            aria-expanded={isExpanded}
+            aria-label={`${isExpanded ? 'Collapse' : 'Expand'} ${entity.name}`}
+            className="rounded p-0.5 text-muted-foreground hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            {isExpanded ? (
+              <ChevronDown className="h-4 w-4" aria-hidden="true" />
+            ) : (
+              <ChevronRight className="h-4 w-4" aria-hidden="true" />
+            )}
+          </button>
+        ) : (
+          <span className="w-5 shrink-0" aria-hidden="true" />
+        )}
+        <DestinationOption target={entity} {...listProps} />
+      </div>
+      {isExpanded && (
+        <DestinationTreeLevel parentId={entity.id} depth={depth + 1} {...listProps} />
+      )}
+    </li>
+  );
+}
+
+/**
+ * Flat list of search matches, each shown with its location for disambiguation
+ */
+function DestinationSearchResults({ query, ...listProps }: DestinationListProps & { query: string }) {
+  const { results, isSearching, hasResults, isError } = useEntitySearch(query);
+
+  if (isSearching && !hasResults) {
+    return <p className="px-2 py-1 text-sm text-muted-foreground">Searching the codex...</p>;
+  }
+
+  if (isError) {
+    return <p className="px-2 py-1 text-sm text-destructive">The search could not be completed.</p>;
+  }
+
+  if (!hasResults) {
+    return <p className="px-2 py-1 text-sm text-muted-foreground">No entries match "{query.trim()}".</p>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {results.map((item) => {
+        const target = toMoveTarget(item);
+
+        return (
+          <li key={item.id} className="space-y-0.5">
+            <DestinationOption target={target} {...listProps} />
+            <div className="pl-8">
+              <EntityPathBreadcrumb
+                worldId={listProps.worldId}
+                ancestorIds={target.path}
+                label={`Location of ${item.name}`}
+              />
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+/**
+ * Entity destination picker component
+ *
+ * @param props - Component props
+ * @returns Destination picker UI
+ */
+export function EntityDestinationPicker({ value, ...pickerProps }: EntityDestinationPickerProps) {
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const rootValidation = pickerProps.validate(null);
+  const isRootSelected = value?.kind === 'root';
+  const isSearchActive = searchQuery.trim().length >= MIN_QUERY_LENGTH;
+
+  const listProps: DestinationListProps = {
+    ...pickerProps,
+    selectedId: value?.kind === 'entity' ? value.entity.id : null,
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" aria-hidden="true" />
+        <Input
+          type="search"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="Search the codex for a destination..."
+          aria-label="Search destinations"
+          className="pl-9"
+        />
+      </div>
+
+      <button
+        type="button"
+        onClick={() => pickerProps.onChange({ kind: 'root' })}
+        disabled={!rootValidation.canMove}
+        aria-pressed={isRootSelected}
+        title={rootValidation.reason}
+        className={cn(
+          optionClassName,
+          'w-full border border-dashed px-3 py-2',
+          isRootSelected && 'bg-accent font-medium',
+        )}
+      >
+        Top level of the codex
+      </button>
+
+      <div
+        role="region"
+        aria-label="Destinations"
+        className="max-h-80 overflow-auto rounded-md border p-2"
+      >
+        {isSearchActive ? (
+          <DestinationSearchResults query={searchQuery} {...listProps} />
+        ) : (
+          <DestinationTreeLevel parentId={null} depth={0} {...listProps} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+/**
+ * EntityDestinationPicker component barrel export
+ */
+export { EntityDestinationPicker } from './EntityDestinationPicker';
+export type { EntityDestinationPickerProps, MoveDestination } from './EntityDestinationPicker';
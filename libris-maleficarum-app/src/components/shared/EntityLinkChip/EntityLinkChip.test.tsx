@@ -0,0 +1,124 @@
+/**
+ * Tests for EntityLinkChip component
+ *
+ * @module components/shared/EntityLinkChip/EntityLinkChip.test
+ */
+
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse } from 'msw';
+import { MarkdownRenderer } from '@/components/shared/MarkdownRenderer';
+import { api } from '@/services/api';
+import worldSidebarReducer from '@/store/worldSidebarSlice';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+
+const BASE_URL = 'http://localhost:5000/api/v1/worlds/link-world';
+
+const createEntity = (id: string, name: string, isDeleted = false): WorldEntity => ({
+  id,
+  worldId: 'link-world',
+  parentId: null,
+  entityType: WorldEntityType.Character,
+  name,
+  description: '',
+  tags: [],
+  path: [],
+  depth: 0,
+  hasChildren: false,
+  ownerId: 'test-user',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  isDeleted,
+  schemaVersion: 1,
+});
+
+const server = setupServer(
+  http.get(`${BASE_URL}/entities/:entityId`, ({ params }) => {
+    if (params.entityId === 'elara') return HttpResponse.json({ data: createEntity('elara', 'Queen Elara') });
+    if (params.entityId === 'vex') return HttpResponse.json({ data: createEntity('vex', 'Lord Vex', true) });
+    return new HttpResponse(null, { status: 404 });
+  }),
+  http.get(`${BASE_URL}/entities`, () =>
+    HttpResponse.json({
+      data: [
+        createEntity('elara', 'Queen Elara'),
+        createEntity('vex', 'Lord Vex', true),
+        createEntity('twin-1', 'The Twin'),
+        createEntity('twin-2', 'The Twin'),
+      ],
+      meta: { nextCursor: null },
+    }),
+  ),
+);
+
+function renderLore(content: string) {
+  const store = configureStore({
+    reducer: {
+      worldSidebar: worldSidebarReducer,
+      [api.reducerPath]: api.reducer,
+    },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(api.middleware),
+  });
+  store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'link-world' });
+
+  render(
+    <Provider store={store}>
+      <MarkdownRenderer content={content} />
+    </Provider>,
+  );
+
+  return store;
+}
+
+describe('EntityLinkChip', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'warn' }));
+  afterEach(() => server.resetHandlers());
+  afterAll(() => server.close());
+
+  it('shows the current name of the linked entry and opens it', async () => {
+    const user = userEvent.setup();
+    const store = renderLore('Ruled by [[entity:elara|Elara the Young]].');
+
+    await user.click(await screen.findByRole('button', { name: 'Queen Elara' }));
+
+    expect(store.getState().worldSidebar.selectedEntityId).toBe('elara');
+  });
+
+  it('marks links to deleted or missing entries as broken', async () => {
+    renderLore('[[entity:vex|Lord Vex]] and [[entity:lost|Old Keep]]');
+
+    await waitFor(() => {
+      expect(screen.getAllByText('(This entry no longer exists)')).toHaveLength(2);
+    });
+    expect(screen.getByText('Lord Vex')).toBeInTheDocument();
+    expect(screen.getByText('Old Keep')).toBeInTheDocument();
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+
+  it('opens the entry named by a link typed without choosing an entry', async () => {
+    const user = userEvent.setup();
+    const store = renderLore('Ruled by [[queen elara]].');
+
+    await user.click(await screen.findByRole('button', { name: 'Queen Elara' }));
+
+    expect(store.getState().worldSidebar.selectedEntityId).toBe('elara');
+  });
+
+  it('marks typed links as unlinked when no live entry or several entries have the name', async () => {
+    renderLore('[[Nobody]], [[Lord Vex]] and [[The Twin]]');
+
+    await waitFor(() => {
+      expect(screen.getByText('Nobody').closest('[data-broken-link]')).toHaveAttribute('title', 'No entry has this name');
+    });
+    expect(screen.getByText('Lord Vex').closest('[data-broken-link]')).toHaveAttribute('title', 'No entry has this name');
+    expect(screen.getByText('The Twin').closest('[data-broken-link]')).toHaveAttribute(
+      'title',
+      'Several entries have this name',
+    );
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * EntityLinkChip Component
+ *
+ * Inline chip for a wiki link (`[[entity:<id>|Name]]`) in Markdown lore.
+ * The linked entry is looked up by ID, so the chip shows its current name and
+ * icon; clicking it selects the entry. A link typed without choosing an entry
+ * (`[[Queen Elara]]`) is looked up by name in the world index. Links to entries
+ * that were deleted or cannot be found, and names that match no entry or more
+ * than one, are shown as broken.
+ *
+ * @module components/shared/EntityLinkChip
+ */
+
+import { createElement } from 'react';
+import { Link2Off } from 'lucide-react';
+import { useAppDispatch, useAppSelector } from '@/store/store';
+import { selectSelectedWorldId, setSelectedEntity } from '@/store/worldSidebarSlice';
+import { useGetWorldEntityByIdQuery } from '@/services/worldEntityApi';
+import { useWorldEntityIndex } from '@/hooks/useWorldEntityIndex';
+import { findEntitiesByName } from '@/lib/entityLinks';
+import { getEntityIcon, type EntityType } from '@/lib/entityIcons';
+import { logger } from '@/lib/logger';
+import { cn } from '@/lib/utils';
+
+export interface EntityLinkChipProps {
+  /** Linked entity (null when the link was typed without choosing an entry; it is then found by name) */
+  entityId: string | null;
+
+  /** Label written in the link, shown while loading or when the entry is missing */
+  label: string;
+
+  /** Whether clicking the chip selects the entry (defaults to true) */
+  interactive?: boolean;
+}
+
+const CHIP_CLASSES =
+  'inline-flex max-w-full items-center gap-1 rounded-full border px-2 py-px align-baseline text-[0.9em] font-medium';
+
+function BrokenLinkChip({ label, reason }: { label: string; reason: string }) {
+  return (
+    <span
+      className={cn(CHIP_CLASSES, 'border-dashed border-destructive/60 text-destructive line-through decoration-destructive/60')}
+      title={reason}
+      data-broken-link="true"
+    >
+      <Link2Off className="h-3 w-3 shrink-0" aria-hidden="true" />
+      <span className="truncate">{label}</span>
+      <span className="sr-only">({reason})</span>
+    </span>
+  );
+}
+
+function ResolvedLinkChip({
+  entityId,
+  label,
+  interactive,
+}: {
+  entityId: string;
+  label: string;
+  interactive: boolean;
+}) {
+  const dispatch = useAppDispatch();
+  const worldId = useAppSelector(selectSelectedWorldId);
+  const { data: entity, isError } = useGetWorldEntityByIdQuery(
+    { worldId: worldId!, entityId },
+    { skip: !worldId },
+  );
+
+  if (isError || entity?.isDeleted) {
+    return <BrokenLinkChip label={label} reason="This entry no longer exists" />;
+  }
+
+  const content = (
+    <>
+      {entity &&
+        createElement(getEntityIcon(entity.entityType as EntityType), {
+          className: 'h-3 w-3 shrink-0',
+          'aria-hidden': true,
+        })}
+      <span className="truncate">{entity?.name ?? label}</span>
+    </>
+  );
+
+  if (!interactive) {
+    return <span className={cn(CHIP_CLASSES, 'border-primary/40 bg-primary/10 text-primary')}>{content}</span>;
+  }
+
+  const handleClick = () => {
+    logger.userAction('Follow entity link', { entityId });
+    dispatch(setSelectedEntity(entityId));
+  };
+
+  return (
+    <button
+      type="button"
+      className={cn(
+        CHIP_CLASSES,
+        'cursor-pointer border-primary/40 bg-primary/10 text-primary hover:bg-primary/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+      )}
+      onClick={handleClick}
+      title={`Open ${entity?.name ?? label}`}
+    >
+      {content}
+    </button>
+  );
+}
+
+function NamedLinkChip({ label, interactive }: { label: string; interactive: boolean }) {
+  const worldId = useAppSelector(selectSelectedWorldId);
+  const { entities, isLoading } = useWorldEntityIndex(worldId);
+
+  if (isLoading) {
+    return <span className={cn(CHIP_CLASSES, 'border-border text-muted-foreground')}>{label}</span>;
+  }
+
+  const matches = findEntitiesByName(entities, label);
+  if (matches.length === 0) {
+    return <BrokenLinkChip label={label} reason="No entry has this name" />;
+  }
+  if (matches.length > 1) {
+    return <BrokenLinkChip label={label} reason="Several entries have this name" />;
+  }
+
+  return <ResolvedLinkChip entityId={matches[0].id} label={label} interactive={interactive} />;
+}
+
+/**
+ * Entity link chip component
+ *
+ * @param props - Component props
+ * @returns Chip for the linked entry
+ */
+export function EntityLinkChip({ entityId, label, interactive = true }: EntityLinkChipProps) {
+  if (!entityId) {
+    return <NamedLinkChip label={label} interactive={interactive} />;
+  }
+
+  return <ResolvedLinkChip entityId={entityId} label={label} interactive={interactive} />;
+}
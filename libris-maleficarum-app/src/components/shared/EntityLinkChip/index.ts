@@ -0,0 +1,5 @@
+/**
+ * EntityLinkChip component barrel export
+ */
+export { EntityLinkChip } from './EntityLinkChip';
+export type { EntityLinkChipProps } from './EntityLinkChip';
@@ -0,0 +1,72 @@
+/**
+ * EntityPathBreadcrumb Component
+ *
+ * Renders an entity location as a breadcrumb trail, resolving ancestor names
+ * from their IDs (the materialized `path` stored on each entity).
+ * Each segment fetches its own entity so names come from the RTK Query cache.
+ *
+ * @module components/shared/EntityPathBreadcrumb
+ */
+
+import { ChevronRight } from 'lucide-react';
+import { useGetWorldEntityByIdQuery } from '@/services/worldEntityApi';
+
+export interface EntityPathBreadcrumbProps {
+  /** World containing the entities */
+  worldId: string;
+
+  /** Ancestor IDs from root to parent */
+  ancestorIds: string[];
+
+  /** Optional final segment (e.g. the entity's own name) */
+  leafLabel?: string;
+
+  /** Accessible label for the breadcrumb navigation */
+  label: string;
+}
+
+/**
+ * Single breadcrumb segment resolving an ancestor's name
+ */
+function PathSegment({ worldId, entityId }: { worldId: string; entityId: string }) {
+  const { data: entity, isError } = useGetWorldEntityByIdQuery({ worldId, entityId });
+
+  if (isError) {
+    return <span className="italic">Unknown entry</span>;
+  }
+
+  return <span>{entity?.name ?? '…'}</span>;
+}
+
+/**
+ * Entity path breadcrumb component
+ *
+ * @param props - Component props
+ * @returns Breadcrumb navigation UI
+ */
+export function EntityPathBreadcrumb({
+  worldId,
+  ancestorIds,
+  leafLabel,
+  label,
+}: EntityPathBreadcrumbProps) {
+  return (
+    <nav aria-label={label}>
+      <ol className="flex flex-wrap items-center gap-1 text-sm text-muted-foreground">
+        <li>Codex</li>
+        {ancestorIds.map((ancestorId) => (
+          <li key={ancestorId} className="flex items-center gap-1">
+            <ChevronRight className="h-3 w-3" aria-hidden="true" />
+            <PathSegment worldId={worldId} entityId={ancestorId} />
+          </li>
+        ))}
+        {leafLabel && (
+          <li className="flex items-center gap-1 font-medium text-foreground">
+            <ChevronRight className="h-3 w-3" aria-hidden="true" />
+            <span aria-current="location">{leafLabel}</span>
+          </li>
+        )}
+      </ol>
+    </nav>
+  );
+}
@@ -0,0 +1,5 @@
+/**
+ * EntityPathBreadcrumb component barrel export
+ */
+export { EntityPathBreadcrumb } from './EntityPathBreadcrumb';
+export type { EntityPathBreadcrumbProps } from './EntityPathBreadcrumb';
@@ -0,0 +1,69 @@
+/**
+ * EntityReferenceList Component
+ *
+ * Displays the value of an entity reference property as link chips. Each
+ * chip shows the referenced entry's current name and selects it when clicked;
+ * references to deleted entries keep their saved name and are shown as broken.
+ * Legacy plain-text values are shown as unlinked text.
+ *
+ * @module components/shared/EntityReferencePicker/EntityReferenceList
+ */
+
+import { EntityLinkChip } from '@/components/shared/EntityLinkChip';
+import type { EntityReferenceItem } from '@/lib/entityReferences';
+
+export interface EntityReferenceListProps {
+  /** References to display */
+  items: EntityReferenceItem[];
+
+  /** Accessible name for the list */
+  label: string;
+
+  /** Whether chips select their entry when clicked (defaults to true) */
+  interactive?: boolean;
+}
+
+/**
+ * Chip for one reference
+ *
+ * @internal
+ */
+export function EntityReferenceItemChip({
+  item,
+  interactive = true,
+}: {
+  item: EntityReferenceItem;
+  interactive?: boolean;
+}) {
+  if (typeof item === 'string') {
+    return (
+      <span
+        className="inline-flex max-w-full items-center rounded-full border px-2 py-px text-[0.9em] font-medium text-muted-foreground"
+        title="Not linked to an entry"
+      >
+        <span className="truncate">{item}</span>
+        <span className="sr-only"> (Not linked to an entry)</span>
+      </span>
+    );
+  }
+
+  return <EntityLinkChip entityId={item.id} label={item.name} interactive={interactive} />;
+}
+
+/**
+ * Entity reference list component
+ *
+ * @param props - Component props
+ * @returns Reference chips
+ */
+export function EntityReferenceList({ items, label, interactive = true }: EntityReferenceListProps) {
+  return (
+    <ul className="flex flex-wrap gap-2" aria-label={label}>
+      {items.map((item, index) => (
+        <li key={typeof item === 'string' ? `text-${index}` : item.id} className="max-w-full">
+          <EntityReferenceItemChip item={item} interactive={interactive} />
+        </li>
+      ))}
+    </ul>
+  );
+}
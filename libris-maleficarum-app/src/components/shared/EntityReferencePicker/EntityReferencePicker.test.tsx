@@ -0,0 +1,160 @@
+/**
+ * Tests for EntityReferencePicker component
+ *
+ * @module components/shared/EntityReferencePicker/EntityReferencePicker.test
+ */
+
+import { useState } from 'react';
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse } from 'msw';
+import { EntityReferencePicker, type EntityReferencePickerProps } from './EntityReferencePicker';
+import { EntityReferenceList } from './EntityReferenceList';
+import type { EntityReferenceItem } from '@/lib/entityReferences';
+import { api } from '@/services/api';
+import worldSidebarReducer from '@/store/worldSidebarSlice';
+
+const BASE_URL = 'http://localhost:5000/api/v1/worlds/ref-world';
+
+const ENTRIES = [
+  { id: 'waterdeep', name: 'Waterdeep', entityType: 'City' },
+  { id: 'neverwinter', name: 'Neverwinter', entityType: 'City' },
+  { id: 'water-giant', name: 'Water Giant', entityType: 'Character' },
+];
+
+const server = setupServer(
+  http.get(`${BASE_URL}/search`, ({ request }) => {
+    const url = new URL(request.url);
+    const query = (url.searchParams.get('q') ?? '').toLowerCase();
+    const entityType = url.searchParams.get('entityType');
+    const entries = ENTRIES.filter(
+      ({ name, entityType: type }) => name.toLowerCase().includes(query) && (!entityType || type === entityType),
+    );
+
+    return HttpResponse.json({
+      data: entries.map((entry) => ({
+        ...entry,
+        relevanceScore: 1,
+        worldId: 'ref-world',
+        parentId: null,
+        tags: [],
+        ownerId: 'test-user',
+        createdAt: '2026-01-01T00:00:00Z',
+        updatedAt: '2026-01-01T00:00:00Z',
+      })),
+      meta: { totalCount: entries.length, offset: 0, limit: 8 },
+    });
+  }),
+  http.get(`${BASE_URL}/entities/:entityId`, ({ params }) => {
+    const entry = ENTRIES.find(({ id }) => id === params.entityId);
+    if (!entry) {
+      return HttpResponse.json({ error: { code: 'NOT_FOUND', message: 'Not found' } }, { status: 404 });
+    }
+    return HttpResponse.json({
+      data: {
+        ...entry,
+        worldId: 'ref-world',
+        parentId: null,
+        description: '',
+        tags: [],
+        path: [],
+        depth: 0,
+        hasChildren: false,
+        ownerId: 'test-user',
+        createdAt: '2026-01-01T00:00:00Z',
+        updatedAt: '2026-01-01T00:00:00Z',
+        isDeleted: false,
+        schemaVersion: 1,
+      },
+    });
+  }),
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'warn' }));
+afterEach(() => server.resetHandlers());
+afterAll(() => server.close());
+
+function ControlledPicker({
+  initialValue = [],
+  ...props
+}: Partial<EntityReferencePickerProps> & { initialValue?: EntityReferenceItem[] }) {
+  const [value, setValue] = useState(initialValue);
+  return (
+    <>
+      <label htmlFor="cities">Major Cities</label>
+      <EntityReferencePicker id="cities" label="Major Cities" value={value} onChange={setValue} {...props} />
+    </>
+  );
+}
+
+function renderWithStore(ui: React.ReactElement) {
+  const store = configureStore({
+    reducer: {
+      worldSidebar: worldSidebarReducer,
+      [api.reducerPath]: api.reducer,
+    },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(api.middleware),
+  });
+  store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'ref-world' });
+
+  return { store, ...render(<Provider store={store}>{ui}</Provider>) };
+}
+
+describe('EntityReferencePicker', () => {
+  it('offers only entries of the allowed types and adds the chosen one', async () => {
+    const user = userEvent.setup();
+    renderWithStore(<ControlledPicker multiple allowedTypes={['City']} />);
+
+    await user.type(screen.getByLabelText('Major Cities'), 'water');
+    expect(await screen.findByRole('option', { name: /waterdeep/i })).toBeInTheDocument();
+    expect(screen.queryByRole('option', { name: /water giant/i })).not.toBeInTheDocument();
+
+    await user.keyboard('{Enter}');
+
+    const chosen = screen.getByRole('list', { name: 'Chosen Major Cities' });
+    expect(chosen).toHaveTextContent('Waterdeep');
+    expect(screen.getByLabelText('Major Cities')).toHaveValue('');
+  });
+
+  it('replaces the reference when only one entry can be chosen', async () => {
+    const user = userEvent.setup();
+    renderWithStore(<ControlledPicker initialValue={[{ id: 'waterdeep', name: 'Waterdeep' }]} />);
+
+    await user.type(screen.getByLabelText('Major Cities'), 'never');
+    await user.click(await screen.findByRole('option', { name: /neverwinter/i }));
+
+    const chosen = screen.getByRole('list', { name: 'Chosen Major Cities' });
+    expect(chosen).toHaveTextContent('Neverwinter');
+    expect(chosen).not.toHaveTextContent('Waterdeep');
+  });
+
+  it('removes a chosen reference', async () => {
+    const user = userEvent.setup();
+    renderWithStore(<ControlledPicker multiple initialValue={[{ id: 'waterdeep', name: 'Waterdeep' }, 'Luskan']} />);
+
+    await user.click(screen.getByRole('button', { name: 'Remove Luskan' }));
+
+    expect(screen.getByRole('list', { name: 'Chosen Major Cities' })).not.toHaveTextContent('Luskan');
+  });
+});
+
+describe('EntityReferenceList', () => {
+  it('links existing entries and marks missing and unlinked ones', async () => {
+    renderWithStore(
+      <EntityReferenceList
+        label="Major Cities"
+        items={[{ id: 'waterdeep', name: 'Old Name' }, { id: 'ruined', name: 'Myth Drannor' }, 'Luskan']}
+      />,
+    );
+
+    expect(await screen.findByRole('button', { name: /waterdeep/i })).toBeInTheDocument();
+    await waitFor(() => expect(screen.getByText('Myth Drannor').closest('[data-broken-link]')).not.toBeNull());
+    expect(screen.getByText('(This entry no longer exists)')).toBeInTheDocument();
+    expect(screen.getByText('Luskan')).toBeInTheDocument();
+    expect(screen.getByText('(Not linked to an entry)')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * EntityReferencePicker Component
+ *
+ * Searchable input for choosing other entries as the value of an
+ * `entityReference` or `entityReferenceArray` property. Matching entries are
+ * found with the world search and can be limited to the field's allowed
+ * types. Chosen entries are shown as chips above the input with a button to
+ * remove each.
+ *
+ * @module components/shared/EntityReferencePicker
+ */
+
+import { createElement, useId, useState, type KeyboardEvent } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { MIN_QUERY_LENGTH, useEntitySearch } from '@/hooks/useEntitySearch';
+import type { EntityReferenceItem } from '@/lib/entityReferences';
+import { getEntityIcon, type EntityType } from '@/lib/entityIcons';
+import { formatEntityType } from '@/lib/entityTypeHelpers';
+import type { SearchResultItem } from '@/services/types';
+import { cn } from '@/lib/utils';
+import { EntityReferenceItemChip } from './EntityReferenceList';
+
+export interface EntityReferencePickerProps {
+  /** ID of the search input, for its label */
+  id?: string;
+
+  /** Field label, used to name the chips and results */
+  label: string;
+
+  /** Chosen references */
+  value: EntityReferenceItem[];
+
+  /** Called with the new references when one is chosen or removed */
+  onChange: (value: EntityReferenceItem[]) => void;
+
+  /** Whether several entries can be chosen (defaults to false) */
+  multiple?: boolean;
+
+  /** Entity types that may be chosen (any type when omitted) */
+  allowedTypes?: readonly string[];
+
+  /** Placeholder for the search input */
+  placeholder?: string;
+
+  /** Whether the picker is disabled */
+  disabled?: boolean;
+
+  /** Whether the field has a validation error */
+  'aria-invalid'?: boolean;
+
+  /** ID of the element describing the field's error */
+  'aria-describedby'?: string;
+}
+
+function getItemLabel(item: EntityReferenceItem): string {
+  return typeof item === 'string' ? item : item.name;
+}
+
+/**
+ * Entity reference picker component
+ *
+ * @param props - Component props
+ * @returns Chosen references with a search input
+ */
+export function EntityReferencePicker({
+  id,
+  label,
+  value,
+  onChange,
+  multiple = false,
+  allowedTypes,
+  placeholder,
+  disabled = false,
+  'aria-invalid': ariaInvalid,
+  'aria-describedby': ariaDescribedBy,
+}: EntityReferencePickerProps) {
+  const listboxId = useId();
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // The search filters by type on the server when only one type is allowed
+  const { results, isSearching, isEmptyQuery } = useEntitySearch(
+    query,
+    allowedTypes?.length === 1 ? allowedTypes[0] : undefined,
+  );
+
+  const chosenIds = new Set(value.flatMap((item) => (typeof item === 'string' ? [] : [item.id])));
+  const options = results.filter(
+    (result) => !chosenIds.has(result.id) && (!allowedTypes || allowedTypes.includes(result.entityType)),
+  );
+  const active = Math.min(activeIndex, Math.max(options.length - 1, 0));
+  const showPopup = isOpen && query.trim() !== '';
+
+  const handleSelect = (result: SearchResultItem) => {
+    const reference = { id: result.id, name: result.name };
+    onChange(multiple ? [...value, reference] : [reference]);
+    setQuery('');
+    setActiveIndex(0);
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(value.filter((_, itemIndex) => itemIndex !== index));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape' && showPopup) {
+      e.preventDefault();
+      setIsOpen(false);
+      return;
+    }
+    if (!showPopup || options.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((active + 1) % options.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((active - 1 + options.length) % options.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      handleSelect(options[active]);
+    }
+  };
+
+  let message: string | null = null;
+  if (isEmptyQuery && query.trim().length < MIN_QUERY_LENGTH) {
+    message = `Type ${MIN_QUERY_LENGTH} or more letters to find an entry`;
+  } else if (!isEmptyQuery && !isSearching && options.length === 0) {
+    message = 'No matching entries found';
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {value.length > 0 && (
+        <ul className="flex flex-wrap gap-2" aria-label={`Chosen ${label}`}>
+          {value.map((item, index) => (
+            <li
+              key={typeof item === 'string' ? `text-${index}` : item.id}
+              className="inline-flex max-w-full items-center gap-1"
+            >
+              <EntityReferenceItemChip item={item} interactive={false} />
+              <button
+                type="button"
+                onClick={() => handleRemove(index)}
+                disabled={disabled}
+                className="rounded-full p-0.5 text-muted-foreground transition-colors hover:bg-accent hover:text-foreground disabled:pointer-events-none disabled:opacity-50"
+                aria-label={`Remove ${getItemLabel(item)}`}
+              >
+                <X className="h-3 w-3" aria-hidden="true" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="relative">
+        <Input
+          id={id}
+          type="text"
+          role="combobox"
+          autoComplete="off"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+            setActiveIndex(0);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder ?? (multiple || value.length === 0 ? 'Search entries...' : 'Search to replace...')}
+          disabled={disabled}
+          aria-autocomplete="list"
+          aria-expanded={showPopup && options.length > 0}
+          aria-controls={showPopup && options.length > 0 ? listboxId : undefined}
+          aria-activedescendant={showPopup && options.length > 0 ? `${listboxId}-${active}` : undefined}
+          aria-invalid={ariaInvalid}
+          aria-describedby={ariaDescribedBy}
+        />
+
+        {showPopup && (
+          <div className="absolute left-0 right-0 top-full z-50 mt-1 rounded-md border bg-popover p-1 text-popover-foreground shadow-md">
+            {isSearching && options.length === 0 && (
+              <p className="flex items-center gap-2 px-2 py-1.5 text-sm text-muted-foreground" role="status">
+                <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+                Searching the codex...
+              </p>
+            )}
+            {message && !isSearching && <p className="px-2 py-1.5 text-sm text-muted-foreground">{message}</p>}
+            {options.length > 0 && (
+              <ul id={listboxId} role="listbox" aria-label={`${label} options`} className="max-h-60 overflow-auto">
+                {options.map((result, index) => (
+                  <li
+                    key={result.id}
+                    id={`${listboxId}-${index}`}
+                    role="option"
+                    aria-selected={index === active}
+                    className={cn(
+                      'flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm',
+                      index === active && 'bg-accent text-accent-foreground',
+                    )}
+                    // Keep focus in the input so blur doesn't close the list before the click lands
+                    onMouseDown={(e) => e.preventDefault()}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    onClick={() => handleSelect(result)}
+                  >
+                    {createElement(getEntityIcon(result.entityType as EntityType), {
+                      className: 'h-4 w-4 shrink-0 text-muted-foreground',
+                      'aria-hidden': true,
+                    })}
+                    <span className="truncate">{result.name}</span>
+                    <span className="ml-auto shrink-0 text-xs text-muted-foreground">
+                      {formatEntityType(result.entityType)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
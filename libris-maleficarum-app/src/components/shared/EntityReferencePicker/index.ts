@@ -0,0 +1,7 @@
+/**
+ * EntityReferencePicker component barrel export
+ */
+export { EntityReferencePicker } from './EntityReferencePicker';
+export type { EntityReferencePickerProps } from './EntityReferencePicker';
+export { EntityReferenceList } from './EntityReferenceList';
+export type { EntityReferenceListProps } from './EntityReferenceList';
@@ -0,0 +1,127 @@
+/**
+ * EntityLinkSuggestions Component
+ *
+ * Popup listing entries matching the text typed after `[[` in the Markdown
+ * editor. The editor forwards its arrow, Enter/Tab and Escape keys through the
+ * `ref` handle while the popup is open.
+ *
+ * @module components/shared/MarkdownEditor/EntityLinkSuggestions
+ */
+
+import { createElement, useImperativeHandle, useState, type KeyboardEvent, type Ref } from 'react';
+import { Loader2 } from 'lucide-react';
+import { MIN_QUERY_LENGTH, useEntitySearch } from '@/hooks/useEntitySearch';
+import { getEntityIcon, type EntityType } from '@/lib/entityIcons';
+import { formatEntityType } from '@/lib/entityTypeHelpers';
+import type { SearchResultItem } from '@/services/types';
+import { cn } from '@/lib/utils';
+
+export interface EntityLinkSuggestionsHandle {
+  /**
+   * Handle a key pressed in the textarea
+   *
+   * @returns True if the key was used by the popup
+   */
+  handleKeyDown: (e: KeyboardEvent<HTMLTextAreaElement>) => boolean;
+}
+
+interface EntityLinkSuggestionsProps {
+  /** Text typed after `[[` */
+  query: string;
+
+  /** Called with the chosen entry */
+  onSelect: (result: SearchResultItem) => void;
+
+  /** Called when the popup is dismissed with Escape */
+  onDismiss: () => void;
+
+  /** Keyboard handle for the editor */
+  ref?: Ref<EntityLinkSuggestionsHandle>;
+}
+
+/**
+ * Entity link suggestions component
+ *
+ * @param props - Component props
+ * @returns Suggestion popup
+ */
+export function EntityLinkSuggestions({ query, onSelect, onDismiss, ref }: EntityLinkSuggestionsProps) {
+  const { results, isSearching, isEmptyQuery } = useEntitySearch(query);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const active = Math.min(activeIndex, Math.max(results.length - 1, 0));
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      handleKeyDown: (e) => {
+        if (e.key === 'Escape') {
+          onDismiss();
+          return true;
+        }
+        if (results.length === 0) return false;
+
+        if (e.key === 'ArrowDown') {
+          setActiveIndex((active + 1) % results.length);
+          return true;
+        }
+        if (e.key === 'ArrowUp') {
+          setActiveIndex((active - 1 + results.length) % results.length);
+          return true;
+        }
+        if (e.key === 'Enter' || e.key === 'Tab') {
+          onSelect(results[active]);
+          return true;
+        }
+        return false;
+      },
+    }),
+    [results, active, onSelect, onDismiss],
+  );
+
+  let message: string | null = null;
+  if (isEmptyQuery && query.trim().length < MIN_QUERY_LENGTH) {
+    message = `Type ${MIN_QUERY_LENGTH} or more letters to find an entry to link`;
+  } else if (!isEmptyQuery && !isSearching && results.length === 0) {
+    message = 'No entries found';
+  }
+
+  return (
+    <div className="absolute left-2 right-2 top-full z-50 mt-1 rounded-md border bg-popover p-1 text-popover-foreground shadow-md">
+      {isSearching && results.length === 0 && (
+        <p className="flex items-center gap-2 px-2 py-1.5 text-sm text-muted-foreground" role="status">
+          <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+          Searching the codex...
+        </p>
+      )}
+      {message && <p className="px-2 py-1.5 text-sm text-muted-foreground">{message}</p>}
+      {results.length > 0 && (
+        <ul role="listbox" aria-label="Entries to link" className="max-h-60 overflow-auto">
+          {results.map((result, index) => (
+            <li
+              key={result.id}
+              role="option"
+              aria-selected={index === active}
+              className={cn(
+                'flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm',
+                index === active && 'bg-accent text-accent-foreground',
+              )}
+              // Keep focus (and the caret) in the textarea
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => onSelect(result)}
+            >
+              {createElement(getEntityIcon(result.entityType as EntityType), {
+                className: 'h-4 w-4 shrink-0 text-muted-foreground',
+                'aria-hidden': true,
+              })}
+              <span className="truncate">{result.name}</span>
+              <span className="ml-auto shrink-0 text-xs text-muted-foreground">
+                {formatEntityType(result.entityType)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
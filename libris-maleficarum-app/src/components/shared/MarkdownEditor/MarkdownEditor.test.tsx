@@ -0,0 +1,171 @@
+/**
+ * Tests for MarkdownEditor component
+ *
+ * @module components/shared/MarkdownEditor/MarkdownEditor.test
+ */
+
+import { useState } from 'react';
+import { describe, it, expect, vi, beforeAll, afterEach, afterAll } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { axe, toHaveNoViolations } from 'jest-axe';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse } from 'msw';
+import { MarkdownEditor, type MarkdownEditorProps } from './MarkdownEditor';
+import { api } from '@/services/api';
+import worldSidebarReducer from '@/store/worldSidebarSlice';
+
+expect.extend(toHaveNoViolations);
+
+function ControlledEditor({ initialValue = '', ...props }: Partial<MarkdownEditorProps> & { initialValue?: string }) {
+  const [value, setValue] = useState(initialValue);
+  return (
+    <>
+      <label htmlFor="lore">Lore</label>
+      <MarkdownEditor id="lore" value={value} onChange={setValue} {...props} />
+    </>
+  );
+}
+
+describe('MarkdownEditor', () => {
+  it('passes the id and typed text through the textarea', async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<MarkdownEditor id="lore" aria-label="Lore" value="" onChange={onChange} />);
+
+    await user.type(screen.getByRole('textbox', { name: 'Lore' }), 'a');
+
+    expect(screen.getByRole('textbox', { name: 'Lore' })).toHaveAttribute('id', 'lore');
+    expect(onChange).toHaveBeenCalledWith('a');
+  });
+
+  it('applies toolbar formatting to the selected text', async () => {
+    const user = userEvent.setup();
+    render(<ControlledEditor initialValue="a dragon" />);
+
+    const textarea = screen.getByLabelText('Lore') as HTMLTextAreaElement;
+    textarea.setSelectionRange(2, 8);
+    await user.click(screen.getByRole('button', { name: 'Bold' }));
+
+    expect(textarea).toHaveValue('a **dragon**');
+    expect(textarea.value.slice(textarea.selectionStart, textarea.selectionEnd)).toBe('dragon');
+  });
+
+  it('applies italic with Ctrl+I', async () => {
+    const user = userEvent.setup();
+    render(<ControlledEditor />);
+
+    await user.click(screen.getByLabelText('Lore'));
+    await user.keyboard('{Control>}i{/Control}');
+
+    expect(screen.getByLabelText('Lore')).toHaveValue('*italic text*');
+  });
+
+  it('does not format past the maximum length', async () => {
+    const user = userEvent.setup();
+    render(<ControlledEditor initialValue="dragon" maxLength={8} />);
+
+    const textarea = screen.getByLabelText('Lore') as HTMLTextAreaElement;
+    textarea.setSelectionRange(0, 6);
+    await user.click(screen.getByRole('button', { name: 'Bold' }));
+
+    expect(textarea).toHaveValue('dragon');
+  });
+
+  it('switches between write, split and preview modes', async () => {
+    const user = userEvent.setup();
+    render(<ControlledEditor initialValue="# Realm" />);
+
+    expect(screen.queryByRole('region', { name: 'Preview' })).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Split' }));
+    expect(screen.getByLabelText('Lore')).toBeInTheDocument();
+    expect(screen.getByRole('heading', { level: 1, name: 'Realm' })).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Preview' }));
+    expect(screen.queryByLabelText('Lore')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Preview' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('button', { name: 'Bold' })).toBeDisabled();
+  });
+
+  it('has no accessibility violations', async () => {
+    const { container } = render(<ControlledEditor initialValue="Some *lore*" defaultMode="split" />);
+
+    expect(await axe(container)).toHaveNoViolations();
+  });
+});
+
+describe('MarkdownEditor - entity links', () => {
+  const server = setupServer(
+    http.get('http://localhost:5000/api/v1/worlds/link-world/search', ({ request }) => {
+      const query = new URL(request.url).searchParams.get('q') ?? '';
+      const entries = [
+        { id: 'elara', name: 'Queen Elara', entityType: 'Character' },
+        { id: 'eldoria', name: 'Eldoria', entityType: 'Country' },
+      ].filter(({ name }) => name.toLowerCase().includes(query.toLowerCase()));
+
+      return HttpResponse.json({
+        data: entries.map((entry) => ({
+          ...entry,
+          relevanceScore: 1,
+          worldId: 'link-world',
+          parentId: null,
+          tags: [],
+          ownerId: 'test-user',
+          createdAt: '2026-01-01T00:00:00Z',
+          updatedAt: '2026-01-01T00:00:00Z',
+        })),
+        meta: { totalCount: entries.length, offset: 0, limit: 8 },
+      });
+    }),
+  );
+
+  beforeAll(() => server.listen({ onUnhandledRequest: 'warn' }));
+  afterEach(() => server.resetHandlers());
+  afterAll(() => server.close());
+
+  function renderWithStore(initialValue = '') {
+    const store = configureStore({
+      reducer: {
+        worldSidebar: worldSidebarReducer,
+        [api.reducerPath]: api.reducer,
+      },
+      middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(api.middleware),
+    });
+    store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'link-world' });
+
+    render(
+      <Provider store={store}>
+        <ControlledEditor initialValue={initialValue} />
+      </Provider>,
+    );
+  }
+
+  it('offers matching entries after [[ and inserts a link by ID', async () => {
+    const user = userEvent.setup();
+    renderWithStore();
+
+    await user.type(screen.getByLabelText('Lore'), 'Ruled by [[[[El');
+    expect(await screen.findByRole('option', { name: /eldoria/i })).toBeInTheDocument();
+
+    await user.keyboard('{ArrowDown}{Enter}');
+
+    expect(screen.getByLabelText('Lore')).toHaveValue('Ruled by [[entity:eldoria|Eldoria]]');
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  });
+
+  it('closes the suggestions with Escape', async () => {
+    const user = userEvent.setup();
+    renderWithStore();
+
+    await user.type(screen.getByLabelText('Lore'), '[[[[Que');
+    expect(await screen.findByRole('option', { name: /queen elara/i })).toBeInTheDocument();
+
+    await user.keyboard('{Escape}');
+
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    expect(screen.getByLabelText('Lore')).toHaveValue('[[Que');
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * MarkdownEditor Component
+ *
+ * Textarea for Markdown lore with a formatting toolbar and a choice of
+ * Write, Split (text and preview side by side) and Preview modes.
+ * Ctrl/Cmd+B and Ctrl/Cmd+I apply bold and italic while typing. Typing `[[`
+ * offers entries of the selected world to link (stored as
+ * `[[entity:<id>|Name]]`, see `lib/entityLinks`).
+ *
+ * @module components/shared/MarkdownEditor
+ */
+
+import { useLayoutEffect, useRef, useState, type ComponentProps, type KeyboardEvent } from 'react';
+import {
+  Bold,
+  Code,
+  Columns2,
+  Eye,
+  Heading,
+  Italic,
+  Link,
+  List,
+  ListOrdered,
+  Pencil,
+  Quote,
+  Strikethrough,
+  Table,
+  type LucideIcon,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { MarkdownRenderer } from '@/components/shared/MarkdownRenderer';
+import { applyMarkdownFormat, type MarkdownEdit, type MarkdownFormat } from '@/lib/markdown';
+import { findEntityLinkQuery, formatEntityLink, type EntityLinkQuery } from '@/lib/entityLinks';
+import type { SearchResultItem } from '@/services/types';
+import { EntityLinkSuggestions, type EntityLinkSuggestionsHandle } from './EntityLinkSuggestions';
+import { cn } from '@/lib/utils';
+
+export type MarkdownEditorMode = 'write' | 'split' | 'preview';
+
+export interface MarkdownEditorProps
+  extends Omit<ComponentProps<'textarea'>, 'value' | 'onChange' | 'defaultValue'> {
+  /** Markdown text */
+  value: string;
+
+  /** Called with the new text */
+  onChange: (value: string) => void;
+
+  /** Mode shown first (defaults to write) */
+  defaultMode?: MarkdownEditorMode;
+}
+
+const TOOLBAR_ACTIONS: { format: MarkdownFormat; label: string; icon: LucideIcon; shortcut?: string }[] = [
+  { format: 'heading', label: 'Heading', icon: Heading },
+  { format: 'bold', label: 'Bold', icon: Bold, shortcut: 'b' },
+  { format: 'italic', label: 'Italic', icon: Italic, shortcut: 'i' },
+  { format: 'strikethrough', label: 'Strikethrough', icon: Strikethrough },
+  { format: 'code', label: 'Inline code', icon: Code },
+  { format: 'link', label: 'Link', icon: Link },
+  { format: 'bulletList', label: 'Bulleted list', icon: List },
+  { format: 'numberedList', label: 'Numbered list', icon: ListOrdered },
+  { format: 'quote', label: 'Quote', icon: Quote },
+  { format: 'table', label: 'Table', icon: Table },
+];
+
+const MODES: { mode: MarkdownEditorMode; label: string; icon: LucideIcon }[] = [
+  { mode: 'write', label: 'Write', icon: Pencil },
+  { mode: 'split', label: 'Split', icon: Columns2 },
+  { mode: 'preview', label: 'Preview', icon: Eye },
+];
+
+/**
+ * Markdown editor component
+ *
+ * Remaining props (id, aria attributes, maxLength, ...) are passed to the textarea.
+ *
+ * @param props - Component props
+ * @returns Toolbar, textarea and/or preview
+ */
+export function MarkdownEditor({
+  value,
+  onChange,
+  defaultMode = 'write',
+  disabled,
+  maxLength,
+  className,
+  onKeyDown,
+  onBlur,
+  ...textareaProps
+}: MarkdownEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const suggestionsRef = useRef<EntityLinkSuggestionsHandle>(null);
+  const pendingSelection = useRef<MarkdownEdit | null>(null);
+  const [mode, setMode] = useState<MarkdownEditorMode>(defaultMode);
+  const [linkQuery, setLinkQuery] = useState<EntityLinkQuery | null>(null);
+  const [dismissedLinkStart, setDismissedLinkStart] = useState<number | null>(null);
+
+  // Offer entries while the caret is inside a `[[` that is being typed
+  const updateLinkQuery = (textarea: HTMLTextAreaElement) => {
+    const query =
+      textarea.selectionStart === textarea.selectionEnd
+        ? findEntityLinkQuery(textarea.value, textarea.selectionStart)
+        : null;
+    setLinkQuery(query && query.start !== dismissedLinkStart ? query : null);
+  };
+
+  // Restore the selection once a formatted value has been rendered
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    const selection = pendingSelection.current;
+    if (!textarea || !selection || textarea.value !== selection.value) return;
+
+    pendingSelection.current = null;
+    textarea.focus();
+    textarea.setSelectionRange(selection.selectionStart, selection.selectionEnd);
+  }, [value]);
+
+  const applyFormat = (format: MarkdownFormat) => {
+    const textarea = textareaRef.current;
+    if (!textarea || disabled) return;
+
+    const edit = applyMarkdownFormat(value, textarea.selectionStart, textarea.selectionEnd, format);
+    if (maxLength !== undefined && edit.value.length > maxLength) return;
+
+    pendingSelection.current = edit;
+    onChange(edit.value);
+  };
+
+  const handleSelectLink = (result: SearchResultItem) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !linkQuery) return;
+
+    const link = formatEntityLink(result.id, result.name);
+    const after = value.slice(textarea.selectionStart);
+    // Replace an already typed closing `]]`
+    const rest = after.startsWith(']]') ? after.slice(2) : after;
+    const updated = value.slice(0, linkQuery.start) + link + rest;
+    setLinkQuery(null);
+    if (maxLength !== undefined && updated.length > maxLength) return;
+
+    const caret = linkQuery.start + link.length;
+    pendingSelection.current = { value: updated, selectionStart: caret, selectionEnd: caret };
+    onChange(updated);
+  };
+
+  const handleDismissLink = () => {
+    setDismissedLinkStart(linkQuery?.start ?? null);
+    setLinkQuery(null);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (linkQuery && suggestionsRef.current?.handleKeyDown(e)) {
+      e.preventDefault();
+      return;
+    }
+
+    onKeyDown?.(e);
+    if (e.defaultPrevented || !(e.ctrlKey || e.metaKey) || e.shiftKey || e.altKey) return;
+
+    const action = TOOLBAR_ACTIONS.find(({ shortcut }) => shortcut === e.key.toLowerCase());
+    if (action) {
+      e.preventDefault();
+      applyFormat(action.format);
+    }
+  };
+
+  const showTextarea = mode !== 'preview';
+  const showPreview = mode !== 'write';
+
+  return (
+    <div
+      className={cn(
+        'rounded-md border border-input transition-[color,box-shadow] focus-within:border-ring focus-within:ring-[3px] focus-within:ring-ring/50 has-[textarea[aria-invalid=true]]:border-destructive',
+        className,
+      )}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b border-input p-1">
+        <div role="toolbar" aria-label="Formatting" className="flex flex-wrap items-center gap-0.5">
+          {TOOLBAR_ACTIONS.map(({ format, label, icon: Icon, shortcut }) => (
+            <Button
+              key={format}
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              // Keep the textarea's selection when the toolbar is clicked
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => applyFormat(format)}
+              disabled={disabled || !showTextarea}
+              aria-label={label}
+              title={shortcut ? `${label} (Ctrl+${shortcut.toUpperCase()})` : label}
+            >
+              <Icon className="h-4 w-4" aria-hidden="true" />
+            </Button>
+          ))}
+        </div>
+
+        <div role="group" aria-label="Editor mode" className="flex items-center gap-0.5">
+          {MODES.map(({ mode: option, label, icon: Icon }) => (
+            <Button
+              key={option}
+              type="button"
+              variant={mode === option ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-7 gap-1 px-2 text-xs"
+              onClick={() => setMode(option)}
+              aria-pressed={mode === option}
+            >
+              <Icon className="h-3.5 w-3.5" aria-hidden="true" />
+              {label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className={cn('grid', mode === 'split' && 'md:grid-cols-2')}>
+        {showTextarea && (
+          <div className="relative">
+            <Textarea
+              ref={textareaRef}
+              value={value}
+              onChange={(e) => {
+                onChange(e.target.value);
+                updateLinkQuery(e.target);
+              }}
+              onSelect={(e) => updateLinkQuery(e.currentTarget)}
+              onKeyDown={handleKeyDown}
+              onBlur={(e) => {
+                setLinkQuery(null);
+                onBlur?.(e);
+              }}
+              disabled={disabled}
+              maxLength={maxLength}
+              className="min-h-32 rounded-none border-0 font-mono shadow-none focus-visible:ring-0"
+              {...textareaProps}
+            />
+            {linkQuery && !disabled && (
+              <EntityLinkSuggestions
+                ref={suggestionsRef}
+                query={linkQuery.query}
+                onSelect={handleSelectLink}
+                onDismiss={handleDismissLink}
+              />
+            )}
+          </div>
+        )}
+        {showPreview && (
+          <div
+            className={cn('min-h-32 overflow-auto p-3 text-sm', mode === 'split' && 'border-t border-input md:border-t-0 md:border-l')}
+            aria-label="Preview"
+            role="region"
+          >
+            {value.trim() ? (
+              <MarkdownRenderer content={value} interactiveEntityLinks={false} />
+            ) : (
+              <p className="text-muted-foreground italic">Nothing to preview yet.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+/**
+ * MarkdownEditor component barrel export
+ */
+export { MarkdownEditor } from './MarkdownEditor';
+export type { MarkdownEditorProps, MarkdownEditorMode } from './MarkdownEditor';
@@ -0,0 +1,64 @@
+/**
+ * Tests for MarkdownRenderer component
+ *
+ * @module components/shared/MarkdownRenderer/MarkdownRenderer.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { axe, toHaveNoViolations } from 'jest-axe';
+import { MarkdownRenderer } from './MarkdownRenderer';
+
+expect.extend(toHaveNoViolations);
+
+const LORE = [
+  '## Houses of the Vale',
+  '',
+  'The **Arryns** rule from the *Eyrie*.',
+  '',
+  '- Runestone',
+  '- Gulltown',
+  '',
+  '| House | Seat |',
+  '| --- | --- |',
+  '| Arryn | Eyrie |',
+].join('\n');
+
+describe('MarkdownRenderer', () => {
+  it('renders headings, emphasis, lists and tables', () => {
+    render(<MarkdownRenderer content={LORE} />);
+
+    expect(screen.getByRole('heading', { level: 2, name: 'Houses of the Vale' })).toBeInTheDocument();
+    expect(screen.getByText('Arryns').tagName).toBe('STRONG');
+    expect(screen.getByText('Eyrie', { selector: 'em' })).toBeInTheDocument();
+    expect(screen.getAllByRole('listitem').map((item) => item.textContent)).toEqual(['Runestone', 'Gulltown']);
+    expect(screen.getByRole('columnheader', { name: 'Seat' })).toBeInTheDocument();
+    expect(screen.getByRole('cell', { name: 'Arryn' })).toBeInTheDocument();
+  });
+
+  it('shows raw HTML as text instead of rendering it', () => {
+    const { container } = render(
+      <MarkdownRenderer content={'<img src=x onerror="alert(1)"><script>alert(1)</script>'} />,
+    );
+
+    expect(container.querySelector('img')).toBeNull();
+    expect(container.querySelector('script')).toBeNull();
+    expect(screen.getByText(/<script>alert\(1\)<\/script>/)).toBeInTheDocument();
+  });
+
+  it('opens external links in a new tab and drops unsafe ones', () => {
+    render(<MarkdownRenderer content="[Atlas](https://example.com/atlas) and [trap](javascript:void)" />);
+
+    const link = screen.getByRole('link', { name: 'Atlas' });
+    expect(link).toHaveAttribute('href', 'https://example.com/atlas');
+    expect(link).toHaveAttribute('target', '_blank');
+    expect(link).toHaveAttribute('rel', 'noopener noreferrer');
+    expect(screen.queryByRole('link', { name: 'trap' })).not.toBeInTheDocument();
+  });
+
+  it('has no accessibility violations', async () => {
+    const { container } = render(<MarkdownRenderer content={LORE} />);
+
+    expect(await axe(container)).toHaveNoViolations();
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * MarkdownRenderer Component
+ *
+ * Renders Markdown lore (descriptions and textarea properties) as formatted
+ * text. The Markdown is parsed by `lib/markdown` and turned into React
+ * elements, so raw HTML in the text is displayed literally and never injected.
+ * Wiki links to other entries are shown as chips.
+ *
+ * @module components/shared/MarkdownRenderer
+ */
+
+import { Fragment, useMemo, type ReactNode } from 'react';
+import { cn } from '@/lib/utils';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '@/lib/markdown';
+import { EntityLinkChip } from '@/components/shared/EntityLinkChip';
+
+export interface MarkdownRendererProps {
+  /** Markdown text to render */
+  content: string;
+
+  /** Additional classes for the wrapper */
+  className?: string;
+
+  /** Whether entity link chips select their entry when clicked (defaults to true) */
+  interactiveEntityLinks?: boolean;
+}
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: 'text-2xl font-bold',
+  2: 'text-xl font-semibold',
+  3: 'text-lg font-semibold',
+  4: 'text-base font-semibold',
+  5: 'text-sm font-semibold',
+  6: 'text-sm font-semibold text-muted-foreground',
+};
+
+interface RenderOptions {
+  interactiveEntityLinks: boolean;
+}
+
+function renderInline(nodes: MarkdownInline[], options: RenderOptions): ReactNode {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={index}>{node.text}</Fragment>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children, options)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children, options)}</em>;
+      case 'strikethrough':
+        return <del key={index}>{renderInline(node.children, options)}</del>;
+      case 'code':
+        return (
+          <code key={index} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.9em]">
+            {node.text}
+          </code>
+        );
+      case 'entityLink':
+        return (
+          <EntityLinkChip
+            key={index}
+            entityId={node.entityId}
+            label={node.label}
+            interactive={options.interactiveEntityLinks}
+          />
+        );
+      case 'link': {
+        const external = !node.href.startsWith('/') && !node.href.startsWith('#');
+        return (
+          <a
+            key={index}
+            href={node.href}
+            className="text-primary underline underline-offset-2 hover:no-underline"
+            {...(external ? { target: '_blank', rel: 'noopener noreferrer' } : {})}
+          >
+            {renderInline(node.children, options)}
+          </a>
+        );
+      }
+    }
+  });
+}
+
+function renderBlock(block: MarkdownBlock, index: number, options: RenderOptions): ReactNode {
+  switch (block.type) {
+    case 'heading': {
+      const Heading = `h${block.level}` as const;
+      return (
+        <Heading key={index} className={HEADING_CLASSES[block.level]}>
+          {renderInline(block.children, options)}
+        </Heading>
+      );
+    }
+    case 'paragraph':
+      return (
+        <p key={index} className="whitespace-pre-wrap">
+          {renderInline(block.children, options)}
+        </p>
+      );
+    case 'codeBlock':
+      return (
+        <pre key={index} className="overflow-x-auto rounded-md bg-muted p-3 font-mono text-sm">
+          <code data-language={block.language ?? undefined}>{block.text}</code>
+        </pre>
+      );
+    case 'blockquote':
+      return (
+        <blockquote key={index} className="space-y-2 border-l-4 border-border pl-4 text-muted-foreground italic">
+          {block.children.map((child, childIndex) => renderBlock(child, childIndex, options))}
+        </blockquote>
+      );
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List
+          key={index}
+          start={block.ordered && block.start !== 1 ? block.start : undefined}
+          className={cn('space-y-1 pl-6', block.ordered ? 'list-decimal' : 'list-disc')}
+        >
+          {block.items.map((item, itemIndex) => (
+            <li key={itemIndex}>
+              {/* Tight items render their text without a paragraph */}
+              {item.map((child, childIndex) =>
+                child.type === 'paragraph' && childIndex === 0 ? (
+                  <span key={childIndex} className="whitespace-pre-wrap">
+                    {renderInline(child.children, options)}
+                  </span>
+                ) : (
+                  renderBlock(child, childIndex, options)
+                ),
+              )}
+            </li>
+          ))}
+        </List>
+      );
+    }
+    case 'table':
+      return (
+        <div key={index} className="overflow-x-auto">
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr>
+                {block.header.map((cell, column) => (
+                  <th
+                    key={column}
+                    className="border border-border bg-muted px-3 py-1.5 font-semibold"
+                    style={{ textAlign: block.align[column] ?? 'left' }}
+                  >
+                    {renderInline(cell, options)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, column) => (
+                    <td
+                      key={column}
+                      className="border border-border px-3 py-1.5"
+                      style={block.align[column] ? { textAlign: block.align[column] } : undefined}
+                    >
+                      {renderInline(cell, options)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'thematicBreak':
+      return <hr key={index} className="border-border" />;
+  }
+}
+
+/**
+ * Markdown renderer component
+ *
+ * @param props - Component props
+ * @returns Formatted Markdown content
+ */
+export function MarkdownRenderer({ content, className, interactiveEntityLinks = true }: MarkdownRendererProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  const options: RenderOptions = { interactiveEntityLinks };
+
+  return (
+    <div className={cn('space-y-3 break-words', className)} data-testid="markdown-content">
+      {blocks.map((block, index) => renderBlock(block, index, options))}
+    </div>
+  );
+}
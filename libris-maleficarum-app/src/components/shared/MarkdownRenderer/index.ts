@@ -0,0 +1,5 @@
+/**
+ * MarkdownRenderer component barrel export
+ */
+export { MarkdownRenderer } from './MarkdownRenderer';
+export type { MarkdownRendererProps } from './MarkdownRenderer';
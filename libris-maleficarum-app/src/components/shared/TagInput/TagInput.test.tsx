@@ -294,6 +294,93 @@ describe('TagInput', () => {
     });
   });
 
+  describe('autocomplete', () => {
+    const suggestions = [
+      { value: 'npc', count: 3 },
+      { value: 'wizard', count: 2 },
+      { value: 'capital', count: 1 },
+    ];
+
+    it('shows matching suggestions with usage counts', async () => {
+      const user = userEvent.setup();
+      render(
+        <TagInput label="Tags" value={[]} onChange={vi.fn()} suggestions={suggestions} />
+      );
+
+      await user.type(screen.getByRole('combobox', { name: 'Tags input' }), 'a');
+
+      const options = screen.getAllByRole('option');
+      expect(options).toHaveLength(2);
+      expect(options[0]).toHaveAccessibleName('wizard, used 2 times');
+      expect(options[1]).toHaveAccessibleName('capital, used 1 time');
+    });
+
+    it('does not suggest tags that are already added', async () => {
+      const user = userEvent.setup();
+      render(
+        <TagInput label="Tags" value={['npc']} onChange={vi.fn()} suggestions={suggestions} />
+      );
+
+      await user.type(screen.getByRole('combobox', { name: 'Tags input' }), 'n');
+
+      expect(screen.queryByRole('option', { name: /^npc/ })).not.toBeInTheDocument();
+    });
+
+    it('adds the highlighted suggestion with arrow keys and Enter', async () => {
+      const user = userEvent.setup();
+      const onChange = vi.fn();
+      render(
+        <TagInput label="Tags" value={[]} onChange={onChange} suggestions={suggestions} />
+      );
+
+      await user.type(screen.getByRole('combobox', { name: 'Tags input' }), 'wiz');
+      await user.keyboard('{ArrowDown}{Enter}');
+
+      expect(onChange).toHaveBeenCalledWith(['wizard']);
+    });
+
+    it('adds a suggestion on click', async () => {
+      const user = userEvent.setup();
+      const onChange = vi.fn();
+      render(
+        <TagInput label="Tags" value={['npc']} onChange={onChange} suggestions={suggestions} />
+      );
+
+      await user.type(screen.getByRole('combobox', { name: 'Tags input' }), 'cap');
+      await user.click(screen.getByRole('option', { name: /capital/ }));
+
+      expect(onChange).toHaveBeenCalledWith(['npc', 'capital']);
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    });
+
+    it('closes suggestions on Escape and keeps typed text on Enter', async () => {
+      const user = userEvent.setup();
+      const onChange = vi.fn();
+      render(
+        <TagInput label="Tags" value={[]} onChange={onChange} suggestions={suggestions} />
+      );
+
+      await user.type(screen.getByRole('combobox', { name: 'Tags input' }), 'np');
+      await user.keyboard('{Escape}');
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+
+      await user.keyboard('{Enter}');
+      expect(onChange).toHaveBeenCalledWith(['np']);
+    });
+
+    it('has no accessibility violations with suggestions open', async () => {
+      const user = userEvent.setup();
+      const { container } = render(
+        <TagInput label="Tags" value={[]} onChange={vi.fn()} suggestions={suggestions} />
+      );
+
+      await user.type(screen.getByRole('combobox', { name: 'Tags input' }), 'a');
+
+      const results = await axe(container);
+      expect(results).toHaveNoViolations();
+    });
+  });
+
   describe('accessibility', () => {
     it('has no accessibility violations with empty tags', async () => {
       const { container } = render(
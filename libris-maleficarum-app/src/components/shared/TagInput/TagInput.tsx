@@ -8,6 +8,7 @@
  * - Keyboard handling (Enter to add, X button to remove)
  * - Duplicate prevention
  * - Max length validation
+ * - Optional autocomplete from known tags (with usage counts)
  * - Accessible with ARIA labels
  *
  * @module components/shared/TagInput
@@ -19,6 +20,22 @@ import { cn } from '@/lib/utils';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 
+/**
+ * Known tag offered as an autocomplete suggestion
+ *
+ * @public
+ */
+export interface TagSuggestion {
+  /** Tag text inserted when the suggestion is chosen */
+  value: string;
+
+  /** Optional usage count displayed next to the suggestion */
+  count?: number;
+}
+
+/** Maximum number of suggestions shown at once */
+const MAX_VISIBLE_SUGGESTIONS = 8;
+
 /**
  * Props for the TagInput component
  *
@@ -89,6 +106,14 @@ export interface TagInputProps {
    */
   description?: string;
 
+  /**
+   * Known tags offered as autocomplete suggestions while typing
+   * Tags already present in `value` are not suggested
+   * @optional
+   * @example [{ value: "npc", count: 12 }, { value: "wizard", count: 3 }]
+   */
+  suggestions?: TagSuggestion[];
+
   /**
    * Additional CSS class names to apply to the root element
    * @optional
@@ -103,6 +128,7 @@ export interface TagInputProps {
  * - **Add tags**: Type text and press Enter to add
  * - **Remove tags**: Click X button or use dismiss interaction
  * - **Validation**: Prevents duplicates and enforces max length
+ * - **Autocomplete**: Arrow keys and Enter pick from `suggestions`
  * - **Accessibility**: Full keyboard support and ARIA labels
  *
  * @example
@@ -134,35 +160,87 @@ export function TagInput({
   error,
   maxLength = 50,
   description,
+  suggestions,
   className,
 }: TagInputProps) {
   const [inputValue, setInputValue] = React.useState('');
   const [localError, setLocalError] = React.useState<string>();
   const [highlightedTag, setHighlightedTag] = React.useState<string | null>(null);
+  const [isSuggestionsOpen, setIsSuggestionsOpen] = React.useState(false);
+  const [activeSuggestionIndex, setActiveSuggestionIndex] = React.useState(-1);
+
+  const hasAutocomplete = suggestions !== undefined;
+  const suggestionsId = `tag-input-suggestions-${label}`;
+
+  // Prefix matches first, otherwise keep the caller's ordering (e.g. by usage)
+  const matchingSuggestions = React.useMemo(() => {
+    const query = inputValue.trim().toLowerCase();
+    if (!suggestions || !query) return [];
+
+    const existing = new Set(value.map((tag) => tag.toLowerCase()));
+    const matches = suggestions.filter(
+      (suggestion) =>
+        suggestion.value.toLowerCase().includes(query) &&
+        !existing.has(suggestion.value.toLowerCase())
+    );
+
+    return [
+      ...matches.filter((s) => s.value.toLowerCase().startsWith(query)),
+      ...matches.filter((s) => !s.value.toLowerCase().startsWith(query)),
+    ].slice(0, MAX_VISIBLE_SUGGESTIONS);
+  }, [inputValue, suggestions, value]);
+
+  const showSuggestions = isSuggestionsOpen && matchingSuggestions.length > 0;
+
+  const addTag = (tag: string) => {
+    const trimmed = tag.trim();
+
+    // Validation
+    if (trimmed.length > maxLength) {
+      setLocalError(`Tag must be ${maxLength} characters or less`);
+      return;
+    }
+
+    if (value.includes(trimmed)) {
+      // T017: Visual feedback for duplicate tag (500ms highlight)
+      setHighlightedTag(trimmed);
+      setTimeout(() => setHighlightedTag(null), 500);
+      setLocalError('Tag already exists');
+      return;
+    }
+
+    // Add tag
+    onChange([...value, trimmed]);
+    setInputValue('');
+    setLocalError(undefined);
+    setIsSuggestionsOpen(false);
+    setActiveSuggestionIndex(-1);
+  };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (showSuggestions && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveSuggestionIndex(
+        (prev) => (prev + step + matchingSuggestions.length) % matchingSuggestions.length
+      );
+      return;
+    }
+
+    if (showSuggestions && e.key === 'Escape') {
+      e.preventDefault();
+      setIsSuggestionsOpen(false);
+      setActiveSuggestionIndex(-1);
+      return;
+    }
+
     if (e.key === 'Enter' && inputValue.trim()) {
       e.preventDefault();
-      const trimmed = inputValue.trim();
-
-      // Validation
-      if (trimmed.length > maxLength) {
-        setLocalError(`Tag must be ${maxLength} characters or less`);
-        return;
-      }
-
-      if (value.includes(trimmed)) {
-        // T017: Visual feedback for duplicate tag (500ms highlight)
-        setHighlightedTag(trimmed);
-        setTimeout(() => setHighlightedTag(null), 500);
-        setLocalError('Tag already exists');
-        return;
-      }
-
-      // Add tag
-      onChange([...value, trimmed]);
-      setInputValue('');
-      setLocalError(undefined);
+      const activeSuggestion = showSuggestions
+        ? matchingSuggestions[activeSuggestionIndex]
+        : undefined;
+
+      addTag(activeSuggestion ? activeSuggestion.value : inputValue);
     }
   };
 
@@ -173,6 +251,8 @@ export function TagInput({
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setInputValue(e.target.value);
     setLocalError(undefined); // Clear error on input change
+    setIsSuggestionsOpen(true);
+    setActiveSuggestionIndex(-1);
   };
 
   const displayError = error || localError;
@@ -226,20 +306,72 @@ export function TagInput({
       )}
 
       {/* Input field */}
-      <Input
-        id={`tag-input-${label}`}
-        type="text"
-        value={inputValue}
-        onChange={handleInputChange}
-        onKeyDown={handleKeyDown}
-        placeholder={placeholder}
-        disabled={disabled}
-        aria-invalid={!!displayError}
-        aria-describedby={
-          displayError ? `tag-input-error-${label}` : undefined
-        }
-        aria-label={`${label} input`}
-      />
+      <div className="relative">
+        <Input
+          id={`tag-input-${label}`}
+          type="text"
+          value={inputValue}
+          onChange={handleInputChange}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setIsSuggestionsOpen(false)}
+          placeholder={placeholder}
+          disabled={disabled}
+          aria-invalid={!!displayError}
+          aria-describedby={
+            displayError ? `tag-input-error-${label}` : undefined
+          }
+          aria-label={`${label} input`}
+          {...(hasAutocomplete && {
+            role: 'combobox',
+            autoComplete: 'off',
+            'aria-autocomplete': 'list' as const,
+            'aria-expanded': showSuggestions,
+            'aria-controls': showSuggestions ? suggestionsId : undefined,
+            'aria-activedescendant':
+              showSuggestions && activeSuggestionIndex >= 0
+                ? `${suggestionsId}-${activeSuggestionIndex}`
+                : undefined,
+          })}
+        />
+
+        {/* Autocomplete suggestions */}
+        {showSuggestions && (
+          <ul
+            id={suggestionsId}
+            role="listbox"
+            aria-label={`${label} suggestions`}
+            className="absolute z-50 mt-1 max-h-60 w-full overflow-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          >
+            {matchingSuggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.value}
+                id={`${suggestionsId}-${index}`}
+                role="option"
+                aria-selected={index === activeSuggestionIndex}
+                // Keep focus in the input so blur doesn't close the list before the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(suggestion.value)}
+                className={cn(
+                  'flex cursor-pointer items-center justify-between gap-2 rounded-sm px-2 py-1.5 text-sm',
+                  index === activeSuggestionIndex
+                    ? 'bg-accent text-accent-foreground'
+                    : 'hover:bg-accent/50'
+                )}
+              >
+                <span>{suggestion.value}</span>
+                {suggestion.count !== undefined && (
+                  <span className="text-xs text-muted-foreground">
+                    <span aria-hidden="true">{suggestion.count}</span>
+                    <span className="sr-only">
+                      , used {suggestion.count} {suggestion.count === 1 ? 'time' : 'times'}
+                    </span>
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
 
       {/* Error message */}
       {displayError && (
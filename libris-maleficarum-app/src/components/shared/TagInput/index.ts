@@ -2,4 +2,4 @@
  * TagInput component barrel export
  */
 export { TagInput } from './TagInput';
-export type { TagInputProps } from './TagInput';
+export type { TagInputProps, TagSuggestion } from './TagInput';
@@ -32,9 +32,10 @@ export interface UnsavedChangesDialogProps {
   /**
    * Callback when "Save" button is clicked
    * Should return a Promise that resolves when save completes
-   * or rejects if save fails
+   * or rejects if save fails.
+   * When omitted (e.g. browser back/forward navigation), the Save button is hidden.
    */
-  onSave: () => Promise<void>;
+  onSave?: () => Promise<void>;
 
   /**
    * Callback when "Don't Save" button is clicked
@@ -69,6 +70,7 @@ export function UnsavedChangesDialog({
   const effectiveSaving = isSaving || isInternalSaving;
 
   const handleSave = async () => {
+    if (!onSave) return;
     setIsInternalSaving(true);
     try {
       await onSave();
@@ -120,22 +122,24 @@ export function UnsavedChangesDialog({
           >
             Don't Save
           </Button>
-          <Button
-            type="button"
-            variant="default"
-            onClick={handleSave}
-            disabled={effectiveSaving}
-            autoFocus
-          >
-            {effectiveSaving ? (
-              <>
-                <Loader2 className="animate-spin" aria-hidden="true" />
-                Saving...
-              </>
-            ) : (
-              'Save'
-            )}
-          </Button>
+          {onSave && (
+            <Button
+              type="button"
+              variant="default"
+              onClick={handleSave}
+              disabled={effectiveSaving}
+              autoFocus
+            >
+              {effectiveSaving ? (
+                <>
+                  <Loader2 className="animate-spin" aria-hidden="true" />
+                  Saving...
+                </>
+              ) : (
+                'Save'
+              )}
+            </Button>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,332 @@
+/**
+ * useBulkEntityActions Hook
+ *
+ * Applies an action to every entity in the tree multi-selection: move, delete,
+ * add/remove tags and change entity type; and upgrades entities to the current
+ * schema version of their type. Entities whose ancestor is also
+ * selected are skipped for move and delete, since they travel with the ancestor.
+ * Each entity is processed independently, so one failure does not stop the rest;
+ * the result lists what succeeded and why the others failed. What succeeded is
+ * recorded in the undo history as one change. Tag, type and schema changes are
+ * saved as patches, so the entities keep their parent and schema identifier.
+ *
+ * @module hooks/useBulkEntityActions
+ */
+
+import { useCallback, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/store';
+import { expandNode, selectSelectedWorldId } from '@/store/worldSidebarSlice';
+import { addOperationGroup } from '@/store/notificationsSlice';
+import {
+  worldEntityApi,
+  useMoveWorldEntityMutation,
+  usePatchWorldEntityMutation,
+} from '@/services/worldEntityApi';
+import { useInitiateEntityDeleteMutation } from '@/services/asyncOperationsApi';
+import { getEntityTypeConfig } from '@/services/config/entityTypeRegistry';
+import { getProblemDetailsMessage } from '@/services/types/problemDetails.types';
+import {
+  ENTITY_SCHEMA_VERSIONS,
+  type WorldEntity,
+  type WorldEntityType,
+} from '@/services/types/worldEntity.types';
+import { useOptimisticDelete } from './useOptimisticDelete';
+import { useUndoHistory, type UndoToastAction } from './useUndoHistory';
+import {
+  getTopLevelEntities,
+  validateEntityMove,
+  type MoveTargetEntity,
+} from '@/lib/entityHierarchy';
+import { shouldRollbackDelete } from '@/lib/asyncOperationHelpers';
+import { applyTagChange, type TagChange } from '@/lib/tagHelpers';
+import { getEntitySchemaUpgrade, getSchemaUpgradeRequest } from '@/lib/schemaMigrations';
+import {
+  combineChanges,
+  getEntityDeleteChange,
+  getEntityMoveChange,
+  getEntityPatchChange,
+  getPropertyBagRestore,
+  type UndoableChange,
+} from '@/lib/undoHistory';
+import { logger } from '@/lib/logger';
+
+/**
+ * An entity the bulk action could not be applied to
+ */
+export interface BulkActionFailure {
+  /** Entity ID */
+  id: string;
+
+  /** Entity name (or a placeholder if it could not be loaded) */
+  name: string;
+
+  /** Why the action failed for this entity */
+  reason: string;
+}
+
+/**
+ * Outcome of a bulk action
+ */
+export interface BulkActionResult {
+  /** IDs of entities the action was applied to */
+  succeeded: string[];
+
+  /** Entities the action could not be applied to */
+  failed: BulkActionFailure[];
+
+  /** "Undo" action for the toast, when any entity was changed */
+  undo?: UndoToastAction;
+}
+
+export interface UseBulkEntityActionsResult {
+  /** Move the selected entities beneath a new parent (or to the root when target is null) */
+  moveEntities: (entityIds: string[], target: MoveTargetEntity | null) => Promise<BulkActionResult>;
+
+  /** Delete the selected entities (with their descendants) */
+  deleteEntities: (entityIds: string[]) => Promise<BulkActionResult>;
+
+  /** Add and remove tags on the selected entities */
+  updateTags: (entityIds: string[], change: TagChange) => Promise<BulkActionResult>;
+
+  /** Change the entity type of the selected entities */
+  changeEntityType: (entityIds: string[], entityType: WorldEntityType) => Promise<BulkActionResult>;
+
+  /** Upgrade the entities to the current schema version of their type, applying its migrations */
+  upgradeEntitySchemas: (entityIds: string[]) => Promise<BulkActionResult>;
+
+  /** Whether a bulk action is in progress */
+  isProcessing: boolean;
+}
+
+const UNKNOWN_ENTITY_NAME = 'Unknown entry';
+
+export function useBulkEntityActions(): UseBulkEntityActionsResult {
+  const dispatch = useAppDispatch();
+  const worldId = useAppSelector(selectSelectedWorldId);
+  const { onOptimisticDelete, onRollbackDelete } = useOptimisticDelete();
+  const [moveWorldEntity] = useMoveWorldEntityMutation();
+  const [patchWorldEntity] = usePatchWorldEntityMutation();
+  const [initiateEntityDelete] = useInitiateEntityDeleteMutation();
+  const { recordChange } = useUndoHistory();
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  /**
+   * Load the selected entities, recording any that cannot be loaded as failures
+   */
+  const loadEntities = useCallback(
+    async (entityIds: string[], failed: BulkActionFailure[]) => {
+      const entities: WorldEntity[] = [];
+
+      for (const entityId of entityIds) {
+        const request = dispatch(
+          worldEntityApi.endpoints.getWorldEntityById.initiate({ worldId: worldId!, entityId }),
+        );
+        try {
+          entities.push(await request.unwrap());
+        } catch (error) {
+          failed.push({
+            id: entityId,
+            name: UNKNOWN_ENTITY_NAME,
+            reason: getProblemDetailsMessage(error, 'The entry could not be found.'),
+          });
+        } finally {
+          request.unsubscribe();
+        }
+      }
+
+      return entities;
+    },
+    [dispatch, worldId],
+  );
+
+  /**
+   * Load the entities and run an action on each one in turn
+   *
+   * The action returns how to undo its change, or nothing if the entity was left unchanged.
+   */
+  const runForEach = useCallback(
+    async (
+      actionName: string,
+      entityIds: string[],
+      action: (entity: WorldEntity) => Promise<UndoableChange | void>,
+      options: { topLevelOnly?: boolean } = {},
+    ): Promise<BulkActionResult> => {
+      const result: BulkActionResult = { succeeded: [], failed: [] };
+      if (!worldId || entityIds.length === 0) return result;
+
+      logger.userAction(`Bulk ${actionName}`, { count: entityIds.length });
+      setIsProcessing(true);
+
+      try {
+        const loaded = await loadEntities(entityIds, result.failed);
+        const entities = options.topLevelOnly ? getTopLevelEntities(loaded) : loaded;
+
+        const changes: UndoableChange[] = [];
+        for (const entity of entities) {
+          try {
+            const change = await action(entity);
+            if (change) changes.push(change);
+            result.succeeded.push(entity.id);
+          } catch (error) {
+            logger.error('API', `Bulk ${actionName} failed for entity`, { entityId: entity.id, error });
+            result.failed.push({
+              id: entity.id,
+              name: entity.name,
+              // Validation failures are thrown as Error; API failures carry ProblemDetails
+              reason: error instanceof Error
+                ? error.message
+                : getProblemDetailsMessage(error, 'Please try again.'),
+            });
+          }
+        }
+
+        if (changes.length > 0) {
+          const label = `Bulk ${actionName} of ${changes.length} ${changes.length === 1 ? 'entry' : 'entries'}`;
+          result.undo = recordChange(worldId, label, combineChanges(changes));
+        }
+      } finally {
+        setIsProcessing(false);
+      }
+
+      return result;
+    },
+    [worldId, loadEntities, recordChange],
+  );
+
+  const moveEntities = useCallback(
+    async (entityIds: string[], target: MoveTargetEntity | null) => {
+      const result = await runForEach(
+        'move',
+        entityIds,
+        async (entity) => {
+          const validation = validateEntityMove(entity, target);
+          if (!validation.canMove) {
+            throw new Error(validation.reason);
+          }
+
+          await moveWorldEntity({
+            worldId: worldId!,
+            entityId: entity.id,
+            data: { newParentId: target?.id ?? null },
+          }).unwrap();
+          return getEntityMoveChange(entity.id, entity.parentId, target?.id ?? null);
+        },
+        { topLevelOnly: true },
+      );
+
+      if (target && result.succeeded.length > 0) {
+        dispatch(expandNode(target.id));
+      }
+
+      return result;
+    },
+    [runForEach, moveWorldEntity, worldId, dispatch],
+  );
+
+  const deleteEntities = useCallback(
+    async (entityIds: string[]) => {
+      const operationIds: string[] = [];
+
+      const result = await runForEach(
+        'delete',
+        entityIds,
+        async (entity) => {
+          onOptimisticDelete(entity.id);
+
+          try {
+            const operation = await initiateEntityDelete({
+              worldId: worldId!,
+              entityId: entity.id,
+              cascade: true,
+            }).unwrap();
+            operationIds.push(operation.id);
+          } catch (error) {
+            if (shouldRollbackDelete(error)) {
+              onRollbackDelete(entity.id);
+            }
+            throw error;
+          }
+          return getEntityDeleteChange(entity.id);
+        },
+        { topLevelOnly: true },
+      );
+
+      // Show the operations as one notification rather than one per entity
+      if (operationIds.length > 1) {
+        const createdAt = Date.now();
+        dispatch(addOperationGroup({
+          id: `bulk-delete-${createdAt}`,
+          label: `Bulk deletion of ${operationIds.length} entries`,
+          operationIds,
+          createdAt,
+        }));
+      }
+
+      return result;
+    },
+    [runForEach, onOptimisticDelete, onRollbackDelete, initiateEntityDelete, worldId, dispatch],
+  );
+
+  const updateTags = useCallback(
+    (entityIds: string[], change: TagChange) =>
+      runForEach('tag update', entityIds, async (entity) => {
+        const currentTags = entity.tags ?? [];
+        const tags = applyTagChange(currentTags, change);
+        if (tags.length === currentTags.length && tags.every((tag, i) => tag === currentTags[i])) {
+          return;
+        }
+
+        const updated = await patchWorldEntity({
+          worldId: worldId!,
+          entityId: entity.id,
+          data: { tags },
+        }).unwrap();
+        return getEntityPatchChange(entity, updated, ['tags']);
+      }),
+    [runForEach, patchWorldEntity, worldId],
+  );
+
+  const changeEntityType = useCallback(
+    (entityIds: string[], entityType: WorldEntityType) =>
+      runForEach('type change', entityIds, async (entity) => {
+        if (entity.entityType === entityType) return;
+
+        // Keep only the properties the new type's schema knows about
+        const schemaKeys = new Set(getEntityTypeConfig(entityType)?.propertySchema?.map((field) => field.key));
+        const properties = Object.fromEntries(
+          Object.entries(entity.properties ?? {}).filter(([key]) => schemaKeys.has(key)),
+        );
+
+        const updated = await patchWorldEntity({
+          worldId: worldId!,
+          entityId: entity.id,
+          data: {
+            entityType,
+            // Patches merge property bags, so the dropped keys are cleared
+            properties: getPropertyBagRestore(properties, entity.properties),
+            schemaVersion: ENTITY_SCHEMA_VERSIONS[entityType],
+          },
+        }).unwrap();
+        return getEntityPatchChange(entity, updated, ['entityType', 'properties', 'schemaVersion']);
+      }),
+    [runForEach, patchWorldEntity, worldId],
+  );
+
+  const upgradeEntitySchemas = useCallback(
+    (entityIds: string[]) =>
+      runForEach('schema upgrade', entityIds, async (entity) => {
+        const upgrade = getEntitySchemaUpgrade(entity);
+        if (!upgrade) return;
+
+        const updated = await patchWorldEntity({
+          worldId: worldId!,
+          entityId: entity.id,
+          data: getSchemaUpgradeRequest(entity, upgrade),
+        }).unwrap();
+        return getEntityPatchChange(entity, updated, ['properties', 'schemaVersion']);
+      }),
+    [runForEach, patchWorldEntity, worldId],
+  );
+
+  return { moveEntities, deleteEntities, updateTags, changeEntityType, upgradeEntitySchemas, isProcessing };
+}
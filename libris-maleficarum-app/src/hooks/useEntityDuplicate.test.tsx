@@ -0,0 +1,186 @@
+/**
+ * useEntityDuplicate Hook Tests
+ *
+ * Tests for copying an entity or a whole subtree, reporting progress for large
+ * subtrees and removing partial copies when a copy fails.
+ *
+ * @see useEntityDuplicate.ts
+ */
+
+import { act, renderHook } from '@testing-library/react';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import type { ReactNode } from 'react';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+
+import { api } from '@/services/api';
+import worldSidebarReducer from '@/store/worldSidebarSlice';
+import notificationsReducer from '@/store/notificationsSlice';
+import {
+  WorldEntityType,
+  type CreateWorldEntityRequest,
+  type WorldEntity,
+} from '@/services/types/worldEntity.types';
+
+import { DUPLICATE_PROGRESS_THRESHOLD, useEntityDuplicate } from './useEntityDuplicate';
+
+const BASE_URL = 'http://localhost:5000/api/v1/worlds/dup-world';
+
+const createEntity = (id: string, parentId: string | null, overrides: Partial<WorldEntity> = {}): WorldEntity => ({
+  id,
+  worldId: 'dup-world',
+  parentId,
+  entityType: WorldEntityType.Location,
+  name: id,
+  description: `About ${id}`,
+  tags: ['inn'],
+  path: parentId ? [parentId] : [],
+  depth: parentId ? 1 : 0,
+  hasChildren: false,
+  ownerId: 'test-user',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  isDeleted: false,
+  schemaVersion: 1,
+  ...overrides,
+});
+
+/**
+ * Serve a world whose entities are grouped by parent, recording what is created and deleted
+ */
+function serveWorld(childrenByParent: Record<string, WorldEntity[]>, { failOnCreate }: { failOnCreate?: number } = {}) {
+  const created: CreateWorldEntityRequest[] = [];
+  const deleted: string[] = [];
+
+  server.use(
+    http.get(`${BASE_URL}/entities`, ({ request }) => {
+      const parentId = new URL(request.url).searchParams.get('parentId')!;
+      return HttpResponse.json({ data: childrenByParent[parentId] ?? [], meta: { nextCursor: null } });
+    }),
+    http.post(`${BASE_URL}/entities`, async ({ request }) => {
+      const body = (await request.json()) as CreateWorldEntityRequest;
+      if (created.length + 1 === failOnCreate) {
+        return HttpResponse.json({ title: 'The scriptorium is closed' }, { status: 500 });
+      }
+      created.push(body);
+      return HttpResponse.json(
+        { data: createEntity(`copy-${created.length}`, body.parentId, { name: body.name }) },
+        { status: 201 },
+      );
+    }),
+    http.delete(`${BASE_URL}/entities/:entityId`, ({ params }) => {
+      deleted.push(params.entityId as string);
+      return HttpResponse.json({ data: { id: 'op-rollback', status: 'pending' } }, { status: 202 });
+    }),
+  );
+
+  return { created, deleted };
+}
+
+function renderDuplicate() {
+  const store = configureStore({
+    reducer: {
+      worldSidebar: worldSidebarReducer,
+      notifications: notificationsReducer,
+      [api.reducerPath]: api.reducer,
+    },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(api.middleware),
+  });
+  store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'dup-world' });
+
+  const wrapper = ({ children }: { children: ReactNode }) => <Provider store={store}>{children}</Provider>;
+  return { store, ...renderHook(() => useEntityDuplicate(), { wrapper }) };
+}
+
+const server = setupServer();
+
+describe('useEntityDuplicate', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'warn' }));
+  afterEach(() => server.resetHandlers());
+  afterAll(() => server.close());
+
+  it('should copy an entity beside the original', async () => {
+    // Arrange
+    const tavern = createEntity('tavern', 'town', {
+      hasChildren: true,
+      properties: { rooms: 6 },
+      systemProperties: { dc: 12 },
+    });
+    const { created } = serveWorld({});
+    const { result, store } = renderDuplicate();
+
+    // Act
+    let copy: WorldEntity | null = null;
+    await act(async () => {
+      copy = await result.current.duplicateEntity(tavern);
+    });
+
+    // Assert
+    expect(copy).toMatchObject({ id: 'copy-1', name: 'tavern (copy)' });
+    expect(created).toEqual([
+      expect.objectContaining({
+        parentId: 'town',
+        name: 'tavern (copy)',
+        description: 'About tavern',
+        tags: ['inn'],
+        properties: { rooms: 6 },
+        systemProperties: { dc: 12 },
+      }),
+    ]);
+    expect(store.getState().worldSidebar.expandedNodeIds).toEqual(['town']);
+    expect(store.getState().notifications.duplicates).toEqual({});
+  });
+
+  it('should recreate the hierarchy beneath a chosen parent', async () => {
+    // Arrange
+    const tavern = createEntity('tavern', 'town', { hasChildren: true });
+    const { created } = serveWorld({
+      tavern: [createEntity('cellar', 'tavern', { hasChildren: true }), createEntity('stable', 'tavern')],
+      cellar: [createEntity('barrel', 'cellar')],
+    });
+    const { result } = renderDuplicate();
+
+    // Act
+    await act(async () => {
+      await result.current.duplicateEntity(tavern, { includeChildren: true, parentId: 'harbour' });
+    });
+
+    // Assert - parents are created first and children are placed beneath the copies
+    expect(created.map(({ name, parentId }) => [name, parentId])).toEqual([
+      ['tavern (copy)', 'harbour'],
+      ['cellar', 'copy-1'],
+      ['stable', 'copy-1'],
+      ['barrel', 'copy-2'],
+    ]);
+  });
+
+  it('should report progress of a large subtree and delete the partial copy when a copy fails', async () => {
+    // Arrange
+    const keep = createEntity('keep', null, { hasChildren: true });
+    const guards = Array.from({ length: DUPLICATE_PROGRESS_THRESHOLD }, (_, i) => createEntity(`guard-${i}`, 'keep'));
+    const { created, deleted } = serveWorld({ keep: guards }, { failOnCreate: 4 });
+    const { result, store } = renderDuplicate();
+
+    // Act
+    let copy: WorldEntity | null = null;
+    await act(async () => {
+      copy = await result.current.duplicateEntity(keep, { includeChildren: true });
+    });
+
+    // Assert
+    expect(copy).toBeNull();
+    expect(created).toHaveLength(3);
+    expect(deleted).toEqual(['copy-1']);
+    expect(Object.values(store.getState().notifications.duplicates)).toEqual([
+      expect.objectContaining({
+        rootEntityName: 'keep',
+        status: 'failed',
+        totalEntities: DUPLICATE_PROGRESS_THRESHOLD + 1,
+        createdCount: 3,
+        errorDetails: `The copy failed after 3 of ${DUPLICATE_PROGRESS_THRESHOLD + 1} entries. No copies were kept.`,
+      }),
+    ]);
+  });
+});
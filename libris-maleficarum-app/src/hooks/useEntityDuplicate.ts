@@ -0,0 +1,206 @@
+/**
+ * useEntityDuplicate Hook
+ *
+ * Duplicates an entity, optionally with all of its descendants, beneath its own
+ * parent or a chosen one. Copies are recreated parent-first with
+ * `createWorldEntity` and keep the description, tags, properties and system
+ * properties; only the top copy is renamed "… (copy)".
+ *
+ * Copying at least `DUPLICATE_PROGRESS_THRESHOLD` entries reports progress in the
+ * notification center. If any copy cannot be created, the copies made so far are
+ * deleted again (with the top copy, in one cascading delete).
+ *
+ * @module hooks/useEntityDuplicate
+ */
+
+import { useCallback, useState } from 'react';
+import { toast } from 'sonner';
+import { useAppDispatch, useAppSelector } from '@/store/store';
+import { expandNode, selectSelectedWorldId } from '@/store/worldSidebarSlice';
+import { startDuplicateOperation, updateDuplicateOperation } from '@/store/notificationsSlice';
+import { useCreateWorldEntityMutation } from '@/services/worldEntityApi';
+import { useInitiateEntityDeleteMutation } from '@/services/asyncOperationsApi';
+import { getProblemDetailsMessage } from '@/services/types/problemDetails.types';
+import { getValidationConstraints } from '@/services/validators/worldEntityValidator';
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+import { useEntitySubtree } from './useEntitySubtree';
+import { useUndoHistory } from './useUndoHistory';
+import { useOptimisticDeleteOptional } from './useOptimisticDelete';
+import { shouldRollbackDelete } from '@/lib/asyncOperationHelpers';
+import { getEntityCreateChange } from '@/lib/undoHistory';
+import { logger } from '@/lib/logger';
+
+/** Number of entries from which a duplicate reports its progress in the notification center */
+export const DUPLICATE_PROGRESS_THRESHOLD = 10;
+
+const COPY_SUFFIX = ' (copy)';
+
+export interface DuplicateEntityOptions {
+  /** Copy every descendant as well (default: false) */
+  includeChildren?: boolean;
+
+  /** Parent for the copy (null for the root); defaults to the original's parent */
+  parentId?: string | null;
+}
+
+export interface UseEntityDuplicateResult {
+  /**
+   * Duplicate an entity
+   *
+   * @param entity - Entity to duplicate
+   * @param options - Whether to copy descendants and where to place the copy
+   * @returns The top copy, or null if nothing was duplicated
+   */
+  duplicateEntity: (entity: WorldEntity, options?: DuplicateEntityOptions) => Promise<WorldEntity | null>;
+
+  /** Whether a duplicate is in progress */
+  isDuplicating: boolean;
+}
+
+/**
+ * Name for the top copy, shortened so the suffix fits the name limit
+ */
+function getDuplicateName(name: string): string {
+  const maxLength = getValidationConstraints().NAME.MAX_LENGTH - COPY_SUFFIX.length;
+  return `${name.slice(0, maxLength).trimEnd()}${COPY_SUFFIX}`;
+}
+
+export function useEntityDuplicate(): UseEntityDuplicateResult {
+  const dispatch = useAppDispatch();
+  const worldId = useAppSelector(selectSelectedWorldId);
+  const optimisticDelete = useOptimisticDeleteOptional();
+  const [createWorldEntity] = useCreateWorldEntityMutation();
+  const { recordChange } = useUndoHistory();
+  const [initiateEntityDelete] = useInitiateEntityDeleteMutation();
+  const { collectSubtree } = useEntitySubtree();
+  const [isDuplicating, setIsDuplicating] = useState(false);
+
+  /**
+   * Delete a partially created copy (its descendants go with it)
+   *
+   * @returns True if the delete was started
+   */
+  const rollbackCopy = useCallback(
+    async (copy: WorldEntity) => {
+      optimisticDelete?.onOptimisticDelete(copy.id);
+      try {
+        await initiateEntityDelete({ worldId: worldId!, entityId: copy.id, cascade: true }).unwrap();
+        return true;
+      } catch (error) {
+        logger.error('API', 'Failed to roll back duplicated entity', { entityId: copy.id, error });
+        if (shouldRollbackDelete(error)) {
+          optimisticDelete?.onRollbackDelete(copy.id);
+        }
+        return false;
+      }
+    },
+    [optimisticDelete, initiateEntityDelete, worldId],
+  );
+
+  const duplicateEntity = useCallback(
+    async (entity: WorldEntity, { includeChildren = false, parentId = entity.parentId }: DuplicateEntityOptions = {}) => {
+      if (!worldId) return null;
+
+      logger.userAction(includeChildren ? 'Duplicate entity with children' : 'Duplicate entity', {
+        entityId: entity.id,
+        parentId,
+      });
+      setIsDuplicating(true);
+
+      const copies: WorldEntity[] = [];
+      let operationId: string | null = null;
+      let totalEntities = 1;
+
+      try {
+        const originals = includeChildren ? await collectSubtree(entity) : [entity];
+        totalEntities = originals.length;
+
+        if (totalEntities >= DUPLICATE_PROGRESS_THRESHOLD) {
+          operationId = `duplicate-${entity.id}-${Date.now()}`;
+          dispatch(startDuplicateOperation({
+            id: operationId,
+            worldId,
+            rootEntityName: entity.name,
+            status: 'in_progress',
+            totalEntities,
+            createdCount: 0,
+            errorDetails: null,
+            createdAt: Date.now(),
+          }));
+        }
+
+        // Maps each original to its copy, so children are created beneath the copied parent
+        const copyIds = new Map<string, string>();
+
+        for (const original of originals) {
+          const isTop = original.id === entity.id;
+          const copy = await createWorldEntity({
+            worldId,
+            data: {
+              parentId: isTop ? parentId : copyIds.get(original.parentId!)!,
+              entityType: original.entityType,
+              name: isTop ? getDuplicateName(original.name) : original.name,
+              description: original.description,
+              tags: original.tags,
+              schemaId: original.schemaId,
+              properties: original.properties,
+              systemProperties: original.systemProperties,
+              schemaVersion: original.schemaVersion,
+            },
+          }).unwrap();
+
+          copyIds.set(original.id, copy.id);
+          copies.push(copy);
+          if (operationId) {
+            dispatch(updateDuplicateOperation({ id: operationId, createdCount: copies.length }));
+          }
+        }
+      } catch (error) {
+        logger.error('API', 'Failed to duplicate entity', {
+          entityId: entity.id,
+          created: copies.length,
+          total: totalEntities,
+          error,
+        });
+
+        const rolledBack = copies.length === 0 || (await rollbackCopy(copies[0]));
+        const outcome = rolledBack
+          ? 'No copies were kept.'
+          : `${copies.length} ${copies.length === 1 ? 'copy' : 'copies'} could not be removed.`;
+
+        if (operationId) {
+          dispatch(updateDuplicateOperation({
+            id: operationId,
+            status: 'failed',
+            errorDetails: `The copy failed after ${copies.length} of ${totalEntities} entries. ${outcome}`,
+          }));
+        }
+        toast.error(`"${entity.name}" could not be duplicated`, {
+          description: `${getProblemDetailsMessage(error, 'Please try again.')} ${outcome}`,
+        });
+        return null;
+      } finally {
+        setIsDuplicating(false);
+      }
+
+      if (operationId) {
+        dispatch(updateDuplicateOperation({ id: operationId, status: 'completed' }));
+      }
+      if (parentId) {
+        dispatch(expandNode(parentId));
+      }
+
+      const [topCopy] = copies;
+      toast.success(
+        copies.length > 1
+          ? `"${topCopy.name}" was transcribed with ${copies.length - 1} descendants`
+          : `"${topCopy.name}" was transcribed`,
+        { action: recordChange(worldId, `Duplicate "${entity.name}"`, getEntityCreateChange(topCopy.id)) },
+      );
+      return topCopy;
+    },
+    [worldId, collectSubtree, createWorldEntity, rollbackCopy, recordChange, dispatch],
+  );
+
+  return { duplicateEntity, isDuplicating };
+}
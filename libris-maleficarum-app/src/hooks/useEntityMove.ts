@@ -0,0 +1,96 @@
+/**
+ * useEntityMove Hook
+ *
+ * Shared reparenting logic for drag-and-drop and keyboard moves in the EntityTree.
+ * Validates the move (cycle prevention, root eligibility, type suggestions),
+ * calls `moveWorldEntity`, expands the destination and reports the outcome via toasts.
+ * Moves are recorded in the undo history.
+ *
+ * @module hooks/useEntityMove
+ */
+
+import { useCallback } from 'react';
+import { toast } from 'sonner';
+import { useAppDispatch, useAppSelector } from '@/store/store';
+import { expandNode, selectSelectedWorldId } from '@/store/worldSidebarSlice';
+import { useMoveWorldEntityMutation } from '@/services/worldEntityApi';
+import { getProblemDetailsMessage } from '@/services/types/problemDetails.types';
+import { useUndoHistory } from './useUndoHistory';
+import {
+  validateEntityMove,
+  type MovableEntity,
+  type MoveTargetEntity,
+} from '@/lib/entityHierarchy';
+import { getEntityMoveChange } from '@/lib/undoHistory';
+import { logger } from '@/lib/logger';
+
+export interface UseEntityMoveResult {
+  /**
+   * Move an entity beneath a new parent (or to the root when target is null)
+   *
+   * @returns True if the move succeeded
+   */
+  moveEntity: (entity: MovableEntity, target: MoveTargetEntity | null) => Promise<boolean>;
+
+  /** Whether a move request is in flight */
+  isMoving: boolean;
+}
+
+export function useEntityMove(): UseEntityMoveResult {
+  const dispatch = useAppDispatch();
+  const worldId = useAppSelector(selectSelectedWorldId);
+  const [moveWorldEntity, { isLoading: isMoving }] = useMoveWorldEntityMutation();
+  const { recordChange } = useUndoHistory();
+
+  const moveEntity = useCallback(
+    async (entity: MovableEntity, target: MoveTargetEntity | null) => {
+      if (!worldId) return false;
+
+      const validation = validateEntityMove(entity, target);
+      if (!validation.canMove) {
+        toast.error('This entry cannot be moved there', { description: validation.reason });
+        return false;
+      }
+
+      logger.userAction('Move entity', {
+        entityId: entity.id,
+        newParentId: target?.id ?? null,
+        warning: validation.warning,
+      });
+
+      try {
+        await moveWorldEntity({
+          worldId,
+          entityId: entity.id,
+          data: { newParentId: target?.id ?? null },
+        }).unwrap();
+
+        if (target) {
+          dispatch(expandNode(target.id));
+        }
+
+        const action = recordChange(
+          worldId,
+          `Move "${entity.name}"`,
+          getEntityMoveChange(entity.id, entity.parentId, target?.id ?? null),
+        );
+        toast.success(
+          target
+            ? `Moved "${entity.name}" into "${target.name}"`
+            : `Moved "${entity.name}" to the root of the codex`,
+          { description: validation.warning, action },
+        );
+        return true;
+      } catch (error) {
+        logger.error('API', 'Failed to move entity', { entityId: entity.id, error });
+        toast.error('The entry could not be moved', {
+          description: getProblemDetailsMessage(error, 'Please try again.'),
+        });
+        return false;
+      }
+    },
+    [worldId, moveWorldEntity, recordChange, dispatch],
+  );
+
+  return { moveEntity, isMoving };
+}
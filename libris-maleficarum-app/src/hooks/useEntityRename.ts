@@ -0,0 +1,98 @@
+/**
+ * useEntityRename Hook
+ *
+ * Inline renaming of entities from the EntityTree. The new name is shown
+ * immediately by patching the cached tree level and entity, then saved with
+ * `patchWorldEntity`, which sends nothing but the name; the cached name is
+ * restored if saving fails. Renames are recorded in the undo history.
+ *
+ * Renaming does not touch the entity form state (e.g. `hasUnsavedChanges`).
+ *
+ * @module hooks/useEntityRename
+ */
+
+import { useCallback } from 'react';
+import { toast } from 'sonner';
+import { useAppDispatch, useAppSelector } from '@/store/store';
+import { selectSelectedWorldId } from '@/store/worldSidebarSlice';
+import { usePatchWorldEntityMutation, worldEntityApi } from '@/services/worldEntityApi';
+import { getProblemDetailsMessage } from '@/services/types/problemDetails.types';
+import { validateName } from '@/services/validators/worldEntityValidator';
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+import { useUndoHistory } from './useUndoHistory';
+import { getEntityPatchChange } from '@/lib/undoHistory';
+import { logger } from '@/lib/logger';
+
+export interface UseEntityRenameResult {
+  /**
+   * Rename an entity
+   *
+   * @param entity - Entity to rename
+   * @param name - New name (trimmed before saving)
+   * @returns True if the new name was saved
+   */
+  renameEntity: (entity: WorldEntity, name: string) => Promise<boolean>;
+}
+
+export function useEntityRename(): UseEntityRenameResult {
+  const dispatch = useAppDispatch();
+  const worldId = useAppSelector(selectSelectedWorldId);
+  const [patchWorldEntity] = usePatchWorldEntityMutation();
+  const { recordChange } = useUndoHistory();
+
+  const renameEntity = useCallback(
+    async (entity: WorldEntity, name: string) => {
+      const newName = name.trim();
+      if (!worldId || newName === entity.name || validateName(newName)) return false;
+
+      logger.userAction('Rename entity', { entityId: entity.id });
+
+      const patches = [
+        dispatch(
+          worldEntityApi.util.updateQueryData(
+            'getEntitiesByParent',
+            { worldId, parentId: entity.parentId },
+            (draft) => {
+              for (const page of draft.pages) {
+                const cached = page.data.find((candidate) => candidate.id === entity.id);
+                if (cached) cached.name = newName;
+              }
+            },
+          ),
+        ),
+        dispatch(
+          worldEntityApi.util.updateQueryData(
+            'getWorldEntityById',
+            { worldId, entityId: entity.id },
+            (draft) => {
+              draft.name = newName;
+            },
+          ),
+        ),
+      ];
+
+      try {
+        const renamed = await patchWorldEntity({
+          worldId,
+          entityId: entity.id,
+          data: { name: newName },
+        }).unwrap();
+
+        toast.success(`"${entity.name}" was renamed to "${newName}"`, {
+          action: recordChange(worldId, `Rename "${entity.name}"`, getEntityPatchChange(entity, renamed, ['name'])),
+        });
+        return true;
+      } catch (error) {
+        patches.forEach((patch) => patch.undo());
+        logger.error('API', 'Failed to rename entity', { entityId: entity.id, error });
+        toast.error(`"${entity.name}" could not be renamed`, {
+          description: getProblemDetailsMessage(error, 'Please try again.'),
+        });
+        return false;
+      }
+    },
+    [worldId, patchWorldEntity, recordChange, dispatch],
+  );
+
+  return { renameEntity };
+}
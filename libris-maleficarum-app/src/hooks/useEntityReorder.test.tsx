@@ -0,0 +1,213 @@
+/**
+ * useEntityReorder Hook Tests
+ *
+ * Tests for saving a manual sibling order: only sort keys are sent, one
+ * sibling at a time, neither the reorder nor its undo moves the siblings, and
+ * the earlier order comes back after an undo or a failed save.
+ *
+ * @see useEntityReorder.ts
+ */
+
+import { act, renderHook } from '@testing-library/react';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import type { ReactNode } from 'react';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+
+import { api } from '@/services/api';
+import worldSidebarReducer from '@/store/worldSidebarSlice';
+import undoHistoryReducer from '@/store/undoHistorySlice';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+import { createMemoryRevisionStore, setRevisionStore } from '@/lib/entityRevisions';
+
+import { useEntityReorder } from './useEntityReorder';
+import { useUndoHistory } from './useUndoHistory';
+
+const BASE_URL = 'http://localhost:5000/api/v1/worlds/order-world';
+
+const createCity = (id: string): WorldEntity => ({
+  id,
+  worldId: 'order-world',
+  parentId: 'cormyr',
+  entityType: WorldEntityType.City,
+  name: id,
+  description: '',
+  tags: [],
+  path: ['cormyr'],
+  depth: 1,
+  hasChildren: false,
+  ownerId: 'test-user',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  isDeleted: false,
+  schemaVersion: 1,
+  schemaId: 'city-v1',
+});
+
+/**
+ * Serve the cities of Cormyr the way the backend saves them: PUT replaces the
+ * parent and schema identifier with what is sent, PATCH keeps what is left out.
+ *
+ * @param failOnce - City whose first PATCH fails
+ */
+function serveCities(failOnce?: string) {
+  const stored = new Map(['suzail', 'arabel', 'marsember'].map((id) => [id, createCity(id)]));
+  const requests: { method: string; entityId: string; body: Record<string, unknown> }[] = [];
+
+  server.use(
+    http.put(`${BASE_URL}/entities/:entityId`, async ({ params, request }) => {
+      const body = (await request.json()) as Record<string, unknown>;
+      const entityId = params.entityId as string;
+      requests.push({ method: 'PUT', entityId, body });
+      const entity = { ...stored.get(entityId)!, ...body, parentId: body.parentId ?? null, schemaId: body.schemaId };
+      stored.set(entityId, entity as WorldEntity);
+      return HttpResponse.json({ data: entity });
+    }),
+    http.patch(`${BASE_URL}/entities/:entityId`, async ({ params, request }) => {
+      const body = (await request.json()) as Record<string, unknown>;
+      const entityId = params.entityId as string;
+      requests.push({ method: 'PATCH', entityId, body });
+      if (entityId === failOnce) {
+        failOnce = undefined;
+        return HttpResponse.json({ title: 'Conflict', status: 409 }, { status: 409 });
+      }
+      const entity = { ...stored.get(entityId)!, ...body };
+      stored.set(entityId, entity as WorldEntity);
+      return HttpResponse.json({ data: entity });
+    }),
+  );
+
+  return { stored, requests };
+}
+
+/** City ids in manual order; cities without a sort key come last */
+const getOrder = (stored: Map<string, WorldEntity>) =>
+  [...stored.values()]
+    .sort((a, b) => (a.sortKey ?? Infinity) - (b.sortKey ?? Infinity))
+    .map((city) => city.id);
+
+function renderReorder() {
+  const store = configureStore({
+    reducer: {
+      worldSidebar: worldSidebarReducer,
+      undoHistory: undoHistoryReducer,
+      [api.reducerPath]: api.reducer,
+    },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(api.middleware),
+  });
+  store.dispatch({ type: 'worldSidebar/setSelectedWorld', payload: 'order-world' });
+
+  const wrapper = ({ children }: { children: ReactNode }) => <Provider store={store}>{children}</Provider>;
+  return renderHook(() => ({ ...useEntityReorder(), ...useUndoHistory() }), { wrapper });
+}
+
+const server = setupServer();
+
+describe('useEntityReorder', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'bypass' }));
+  afterEach(() => server.resetHandlers());
+  afterAll(() => server.close());
+
+  it('should save only the sort keys, one sibling at a time', async () => {
+    // Arrange
+    const { stored, requests } = serveCities();
+    const siblings = [...stored.values()];
+    const { result } = renderReorder();
+
+    // Act
+    let saved = false;
+    await act(async () => {
+      saved = await result.current.reorderEntity(siblings, siblings[0], 1);
+    });
+
+    // Assert
+    expect(saved).toBe(true);
+    expect(requests).toEqual([
+      { method: 'PATCH', entityId: 'arabel', body: { sortKey: 1024 } },
+      { method: 'PATCH', entityId: 'suzail', body: { sortKey: 2048 } },
+      { method: 'PATCH', entityId: 'marsember', body: { sortKey: 3072 } },
+    ]);
+    for (const city of stored.values()) {
+      expect(city).toMatchObject({ parentId: 'cormyr', schemaId: 'city-v1' });
+    }
+  });
+
+  it('should not add a revision to the history of the reordered siblings', async () => {
+    // Arrange
+    const revisions = createMemoryRevisionStore();
+    setRevisionStore(revisions);
+    const { stored } = serveCities();
+    const siblings = [...stored.values()];
+    const { result } = renderReorder();
+
+    // Act
+    await act(async () => {
+      await result.current.reorderEntity(siblings, siblings[0], 1);
+    });
+
+    // Assert
+    setRevisionStore(null);
+    for (const city of siblings) {
+      expect(await revisions.getRevisions('order-world', city.id)).toEqual([]);
+    }
+  });
+
+  it('should give back the earlier order when undoing a reorder of siblings without sort keys', async () => {
+    // Arrange
+    const { stored, requests } = serveCities();
+    const siblings = [...stored.values()];
+    const { result } = renderReorder();
+    await act(async () => {
+      await result.current.reorderEntity(siblings, siblings[0], 1);
+    });
+    requests.length = 0;
+
+    // Act
+    await act(async () => {
+      await result.current.undo();
+    });
+
+    // Assert - the cities had no keys, so the earlier order is numbered
+    expect(requests).toEqual([
+      { method: 'PATCH', entityId: 'suzail', body: { sortKey: 1024 } },
+      { method: 'PATCH', entityId: 'arabel', body: { sortKey: 2048 } },
+    ]);
+    expect(getOrder(stored)).toEqual(['suzail', 'arabel', 'marsember']);
+    for (const city of stored.values()) {
+      expect(city).toMatchObject({ parentId: 'cormyr', schemaId: 'city-v1' });
+    }
+  });
+
+  it('should set the saved sort keys back when saving fails partway', async () => {
+    // Arrange
+    const { stored, requests } = serveCities('suzail');
+    const siblings = [...stored.values()];
+    const { result } = renderReorder();
+
+    // Act
+    let saved = true;
+    await act(async () => {
+      saved = await result.current.reorderEntity(siblings, siblings[0], 1);
+    });
+
+    // Assert - arabel was saved before suzail failed, then every city is numbered in the earlier order
+    expect(saved).toBe(false);
+    expect(requests.map(({ entityId, body }) => [entityId, body.sortKey])).toEqual([
+      ['arabel', 1024],
+      ['suzail', 2048],
+      ['suzail', 1024],
+      ['arabel', 2048],
+      ['marsember', 3072],
+    ]);
+    expect(getOrder(stored)).toEqual(['suzail', 'arabel', 'marsember']);
+
+    // Nothing was recorded to undo
+    let undone = true;
+    await act(async () => {
+      undone = await result.current.undo();
+    });
+    expect(undone).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * useEntityReorder Hook
+ *
+ * Manual ordering of siblings in the EntityTree. Computes the new sort keys,
+ * shows the new order immediately by patching the cached level, and saves the
+ * keys one sibling at a time with `patchWorldEntity`, which sends nothing but
+ * the sort key. A reorder is recorded in the undo history as one change, which
+ * gives back the earlier order even when the siblings had no keys before.
+ *
+ * If saving fails partway, the keys already saved are set back to the earlier
+ * order and the level is fetched again, so the tree matches the server.
+ *
+ * @module hooks/useEntityReorder
+ */
+
+import { useCallback } from 'react';
+import { toast } from 'sonner';
+import { useAppDispatch, useAppSelector } from '@/store/store';
+import { selectSelectedWorldId } from '@/store/worldSidebarSlice';
+import { usePatchWorldEntityMutation, worldEntityApi } from '@/services/worldEntityApi';
+import { getProblemDetailsMessage } from '@/services/types/problemDetails.types';
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+import { useUndoHistory } from './useUndoHistory';
+import { getManualOrderSortKeys, getManualReorderUpdates, type SortKeyUpdate } from '@/lib/entityTreeSort';
+import { getSortKeyChange } from '@/lib/undoHistory';
+import { logger } from '@/lib/logger';
+
+export interface UseEntityReorderResult {
+  /**
+   * Move an entity to a new position among its siblings
+   *
+   * @param siblings - Siblings in manual order, including the entity
+   * @param entity - Entity to move
+   * @param targetIndex - New index among the other siblings
+   * @returns True if the new order was saved
+   */
+  reorderEntity: (siblings: WorldEntity[], entity: WorldEntity, targetIndex: number) => Promise<boolean>;
+}
+
+function toSortKeyMap(updates: SortKeyUpdate[]): Map<string, number> {
+  return new Map(updates.map(({ id, sortKey }) => [id, sortKey]));
+}
+
+export function useEntityReorder(): UseEntityReorderResult {
+  const dispatch = useAppDispatch();
+  const worldId = useAppSelector(selectSelectedWorldId);
+  const [patchWorldEntity] = usePatchWorldEntityMutation();
+  const { recordChange } = useUndoHistory();
+
+  const reorderEntity = useCallback(
+    async (siblings: WorldEntity[], entity: WorldEntity, targetIndex: number) => {
+      if (!worldId) return false;
+
+      const updates = getManualReorderUpdates(siblings, entity.id, targetIndex);
+      if (updates.length === 0) return false;
+
+      logger.userAction('Reorder entity', {
+        entityId: entity.id,
+        parentId: entity.parentId,
+        targetIndex,
+        updatedSiblings: updates.length,
+      });
+
+      const sortKeys = toSortKeyMap(updates);
+      // Every sibling has a key after the reorder; keys for the earlier order are numbered if needed
+      const before = toSortKeyMap(getManualOrderSortKeys(siblings));
+      const after = toSortKeyMap(
+        getManualOrderSortKeys(
+          siblings.map((sibling) => ({ id: sibling.id, sortKey: sortKeys.get(sibling.id) ?? sibling.sortKey })),
+        ),
+      );
+      const patch = dispatch(
+        worldEntityApi.util.updateQueryData(
+          'getEntitiesByParent',
+          { worldId, parentId: entity.parentId },
+          (draft) => {
+            for (const page of draft.pages) {
+              for (const sibling of page.data) {
+                if (sortKeys.has(sibling.id)) {
+                  sibling.sortKey = sortKeys.get(sibling.id);
+                }
+              }
+            }
+          },
+        ),
+      );
+
+      const saved = new Set<string>();
+      try {
+        // One sibling at a time, so large levels do not flood the API
+        for (const { id, sortKey } of updates) {
+          await patchWorldEntity({ worldId, entityId: id, data: { sortKey } }).unwrap();
+          saved.add(id);
+        }
+
+        toast.success(`"${entity.name}" was reordered`, {
+          action: recordChange(worldId, `Reorder "${entity.name}"`, getSortKeyChange(before, after)),
+        });
+        return true;
+      } catch (error) {
+        patch.undo();
+        logger.error('API', 'Failed to reorder entity', { entityId: entity.id, error });
+
+        if (saved.size > 0) {
+          // Set the saved keys back, numbering siblings without a key so the earlier order holds
+          try {
+            for (const sibling of siblings) {
+              const sortKey = before.get(sibling.id)!;
+              const stored = saved.has(sibling.id) ? after.get(sibling.id) : sibling.sortKey;
+              if (sortKey !== stored) {
+                await patchWorldEntity({ worldId, entityId: sibling.id, data: { sortKey } }).unwrap();
+              }
+            }
+          } catch (rollbackError) {
+            logger.error('API', 'Failed to restore sibling order', { entityId: entity.id, error: rollbackError });
+          }
+          dispatch(
+            worldEntityApi.util.invalidateTags([
+              { type: 'WorldEntity', id: `PARENT_${worldId}_${entity.parentId ?? 'ROOT'}` },
+            ]),
+          );
+        }
+
+        toast.error('The entry could not be reordered', {
+          description: getProblemDetailsMessage(error, 'Please try again.'),
+        });
+        return false;
+      }
+    },
+    [worldId, patchWorldEntity, recordChange, dispatch],
+  );
+
+  return { reorderEntity };
+}
@@ -0,0 +1,109 @@
+/**
+ * useEntityRevisions Hook
+ *
+ * Loads the recorded revisions of an entry (reloading whenever a revision is
+ * recorded) and restores the entry to one of them. A restore is an ordinary
+ * save, so it is recorded as a revision and can be undone.
+ *
+ * @module hooks/useEntityRevisions
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { useUpdateWorldEntityMutation } from '@/services/worldEntityApi';
+import { getProblemDetailsMessage } from '@/services/types/problemDetails.types';
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+import { useUndoHistory } from './useUndoHistory';
+import {
+  ENTITY_REVISIONS_CHANGE_EVENT,
+  getRevisionStore,
+  type EntityRevision,
+} from '@/lib/entityRevisions';
+import { getEntityRestoreRequest, getEntityUpdateChange } from '@/lib/undoHistory';
+import { logger } from '@/lib/logger';
+
+export interface UseEntityRevisionsResult {
+  /** Revisions of the entry, newest first (null while loading) */
+  revisions: EntityRevision[] | null;
+
+  /**
+   * Restore the entry to a revision
+   *
+   * @returns True if the revision was restored
+   */
+  restoreRevision: (revision: EntityRevision) => Promise<boolean>;
+
+  /** Whether a restore is in progress */
+  isRestoring: boolean;
+}
+
+/**
+ * @param entity - Entry whose revisions are loaded (its current version)
+ */
+export function useEntityRevisions(entity: WorldEntity): UseEntityRevisionsResult {
+  const { worldId, id: entityId } = entity;
+  const [loaded, setLoaded] = useState<{ key: string; revisions: EntityRevision[] } | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [updateWorldEntity] = useUpdateWorldEntityMutation();
+  const { recordChange } = useUndoHistory();
+
+  const key = `${worldId}/${entityId}`;
+  useEffect(() => {
+    let isCurrent = true;
+    const load = () => {
+      getRevisionStore()
+        .getRevisions(worldId, entityId)
+        .catch((error) => {
+          logger.error('STATE', 'Failed to load entity revisions', { entityId, error });
+          return [];
+        })
+        .then((revisions) => {
+          if (isCurrent) setLoaded({ key, revisions });
+        });
+    };
+
+    load();
+    window.addEventListener(ENTITY_REVISIONS_CHANGE_EVENT, load);
+    return () => {
+      isCurrent = false;
+      window.removeEventListener(ENTITY_REVISIONS_CHANGE_EVENT, load);
+    };
+  }, [worldId, entityId, key]);
+
+  const restoreRevision = useCallback(
+    async (revision: EntityRevision) => {
+      logger.userAction('Restore entity revision', { entityId, savedAt: revision.savedAt });
+      setIsRestoring(true);
+
+      try {
+        const restored = await updateWorldEntity({
+          worldId,
+          entityId,
+          // Keep the entry's place among its siblings
+          data: { ...getEntityRestoreRequest(revision.snapshot, entity), sortKey: undefined },
+          currentEntityType: entity.entityType,
+        }).unwrap();
+
+        toast.success(`"${restored.name}" was restored to an earlier revision`, {
+          action: recordChange(worldId, `Restore revision of "${entity.name}"`, getEntityUpdateChange(entity, restored)),
+        });
+        return true;
+      } catch (error) {
+        logger.error('API', 'Failed to restore entity revision', { entityId, error });
+        toast.error(`"${entity.name}" could not be restored`, {
+          description: getProblemDetailsMessage(error, 'Please try again.'),
+        });
+        return false;
+      } finally {
+        setIsRestoring(false);
+      }
+    },
+    [worldId, entityId, entity, updateWorldEntity, recordChange],
+  );
+
+  return {
+    revisions: loaded?.key === key ? loaded.revisions : null,
+    restoreRevision,
+    isRestoring,
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * useEntitySubtree Hook
+ *
+ * Loads an entity's descendants from the hierarchy endpoint, requesting every
+ * page of each level, for actions that work on a whole subtree (duplicating,
+ * saving as a template).
+ *
+ * @module hooks/useEntitySubtree
+ */
+
+import { useCallback } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/store';
+import { selectSelectedWorldId } from '@/store/worldSidebarSlice';
+import { worldEntityApi } from '@/services/worldEntityApi';
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+
+export interface UseEntitySubtreeResult {
+  /**
+   * Collect an entity and its descendants, each parent before its children
+   *
+   * @param entity - Top entity of the subtree
+   * @returns The entity followed by its descendants
+   */
+  collectSubtree: (entity: WorldEntity) => Promise<WorldEntity[]>;
+}
+
+export function useEntitySubtree(): UseEntitySubtreeResult {
+  const dispatch = useAppDispatch();
+  const worldId = useAppSelector(selectSelectedWorldId);
+
+  /**
+   * Load every page of an entity's children
+   */
+  const fetchAllChildren = useCallback(
+    async (parentId: string): Promise<WorldEntity[]> => {
+      const arg = { worldId: worldId!, parentId };
+      const requests = [dispatch(worldEntityApi.endpoints.getEntitiesByParent.initiate(arg))];
+
+      try {
+        let result = await requests[0].unwrap();
+        while (result.pages[result.pages.length - 1]?.meta?.nextCursor) {
+          const request = dispatch(
+            worldEntityApi.endpoints.getEntitiesByParent.initiate(arg, { direction: 'forward' }),
+          );
+          requests.push(request);
+          result = await request.unwrap();
+        }
+        return result.pages.flatMap((page) => page.data);
+      } finally {
+        requests.forEach((request) => request.unsubscribe());
+      }
+    },
+    [worldId, dispatch],
+  );
+
+  const collectSubtree = useCallback(
+    async (entity: WorldEntity): Promise<WorldEntity[]> => {
+      const entities = [entity];
+      for (let i = 0; i < entities.length; i++) {
+        if (entities[i].hasChildren) {
+          entities.push(...(await fetchAllChildren(entities[i].id)));
+        }
+      }
+      return entities;
+    },
+    [fetchAllChildren],
+  );
+
+  return { collectSubtree };
+}
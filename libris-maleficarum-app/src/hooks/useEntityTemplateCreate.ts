@@ -0,0 +1,152 @@
+/**
+ * useEntityTemplateCreate Hook
+ *
+ * Creates the entries of an entity template beneath a parent (or at the root),
+ * top entry first, with placeholders such as `{{name}}` replaced. If any entry
+ * cannot be created, the entries made so far are deleted again (with the top
+ * entry, in one cascading delete).
+ *
+ * @module hooks/useEntityTemplateCreate
+ */
+
+import { useCallback, useState } from 'react';
+import { toast } from 'sonner';
+import { useAppDispatch, useAppSelector } from '@/store/store';
+import { expandNode, selectSelectedWorldId } from '@/store/worldSidebarSlice';
+import { useCreateWorldEntityMutation } from '@/services/worldEntityApi';
+import { useInitiateEntityDeleteMutation } from '@/services/asyncOperationsApi';
+import { getProblemDetailsMessage } from '@/services/types/problemDetails.types';
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+import { useUndoHistory } from './useUndoHistory';
+import { useOptimisticDeleteOptional } from './useOptimisticDelete';
+import {
+  instantiateEntityTemplate,
+  type EntityTemplate,
+  type EntityTemplateNode,
+} from '@/lib/entityTemplates';
+import { shouldRollbackDelete } from '@/lib/asyncOperationHelpers';
+import { getEntityCreateChange } from '@/lib/undoHistory';
+import { logger } from '@/lib/logger';
+
+export interface UseEntityTemplateCreateResult {
+  /**
+   * Create entries from a template
+   *
+   * @param template - Template to use
+   * @param values - Placeholder values by key (`name` names the top entry)
+   * @param parentId - Parent for the top entry (null for the root)
+   * @returns The top entry, or null if nothing was created
+   */
+  createFromTemplate: (
+    template: EntityTemplate,
+    values: Record<string, string>,
+    parentId: string | null,
+  ) => Promise<WorldEntity | null>;
+
+  /** Whether entries are being created */
+  isCreating: boolean;
+}
+
+export function useEntityTemplateCreate(): UseEntityTemplateCreateResult {
+  const dispatch = useAppDispatch();
+  const worldId = useAppSelector(selectSelectedWorldId);
+  const optimisticDelete = useOptimisticDeleteOptional();
+  const [createWorldEntity] = useCreateWorldEntityMutation();
+  const { recordChange } = useUndoHistory();
+  const [initiateEntityDelete] = useInitiateEntityDeleteMutation();
+  const [isCreating, setIsCreating] = useState(false);
+
+  /**
+   * Delete partially created entries (descendants go with the top entry)
+   *
+   * @returns True if the delete was started
+   */
+  const rollbackEntries = useCallback(
+    async (top: WorldEntity) => {
+      optimisticDelete?.onOptimisticDelete(top.id);
+      try {
+        await initiateEntityDelete({ worldId: worldId!, entityId: top.id, cascade: true }).unwrap();
+        return true;
+      } catch (error) {
+        logger.error('API', 'Failed to roll back entries created from template', { entityId: top.id, error });
+        if (shouldRollbackDelete(error)) {
+          optimisticDelete?.onRollbackDelete(top.id);
+        }
+        return false;
+      }
+    },
+    [optimisticDelete, initiateEntityDelete, worldId],
+  );
+
+  const createFromTemplate = useCallback(
+    async (template: EntityTemplate, values: Record<string, string>, parentId: string | null) => {
+      if (!worldId) return null;
+
+      logger.userAction('Create entity from template', { templateId: template.id, parentId });
+      setIsCreating(true);
+
+      const created: WorldEntity[] = [];
+      // Each entry paired with the parent it is created beneath, parents before children
+      const pending: [EntityTemplateNode, string | null][] = [
+        [instantiateEntityTemplate(template, values), parentId],
+      ];
+
+      try {
+        while (pending.length > 0) {
+          const [node, nodeParentId] = pending.shift()!;
+          const entity = await createWorldEntity({
+            worldId,
+            data: {
+              parentId: nodeParentId,
+              entityType: node.entityType,
+              name: node.name,
+              description: node.description,
+              tags: node.tags,
+              schemaId: node.schemaId,
+              properties: node.properties,
+              systemProperties: node.systemProperties,
+              schemaVersion: node.schemaVersion,
+            },
+          }).unwrap();
+
+          created.push(entity);
+          pending.push(...node.children.map((child): [EntityTemplateNode, string] => [child, entity.id]));
+        }
+      } catch (error) {
+        logger.error('API', 'Failed to create entity from template', {
+          templateId: template.id,
+          created: created.length,
+          error,
+        });
+
+        const rolledBack = created.length === 0 || (await rollbackEntries(created[0]));
+        const outcome = rolledBack
+          ? 'No entries were kept.'
+          : `${created.length} ${created.length === 1 ? 'entry' : 'entries'} could not be removed.`;
+
+        toast.error(`"${template.name}" could not be used`, {
+          description: `${getProblemDetailsMessage(error, 'Please try again.')} ${outcome}`,
+        });
+        return null;
+      } finally {
+        setIsCreating(false);
+      }
+
+      if (parentId) {
+        dispatch(expandNode(parentId));
+      }
+
+      const [top] = created;
+      toast.success(
+        created.length > 1
+          ? `"${top.name}" was transcribed from "${template.name}" with ${created.length - 1} descendants`
+          : `"${top.name}" was transcribed from "${template.name}"`,
+        { action: recordChange(worldId, `Create "${top.name}"`, getEntityCreateChange(top.id)) },
+      );
+      return top;
+    },
+    [worldId, createWorldEntity, rollbackEntries, recordChange, dispatch],
+  );
+
+  return { createFromTemplate, isCreating };
+}
@@ -0,0 +1,124 @@
+/**
+ * useEntityTemplates Hook
+ *
+ * The current user's entity templates, remembered in localStorage: templates
+ * scoped to a world are stored with that world, user templates are offered in
+ * every world. Changes made through one instance of the hook (e.g. the template
+ * manager in the settings) are picked up by the others.
+ *
+ * @module hooks/useEntityTemplates
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { readUserPreference, writeUserPreference } from '@/lib/userPreferences';
+import type { EntityTemplate, EntityTemplateScope } from '@/lib/entityTemplates';
+
+const PREFERENCE_NAME = 'entityTemplates';
+
+/** Preference "world" under which user templates are stored */
+const USER_TEMPLATES_KEY = 'all-worlds';
+
+/** Fired on the window after templates are written, so every hook instance stays in sync */
+const TEMPLATES_CHANGE_EVENT = 'lm:entity-templates-change';
+
+export interface UseEntityTemplatesResult {
+  /** Templates offered in the world (its own and the user's), ordered by name */
+  templates: EntityTemplate[];
+
+  /** Store a new template (world templates need a world) */
+  saveTemplate: (template: EntityTemplate) => void;
+
+  /** Rename a template or change its scope */
+  updateTemplate: (id: string, changes: Partial<Pick<EntityTemplate, 'name' | 'scope'>>) => void;
+
+  /** Remove a template */
+  deleteTemplate: (id: string) => void;
+}
+
+function storageWorld(scope: EntityTemplateScope, worldId: string | null): string | null {
+  return scope === 'user' ? USER_TEMPLATES_KEY : worldId;
+}
+
+function readTemplates(scope: EntityTemplateScope, worldId: string | null): EntityTemplate[] {
+  const key = storageWorld(scope, worldId);
+  if (!key) return [];
+
+  const stored = readUserPreference<EntityTemplate[] | null>(PREFERENCE_NAME, key, null);
+  // Ignore values edited by hand
+  return Array.isArray(stored) ? stored.filter((template) => template?.id && template.root) : [];
+}
+
+function writeTemplates(scope: EntityTemplateScope, worldId: string | null, templates: EntityTemplate[]) {
+  const key = storageWorld(scope, worldId);
+  if (!key) return;
+
+  writeUserPreference(PREFERENCE_NAME, key, templates);
+  window.dispatchEvent(new Event(TEMPLATES_CHANGE_EVENT));
+}
+
+function readAllTemplates(worldId: string | null): EntityTemplate[] {
+  return [...readTemplates('world', worldId), ...readTemplates('user', worldId)];
+}
+
+/**
+ * @param worldId - World whose templates are offered (only user templates when null)
+ */
+export function useEntityTemplates(worldId: string | null): UseEntityTemplatesResult {
+  const [storedTemplates, setStoredTemplates] = useState(() => readAllTemplates(worldId));
+
+  // Reload when the world changes or another instance writes
+  useEffect(() => {
+    const reload = () => setStoredTemplates(readAllTemplates(worldId));
+    reload();
+
+    window.addEventListener(TEMPLATES_CHANGE_EVENT, reload);
+    return () => window.removeEventListener(TEMPLATES_CHANGE_EVENT, reload);
+  }, [worldId]);
+
+  const templates = useMemo(
+    () => [...storedTemplates].sort((a, b) => a.name.localeCompare(b.name)),
+    [storedTemplates],
+  );
+
+  const saveTemplate = useCallback(
+    (template: EntityTemplate) => {
+      writeTemplates(template.scope, worldId, [...readTemplates(template.scope, worldId), template]);
+    },
+    [worldId],
+  );
+
+  const deleteTemplate = useCallback(
+    (id: string) => {
+      for (const scope of ['world', 'user'] as const) {
+        const current = readTemplates(scope, worldId);
+        if (current.some((template) => template.id === id)) {
+          writeTemplates(scope, worldId, current.filter((template) => template.id !== id));
+        }
+      }
+    },
+    [worldId],
+  );
+
+  const updateTemplate = useCallback(
+    (id: string, changes: Partial<Pick<EntityTemplate, 'name' | 'scope'>>) => {
+      const existing = readAllTemplates(worldId).find((template) => template.id === id);
+      if (!existing) return;
+
+      const updated = { ...existing, ...changes };
+      if (updated.scope === existing.scope) {
+        writeTemplates(
+          existing.scope,
+          worldId,
+          readTemplates(existing.scope, worldId).map((template) => (template.id === id ? updated : template)),
+        );
+      } else {
+        // Moving between scopes stores the template elsewhere
+        deleteTemplate(id);
+        saveTemplate(updated);
+      }
+    },
+    [worldId, deleteTemplate, saveTemplate],
+  );
+
+  return { templates, saveTemplate, updateTemplate, deleteTemplate };
+}
@@ -0,0 +1,128 @@
+/**
+ * useEntityTrash Hook
+ *
+ * Restores soft-deleted entities from a world's trash, alone or with their
+ * deleted descendants, and deletes them permanently. Restored entries are
+ * removed from the optimistically deleted set so the tree shows them again.
+ *
+ * @module hooks/useEntityTrash
+ */
+
+import { useCallback, useState } from 'react';
+import { toast } from 'sonner';
+import { useAppDispatch, useAppSelector } from '@/store/store';
+import { selectSelectedWorldId } from '@/store/worldSidebarSlice';
+import {
+  usePurgeWorldEntityMutation,
+  useRestoreWorldEntityMutation,
+  worldEntityApi,
+} from '@/services/worldEntityApi';
+import { getProblemDetailsMessage } from '@/services/types/problemDetails.types';
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+import { useOptimisticDeleteOptional } from './useOptimisticDelete';
+import { logger } from '@/lib/logger';
+
+export interface UseEntityTrashResult {
+  /**
+   * Restore a deleted entity
+   *
+   * @param entity - Deleted entity to restore
+   * @param descendantIds - Deleted descendants to restore with it (empty to restore the entity alone)
+   * @returns True if the entity was restored
+   */
+  restoreEntity: (entity: WorldEntity, descendantIds?: string[]) => Promise<boolean>;
+
+  /**
+   * Permanently delete a deleted entity (its deleted descendants go with it)
+   *
+   * @param entity - Deleted entity to remove
+   * @returns True if the entity was removed
+   */
+  purgeEntity: (entity: WorldEntity) => Promise<boolean>;
+
+  /** Whether a restore or permanent delete is in progress */
+  isPending: boolean;
+}
+
+export function useEntityTrash(): UseEntityTrashResult {
+  const dispatch = useAppDispatch();
+  const worldId = useAppSelector(selectSelectedWorldId);
+  const optimisticDelete = useOptimisticDeleteOptional();
+  const [restoreWorldEntity] = useRestoreWorldEntityMutation();
+  const [purgeWorldEntity] = usePurgeWorldEntityMutation();
+  const [isPending, setIsPending] = useState(false);
+
+  const restoreEntity = useCallback(
+    async (entity: WorldEntity, descendantIds: string[] = []) => {
+      if (!worldId) return false;
+
+      const cascade = descendantIds.length > 0;
+      logger.userAction(cascade ? 'Restore entity with descendants' : 'Restore entity', {
+        entityId: entity.id,
+        descendants: descendantIds.length,
+      });
+      setIsPending(true);
+
+      try {
+        await restoreWorldEntity({ worldId, entityId: entity.id, cascade }).unwrap();
+      } catch (error) {
+        logger.error('API', 'Failed to restore entity', { entityId: entity.id, error });
+        toast.error(`"${entity.name}" could not be restored`, {
+          description: getProblemDetailsMessage(error, 'Please try again.'),
+        });
+        return false;
+      } finally {
+        setIsPending(false);
+      }
+
+      optimisticDelete?.onRollbackDelete(entity.id, descendantIds);
+
+      // Tree levels beneath the restored entity were cached without their children
+      if (cascade) {
+        dispatch(
+          worldEntityApi.util.invalidateTags(
+            [entity.id, ...descendantIds].map((id) => ({
+              type: 'WorldEntity' as const,
+              id: `PARENT_${worldId}_${id}`,
+            })),
+          ),
+        );
+      }
+
+      toast.success(
+        cascade
+          ? `"${entity.name}" was restored with ${descendantIds.length} descendants`
+          : `"${entity.name}" was restored`,
+      );
+      return true;
+    },
+    [worldId, restoreWorldEntity, optimisticDelete, dispatch],
+  );
+
+  const purgeEntity = useCallback(
+    async (entity: WorldEntity) => {
+      if (!worldId) return false;
+
+      logger.userAction('Permanently delete entity', { entityId: entity.id });
+      setIsPending(true);
+
+      try {
+        await purgeWorldEntity({ worldId, entityId: entity.id }).unwrap();
+      } catch (error) {
+        logger.error('API', 'Failed to permanently delete entity', { entityId: entity.id, error });
+        toast.error(`"${entity.name}" could not be deleted forever`, {
+          description: getProblemDetailsMessage(error, 'Please try again.'),
+        });
+        return false;
+      } finally {
+        setIsPending(false);
+      }
+
+      toast.success(`"${entity.name}" was banished forever`);
+      return true;
+    },
+    [worldId, purgeWorldEntity],
+  );
+
+  return { restoreEntity, purgeEntity, isPending };
+}
@@ -0,0 +1,51 @@
+/**
+ * useEntityTreeSort Hook
+ *
+ * The current user's sort options for a world's entity tree, remembered in
+ * localStorage so the tree keeps its order across reloads.
+ *
+ * @module hooks/useEntityTreeSort
+ */
+
+import { useCallback, useState } from 'react';
+import { readUserPreference, writeUserPreference } from '@/lib/userPreferences';
+import {
+  DEFAULT_ENTITY_TREE_SORT,
+  type EntityTreeSortMode,
+  type EntityTreeSortOptions,
+} from '@/lib/entityTreeSort';
+
+const PREFERENCE_NAME = 'treeSort';
+
+const SORT_MODES: readonly EntityTreeSortMode[] = ['alphabetical', 'type', 'updated', 'manual'];
+
+function readSortOptions(worldId: string): EntityTreeSortOptions {
+  const stored = readUserPreference<Partial<EntityTreeSortOptions> | null>(PREFERENCE_NAME, worldId, null);
+
+  // Ignore values stored by older versions or edited by hand
+  return {
+    mode: stored?.mode && SORT_MODES.includes(stored.mode) ? stored.mode : DEFAULT_ENTITY_TREE_SORT.mode,
+    containersFirst:
+      typeof stored?.containersFirst === 'boolean'
+        ? stored.containersFirst
+        : DEFAULT_ENTITY_TREE_SORT.containersFirst,
+  };
+}
+
+/**
+ * @param worldId - World whose tree is sorted
+ * @returns Current sort options and a setter that also stores them
+ */
+export function useEntityTreeSort(worldId: string) {
+  const [sort, setSortState] = useState(() => readSortOptions(worldId));
+
+  const setSort = useCallback(
+    (next: EntityTreeSortOptions) => {
+      setSortState(next);
+      writeUserPreference(PREFERENCE_NAME, worldId, next);
+    },
+    [worldId],
+  );
+
+  return [sort, setSort] as const;
+}
@@ -0,0 +1,116 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { DRAFT_SAVE_DELAY, useFormDraft, type UseFormDraftOptions } from './useFormDraft';
+import { readFormDraft, writeFormDraft } from '@/lib/formDrafts';
+
+type Values = { name: string };
+
+function renderFormDraft(initialProps: UseFormDraftOptions<Values>) {
+  return renderHook((props: UseFormDraftOptions<Values>) => useFormDraft<Values>(props), { initialProps });
+}
+
+describe('useFormDraft', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('saves changed values once typing pauses and removes the draft when they are undone', () => {
+    const { rerender } = renderFormDraft({ draftKey: 'world.new', values: { name: '' }, isDirty: false });
+
+    rerender({ draftKey: 'world.new', values: { name: 'Cormyr' }, isDirty: true });
+    act(() => vi.advanceTimersByTime(DRAFT_SAVE_DELAY - 1));
+    expect(readFormDraft('world.new')).toBeNull();
+
+    act(() => vi.advanceTimersByTime(1));
+    expect(readFormDraft<Values>('world.new')?.values).toEqual({ name: 'Cormyr' });
+
+    rerender({ draftKey: 'world.new', values: { name: '' }, isDirty: false });
+    act(() => vi.advanceTimersByTime(DRAFT_SAVE_DELAY));
+    expect(readFormDraft('world.new')).toBeNull();
+  });
+
+  it('saves straight away when the page is hidden', () => {
+    renderFormDraft({ draftKey: 'world.new', values: { name: 'Cormyr' }, isDirty: true });
+
+    vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+    act(() => {
+      document.dispatchEvent(new Event('visibilitychange'));
+    });
+
+    expect(readFormDraft<Values>('world.new')?.values).toEqual({ name: 'Cormyr' });
+  });
+
+  it('offers an earlier draft and keeps it until it is restored', () => {
+    writeFormDraft('world.world-1', {
+      savedAt: '2026-10-19T14:32:00Z',
+      baseUpdatedAt: '2026-10-19T12:00:00Z',
+      values: { name: 'Cormyr Reborn' },
+    });
+    const { result, rerender } = renderFormDraft({
+      draftKey: 'world.world-1',
+      values: { name: 'Cormyr' },
+      isDirty: false,
+      baseUpdatedAt: '2026-10-19T12:00:00Z',
+    });
+
+    expect(result.current.pendingDraft?.values).toEqual({ name: 'Cormyr Reborn' });
+    expect(result.current.isDraftStale).toBe(false);
+
+    // Unchanged values do not remove the offered draft
+    act(() => vi.advanceTimersByTime(DRAFT_SAVE_DELAY));
+    expect(readFormDraft('world.world-1')).not.toBeNull();
+
+    let restored: Values | null = null;
+    act(() => {
+      restored = result.current.restoreDraft();
+    });
+    expect(restored).toEqual({ name: 'Cormyr Reborn' });
+    expect(result.current.pendingDraft).toBeNull();
+
+    rerender({
+      draftKey: 'world.world-1',
+      values: { name: 'Cormyr Reborn' },
+      isDirty: true,
+      baseUpdatedAt: '2026-10-19T12:00:00Z',
+    });
+    act(() => vi.advanceTimersByTime(DRAFT_SAVE_DELAY));
+    expect(readFormDraft<Values>('world.world-1')?.values).toEqual({ name: 'Cormyr Reborn' });
+  });
+
+  it('flags a draft taken before the server copy changed', () => {
+    writeFormDraft('world.world-1', {
+      savedAt: '2026-10-19T14:32:00Z',
+      baseUpdatedAt: '2026-10-19T12:00:00Z',
+      values: { name: 'Cormyr Reborn' },
+    });
+
+    const { result } = renderFormDraft({
+      draftKey: 'world.world-1',
+      values: { name: 'Cormyr' },
+      isDirty: false,
+      baseUpdatedAt: '2026-10-19T15:00:00Z',
+    });
+
+    expect(result.current.isDraftStale).toBe(true);
+  });
+
+  it('forgets the draft when it is dismissed or cleared', () => {
+    writeFormDraft('world.new', { savedAt: '2026-10-19T14:32:00Z', baseUpdatedAt: null, values: { name: 'Cormyr' } });
+    const { result, rerender } = renderFormDraft({ draftKey: 'world.new', values: { name: '' }, isDirty: false });
+
+    act(() => result.current.dismissDraft());
+    expect(result.current.pendingDraft).toBeNull();
+    expect(readFormDraft('world.new')).toBeNull();
+
+    rerender({ draftKey: 'world.new', values: { name: 'Sembia' }, isDirty: true });
+    act(() => result.current.clearDraft());
+    act(() => vi.advanceTimersByTime(DRAFT_SAVE_DELAY));
+    expect(readFormDraft('world.new')).toBeNull();
+  });
+});
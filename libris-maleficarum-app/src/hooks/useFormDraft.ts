@@ -0,0 +1,134 @@
+/**
+ * useFormDraft Hook
+ *
+ * Autosaves a form's values as a draft while they differ from what was
+ * loaded, and offers a draft left by an earlier session when the form opens.
+ * Autosaving waits until that offer is restored or dismissed, so an old
+ * draft is not overwritten before the user has seen it. Drafts are also
+ * saved when the page is hidden, which is often the last chance before a
+ * tab is discarded or a laptop sleeps.
+ *
+ * @module hooks/useFormDraft
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { clearFormDraft, readFormDraft, writeFormDraft, type FormDraft } from '@/lib/formDrafts';
+
+/** Pause in typing after which the draft is saved, in milliseconds */
+export const DRAFT_SAVE_DELAY = 1000;
+
+export interface UseFormDraftOptions<T> {
+  /** Draft key, or null while the form is loading */
+  draftKey: string | null;
+
+  /** Current form values */
+  values: T;
+
+  /** Whether the values differ from what was loaded (drafts of unchanged forms are removed) */
+  isDirty: boolean;
+
+  /** `updatedAt` of the server copy being edited (omit for new items) */
+  baseUpdatedAt?: string | null;
+}
+
+export interface UseFormDraftResult<T> {
+  /** Draft from an earlier session, offered for restoring */
+  pendingDraft: FormDraft<T> | null;
+
+  /** Whether the server copy changed after the offered draft was taken */
+  isDraftStale: boolean;
+
+  /** Accept the offered draft; returns its values for the form to apply */
+  restoreDraft: () => T | null;
+
+  /** Reject the offered draft and forget it */
+  dismissDraft: () => void;
+
+  /** Forget the draft, after a successful save or an explicit discard */
+  clearDraft: () => void;
+}
+
+/**
+ * @param options - Draft key, form values and their state
+ * @returns The offered draft and functions to restore, dismiss or clear it
+ */
+export function useFormDraft<T>({
+  draftKey,
+  values,
+  isDirty,
+  baseUpdatedAt = null,
+}: UseFormDraftOptions<T>): UseFormDraftResult<T> {
+  // The offer is read once per key; it is null once restored or dismissed
+  const [offer, setOffer] = useState<{ key: string | null; draft: FormDraft<T> | null }>({
+    key: null,
+    draft: null,
+  });
+  let pendingDraft = offer.draft;
+  if (offer.key !== draftKey) {
+    pendingDraft = draftKey ? readFormDraft<T>(draftKey) : null;
+    setOffer({ key: draftKey, draft: pendingDraft });
+  }
+
+  const serializedValues = JSON.stringify(values);
+
+  // Values that were saved or discarded are not drafted again
+  const clearedValuesRef = useRef<string | null>(null);
+
+  // Latest save, for the page-hidden listener
+  const saveRef = useRef<() => void>(() => {});
+  useEffect(() => {
+    saveRef.current = () => {
+      if (!draftKey || pendingDraft || serializedValues === clearedValuesRef.current) return;
+
+      if (isDirty) {
+        writeFormDraft<T>(draftKey, {
+          savedAt: new Date().toISOString(),
+          baseUpdatedAt,
+          values: JSON.parse(serializedValues) as T,
+        });
+      } else {
+        clearFormDraft(draftKey);
+      }
+    };
+  });
+
+  // Save once typing pauses
+  useEffect(() => {
+    if (!draftKey || pendingDraft) return;
+
+    const timeoutId = window.setTimeout(() => saveRef.current(), DRAFT_SAVE_DELAY);
+    return () => window.clearTimeout(timeoutId);
+  }, [draftKey, pendingDraft, serializedValues, isDirty, baseUpdatedAt]);
+
+  // Save straight away when the page is hidden
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        saveRef.current();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  const restoreDraft = () => {
+    setOffer({ key: draftKey, draft: null });
+    return pendingDraft?.values ?? null;
+  };
+
+  const dismissDraft = () => {
+    if (draftKey) clearFormDraft(draftKey);
+    setOffer({ key: draftKey, draft: null });
+  };
+
+  const clearDraft = useCallback(() => {
+    clearedValuesRef.current = serializedValues;
+    if (draftKey) clearFormDraft(draftKey);
+  }, [draftKey, serializedValues]);
+
+  const isDraftStale =
+    !!pendingDraft && !!baseUpdatedAt && !!pendingDraft.baseUpdatedAt && pendingDraft.baseUpdatedAt !== baseUpdatedAt;
+
+  return { pendingDraft, isDraftStale, restoreDraft, dismissDraft, clearDraft };
+}
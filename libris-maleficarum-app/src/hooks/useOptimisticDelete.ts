@@ -0,0 +1,59 @@
+/**
+ * useOptimisticDelete Hooks
+ *
+ * Access to the callbacks that hide entities from the UI while their deletion
+ * proceeds on the backend, and bring them back if it fails. The callbacks are
+ * provided by `OptimisticDeleteProvider`.
+ *
+ * @module hooks/useOptimisticDelete
+ */
+
+import { createContext, useContext } from 'react';
+
+export interface OptimisticDeleteContextValue {
+  /**
+   * Optimistically remove an entity from the UI
+   *
+   * @param entityId - ID of entity being deleted
+   * @param childIds - Optional array of child entity IDs (for cascading deletes)
+   */
+  onOptimisticDelete: (entityId: string, childIds?: string[]) => void;
+
+  /**
+   * Rollback optimistic delete (restore entity to UI)
+   *
+   * @param entityId - ID of entity to restore
+   * @param childIds - Optional array of child entity IDs to restore
+   */
+  onRollbackDelete: (entityId: string, childIds?: string[]) => void;
+}
+
+export const OptimisticDeleteContext = createContext<OptimisticDeleteContextValue | null>(null);
+
+/**
+ * Hook to access optimistic delete callback
+ *
+ * @returns Optimistic delete context value
+ * @throws Error if used outside OptimisticDeleteProvider
+ */
+export function useOptimisticDelete(): OptimisticDeleteContextValue {
+  const context = useContext(OptimisticDeleteContext);
+
+  if (!context) {
+    throw new Error('useOptimisticDelete must be used within OptimisticDeleteProvider');
+  }
+
+  return context;
+}
+
+/**
+ * Hook to access optimistic delete callbacks without throwing outside the provider
+ *
+ * Useful for hooks that only hide entities as a side effect (e.g. when rolling
+ * back a failed duplicate) and are also rendered in isolation.
+ *
+ * @returns Optimistic delete context value, or null outside OptimisticDeleteProvider
+ */
+export function useOptimisticDeleteOptional(): OptimisticDeleteContextValue | null {
+  return useContext(OptimisticDeleteContext);
+}
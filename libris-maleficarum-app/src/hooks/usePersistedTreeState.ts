@@ -0,0 +1,132 @@
+/**
+ * usePersistedTreeState Hook
+ *
+ * Remembers a world's expanded tree nodes and last selected entity in localStorage
+ * (per user and world) and restores them when the world's tree is shown again.
+ * Restored nodes that turn out to no longer exist are pruned once their parent's
+ * children have been loaded.
+ *
+ * @module hooks/usePersistedTreeState
+ */
+
+import { useEffect, useRef } from 'react';
+import { useStore } from 'react-redux';
+import { useAppDispatch, useAppSelector, type RootState } from '@/store/store';
+import {
+  expandNodes,
+  selectExpandedNodeIds,
+  selectMainPanelMode,
+  selectSelectedEntityId,
+  setExpandedNodes,
+  setSelectedEntity,
+} from '@/store/worldSidebarSlice';
+import { readUserPreference, writeUserPreference } from '@/lib/userPreferences';
+import {
+  EMPTY_PERSISTED_TREE_STATE,
+  indexLoadedEntities,
+  resolvePersistedTreeNodes,
+  toPersistedTreeNodes,
+  type PersistedTreeNode,
+  type PersistedTreeState,
+} from '@/lib/persistedTreeState';
+import type { EntityTreeLevels } from '@/lib/entityTreeRows';
+import { logger } from '@/lib/logger';
+
+const PREFERENCE_NAME = 'treeState';
+
+/**
+ * @param worldId - World whose tree state is remembered
+ * @param levels - Loaded tree levels (used for parent IDs and pruning)
+ * @param options.paused - Stop saving (e.g. while a filter temporarily changes the expanded nodes)
+ */
+export function usePersistedTreeState(
+  worldId: string,
+  levels: EntityTreeLevels,
+  { paused = false }: { paused?: boolean } = {},
+): void {
+  const dispatch = useAppDispatch();
+  const store = useStore<RootState>();
+  const expandedNodeIds = useAppSelector(selectExpandedNodeIds);
+  const selectedEntityId = useAppSelector(selectSelectedEntityId);
+
+  const storedRef = useRef<PersistedTreeState>(EMPTY_PERSISTED_TREE_STATE);
+  // Restored nodes whose existence has not been confirmed yet
+  const unverifiedRef = useRef<PersistedTreeNode[]>([]);
+  // Skips saving the state from before the restore
+  const skipNextSaveRef = useRef(false);
+
+  // Restore when the world's tree is shown
+  useEffect(() => {
+    const stored = readUserPreference<PersistedTreeState>(PREFERENCE_NAME, worldId, EMPTY_PERSISTED_TREE_STATE);
+    storedRef.current = stored;
+    unverifiedRef.current = [...stored.expanded, ...(stored.selected ? [stored.selected] : [])];
+    skipNextSaveRef.current = true;
+
+    if (stored.expanded.length > 0) {
+      // Merge, so nodes revealed for a deep link stay expanded
+      dispatch(expandNodes(stored.expanded.map((node) => node.id)));
+    }
+
+    // Only restore the selection when nothing else (e.g. a deep link) chose one
+    const state = store.getState();
+    if (stored.selected && !selectSelectedEntityId(state) && selectMainPanelMode(state) === 'empty') {
+      dispatch(setSelectedEntity(stored.selected.id));
+    }
+
+    logger.debug('STATE', 'Restored tree state', {
+      worldId,
+      expanded: stored.expanded.length,
+      selected: stored.selected?.id ?? null,
+    });
+  }, [worldId, dispatch, store]);
+
+  // Save whenever the expanded nodes or the selection change
+  useEffect(() => {
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false;
+      return;
+    }
+    if (paused) return;
+
+    const loadedEntities = indexLoadedEntities(levels);
+    const previous = storedRef.current;
+    const next: PersistedTreeState = {
+      expanded: toPersistedTreeNodes(expandedNodeIds, loadedEntities, previous.expanded),
+      selected: selectedEntityId
+        ? toPersistedTreeNodes(
+            [selectedEntityId],
+            loadedEntities,
+            previous.selected ? [previous.selected] : [],
+          )[0]
+        : null,
+    };
+
+    storedRef.current = next;
+    writeUserPreference(PREFERENCE_NAME, worldId, next);
+  }, [worldId, expandedNodeIds, selectedEntityId, levels, paused]);
+
+  // Prune restored nodes that no longer exist
+  useEffect(() => {
+    if (unverifiedRef.current.length === 0) return;
+
+    const { existingIds, missingIds } = resolvePersistedTreeNodes(unverifiedRef.current, levels);
+    if (existingIds.length === 0 && missingIds.length === 0) return;
+
+    const resolved = new Set([...existingIds, ...missingIds]);
+    unverifiedRef.current = unverifiedRef.current.filter((node) => !resolved.has(node.id));
+    if (missingIds.length === 0) return;
+
+    logger.info('STATE', 'Pruning remembered tree nodes that no longer exist', { worldId, missingIds });
+
+    const missing = new Set(missingIds);
+    const state = store.getState();
+    const expanded = selectExpandedNodeIds(state);
+    if (expanded.some((id) => missing.has(id))) {
+      dispatch(setExpandedNodes(expanded.filter((id) => !missing.has(id))));
+    }
+    const selected = selectSelectedEntityId(state);
+    if (selected && missing.has(selected)) {
+      dispatch(setSelectedEntity(null));
+    }
+  }, [levels, worldId, dispatch, store]);
+}
@@ -70,4 +70,54 @@ describe('useSearchHistory', () => {
     expect(worldB.result.current.history).toHaveLength(1);
     expect(worldB.result.current.history[0]?.query).toBe('Neverwinter');
   });
+
+  it('reorders, syncs and removes pins', () => {
+    const { result } = renderHook(() => useSearchHistory('world-a'));
+    const pin = (id: string, name: string) => ({
+      id,
+      worldId: 'world-a',
+      name,
+      entityType: 'Country',
+      path: [],
+      updatedAt: '2026-01-13T12:00:00Z',
+    });
+
+    act(() => {
+      result.current.togglePinnedEntity(pin('cormyr', 'Cormyr'));
+      result.current.togglePinnedEntity(pin('sembia', 'Sembia'));
+      result.current.togglePinnedEntity(pin('amn', 'Amn'));
+    });
+
+    expect(result.current.pinnedEntities.map((item) => item.id)).toEqual(['amn', 'sembia', 'cormyr']);
+
+    act(() => {
+      result.current.reorderPinnedEntity('cormyr', 0);
+      result.current.syncPinnedEntity({ ...pin('sembia', 'Sembia Reborn'), path: ['faerun'] });
+      result.current.removePinnedEntity('amn');
+    });
+
+    expect(result.current.pinnedEntities.map((item) => item.id)).toEqual(['cormyr', 'sembia']);
+    expect(result.current.pinnedEntities[1]).toMatchObject({ name: 'Sembia Reborn', path: ['faerun'] });
+    expect(result.current.isPinned('sembia')).toBe(true);
+    expect(result.current.isPinned('amn')).toBe(false);
+  });
+
+  it('keeps every hook instance of a world in sync', () => {
+    const first = renderHook(() => useSearchHistory('world-a'));
+    const second = renderHook(() => useSearchHistory('world-a'));
+
+    act(() => {
+      first.result.current.togglePinnedEntity({
+        id: 'cormyr',
+        worldId: 'world-a',
+        name: 'Cormyr',
+        entityType: 'Country',
+        updatedAt: '2026-01-13T12:00:00Z',
+      });
+      first.result.current.addSearchQuery('Suzail');
+    });
+
+    expect(second.result.current.isPinned('cormyr')).toBe(true);
+    expect(second.result.current.history[0]?.query).toBe('Suzail');
+  });
 });
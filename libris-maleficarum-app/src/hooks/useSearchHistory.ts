@@ -22,6 +22,12 @@ export interface RecentEntityRecord {
 
 export type PinnedEntityRecord = RecentEntityRecord;
 
+/** Entity fields kept in a pinned record (satisfied by search results and world entities) */
+export type PinnableEntity = Pick<SearchResultItem, 'id' | 'worldId' | 'name' | 'entityType' | 'path' | 'updatedAt'>;
+
+/** Fired on the window after this module writes to storage, so every hook instance stays in sync */
+const STORAGE_CHANGE_EVENT = 'lm:search-storage-change';
+
 function storageKey(prefix: string, worldId: string | null): string {
   return `lm.search.${prefix}.${worldId ?? 'global'}`;
 }
@@ -53,7 +59,10 @@ function writeStoredItems<T>(key: string, value: T[]): void {
     localStorage.setItem(key, JSON.stringify(value));
   } catch {
     // Ignore localStorage quota / privacy restrictions in tests or restricted browsers.
+    return;
   }
+
+  window.dispatchEvent(new CustomEvent<string>(STORAGE_CHANGE_EVENT, { detail: key }));
 }
 
 function truncate<T>(items: T[], limit: number): T[] {
@@ -75,6 +84,21 @@ function dedupeSearchQueries(items: SearchHistoryEntry[], query: string): Search
   );
 }
 
+function toPinnedRecord(entity: PinnableEntity): PinnedEntityRecord {
+  return {
+    id: entity.id,
+    worldId: entity.worldId,
+    name: entity.name,
+    entityType: entity.entityType,
+    path: entity.path,
+    updatedAt: entity.updatedAt ?? new Date().toISOString(),
+  };
+}
+
+function isSamePin(item: PinnedEntityRecord, entity: Pick<PinnableEntity, 'id' | 'worldId'>): boolean {
+  return item.id === entity.id && item.worldId === entity.worldId;
+}
+
 function dedupeRecentEntities(items: RecentEntityRecord[], entity: SearchResultItem): RecentEntityRecord[] {
   return truncate(
     [
@@ -111,32 +135,65 @@ export function useSearchHistory(worldId: string | null) {
   }, [worldId]);
   /* eslint-enable react-hooks/set-state-in-effect */
 
+  // Pick up changes made by other instances of this hook (or other tabs)
+  useEffect(() => {
+    const reload = (key: string | null) => {
+      if (key === storageKey('history', worldId)) {
+        setHistory(readStoredItems<SearchHistoryEntry>(key));
+      } else if (key === storageKey('recent', worldId)) {
+        setRecentEntities(readStoredItems<RecentEntityRecord>(key));
+      } else if (key === storageKey('pinned', worldId)) {
+        setPinnedEntities(readStoredItems<PinnedEntityRecord>(key));
+      }
+    };
+    const handleChange = (event: Event) => reload((event as CustomEvent<string>).detail);
+    const handleStorage = (event: StorageEvent) => reload(event.key);
+
+    window.addEventListener(STORAGE_CHANGE_EVENT, handleChange);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(STORAGE_CHANGE_EVENT, handleChange);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [worldId]);
+
+  // Writes happen outside state updaters, since writing notifies the other hook instances
   const addSearchQuery = useCallback((query: string) => {
-    setHistory((currentHistory) => {
-      const nextHistory = dedupeSearchQueries(currentHistory, query);
-      writeStoredItems(storageKey('history', worldId), nextHistory);
-      return nextHistory;
-    });
+    const key = storageKey('history', worldId);
+    const nextHistory = dedupeSearchQueries(readStoredItems<SearchHistoryEntry>(key), query);
+    writeStoredItems(key, nextHistory);
+    setHistory(nextHistory);
   }, [worldId]);
 
   const addRecentEntity = useCallback((entity: SearchResultItem) => {
-    setRecentEntities((currentRecent) => {
-      const nextRecent = dedupeRecentEntities(currentRecent, entity);
-      writeStoredItems(storageKey('recent', worldId), nextRecent);
-      return nextRecent;
-    });
+    const key = storageKey('recent', worldId);
+    const nextRecent = dedupeRecentEntities(readStoredItems<RecentEntityRecord>(key), entity);
+    writeStoredItems(key, nextRecent);
+    setRecentEntities(nextRecent);
   }, [worldId]);
 
-  const togglePinnedEntity = useCallback((entity: SearchResultItem) => {
-    let wasPinned = false;
+  const updatePinnedEntities = useCallback(
+    (update: (currentPinned: PinnedEntityRecord[]) => PinnedEntityRecord[]) => {
+      // Read from storage, so changes made through other hook instances are not lost
+      const key = storageKey('pinned', worldId);
+      const currentPinned = readStoredItems<PinnedEntityRecord>(key);
+      const nextPinned = update(currentPinned);
+      if (nextPinned === currentPinned) {
+        return;
+      }
 
-    setPinnedEntities((currentPinned) => {
-      const existing = currentPinned.some((item) => item.id === entity.id && item.worldId === entity.worldId);
+      writeStoredItems(key, nextPinned);
+      setPinnedEntities(nextPinned);
+    },
+    [worldId],
+  );
+
+  const togglePinnedEntity = useCallback((entity: PinnableEntity) => {
+    let wasPinned = false;
 
-      if (existing) {
-        const nextPinned = currentPinned.filter((item) => item.id !== entity.id || item.worldId !== entity.worldId);
-        writeStoredItems(storageKey('pinned', worldId), nextPinned);
-        return nextPinned;
+    updatePinnedEntities((currentPinned) => {
+      if (currentPinned.some((item) => isSamePin(item, entity))) {
+        return currentPinned.filter((item) => !isSamePin(item, entity));
       }
 
       if (currentPinned.length >= MAX_PINNED_ITEMS) {
@@ -144,27 +201,56 @@ export function useSearchHistory(worldId: string | null) {
       }
 
       wasPinned = true;
-      const nextPinned = truncate(
-        [
-          {
-            id: entity.id,
-            worldId: entity.worldId,
-            name: entity.name,
-            entityType: entity.entityType,
-            path: entity.path,
-            updatedAt: entity.updatedAt ?? new Date().toISOString(),
-          },
-          ...currentPinned,
-        ],
-        MAX_PINNED_ITEMS,
-      );
-
-      writeStoredItems(storageKey('pinned', worldId), nextPinned);
-      return nextPinned;
+      return truncate([toPinnedRecord(entity), ...currentPinned], MAX_PINNED_ITEMS);
     });
 
     return wasPinned;
-  }, [worldId]);
+  }, [updatePinnedEntities]);
+
+  /** Move a pinned entity to a new position among the pins */
+  const reorderPinnedEntity = useCallback((entityId: string, targetIndex: number) => {
+    updatePinnedEntities((currentPinned) => {
+      const pinned = currentPinned.find((item) => item.id === entityId);
+      if (!pinned) {
+        return currentPinned;
+      }
+
+      const others = currentPinned.filter((item) => item !== pinned);
+      const index = Math.max(0, Math.min(targetIndex, others.length));
+      if (currentPinned.indexOf(pinned) === index) {
+        return currentPinned;
+      }
+
+      return [...others.slice(0, index), pinned, ...others.slice(index)];
+    });
+  }, [updatePinnedEntities]);
+
+  /** Update a pinned record after its entity was renamed, moved or retyped */
+  const syncPinnedEntity = useCallback((entity: PinnableEntity) => {
+    updatePinnedEntities((currentPinned) => {
+      const index = currentPinned.findIndex((item) => isSamePin(item, entity));
+      const pinned = currentPinned[index];
+      if (
+        !pinned ||
+        (pinned.name === entity.name &&
+          pinned.entityType === entity.entityType &&
+          (pinned.path ?? []).join('/') === (entity.path ?? []).join('/'))
+      ) {
+        return currentPinned;
+      }
+
+      return currentPinned.map((item, i) => (i === index ? toPinnedRecord(entity) : item));
+    });
+  }, [updatePinnedEntities]);
+
+  /** Remove a pin without toggling (e.g. once its entity is gone) */
+  const removePinnedEntity = useCallback((entityId: string) => {
+    updatePinnedEntities((currentPinned) =>
+      currentPinned.some((item) => item.id === entityId)
+        ? currentPinned.filter((item) => item.id !== entityId)
+        : currentPinned,
+    );
+  }, [updatePinnedEntities]);
 
   return useMemo(
     () => ({
@@ -175,7 +261,21 @@ export function useSearchHistory(worldId: string | null) {
       addSearchQuery,
       addRecentEntity,
       togglePinnedEntity,
+      isPinned: (entityId: string) => pinnedEntities.some((item) => item.id === entityId),
+      reorderPinnedEntity,
+      syncPinnedEntity,
+      removePinnedEntity,
     }),
-    [addRecentEntity, addSearchQuery, history, pinnedEntities, recentEntities, togglePinnedEntity],
+    [
+      addRecentEntity,
+      addSearchQuery,
+      history,
+      pinnedEntities,
+      recentEntities,
+      togglePinnedEntity,
+      reorderPinnedEntity,
+      syncPinnedEntity,
+      removePinnedEntity,
+    ],
   );
 }
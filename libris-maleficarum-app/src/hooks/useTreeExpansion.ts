@@ -0,0 +1,114 @@
+/**
+ * useTreeExpansion Hook
+ *
+ * "Expand to depth N" and "Collapse all" commands for the EntityTree. Expanding
+ * walks the hierarchy level by level, fetching the first page of children of each
+ * parent that is not loaded yet, and expands every entry with children down to
+ * the requested depth.
+ *
+ * @module hooks/useTreeExpansion
+ */
+
+import { useCallback, useState } from 'react';
+import { toast } from 'sonner';
+import { useAppDispatch, useAppSelector } from '@/store/store';
+import { collapseAllNodes, selectSelectedWorldId, setExpandedNodes } from '@/store/worldSidebarSlice';
+import { worldEntityApi } from '@/services/worldEntityApi';
+import { getProblemDetailsMessage } from '@/services/types/problemDetails.types';
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+import { logger } from '@/lib/logger';
+
+/** Most entries expanded by one command, so huge worlds stay responsive */
+export const MAX_EXPANDED_NODES = 500;
+
+/** Levels fetched at the same time */
+const FETCH_CONCURRENCY = 8;
+
+export interface UseTreeExpansionResult {
+  /**
+   * Expand every entry down to a depth (1 expands the top-level entries)
+   *
+   * @returns True if the entries were expanded
+   */
+  expandToDepth: (depth: number) => Promise<boolean>;
+
+  /** Collapse every entry */
+  collapseAll: () => void;
+
+  /** Whether levels are being fetched for an expand command */
+  isExpanding: boolean;
+}
+
+export function useTreeExpansion(): UseTreeExpansionResult {
+  const dispatch = useAppDispatch();
+  const worldId = useAppSelector(selectSelectedWorldId);
+  const [isExpanding, setIsExpanding] = useState(false);
+
+  const fetchChildren = useCallback(
+    async (parentId: string | null): Promise<WorldEntity[]> => {
+      if (!worldId) return [];
+      // Served from the cache when the level is already loaded
+      const result = await dispatch(
+        worldEntityApi.endpoints.getEntitiesByParent.initiate({ worldId, parentId }, { subscribe: false }),
+      ).unwrap();
+      return result.pages.flatMap((page) => page.data);
+    },
+    [worldId, dispatch],
+  );
+
+  const expandToDepth = useCallback(
+    async (depth: number) => {
+      if (!worldId || depth < 1) return false;
+
+      logger.userAction('Expand tree to depth', { worldId, depth });
+      setIsExpanding(true);
+
+      const expandedIds: string[] = [];
+      let truncated = false;
+
+      try {
+        let level = await fetchChildren(null);
+        for (let currentDepth = 1; currentDepth <= depth && level.length > 0; currentDepth++) {
+          let parents = level.filter((entity) => entity.hasChildren);
+          if (expandedIds.length + parents.length > MAX_EXPANDED_NODES) {
+            parents = parents.slice(0, MAX_EXPANDED_NODES - expandedIds.length);
+            truncated = true;
+          }
+          expandedIds.push(...parents.map((entity) => entity.id));
+          if (truncated || currentDepth === depth) break;
+
+          // Prefetch the children of this level to find the next one
+          const nextLevel: WorldEntity[] = [];
+          for (let i = 0; i < parents.length; i += FETCH_CONCURRENCY) {
+            const chunk = parents.slice(i, i + FETCH_CONCURRENCY);
+            const children = await Promise.all(chunk.map((entity) => fetchChildren(entity.id)));
+            nextLevel.push(...children.flat());
+          }
+          level = nextLevel;
+        }
+      } catch (error) {
+        logger.error('API', 'Failed to expand tree', { worldId, depth, error });
+        toast.error('The codex could not be unfolded', {
+          description: getProblemDetailsMessage(error, 'Please try again.'),
+        });
+        return false;
+      } finally {
+        setIsExpanding(false);
+      }
+
+      dispatch(setExpandedNodes(expandedIds));
+      if (truncated) {
+        toast.info(`Only the first ${MAX_EXPANDED_NODES} entries were expanded`);
+      }
+      return true;
+    },
+    [worldId, fetchChildren, dispatch],
+  );
+
+  const collapseAll = useCallback(() => {
+    logger.userAction('Collapse tree', { worldId });
+    dispatch(collapseAllNodes());
+  }, [worldId, dispatch]);
+
+  return { expandToDepth, collapseAll, isExpanding };
+}
@@ -0,0 +1,219 @@
+/**
+ * useUndoHistory Hook
+ *
+ * Records changes to entries in the undo history and undoes or redoes them by
+ * replaying their operations through the same API mutations that made them,
+ * so caches are invalidated exactly as for the original change. Deletes are
+ * optimistic here as well, and restored entries reappear in the tree.
+ *
+ * Only the most recent change can be undone (and the most recently undone one
+ * redone); earlier changes are reached by stepping back through the history.
+ *
+ * @module hooks/useUndoHistory
+ */
+
+import { useCallback } from 'react';
+import { useStore } from 'react-redux';
+import { toast } from 'sonner';
+import { useAppDispatch, type RootState } from '@/store/store';
+import { expandNode } from '@/store/worldSidebarSlice';
+import {
+  changeRecorded,
+  changeRedone,
+  changeUndone,
+  setApplyingEntry,
+} from '@/store/undoHistorySlice';
+import { worldEntityApi } from '@/services/worldEntityApi';
+import { deleteOperationsApi } from '@/services/asyncOperationsApi';
+import { getProblemDetailsMessage } from '@/services/types/problemDetails.types';
+import { useOptimisticDeleteOptional } from './useOptimisticDelete';
+import { shouldRollbackDelete } from '@/lib/asyncOperationHelpers';
+import type { UndoEntry, UndoOperation, UndoableChange } from '@/lib/undoHistory';
+import { logger } from '@/lib/logger';
+
+/**
+ * Action button shown in a toast
+ */
+export interface UndoToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface UseUndoHistoryResult {
+  /**
+   * Record a change that was just made
+   *
+   * @param worldId - World the change was made in
+   * @param label - What was done (e.g. 'Rename "Cormyr"')
+   * @param change - Operations reversing and reapplying the change
+   * @returns "Undo" action for the toast confirming the change
+   */
+  recordChange: (worldId: string, label: string, change: UndoableChange) => UndoToastAction;
+
+  /**
+   * Undo the most recent change
+   *
+   * @param entryId - Only undo this change (skipped if later changes were made)
+   * @returns True if a change was undone
+   */
+  undo: (entryId?: string) => Promise<boolean>;
+
+  /**
+   * Redo the most recently undone change
+   *
+   * @returns True if a change was redone
+   */
+  redo: () => Promise<boolean>;
+}
+
+let entryCounter = 0;
+
+export function useUndoHistory(): UseUndoHistoryResult {
+  const dispatch = useAppDispatch();
+  const store = useStore<RootState>();
+  const optimisticDelete = useOptimisticDeleteOptional();
+
+  const runOperation = useCallback(
+    async (worldId: string, operation: UndoOperation) => {
+      const { entityId } = operation;
+
+      switch (operation.kind) {
+        case 'update':
+          await dispatch(
+            worldEntityApi.endpoints.updateWorldEntity.initiate({
+              worldId,
+              entityId,
+              data: operation.data,
+              currentEntityType: operation.currentEntityType,
+            }),
+          ).unwrap();
+          break;
+
+        case 'patch':
+          await dispatch(
+            worldEntityApi.endpoints.patchWorldEntity.initiate({ worldId, entityId, data: operation.data }),
+          ).unwrap();
+          break;
+
+        case 'move':
+          await dispatch(
+            worldEntityApi.endpoints.moveWorldEntity.initiate({
+              worldId,
+              entityId,
+              data: { newParentId: operation.parentId },
+            }),
+          ).unwrap();
+          if (operation.parentId) {
+            dispatch(expandNode(operation.parentId));
+          }
+          break;
+
+        case 'delete':
+          optimisticDelete?.onOptimisticDelete(entityId);
+          try {
+            await dispatch(
+              deleteOperationsApi.endpoints.initiateEntityDelete.initiate({ worldId, entityId, cascade: true }),
+            ).unwrap();
+          } catch (error) {
+            if (shouldRollbackDelete(error)) {
+              optimisticDelete?.onRollbackDelete(entityId);
+            }
+            throw error;
+          }
+          break;
+
+        case 'restore':
+          await dispatch(
+            worldEntityApi.endpoints.restoreWorldEntity.initiate({ worldId, entityId, cascade: true }),
+          ).unwrap();
+          optimisticDelete?.onRollbackDelete(entityId);
+          // The level beneath the restored entry was cached without its children
+          dispatch(
+            worldEntityApi.util.invalidateTags([{ type: 'WorldEntity', id: `PARENT_${worldId}_${entityId}` }]),
+          );
+          break;
+      }
+    },
+    [dispatch, optimisticDelete],
+  );
+
+  /**
+   * Replay the undo or redo operations of an entry
+   *
+   * @returns True if every operation succeeded
+   */
+  const applyEntry = useCallback(
+    async (entry: UndoEntry, direction: 'undo' | 'redo') => {
+      logger.userAction(direction === 'undo' ? 'Undo change' : 'Redo change', {
+        entryId: entry.id,
+        label: entry.label,
+      });
+      dispatch(setApplyingEntry(entry.id));
+
+      try {
+        for (const operation of entry[direction]) {
+          await runOperation(entry.worldId, operation);
+        }
+        return true;
+      } catch (error) {
+        logger.error('API', `Failed to ${direction} change`, { entryId: entry.id, error });
+        toast.error(`"${entry.label}" could not be ${direction === 'undo' ? 'undone' : 'redone'}`, {
+          description: getProblemDetailsMessage(error, 'Please try again.'),
+        });
+        return false;
+      } finally {
+        dispatch(setApplyingEntry(null));
+      }
+    },
+    [dispatch, runOperation],
+  );
+
+  const redo = useCallback(async (): Promise<boolean> => {
+    const { future, applyingEntryId } = store.getState().undoHistory;
+    const entry = future[future.length - 1];
+    if (!entry || applyingEntryId) return false;
+
+    if (!(await applyEntry(entry, 'redo'))) return false;
+
+    dispatch(changeRedone(entry.id));
+    toast.success(`Redone: ${entry.label}`);
+    return true;
+  }, [store, applyEntry, dispatch]);
+
+  const undo = useCallback(
+    async (entryId?: string): Promise<boolean> => {
+      const { past, applyingEntryId } = store.getState().undoHistory;
+      const entry = past[past.length - 1];
+      if (!entry || applyingEntryId) return false;
+
+      if (entryId && entry.id !== entryId) {
+        toast.info('Later changes must be undone first', {
+          description: 'Step back through them in the undo history.',
+        });
+        return false;
+      }
+
+      if (!(await applyEntry(entry, 'undo'))) return false;
+
+      dispatch(changeUndone(entry.id));
+      toast.success(`Undone: ${entry.label}`, {
+        action: { label: 'Redo', onClick: () => void redo() },
+      });
+      return true;
+    },
+    [store, applyEntry, dispatch, redo],
+  );
+
+  const recordChange = useCallback(
+    (worldId: string, label: string, change: UndoableChange): UndoToastAction => {
+      const recordedAt = Date.now();
+      const id = `change-${recordedAt}-${++entryCounter}`;
+      dispatch(changeRecorded({ id, worldId, label, recordedAt, ...change }));
+
+      return { label: 'Undo', onClick: () => void undo(id) };
+    },
+    [dispatch, undo],
+  );
+
+  return { recordChange, undo, redo };
+}
@@ -0,0 +1,201 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { ReactNode } from 'react';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { setupServer } from 'msw/node';
+
+import { api } from '@/services/api';
+import worldSidebarReducer, {
+  openEntityFormEdit,
+  setSelectedEntity,
+  setUnsavedChanges,
+} from '@/store/worldSidebarSlice';
+import { handlers } from '@/__tests__/mocks/handlers';
+
+import { useUrlSync } from './useUrlSync';
+
+const server = setupServer(...handlers);
+
+const createStore = () =>
+  configureStore({
+    reducer: {
+      worldSidebar: worldSidebarReducer,
+      [api.reducerPath]: api.reducer,
+    },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(api.middleware),
+  });
+
+function renderUrlSync(store = createStore()) {
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <Provider store={store}>{children}</Provider>
+  );
+
+  return { store, ...renderHook(() => useUrlSync(), { wrapper }) };
+}
+
+function navigateBack(path: string) {
+  window.history.replaceState(null, '', path);
+  window.dispatchEvent(new PopStateEvent('popstate'));
+}
+
+describe('useUrlSync', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'warn' }));
+  afterAll(() => server.close());
+
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  it('hydrates selection and edit mode from a deep link and expands ancestors', async () => {
+    window.history.replaceState(null, '', '/worlds/test-world-123/entities/city-suzail/edit');
+
+    const { store } = renderUrlSync();
+
+    const sidebar = store.getState().worldSidebar;
+    expect(sidebar.selectedWorldId).toBe('test-world-123');
+    expect(sidebar.selectedEntityId).toBe('city-suzail');
+    expect(sidebar.mainPanelMode).toBe('editing_entity');
+    expect(sidebar.editingEntityId).toBe('city-suzail');
+
+    await waitFor(() => {
+      expect(store.getState().worldSidebar.expandedNodeIds).toEqual([
+        'continent-faerun',
+        'country-cormyr',
+      ]);
+    });
+    expect(window.location.pathname).toBe('/worlds/test-world-123/entities/city-suzail/edit');
+  });
+
+  it('pushes a history entry when the selection changes', () => {
+    window.history.replaceState(null, '', '/worlds/test-world-123');
+    const { store } = renderUrlSync();
+    const historyLength = window.history.length;
+
+    act(() => {
+      store.dispatch(setSelectedEntity('country-cormyr'));
+    });
+
+    expect(window.location.pathname).toBe('/worlds/test-world-123/entities/country-cormyr');
+    expect(window.history.length).toBe(historyLength + 1);
+  });
+
+  it('applies back/forward navigation to the store', () => {
+    window.history.replaceState(null, '', '/worlds/test-world-123/entities/country-cormyr');
+    const { store } = renderUrlSync();
+
+    act(() => {
+      navigateBack('/worlds/test-world-123');
+    });
+
+    expect(store.getState().worldSidebar.selectedEntityId).toBeNull();
+    expect(store.getState().worldSidebar.mainPanelMode).toBe('empty');
+  });
+
+  it('holds back/forward navigation while the form has unsaved changes', () => {
+    window.history.replaceState(null, '', '/worlds/test-world-123/entities/country-cormyr');
+    const { store, result } = renderUrlSync();
+
+    act(() => {
+      store.dispatch(openEntityFormEdit('country-cormyr'));
+      store.dispatch(setUnsavedChanges(true));
+    });
+
+    act(() => {
+      navigateBack('/worlds/test-world-123');
+    });
+
+    expect(result.current.pendingRoute).toEqual({ kind: 'world', worldId: 'test-world-123' });
+    expect(store.getState().worldSidebar.mainPanelMode).toBe('editing_entity');
+    expect(window.location.pathname).toBe('/worlds/test-world-123/entities/country-cormyr/edit');
+
+    act(() => {
+      result.current.confirmPendingNavigation();
+    });
+
+    expect(result.current.pendingRoute).toBeNull();
+    expect(store.getState().worldSidebar.hasUnsavedChanges).toBe(false);
+    expect(store.getState().worldSidebar.selectedEntityId).toBeNull();
+    expect(window.location.pathname).toBe('/worlds/test-world-123');
+  });
+
+  it('returns to the form without adding history entries while back is held', async () => {
+    window.history.replaceState(null, '', '/worlds/test-world-123');
+    const { store, result } = renderUrlSync();
+
+    act(() => {
+      store.dispatch(setSelectedEntity('country-cormyr'));
+    });
+    act(() => {
+      store.dispatch(openEntityFormEdit('country-cormyr'));
+      store.dispatch(setUnsavedChanges(true));
+    });
+    const historyLength = window.history.length;
+
+    // Back is held twice; the form keeps its entry each time
+    for (let attempt = 0; attempt < 2; attempt++) {
+      act(() => {
+        window.history.back();
+      });
+      await waitFor(() => {
+        expect(result.current.pendingRoute).toEqual({
+          kind: 'entity',
+          worldId: 'test-world-123',
+          entityId: 'country-cormyr',
+        });
+        expect(window.location.pathname).toBe('/worlds/test-world-123/entities/country-cormyr/edit');
+      });
+      act(() => {
+        result.current.cancelPendingNavigation();
+      });
+    }
+
+    act(() => {
+      window.history.back();
+    });
+    await waitFor(() => expect(result.current.pendingRoute).not.toBeNull());
+    act(() => {
+      result.current.confirmPendingNavigation();
+    });
+
+    await waitFor(() => {
+      expect(window.location.pathname).toBe('/worlds/test-world-123/entities/country-cormyr');
+      expect(store.getState().worldSidebar.mainPanelMode).toBe('viewing_entity');
+    });
+    expect(window.history.length).toBe(historyLength);
+
+    // Back now leaves the entry as usual
+    act(() => {
+      window.history.back();
+    });
+    await waitFor(() => {
+      expect(window.location.pathname).toBe('/worlds/test-world-123');
+      expect(store.getState().worldSidebar.selectedEntityId).toBeNull();
+    });
+  });
+
+  it('keeps the form open when pending navigation is cancelled', () => {
+    window.history.replaceState(null, '', '/worlds/test-world-123/entities/country-cormyr/edit');
+    const { store, result } = renderUrlSync();
+
+    act(() => {
+      store.dispatch(setUnsavedChanges(true));
+    });
+
+    act(() => {
+      navigateBack('/');
+    });
+
+    act(() => {
+      result.current.cancelPendingNavigation();
+    });
+
+    expect(result.current.pendingRoute).toBeNull();
+    expect(store.getState().worldSidebar.mainPanelMode).toBe('editing_entity');
+    expect(store.getState().worldSidebar.selectedWorldId).toBe('test-world-123');
+  });
+});
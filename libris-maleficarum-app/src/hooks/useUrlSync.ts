@@ -0,0 +1,285 @@
+/**
+ * useUrlSync Hook
+ *
+ * Keeps the browser URL and the World Sidebar navigation state in sync:
+ * - On load, the URL drives world/entity selection and the main panel mode
+ * - Redux changes push (or replace) history entries
+ * - Back/forward navigation re-applies the URL, asking for confirmation
+ *   first when the open form has unsaved changes. A held navigation returns
+ *   to the form's history entry with `history.go`, so no entries are added
+ * - Ancestors of a deep-linked entity are expanded using `WorldEntity.path`
+ *
+ * @module hooks/useUrlSync
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/store';
+import {
+  expandNodes,
+  openEntityFormCreate,
+  openEntityFormEdit,
+  openMoveEntity,
+  openTrash,
+  openRelationshipGraph,
+  openWorldFormCreate,
+  openWorldFormEdit,
+  resetToHome,
+  setSelectedEntity,
+  setSelectedWorld,
+  setUnsavedChanges,
+} from '@/store/worldSidebarSlice';
+import { useGetWorldEntityByIdQuery } from '@/services/worldEntityApi';
+import {
+  buildRoutePath,
+  getRouteRevealEntityId,
+  parseRoute,
+  routeFromState,
+  type AppRoute,
+} from '@/lib/routing';
+import { logger } from '@/lib/logger';
+
+interface RevealTarget {
+  worldId: string;
+  entityId: string;
+  /** Also expand the entity itself (used when creating a child beneath it) */
+  includeSelf: boolean;
+}
+
+export interface UseUrlSyncResult {
+  /** Route the user tried to navigate to while the form had unsaved changes */
+  pendingRoute: AppRoute | null;
+
+  /** Discard unsaved changes and navigate to the pending route */
+  confirmPendingNavigation: () => void;
+
+  /** Stay on the current form and forget the pending route */
+  cancelPendingNavigation: () => void;
+}
+
+/**
+ * State stored with each history entry the app writes
+ */
+interface HistoryEntryState {
+  /** Position of the entry, counting from the app's first entry */
+  index: number;
+}
+
+function currentLocationPath(): string {
+  return `${window.location.pathname}${window.location.search}`;
+}
+
+function getHistoryIndex(state: unknown): number | null {
+  const index = (state as Partial<HistoryEntryState> | null)?.index;
+  return typeof index === 'number' ? index : null;
+}
+
+export function useUrlSync(): UseUrlSyncResult {
+  const dispatch = useAppDispatch();
+  const sidebar = useAppSelector((state) => state.worldSidebar);
+  const currentPath = buildRoutePath(routeFromState(sidebar));
+
+  const [pendingRoute, setPendingRoute] = useState<AppRoute | null>(null);
+  const [revealTarget, setRevealTarget] = useState<RevealTarget | null>(null);
+
+  const hydratedRef = useRef(false);
+  const lastPathRef = useRef(currentPath);
+  const historyIndexRef = useRef(0);
+  /** Steps from the form's entry to the entry of the pending route (null when unknown) */
+  const pendingDeltaRef = useRef<number | null>(null);
+  /** Traversal started by the hook itself, handled when its popstate arrives */
+  const traversalRef = useRef<'restore' | 'confirm' | null>(null);
+  const latestRef = useRef({
+    selectedWorldId: sidebar.selectedWorldId,
+    hasUnsavedChanges: sidebar.hasUnsavedChanges,
+    currentPath,
+  });
+
+  useEffect(() => {
+    latestRef.current = {
+      selectedWorldId: sidebar.selectedWorldId,
+      hasUnsavedChanges: sidebar.hasUnsavedChanges,
+      currentPath,
+    };
+  }, [sidebar.selectedWorldId, sidebar.hasUnsavedChanges, currentPath]);
+
+  const applyRoute = useCallback(
+    (route: AppRoute) => {
+      logger.debug('STATE', 'Applying route from URL', { route });
+
+      if (route.kind === 'home') {
+        dispatch(resetToHome());
+        setRevealTarget(null);
+        return;
+      }
+
+      if (route.kind === 'world_create') {
+        dispatch(openWorldFormCreate());
+        setRevealTarget(null);
+        return;
+      }
+
+      if (route.worldId !== latestRef.current.selectedWorldId) {
+        dispatch(setSelectedWorld(route.worldId));
+      }
+
+      switch (route.kind) {
+        case 'world':
+          dispatch(setSelectedEntity(null));
+          break;
+        case 'world_edit':
+          dispatch(openWorldFormEdit(route.worldId));
+          break;
+        case 'world_trash':
+          dispatch(openTrash());
+          break;
+        case 'world_graph':
+          dispatch(openRelationshipGraph());
+          break;
+        case 'entity':
+          dispatch(setSelectedEntity(route.entityId));
+          break;
+        case 'entity_edit':
+          dispatch(setSelectedEntity(route.entityId));
+          dispatch(openEntityFormEdit(route.entityId));
+          break;
+        case 'entity_move':
+          dispatch(setSelectedEntity(route.entityId));
+          dispatch(openMoveEntity(route.entityId));
+          break;
+        case 'entity_create':
+          dispatch(openEntityFormCreate(route.parentId));
+          break;
+      }
+
+      const revealEntityId = getRouteRevealEntityId(route);
+      setRevealTarget(
+        revealEntityId
+          ? {
+              worldId: route.worldId,
+              entityId: revealEntityId,
+              includeSelf: route.kind === 'entity_create',
+            }
+          : null,
+      );
+    },
+    [dispatch],
+  );
+
+  // Redux → URL. Declared before hydration so the first run (stale initial state) is skipped.
+  useEffect(() => {
+    if (!hydratedRef.current) return;
+
+    if (currentLocationPath() !== currentPath) {
+      // Replace the landing entry (e.g. auto-selecting the first world) so Back doesn't loop
+      if (lastPathRef.current === '/') {
+        window.history.replaceState({ index: historyIndexRef.current } satisfies HistoryEntryState, '', currentPath);
+      } else {
+        historyIndexRef.current += 1;
+        window.history.pushState({ index: historyIndexRef.current } satisfies HistoryEntryState, '', currentPath);
+      }
+    }
+
+    lastPathRef.current = currentPath;
+  }, [currentPath]);
+
+  // URL → Redux on initial load
+  useEffect(() => {
+    if (hydratedRef.current) return;
+    hydratedRef.current = true;
+
+    // Number the entries from here, keeping the position of a reloaded entry
+    historyIndexRef.current = getHistoryIndex(window.history.state) ?? 0;
+    window.history.replaceState({ index: historyIndexRef.current } satisfies HistoryEntryState, '');
+
+    const route = parseRoute(window.location.pathname, window.location.search);
+    if (route.kind === 'home') {
+      if (currentLocationPath() !== '/') {
+        window.history.replaceState({ index: historyIndexRef.current } satisfies HistoryEntryState, '', '/');
+      }
+      return;
+    }
+
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- Hydrating navigation state from the URL on mount
+    applyRoute(route);
+  }, [applyRoute]);
+
+  // URL → Redux on back/forward navigation
+  useEffect(() => {
+    const handlePopState = (event: PopStateEvent) => {
+      const route = parseRoute(window.location.pathname, window.location.search);
+      const index = getHistoryIndex(event.state);
+      const { hasUnsavedChanges, currentPath: formPath } = latestRef.current;
+      const traversal = traversalRef.current;
+      traversalRef.current = null;
+
+      // Back on the form's entry after holding a navigation
+      if (traversal === 'restore') return;
+
+      if (hasUnsavedChanges && traversal !== 'confirm') {
+        // Keep the form's URL until the user decides what to do with their changes
+        const delta = index === null ? 0 : historyIndexRef.current - index;
+        if (delta !== 0) {
+          pendingDeltaRef.current = -delta;
+          traversalRef.current = 'restore';
+          window.history.go(delta);
+        } else {
+          // An entry the app did not number: put the form's URL back on it
+          pendingDeltaRef.current = null;
+          window.history.replaceState(event.state, '', formPath);
+        }
+        setPendingRoute(route);
+        return;
+      }
+
+      if (index !== null) historyIndexRef.current = index;
+      applyRoute(route);
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [applyRoute]);
+
+  // Expand the ancestor chain of a deep-linked entity once it has loaded
+  const { data: revealEntity } = useGetWorldEntityByIdQuery(
+    { worldId: revealTarget?.worldId ?? '', entityId: revealTarget?.entityId ?? '' },
+    { skip: !revealTarget },
+  );
+
+  useEffect(() => {
+    if (!revealTarget || !revealEntity || revealEntity.id !== revealTarget.entityId) return;
+
+    dispatch(
+      expandNodes(
+        revealTarget.includeSelf ? [...revealEntity.path, revealEntity.id] : revealEntity.path,
+      ),
+    );
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- One-shot reveal once the entity has loaded
+    setRevealTarget(null);
+  }, [revealTarget, revealEntity, dispatch]);
+
+  const confirmPendingNavigation = useCallback(() => {
+    if (!pendingRoute) return;
+
+    dispatch(setUnsavedChanges(false));
+    setPendingRoute(null);
+
+    const delta = pendingDeltaRef.current;
+    pendingDeltaRef.current = null;
+    if (delta) {
+      // Go on to the entry the user was heading for; its popstate applies the route
+      traversalRef.current = 'confirm';
+      window.history.go(delta);
+      return;
+    }
+
+    window.history.replaceState(window.history.state, '', buildRoutePath(pendingRoute));
+    applyRoute(pendingRoute);
+  }, [pendingRoute, applyRoute, dispatch]);
+
+  const cancelPendingNavigation = useCallback(() => {
+    pendingDeltaRef.current = null;
+    setPendingRoute(null);
+  }, []);
+
+  return { pendingRoute, confirmPendingNavigation, cancelPendingNavigation };
+}
@@ -0,0 +1,106 @@
+/**
+ * useVirtualRows Hook
+ *
+ * Windowing for long lists of fixed-height rows: tracks the scroll position and
+ * viewport height of a scroll container and reports which slice of rows should
+ * be in the DOM. Rows outside the window are represented only by the height of
+ * the scrollable content.
+ *
+ * @module hooks/useVirtualRows
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * Viewport height assumed until the container can be measured (and in
+ * environments without layout, such as tests)
+ */
+const FALLBACK_VIEWPORT_HEIGHT = 640;
+
+export interface UseVirtualRowsOptions {
+  /** Height of every row in pixels */
+  rowHeight: number;
+
+  /** Extra rows rendered above and below the viewport */
+  overscan?: number;
+}
+
+export interface UseVirtualRowsResult<T extends HTMLElement> {
+  /** Ref for the scroll container */
+  containerRef: React.RefObject<T | null>;
+
+  /** Scroll handler for the scroll container */
+  onScroll: (e: React.UIEvent<T>) => void;
+
+  /** Index of the first row to render */
+  startIndex: number;
+
+  /** Index after the last row to render */
+  endIndex: number;
+
+  /** Height of all rows together */
+  totalHeight: number;
+
+  /** Scroll the container just enough for the row at `index` to be visible */
+  scrollToIndex: (index: number) => void;
+}
+
+export function useVirtualRows<T extends HTMLElement>(
+  count: number,
+  { rowHeight, overscan = 8 }: UseVirtualRowsOptions,
+): UseVirtualRowsResult<T> {
+  const containerRef = useRef<T>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(FALLBACK_VIEWPORT_HEIGHT);
+
+  // Track the viewport height as the sidebar is resized
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measure = () => setViewportHeight(container.clientHeight || FALLBACK_VIEWPORT_HEIGHT);
+    measure();
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const onScroll = useCallback((e: React.UIEvent<T>) => {
+    setScrollTop(e.currentTarget.scrollTop);
+  }, []);
+
+  const scrollToIndex = useCallback(
+    (index: number) => {
+      const container = containerRef.current;
+      if (!container || index < 0) return;
+
+      const rowTop = index * rowHeight;
+      const rowBottom = rowTop + rowHeight;
+
+      if (rowTop < container.scrollTop) {
+        container.scrollTop = rowTop;
+      } else if (rowBottom > container.scrollTop + viewportHeight) {
+        container.scrollTop = rowBottom - viewportHeight;
+      } else {
+        return;
+      }
+
+      // Not every environment fires a scroll event for programmatic scrolling
+      setScrollTop(container.scrollTop);
+    },
+    [rowHeight, viewportHeight],
+  );
+
+  const startIndex = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const endIndex = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  return {
+    containerRef,
+    onScroll,
+    startIndex,
+    endIndex,
+    totalHeight: count * rowHeight,
+    scrollToIndex,
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * useWorldEntityIndex Hook
+ *
+ * Loads the flat list of every entity in a world for client-side filtering and
+ * lookups. Pages are requested one after another until the whole world is loaded;
+ * the entities loaded so far are available immediately.
+ *
+ * @module hooks/useWorldEntityIndex
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useGetWorldEntityIndexInfiniteQuery } from '@/services/worldEntityApi';
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+
+const EMPTY_ENTITIES: WorldEntity[] = [];
+
+export interface UseWorldEntityIndexResult {
+  /** Entities loaded so far */
+  entities: WorldEntity[];
+
+  /** Whether more pages are still being loaded */
+  isLoading: boolean;
+
+  /** Whether loading failed */
+  isError: boolean;
+}
+
+/**
+ * @param worldId - World to index (nothing is loaded when null)
+ * @param options.skip - Do not load the index (e.g. while it is not needed)
+ */
+export function useWorldEntityIndex(
+  worldId: string | null,
+  { skip = false }: { skip?: boolean } = {},
+): UseWorldEntityIndexResult {
+  const { data, isLoading, isError, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useGetWorldEntityIndexInfiniteQuery(worldId ?? '', { skip: skip || !worldId });
+
+  // Keep loading until there is no next cursor
+  useEffect(() => {
+    if (!skip && hasNextPage && !isFetchingNextPage && !isError) {
+      void fetchNextPage();
+    }
+  }, [skip, hasNextPage, isFetchingNextPage, isError, fetchNextPage]);
+
+  const entities = useMemo(() => data?.pages.flatMap((page) => page.data) ?? EMPTY_ENTITIES, [data]);
+
+  return {
+    entities,
+    isLoading: !skip && !!worldId && (isLoading || hasNextPage),
+    isError,
+  };
+}
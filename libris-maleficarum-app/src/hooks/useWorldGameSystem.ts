@@ -0,0 +1,55 @@
+/**
+ * useWorldGameSystem Hook
+ *
+ * The game system the current user plays in a world, remembered in
+ * localStorage. It decides which `systemProperties` fields the entry form and
+ * details offer. Changes made through one instance of the hook (e.g. in the
+ * settings) are picked up by the others.
+ *
+ * @module hooks/useWorldGameSystem
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { readUserPreference, writeUserPreference } from '@/lib/userPreferences';
+import { getGameSystemConfig, type GameSystemConfig } from '@/services/config/gameSystemRegistry';
+
+const PREFERENCE_NAME = 'gameSystem';
+
+/** Fired on the window after the game system is written, so every hook instance stays in sync */
+const GAME_SYSTEM_CHANGE_EVENT = 'lm:game-system-change';
+
+function readGameSystem(worldId: string | null): GameSystemConfig | null {
+  if (!worldId) return null;
+
+  // Ignore systems that are no longer registered
+  return getGameSystemConfig(readUserPreference<string | null>(PREFERENCE_NAME, worldId, null)) ?? null;
+}
+
+/**
+ * @param worldId - World whose game system is read (none when null)
+ * @returns The world's game system (null for none) and a setter that also stores it
+ */
+export function useWorldGameSystem(worldId: string | null) {
+  const [gameSystem, setGameSystemState] = useState(() => readGameSystem(worldId));
+
+  // Reload when the world changes or another instance writes
+  useEffect(() => {
+    const reload = () => setGameSystemState(readGameSystem(worldId));
+    reload();
+
+    window.addEventListener(GAME_SYSTEM_CHANGE_EVENT, reload);
+    return () => window.removeEventListener(GAME_SYSTEM_CHANGE_EVENT, reload);
+  }, [worldId]);
+
+  const setGameSystem = useCallback(
+    (systemId: string | null) => {
+      if (!worldId) return;
+
+      writeUserPreference(PREFERENCE_NAME, worldId, systemId);
+      window.dispatchEvent(new Event(GAME_SYSTEM_CHANGE_EVENT));
+    },
+    [worldId],
+  );
+
+  return [gameSystem, setGameSystem] as const;
+}
@@ -0,0 +1,95 @@
+/**
+ * useWorldTags Hook Tests
+ *
+ * Tests for counting tag usage across every page of the world index.
+ *
+ * @see useWorldTags.ts
+ */
+
+import { renderHook, waitFor } from '@testing-library/react';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import type { ReactNode } from 'react';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+
+import { api } from '@/services/api';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+
+import { useWorldTags } from './useWorldTags';
+
+const BASE_URL = 'http://localhost:5000/api/v1/worlds/tag-world';
+
+const createEntity = (id: string, tags: string[]): WorldEntity => ({
+  id,
+  worldId: 'tag-world',
+  parentId: null,
+  entityType: WorldEntityType.Location,
+  name: id,
+  description: '',
+  tags,
+  path: [],
+  depth: 0,
+  hasChildren: false,
+  ownerId: 'test-user',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  isDeleted: false,
+  schemaVersion: 1,
+});
+
+const server = setupServer();
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+afterEach(() => server.resetHandlers());
+afterAll(() => server.close());
+
+function renderWorldTags(worldId: string | null, options?: { skip?: boolean }) {
+  const store = configureStore({
+    reducer: { [api.reducerPath]: api.reducer },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(api.middleware),
+  });
+  const wrapper = ({ children }: { children: ReactNode }) => <Provider store={store}>{children}</Provider>;
+
+  return renderHook(() => useWorldTags(worldId, options), { wrapper });
+}
+
+describe('useWorldTags', () => {
+  it('counts tags across every page of the world index', async () => {
+    const cursors: (string | null)[] = [];
+    server.use(
+      http.get(`${BASE_URL}/entities`, ({ request }) => {
+        const params = new URL(request.url).searchParams;
+        expect(params.get('parentId')).toBe('all');
+        const cursor = params.get('cursor');
+        cursors.push(cursor);
+
+        return cursor === 'page-2'
+          ? HttpResponse.json({
+              data: [createEntity('waterdeep', ['city', 'Port']), createEntity('neverwinter', ['city'])],
+              meta: { nextCursor: null },
+            })
+          : HttpResponse.json({
+              data: [createEntity('baldurs-gate', ['port', 'City'])],
+              meta: { nextCursor: 'page-2' },
+            });
+      }),
+    );
+
+    const { result } = renderWorldTags('tag-world');
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(cursors).toEqual([null, 'page-2']);
+    expect(result.current.tags).toEqual([
+      { tag: 'City', count: 3 },
+      { tag: 'port', count: 2 },
+    ]);
+  });
+
+  it('loads nothing while skipped', () => {
+    const { result } = renderWorldTags('tag-world', { skip: true });
+
+    expect(result.current).toEqual({ tags: [], isLoading: false });
+  });
+});
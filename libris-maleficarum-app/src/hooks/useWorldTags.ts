@@ -0,0 +1,36 @@
+/**
+ * useWorldTags Hook
+ *
+ * Tags used across a world with how many entries carry each, for autocomplete.
+ * There is no dedicated tags endpoint, so the usage is counted from the full
+ * world index; counts grow as further pages of the index arrive.
+ *
+ * @module hooks/useWorldTags
+ */
+
+import { useMemo } from 'react';
+import { useWorldEntityIndex } from './useWorldEntityIndex';
+import { countTagUsage } from '@/lib/tagHelpers';
+import type { TagUsage } from '@/services/types/worldEntity.types';
+
+export interface UseWorldTagsResult {
+  /** Tag usages ordered by count (descending), then alphabetically */
+  tags: TagUsage[];
+
+  /** Whether more pages of the index are still being loaded */
+  isLoading: boolean;
+}
+
+/**
+ * @param worldId - World whose tags are counted (none when null)
+ * @param options.skip - Do not load the index (e.g. while no suggestions are shown)
+ */
+export function useWorldTags(
+  worldId: string | null,
+  { skip = false }: { skip?: boolean } = {},
+): UseWorldTagsResult {
+  const { entities, isLoading } = useWorldEntityIndex(worldId, { skip });
+  const tags = useMemo(() => countTagUsage(entities), [entities]);
+
+  return { tags, isLoading };
+}
@@ -8,9 +8,11 @@
  * @module asyncOperationHelpers
  */
 
+import type { FetchBaseQueryError } from '@reduxjs/toolkit/query';
 import type {
   DeleteOperationDto,
   DeleteOperationStatus,
+  DuplicateOperation,
 } from '@/services/types/asyncOperations';
 
 /**
@@ -52,6 +54,76 @@ export function getOperationStatusMessage(operation: DeleteOperationDto): string
   }
 }
 
+/**
+ * Combine the statuses of a group of operations into one status
+ *
+ * The group is in progress while any operation is still running, failed only
+ * when every operation failed, and partial when some did not complete.
+ */
+export function getOperationGroupStatus(operations: DeleteOperationDto[]): DeleteOperationStatus {
+  if (operations.every((op) => op.status === 'pending')) return 'pending';
+  if (operations.some((op) => op.status === 'pending' || op.status === 'in_progress')) return 'in_progress';
+  if (operations.every((op) => op.status === 'completed')) return 'completed';
+  if (operations.every((op) => op.status === 'failed')) return 'failed';
+  return 'partial';
+}
+
+/**
+ * Get user-friendly status message for a group of delete operations
+ *
+ * @example
+ * getOperationGroupStatusMessage(ops) // "2 of 3 rites complete • 5 entries banished"
+ */
+export function getOperationGroupStatusMessage(operations: DeleteOperationDto[]): string {
+  const total = operations.length;
+  const finished = operations.filter((op) => op.status === 'completed').length;
+  const deleted = operations.reduce((sum, op) => sum + op.deletedCount, 0);
+  const failed = operations.reduce((sum, op) => sum + op.failedCount, 0);
+
+  switch (getOperationGroupStatus(operations)) {
+    case 'pending':
+      return 'Awaiting the rites';
+
+    case 'in_progress':
+      return `${finished} of ${total} rites complete • ${deleted} ${deleted === 1 ? 'entry' : 'entries'} banished`;
+
+    case 'completed':
+      return `All ${total} rites completed • ${deleted} ${deleted === 1 ? 'entry' : 'entries'} banished from the tome`;
+
+    case 'partial':
+      return `${finished} of ${total} rites completed • ${deleted} banished, ${failed} resisted`;
+
+    case 'failed':
+      return 'Every rite has failed';
+  }
+}
+
+/**
+ * Get user-friendly status message for a duplicate operation
+ *
+ * @example
+ * getDuplicateOperationStatusMessage(inProgressOp) // "40% complete • 8/20 entries transcribed"
+ * getDuplicateOperationStatusMessage(completedOp) // "Copy completed • 20 entries transcribed"
+ */
+export function getDuplicateOperationStatusMessage(operation: DuplicateOperation): string {
+  switch (operation.status) {
+    case 'in_progress': {
+      const percent = operation.totalEntities > 0
+        ? Math.round((operation.createdCount / operation.totalEntities) * 100)
+        : 0;
+      return `${percent}% complete • ${operation.createdCount}/${operation.totalEntities} entries transcribed`;
+    }
+
+    case 'completed':
+      return `Copy completed • ${operation.createdCount} ${
+        operation.createdCount === 1 ? 'entry' : 'entries'
+      } transcribed`;
+
+    case 'failed':
+      return operation.errorDetails || 'The copy has failed';
+  }
+}
+
 /**
  * Get operation type display name (always "Delete" for delete operations)
  */
@@ -266,3 +338,36 @@ export function getProgressPercentage(operation: DeleteOperationDto): number {
     Math.round((operation.deletedCount / operation.totalEntities) * 100)
   );
 }
+
+/**
+ * Determines if an RTK Query error should trigger an optimistic update rollback.
+ * 
+ * Rollback cases:
+ * - Client errors (4xx): Request was rejected
+ * - FETCH_ERROR: Network failure (no response from server)
+ * - TIMEOUT_ERROR: Request timed out before completion
+ * - PARSING_ERROR: Response received but couldn't be parsed
+ * 
+ * No rollback cases:
+ * - Server errors (5xx): Operation may have been queued despite error
+ * - Unknown errors: Conservative approach - assume operation may have succeeded
+ */
+export function shouldRollbackDelete(error: unknown): boolean {
+  // Type guard for FetchBaseQueryError
+  const fetchError = error as FetchBaseQueryError | undefined;
+  const status = fetchError?.status;
+  
+  if (typeof status === 'number') {
+    // HTTP status code - rollback only for client errors (4xx)
+    // Server errors (5xx) may indicate the operation was queued
+    return status >= 400 && status < 500;
+  }
+  
+  if (typeof status === 'string') {
+    // RTK Query string status types that indicate operation failure
+    return status === 'FETCH_ERROR' || status === 'TIMEOUT_ERROR' || status === 'PARSING_ERROR';
+  }
+  
+  // Unknown error type - don't rollback (conservative approach)
+  return false;
+}
@@ -0,0 +1,149 @@
+/**
+ * entityHierarchy Utility Tests
+ *
+ * Tests for cycle prevention, root eligibility and type suggestion warnings
+ * used when reparenting and duplicating entities.
+ *
+ * @see entityHierarchy.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getTopLevelEntities,
+  isSelfOrDescendant,
+  isSuggestedChildType,
+  validateBulkEntityMove,
+  validateEntityDuplicate,
+  validateEntityMove,
+} from './entityHierarchy';
+import { WorldEntityType } from '@/services/types/worldEntity.types';
+
+const continent = {
+  id: 'continent-1',
+  name: 'Faerûn',
+  parentId: null,
+  entityType: WorldEntityType.Continent,
+  path: [] as string[],
+};
+
+const country = {
+  id: 'country-1',
+  name: 'Cormyr',
+  parentId: 'continent-1',
+  entityType: WorldEntityType.Country,
+  path: ['continent-1'],
+};
+
+const city = {
+  id: 'city-1',
+  name: 'Suzail',
+  parentId: 'country-1',
+  entityType: WorldEntityType.City,
+  path: ['continent-1', 'country-1'],
+};
+
+const otherContinent = {
+  id: 'continent-2',
+  name: 'Kara-Tur',
+  parentId: null,
+  entityType: WorldEntityType.Continent,
+  path: [] as string[],
+};
+
+describe('entityHierarchy', () => {
+  describe('isSelfOrDescendant()', () => {
+    it('should detect the entity itself and its descendants', () => {
+      expect(isSelfOrDescendant(continent, 'continent-1')).toBe(true);
+      expect(isSelfOrDescendant(city, 'continent-1')).toBe(true);
+      expect(isSelfOrDescendant(otherContinent, 'continent-1')).toBe(false);
+    });
+  });
+
+  describe('isSuggestedChildType()', () => {
+    it('should follow registry suggestedChildren', () => {
+      expect(isSuggestedChildType(WorldEntityType.Continent, WorldEntityType.Country)).toBe(true);
+      expect(isSuggestedChildType(WorldEntityType.City, WorldEntityType.Continent)).toBe(false);
+    });
+  });
+
+  describe('validateEntityMove()', () => {
+    it('should block moving an entity into itself', () => {
+      const result = validateEntityMove(country, country);
+      expect(result.canMove).toBe(false);
+      expect(result.reason).toContain('into itself');
+    });
+
+    it('should block moving an entity into one of its descendants', () => {
+      const result = validateEntityMove(continent, city);
+      expect(result.canMove).toBe(false);
+      expect(result.reason).toContain('descendant');
+    });
+
+    it('should block moving an entity to its current parent', () => {
+      expect(validateEntityMove(country, continent).canMove).toBe(false);
+    });
+
+    it('should allow a suggested parent without warning', () => {
+      expect(validateEntityMove(country, otherContinent)).toEqual({ canMove: true });
+    });
+
+    it('should allow but warn when the target does not suggest the type', () => {
+      const result = validateEntityMove(otherContinent, city);
+      expect(result.canMove).toBe(true);
+      expect(result.warning).toBe('Continent is not a usual child of City');
+    });
+
+    it('should gate moves to the root by canBeRoot', () => {
+      expect(validateEntityMove(city, null).canMove).toBe(false);
+      expect(validateEntityMove({ ...city, entityType: WorldEntityType.Folder }, null).canMove).toBe(true);
+      expect(validateEntityMove(continent, null).reason).toContain('already at the root');
+    });
+  });
+
+  describe('validateEntityDuplicate()', () => {
+    it('should allow a copy beside the original or at the root', () => {
+      expect(validateEntityDuplicate(country, continent, true)).toEqual({ canMove: true });
+      expect(validateEntityDuplicate(continent, null, true)).toEqual({ canMove: true });
+    });
+
+    it('should gate copies at the root by canBeRoot', () => {
+      expect(validateEntityDuplicate(city, null, false).canMove).toBe(false);
+    });
+
+    it('should block copying descendants into the copied subtree', () => {
+      expect(validateEntityDuplicate(country, country, false).canMove).toBe(true);
+      const result = validateEntityDuplicate(continent, city, true);
+      expect(result.canMove).toBe(false);
+      expect(result.reason).toContain('with its descendants');
+    });
+  });
+
+  describe('getTopLevelEntities()', () => {
+    it('should drop entities whose ancestor is also selected', () => {
+      expect(getTopLevelEntities([city, continent, otherContinent])).toEqual([continent, otherContinent]);
+      expect(getTopLevelEntities([city, country])).toEqual([country]);
+    });
+  });
+
+  describe('validateBulkEntityMove()', () => {
+    it('should block a destination inside any of the moved entities', () => {
+      const result = validateBulkEntityMove([otherContinent, country], city);
+      expect(result.canMove).toBe(false);
+      expect(result.reason).toContain('descendant');
+    });
+
+    it('should allow a destination when only some entries are skipped', () => {
+      const result = validateBulkEntityMove([country, city], continent);
+      expect(result.canMove).toBe(true);
+      expect(result.warning).toContain('1 of 2 entries will be skipped');
+    });
+
+    it('should block the root when no entry may be placed there', () => {
+      expect(validateBulkEntityMove([city, country], null).canMove).toBe(false);
+      expect(validateBulkEntityMove([city, { ...country, entityType: WorldEntityType.Folder }], null)).toEqual({
+        canMove: true,
+        warning: '1 of 2 entries will be skipped',
+      });
+    });
+  });
+});
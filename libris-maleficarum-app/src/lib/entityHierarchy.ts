@@ -0,0 +1,236 @@
+/**
+ * Entity Hierarchy Helpers
+ *
+ * Pure functions for reasoning about the world entity tree using the
+ * materialized `path` (ancestor IDs from root to parent) stored on each entity.
+ *
+ * @module lib/entityHierarchy
+ */
+
+import {
+  ENTITY_TYPE_SUGGESTIONS,
+  type WorldEntity,
+  type WorldEntityType,
+} from '@/services/types/worldEntity.types';
+import { getEntityTypeConfig } from '@/services/config/entityTypeRegistry';
+import { formatEntityType } from './entityTypeHelpers';
+
+/**
+ * Minimal entity shape needed to validate a move
+ */
+export type MovableEntity = Pick<WorldEntity, 'id' | 'name' | 'parentId' | 'entityType'>;
+
+/**
+ * Minimal entity shape needed to act as a move destination
+ */
+export type MoveTargetEntity = Pick<WorldEntity, 'id' | 'name' | 'path' | 'entityType'>;
+
+/**
+ * Result of validating a proposed move
+ */
+export interface EntityMoveValidation {
+  /** Whether the move may be performed */
+  canMove: boolean;
+
+  /** Why the move is blocked (only when canMove is false) */
+  reason?: string;
+
+  /** Non-blocking advisory, e.g. an unusual parent/child type pairing */
+  warning?: string;
+}
+
+/**
+ * Check whether a candidate entity is the given entity or one of its descendants
+ *
+ * @param candidate - Entity to test (must include its `path`)
+ * @param ancestorId - ID of the potential ancestor
+ * @returns True if candidate is ancestorId itself or lies beneath it
+ */
+export function isSelfOrDescendant(
+  candidate: Pick<WorldEntity, 'id' | 'path'>,
+  ancestorId: string,
+): boolean {
+  return candidate.id === ancestorId || candidate.path.includes(ancestorId);
+}
+
+/**
+ * Check whether an entity type is a suggested child of a parent type
+ *
+ * @param parentType - Parent entity type
+ * @param childType - Child entity type
+ * @returns True if the registry lists childType in parentType's suggestedChildren
+ */
+export function isSuggestedChildType(
+  parentType: WorldEntityType,
+  childType: WorldEntityType,
+): boolean {
+  return (ENTITY_TYPE_SUGGESTIONS[parentType] ?? []).includes(childType);
+}
+
+/**
+ * Validate moving an entity beneath a new parent (or to the root when target is null)
+ *
+ * Rules:
+ * - An entity cannot be moved into itself or any of its descendants (cycle prevention via `path`)
+ * - Moving to the current parent is a no-op and is rejected
+ * - Moving to the root requires the entity type to allow `canBeRoot`
+ * - Targets whose `suggestedChildren` exclude the entity type produce a warning only
+ *
+ * @param entity - Entity being moved
+ * @param target - New parent entity, or null for the root level
+ * @returns Validation result
+ */
+export function validateEntityMove(
+  entity: MovableEntity,
+  target: MoveTargetEntity | null,
+): EntityMoveValidation {
+  if (target === null) {
+    if (entity.parentId === null) {
+      return { canMove: false, reason: `"${entity.name}" is already at the root of the codex` };
+    }
+
+    if (!getEntityTypeConfig(entity.entityType)?.canBeRoot) {
+      return {
+        canMove: false,
+        reason: `${formatEntityType(entity.entityType)} entries cannot be placed at the root of the codex`,
+      };
+    }
+
+    return { canMove: true };
+  }
+
+  if (target.id === entity.id) {
+    return { canMove: false, reason: `"${entity.name}" cannot be moved into itself` };
+  }
+
+  if (isSelfOrDescendant(target, entity.id)) {
+    return {
+      canMove: false,
+      reason: `"${entity.name}" cannot be moved into its own descendant "${target.name}"`,
+    };
+  }
+
+  if (entity.parentId === target.id) {
+    return { canMove: false, reason: `"${entity.name}" is already within "${target.name}"` };
+  }
+
+  if (!isSuggestedChildType(target.entityType, entity.entityType)) {
+    return {
+      canMove: true,
+      warning: `${formatEntityType(entity.entityType)} is not a usual child of ${formatEntityType(target.entityType)}`,
+    };
+  }
+
+  return { canMove: true };
+}
+
+/**
+ * Validate placing a copy of an entity beneath a parent (or at the root when target is null)
+ *
+ * Rules:
+ * - A copy may be placed anywhere the original could live, including beside it
+ * - Copying at the root requires the entity type to allow `canBeRoot`
+ * - A copy that includes descendants cannot be placed inside the copied subtree
+ * - Targets whose `suggestedChildren` exclude the entity type produce a warning only
+ *
+ * @param entity - Entity being duplicated
+ * @param target - Parent for the copy, or null for the root level
+ * @param includeChildren - Whether the descendants are copied too
+ * @returns Validation result
+ */
+export function validateEntityDuplicate(
+  entity: MovableEntity,
+  target: MoveTargetEntity | null,
+  includeChildren: boolean,
+): EntityMoveValidation {
+  if (target === null) {
+    if (!getEntityTypeConfig(entity.entityType)?.canBeRoot) {
+      return {
+        canMove: false,
+        reason: `${formatEntityType(entity.entityType)} entries cannot be placed at the root of the codex`,
+      };
+    }
+
+    return { canMove: true };
+  }
+
+  if (includeChildren && isSelfOrDescendant(target, entity.id)) {
+    return {
+      canMove: false,
+      reason: `"${entity.name}" cannot be copied with its descendants into "${target.name}"`,
+    };
+  }
+
+  if (!isSuggestedChildType(target.entityType, entity.entityType)) {
+    return {
+      canMove: true,
+      warning: `${formatEntityType(entity.entityType)} is not a usual child of ${formatEntityType(target.entityType)}`,
+    };
+  }
+
+  return { canMove: true };
+}
+
+/**
+ * Drop entities whose ancestor is also in the set
+ *
+ * Used for bulk actions: descendants travel with (or are deleted with) their
+ * selected ancestor, so acting on them separately would be redundant.
+ *
+ * @param entities - Selected entities (must include their `path`)
+ * @returns Entities with no selected ancestor, in their original order
+ */
+export function getTopLevelEntities<T extends Pick<WorldEntity, 'id' | 'path'>>(entities: T[]): T[] {
+  const ids = new Set(entities.map((entity) => entity.id));
+  return entities.filter((entity) => !entity.path.some((ancestorId) => ids.has(ancestorId)));
+}
+
+/**
+ * Validate moving several entities beneath one new parent (or to the root)
+ *
+ * The destination is blocked only if it would create a cycle for any entity or,
+ * for the root, if no entity may be placed there. Entities that individually
+ * cannot move (already there, not allowed at the root) are reported as a warning
+ * and skipped by the bulk move.
+ *
+ * @param entities - Entities being moved
+ * @param target - New parent entity, or null for the root level
+ * @returns Validation result for the destination as a whole
+ */
+export function validateBulkEntityMove(
+  entities: Array<MovableEntity & Pick<WorldEntity, 'path'>>,
+  target: MoveTargetEntity | null,
+): EntityMoveValidation {
+  if (target) {
+    const cycleEntity = entities.find((entity) => isSelfOrDescendant(target, entity.id));
+    if (cycleEntity) {
+      return validateEntityMove(cycleEntity, target);
+    }
+  }
+
+  const results = entities.map((entity) => validateEntityMove(entity, target));
+  const movableCount = results.filter((result) => result.canMove).length;
+
+  if (movableCount === 0) {
+    return {
+      canMove: false,
+      reason: target
+        ? `None of the selected entries can be moved into "${target.name}"`
+        : 'None of the selected entries can be placed at the root of the codex',
+    };
+  }
+
+  const warnings: string[] = [];
+  const skippedCount = entities.length - movableCount;
+  if (skippedCount > 0) {
+    warnings.push(`${skippedCount} of ${entities.length} entries will be skipped`);
+  }
+
+  for (const result of results) {
+    if (result.canMove && result.warning && !warnings.includes(result.warning)) {
+      warnings.push(result.warning);
+    }
+  }
+
+  return warnings.length > 0 ? { canMove: true, warning: warnings.join('. ') } : { canMove: true };
+}
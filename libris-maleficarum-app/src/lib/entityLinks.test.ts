@@ -0,0 +1,120 @@
+/**
+ * entityLinks Utility Tests
+ *
+ * Tests for writing, finding and autocompleting wiki links between entries.
+ *
+ * @see entityLinks.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findEntitiesByName,
+  findEntityBacklinks,
+  findEntityLinkQuery,
+  formatEntityLink,
+  getEntityLinkIds,
+  getEntityReferenceIds,
+  parseEntityLinkAt,
+} from './entityLinks';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+
+const createEntity = (id: string, overrides: Partial<WorldEntity> = {}): WorldEntity => ({
+  id,
+  worldId: 'world-1',
+  parentId: null,
+  entityType: WorldEntityType.Character,
+  name: id,
+  description: '',
+  tags: [],
+  path: [],
+  depth: 0,
+  hasChildren: false,
+  ownerId: 'test-user',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  isDeleted: false,
+  schemaVersion: 1,
+  ...overrides,
+});
+
+describe('formatEntityLink', () => {
+  it('should store the ID with a label that cannot break the link', () => {
+    expect(formatEntityLink('e-1', 'Queen Elara')).toBe('[[entity:e-1|Queen Elara]]');
+    expect(formatEntityLink('e-2', 'The [Lost] | Tower')).toBe('[[entity:e-2|The Lost Tower]]');
+  });
+});
+
+describe('parseEntityLinkAt', () => {
+  it('should read a link starting at the position only', () => {
+    const text = 'See [[entity:e-1|Queen Elara]].';
+
+    expect(parseEntityLinkAt(text, 4)).toEqual({
+      link: { entityId: 'e-1', label: 'Queen Elara' },
+      length: 26,
+    });
+    expect(parseEntityLinkAt(text, 0)).toBeNull();
+  });
+});
+
+describe('getEntityReferenceIds', () => {
+  it('should collect links from the description and nested properties', () => {
+    const ids = getEntityReferenceIds({
+      entityType: WorldEntityType.Character,
+      description: '[[entity:e-1|Elara]] and [[entity:e-1|Elara]] and [[Unlinked]]',
+      properties: { Allies: ['[[entity:e-2|Vex]]'], Notes: { Lore: 'Sworn to [[entity:e-3|Guild]]' }, Level: 3 },
+    });
+
+    expect(Array.from(ids)).toEqual(['e-1', 'e-2', 'e-3']);
+    expect(getEntityLinkIds('[[entity:e-1|Elara]] [[entity:e-1|Queen]]')).toEqual(['e-1']);
+  });
+
+  it('should include entries chosen in reference properties', () => {
+    const ids = getEntityReferenceIds({
+      entityType: WorldEntityType.Country,
+      description: '',
+      properties: { capital: { id: 'c-1', name: 'Waterdeep' }, allies: [{ id: 'k-1', name: 'Amn' }, 'Calimshan'] },
+    });
+
+    expect(Array.from(ids)).toEqual(['c-1', 'k-1']);
+  });
+});
+
+describe('findEntityBacklinks', () => {
+  it('should list other live entries that refer to the entity, by name', () => {
+    const entities = [
+      createEntity('target', { description: '[[entity:target|Me]]' }),
+      createEntity('b', { name: 'Zed', description: 'Serves [[entity:target|Elara]]' }),
+      createEntity('a', { name: 'Ava', properties: { Liege: '[[entity:target|Elara]]' } }),
+      createEntity('c', { name: 'Gone', description: '[[entity:target|Elara]]', isDeleted: true }),
+      createEntity('d', { name: 'Unrelated' }),
+    ];
+
+    expect(findEntityBacklinks(entities, 'target').map(({ name }) => name)).toEqual(['Ava', 'Zed']);
+  });
+});
+
+describe('findEntitiesByName', () => {
+  it('matches live entities by name, ignoring case, accents and extra spaces', () => {
+    const entities = [
+      createEntity('elara', { name: 'Queen Élara' }),
+      createEntity('old-elara', { name: 'Queen Elara', isDeleted: true }),
+      createEntity('elaran', { name: 'Queen Elaran' }),
+    ];
+
+    expect(findEntitiesByName(entities, ' queen  elara ').map(({ id }) => id)).toEqual(['elara']);
+    expect(findEntitiesByName(entities, 'Elara')).toEqual([]);
+  });
+});
+
+describe('findEntityLinkQuery', () => {
+  it('should find the text typed after an open [[', () => {
+    expect(findEntityLinkQuery('Ruled by [[Que', 14)).toEqual({ start: 9, query: 'Que' });
+    expect(findEntityLinkQuery('[[', 2)).toEqual({ start: 0, query: '' });
+  });
+
+  it('should ignore closed links and other lines', () => {
+    expect(findEntityLinkQuery('[[entity:e-1|Elara]] and', 24)).toBeNull();
+    expect(findEntityLinkQuery('[[Que\nen', 8)).toBeNull();
+    expect(findEntityLinkQuery('no link', 7)).toBeNull();
+  });
+});
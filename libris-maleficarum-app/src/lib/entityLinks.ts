@@ -0,0 +1,162 @@
+/**
+ * Entity Links
+ *
+ * Wiki-style links between entries, written in Markdown lore as
+ * `[[entity:<id>|Queen Elara]]`. The link is stored by entity ID so it
+ * survives renames; the label is what was shown when the link was made and is
+ * only displayed when the entry can no longer be found. A link typed without
+ * an ID (`[[Queen Elara]]`) links to the entry of that name, and is shown as
+ * unlinked when no entry, or more than one, has the name.
+ *
+ * @module lib/entityLinks
+ */
+
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+import { getEntityReferenceFieldIds } from './entityReferences';
+
+/**
+ * A wiki link found in text
+ */
+export interface EntityLinkReference {
+  /** Linked entity (null when the link was typed without choosing an entry) */
+  entityId: string | null;
+
+  /** Label written in the link */
+  label: string;
+}
+
+/**
+ * A `[[` being typed, for offering entries to link
+ */
+export interface EntityLinkQuery {
+  /** Index of the opening `[[` */
+  start: number;
+
+  /** Text typed after the `[[` */
+  query: string;
+}
+
+const LINK_SOURCE = String.raw`\[\[(?:entity:([\w-]+)\|)?([^\[\]|\n]+)\]\]`;
+
+/** Longest text after `[[` that is still treated as a link being typed */
+const MAX_LINK_QUERY_LENGTH = 60;
+
+/**
+ * Write a link to an entity
+ *
+ * @param entityId - Linked entity
+ * @param name - Entity name, used as the link's label
+ * @returns Link text to insert into lore
+ */
+export function formatEntityLink(entityId: string, name: string): string {
+  const label = name.replace(/[[\]|]/g, '').replace(/\s+/g, ' ').trim() || 'entry';
+  return `[[entity:${entityId}|${label}]]`;
+}
+
+/**
+ * Read a link starting exactly at a position
+ *
+ * @param text - Text containing the link
+ * @param index - Position of the opening `[[`
+ * @returns The link and the length of its text, or null if none starts there
+ */
+export function parseEntityLinkAt(
+  text: string,
+  index: number,
+): { link: EntityLinkReference; length: number } | null {
+  const pattern = new RegExp(LINK_SOURCE, 'y');
+  pattern.lastIndex = index;
+  const match = pattern.exec(text);
+  if (!match) return null;
+
+  return {
+    link: { entityId: match[1] ?? null, label: match[2].trim() },
+    length: match[0].length,
+  };
+}
+
+const nameCollator = new Intl.Collator(undefined, { sensitivity: 'base' });
+
+/**
+ * Find the entries a link typed without an ID could mean
+ *
+ * @param entities - Entities of the world
+ * @param label - Label written in the link
+ * @returns Live entities whose name matches the label, ignoring case and accents
+ */
+export function findEntitiesByName(entities: WorldEntity[], label: string): WorldEntity[] {
+  const name = label.replace(/\s+/g, ' ').trim();
+  return entities.filter((entity) => !entity.isDeleted && nameCollator.compare(entity.name.trim(), name) === 0);
+}
+
+/**
+ * List the entities linked from a text
+ *
+ * @param text - Markdown lore
+ * @returns Linked entity IDs, without duplicates
+ */
+export function getEntityLinkIds(text: string): string[] {
+  const ids = new Set<string>();
+  for (const match of text.matchAll(new RegExp(LINK_SOURCE, 'g'))) {
+    if (match[1]) ids.add(match[1]);
+  }
+  return Array.from(ids);
+}
+
+function collectStringLinks(value: unknown, ids: Set<string>) {
+  if (typeof value === 'string') {
+    getEntityLinkIds(value).forEach((id) => ids.add(id));
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectStringLinks(item, ids));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach((item) => collectStringLinks(item, ids));
+  }
+}
+
+/**
+ * List the entities an entity refers to from its description and properties
+ *
+ * Covers wiki links in any text and the entity's reference properties.
+ *
+ * @param entity - Referring entity
+ * @returns Referenced entity IDs
+ */
+export function getEntityReferenceIds(
+  entity: Pick<WorldEntity, 'entityType' | 'description' | 'properties'>,
+): Set<string> {
+  const ids = new Set<string>();
+  collectStringLinks(entity.description, ids);
+  collectStringLinks(entity.properties, ids);
+  getEntityReferenceFieldIds(entity).forEach((id) => ids.add(id));
+  return ids;
+}
+
+/**
+ * Find the entities that refer to an entity
+ *
+ * @param entities - Entities of the world
+ * @param entityId - Referenced entity
+ * @returns Referring entities (not deleted, excluding the entity itself), ordered by name
+ */
+export function findEntityBacklinks(entities: WorldEntity[], entityId: string): WorldEntity[] {
+  return entities
+    .filter((entity) => entity.id !== entityId && !entity.isDeleted && getEntityReferenceIds(entity).has(entityId))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Find a link being typed before the caret
+ *
+ * @param value - Text being edited
+ * @param caret - Caret position
+ * @returns The `[[` and the text typed after it, or null if the caret is not in an open link
+ */
+export function findEntityLinkQuery(value: string, caret: number): EntityLinkQuery | null {
+  const start = value.lastIndexOf('[[', caret - 2);
+  if (start === -1 || caret < start + 2) return null;
+
+  const query = value.slice(start + 2, caret);
+  if (query.length > MAX_LINK_QUERY_LENGTH || /[[\]|\n]/.test(query)) return null;
+
+  return { start, query };
+}
@@ -0,0 +1,58 @@
+/**
+ * entityReferences Utility Tests
+ *
+ * Tests for reading entity reference property values.
+ *
+ * @see entityReferences.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getEntityReferenceFieldIds,
+  isEntityReferenceField,
+  isEntityReferenceValue,
+  toEntityReferenceItems,
+} from './entityReferences';
+import { WorldEntityType } from '@/services/types/worldEntity.types';
+
+describe('isEntityReferenceField', () => {
+  it('should recognise both reference field types', () => {
+    expect(isEntityReferenceField({ type: 'entityReference' })).toBe(true);
+    expect(isEntityReferenceField({ type: 'entityReferenceArray' })).toBe(true);
+    expect(isEntityReferenceField({ type: 'tagArray' })).toBe(false);
+  });
+});
+
+describe('isEntityReferenceValue', () => {
+  it('should require a string ID and name', () => {
+    expect(isEntityReferenceValue({ id: 'c-1', name: 'Waterdeep' })).toBe(true);
+    expect(isEntityReferenceValue({ id: 'c-1' })).toBe(false);
+    expect(isEntityReferenceValue('Waterdeep')).toBe(false);
+    expect(isEntityReferenceValue(null)).toBe(false);
+  });
+});
+
+describe('toEntityReferenceItems', () => {
+  it('should list single values, arrays and legacy text', () => {
+    const waterdeep = { id: 'c-1', name: 'Waterdeep' };
+
+    expect(toEntityReferenceItems(waterdeep)).toEqual([waterdeep]);
+    expect(toEntityReferenceItems([waterdeep, 'Baldur\'s Gate', '  ', 42])).toEqual([waterdeep, 'Baldur\'s Gate']);
+    expect(toEntityReferenceItems(undefined)).toEqual([]);
+  });
+});
+
+describe('getEntityReferenceFieldIds', () => {
+  it('should collect IDs from the reference fields of the entity type only', () => {
+    const ids = getEntityReferenceFieldIds({
+      entityType: WorldEntityType.Country,
+      properties: {
+        capital: { id: 'c-1', name: 'Waterdeep' },
+        majorCities: [{ id: 'c-2', name: 'Neverwinter' }, 'Luskan'],
+        currency: { id: 'x-1', name: 'Not a reference field' },
+      },
+    });
+
+    expect(ids).toEqual(['c-1', 'c-2']);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Entity References
+ *
+ * Values of `entityReference` and `entityReferenceArray` properties. A
+ * reference stores the chosen entry's ID together with its name at the time it
+ * was chosen, so a reference to an entry that has since been deleted can still
+ * say what it pointed to. Values written as plain text before a field became a
+ * reference are kept and shown as unlinked text.
+ *
+ * @module lib/entityReferences
+ */
+
+import { getEntityTypeConfig, type PropertyFieldSchema } from '@/services/config/entityTypeRegistry';
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+
+/**
+ * A reference to another entry, as stored in an entity's properties
+ */
+export interface EntityReferenceValue {
+  /** Referenced entity */
+  id: string;
+
+  /** Entity name when the reference was made */
+  name: string;
+}
+
+/**
+ * One item of a reference property, as displayed
+ */
+export type EntityReferenceItem = EntityReferenceValue | string;
+
+/**
+ * Whether a field holds references to other entries
+ *
+ * @param schema - Property field schema
+ * @returns True for entityReference and entityReferenceArray fields
+ */
+export function isEntityReferenceField(schema: Pick<PropertyFieldSchema, 'type'>): boolean {
+  return schema.type === 'entityReference' || schema.type === 'entityReferenceArray';
+}
+
+/**
+ * Whether a value is a stored entity reference
+ *
+ * @param value - Property value
+ * @returns True if the value has a string ID and name
+ */
+export function isEntityReferenceValue(value: unknown): value is EntityReferenceValue {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as EntityReferenceValue).id === 'string' &&
+    typeof (value as EntityReferenceValue).name === 'string'
+  );
+}
+
+/**
+ * Read a reference property as a list
+ *
+ * Accepts a single reference, an array of references, and legacy plain-text
+ * values; anything else is ignored.
+ *
+ * @param value - Stored property value
+ * @returns References and legacy text, in stored order
+ */
+export function toEntityReferenceItems(value: unknown): EntityReferenceItem[] {
+  const items = Array.isArray(value) ? value : [value];
+  return items.filter(
+    (item): item is EntityReferenceItem =>
+      isEntityReferenceValue(item) || (typeof item === 'string' && item.trim() !== ''),
+  );
+}
+
+/**
+ * List the entities referenced by an entity's reference properties
+ *
+ * @param entity - Referring entity
+ * @returns Referenced entity IDs (legacy text values are skipped)
+ */
+export function getEntityReferenceFieldIds(
+  entity: Pick<WorldEntity, 'entityType' | 'properties'>,
+): string[] {
+  const schema = getEntityTypeConfig(entity.entityType)?.propertySchema ?? [];
+  const properties = entity.properties ?? {};
+
+  return schema
+    .filter(isEntityReferenceField)
+    .flatMap((field) => toEntityReferenceItems(properties[field.key]))
+    .filter(isEntityReferenceValue)
+    .map((reference) => reference.id);
+}
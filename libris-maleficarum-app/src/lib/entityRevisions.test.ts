@@ -0,0 +1,139 @@
+/**
+ * entityRevisions Utility Tests
+ *
+ * Tests for recording entry revisions in a pluggable store.
+ *
+ * @see entityRevisions.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  ENTITY_REVISIONS_CHANGE_EVENT,
+  MAX_REVISIONS_PER_ENTITY,
+  createIndexedDbRevisionStore,
+  createMemoryRevisionStore,
+  getRevisionStore,
+  recordEntityRevision,
+  setRevisionStore,
+  type RevisionStore,
+} from './entityRevisions';
+import { getCurrentUserKey } from './userPreferences';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+
+const createEntity = (updatedAt: string, overrides: Partial<WorldEntity> = {}): WorldEntity => ({
+  id: 'cormyr',
+  worldId: 'world-1',
+  parentId: null,
+  entityType: WorldEntityType.Country,
+  name: 'Cormyr',
+  description: '',
+  tags: [],
+  path: [],
+  depth: 0,
+  hasChildren: false,
+  ownerId: 'user-1',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt,
+  isDeleted: false,
+  schemaVersion: 2,
+  ...overrides,
+});
+
+vi.mock('./userPreferences', () => ({ getCurrentUserKey: vi.fn(() => 'anonymous') }));
+
+describe('entityRevisions', () => {
+  let store: RevisionStore;
+
+  beforeEach(() => {
+    store = createMemoryRevisionStore();
+    setRevisionStore(store);
+  });
+
+  afterEach(() => {
+    setRevisionStore(null);
+  });
+
+  it('uses the store that was set', () => {
+    expect(getRevisionStore()).toBe(store);
+  });
+
+  it('records revisions newest first', async () => {
+    await recordEntityRevision(createEntity('2026-01-01T10:00:00Z', { name: 'Cormyr' }));
+    await recordEntityRevision(createEntity('2026-01-02T10:00:00Z', { name: 'Cormyr Reborn' }));
+
+    const revisions = await store.getRevisions('world-1', 'cormyr');
+    expect(revisions.map((revision) => revision.snapshot.name)).toEqual(['Cormyr Reborn', 'Cormyr']);
+    expect(revisions[0]).toMatchObject({ id: 'cormyr@2026-01-02T10:00:00Z', savedAt: '2026-01-02T10:00:00Z' });
+  });
+
+  it('records the entry before its first recorded save', async () => {
+    await recordEntityRevision(
+      createEntity('2026-01-02T10:00:00Z', { name: 'Cormyr Reborn' }),
+      createEntity('2026-01-01T10:00:00Z', { name: 'Cormyr' }),
+    );
+
+    const revisions = await store.getRevisions('world-1', 'cormyr');
+    expect(revisions.map((revision) => revision.snapshot.name)).toEqual(['Cormyr Reborn', 'Cormyr']);
+  });
+
+  it('does not record the same save twice', async () => {
+    await recordEntityRevision(createEntity('2026-01-01T10:00:00Z'));
+    await recordEntityRevision(createEntity('2026-01-01T10:00:00Z'));
+
+    expect(await store.getRevisions('world-1', 'cormyr')).toHaveLength(1);
+  });
+
+  it('forgets the oldest revisions beyond the limit', async () => {
+    for (let day = 1; day <= MAX_REVISIONS_PER_ENTITY + 2; day++) {
+      await recordEntityRevision(createEntity(new Date(Date.UTC(2026, 0, day)).toISOString()));
+    }
+
+    const revisions = await store.getRevisions('world-1', 'cormyr');
+    expect(revisions).toHaveLength(MAX_REVISIONS_PER_ENTITY);
+    expect(revisions[revisions.length - 1].savedAt).toBe(new Date(Date.UTC(2026, 0, 3)).toISOString());
+  });
+
+  it('announces recorded revisions', async () => {
+    const listener = vi.fn();
+    window.addEventListener(ENTITY_REVISIONS_CHANGE_EVENT, listener);
+
+    await recordEntityRevision(createEntity('2026-01-01T10:00:00Z'));
+
+    window.removeEventListener(ENTITY_REVISIONS_CHANGE_EVENT, listener);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the revisions of each user apart', async () => {
+    // Arrange
+    setRevisionStore(null);
+    vi.mocked(getCurrentUserKey).mockReturnValue('user-a');
+    await recordEntityRevision(createEntity('2026-01-01T10:00:00Z'));
+
+    // Act
+    vi.mocked(getCurrentUserKey).mockReturnValue('user-b');
+    const otherUserRevisions = await getRevisionStore().getRevisions('world-1', 'cormyr');
+    vi.mocked(getCurrentUserKey).mockReturnValue('user-a');
+    const ownRevisions = await getRevisionStore().getRevisions('world-1', 'cormyr');
+
+    // Assert
+    expect(otherUserRevisions).toEqual([]);
+    expect(ownRevisions).toHaveLength(1);
+  });
+
+  it('opens a separate IndexedDB database for each user', () => {
+    const open = vi.fn(() => ({}) as IDBOpenDBRequest);
+
+    void createIndexedDbRevisionStore({ open } as unknown as IDBFactory, 'user-a').getRevisions('world-1', 'cormyr');
+
+    expect(open).toHaveBeenCalledWith('libris-maleficarum.user-a', 1);
+  });
+
+  it('logs rather than throws when the store fails', async () => {
+    setRevisionStore({
+      ...store,
+      addRevision: () => Promise.reject(new Error('Quota exceeded')),
+    });
+
+    await expect(recordEntityRevision(createEntity('2026-01-01T10:00:00Z'))).resolves.toBeUndefined();
+  });
+});
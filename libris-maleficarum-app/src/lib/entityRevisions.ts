@@ -0,0 +1,217 @@
+/**
+ * Entity Revisions
+ *
+ * Snapshots of entries taken after every successful save, kept on the client
+ * so earlier versions can be compared and restored. Revisions are held by a
+ * pluggable `RevisionStore`: IndexedDB in the browser, memory where IndexedDB
+ * is unavailable (tests), and a server-side store can be set later with
+ * `setRevisionStore`. The default stores are kept apart per signed-in user,
+ * like the user preferences, so people sharing a browser do not see each
+ * other's revisions.
+ *
+ * @module lib/entityRevisions
+ */
+
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+import { logger } from './logger';
+import { getCurrentUserKey } from './userPreferences';
+
+/**
+ * An entry as it was after a save
+ */
+export interface EntityRevision {
+  /** Unique identifier (`{entityId}@{savedAt}`) */
+  id: string;
+
+  /** World of the entry */
+  worldId: string;
+
+  /** Entry the revision belongs to */
+  entityId: string;
+
+  /** When the entry was saved (its `updatedAt`, ISO 8601) */
+  savedAt: string;
+
+  /** The entry as saved */
+  snapshot: WorldEntity;
+}
+
+/**
+ * Storage backend for revisions
+ */
+export interface RevisionStore {
+  /** Store a revision (replacing one with the same ID) */
+  addRevision: (revision: EntityRevision) => Promise<void>;
+
+  /** Revisions of an entry, newest first */
+  getRevisions: (worldId: string, entityId: string) => Promise<EntityRevision[]>;
+
+  /** Forget a revision */
+  deleteRevision: (id: string) => Promise<void>;
+}
+
+/** Most revisions kept per entry; older ones are forgotten */
+export const MAX_REVISIONS_PER_ENTITY = 50;
+
+/** Fired on the window after a revision is recorded */
+export const ENTITY_REVISIONS_CHANGE_EVENT = 'lm:entity-revisions-change';
+
+const DATABASE_NAME = 'libris-maleficarum';
+const DATABASE_VERSION = 1;
+const REVISIONS_STORE = 'entityRevisions';
+const ENTITY_INDEX = 'byEntity';
+
+function sortNewestFirst(revisions: EntityRevision[]): EntityRevision[] {
+  return [...revisions].sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+/**
+ * Create a store keeping revisions in memory (lost on reload)
+ *
+ * @returns Revision store
+ */
+export function createMemoryRevisionStore(): RevisionStore {
+  const revisions = new Map<string, EntityRevision>();
+
+  return {
+    addRevision: async (revision) => {
+      revisions.set(revision.id, structuredClone(revision));
+    },
+    getRevisions: async (worldId, entityId) =>
+      sortNewestFirst(
+        [...revisions.values()].filter(
+          (revision) => revision.worldId === worldId && revision.entityId === entityId,
+        ),
+      ).map((revision) => structuredClone(revision)),
+    deleteRevision: async (id) => {
+      revisions.delete(id);
+    },
+  };
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Create a store keeping revisions in the browser's IndexedDB
+ *
+ * @param factory - IndexedDB factory (defaults to `window.indexedDB`)
+ * @param userKey - User whose revisions are kept (defaults to the current user)
+ * @returns Revision store
+ */
+export function createIndexedDbRevisionStore(
+  factory: IDBFactory = indexedDB,
+  userKey: string = getCurrentUserKey(),
+): RevisionStore {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = () => {
+    if (!database) {
+      const request = factory.open(`${DATABASE_NAME}.${userKey}`, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(REVISIONS_STORE, { keyPath: 'id' });
+        store.createIndex(ENTITY_INDEX, ['worldId', 'entityId']);
+      };
+      database = requestToPromise(request);
+    }
+    return database;
+  };
+
+  const getStore = async (mode: IDBTransactionMode) =>
+    (await openDatabase()).transaction(REVISIONS_STORE, mode).objectStore(REVISIONS_STORE);
+
+  return {
+    addRevision: async (revision) => {
+      await requestToPromise((await getStore('readwrite')).put(revision));
+    },
+    getRevisions: async (worldId, entityId) => {
+      const index = (await getStore('readonly')).index(ENTITY_INDEX);
+      const revisions = await requestToPromise(index.getAll(IDBKeyRange.only([worldId, entityId])));
+      return sortNewestFirst(revisions as EntityRevision[]);
+    },
+    deleteRevision: async (id) => {
+      await requestToPromise((await getStore('readwrite')).delete(id));
+    },
+  };
+}
+
+let revisionStore: RevisionStore | null = null;
+
+/** Default stores by user key */
+const userRevisionStores = new Map<string, RevisionStore>();
+
+/**
+ * Get the store revisions are kept in
+ *
+ * @returns The store set with `setRevisionStore`, otherwise the current user's
+ * IndexedDB store (memory where unavailable)
+ */
+export function getRevisionStore(): RevisionStore {
+  if (revisionStore) return revisionStore;
+
+  const userKey = getCurrentUserKey();
+  let store = userRevisionStores.get(userKey);
+  if (!store) {
+    store =
+      typeof indexedDB === 'undefined' ? createMemoryRevisionStore() : createIndexedDbRevisionStore(indexedDB, userKey);
+    userRevisionStores.set(userKey, store);
+  }
+  return store;
+}
+
+/**
+ * Keep revisions in another store (e.g. on the server)
+ *
+ * @param store - Revision store, or null to return to the default
+ */
+export function setRevisionStore(store: RevisionStore | null): void {
+  revisionStore = store;
+}
+
+function toRevision(entity: WorldEntity): EntityRevision {
+  return {
+    id: `${entity.id}@${entity.updatedAt}`,
+    worldId: entity.worldId,
+    entityId: entity.id,
+    savedAt: entity.updatedAt,
+    snapshot: entity,
+  };
+}
+
+/**
+ * Record an entry as it was saved
+ *
+ * Failures are logged rather than thrown, since the save itself succeeded.
+ *
+ * @param entity - Entry returned by the save
+ * @param previous - Entry before the save, recorded first when the entry has no revisions yet
+ */
+export async function recordEntityRevision(entity: WorldEntity, previous?: WorldEntity): Promise<void> {
+  const store = getRevisionStore();
+
+  try {
+    const revisions = await store.getRevisions(entity.worldId, entity.id);
+    if (revisions[0]?.savedAt === entity.updatedAt) return;
+
+    if (revisions.length === 0 && previous && previous.updatedAt !== entity.updatedAt) {
+      revisions.push(toRevision(previous));
+      await store.addRevision(revisions[0]);
+    }
+    const revision = toRevision(entity);
+    revisions.unshift(revision);
+    await store.addRevision(revision);
+
+    for (const expired of revisions.slice(MAX_REVISIONS_PER_ENTITY)) {
+      await store.deleteRevision(expired.id);
+    }
+  } catch (error) {
+    logger.error('STATE', 'Failed to record entity revision', { entityId: entity.id, error });
+    return;
+  }
+
+  window.dispatchEvent(new Event(ENTITY_REVISIONS_CHANGE_EVENT));
+}
@@ -0,0 +1,154 @@
+/**
+ * entityTemplates Utility Tests
+ *
+ * Tests for building templates from entities and filling in their
+ * placeholders.
+ *
+ * @see entityTemplates.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  countTemplateEntities,
+  createEntityTemplate,
+  getTemplatePlaceholders,
+  instantiateEntityTemplate,
+  type EntityTemplate,
+} from './entityTemplates';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+
+const createEntity = (id: string, path: string[], overrides: Partial<WorldEntity> = {}): WorldEntity => ({
+  id,
+  worldId: 'world-1',
+  parentId: path[path.length - 1] ?? null,
+  entityType: WorldEntityType.Location,
+  name: id,
+  description: '',
+  tags: [],
+  path,
+  depth: path.length,
+  hasChildren: false,
+  ownerId: 'test-user',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  isDeleted: false,
+  schemaVersion: 1,
+  ...overrides,
+});
+
+describe('createEntityTemplate', () => {
+  it('should nest descendants beneath their parents', () => {
+    const template = createEntityTemplate(
+      'Keep',
+      [
+        createEntity('keep', ['world-root']),
+        createEntity('hall', ['world-root', 'keep']),
+        createEntity('throne', ['world-root', 'keep', 'hall']),
+        createEntity('tower', ['world-root', 'keep']),
+      ],
+      { scope: 'world', useNamePlaceholder: false },
+    );
+
+    expect(template.name).toBe('Keep');
+    expect(template.scope).toBe('world');
+    expect(template.root.name).toBe('keep');
+    expect(template.root.children.map(({ name }) => name)).toEqual(['hall', 'tower']);
+    expect(template.root.children[0].children.map(({ name }) => name)).toEqual(['throne']);
+    expect(countTemplateEntities(template.root)).toBe(4);
+  });
+
+  it('should replace the root name with {{name}} in every text', () => {
+    const template = createEntityTemplate(
+      ' Town ',
+      [
+        createEntity('town', [], {
+          name: 'Millbrook',
+          description: 'Millbrook lies by the river.',
+          tags: ['Millbrook'],
+          properties: { Motto: 'For Millbrook!' },
+        }),
+        createEntity('inn', ['town'], { name: 'Millbrook Inn' }),
+      ],
+      { scope: 'user', useNamePlaceholder: true },
+    );
+
+    expect(template.name).toBe('Town');
+    expect(template.root.name).toBe('{{name}}');
+    expect(template.root.description).toBe('{{name}} lies by the river.');
+    expect(template.root.tags).toEqual(['{{name}}']);
+    expect(template.root.properties).toEqual({ Motto: 'For {{name}}!' });
+    expect(template.root.children[0].name).toBe('{{name}} Inn');
+  });
+
+  it('should replace the root name only where it is a whole word', () => {
+    const template = createEntityTemplate(
+      'Village',
+      [
+        createEntity('ash', [], {
+          name: 'Ash',
+          description: 'Ash trades timber with Ashford; the ash-grey walls of Ash.',
+          properties: { Neighbour: 'Cashel' },
+        }),
+        createEntity('keep', ['ash'], { name: 'Ash Keep' }),
+      ],
+      { scope: 'user', useNamePlaceholder: true },
+    );
+
+    expect(template.root.description).toBe('{{name}} trades timber with Ashford; the ash-grey walls of {{name}}.');
+    expect(template.root.properties).toEqual({ Neighbour: 'Cashel' });
+    expect(template.root.children[0].name).toBe('{{name}} Keep');
+  });
+});
+
+describe('getTemplatePlaceholders', () => {
+  it('should list name first, then other placeholders in order of use', () => {
+    const template = createEntityTemplate(
+      'Guild',
+      [
+        createEntity('guild', [], {
+          name: '{{ruler}} Guild',
+          description: 'Founded in {{year}} by {{ruler}}.',
+        }),
+      ],
+      { scope: 'world', useNamePlaceholder: false },
+    );
+
+    expect(getTemplatePlaceholders(template)).toEqual(['name', 'ruler', 'year']);
+  });
+});
+
+describe('instantiateEntityTemplate', () => {
+  const template: EntityTemplate = {
+    id: 'template-1',
+    name: 'Town',
+    scope: 'world',
+    createdAt: '2026-01-01T00:00:00Z',
+    root: {
+      entityType: WorldEntityType.Location,
+      name: '{{name}}',
+      description: '{{name}} is ruled by {{ruler}}.',
+      tags: [],
+      children: [
+        { entityType: WorldEntityType.Location, name: '{{name}} Inn', tags: ['{{unknown}}'], children: [] },
+      ],
+    },
+  };
+
+  it('should replace placeholders and leave unknown ones as they are', () => {
+    const root = instantiateEntityTemplate(template, { name: 'Ashford', ruler: 'Lady Wren' });
+
+    expect(root.name).toBe('Ashford');
+    expect(root.description).toBe('Ashford is ruled by Lady Wren.');
+    expect(root.children[0].name).toBe('Ashford Inn');
+    expect(root.children[0].tags).toEqual(['{{unknown}}']);
+  });
+
+  it('should name the top entry after the name value when the template does not use {{name}}', () => {
+    const root = instantiateEntityTemplate(
+      { ...template, root: { ...template.root, name: 'Village' } },
+      { name: 'Ashford' },
+    );
+
+    expect(root.name).toBe('Ashford');
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Entity Templates
+ *
+ * Pure helpers for entity templates: reusable copies of an entity (optionally
+ * with its subtree) that new entries can be created from. Any text in a
+ * template may contain placeholders such as `{{name}}`, which are replaced
+ * with values chosen when the template is used.
+ *
+ * @module lib/entityTemplates
+ */
+
+import type { WorldEntity, WorldEntityType } from '@/services/types/worldEntity.types';
+
+/**
+ * Where a template is offered: in the world it was saved in, or in every world of the user
+ */
+export type EntityTemplateScope = 'world' | 'user';
+
+/**
+ * One entry of a template, with the entries to create beneath it
+ */
+export interface EntityTemplateNode {
+  entityType: WorldEntityType;
+  name: string;
+  description?: string;
+  tags: string[];
+  schemaId?: string;
+  properties?: Record<string, unknown>;
+  systemProperties?: Record<string, unknown>;
+  schemaVersion?: number;
+  children: EntityTemplateNode[];
+}
+
+/**
+ * A named, stored template
+ */
+export interface EntityTemplate {
+  id: string;
+  name: string;
+  scope: EntityTemplateScope;
+  createdAt: string;
+  root: EntityTemplateNode;
+}
+
+/**
+ * Placeholder always offered when using a template (the new entry's name)
+ */
+export const NAME_PLACEHOLDER = 'name';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z][\w-]*)\s*\}\}/g;
+
+/**
+ * Apply a function to every string within a JSON-like value
+ */
+function mapStrings<T>(value: T, map: (text: string) => string): T {
+  if (typeof value === 'string') {
+    return map(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => mapStrings(item, map)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]),
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Apply a function to every text of a template node and its children
+ */
+function mapNodeStrings(node: EntityTemplateNode, map: (text: string) => string): EntityTemplateNode {
+  return {
+    ...node,
+    name: map(node.name),
+    description: node.description === undefined ? undefined : map(node.description),
+    tags: node.tags.map(map),
+    properties: mapStrings(node.properties, map),
+    systemProperties: mapStrings(node.systemProperties, map),
+    children: node.children.map((child) => mapNodeStrings(child, map)),
+  };
+}
+
+/**
+ * Match a name as a whole word, so "Ash" is found in "Ash Keep" but not in "Ashford"
+ */
+function wholeWordPattern(text: string): RegExp {
+  const escaped = text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, 'gu');
+}
+
+/**
+ * Build a template from an entity and (optionally) its descendants
+ *
+ * @param name - Template name
+ * @param entities - The template's root entity first, then any descendants (parents before children)
+ * @param options.scope - Where the template is offered
+ * @param options.useNamePlaceholder - Replace the root entity's name, where it appears as a whole word, with
+ *   `{{name}}` in every text
+ * @returns The new template
+ */
+export function createEntityTemplate(
+  name: string,
+  entities: WorldEntity[],
+  { scope, useNamePlaceholder }: { scope: EntityTemplateScope; useNamePlaceholder: boolean },
+): EntityTemplate {
+  const [rootEntity] = entities;
+  const nodes = new Map<string, EntityTemplateNode>();
+
+  for (const entity of entities) {
+    const node: EntityTemplateNode = {
+      entityType: entity.entityType,
+      name: entity.name,
+      description: entity.description,
+      tags: [...entity.tags],
+      schemaId: entity.schemaId,
+      properties: entity.properties,
+      systemProperties: entity.systemProperties,
+      schemaVersion: entity.schemaVersion,
+      children: [],
+    };
+    nodes.set(entity.id, node);
+    if (entity.id !== rootEntity.id && entity.parentId) {
+      nodes.get(entity.parentId)?.children.push(node);
+    }
+  }
+
+  const root = nodes.get(rootEntity.id)!;
+  const placeholder = `{{${NAME_PLACEHOLDER}}}`;
+  const rootName = rootEntity.name.trim();
+
+  return {
+    id: `template-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim(),
+    scope,
+    createdAt: new Date().toISOString(),
+    root: useNamePlaceholder && rootName
+      ? mapNodeStrings(root, (text) => text.replace(wholeWordPattern(rootName), () => placeholder))
+      : root,
+  };
+}
+
+/**
+ * List the placeholders used in a template, `name` first
+ *
+ * @param template - Template to inspect
+ * @returns Placeholder keys in order of first use
+ */
+export function getTemplatePlaceholders(template: EntityTemplate): string[] {
+  const keys = new Set<string>([NAME_PLACEHOLDER]);
+
+  mapNodeStrings(template.root, (text) => {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      keys.add(match[1]);
+    }
+    return text;
+  });
+
+  return Array.from(keys);
+}
+
+/**
+ * Replace placeholders in a template entry and its children
+ *
+ * Placeholders without a value are left as they are.
+ */
+function applyTemplatePlaceholders(
+  node: EntityTemplateNode,
+  values: Record<string, string>,
+): EntityTemplateNode {
+  return mapNodeStrings(node, (text) =>
+    text.replace(PLACEHOLDER_PATTERN, (placeholder, key: string) => values[key] ?? placeholder),
+  );
+}
+
+/**
+ * Prepare a template's entries for creation
+ *
+ * Placeholders are replaced with their values. The top entry is named after
+ * the `name` value even when the template does not use `{{name}}` in its name.
+ *
+ * @param template - Template to use
+ * @param values - Placeholder values by key
+ * @returns The entries to create, top entry first
+ */
+export function instantiateEntityTemplate(
+  template: EntityTemplate,
+  values: Record<string, string>,
+): EntityTemplateNode {
+  const root = applyTemplatePlaceholders(template.root, values);
+  const usesName = Array.from(template.root.name.matchAll(PLACEHOLDER_PATTERN)).some(
+    (match) => match[1] === NAME_PLACEHOLDER,
+  );
+
+  return usesName || !values[NAME_PLACEHOLDER] ? root : { ...root, name: values[NAME_PLACEHOLDER] };
+}
+
+/**
+ * Count a template entry and all entries beneath it
+ */
+export function countTemplateEntities(node: EntityTemplateNode): number {
+  return node.children.reduce((count, child) => count + countTemplateEntities(child), 1);
+}
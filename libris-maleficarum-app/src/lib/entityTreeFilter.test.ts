@@ -0,0 +1,184 @@
+/**
+ * entityTreeFilter Utility Tests
+ *
+ * Tests for matching entities against the tree filter and for building the
+ * filtered tree levels with their ancestor chain.
+ *
+ * @see entityTreeFilter.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_ENTITY_TREE_FILTER,
+  applyEntityTreeFilter,
+  buildFilteredTreeLevels,
+  findMatchRange,
+  isEntityTreeFilterActive,
+  matchesEntityTreeFilter,
+} from './entityTreeFilter';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+
+const createEntity = (
+  id: string,
+  name: string,
+  entityType: WorldEntity['entityType'],
+  path: string[],
+  tags: string[] = [],
+): WorldEntity => ({
+  id,
+  worldId: 'world-1',
+  parentId: path.at(-1) ?? null,
+  entityType,
+  name,
+  description: '',
+  tags,
+  path,
+  depth: path.length,
+  hasChildren: false,
+  ownerId: 'user-1',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  isDeleted: false,
+  schemaVersion: 1,
+});
+
+const faerun = createEntity('faerun', 'Faerûn', WorldEntityType.Continent, []);
+const cormyr = createEntity('cormyr', 'Cormyr', WorldEntityType.Country, ['faerun']);
+const suzail = createEntity('suzail', 'Suzail', WorldEntityType.City, ['faerun', 'cormyr']);
+const elminster = createEntity(
+  'elminster',
+  'Elminster Aumar',
+  WorldEntityType.Character,
+  ['faerun', 'cormyr', 'suzail'],
+  ['Wizard', 'npc'],
+);
+const karaTur = createEntity('kara-tur', 'Kara-Tur', WorldEntityType.Continent, []);
+const world = [faerun, cormyr, suzail, elminster, karaTur];
+
+describe('entityTreeFilter', () => {
+  describe('isEntityTreeFilterActive', () => {
+    it('should ignore a blank query', () => {
+      expect(isEntityTreeFilterActive(EMPTY_ENTITY_TREE_FILTER)).toBe(false);
+      expect(isEntityTreeFilterActive({ ...EMPTY_ENTITY_TREE_FILTER, query: '   ' })).toBe(false);
+    });
+
+    it('should be active for any criterion', () => {
+      expect(isEntityTreeFilterActive({ ...EMPTY_ENTITY_TREE_FILTER, query: 'cor' })).toBe(true);
+      expect(
+        isEntityTreeFilterActive({
+          ...EMPTY_ENTITY_TREE_FILTER,
+          category: 'Geography',
+        }),
+      ).toBe(true);
+      expect(
+        isEntityTreeFilterActive({
+          ...EMPTY_ENTITY_TREE_FILTER,
+          tags: ['npc'],
+        }),
+      ).toBe(true);
+    });
+  });
+
+  describe('matchesEntityTreeFilter', () => {
+    it('should match names case-insensitively', () => {
+      expect(
+        matchesEntityTreeFilter(elminster, {
+          ...EMPTY_ENTITY_TREE_FILTER,
+          query: 'AUMAR',
+        }),
+      ).toBe(true);
+      expect(
+        matchesEntityTreeFilter(cormyr, {
+          ...EMPTY_ENTITY_TREE_FILTER,
+          query: 'aumar',
+        }),
+      ).toBe(false);
+    });
+
+    it('should match the entity type category', () => {
+      const filter = {
+        ...EMPTY_ENTITY_TREE_FILTER,
+        category: 'Geography' as const,
+      };
+
+      expect(matchesEntityTreeFilter(suzail, filter)).toBe(true);
+      expect(matchesEntityTreeFilter(elminster, filter)).toBe(false);
+    });
+
+    it('should require every tag', () => {
+      expect(
+        matchesEntityTreeFilter(elminster, {
+          ...EMPTY_ENTITY_TREE_FILTER,
+          tags: ['wizard', 'NPC'],
+        }),
+      ).toBe(true);
+      expect(
+        matchesEntityTreeFilter(elminster, {
+          ...EMPTY_ENTITY_TREE_FILTER,
+          tags: ['wizard', 'villain'],
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe('applyEntityTreeFilter', () => {
+    it('should collect matches and their ancestors from the path', () => {
+      // Act
+      const result = applyEntityTreeFilter(world, {
+        ...EMPTY_ENTITY_TREE_FILTER,
+        tags: ['wizard'],
+      });
+
+      // Assert
+      expect([...result.matchIds]).toEqual(['elminster']);
+      expect([...result.ancestorIds]).toEqual(['faerun', 'cormyr', 'suzail']);
+    });
+  });
+
+  describe('buildFilteredTreeLevels', () => {
+    it('should contain only matches and ancestors, grouped by parent', () => {
+      // Arrange
+      const result = applyEntityTreeFilter(world, {
+        ...EMPTY_ENTITY_TREE_FILTER,
+        query: 'suz',
+      });
+
+      // Act
+      const levels = buildFilteredTreeLevels(world, result);
+
+      // Assert
+      expect(Object.keys(levels)).toEqual(['root', 'faerun', 'cormyr']);
+      expect(levels.root?.entities.map((entity) => entity.id)).toEqual(['faerun']);
+      expect(levels.cormyr?.entities.map((entity) => entity.id)).toEqual(['suzail']);
+      expect(levels.cormyr?.hasMore).toBe(false);
+    });
+
+    it('should mark ancestors as having children', () => {
+      // Arrange
+      const result = applyEntityTreeFilter(world, {
+        ...EMPTY_ENTITY_TREE_FILTER,
+        query: 'elminster',
+      });
+
+      // Act
+      const levels = buildFilteredTreeLevels(world, result);
+
+      // Assert
+      expect(levels.cormyr?.entities[0]).toMatchObject({
+        id: 'suzail',
+        hasChildren: true,
+      });
+    });
+  });
+
+  describe('findMatchRange', () => {
+    it('should locate the query ignoring case', () => {
+      expect(findMatchRange('Elminster Aumar', 'aum')).toEqual([10, 13]);
+    });
+
+    it('should return null for a missing or blank query', () => {
+      expect(findMatchRange('Suzail', 'waterdeep')).toBeNull();
+      expect(findMatchRange('Suzail', ' ')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Entity Tree Filter
+ *
+ * Pure functions for narrowing the sidebar tree by name, entity type category
+ * and tags. Matching entities are shown together with their ancestor chain
+ * (taken from the materialized `path`), so results keep their place in the
+ * hierarchy.
+ *
+ * @module lib/entityTreeFilter
+ */
+
+import { getEntityTypeConfig, type EntityTypeCategory } from '@/services/config/entityTypeRegistry';
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+import { getTreeLevelKey, type EntityTreeLevels } from './entityTreeRows';
+
+/**
+ * Criteria for filtering the tree; all given criteria must match
+ */
+export interface EntityTreeFilter {
+  /** Case-insensitive substring of the entity name */
+  query: string;
+
+  /** Entity type category, or null for any */
+  category: EntityTypeCategory | null;
+
+  /** Tags the entity must all have */
+  tags: string[];
+}
+
+export const EMPTY_ENTITY_TREE_FILTER: EntityTreeFilter = {
+  query: '',
+  category: null,
+  tags: [],
+};
+
+/**
+ * Entities to show for a filter
+ */
+export interface EntityTreeFilterResult {
+  /** Entities matching the filter */
+  matchIds: Set<string>;
+
+  /** Ancestors of matching entities (expanded to reveal the matches) */
+  ancestorIds: Set<string>;
+}
+
+/**
+ * Check whether any filter criterion is set
+ */
+export function isEntityTreeFilterActive(filter: EntityTreeFilter): boolean {
+  return filter.query.trim().length > 0 || filter.category !== null || filter.tags.length > 0;
+}
+
+/**
+ * Check whether an entity matches every criterion of the filter
+ *
+ * @param entity - Entity to test
+ * @param filter - Filter criteria
+ */
+export function matchesEntityTreeFilter(
+  entity: Pick<WorldEntity, 'name' | 'entityType' | 'tags'>,
+  filter: EntityTreeFilter,
+): boolean {
+  const query = filter.query.trim().toLowerCase();
+  if (query && !entity.name.toLowerCase().includes(query)) {
+    return false;
+  }
+
+  if (filter.category && getEntityTypeConfig(entity.entityType)?.category !== filter.category) {
+    return false;
+  }
+
+  if (filter.tags.length > 0) {
+    const entityTags = new Set((entity.tags ?? []).map((tag) => tag.toLowerCase()));
+    if (!filter.tags.every((tag) => entityTags.has(tag.toLowerCase()))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Find the matching entities and the ancestors needed to reach them
+ *
+ * @param entities - Every entity of the world
+ * @param filter - Filter criteria
+ */
+export function applyEntityTreeFilter(
+  entities: WorldEntity[],
+  filter: EntityTreeFilter,
+): EntityTreeFilterResult {
+  const matchIds = new Set<string>();
+  const ancestorIds = new Set<string>();
+
+  for (const entity of entities) {
+    if (matchesEntityTreeFilter(entity, filter)) {
+      matchIds.add(entity.id);
+      entity.path.forEach((ancestorId) => ancestorIds.add(ancestorId));
+    }
+  }
+
+  return { matchIds, ancestorIds };
+}
+
+/**
+ * Build fully loaded tree levels containing only the matches and their ancestors
+ *
+ * Levels are created for the root and for each ancestor, so they can stand in for
+ * the lazily loaded levels while the filter is active.
+ *
+ * @param entities - Every entity of the world
+ * @param result - Result of {@link applyEntityTreeFilter}
+ */
+export function buildFilteredTreeLevels(
+  entities: WorldEntity[],
+  result: EntityTreeFilterResult,
+): EntityTreeLevels {
+  const levels: EntityTreeLevels = {};
+  const levelFor = (parentId: string | null) => {
+    const key = getTreeLevelKey(parentId);
+    return (levels[key] ??= {
+      entities: [],
+      hasMore: false,
+      isLoading: false,
+      isError: false,
+      isFetchingNextPage: false,
+      isFetchNextPageError: false,
+    });
+  };
+
+  levelFor(null);
+  result.ancestorIds.forEach((ancestorId) => levelFor(ancestorId));
+
+  for (const entity of entities) {
+    if (result.ancestorIds.has(entity.id)) {
+      // An ancestor of a match has children even if its flag is stale
+      levelFor(entity.parentId).entities.push(entity.hasChildren ? entity : { ...entity, hasChildren: true });
+    } else if (result.matchIds.has(entity.id)) {
+      levelFor(entity.parentId).entities.push(entity);
+    }
+  }
+
+  return levels;
+}
+
+/**
+ * Locate the first case-insensitive occurrence of the query in a name
+ *
+ * @param text - Text to search
+ * @param query - Query to highlight
+ * @returns Start and end offsets, or null when the query does not occur
+ */
+export function findMatchRange(text: string, query: string): [number, number] | null {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return null;
+
+  const start = text.toLowerCase().indexOf(needle);
+  return start === -1 ? null : [start, start + needle.length];
+}
@@ -0,0 +1,156 @@
+/**
+ * entityTreeRows Utility Tests
+ *
+ * Tests for flattening loaded tree levels into display rows and for
+ * data-driven keyboard navigation between rows.
+ *
+ * @see entityTreeRows.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  flattenEntityTree,
+  getExpandedRowIds,
+  getNavigationTargetIndex,
+  type EntityTreeLevelState,
+} from './entityTreeRows';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+
+const createEntity = (id: string, parentId: string | null, hasChildren = false): WorldEntity => ({
+  id,
+  worldId: 'world-1',
+  parentId,
+  entityType: WorldEntityType.Continent,
+  name: id,
+  description: '',
+  tags: [],
+  path: parentId ? [parentId] : [],
+  depth: parentId ? 1 : 0,
+  hasChildren,
+  ownerId: 'user-1',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  isDeleted: false,
+  schemaVersion: 1,
+});
+
+const loadedLevel = (entities: WorldEntity[], hasMore = false): EntityTreeLevelState => ({
+  entities,
+  hasMore,
+  isLoading: false,
+  isError: false,
+  isFetchingNextPage: false,
+  isFetchNextPageError: false,
+});
+
+const faerun = createEntity('faerun', null, true);
+const karaTur = createEntity('kara-tur', null);
+const cormyr = createEntity('cormyr', 'faerun');
+const sembia = createEntity('sembia', 'faerun');
+
+describe('entityTreeRows', () => {
+  describe('flattenEntityTree', () => {
+    it('should list root entries only while nothing is expanded', () => {
+      // Arrange
+      const levels = { root: loadedLevel([faerun, karaTur]) };
+
+      // Act
+      const rows = flattenEntityTree(levels, new Set());
+
+      // Assert
+      expect(rows.map((row) => row.key)).toEqual(['faerun', 'kara-tur']);
+      expect(rows[0]).toMatchObject({ kind: 'entity', level: 0, isExpanded: false, posInSet: 1, setSize: 2 });
+    });
+
+    it('should place children directly beneath their expanded parent', () => {
+      // Arrange
+      const levels = {
+        root: loadedLevel([faerun, karaTur]),
+        faerun: loadedLevel([cormyr, sembia]),
+      };
+
+      // Act
+      const rows = flattenEntityTree(levels, new Set(['faerun']));
+
+      // Assert
+      expect(rows.map((row) => row.key)).toEqual(['faerun', 'cormyr', 'sembia', 'kara-tur']);
+      expect(rows[1]).toMatchObject({ level: 1, posInSet: 1, setSize: 2 });
+      expect(getExpandedRowIds(rows)).toEqual(['faerun']);
+    });
+
+    it('should show a loading row for an expanded parent whose children are not loaded', () => {
+      // Arrange
+      const levels = { root: loadedLevel([faerun, karaTur]) };
+
+      // Act
+      const rows = flattenEntityTree(levels, new Set(['faerun']));
+
+      // Assert
+      expect(rows[1]).toMatchObject({ kind: 'loading', level: 1, parentId: 'faerun' });
+    });
+
+    it('should end a partially loaded level with a load more row and an unknown set size', () => {
+      // Arrange
+      const levels = { root: loadedLevel([faerun, karaTur], true) };
+
+      // Act
+      const rows = flattenEntityTree(levels, new Set());
+
+      // Assert
+      expect(rows).toHaveLength(3);
+      expect(rows[0]).toMatchObject({ setSize: -1 });
+      expect(rows[2]).toMatchObject({ kind: 'loadMore', parentId: null, loadedCount: 2 });
+    });
+
+    it('should leave out hidden entries', () => {
+      // Arrange
+      const levels = {
+        root: loadedLevel([faerun, karaTur]),
+        faerun: loadedLevel([cormyr, sembia]),
+      };
+
+      // Act
+      const rows = flattenEntityTree(levels, new Set(['faerun']), new Set(['cormyr']));
+
+      // Assert
+      expect(rows.map((row) => row.key)).toEqual(['faerun', 'sembia', 'kara-tur']);
+      expect(rows[1]).toMatchObject({ posInSet: 1, setSize: 1 });
+    });
+  });
+
+  describe('getNavigationTargetIndex', () => {
+    const rows = flattenEntityTree(
+      { root: loadedLevel([faerun, karaTur], true) },
+      new Set(['faerun']),
+    );
+    // faerun, loading:faerun, kara-tur, load-more:root
+
+    it('should skip placeholder rows when moving down and up', () => {
+      expect(getNavigationTargetIndex(rows, 0, 'ArrowDown')).toBe(2);
+      expect(getNavigationTargetIndex(rows, 2, 'ArrowUp')).toBe(0);
+    });
+
+    it('should reach the load more row and stop at the ends', () => {
+      expect(getNavigationTargetIndex(rows, 2, 'ArrowDown')).toBe(3);
+      expect(getNavigationTargetIndex(rows, 3, 'ArrowDown')).toBe(-1);
+      expect(getNavigationTargetIndex(rows, 0, 'ArrowUp')).toBe(-1);
+    });
+
+    it('should jump to the first and last rows with Home and End', () => {
+      expect(getNavigationTargetIndex(rows, 2, 'Home')).toBe(0);
+      expect(getNavigationTargetIndex(rows, 0, 'End')).toBe(3);
+    });
+
+    it('should move to the parent with ArrowLeft', () => {
+      // Arrange
+      const nested = flattenEntityTree(
+        { root: loadedLevel([faerun, karaTur]), faerun: loadedLevel([cormyr, sembia]) },
+        new Set(['faerun']),
+      );
+
+      // Act & Assert
+      expect(getNavigationTargetIndex(nested, 2, 'ArrowLeft')).toBe(0);
+      expect(getNavigationTargetIndex(nested, 0, 'ArrowLeft')).toBe(-1);
+    });
+  });
+});
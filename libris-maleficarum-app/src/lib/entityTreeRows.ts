@@ -0,0 +1,205 @@
+/**
+ * Entity Tree Rows
+ *
+ * Pure functions that flatten the lazily loaded entity hierarchy into the
+ * ordered list of rows shown by the (virtualized) sidebar tree. Each level of
+ * the tree is loaded separately; this module only combines what is loaded
+ * with the expanded state, so rendering and keyboard navigation can both work
+ * from the same data instead of querying the DOM.
+ *
+ * @module lib/entityTreeRows
+ */
+
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+
+/**
+ * Loaded state of the children of one parent (or of the root level)
+ */
+export interface EntityTreeLevelState {
+  /** Children loaded so far, across all fetched pages */
+  entities: WorldEntity[];
+
+  /** Whether more pages can be loaded */
+  hasMore: boolean;
+
+  /** Whether the first page is still loading */
+  isLoading: boolean;
+
+  /** Whether the first page failed to load */
+  isError: boolean;
+
+  /** Whether a further page is loading */
+  isFetchingNextPage: boolean;
+
+  /** Whether the last attempt to load a further page failed */
+  isFetchNextPageError: boolean;
+}
+
+/**
+ * Loaded levels keyed by {@link getTreeLevelKey}
+ */
+export type EntityTreeLevels = Record<string, EntityTreeLevelState | undefined>;
+
+/**
+ * A single row of the flattened tree
+ */
+export type EntityTreeRow =
+  | {
+      kind: 'entity';
+      key: string;
+      level: number;
+      entity: WorldEntity;
+      isExpanded: boolean;
+      /** 1-based position among the loaded siblings */
+      posInSet: number;
+      /** Number of siblings, or -1 while more pages remain (ARIA "unknown") */
+      setSize: number;
+    }
+  | {
+      kind: 'loadMore';
+      key: string;
+      level: number;
+      parentId: string | null;
+      loadedCount: number;
+      isFetchingNextPage: boolean;
+      isFetchNextPageError: boolean;
+    }
+  | { kind: 'loading'; key: string; level: number; parentId: string | null }
+  | { kind: 'error'; key: string; level: number; parentId: string | null };
+
+/**
+ * Key under which the children of a parent are stored
+ *
+ * @param parentId - Parent entity ID (null for the root level)
+ */
+export function getTreeLevelKey(parentId: string | null): string {
+  return parentId ?? 'root';
+}
+
+/**
+ * Flatten the loaded levels into visible rows, in display order
+ *
+ * Children are included only beneath expanded entities. An expanded entity whose
+ * children are not loaded yet gets a `loading` (or `error`) row, and a level with
+ * further pages ends with a `loadMore` row.
+ *
+ * @param levels - Loaded levels keyed by {@link getTreeLevelKey}
+ * @param expandedIds - IDs of expanded entities
+ * @param hiddenIds - IDs to leave out (e.g. optimistically deleted entities)
+ * @returns Rows in display order
+ */
+export function flattenEntityTree(
+  levels: EntityTreeLevels,
+  expandedIds: ReadonlySet<string>,
+  hiddenIds?: ReadonlySet<string>,
+): EntityTreeRow[] {
+  const rows: EntityTreeRow[] = [];
+
+  const visit = (parentId: string | null, level: number) => {
+    const key = getTreeLevelKey(parentId);
+    const state = levels[key];
+
+    if (!state || state.isLoading) {
+      rows.push({ kind: 'loading', key: `loading:${key}`, level, parentId });
+      return;
+    }
+
+    if (state.isError && !state.isFetchNextPageError) {
+      rows.push({ kind: 'error', key: `error:${key}`, level, parentId });
+      return;
+    }
+
+    const entities = hiddenIds && hiddenIds.size > 0
+      ? state.entities.filter((entity) => !hiddenIds.has(entity.id))
+      : state.entities;
+    const setSize = state.hasMore ? -1 : entities.length;
+
+    entities.forEach((entity, index) => {
+      const isExpanded = entity.hasChildren && expandedIds.has(entity.id);
+      rows.push({
+        kind: 'entity',
+        key: entity.id,
+        level,
+        entity,
+        isExpanded,
+        posInSet: index + 1,
+        setSize,
+      });
+
+      if (isExpanded) {
+        visit(entity.id, level + 1);
+      }
+    });
+
+    if (state.hasMore) {
+      rows.push({
+        kind: 'loadMore',
+        key: `load-more:${key}`,
+        level,
+        parentId,
+        loadedCount: entities.length,
+        isFetchingNextPage: state.isFetchingNextPage,
+        isFetchNextPageError: state.isFetchNextPageError,
+      });
+    }
+  };
+
+  visit(null, 0);
+  return rows;
+}
+
+/**
+ * IDs of the expanded entities that are currently visible, i.e. the parents whose
+ * children need to be loaded
+ *
+ * @param rows - Flattened rows
+ */
+export function getExpandedRowIds(rows: EntityTreeRow[]): string[] {
+  return rows
+    .filter((row) => row.kind === 'entity' && row.isExpanded)
+    .map((row) => row.key);
+}
+
+/**
+ * Index of the row to move to from `fromIndex` for a navigation key, skipping
+ * placeholder rows (loading and error). Returns -1 when there is nowhere to go.
+ *
+ * @param rows - Flattened rows
+ * @param fromIndex - Index of the current row
+ * @param key - Navigation key: ArrowDown, ArrowUp, Home, End, or ArrowLeft (to the parent)
+ */
+export function getNavigationTargetIndex(rows: EntityTreeRow[], fromIndex: number, key: string): number {
+  const isNavigable = (row: EntityTreeRow) => row.kind === 'entity' || row.kind === 'loadMore';
+
+  switch (key) {
+    case 'ArrowDown':
+      for (let i = fromIndex + 1; i < rows.length; i++) {
+        if (isNavigable(rows[i])) return i;
+      }
+      return -1;
+
+    case 'ArrowUp':
+      for (let i = fromIndex - 1; i >= 0; i--) {
+        if (isNavigable(rows[i])) return i;
+      }
+      return -1;
+
+    case 'Home':
+      return rows.findIndex(isNavigable);
+
+    case 'End':
+      for (let i = rows.length - 1; i >= 0; i--) {
+        if (isNavigable(rows[i])) return i;
+      }
+      return -1;
+
+    case 'ArrowLeft': {
+      const row = rows[fromIndex];
+      const parentId = row?.kind === 'entity' ? row.entity.parentId : row?.kind === 'loadMore' ? row.parentId : null;
+      return parentId ? rows.findIndex((candidate) => candidate.key === parentId) : -1;
+    }
+
+    default:
+      return -1;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * entityTreeSort Utility Tests
+ *
+ * Tests for ordering tree siblings by the available sort modes and for
+ * computing sort keys when entries are reordered manually.
+ *
+ * @see entityTreeSort.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  SORT_KEY_STEP,
+  getManualOrderSortKeys,
+  getManualReorderUpdates,
+  sortEntityTreeSiblings,
+  type EntityTreeSortMode,
+} from './entityTreeSort';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+
+const createEntity = (
+  id: string,
+  name: string,
+  entityType: WorldEntity['entityType'],
+  updatedAt: string,
+  sortKey?: number,
+) => ({ id, name, entityType, updatedAt, sortKey });
+
+// API order
+const waterdeep = createEntity('waterdeep', 'Waterdeep', WorldEntityType.City, '2026-02-01T00:00:00Z');
+const elminster = createEntity('elminster', 'Elminster', WorldEntityType.Character, '2026-03-01T00:00:00Z', 2048);
+const archives = createEntity('archives', 'Archives', WorldEntityType.Folder, '2026-01-01T00:00:00Z');
+const baldursGate = createEntity('baldurs-gate', "Baldur's Gate", WorldEntityType.City, '2026-01-15T00:00:00Z', 1024);
+const siblings = [waterdeep, elminster, archives, baldursGate];
+
+const sortIds = (mode: EntityTreeSortMode, containersFirst = false) =>
+  sortEntityTreeSiblings(siblings, { mode, containersFirst }).map((entity) => entity.id);
+
+describe('entityTreeSort', () => {
+  describe('sortEntityTreeSiblings', () => {
+    it('should sort alphabetically', () => {
+      expect(sortIds('alphabetical')).toEqual(['archives', 'baldurs-gate', 'elminster', 'waterdeep']);
+    });
+
+    it('should compare names naturally and ignore case', () => {
+      // Arrange
+      const numbered = [
+        createEntity('b', 'tower 10', WorldEntityType.Building, '2026-01-01T00:00:00Z'),
+        createEntity('a', 'Tower 9', WorldEntityType.Building, '2026-01-01T00:00:00Z'),
+      ];
+
+      // Act
+      const sorted = sortEntityTreeSiblings(numbered, { mode: 'alphabetical', containersFirst: false });
+
+      // Assert
+      expect(sorted.map((entity) => entity.id)).toEqual(['a', 'b']);
+    });
+
+    it('should group by type category in registry order, then by name', () => {
+      expect(sortIds('type')).toEqual(['baldurs-gate', 'waterdeep', 'elminster', 'archives']);
+    });
+
+    it('should put the most recently updated first', () => {
+      expect(sortIds('updated')).toEqual(['elminster', 'waterdeep', 'baldurs-gate', 'archives']);
+    });
+
+    it('should order by sort key and keep unkeyed entries in API order after them', () => {
+      expect(sortIds('manual')).toEqual(['baldurs-gate', 'elminster', 'waterdeep', 'archives']);
+    });
+
+    it('should keep containers first in any mode', () => {
+      expect(sortIds('alphabetical', true)).toEqual(['archives', 'baldurs-gate', 'elminster', 'waterdeep']);
+      expect(sortIds('manual', true)).toEqual(['archives', 'baldurs-gate', 'elminster', 'waterdeep']);
+      expect(sortIds('updated', true)[0]).toBe('archives');
+    });
+
+    it('should not modify the given array', () => {
+      // Act
+      sortIds('alphabetical');
+
+      // Assert
+      expect(siblings.map((entity) => entity.id)).toEqual(['waterdeep', 'elminster', 'archives', 'baldurs-gate']);
+    });
+  });
+
+  describe('getManualReorderUpdates', () => {
+    const keyed = [
+      { id: 'a', sortKey: 1024 },
+      { id: 'b', sortKey: 2048 },
+      { id: 'c', sortKey: 3072 },
+    ];
+
+    it('should place the entity between its new neighbours', () => {
+      expect(getManualReorderUpdates(keyed, 'c', 1)).toEqual([{ id: 'c', sortKey: 1536 }]);
+    });
+
+    it('should place the entity before the first or after the last sibling', () => {
+      expect(getManualReorderUpdates(keyed, 'c', 0)).toEqual([{ id: 'c', sortKey: 1024 - SORT_KEY_STEP }]);
+      expect(getManualReorderUpdates(keyed, 'a', 2)).toEqual([{ id: 'a', sortKey: 3072 + SORT_KEY_STEP }]);
+    });
+
+    it('should return nothing when the position does not change', () => {
+      expect(getManualReorderUpdates(keyed, 'b', 1)).toEqual([]);
+      expect(getManualReorderUpdates(keyed, 'unknown', 0)).toEqual([]);
+    });
+
+    it('should renumber the siblings when a neighbour has no sort key', () => {
+      // Arrange
+      const partlyKeyed = [{ id: 'a', sortKey: 1024 }, { id: 'b' }, { id: 'c' }];
+
+      // Act
+      const updates = getManualReorderUpdates(partlyKeyed, 'c', 1);
+
+      // Assert - 'a' keeps its key
+      expect(updates).toEqual([
+        { id: 'c', sortKey: 2048 },
+        { id: 'b', sortKey: 3072 },
+      ]);
+    });
+
+    it('should renumber the siblings when any sibling has no sort key', () => {
+      // Arrange - the new neighbours of 'c' have keys, but 'd' does not
+      const partlyKeyed = [...keyed, { id: 'd' }];
+
+      // Act
+      const updates = getManualReorderUpdates(partlyKeyed, 'c', 0);
+
+      // Assert
+      expect(updates).toEqual([
+        { id: 'c', sortKey: 1024 },
+        { id: 'a', sortKey: 2048 },
+        { id: 'b', sortKey: 3072 },
+        { id: 'd', sortKey: 4096 },
+      ]);
+    });
+
+    it('should renumber the siblings when no gap is left between the neighbours', () => {
+      // Arrange
+      const crowded = [
+        { id: 'a', sortKey: 1 },
+        { id: 'b', sortKey: 1 + 1e-7 },
+        { id: 'c', sortKey: 2 },
+      ];
+
+      // Act
+      const updates = getManualReorderUpdates(crowded, 'c', 1);
+
+      // Assert
+      expect(updates.map((update) => update.id)).toEqual(['a', 'c', 'b']);
+      expect(updates.map((update) => update.sortKey)).toEqual([1024, 2048, 3072]);
+    });
+  });
+
+  describe('getManualOrderSortKeys', () => {
+    it('should keep the sort keys when every sibling has one', () => {
+      expect(getManualOrderSortKeys([{ id: 'a', sortKey: 5 }, { id: 'b', sortKey: 7 }])).toEqual([
+        { id: 'a', sortKey: 5 },
+        { id: 'b', sortKey: 7 },
+      ]);
+    });
+
+    it('should number the siblings in their order when one has no sort key', () => {
+      expect(getManualOrderSortKeys([{ id: 'a', sortKey: 5 }, { id: 'b' }])).toEqual([
+        { id: 'a', sortKey: 1024 },
+        { id: 'b', sortKey: 2048 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Entity Tree Sort
+ *
+ * Pure functions for ordering siblings in the sidebar tree: alphabetically, by
+ * entity type category, by last update, or in a manual order kept as a sort key
+ * on each entity. Containers (folders and other organizational types) can be
+ * kept above the other entries in every mode.
+ *
+ * Only loaded entities are sorted, so a partially loaded level is ordered within
+ * the pages loaded so far.
+ *
+ * @module lib/entityTreeSort
+ */
+
+import {
+  getEntityTypeCategories,
+  getEntityTypeConfig,
+} from '@/services/config/entityTypeRegistry';
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+import type { EntityTreeLevels } from './entityTreeRows';
+
+export type EntityTreeSortMode = 'alphabetical' | 'type' | 'updated' | 'manual';
+
+/**
+ * How siblings are ordered in the tree
+ */
+export interface EntityTreeSortOptions {
+  /** Ordering of siblings */
+  mode: EntityTreeSortMode;
+
+  /** Show container entries above the other siblings */
+  containersFirst: boolean;
+}
+
+/**
+ * Default ordering; without manual sort keys this keeps the order returned by the API
+ */
+export const DEFAULT_ENTITY_TREE_SORT: EntityTreeSortOptions = {
+  mode: 'manual',
+  containersFirst: false,
+};
+
+/** Gap between sort keys when siblings are (re)numbered */
+export const SORT_KEY_STEP = 1024;
+
+/** Smallest gap that is still split in half before siblings are renumbered */
+const MIN_SORT_KEY_GAP = 1e-6;
+
+/**
+ * New sort key for one entity
+ */
+export interface SortKeyUpdate {
+  id: string;
+  sortKey: number;
+}
+
+type SortableEntity = Pick<WorldEntity, 'name' | 'entityType' | 'updatedAt' | 'sortKey'>;
+
+const nameCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Check whether an entity is an organizational container (e.g. Folder, Locations)
+ */
+export function isContainerEntity(entity: Pick<WorldEntity, 'entityType'>): boolean {
+  return getEntityTypeConfig(entity.entityType)?.category === 'Containers';
+}
+
+function getCategoryRank(entity: SortableEntity): number {
+  const category = getEntityTypeConfig(entity.entityType)?.category;
+  const rank = category ? getEntityTypeCategories().indexOf(category) : -1;
+  return rank === -1 ? Number.MAX_SAFE_INTEGER : rank;
+}
+
+function compareNames(a: SortableEntity, b: SortableEntity): number {
+  return nameCollator.compare(a.name, b.name);
+}
+
+/**
+ * Compare by manual sort key; entities without a key follow in their original order
+ */
+function compareSortKeys(a: SortableEntity, b: SortableEntity): number {
+  const aHasKey = typeof a.sortKey === 'number';
+  const bHasKey = typeof b.sortKey === 'number';
+  if (aHasKey && bHasKey) return a.sortKey! - b.sortKey!;
+  if (aHasKey) return -1;
+  if (bHasKey) return 1;
+  return 0;
+}
+
+function compareByMode(a: SortableEntity, b: SortableEntity, mode: EntityTreeSortMode): number {
+  switch (mode) {
+    case 'alphabetical':
+      return compareNames(a, b);
+
+    case 'type':
+      return (
+        getCategoryRank(a) - getCategoryRank(b) ||
+        nameCollator.compare(
+          getEntityTypeConfig(a.entityType)?.label ?? a.entityType,
+          getEntityTypeConfig(b.entityType)?.label ?? b.entityType,
+        ) ||
+        compareNames(a, b)
+      );
+
+    case 'updated':
+      // Most recently updated first
+      return Date.parse(b.updatedAt) - Date.parse(a.updatedAt) || compareNames(a, b);
+
+    case 'manual':
+      return compareSortKeys(a, b);
+  }
+}
+
+/**
+ * Order the siblings of one parent
+ *
+ * @param entities - Siblings in API order
+ * @param options - Sort options
+ * @returns A new, sorted array (the sort is stable)
+ */
+export function sortEntityTreeSiblings<T extends SortableEntity>(
+  entities: readonly T[],
+  options: EntityTreeSortOptions,
+): T[] {
+  return [...entities].sort(
+    (a, b) =>
+      (options.containersFirst ? Number(isContainerEntity(b)) - Number(isContainerEntity(a)) : 0) ||
+      compareByMode(a, b, options.mode),
+  );
+}
+
+/**
+ * Order the siblings within every loaded tree level
+ *
+ * @param levels - Loaded levels by level key
+ * @param options - Sort options
+ */
+export function sortEntityTreeLevels(
+  levels: EntityTreeLevels,
+  options: EntityTreeSortOptions,
+): EntityTreeLevels {
+  const sorted: EntityTreeLevels = {};
+  for (const [key, level] of Object.entries(levels)) {
+    if (level) {
+      sorted[key] = { ...level, entities: sortEntityTreeSiblings(level.entities, options) };
+    }
+  }
+  return sorted;
+}
+
+/**
+ * Compute the sort keys that place an entity at a new position among its siblings
+ *
+ * The entity gets a key between its new neighbours when possible; otherwise (a sibling
+ * without a key, or no gap left) all siblings are renumbered, so after a reorder every
+ * sibling has a key.
+ *
+ * @param siblings - Siblings in manual order, including the entity
+ * @param entityId - Entity to move
+ * @param targetIndex - New index of the entity among the siblings
+ * @returns Sort keys to save (empty when the position does not change)
+ */
+export function getManualReorderUpdates(
+  siblings: readonly Pick<WorldEntity, 'id' | 'sortKey'>[],
+  entityId: string,
+  targetIndex: number,
+): SortKeyUpdate[] {
+  const currentIndex = siblings.findIndex((sibling) => sibling.id === entityId);
+  if (currentIndex === -1) return [];
+
+  const others = siblings.filter((sibling) => sibling.id !== entityId);
+  const index = Math.max(0, Math.min(targetIndex, others.length));
+  if (index === currentIndex) return [];
+
+  const prevKey = others[index - 1]?.sortKey;
+  const nextKey = others[index]?.sortKey;
+  const hasPrev = index > 0;
+  const hasNext = index < others.length;
+
+  if (
+    siblings.every((sibling) => typeof sibling.sortKey === 'number') &&
+    (!hasPrev || !hasNext || nextKey! - prevKey! > MIN_SORT_KEY_GAP)
+  ) {
+    const sortKey = !hasPrev
+      ? nextKey! - SORT_KEY_STEP
+      : !hasNext
+        ? prevKey! + SORT_KEY_STEP
+        : (prevKey! + nextKey!) / 2;
+    return [{ id: entityId, sortKey }];
+  }
+
+  // Renumber every sibling in the new order
+  const reordered = [...others.slice(0, index), siblings[currentIndex], ...others.slice(index)];
+  return reordered
+    .map((sibling, i) => ({ id: sibling.id, sortKey: (i + 1) * SORT_KEY_STEP, previous: sibling.sortKey }))
+    .filter((update) => update.sortKey !== update.previous)
+    .map(({ id, sortKey }) => ({ id, sortKey }));
+}
+
+/**
+ * Compute sort keys that keep siblings in their current manual order
+ *
+ * Siblings that all have a key keep it. Otherwise the siblings are numbered in
+ * their current order, since a key cannot be cleared again once it is saved.
+ *
+ * @param siblings - Siblings in manual order
+ * @returns A sort key for every sibling
+ */
+export function getManualOrderSortKeys(siblings: readonly Pick<WorldEntity, 'id' | 'sortKey'>[]): SortKeyUpdate[] {
+  if (siblings.every((sibling) => typeof sibling.sortKey === 'number')) {
+    return siblings.map(({ id, sortKey }) => ({ id, sortKey: sortKey! }));
+  }
+  return siblings.map(({ id }, i) => ({ id, sortKey: (i + 1) * SORT_KEY_STEP }));
+}
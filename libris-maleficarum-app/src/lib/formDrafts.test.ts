@@ -0,0 +1,62 @@
+/**
+ * formDrafts Utility Tests
+ *
+ * Tests for storing autosaved form drafts and describing when they were saved.
+ *
+ * @see formDrafts.ts
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  clearFormDraft,
+  formatDraftTime,
+  getEntityDraftKey,
+  getWorldDraftKey,
+  readFormDraft,
+  writeFormDraft,
+} from './formDrafts';
+
+describe('formDrafts', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should key drafts by world and entry, or by parent for new entries', () => {
+    expect(getEntityDraftKey('world-1', 'entity-1', 'parent-1')).toBe('entity.world-1.entity-1');
+    expect(getEntityDraftKey('world-1', null, 'parent-1')).toBe('entity.world-1.new.parent-1');
+    expect(getEntityDraftKey('world-1', null, null)).toBe('entity.world-1.new.root');
+    expect(getWorldDraftKey('world-1')).toBe('world.world-1');
+    expect(getWorldDraftKey(null)).toBe('world.new');
+  });
+
+  it('should store, read and clear a draft', () => {
+    // Arrange
+    const draft = { savedAt: '2026-10-19T14:32:00Z', baseUpdatedAt: null, values: { name: 'Cormyr' } };
+
+    // Act
+    writeFormDraft('world.new', draft);
+
+    // Assert
+    expect(readFormDraft('world.new')).toEqual(draft);
+    clearFormDraft('world.new');
+    expect(readFormDraft('world.new')).toBeNull();
+  });
+
+  it('should ignore malformed drafts', () => {
+    // Arrange
+    localStorage.setItem('lm.prefs.anonymous.formDraft.world.new', '{"values":{"name":"Cormyr"}}');
+
+    // Act & Assert
+    expect(readFormDraft('world.new')).toBeNull();
+  });
+
+  it('should show the time of drafts saved today and the date of older ones', () => {
+    // Arrange
+    const savedAt = new Date(2026, 9, 19, 14, 32).toISOString();
+    const time = new Date(savedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+    // Act & Assert
+    expect(formatDraftTime(savedAt, new Date(2026, 9, 19, 18, 0))).toBe(time);
+    expect(formatDraftTime(savedAt, new Date(2026, 9, 21, 9, 0))).toMatch(new RegExp(`^.+, ${time}$`));
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Form Drafts
+ *
+ * Autosaved copies of in-progress entry and world forms, kept in
+ * localStorage so that what was typed survives a crashed tab or a sleeping
+ * laptop. A draft remembers when the server copy it started from was last
+ * updated, so a restore can warn when the entry changed in the meantime.
+ *
+ * @module lib/formDrafts
+ */
+
+import { readUserPreference, removeUserPreference, writeUserPreference } from './userPreferences';
+
+const PREFERENCE_NAME = 'formDraft';
+
+/**
+ * An autosaved copy of a form
+ */
+export interface FormDraft<T> {
+  /** When the draft was saved (ISO 8601) */
+  savedAt: string;
+
+  /** `updatedAt` of the server copy being edited, or null for a new item */
+  baseUpdatedAt: string | null;
+
+  /** Form values */
+  values: T;
+}
+
+/**
+ * Draft key of the entry form
+ *
+ * @param worldId - World of the entry
+ * @param entityId - Entry being edited, or null when creating
+ * @param parentId - Parent of the entry being created (null at the root)
+ * @returns Key unique to the edited entry, or to creating beneath the parent
+ */
+export function getEntityDraftKey(worldId: string, entityId: string | null, parentId: string | null): string {
+  return entityId ? `entity.${worldId}.${entityId}` : `entity.${worldId}.new.${parentId ?? 'root'}`;
+}
+
+/**
+ * Draft key of the world form
+ *
+ * @param worldId - World being edited, or null when creating
+ * @returns Key unique to the edited world, or to creating a world
+ */
+export function getWorldDraftKey(worldId: string | null): string {
+  return worldId ? `world.${worldId}` : 'world.new';
+}
+
+/**
+ * Read a stored draft
+ *
+ * @param key - Draft key
+ * @returns The draft, or null if none (readable) is stored
+ */
+export function readFormDraft<T>(key: string): FormDraft<T> | null {
+  const draft = readUserPreference<FormDraft<T> | null>(PREFERENCE_NAME, key, null);
+
+  // Ignore values edited by hand
+  return draft && typeof draft.savedAt === 'string' && draft.values ? draft : null;
+}
+
+/**
+ * Store a draft, replacing any earlier one
+ *
+ * @param key - Draft key
+ * @param draft - Draft to store
+ */
+export function writeFormDraft<T>(key: string, draft: FormDraft<T>): void {
+  writeUserPreference(PREFERENCE_NAME, key, draft);
+}
+
+/**
+ * Forget a stored draft
+ *
+ * @param key - Draft key
+ */
+export function clearFormDraft(key: string): void {
+  removeUserPreference(PREFERENCE_NAME, key);
+}
+
+/**
+ * Describe when a draft was saved, for the restore prompt
+ *
+ * @param savedAt - When the draft was saved (ISO 8601)
+ * @param now - Current time
+ * @returns Time of day (e.g. "14:32"), with the date when not saved today
+ */
+export function formatDraftTime(savedAt: string, now: Date = new Date()): string {
+  const saved = new Date(savedAt);
+  const time = saved.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  if (saved.toDateString() === now.toDateString()) {
+    return time;
+  }
+  return `${saved.toLocaleDateString([], { day: 'numeric', month: 'short' })}, ${time}`;
+}
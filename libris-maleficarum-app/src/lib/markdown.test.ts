@@ -0,0 +1,158 @@
+/**
+ * markdown Utility Tests
+ *
+ * Tests for parsing Markdown lore and the editor's formatting commands.
+ *
+ * @see markdown.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyMarkdownFormat,
+  parseMarkdown,
+  parseMarkdownInline,
+  sanitizeMarkdownHref,
+} from './markdown';
+
+describe('parseMarkdown', () => {
+  it('should parse headings, paragraphs and horizontal rules', () => {
+    expect(parseMarkdown('# The Realm\n\nA land of **old** magic.\n\n---')).toEqual([
+      { type: 'heading', level: 1, children: [{ type: 'text', text: 'The Realm' }] },
+      {
+        type: 'paragraph',
+        children: [
+          { type: 'text', text: 'A land of ' },
+          { type: 'strong', children: [{ type: 'text', text: 'old' }] },
+          { type: 'text', text: ' magic.' },
+        ],
+      },
+      { type: 'thematicBreak' },
+    ]);
+  });
+
+  it('should keep single line breaks within a paragraph', () => {
+    expect(parseMarkdown('Line 1\nLine 2')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: 'Line 1\nLine 2' }] },
+    ]);
+  });
+
+  it('should parse nested lists', () => {
+    const [list] = parseMarkdown('- Rivers\n  1. Silverrun\n  2. Blackwater\n- Mountains');
+
+    expect(list).toMatchObject({ type: 'list', ordered: false, items: [expect.any(Array), expect.any(Array)] });
+    if (list.type !== 'list') throw new Error('Expected a list');
+    expect(list.items[0][1]).toMatchObject({ type: 'list', ordered: true, start: 1 });
+    expect(list.items[1]).toEqual([{ type: 'paragraph', children: [{ type: 'text', text: 'Mountains' }] }]);
+  });
+
+  it('should parse tables with alignment', () => {
+    const [table] = parseMarkdown('| House | Seat |\n| :--- | ---: |\n| Vale | Eyrie |');
+
+    expect(table).toEqual({
+      type: 'table',
+      align: ['left', 'right'],
+      header: [[{ type: 'text', text: 'House' }], [{ type: 'text', text: 'Seat' }]],
+      rows: [[[{ type: 'text', text: 'Vale' }], [{ type: 'text', text: 'Eyrie' }]]],
+    });
+  });
+
+  it('should parse fenced code blocks and block quotes', () => {
+    expect(parseMarkdown('```\n<b>raw</b>\n```\n\n> Winter is coming')).toEqual([
+      { type: 'codeBlock', language: null, text: '<b>raw</b>' },
+      { type: 'blockquote', children: [{ type: 'paragraph', children: [{ type: 'text', text: 'Winter is coming' }] }] },
+    ]);
+  });
+});
+
+describe('parseMarkdownInline', () => {
+  it('should parse emphasis, strikethrough and code', () => {
+    expect(parseMarkdownInline('*a* ~~b~~ `c`')).toEqual([
+      { type: 'emphasis', children: [{ type: 'text', text: 'a' }] },
+      { type: 'text', text: ' ' },
+      { type: 'strikethrough', children: [{ type: 'text', text: 'b' }] },
+      { type: 'text', text: ' ' },
+      { type: 'code', text: 'c' },
+    ]);
+  });
+
+  it('should not treat underscores within words or escaped characters as emphasis', () => {
+    expect(parseMarkdownInline('snake_case_name and \\*stars\\*')).toEqual([
+      { type: 'text', text: 'snake_case_name and *stars*' },
+    ]);
+  });
+
+  it('should drop link targets that are not allowed', () => {
+    expect(parseMarkdownInline('[map](https://example.com) [evil](javascript:void)')).toEqual([
+      { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'map' }] },
+      { type: 'text', text: ' ' },
+      { type: 'text', text: 'evil' },
+    ]);
+  });
+});
+
+describe('parseMarkdownInline - entity links', () => {
+  it('should parse linked and unlinked wiki links', () => {
+    expect(parseMarkdownInline('Ruled by [[entity:e-1|Queen Elara]] and [[Lord Vex]], see [map](/maps)')).toEqual([
+      { type: 'text', text: 'Ruled by ' },
+      { type: 'entityLink', entityId: 'e-1', label: 'Queen Elara' },
+      { type: 'text', text: ' and ' },
+      { type: 'entityLink', entityId: null, label: 'Lord Vex' },
+      { type: 'text', text: ', see ' },
+      { type: 'link', href: '/maps', children: [{ type: 'text', text: 'map' }] },
+    ]);
+  });
+});
+
+describe('sanitizeMarkdownHref', () => {
+  it('should allow web, mail and in-app links only', () => {
+    expect(sanitizeMarkdownHref('https://example.com')).toBe('https://example.com');
+    expect(sanitizeMarkdownHref('mailto:scribe@example.com')).toBe('mailto:scribe@example.com');
+    expect(sanitizeMarkdownHref('/worlds/1')).toBe('/worlds/1');
+    expect(sanitizeMarkdownHref('//evil.example')).toBeNull();
+    expect(sanitizeMarkdownHref('/\\evil.example')).toBeNull();
+    expect(sanitizeMarkdownHref('/\t/evil.example')).toBeNull();
+    expect(sanitizeMarkdownHref('JavaScript:alert(1)')).toBeNull();
+    expect(sanitizeMarkdownHref('data:text/html,x')).toBeNull();
+  });
+});
+
+describe('applyMarkdownFormat', () => {
+  it('should wrap the selection and unwrap it again', () => {
+    const bold = applyMarkdownFormat('a dragon', 2, 8, 'bold');
+    expect(bold).toEqual({ value: 'a **dragon**', selectionStart: 4, selectionEnd: 10 });
+
+    expect(applyMarkdownFormat(bold.value, bold.selectionStart, bold.selectionEnd, 'bold')).toEqual({
+      value: 'a dragon',
+      selectionStart: 2,
+      selectionEnd: 8,
+    });
+  });
+
+  it('should insert placeholder text without a selection', () => {
+    expect(applyMarkdownFormat('', 0, 0, 'italic')).toEqual({
+      value: '*italic text*',
+      selectionStart: 1,
+      selectionEnd: 12,
+    });
+  });
+
+  it('should select the URL of a new link', () => {
+    const edit = applyMarkdownFormat('see map', 4, 7, 'link');
+    expect(edit.value).toBe('see [map](https://)');
+    expect(edit.value.slice(edit.selectionStart, edit.selectionEnd)).toBe('https://');
+  });
+
+  it('should prefix and unprefix every selected line', () => {
+    const numbered = applyMarkdownFormat('one\ntwo', 0, 7, 'numberedList');
+    expect(numbered.value).toBe('1. one\n2. two');
+
+    expect(applyMarkdownFormat(numbered.value, 0, numbered.value.length, 'numberedList').value).toBe('one\ntwo');
+    expect(applyMarkdownFormat('intro\nlore', 8, 8, 'quote').value).toBe('intro\n> lore');
+  });
+
+  it('should insert a table on its own lines', () => {
+    expect(applyMarkdownFormat('Houses', 6, 6, 'table').value).toBe(
+      'Houses\n\n| Column | Column |\n| --- | --- |\n| Cell | Cell |\n',
+    );
+  });
+});
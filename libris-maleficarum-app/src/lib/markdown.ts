@@ -0,0 +1,527 @@
+/**
+ * Markdown
+ *
+ * A small Markdown parser for lore text and the formatting commands of the
+ * Markdown editor toolbar. Text is parsed into a tree that is rendered as React
+ * elements, so raw HTML is never interpreted - it is shown as written.
+ *
+ * Supported: headings, paragraphs, bold, italic, strikethrough, inline code,
+ * fenced code blocks, links (http, https, mailto and in-app paths only),
+ * bulleted and numbered lists (nested by indentation), block quotes,
+ * horizontal rules, pipe tables and wiki links to other entries
+ * (`[[entity:<id>|Name]]`, see `lib/entityLinks`). Single line breaks are kept,
+ * as lore was written as plain text before Markdown was supported.
+ *
+ * @module lib/markdown
+ */
+
+import { parseEntityLinkAt } from './entityLinks';
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'emphasis' | 'strikethrough'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'entityLink'; entityId: string | null; label: string };
+
+export type MarkdownTableAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3 | 4 | 5 | 6; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'codeBlock'; language: string | null; text: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | {
+      type: 'table';
+      align: MarkdownTableAlign[];
+      header: MarkdownInline[][];
+      rows: MarkdownInline[][][];
+    }
+  | { type: 'thematicBreak' };
+
+const HEADING_PATTERN = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_PATTERN = /^ {0,3}(```|~~~)\s*([\w+-]*)\s*$/;
+const THEMATIC_BREAK_PATTERN = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const BLOCKQUOTE_PATTERN = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM_PATTERN = /^( *)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const LINK_PATTERN = /^\[([^\]]*)\]\(\s*([^\s)]+)(?:\s+"[^"]*")?\s*\)/;
+const ESCAPABLE = '\\`*_{}[]()#+-.!|~>';
+
+/**
+ * Allow only link targets that cannot run script
+ *
+ * @param href - Link target as written
+ * @returns The target, or null if it is not allowed
+ */
+export function sanitizeMarkdownHref(href: string): string | null {
+  const trimmed = href.trim();
+  if (/^(https?:|mailto:)/i.test(trimmed)) return trimmed;
+  // In-app paths and anchors, but not protocol-relative URLs: browsers read a
+  // backslash as a slash and drop tabs and line breaks, so `/\evil.com` is `//evil.com`
+  if (/^(\/(?![/\\])|#)/.test(trimmed) && !/[\t\n\r]/.test(trimmed)) return trimmed;
+  return null;
+}
+
+function isBlank(line: string): boolean {
+  return line.trim().length === 0;
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += row[i];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function parseTableAlign(cell: string): MarkdownTableAlign {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  return (
+    index + 1 < lines.length &&
+    lines[index].includes('|') &&
+    TABLE_DELIMITER_PATTERN.test(lines[index + 1]) &&
+    lines[index + 1].includes('-')
+  );
+}
+
+/**
+ * Whether a line begins a block other than a paragraph
+ */
+function startsBlock(lines: string[], index: number): boolean {
+  const line = lines[index];
+  return (
+    HEADING_PATTERN.test(line) ||
+    FENCE_PATTERN.test(line) ||
+    THEMATIC_BREAK_PATTERN.test(line) ||
+    BLOCKQUOTE_PATTERN.test(line) ||
+    LIST_ITEM_PATTERN.test(line) ||
+    isTableStart(lines, index)
+  );
+}
+
+/**
+ * Find the closing delimiter of an inline span
+ *
+ * @returns Index of the closing delimiter, or -1
+ */
+function findClosing(text: string, delimiter: string, from: number): number {
+  for (let i = from; i <= text.length - delimiter.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text.startsWith(delimiter, i) && i > from && !/\s/.test(text[i - 1])) {
+      // A single delimiter must not be half of a double one
+      if (delimiter.length === 1 && text[i + 1] === delimiter) {
+        i++;
+        continue;
+      }
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse inline formatting
+ *
+ * @param text - Text of a paragraph, heading, list item or table cell
+ * @returns Inline nodes
+ */
+export function parseMarkdownInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\' && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[' && text[i + 1] === '[') {
+      const entityLink = parseEntityLinkAt(text, i);
+      if (entityLink) {
+        flush();
+        nodes.push({ type: 'entityLink', ...entityLink.link });
+        i += entityLink.length;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const match = LINK_PATTERN.exec(rest);
+      if (match) {
+        flush();
+        const href = sanitizeMarkdownHref(match[2]);
+        const children = parseMarkdownInline(match[1]);
+        if (href) {
+          nodes.push({ type: 'link', href, children });
+        } else {
+          nodes.push(...children);
+        }
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    const double = rest.slice(0, 2);
+    if ((double === '**' || double === '__' || double === '~~') && !/\s/.test(text[i + 2] ?? ' ')) {
+      const end = findClosing(text, double, i + 2);
+      if (end !== -1) {
+        flush();
+        nodes.push({
+          type: double === '~~' ? 'strikethrough' : 'strong',
+          children: parseMarkdownInline(text.slice(i + 2, end)),
+        });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    // Underscores inside words (e.g. snake_case) are not emphasis
+    const opensEmphasis =
+      (char === '*' || (char === '_' && !/[\p{L}\p{N}]/u.test(text[i - 1] ?? ' '))) &&
+      !/\s/.test(text[i + 1] ?? ' ');
+    if (opensEmphasis) {
+      const end = findClosing(text, char, i + 1);
+      if (end !== -1 && (char === '*' || !/[\p{L}\p{N}]/u.test(text[end + 1] ?? ' '))) {
+        flush();
+        nodes.push({ type: 'emphasis', children: parseMarkdownInline(text.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence (or end of text)
+      blocks.push({ type: 'codeBlock', language: fence[2] || null, text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length as 1 | 2 | 3 | 4 | 5 | 6,
+        children: parseMarkdownInline(heading[2]),
+      });
+      i++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK_PATTERN.test(line)) {
+      blocks.push({ type: 'thematicBreak' });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        const quote = BLOCKQUOTE_PATTERN.exec(lines[i]);
+        quoted.push(quote ? quote[1] : lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted) });
+      continue;
+    }
+
+    const listItem = LIST_ITEM_PATTERN.exec(line);
+    if (listItem) {
+      const indent = listItem[1].length;
+      const ordered = /\d/.test(listItem[2]);
+      const items: MarkdownBlock[][] = [];
+
+      while (i < lines.length) {
+        const item = LIST_ITEM_PATTERN.exec(lines[i]);
+        if (!item || item[1].length !== indent || /\d/.test(item[2]) !== ordered) break;
+
+        // The item's text plus any more deeply indented lines that follow it
+        const contentIndent = indent + item[2].length + 1;
+        const itemLines = [item[3]];
+        i++;
+        while (i < lines.length) {
+          const next = lines[i];
+          const nextIndent = next.length - next.trimStart().length;
+          if (isBlank(next)) {
+            const following = lines[i + 1];
+            if (following === undefined || following.length - following.trimStart().length <= indent) break;
+            itemLines.push('');
+          } else if (nextIndent > indent) {
+            itemLines.push(next.slice(Math.min(nextIndent, contentIndent)));
+          } else if (!startsBlock(lines, i) && !isBlank(lines[i - 1])) {
+            itemLines.push(next); // lazy continuation of the item's text
+          } else {
+            break;
+          }
+          i++;
+        }
+        items.push(parseBlocks(itemLines));
+
+        // A blank line between items keeps the list going
+        if (i + 1 < lines.length && isBlank(lines[i]) && LIST_ITEM_PATTERN.exec(lines[i + 1])?.[1].length === indent) {
+          i++;
+        }
+      }
+
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: ordered ? parseInt(listItem[2], 10) : 1,
+        items,
+      });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map(parseTableAlign);
+      const rows: MarkdownInline[][][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(header.map((_, column) => parseMarkdownInline(cells[column] ?? '')));
+        i++;
+      }
+      blocks.push({
+        type: 'table',
+        align: header.map((_, column) => align[column] ?? null),
+        header: header.map((cell) => parseMarkdownInline(cell)),
+        rows,
+      });
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseMarkdownInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse Markdown text into blocks
+ *
+ * @param text - Markdown text
+ * @returns Block nodes in document order
+ */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  return parseBlocks(text.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
+}
+
+/**
+ * Formatting command of the Markdown editor toolbar
+ */
+export type MarkdownFormat =
+  | 'heading'
+  | 'bold'
+  | 'italic'
+  | 'strikethrough'
+  | 'code'
+  | 'link'
+  | 'bulletList'
+  | 'numberedList'
+  | 'quote'
+  | 'table';
+
+/**
+ * Text and selection after a formatting command
+ */
+export interface MarkdownEdit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const WRAP_FORMATS: Partial<Record<MarkdownFormat, [delimiter: string, placeholder: string]>> = {
+  bold: ['**', 'bold text'],
+  italic: ['*', 'italic text'],
+  strikethrough: ['~~', 'struck text'],
+  code: ['`', 'code'],
+};
+
+const LINE_PREFIXES: Partial<Record<MarkdownFormat, string>> = {
+  heading: '## ',
+  bulletList: '- ',
+  quote: '> ',
+};
+
+const TABLE_TEMPLATE = '| Column | Column |\n| --- | --- |\n| Cell | Cell |';
+
+function wrapSelection(
+  value: string,
+  start: number,
+  end: number,
+  delimiter: string,
+  placeholder: string,
+): MarkdownEdit {
+  const before = value.slice(0, start);
+  const after = value.slice(end);
+
+  // Already wrapped: remove the delimiters
+  if (before.endsWith(delimiter) && after.startsWith(delimiter)) {
+    return {
+      value: before.slice(0, -delimiter.length) + value.slice(start, end) + after.slice(delimiter.length),
+      selectionStart: start - delimiter.length,
+      selectionEnd: end - delimiter.length,
+    };
+  }
+
+  const selected = value.slice(start, end) || placeholder;
+  return {
+    value: `${before}${delimiter}${selected}${delimiter}${after}`,
+    selectionStart: start + delimiter.length,
+    selectionEnd: start + delimiter.length + selected.length,
+  };
+}
+
+function prefixLines(value: string, start: number, end: number, format: MarkdownFormat): MarkdownEdit {
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+  const nextBreak = value.indexOf('\n', Math.max(end - (end > start ? 1 : 0), start));
+  const lineEnd = nextBreak === -1 ? value.length : nextBreak;
+  const lines = value.slice(lineStart, lineEnd).split('\n');
+
+  const prefixFor = (index: number) => (format === 'numberedList' ? `${index + 1}. ` : LINE_PREFIXES[format]!);
+  const pattern = format === 'numberedList' ? /^\d+\.\s/ : new RegExp(`^${LINE_PREFIXES[format]!.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`);
+
+  const applied = lines.every((line) => pattern.test(line))
+    ? lines.map((line) => line.replace(pattern, ''))
+    : lines.map((line, index) => prefixFor(index) + line.replace(pattern, ''));
+  const replaced = applied.join('\n');
+
+  return {
+    value: value.slice(0, lineStart) + replaced + value.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + replaced.length,
+  };
+}
+
+/**
+ * Apply a toolbar formatting command to the selected text
+ *
+ * Wrapping formats (bold, italic, ...) are removed again when the selection
+ * is already wrapped; line formats (heading, lists, quote) are removed when
+ * every selected line already has them.
+ *
+ * @param value - Current text
+ * @param selectionStart - Start of the selection
+ * @param selectionEnd - End of the selection
+ * @param format - Command to apply
+ * @returns The new text and the selection to restore
+ */
+export function applyMarkdownFormat(
+  value: string,
+  selectionStart: number,
+  selectionEnd: number,
+  format: MarkdownFormat,
+): MarkdownEdit {
+  const start = Math.min(selectionStart, selectionEnd);
+  const end = Math.max(selectionStart, selectionEnd);
+
+  const wrap = WRAP_FORMATS[format];
+  if (wrap) {
+    return wrapSelection(value, start, end, ...wrap);
+  }
+
+  if (format === 'link') {
+    const text = value.slice(start, end) || 'link text';
+    const inserted = `[${text}](https://)`;
+    const urlStart = start + text.length + 3;
+    return {
+      value: value.slice(0, start) + inserted + value.slice(end),
+      selectionStart: urlStart,
+      selectionEnd: urlStart + 'https://'.length,
+    };
+  }
+
+  if (format === 'table') {
+    const before = value.slice(0, end);
+    const lead = before.length === 0 || before.endsWith('\n\n') ? '' : before.endsWith('\n') ? '\n' : '\n\n';
+    const tableStart = end + lead.length;
+    return {
+      value: `${before}${lead}${TABLE_TEMPLATE}\n${value.slice(end)}`,
+      selectionStart: tableStart + 2,
+      selectionEnd: tableStart + 2 + 'Column'.length,
+    };
+  }
+
+  return prefixLines(value, start, end, format);
+}
@@ -0,0 +1,97 @@
+/**
+ * persistedTreeState Utility Tests
+ *
+ * Tests for describing remembered tree nodes and for recognizing remembered
+ * nodes that no longer exist.
+ *
+ * @see persistedTreeState.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { indexLoadedEntities, resolvePersistedTreeNodes, toPersistedTreeNodes } from './persistedTreeState';
+import type { EntityTreeLevelState, EntityTreeLevels } from './entityTreeRows';
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+
+const createEntity = (id: string, parentId: string | null) => ({ id, parentId }) as WorldEntity;
+
+const createLevel = (entities: WorldEntity[], state: Partial<EntityTreeLevelState> = {}): EntityTreeLevelState => ({
+  entities,
+  hasMore: false,
+  isLoading: false,
+  isError: false,
+  isFetchingNextPage: false,
+  isFetchNextPageError: false,
+  ...state,
+});
+
+const levels: EntityTreeLevels = {
+  root: createLevel([createEntity('faerun', null)]),
+  faerun: createLevel([createEntity('cormyr', 'faerun')], { hasMore: true }),
+};
+
+describe('persistedTreeState', () => {
+  describe('toPersistedTreeNodes', () => {
+    it('should take parent IDs from loaded entities, then from the previous nodes', () => {
+      // Act
+      const nodes = toPersistedTreeNodes(['cormyr', 'suzail', 'unknown'], indexLoadedEntities(levels), [
+        { id: 'suzail', parentId: 'cormyr' },
+        { id: 'cormyr', parentId: 'elsewhere' },
+      ]);
+
+      // Assert
+      expect(nodes).toEqual([
+        { id: 'cormyr', parentId: 'faerun' },
+        { id: 'suzail', parentId: 'cormyr' },
+        { id: 'unknown' },
+      ]);
+    });
+  });
+
+  describe('resolvePersistedTreeNodes', () => {
+    it('should find loaded nodes and nodes missing from a completely loaded parent level', () => {
+      // Act
+      const result = resolvePersistedTreeNodes(
+        [
+          { id: 'faerun', parentId: null },
+          { id: 'lost', parentId: null },
+        ],
+        levels,
+      );
+
+      // Assert
+      expect(result).toEqual({ existingIds: ['faerun'], missingIds: ['lost'] });
+    });
+
+    it('should leave nodes undecided while their parent level is incomplete, unloaded or unknown', () => {
+      // Act
+      const result = resolvePersistedTreeNodes(
+        [
+          { id: 'waterdeep', parentId: 'faerun' },
+          { id: 'suzail', parentId: 'cormyr' },
+          { id: 'unknown' },
+        ],
+        levels,
+      );
+
+      // Assert
+      expect(result).toEqual({ existingIds: [], missingIds: [] });
+    });
+
+    it('should ignore levels that are still loading', () => {
+      // Arrange - a level showing cached entities until it is fetched again
+      const loading: EntityTreeLevels = { root: createLevel([createEntity('faerun', null)], { isLoading: true }) };
+
+      // Act
+      const result = resolvePersistedTreeNodes(
+        [
+          { id: 'faerun', parentId: null },
+          { id: 'lost', parentId: null },
+        ],
+        loading,
+      );
+
+      // Assert
+      expect(result).toEqual({ existingIds: [], missingIds: [] });
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Persisted Tree State
+ *
+ * Pure helpers for remembering which tree nodes were expanded (and which entity
+ * was selected) between sessions. Each remembered node keeps its parent ID, so a
+ * node can be recognized as gone once its parent's children have been loaded
+ * without it.
+ *
+ * @module lib/persistedTreeState
+ */
+
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+import { getTreeLevelKey, type EntityTreeLevels } from './entityTreeRows';
+
+/**
+ * A remembered tree node
+ */
+export interface PersistedTreeNode {
+  id: string;
+
+  /** Parent entity ID (null for the root level; undefined when not known) */
+  parentId?: string | null;
+}
+
+/**
+ * Tree state remembered for one world
+ */
+export interface PersistedTreeState {
+  /** Expanded nodes */
+  expanded: PersistedTreeNode[];
+
+  /** Last selected entity */
+  selected: PersistedTreeNode | null;
+}
+
+export const EMPTY_PERSISTED_TREE_STATE: PersistedTreeState = {
+  expanded: [],
+  selected: null,
+};
+
+/**
+ * Index the loaded entities by ID
+ */
+export function indexLoadedEntities(levels: EntityTreeLevels): Map<string, WorldEntity> {
+  const entities = new Map<string, WorldEntity>();
+  for (const level of Object.values(levels)) {
+    level?.entities.forEach((entity) => entities.set(entity.id, entity));
+  }
+  return entities;
+}
+
+/**
+ * Describe nodes for storage, taking parent IDs from the loaded entities or,
+ * for nodes that are not loaded, from what was stored before
+ *
+ * @param ids - Node IDs to store
+ * @param loadedEntities - Loaded entities by ID (see {@link indexLoadedEntities})
+ * @param previous - Previously stored nodes
+ */
+export function toPersistedTreeNodes(
+  ids: readonly string[],
+  loadedEntities: ReadonlyMap<string, WorldEntity>,
+  previous: readonly PersistedTreeNode[] = [],
+): PersistedTreeNode[] {
+  const previousParents = new Map(previous.map((node) => [node.id, node.parentId]));
+
+  return ids.map((id) => {
+    const entity = loadedEntities.get(id);
+    const parentId = entity ? entity.parentId : previousParents.get(id);
+    return parentId === undefined ? { id } : { id, parentId };
+  });
+}
+
+/**
+ * Sort remembered nodes into those known to exist and those known to be gone
+ *
+ * Only freshly loaded levels count (a level still loading may show stale cached
+ * entities). A node is gone when its parent's level is completely loaded but does
+ * not contain it. Nodes that are neither (e.g. beneath a collapsed parent) are
+ * left undecided.
+ *
+ * @param nodes - Remembered nodes
+ * @param levels - Loaded tree levels
+ */
+export function resolvePersistedTreeNodes(
+  nodes: readonly PersistedTreeNode[],
+  levels: EntityTreeLevels,
+): { existingIds: string[]; missingIds: string[] } {
+  const freshLevels: EntityTreeLevels = {};
+  for (const [key, level] of Object.entries(levels)) {
+    if (level && !level.isLoading) freshLevels[key] = level;
+  }
+
+  const loadedEntities = indexLoadedEntities(freshLevels);
+  const existingIds: string[] = [];
+  const missingIds: string[] = [];
+
+  for (const node of nodes) {
+    if (loadedEntities.has(node.id)) {
+      existingIds.push(node.id);
+      continue;
+    }
+
+    if (node.parentId === undefined) continue;
+
+    const parentLevel = freshLevels[getTreeLevelKey(node.parentId)];
+    if (parentLevel && !parentLevel.isError && !parentLevel.hasMore) {
+      missingIds.push(node.id);
+    }
+  }
+
+  return { existingIds, missingIds };
+}
@@ -0,0 +1,152 @@
+/**
+ * propertyMapping Utility Tests
+ *
+ * Tests for carrying custom properties over when an entry's type changes.
+ *
+ * @see propertyMapping.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  appendPropertiesToDescription,
+  applyPropertyMapping,
+  convertPropertyValue,
+  getAutoPropertyMapping,
+  getCompatibleFields,
+  getMappableProperties,
+} from './propertyMapping';
+import { getEntityTypeConfig } from '@/services/config/entityTypeRegistry';
+import { WorldEntityType } from '@/services/types/worldEntity.types';
+
+const countrySchema = getEntityTypeConfig(WorldEntityType.Country)?.propertySchema ?? [];
+
+const continentProperties = {
+  area: 1250.5,
+  population: 1000,
+  climateZones: ['Temperate', 'Arctic'],
+  majorLandmarks: '',
+  legacyNote: 'Written before the schema',
+};
+
+describe('getMappableProperties', () => {
+  it('lists properties with values in schema order, followed by keys the schema does not describe', () => {
+    expect(getMappableProperties(WorldEntityType.Continent, continentProperties)).toEqual([
+      { key: 'area', label: 'Area (sq km)', type: 'decimal', value: 1250.5 },
+      { key: 'population', label: 'Population', type: 'integer', value: 1000 },
+      { key: 'climateZones', label: 'Climate Zones', type: 'tagArray', value: ['Temperate', 'Arctic'] },
+      { key: 'legacyNote', label: 'legacyNote', type: 'text', value: 'Written before the schema' },
+    ]);
+  });
+
+  it('returns nothing for an entry without properties', () => {
+    expect(getMappableProperties(WorldEntityType.Continent, null)).toEqual([]);
+  });
+});
+
+describe('convertPropertyValue', () => {
+  it('keeps values of the same field type', () => {
+    expect(convertPropertyValue(['a'], 'tagArray', 'tagArray')).toEqual(['a']);
+  });
+
+  it('converts between text and numbers where nothing is lost', () => {
+    expect(convertPropertyValue(12, 'integer', 'decimal')).toBe(12);
+    expect(convertPropertyValue(12.5, 'decimal', 'integer')).toBeUndefined();
+    expect(convertPropertyValue('42', 'text', 'integer')).toBe(42);
+    expect(convertPropertyValue('many', 'text', 'integer')).toBeUndefined();
+    expect(convertPropertyValue(12.5, 'decimal', 'text')).toBe('12.5');
+  });
+
+  it('splits text into tags and joins tags into text', () => {
+    expect(convertPropertyValue('Common, Elvish', 'text', 'tagArray')).toEqual(['Common', 'Elvish']);
+    expect(convertPropertyValue(['Common', 'Elvish'], 'tagArray', 'textarea')).toBe('Common, Elvish');
+  });
+
+  it('converts references to and from names', () => {
+    const suzail = { id: 'suzail', name: 'Suzail' };
+    expect(convertPropertyValue([suzail], 'entityReferenceArray', 'tagArray')).toEqual(['Suzail']);
+    expect(convertPropertyValue(suzail, 'entityReference', 'entityReferenceArray')).toEqual([suzail]);
+    expect(convertPropertyValue([suzail], 'entityReferenceArray', 'entityReference')).toEqual(suzail);
+    expect(convertPropertyValue(['Suzail'], 'tagArray', 'entityReferenceArray')).toEqual(['Suzail']);
+  });
+
+  it('only maps dates onto the same field type', () => {
+    expect(convertPropertyValue('2026-01-01', 'date', 'text')).toBeUndefined();
+    expect(convertPropertyValue('2026-01-01', 'date', 'datetime')).toBeUndefined();
+  });
+});
+
+describe('getAutoPropertyMapping', () => {
+  it('maps properties onto fields with the same key', () => {
+    const properties = getMappableProperties(WorldEntityType.Continent, continentProperties);
+
+    expect(getAutoPropertyMapping(properties, countrySchema)).toEqual({
+      area: null,
+      population: 'population',
+      climateZones: null,
+      legacyNote: null,
+    });
+  });
+});
+
+describe('getCompatibleFields', () => {
+  it('offers the fields a value converts to', () => {
+    const [climateZones] = getMappableProperties(WorldEntityType.Continent, {
+      climateZones: ['Temperate'],
+    });
+
+    expect(getCompatibleFields(climateZones, countrySchema).map((field) => field.key)).toEqual([
+      'governmentType',
+      'languages',
+      'currency',
+      'majorCities',
+      'allies',
+      'rivals',
+    ]);
+  });
+});
+
+describe('applyPropertyMapping', () => {
+  const properties = getMappableProperties(WorldEntityType.Continent, continentProperties);
+
+  it('moves mapped values and reports the rest as unmapped', () => {
+    const result = applyPropertyMapping(
+      properties,
+      { population: 'population', climateZones: 'languages', area: null },
+      countrySchema,
+    );
+
+    expect(result.properties).toEqual({ population: 1000, languages: ['Temperate', 'Arctic'] });
+    expect(result.unmapped.map((property) => property.key)).toEqual(['area', 'legacyNote']);
+  });
+
+  it('maps a field only once', () => {
+    const result = applyPropertyMapping(
+      properties,
+      { climateZones: 'languages', legacyNote: 'languages' },
+      countrySchema,
+    );
+
+    expect(result.properties).toEqual({ languages: ['Temperate', 'Arctic'] });
+    expect(result.unmapped.map((property) => property.key)).toContain('legacyNote');
+  });
+});
+
+describe('appendPropertiesToDescription', () => {
+  const unmapped = getMappableProperties(WorldEntityType.Continent, { area: 1250.5, climateZones: ['Temperate'] });
+
+  it('lists unmapped properties after the description', () => {
+    expect(appendPropertiesToDescription('The Forest Kingdom ', unmapped, WorldEntityType.Continent)).toBe(
+      'The Forest Kingdom\n\n**Continent properties**\n- Area (sq km): 1250.5\n- Climate Zones: Temperate',
+    );
+  });
+
+  it('starts an empty description with the list', () => {
+    expect(appendPropertiesToDescription('', unmapped, WorldEntityType.Continent)).toBe(
+      '**Continent properties**\n- Area (sq km): 1250.5\n- Climate Zones: Temperate',
+    );
+  });
+
+  it('leaves the description alone when nothing is unmapped', () => {
+    expect(appendPropertiesToDescription('Lore', [], WorldEntityType.Continent)).toBe('Lore');
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Property Mapping
+ *
+ * Carries an entry's custom properties over when its type changes. Fields of
+ * the old type's `propertySchema` are mapped onto fields of the new type's
+ * (automatically where the keys match and the values convert), and whatever
+ * is left unmapped is either dropped or written into the description.
+ *
+ * @module lib/propertyMapping
+ */
+
+import { getEntityTypeConfig, type PropertyFieldSchema } from '@/services/config/entityTypeRegistry';
+import type { WorldEntityType } from '@/services/types/worldEntity.types';
+import { formatEntityType } from './entityTypeHelpers';
+import { isEntityReferenceValue, toEntityReferenceItems } from './entityReferences';
+import { formatRevisionValue } from './revisionDiff';
+
+type PropertyFieldType = PropertyFieldSchema['type'];
+
+/**
+ * A property of the entry that has a value
+ */
+export interface MappableProperty {
+  /** Property key */
+  key: string;
+
+  /** Label from the old type's schema (the key when the schema has none) */
+  label: string;
+
+  /** Field type from the old type's schema (inferred from the value when the schema has none) */
+  type: PropertyFieldType;
+
+  /** Stored value */
+  value: unknown;
+}
+
+/**
+ * Where each old property goes: a key of the new type's schema, or null to leave it unmapped
+ */
+export type PropertyMapping = Record<string, string | null>;
+
+/**
+ * Properties of the entry after mapping
+ */
+export interface PropertyMappingResult {
+  /** Properties for the new type (null when none were mapped) */
+  properties: Record<string, unknown> | null;
+
+  /** Old properties that were not mapped */
+  unmapped: MappableProperty[];
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function inferFieldType(value: unknown): PropertyFieldType {
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'decimal';
+  if (isEntityReferenceValue(value)) return 'entityReference';
+  if (Array.isArray(value)) {
+    return value.some(isEntityReferenceValue) ? 'entityReferenceArray' : 'tagArray';
+  }
+  return typeof value === 'string' && value.includes('\n') ? 'textarea' : 'text';
+}
+
+/**
+ * List the properties of an entry that have a value
+ *
+ * @param entityType - Current type of the entry
+ * @param properties - Current properties of the entry
+ * @returns Properties in the order of the type's schema, followed by keys it does not describe
+ */
+export function getMappableProperties(
+  entityType: WorldEntityType,
+  properties: Record<string, unknown> | null | undefined,
+): MappableProperty[] {
+  const schema = getEntityTypeConfig(entityType)?.propertySchema ?? [];
+  const values = properties ?? {};
+  const schemaKeys = new Set(schema.map((field) => field.key));
+
+  return [
+    ...schema.map((field) => ({ key: field.key, label: field.label, type: field.type, value: values[field.key] })),
+    ...Object.keys(values)
+      .filter((key) => !schemaKeys.has(key))
+      .sort()
+      .map((key) => ({ key, label: key, type: inferFieldType(values[key]), value: values[key] })),
+  ].filter((property) => !isEmptyValue(property.value));
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  return undefined;
+}
+
+/**
+ * Convert a property value to another field type
+ *
+ * Text, numbers, tags and references convert where no information is lost;
+ * dates and times only map onto the same field type.
+ *
+ * @param value - Stored value
+ * @param from - Field type the value was stored under
+ * @param to - Field type of the target field
+ * @returns The converted value, or undefined if it cannot be converted
+ *
+ * @example
+ * ```typescript
+ * convertPropertyValue('Common, Elvish', 'text', 'tagArray'); // ['Common', 'Elvish']
+ * convertPropertyValue(12.5, 'decimal', 'integer'); // undefined
+ * ```
+ */
+export function convertPropertyValue(value: unknown, from: PropertyFieldType, to: PropertyFieldType): unknown {
+  if (from === to) return value;
+
+  switch (to) {
+    case 'text':
+    case 'textarea':
+      return ['date', 'datetime', 'time'].includes(from) ? undefined : formatRevisionValue(value);
+    case 'integer': {
+      const number = toNumber(value);
+      return number !== undefined && Number.isInteger(number) ? number : undefined;
+    }
+    case 'decimal':
+      return toNumber(value);
+    case 'tagArray':
+      if (from === 'text') {
+        return String(value).split(',').map((tag) => tag.trim()).filter(Boolean);
+      }
+      if (from === 'entityReference' || from === 'entityReferenceArray') {
+        return toEntityReferenceItems(value).map((item) => (typeof item === 'string' ? item : item.name));
+      }
+      return undefined;
+    case 'entityReference': {
+      if (from !== 'entityReferenceArray') return undefined;
+      const items = toEntityReferenceItems(value);
+      return items.length === 1 ? items[0] : undefined;
+    }
+    case 'entityReferenceArray':
+      // Plain names are kept as unlinked text until references are chosen
+      return from === 'entityReference' || from === 'tagArray' ? toEntityReferenceItems(value) : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Fields of the new type a property can be mapped onto
+ *
+ * @param property - Old property
+ * @param targetSchema - Schema of the new type
+ * @returns Fields whose type the value converts to
+ */
+export function getCompatibleFields(
+  property: MappableProperty,
+  targetSchema: readonly PropertyFieldSchema[],
+): PropertyFieldSchema[] {
+  return targetSchema.filter(
+    (field) => convertPropertyValue(property.value, property.type, field.type) !== undefined,
+  );
+}
+
+/**
+ * Map each property onto the new type's field with the same key, where the value converts
+ *
+ * @param properties - Old properties
+ * @param targetSchema - Schema of the new type
+ * @returns Mapping of every property (null where no field matches)
+ */
+export function getAutoPropertyMapping(
+  properties: MappableProperty[],
+  targetSchema: readonly PropertyFieldSchema[],
+): PropertyMapping {
+  return Object.fromEntries(
+    properties.map((property) => [
+      property.key,
+      getCompatibleFields(property, targetSchema).some((field) => field.key === property.key)
+        ? property.key
+        : null,
+    ]),
+  );
+}
+
+/**
+ * Apply a mapping to the old properties
+ *
+ * @param properties - Old properties
+ * @param mapping - Target field of each property (null or missing to leave it unmapped)
+ * @param targetSchema - Schema of the new type
+ * @returns Properties for the new type and the properties left unmapped
+ */
+export function applyPropertyMapping(
+  properties: MappableProperty[],
+  mapping: PropertyMapping,
+  targetSchema: readonly PropertyFieldSchema[],
+): PropertyMappingResult {
+  const mapped: Record<string, unknown> = {};
+  const unmapped: MappableProperty[] = [];
+
+  for (const property of properties) {
+    const target = targetSchema.find((field) => field.key === mapping[property.key]);
+    const value = target ? convertPropertyValue(property.value, property.type, target.type) : undefined;
+    if (target && value !== undefined && !(target.key in mapped)) {
+      mapped[target.key] = value;
+    } else {
+      unmapped.push(property);
+    }
+  }
+
+  return {
+    properties: Object.keys(mapped).length > 0 ? mapped : null,
+    unmapped,
+  };
+}
+
+/**
+ * Keep unmapped properties by listing them at the end of the description
+ *
+ * @param description - Current description (Markdown)
+ * @param unmapped - Properties left unmapped
+ * @param fromType - Type the properties belonged to
+ * @returns The description with a list of the unmapped properties appended
+ *
+ * @example
+ * ```typescript
+ * appendPropertiesToDescription('The Forest Kingdom', [population], WorldEntityType.Continent);
+ * // 'The Forest Kingdom\n\n**Continent properties**\n- Population: 1000'
+ * ```
+ */
+export function appendPropertiesToDescription(
+  description: string,
+  unmapped: MappableProperty[],
+  fromType: WorldEntityType,
+): string {
+  if (unmapped.length === 0) return description;
+
+  const list = [
+    `**${formatEntityType(fromType)} properties**`,
+    ...unmapped.map((property) => `- ${property.label}: ${formatRevisionValue(property.value).replace(/\s*\n\s*/g, ' ')}`),
+  ].join('\n');
+  return description.trim() ? `${description.trimEnd()}\n\n${list}` : list;
+}
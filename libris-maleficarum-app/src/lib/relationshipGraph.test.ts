@@ -0,0 +1,138 @@
+/**
+ * relationshipGraph Utility Tests
+ *
+ * Tests for building, narrowing and laying out the world relationship graph.
+ *
+ * @see relationshipGraph.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_RELATIONSHIP_GRAPH_FILTER,
+  MAX_GRAPH_NODES,
+  buildRelationshipGraph,
+  filterRelationshipGraph,
+  getNeighbourhood,
+  layoutRelationshipGraph,
+} from './relationshipGraph';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+
+const createEntity = (id: string, overrides: Partial<WorldEntity> = {}): WorldEntity => ({
+  id,
+  worldId: 'world-1',
+  parentId: null,
+  entityType: WorldEntityType.Country,
+  name: id,
+  description: '',
+  tags: [],
+  path: [],
+  depth: 0,
+  hasChildren: false,
+  ownerId: 'test-user',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  isDeleted: false,
+  schemaVersion: 2,
+  ...overrides,
+});
+
+// amn ── allies ──▶ tethyr;  amn ⊃ athkatla;  tethyr mentions calimshan;  gone is deleted
+const entities = [
+  createEntity('amn', {
+    name: 'Amn',
+    tags: ['Merchant'],
+    properties: { allies: [{ id: 'tethyr', name: 'Tethyr' }, { id: 'gone', name: 'Gone' }], capital: 'Athkatla' },
+  }),
+  createEntity('athkatla', { name: 'Athkatla', entityType: WorldEntityType.City, parentId: 'amn' }),
+  createEntity('tethyr', { name: 'Tethyr', description: 'South lies [[entity:calimshan|Calimshan]].' }),
+  createEntity('calimshan', { name: 'Calimshan', tags: ['merchant', 'Desert'] }),
+  createEntity('gone', { name: 'Gone', isDeleted: true }),
+];
+
+describe('buildRelationshipGraph', () => {
+  it('should join live entities by hierarchy, reference properties and mentions', () => {
+    const graph = buildRelationshipGraph(entities);
+
+    expect(graph.nodes.map(({ name }) => name)).toEqual(['Amn', 'Athkatla', 'Calimshan', 'Tethyr']);
+    expect(graph.edges).toEqual([
+      { source: 'amn', target: 'tethyr', kind: 'reference', label: 'Allied Nations' },
+      { source: 'amn', target: 'athkatla', kind: 'hierarchy' },
+      { source: 'tethyr', target: 'calimshan', kind: 'mention' },
+    ]);
+  });
+});
+
+describe('getNeighbourhood', () => {
+  it('should follow edges in both directions up to the number of hops', () => {
+    const graph = buildRelationshipGraph(entities);
+
+    expect(Object.fromEntries(getNeighbourhood(graph, 'tethyr', 1))).toEqual({ tethyr: 0, amn: 1, calimshan: 1 });
+    expect(getNeighbourhood(graph, 'tethyr', 2).get('athkatla')).toBe(2);
+  });
+});
+
+describe('filterRelationshipGraph', () => {
+  const graph = buildRelationshipGraph(entities);
+
+  it('should keep entities of the type that have every tag, case-insensitively', () => {
+    const filtered = filterRelationshipGraph(graph, {
+      ...EMPTY_RELATIONSHIP_GRAPH_FILTER,
+      entityType: WorldEntityType.Country,
+      tags: ['MERCHANT'],
+    });
+
+    expect(filtered.nodes.map(({ id }) => id)).toEqual(['amn', 'calimshan']);
+    expect(filtered.edges).toEqual([]);
+  });
+
+  it('should keep the focused entity and its neighbourhood', () => {
+    const filtered = filterRelationshipGraph(graph, {
+      ...EMPTY_RELATIONSHIP_GRAPH_FILTER,
+      entityType: WorldEntityType.City,
+      focusId: 'amn',
+      hops: 1,
+    });
+
+    expect(filtered.nodes.map(({ id }) => id)).toEqual(['amn', 'athkatla']);
+    expect(filtered.edges).toHaveLength(1);
+  });
+
+  it('should show the whole graph when the focused entity is gone', () => {
+    const filtered = filterRelationshipGraph(graph, { ...EMPTY_RELATIONSHIP_GRAPH_FILTER, focusId: 'gone' });
+
+    expect(filtered.nodes).toHaveLength(4);
+  });
+});
+
+describe('layoutRelationshipGraph', () => {
+  it('should place every node, centred on the focused entity, the same way each time', () => {
+    const graph = buildRelationshipGraph(entities);
+    const positions = layoutRelationshipGraph(graph, 'tethyr');
+
+    expect(positions.size).toBe(4);
+    expect(positions.get('tethyr')).toEqual({ x: 0, y: 0 });
+    expect(layoutRelationshipGraph(graph, 'tethyr')).toEqual(positions);
+
+    const [a, b] = [positions.get('amn')!, positions.get('calimshan')!];
+    expect(Math.hypot(a.x - b.x, a.y - b.y)).toBeGreaterThan(20);
+  });
+
+  it('should keep unrelated entities apart in a large graph', () => {
+    const graph = {
+      nodes: Array.from({ length: MAX_GRAPH_NODES }, (_, index) => ({
+        id: `town-${index}`,
+        name: `Town ${index}`,
+        entityType: 'City',
+        tags: [],
+      })),
+      edges: [],
+    };
+    const points = Array.from(layoutRelationshipGraph(graph).values());
+
+    expect(points).toHaveLength(MAX_GRAPH_NODES);
+    const closest = Math.min(
+      ...points.map((a, i) => Math.min(...points.slice(i + 1).map((b) => Math.hypot(a.x - b.x, a.y - b.y)), Infinity)),
+    );
+    expect(closest).toBeGreaterThan(20);
+  });
+});
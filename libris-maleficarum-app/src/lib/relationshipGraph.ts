@@ -0,0 +1,351 @@
+/**
+ * Relationship Graph
+ *
+ * Pure functions behind the world relationship graph: building nodes and
+ * edges from the world's entities, narrowing the graph by entity type, tags
+ * and the neighbourhood of a focused entity, and laying it out.
+ *
+ * Edges come from the hierarchy (parent to child), from entity reference
+ * properties (labelled with the property) and from wiki links in lore.
+ *
+ * @module lib/relationshipGraph
+ */
+
+import { getEntityTypeConfig } from '@/services/config/entityTypeRegistry';
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+import { getEntityReferenceIds } from './entityLinks';
+import { isEntityReferenceField, isEntityReferenceValue, toEntityReferenceItems } from './entityReferences';
+
+/**
+ * How two entities are related
+ */
+export type RelationshipEdgeKind = 'hierarchy' | 'reference' | 'mention';
+
+export interface RelationshipNode {
+  id: string;
+  name: string;
+  entityType: string;
+  tags: string[];
+}
+
+export interface RelationshipEdge {
+  /** Parent, or the entity holding the reference */
+  source: string;
+
+  /** Child, or the referenced entity */
+  target: string;
+
+  kind: RelationshipEdgeKind;
+
+  /** Property label for reference edges */
+  label?: string;
+}
+
+export interface RelationshipGraph {
+  nodes: RelationshipNode[];
+  edges: RelationshipEdge[];
+}
+
+/**
+ * Criteria for narrowing the graph; all given criteria must match
+ */
+export interface RelationshipGraphFilter {
+  /** Entity type to show, or null for any */
+  entityType: string | null;
+
+  /** Tags the entity must all have */
+  tags: string[];
+
+  /** Entity whose neighbourhood is shown, or null for the whole world */
+  focusId: string | null;
+
+  /** Number of relationships to follow from the focused entity */
+  hops: number;
+}
+
+export const EMPTY_RELATIONSHIP_GRAPH_FILTER: RelationshipGraphFilter = {
+  entityType: null,
+  tags: [],
+  focusId: null,
+  hops: 1,
+};
+
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+export interface GraphBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Space kept around the graph so labels are not cut off */
+const GRAPH_PADDING = 80;
+
+/** Most entities drawn at once; larger graphs must be narrowed first */
+export const MAX_GRAPH_NODES = 300;
+
+/** Distance between entities in the layout */
+const NODE_SPACING = 120;
+
+/** Entities further apart than this no longer push each other away */
+const REPULSION_RANGE = NODE_SPACING * 2;
+
+/**
+ * Build the graph of a world's live entities
+ *
+ * @param entities - Every entity of the world
+ * @returns Nodes ordered by name, and edges between live entities without duplicates
+ */
+export function buildRelationshipGraph(entities: WorldEntity[]): RelationshipGraph {
+  const live = entities.filter((entity) => !entity.isDeleted);
+  const liveIds = new Set(live.map((entity) => entity.id));
+  const edges: RelationshipEdge[] = [];
+  const seen = new Set<string>();
+
+  const addEdge = (edge: RelationshipEdge) => {
+    if (edge.source === edge.target || !liveIds.has(edge.target)) return;
+    const key = `${edge.kind}|${edge.source}|${edge.target}|${edge.label ?? ''}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    edges.push(edge);
+  };
+
+  for (const entity of live) {
+    if (entity.parentId && liveIds.has(entity.parentId)) {
+      addEdge({ source: entity.parentId, target: entity.id, kind: 'hierarchy' });
+    }
+
+    const referencedIds = new Set<string>();
+    const schema = getEntityTypeConfig(entity.entityType)?.propertySchema ?? [];
+    for (const field of schema.filter(isEntityReferenceField)) {
+      for (const item of toEntityReferenceItems(entity.properties?.[field.key])) {
+        if (!isEntityReferenceValue(item)) continue;
+        referencedIds.add(item.id);
+        addEdge({ source: entity.id, target: item.id, kind: 'reference', label: field.label });
+      }
+    }
+
+    // Wiki links that are not already shown as a property reference
+    for (const id of getEntityReferenceIds(entity)) {
+      if (!referencedIds.has(id)) {
+        addEdge({ source: entity.id, target: id, kind: 'mention' });
+      }
+    }
+  }
+
+  const nodes = live
+    .map(({ id, name, entityType, tags }) => ({ id, name, entityType, tags: tags ?? [] }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return { nodes, edges };
+}
+
+/**
+ * Find the entities within a number of relationships of an entity
+ *
+ * Edges are followed in both directions.
+ *
+ * @param graph - Graph to search
+ * @param focusId - Entity at the centre
+ * @param hops - Number of relationships to follow
+ * @returns Map of entity ID to its distance from the focused entity
+ */
+export function getNeighbourhood(graph: RelationshipGraph, focusId: string, hops: number): Map<string, number> {
+  const adjacent = new Map<string, string[]>();
+  for (const { source, target } of graph.edges) {
+    adjacent.set(source, [...(adjacent.get(source) ?? []), target]);
+    adjacent.set(target, [...(adjacent.get(target) ?? []), source]);
+  }
+
+  const distances = new Map([[focusId, 0]]);
+  let frontier = [focusId];
+  for (let hop = 1; hop <= hops && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const neighbour of adjacent.get(id) ?? []) {
+        if (!distances.has(neighbour)) {
+          distances.set(neighbour, hop);
+          next.push(neighbour);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return distances;
+}
+
+/**
+ * Narrow the graph by type, tags and neighbourhood
+ *
+ * The neighbourhood is taken from the whole graph, so relationships through
+ * hidden entities still count; the focused entity is always kept.
+ *
+ * @param graph - Graph to narrow
+ * @param filter - Filter criteria
+ * @returns Matching nodes and the edges between them
+ */
+export function filterRelationshipGraph(
+  graph: RelationshipGraph,
+  filter: RelationshipGraphFilter,
+): RelationshipGraph {
+  const focusExists = !!filter.focusId && graph.nodes.some((node) => node.id === filter.focusId);
+  const neighbourhood = focusExists ? getNeighbourhood(graph, filter.focusId!, filter.hops) : null;
+  const tags = filter.tags.map((tag) => tag.toLowerCase());
+
+  const nodes = graph.nodes.filter((node) => {
+    if (node.id === filter.focusId && focusExists) return true;
+    if (neighbourhood && !neighbourhood.has(node.id)) return false;
+    if (filter.entityType && node.entityType !== filter.entityType) return false;
+    if (tags.length > 0) {
+      const nodeTags = new Set(node.tags.map((tag) => tag.toLowerCase()));
+      if (!tags.every((tag) => nodeTags.has(tag))) return false;
+    }
+    return true;
+  });
+
+  const ids = new Set(nodes.map((node) => node.id));
+  const edges = graph.edges.filter((edge) => ids.has(edge.source) && ids.has(edge.target));
+
+  return { nodes, edges };
+}
+
+/**
+ * Lay out the graph with a force-directed simulation
+ *
+ * Connected entities pull together and nearby entities push apart. Only
+ * entities within {@link REPULSION_RANGE} of each other are compared, found
+ * through a grid of that cell size, so each step stays close to linear in the
+ * number of entities. The start positions are fixed, so the same graph always
+ * gets the same layout; the focused entity starts at the centre.
+ *
+ * @param graph - Graph to lay out, of at most {@link MAX_GRAPH_NODES} nodes
+ * @param focusId - Entity to place at the centre
+ * @returns Position of each node, with the graph centred on the origin
+ */
+export function layoutRelationshipGraph(
+  graph: RelationshipGraph,
+  focusId: string | null = null,
+): Map<string, NodePosition> {
+  const positions = new Map<string, NodePosition>();
+  const count = graph.nodes.length;
+  if (count === 0) return positions;
+
+  const spacing = NODE_SPACING;
+  const radius = (spacing * Math.sqrt(count)) / 2;
+  const ordered = [...graph.nodes].sort((a, b) => Number(b.id === focusId) - Number(a.id === focusId));
+  ordered.forEach((node, index) => {
+    if (index === 0 && node.id === focusId) {
+      positions.set(node.id, { x: 0, y: 0 });
+      return;
+    }
+    const angle = (2 * Math.PI * index) / count;
+    positions.set(node.id, { x: radius * Math.cos(angle), y: radius * Math.sin(angle) });
+  });
+
+  const iterations = count > 200 ? 60 : 150;
+  const edges = graph.edges.filter((edge) => positions.has(edge.source) && positions.has(edge.target));
+  const points = ordered.map((node) => positions.get(node.id)!);
+  let temperature = radius / 2;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const shifts = new Map(ordered.map((node) => [node.id, { x: 0, y: 0 }]));
+
+    const cellOf = ({ x, y }: NodePosition) =>
+      [Math.floor(x / REPULSION_RANGE), Math.floor(y / REPULSION_RANGE)] as const;
+    const grid = new Map<string, number[]>();
+    points.forEach((point, index) => {
+      const [cx, cy] = cellOf(point);
+      const key = `${cx},${cy}`;
+      const cell = grid.get(key);
+      if (cell) cell.push(index);
+      else grid.set(key, [index]);
+    });
+
+    for (let i = 0; i < count; i++) {
+      const a = points[i];
+      const [cx, cy] = cellOf(a);
+      for (let ox = -1; ox <= 1; ox++) {
+        for (let oy = -1; oy <= 1; oy++) {
+          for (const j of grid.get(`${cx + ox},${cy + oy}`) ?? []) {
+            // Each pair once
+            if (j <= i) continue;
+            const b = points[j];
+            const dx = a.x - b.x || 0.01;
+            const dy = a.y - b.y || 0.01;
+            const distance = Math.max(Math.hypot(dx, dy), 1);
+            if (distance > REPULSION_RANGE) continue;
+            const force = (spacing * spacing) / distance;
+            const shiftA = shifts.get(ordered[i].id)!;
+            const shiftB = shifts.get(ordered[j].id)!;
+            shiftA.x += (dx / distance) * force;
+            shiftA.y += (dy / distance) * force;
+            shiftB.x -= (dx / distance) * force;
+            shiftB.y -= (dy / distance) * force;
+          }
+        }
+      }
+    }
+
+    for (const { source, target } of edges) {
+      const a = positions.get(source)!;
+      const b = positions.get(target)!;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.max(Math.hypot(dx, dy), 1);
+      const force = (distance * distance) / spacing;
+      shifts.get(source)!.x -= (dx / distance) * force;
+      shifts.get(source)!.y -= (dy / distance) * force;
+      shifts.get(target)!.x += (dx / distance) * force;
+      shifts.get(target)!.y += (dy / distance) * force;
+    }
+
+    for (const node of ordered) {
+      const shift = shifts.get(node.id)!;
+      const length = Math.max(Math.hypot(shift.x, shift.y), 0.01);
+      const step = Math.min(length, temperature);
+      const position = positions.get(node.id)!;
+      position.x += (shift.x / length) * step;
+      position.y += (shift.y / length) * step;
+    }
+
+    temperature *= 0.95;
+  }
+
+  // Centre the layout on the focused entity, or on the middle of the graph
+  const centre = (focusId && positions.get(focusId)) || {
+    x: Array.from(positions.values()).reduce((sum, { x }) => sum + x, 0) / count,
+    y: Array.from(positions.values()).reduce((sum, { y }) => sum + y, 0) / count,
+  };
+  const { x: cx, y: cy } = centre;
+  positions.forEach((position) => {
+    position.x = Math.round(position.x - cx);
+    position.y = Math.round(position.y - cy);
+  });
+
+  return positions;
+}
+
+/**
+ * Get the area covered by a laid-out graph
+ *
+ * @param positions - Position of each node
+ * @returns Bounds including room for labels
+ */
+export function getGraphBounds(positions: Map<string, NodePosition>): GraphBounds {
+  const points = Array.from(positions.values());
+  if (points.length === 0) {
+    return { x: -GRAPH_PADDING, y: -GRAPH_PADDING, width: GRAPH_PADDING * 2, height: GRAPH_PADDING * 2 };
+  }
+
+  const minX = Math.min(...points.map(({ x }) => x)) - GRAPH_PADDING;
+  const minY = Math.min(...points.map(({ y }) => y)) - GRAPH_PADDING;
+  const maxX = Math.max(...points.map(({ x }) => x)) + GRAPH_PADDING;
+  const maxY = Math.max(...points.map(({ y }) => y)) + GRAPH_PADDING;
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
@@ -0,0 +1,87 @@
+/**
+ * revisionDiff Utility Tests
+ *
+ * Tests for the field-by-field comparison of entry revisions.
+ *
+ * @see revisionDiff.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatRevisionValue, getRevisionDiff } from './revisionDiff';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+
+const createEntity = (overrides: Partial<WorldEntity> = {}): WorldEntity => ({
+  id: 'cormyr',
+  worldId: 'world-1',
+  parentId: null,
+  entityType: WorldEntityType.Country,
+  name: 'Cormyr',
+  description: 'The Forest Kingdom',
+  tags: ['kingdom'],
+  path: [],
+  depth: 0,
+  hasChildren: false,
+  ownerId: 'user-1',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  isDeleted: false,
+  schemaVersion: 2,
+  ...overrides,
+});
+
+describe('formatRevisionValue', () => {
+  it('formats unset values as empty', () => {
+    expect(formatRevisionValue(undefined)).toBe('');
+    expect(formatRevisionValue(null)).toBe('');
+  });
+
+  it('formats lists and entity references by name', () => {
+    expect(formatRevisionValue(['a', 'b'])).toBe('a, b');
+    expect(formatRevisionValue([{ id: 'suzail', name: 'Suzail' }])).toBe('Suzail');
+    expect(formatRevisionValue(42)).toBe('42');
+  });
+});
+
+describe('getRevisionDiff', () => {
+  it('lists the fields that changed', () => {
+    const diff = getRevisionDiff(
+      createEntity(),
+      createEntity({ name: 'Cormyr Reborn', tags: ['kingdom', 'reborn'] }),
+    );
+
+    expect(diff).toEqual([
+      { field: 'name', label: 'Name', before: 'Cormyr', after: 'Cormyr Reborn' },
+      { field: 'tags', label: 'Tags', before: 'kingdom', after: 'kingdom, reborn' },
+    ]);
+  });
+
+  it('compares properties key by key, labelled from the registry schema', () => {
+    const diff = getRevisionDiff(
+      createEntity({ properties: { population: 1000, motto: 'Vigilance' } }),
+      createEntity({ properties: { population: 2000, motto: 'Vigilance', banner: 'Purple dragon' } }),
+    );
+
+    expect(diff).toEqual([
+      { field: 'properties.population', label: 'Population', before: '1000', after: '2000' },
+      { field: 'properties.banner', label: 'banner', before: '', after: 'Purple dragon' },
+    ]);
+  });
+
+  it('labels system properties with the game system', () => {
+    const diff = getRevisionDiff(
+      createEntity({ entityType: WorldEntityType.Character, schemaId: 'dnd5e-character', systemProperties: { armorClass: 15 } }),
+      createEntity({ entityType: WorldEntityType.Character, schemaId: 'dnd5e-character', systemProperties: { armorClass: 17 } }),
+    );
+
+    expect(diff).toEqual([
+      { field: 'systemProperties.armorClass', label: 'D&D 5e: Armor Class', before: '15', after: '17' },
+    ]);
+  });
+
+  it('lists every set field of the earliest revision as added', () => {
+    const diff = getRevisionDiff(null, createEntity());
+
+    expect(diff.map((change) => change.field)).toEqual(['name', 'entityType', 'description', 'tags']);
+    expect(diff.every((change) => change.before === '')).toBe(true);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Revision Diff
+ *
+ * Field-by-field comparison of two versions of an entry, for the revision
+ * history. Properties are compared key by key and labelled from the entity
+ * type's `propertySchema` (system properties from the game system's schema);
+ * keys no schema describes are compared under their own name.
+ *
+ * @module lib/revisionDiff
+ */
+
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+import { getEntityTypeConfig, type PropertyFieldSchema } from '@/services/config/entityTypeRegistry';
+import {
+  getGameSystemForSchemaId,
+  getSystemPropertySchema,
+} from '@/services/config/gameSystemRegistry';
+import { formatEntityType } from './entityTypeHelpers';
+import { isEntityReferenceValue } from './entityReferences';
+
+/**
+ * A field whose value differs between two versions
+ */
+export interface FieldChange {
+  /** Field path (e.g. "name", "properties.capital") */
+  field: string;
+
+  /** Human-readable field name */
+  label: string;
+
+  /** Value in the older version, as text (empty when unset) */
+  before: string;
+
+  /** Value in the newer version, as text (empty when unset) */
+  after: string;
+}
+
+/**
+ * Format a stored value as text
+ *
+ * @param value - Field or property value
+ * @returns Text shown in the diff (empty for unset values)
+ */
+export function formatRevisionValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(formatRevisionValue).filter(Boolean).join(', ');
+  if (isEntityReferenceValue(value)) return value.name;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Compare a property bag key by key, schema fields first
+ */
+function diffPropertyBag(
+  prefix: string,
+  labelPrefix: string,
+  schema: readonly PropertyFieldSchema[],
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined,
+): FieldChange[] {
+  const labels = new Map(schema.map((field) => [field.key, field.label]));
+  const keys = [
+    ...schema.map((field) => field.key),
+    ...[...new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])]
+      .filter((key) => !labels.has(key))
+      .sort(),
+  ];
+
+  return keys.flatMap((key) => {
+    const beforeValue = formatRevisionValue(before?.[key]);
+    const afterValue = formatRevisionValue(after?.[key]);
+    if (beforeValue === afterValue) return [];
+
+    return [{
+      field: `${prefix}.${key}`,
+      label: `${labelPrefix}${labels.get(key) ?? key}`,
+      before: beforeValue,
+      after: afterValue,
+    }];
+  });
+}
+
+/**
+ * Compare two versions of an entry
+ *
+ * @param before - Older version, or null to list every field of `after` as added
+ * @param after - Newer version
+ * @returns Fields that differ, in display order
+ *
+ * @example
+ * ```typescript
+ * getRevisionDiff(older, newer);
+ * // [{ field: 'properties.capital', label: 'Capital', before: 'Arabel', after: 'Suzail' }]
+ * ```
+ */
+export function getRevisionDiff(before: WorldEntity | null, after: WorldEntity): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const compare = (field: string, label: string, beforeValue: string, afterValue: string) => {
+    if (beforeValue !== afterValue) {
+      changes.push({ field, label, before: beforeValue, after: afterValue });
+    }
+  };
+
+  compare('name', 'Name', before?.name ?? '', after.name);
+  compare(
+    'entityType',
+    'Type',
+    before ? formatEntityType(before.entityType) : '',
+    formatEntityType(after.entityType),
+  );
+  compare('description', 'Description', before?.description ?? '', after.description ?? '');
+  compare('tags', 'Tags', formatRevisionValue(before?.tags), formatRevisionValue(after.tags));
+
+  changes.push(
+    ...diffPropertyBag(
+      'properties',
+      '',
+      getEntityTypeConfig(after.entityType)?.propertySchema ?? [],
+      before?.properties,
+      after.properties,
+    ),
+  );
+
+  const gameSystem = getGameSystemForSchemaId(after.schemaId) ?? getGameSystemForSchemaId(before?.schemaId);
+  changes.push(
+    ...diffPropertyBag(
+      'systemProperties',
+      gameSystem ? `${gameSystem.abbreviation}: ` : 'System: ',
+      getSystemPropertySchema(gameSystem?.id, after.entityType) ?? [],
+      before?.systemProperties,
+      after.systemProperties,
+    ),
+  );
+
+  return changes;
+}
@@ -0,0 +1,173 @@
+/**
+ * routing Utility Tests
+ *
+ * Tests for URL ↔ navigation state mapping used by deep links.
+ *
+ * @see routing.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildRoutePath,
+  getRouteRevealEntityId,
+  parseRoute,
+  routeFromState,
+  type AppRoute,
+} from './routing';
+
+const baseState = {
+  selectedWorldId: null,
+  selectedEntityId: null,
+  mainPanelMode: 'empty' as const,
+  editingWorldId: null,
+  editingEntityId: null,
+  newEntityParentId: null,
+  movingEntityId: null,
+  duplicatingEntityId: null,
+  templateDialog: null,
+};
+
+describe('routing', () => {
+  describe('parseRoute()', () => {
+    it.each<[string, string, AppRoute]>([
+      ['/', '', { kind: 'home' }],
+      ['/worlds/new', '', { kind: 'world_create' }],
+      ['/worlds/w1', '', { kind: 'world', worldId: 'w1' }],
+      ['/worlds/w1/edit', '', { kind: 'world_edit', worldId: 'w1' }],
+      ['/worlds/w1/trash', '', { kind: 'world_trash', worldId: 'w1' }],
+      ['/worlds/w1/graph', '', { kind: 'world_graph', worldId: 'w1' }],
+      ['/worlds/w1/entities/e1', '', { kind: 'entity', worldId: 'w1', entityId: 'e1' }],
+      ['/worlds/w1/entities/e1/edit', '', { kind: 'entity_edit', worldId: 'w1', entityId: 'e1' }],
+      ['/worlds/w1/entities/e1/move', '', { kind: 'entity_move', worldId: 'w1', entityId: 'e1' }],
+      ['/worlds/w1/entities/new', '', { kind: 'entity_create', worldId: 'w1', parentId: null }],
+      ['/worlds/w1/entities/new', '?parentId=p1', { kind: 'entity_create', worldId: 'w1', parentId: 'p1' }],
+    ])('should parse %s%s', (pathname, search, expected) => {
+      expect(parseRoute(pathname, search)).toEqual(expected);
+    });
+
+    it('should fall back to home for unknown URLs', () => {
+      expect(parseRoute('/settings')).toEqual({ kind: 'home' });
+      expect(parseRoute('/worlds/w1/entities/e1/unknown')).toEqual({ kind: 'home' });
+      expect(parseRoute('/worlds/w1/chapters/c1')).toEqual({ kind: 'home' });
+    });
+
+    it('should tolerate trailing slashes and decode IDs', () => {
+      expect(parseRoute('/worlds/w%201/entities/e1/')).toEqual({
+        kind: 'entity',
+        worldId: 'w 1',
+        entityId: 'e1',
+      });
+    });
+  });
+
+  describe('buildRoutePath()', () => {
+    it('should round-trip every route kind', () => {
+      const routes: AppRoute[] = [
+        { kind: 'home' },
+        { kind: 'world_create' },
+        { kind: 'world', worldId: 'w1' },
+        { kind: 'world_edit', worldId: 'w1' },
+        { kind: 'world_trash', worldId: 'w1' },
+        { kind: 'world_graph', worldId: 'w1' },
+        { kind: 'entity', worldId: 'w1', entityId: 'e1' },
+        { kind: 'entity_edit', worldId: 'w1', entityId: 'e1' },
+        { kind: 'entity_move', worldId: 'w1', entityId: 'e1' },
+        { kind: 'entity_create', worldId: 'w1', parentId: null },
+        { kind: 'entity_create', worldId: 'w1', parentId: 'p1' },
+      ];
+
+      routes.forEach((route) => {
+        const url = new URL(buildRoutePath(route), 'http://localhost');
+        expect(parseRoute(url.pathname, url.search)).toEqual(route);
+      });
+    });
+
+    it('should encode IDs containing reserved characters', () => {
+      expect(buildRoutePath({ kind: 'entity', worldId: 'w/1', entityId: 'e 1' })).toBe(
+        '/worlds/w%2F1/entities/e%201',
+      );
+    });
+  });
+
+  describe('routeFromState()', () => {
+    it('should return home when no world is selected', () => {
+      expect(routeFromState(baseState)).toEqual({ kind: 'home' });
+    });
+
+    it('should return the world route when only a world is selected', () => {
+      expect(routeFromState({ ...baseState, selectedWorldId: 'w1' })).toEqual({
+        kind: 'world',
+        worldId: 'w1',
+      });
+    });
+
+    it('should keep pointing at the selected entity after a form closes', () => {
+      expect(
+        routeFromState({ ...baseState, selectedWorldId: 'w1', selectedEntityId: 'e1' }),
+      ).toEqual({ kind: 'entity', worldId: 'w1', entityId: 'e1' });
+    });
+
+    it('should map form modes to their routes', () => {
+      expect(
+        routeFromState({
+          ...baseState,
+          selectedWorldId: 'w1',
+          mainPanelMode: 'editing_entity',
+          editingEntityId: 'e1',
+        }),
+      ).toEqual({ kind: 'entity_edit', worldId: 'w1', entityId: 'e1' });
+
+      expect(
+        routeFromState({
+          ...baseState,
+          selectedWorldId: 'w1',
+          mainPanelMode: 'creating_entity',
+          newEntityParentId: 'p1',
+        }),
+      ).toEqual({ kind: 'entity_create', worldId: 'w1', parentId: 'p1' });
+
+      expect(
+        routeFromState({
+          ...baseState,
+          selectedWorldId: 'w1',
+          mainPanelMode: 'moving_entity',
+          movingEntityId: 'e1',
+        }),
+      ).toEqual({ kind: 'entity_move', worldId: 'w1', entityId: 'e1' });
+
+      expect(
+        routeFromState({
+          ...baseState,
+          selectedWorldId: 'w1',
+          selectedEntityId: 'e1',
+          mainPanelMode: 'viewing_trash',
+        }),
+      ).toEqual({ kind: 'world_trash', worldId: 'w1' });
+
+      expect(
+        routeFromState({
+          ...baseState,
+          selectedWorldId: 'w1',
+          selectedEntityId: 'e1',
+          mainPanelMode: 'viewing_graph',
+        }),
+      ).toEqual({ kind: 'world_graph', worldId: 'w1' });
+
+      expect(
+        routeFromState({ ...baseState, mainPanelMode: 'editing_world', editingWorldId: 'w1' }),
+      ).toEqual({ kind: 'world_edit', worldId: 'w1' });
+
+      expect(routeFromState({ ...baseState, mainPanelMode: 'creating_world' })).toEqual({
+        kind: 'world_create',
+      });
+    });
+  });
+
+  describe('getRouteRevealEntityId()', () => {
+    it('should reveal the entity for entity routes and the parent for create routes', () => {
+      expect(getRouteRevealEntityId({ kind: 'entity_edit', worldId: 'w1', entityId: 'e1' })).toBe('e1');
+      expect(getRouteRevealEntityId({ kind: 'entity_create', worldId: 'w1', parentId: 'p1' })).toBe('p1');
+      expect(getRouteRevealEntityId({ kind: 'world', worldId: 'w1' })).toBeNull();
+    });
+  });
+});
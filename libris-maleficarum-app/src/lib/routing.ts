@@ -0,0 +1,239 @@
+/**
+ * URL Routing Utilities
+ *
+ * Maps between browser URLs and the World Sidebar navigation state so that
+ * worlds, entities and main panel modes can be deep-linked and restored on reload.
+ *
+ * Supported routes:
+ * - `/` → Home (welcome card)
+ * - `/worlds/new` → Create world form
+ * - `/worlds/:worldId` → World selected, no entity
+ * - `/worlds/:worldId/edit` → Edit world form
+ * - `/worlds/:worldId/trash` → Trash (deleted entries of the world)
+ * - `/worlds/:worldId/graph` → Relationship graph of the world
+ * - `/worlds/:worldId/entities/new?parentId=:parentId` → Create entity form
+ * - `/worlds/:worldId/entities/:entityId` → View entity
+ * - `/worlds/:worldId/entities/:entityId/edit` → Edit entity form
+ * - `/worlds/:worldId/entities/:entityId/move` → Move entity panel
+ *
+ * @module lib/routing
+ */
+
+import type { WorldSidebarState } from '@/store/worldSidebarSlice';
+
+/**
+ * Parsed application route
+ */
+export type AppRoute =
+  | { kind: 'home' }
+  | { kind: 'world_create' }
+  | { kind: 'world'; worldId: string }
+  | { kind: 'world_edit'; worldId: string }
+  | { kind: 'world_trash'; worldId: string }
+  | { kind: 'world_graph'; worldId: string }
+  | { kind: 'entity'; worldId: string; entityId: string }
+  | { kind: 'entity_edit'; worldId: string; entityId: string }
+  | { kind: 'entity_create'; worldId: string; parentId: string | null }
+  | { kind: 'entity_move'; worldId: string; entityId: string };
+
+/**
+ * Home route constant (also used as the fallback for unknown URLs)
+ */
+export const HOME_ROUTE: AppRoute = { kind: 'home' };
+
+/**
+ * Parse a URL pathname and query string into an application route
+ *
+ * Unknown or malformed URLs resolve to the home route.
+ *
+ * @param pathname - URL pathname (e.g., '/worlds/w1/entities/e1/edit')
+ * @param search - URL query string including leading '?' (optional)
+ * @returns Parsed route
+ *
+ * @example
+ * ```ts
+ * parseRoute('/worlds/w1/entities/e1/edit')
+ * // { kind: 'entity_edit', worldId: 'w1', entityId: 'e1' }
+ * ```
+ */
+export function parseRoute(pathname: string, search = ''): AppRoute {
+  const segments = pathname
+    .split('/')
+    .filter((segment) => segment.length > 0)
+    .map((segment) => {
+      try {
+        return decodeURIComponent(segment);
+      } catch {
+        return segment;
+      }
+    });
+
+  if (segments.length === 0 || segments[0] !== 'worlds') {
+    return HOME_ROUTE;
+  }
+
+  const [, worldId, section, entityId, action] = segments;
+
+  if (!worldId) {
+    return HOME_ROUTE;
+  }
+
+  if (worldId === 'new' && segments.length === 2) {
+    return { kind: 'world_create' };
+  }
+
+  if (segments.length === 2) {
+    return { kind: 'world', worldId };
+  }
+
+  if (section === 'edit' && segments.length === 3) {
+    return { kind: 'world_edit', worldId };
+  }
+
+  if (section === 'trash' && segments.length === 3) {
+    return { kind: 'world_trash', worldId };
+  }
+
+  if (section === 'graph' && segments.length === 3) {
+    return { kind: 'world_graph', worldId };
+  }
+
+  if (section !== 'entities' || !entityId || segments.length > 5) {
+    return HOME_ROUTE;
+  }
+
+  if (entityId === 'new' && segments.length === 4) {
+    const parentId = new URLSearchParams(search).get('parentId');
+    return { kind: 'entity_create', worldId, parentId: parentId || null };
+  }
+
+  if (!action) {
+    return { kind: 'entity', worldId, entityId };
+  }
+
+  if (action === 'edit') {
+    return { kind: 'entity_edit', worldId, entityId };
+  }
+
+  if (action === 'move') {
+    return { kind: 'entity_move', worldId, entityId };
+  }
+
+  return HOME_ROUTE;
+}
+
+/**
+ * Build the URL (pathname plus optional query string) for a route
+ *
+ * @param route - Route to serialize
+ * @returns URL path, e.g. '/worlds/w1/entities/e1'
+ */
+export function buildRoutePath(route: AppRoute): string {
+  const worldPath = (worldId: string) => `/worlds/${encodeURIComponent(worldId)}`;
+  const entityPath = (worldId: string, entityId: string) =>
+    `${worldPath(worldId)}/entities/${encodeURIComponent(entityId)}`;
+
+  switch (route.kind) {
+    case 'home':
+      return '/';
+    case 'world_create':
+      return '/worlds/new';
+    case 'world':
+      return worldPath(route.worldId);
+    case 'world_edit':
+      return `${worldPath(route.worldId)}/edit`;
+    case 'world_trash':
+      return `${worldPath(route.worldId)}/trash`;
+    case 'world_graph':
+      return `${worldPath(route.worldId)}/graph`;
+    case 'entity':
+      return entityPath(route.worldId, route.entityId);
+    case 'entity_edit':
+      return `${entityPath(route.worldId, route.entityId)}/edit`;
+    case 'entity_move':
+      return `${entityPath(route.worldId, route.entityId)}/move`;
+    case 'entity_create':
+      return route.parentId
+        ? `${worldPath(route.worldId)}/entities/new?parentId=${encodeURIComponent(route.parentId)}`
+        : `${worldPath(route.worldId)}/entities/new`;
+  }
+}
+
+/**
+ * Derive the route that represents the current World Sidebar state
+ *
+ * @param state - World Sidebar slice state
+ * @returns Route matching what the main panel currently shows
+ */
+export function routeFromState(
+  state: Pick<
+    WorldSidebarState,
+    | 'selectedWorldId'
+    | 'selectedEntityId'
+    | 'mainPanelMode'
+    | 'editingWorldId'
+    | 'editingEntityId'
+    | 'newEntityParentId'
+    | 'movingEntityId'
+  >,
+): AppRoute {
+  const { selectedWorldId: worldId, mainPanelMode } = state;
+
+  if (mainPanelMode === 'creating_world') {
+    return { kind: 'world_create' };
+  }
+
+  if (mainPanelMode === 'editing_world' && state.editingWorldId) {
+    return { kind: 'world_edit', worldId: state.editingWorldId };
+  }
+
+  if (!worldId) {
+    return HOME_ROUTE;
+  }
+
+  if (mainPanelMode === 'viewing_trash') {
+    return { kind: 'world_trash', worldId };
+  }
+
+  if (mainPanelMode === 'viewing_graph') {
+    return { kind: 'world_graph', worldId };
+  }
+
+  if (mainPanelMode === 'creating_entity') {
+    return { kind: 'entity_create', worldId, parentId: state.newEntityParentId };
+  }
+
+  if (mainPanelMode === 'editing_entity' && state.editingEntityId) {
+    return { kind: 'entity_edit', worldId, entityId: state.editingEntityId };
+  }
+
+  if (mainPanelMode === 'moving_entity' && state.movingEntityId) {
+    return { kind: 'entity_move', worldId, entityId: state.movingEntityId };
+  }
+
+  // MainPanel keeps showing the selected entity after a form closes ('empty' mode)
+  if (state.selectedEntityId) {
+    return { kind: 'entity', worldId, entityId: state.selectedEntityId };
+  }
+
+  return { kind: 'world', worldId };
+}
+
+/**
+ * Get the entity whose ancestors must be expanded for a route to be visible in the tree
+ *
+ * @param route - Route being navigated to
+ * @returns Entity ID to reveal, or null when the route has no tree target
+ */
+export function getRouteRevealEntityId(route: AppRoute): string | null {
+  switch (route.kind) {
+    case 'entity':
+    case 'entity_edit':
+    case 'entity_move':
+      return route.entityId;
+    case 'entity_create':
+      return route.parentId;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * schemaMigrations Utility Tests
+ *
+ * Tests for applying the registry's migrations to entries written for an
+ * older schema version.
+ *
+ * @see schemaMigrations.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyPropertyMigrations,
+  getEntitySchemaUpgrade,
+  getSchemaUpgradeRequest,
+} from './schemaMigrations';
+import type { PropertyMigration, PropertyMigrationOperation } from '@/services/config/entityTypeMigrations';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+
+const createEntity = (overrides: Partial<WorldEntity> = {}): WorldEntity => ({
+  id: 'cormyr',
+  worldId: 'world-1',
+  parentId: null,
+  entityType: WorldEntityType.Country,
+  name: 'Cormyr',
+  description: '',
+  tags: [],
+  path: [],
+  depth: 0,
+  hasChildren: false,
+  ownerId: 'user-1',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  isDeleted: false,
+  schemaVersion: 1,
+  ...overrides,
+});
+
+const migrate = (properties: Record<string, unknown>, ...operations: PropertyMigrationOperation[]) =>
+  applyPropertyMigrations(properties, [{ toVersion: 2, description: 'Upgrade', operations }]);
+
+describe('applyPropertyMigrations', () => {
+  it('renames keys without overwriting stored values', () => {
+    expect(migrate({ capitol: 'Suzail' }, { op: 'rename', from: 'capitol', to: 'capital' })).toEqual({
+      capital: 'Suzail',
+    });
+    expect(
+      migrate({ capitol: 'Arabel', capital: 'Suzail' }, { op: 'rename', from: 'capitol', to: 'capital' }),
+    ).toEqual({ capitol: 'Arabel', capital: 'Suzail' });
+  });
+
+  it('splits text into several keys, the last receiving the remainder', () => {
+    expect(
+      migrate(
+        { ruler: 'King Azoun IV Obarskyr' },
+        { op: 'split', from: 'ruler', to: ['rulerTitle', 'rulerName'], separator: ' ' },
+      ),
+    ).toEqual({ rulerTitle: 'King', rulerName: 'Azoun IV Obarskyr' });
+  });
+
+  it('does not split into keys that already have a value', () => {
+    expect(
+      migrate(
+        { ruler: 'King Azoun IV Obarskyr', rulerName: 'Azoun' },
+        { op: 'split', from: 'ruler', to: ['rulerTitle', 'rulerName'], separator: ' ' },
+      ),
+    ).toEqual({ ruler: 'King Azoun IV Obarskyr', rulerName: 'Azoun' });
+  });
+
+  it('merges keys into one as text', () => {
+    expect(
+      migrate(
+        { north: 'Stonelands', south: ['Sembia', 'Hullack'] },
+        { op: 'merge', from: ['north', 'south', 'east'], to: 'borders', separator: '; ' },
+      ),
+    ).toEqual({ borders: 'Stonelands; Sembia, Hullack' });
+    expect(
+      migrate(
+        { north: 'Stonelands', south: 'Sembia' },
+        { op: 'merge', from: ['north', 'south'], to: 'north', separator: '; ' },
+      ),
+    ).toEqual({ north: 'Stonelands; Sembia' });
+  });
+
+  it('does not merge into a key that already has a value', () => {
+    expect(
+      migrate(
+        { north: 'Stonelands', south: 'Sembia', borders: 'Dragonmere' },
+        { op: 'merge', from: ['north', 'south'], to: 'borders', separator: '; ' },
+      ),
+    ).toEqual({ north: 'Stonelands', south: 'Sembia', borders: 'Dragonmere' });
+  });
+
+  it('turns text into tags', () => {
+    expect(migrate({ languages: 'Common, Elvish,' }, { op: 'textToTagArray', key: 'languages' })).toEqual({
+      languages: ['Common', 'Elvish'],
+    });
+    expect(
+      migrate({ languages: 'Common / Elvish' }, { op: 'textToTagArray', key: 'languages', separator: '/' }),
+    ).toEqual({ languages: ['Common', 'Elvish'] });
+    expect(migrate({ languages: ['Common'] }, { op: 'textToTagArray', key: 'languages' })).toEqual({
+      languages: ['Common'],
+    });
+  });
+
+  it('fills in defaults only where there is no value', () => {
+    expect(migrate({ currency: '' }, { op: 'default', key: 'currency', value: 'Golden lions' })).toEqual({
+      currency: 'Golden lions',
+    });
+    expect(migrate({ currency: 'Crowns' }, { op: 'default', key: 'currency', value: 'Golden lions' })).toEqual({
+      currency: 'Crowns',
+    });
+  });
+
+  it('applies migrations in order and leaves the input unchanged', () => {
+    const properties = { tongue: 'Common, Elvish' };
+    const migrations: PropertyMigration[] = [
+      { toVersion: 2, description: 'Rename', operations: [{ op: 'rename', from: 'tongue', to: 'languages' }] },
+      { toVersion: 3, description: 'Tags', operations: [{ op: 'textToTagArray', key: 'languages' }] },
+    ];
+
+    expect(applyPropertyMigrations(properties, migrations)).toEqual({ languages: ['Common', 'Elvish'] });
+    expect(properties).toEqual({ tongue: 'Common, Elvish' });
+  });
+});
+
+describe('getEntitySchemaUpgrade', () => {
+  it('upgrades entries written for an older schema version', () => {
+    const upgrade = getEntitySchemaUpgrade(createEntity({ properties: { capital: 'Suzail' } }));
+
+    expect(upgrade).toMatchObject({
+      fromVersion: 1,
+      toVersion: 2,
+      properties: { capital: 'Suzail' },
+      changes: [],
+    });
+    expect(upgrade?.migrations.map((migration) => migration.toVersion)).toEqual([2]);
+  });
+
+  it('returns null for entries that are up to date', () => {
+    expect(getEntitySchemaUpgrade(createEntity({ schemaVersion: 2 }))).toBeNull();
+  });
+});
+
+describe('getSchemaUpgradeRequest', () => {
+  it('writes only the upgraded properties and schema version, clearing removed keys', () => {
+    const entity = createEntity({ schemaId: 'kingdoms', properties: { capitol: 'Suzail' } });
+
+    expect(
+      getSchemaUpgradeRequest(entity, {
+        fromVersion: 1,
+        toVersion: 2,
+        migrations: [],
+        properties: { capital: 'Suzail' },
+        changes: [],
+      }),
+    ).toEqual({
+      properties: { capital: 'Suzail', capitol: null },
+      schemaVersion: 2,
+    });
+  });
+});
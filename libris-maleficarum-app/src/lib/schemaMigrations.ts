@@ -0,0 +1,181 @@
+/**
+ * Schema Migrations
+ *
+ * Brings entries written for an older `schemaVersion` of their type up to the
+ * current one by applying the registry's declarative migrations to their
+ * `properties`. Upgrades are previewed as a field-by-field diff before they
+ * are saved.
+ *
+ * @module lib/schemaMigrations
+ */
+
+import {
+  getPropertyMigrations,
+  type PropertyMigration,
+  type PropertyMigrationOperation,
+} from '@/services/config/entityTypeMigrations';
+import {
+  ENTITY_SCHEMA_VERSIONS,
+  type PatchWorldEntityRequest,
+  type WorldEntity,
+} from '@/services/types/worldEntity.types';
+import { formatRevisionValue, getRevisionDiff, type FieldChange } from './revisionDiff';
+import { getPropertyBagRestore } from './undoHistory';
+
+/**
+ * An upgrade of an entry to the current schema version of its type
+ */
+export interface EntitySchemaUpgrade {
+  /** Schema version the entry was written for */
+  fromVersion: number;
+
+  /** Current schema version of the entry's type */
+  toVersion: number;
+
+  /** Migrations applied, in order (empty when the versions differ only in optional fields) */
+  migrations: readonly PropertyMigration[];
+
+  /** Properties after the upgrade (null when none are left) */
+  properties: Record<string, unknown> | null;
+
+  /** Properties the upgrade changes */
+  changes: FieldChange[];
+}
+
+function hasValue(value: unknown): boolean {
+  return (
+    value !== null &&
+    value !== undefined &&
+    !(typeof value === 'string' && value.trim() === '') &&
+    !(Array.isArray(value) && value.length === 0)
+  );
+}
+
+function splitText(text: string, separator: string): string[] {
+  return text.split(separator).map((part) => part.trim()).filter(Boolean);
+}
+
+function applyOperation(properties: Record<string, unknown>, operation: PropertyMigrationOperation): void {
+  switch (operation.op) {
+    case 'rename':
+      // Never overwrite a value already stored under the new key
+      if (hasValue(properties[operation.from]) && !hasValue(properties[operation.to])) {
+        properties[operation.to] = properties[operation.from];
+        delete properties[operation.from];
+      }
+      break;
+    case 'split': {
+      const value = properties[operation.from];
+      if (typeof value !== 'string') break;
+      // Never overwrite a value already stored under one of the new keys
+      if (operation.to.some((key) => key !== operation.from && hasValue(properties[key]))) break;
+
+      const parts = value.split(operation.separator);
+      delete properties[operation.from];
+      operation.to.forEach((key, index) => {
+        const isLast = index === operation.to.length - 1;
+        const part = (isLast ? parts.slice(index).join(operation.separator) : parts[index] ?? '').trim();
+        if (part) properties[key] = part;
+      });
+      break;
+    }
+    case 'merge': {
+      const texts = operation.from.map((key) => formatRevisionValue(properties[key])).filter(Boolean);
+      if (texts.length === 0) break;
+      // Never overwrite a value already stored under the new key
+      if (!operation.from.includes(operation.to) && hasValue(properties[operation.to])) break;
+
+      for (const key of operation.from) delete properties[key];
+      properties[operation.to] = texts.join(operation.separator);
+      break;
+    }
+    case 'textToTagArray': {
+      const value = properties[operation.key];
+      if (typeof value !== 'string') break;
+
+      const tags = splitText(value, operation.separator ?? ',');
+      if (tags.length > 0) {
+        properties[operation.key] = tags;
+      } else {
+        delete properties[operation.key];
+      }
+      break;
+    }
+    case 'default':
+      if (!hasValue(properties[operation.key])) {
+        properties[operation.key] = Array.isArray(operation.value) ? [...operation.value] : operation.value;
+      }
+      break;
+  }
+}
+
+/**
+ * Apply migrations to a property bag
+ *
+ * @param properties - Properties written for the older schema version
+ * @param migrations - Migrations to apply, in order
+ * @returns The migrated properties (the input is left unchanged)
+ *
+ * @example
+ * ```typescript
+ * applyPropertyMigrations({ tongue: 'Common, Elvish' }, [{
+ *   toVersion: 2,
+ *   description: 'Languages become tags',
+ *   operations: [{ op: 'rename', from: 'tongue', to: 'languages' }, { op: 'textToTagArray', key: 'languages' }],
+ * }]);
+ * // { languages: ['Common', 'Elvish'] }
+ * ```
+ */
+export function applyPropertyMigrations(
+  properties: Record<string, unknown> | null | undefined,
+  migrations: readonly PropertyMigration[],
+): Record<string, unknown> {
+  const migrated = { ...properties };
+  for (const migration of migrations) {
+    for (const operation of migration.operations) {
+      applyOperation(migrated, operation);
+    }
+  }
+  return migrated;
+}
+
+/**
+ * Work out the upgrade an entry needs
+ *
+ * @param entity - Entry as stored
+ * @returns The upgrade, or null if the entry is written for the current schema version
+ */
+export function getEntitySchemaUpgrade(entity: WorldEntity): EntitySchemaUpgrade | null {
+  const toVersion = ENTITY_SCHEMA_VERSIONS[entity.entityType];
+  if (!toVersion || entity.schemaVersion >= toVersion) return null;
+
+  const migrations = getPropertyMigrations(entity.entityType, entity.schemaVersion);
+  const migrated = applyPropertyMigrations(entity.properties, migrations);
+  const properties = Object.keys(migrated).length > 0 ? migrated : null;
+
+  return {
+    fromVersion: entity.schemaVersion,
+    toVersion,
+    migrations,
+    properties,
+    changes: getRevisionDiff(entity, { ...entity, properties: properties ?? undefined }),
+  };
+}
+
+/**
+ * Patch saving an upgrade
+ *
+ * @param entity - Entry as stored
+ * @param upgrade - Upgrade of the entry
+ * @returns Patch writing the upgraded properties and schema version (nothing else is touched)
+ */
+export function getSchemaUpgradeRequest(
+  entity: WorldEntity,
+  upgrade: EntitySchemaUpgrade,
+): PatchWorldEntityRequest {
+  return {
+    // Patches merge property bags, so keys the upgrade removed are cleared
+    properties: getPropertyBagRestore(upgrade.properties ?? undefined, entity.properties),
+    schemaVersion: upgrade.toVersion,
+  };
+}
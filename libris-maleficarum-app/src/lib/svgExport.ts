@@ -0,0 +1,134 @@
+/**
+ * SVG Export
+ *
+ * Saves an SVG drawn in the app as a standalone `.svg` or `.png` file. The
+ * app styles its SVGs with theme classes, which do not exist outside the
+ * page, so the computed colours and fonts are written onto a copy of the
+ * drawing before it is saved.
+ *
+ * @module lib/svgExport
+ */
+
+/** Style properties copied onto the exported drawing */
+const INLINED_STYLES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-dasharray',
+  'stroke-opacity',
+  'opacity',
+  'color',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'text-anchor',
+  'dominant-baseline',
+] as const;
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+/**
+ * Serialize an SVG element with its computed styles inlined
+ *
+ * @param svg - Drawing to export
+ * @param size - Size of the exported image, in pixels
+ * @returns Standalone SVG document text
+ */
+export function serializeSvg(svg: SVGSVGElement, size: { width: number; height: number }): string {
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  const sourceElements = [svg, ...Array.from(svg.querySelectorAll('*'))];
+  const copiedElements = [copy, ...Array.from(copy.querySelectorAll('*'))];
+
+  sourceElements.forEach((source, index) => {
+    const computed = window.getComputedStyle(source);
+    const target = copiedElements[index] as SVGElement;
+    const inlined = INLINED_STYLES.map((property) => [property, computed.getPropertyValue(property)] as const)
+      .filter(([, value]) => value !== '')
+      .map(([property, value]) => `${property}:${value}`)
+      .join(';');
+    if (inlined) {
+      target.setAttribute('style', inlined);
+    }
+    target.removeAttribute('class');
+  });
+
+  copy.setAttribute('xmlns', SVG_NAMESPACE);
+  copy.setAttribute('width', String(size.width));
+  copy.setAttribute('height', String(size.height));
+
+  return new XMLSerializer().serializeToString(copy);
+}
+
+/**
+ * Render SVG document text to a PNG image
+ *
+ * @param svgText - Standalone SVG document
+ * @param size - Size of the image, in pixels
+ * @param background - Colour painted behind the drawing
+ * @returns PNG image data
+ */
+export function renderSvgToPng(
+  svgText: string,
+  size: { width: number; height: number },
+  background: string,
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svgText], { type: 'image/svg+xml' }));
+    const image = new Image();
+
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = size.width;
+      canvas.height = size.height;
+      const context = canvas.getContext('2d');
+      URL.revokeObjectURL(url);
+      if (!context) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+
+      context.fillStyle = background;
+      context.fillRect(0, 0, size.width, size.height);
+      context.drawImage(image, 0, 0, size.width, size.height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('The image could not be created'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The drawing could not be loaded'));
+    };
+    image.src = url;
+  });
+}
+
+/**
+ * Save data as a file through the browser's download
+ *
+ * @param blob - File contents
+ * @param fileName - Suggested file name
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Turn a name into a safe file name
+ *
+ * @param name - Display name, e.g. a world name
+ * @returns Lower-case name with dashes, or "export" when nothing is left
+ */
+export function toFileName(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'export'
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * tagHelpers Utility Tests
+ *
+ * @see tagHelpers.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyTagChange, countTagUsage } from './tagHelpers';
+
+describe('tagHelpers', () => {
+  describe('countTagUsage()', () => {
+    it('should count tags across entities ordered by usage then name', () => {
+      const result = countTagUsage([
+        { tags: ['npc', 'wizard'] },
+        { tags: ['npc', 'capital'] },
+        { tags: ['npc', 'wizard'] },
+      ]);
+
+      expect(result).toEqual([
+        { tag: 'npc', count: 3 },
+        { tag: 'wizard', count: 2 },
+        { tag: 'capital', count: 1 },
+      ]);
+    });
+
+    it('should merge case variants and ignore blanks and repeats on one entity', () => {
+      const result = countTagUsage([
+        { tags: ['Harpers', 'harpers', '  '] },
+        { tags: ['HARPERS'] },
+        { tags: [] },
+      ]);
+
+      expect(result).toEqual([{ tag: 'Harpers', count: 2 }]);
+    });
+  });
+
+  describe('applyTagChange()', () => {
+    it('should add missing tags and remove tags regardless of case', () => {
+      const result = applyTagChange(['Harpers', 'npc'], { add: ['harpers', 'wizard'], remove: ['NPC'] });
+
+      expect(result).toEqual(['Harpers', 'wizard']);
+    });
+  });
+});
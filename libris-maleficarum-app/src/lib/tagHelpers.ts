@@ -0,0 +1,71 @@
+/**
+ * Tag Helpers
+ *
+ * Pure functions for working with the free-form `tags` stored on world entities.
+ *
+ * @module lib/tagHelpers
+ */
+
+import type { TagUsage, WorldEntity } from '@/services/types/worldEntity.types';
+
+/**
+ * Tags to add to and remove from an entity
+ */
+export interface TagChange {
+  add: string[];
+  remove: string[];
+}
+
+/**
+ * Count how many entities carry each tag
+ *
+ * Tags that differ only by case are counted together under the first spelling seen.
+ *
+ * @param entities - Entities to aggregate
+ * @returns Tag usages ordered by count (descending), then alphabetically
+ */
+export function countTagUsage(entities: Pick<WorldEntity, 'tags'>[]): TagUsage[] {
+  const usage = new Map<string, TagUsage>();
+
+  for (const entity of entities) {
+    const seen = new Set<string>();
+
+    for (const rawTag of entity.tags ?? []) {
+      const tag = rawTag.trim();
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) continue;
+      seen.add(key);
+
+      const existing = usage.get(key);
+      if (existing) {
+        existing.count += 1;
+      } else {
+        usage.set(key, { tag, count: 1 });
+      }
+    }
+  }
+
+  return Array.from(usage.values()).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag),
+  );
+}
+
+/**
+ * Apply tag additions and removals, matching existing tags case-insensitively
+ *
+ * @param tags - Current tags
+ * @param change - Tags to add and remove
+ * @returns Updated tags (existing spelling preserved)
+ */
+export function applyTagChange(tags: string[], change: TagChange): string[] {
+  const removals = new Set(change.remove.map((tag) => tag.toLowerCase()));
+  const next = tags.filter((tag) => !removals.has(tag.toLowerCase()));
+
+  change.add.forEach((tag) => {
+    if (!next.some((existing) => existing.toLowerCase() === tag.toLowerCase())) {
+      next.push(tag);
+    }
+  });
+
+  return next;
+}
@@ -0,0 +1,132 @@
+/**
+ * trashGroups Utility Tests
+ *
+ * Tests for nesting deleted entities and attributing them to the delete
+ * operation that removed them.
+ *
+ * @see trashGroups.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  UNATTRIBUTED_GROUP_ID,
+  countTrashNodes,
+  getTrashDescendantIds,
+  groupDeletedEntities,
+} from './trashGroups';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+import type { DeleteOperationDto } from '@/services/types/asyncOperations';
+
+const createEntity = (id: string, path: string[], name = id): WorldEntity => ({
+  id,
+  worldId: 'world-1',
+  parentId: path[path.length - 1] ?? null,
+  entityType: WorldEntityType.Location,
+  name,
+  description: '',
+  tags: [],
+  path,
+  depth: path.length,
+  hasChildren: false,
+  ownerId: 'test-user',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  isDeleted: true,
+  schemaVersion: 1,
+});
+
+const createOperation = (id: string, rootEntityId: string, createdAt: string): DeleteOperationDto => ({
+  id,
+  worldId: 'world-1',
+  rootEntityId,
+  rootEntityName: rootEntityId,
+  status: 'completed',
+  totalEntities: 1,
+  deletedCount: 1,
+  failedCount: 0,
+  failedEntityIds: null,
+  errorDetails: null,
+  cascade: true,
+  createdBy: 'test-user',
+  createdAt,
+  startedAt: createdAt,
+  completedAt: createdAt,
+});
+
+describe('trashGroups', () => {
+  describe('groupDeletedEntities()', () => {
+    it('should nest deleted entities beneath their deleted parents', () => {
+      const groups = groupDeletedEntities(
+        [
+          createEntity('suzail', ['faerun', 'cormyr']),
+          createEntity('cormyr', ['faerun']),
+          createEntity('arabel', ['faerun', 'cormyr']),
+        ],
+        [createOperation('op-1', 'cormyr', '2026-02-01T00:00:00Z')],
+      );
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0].id).toBe('op-1');
+      expect(groups[0].entityCount).toBe(3);
+      expect(groups[0].roots.map((node) => node.entity.id)).toEqual(['cormyr']);
+      expect(groups[0].roots[0].children.map((node) => node.entity.id)).toEqual(['arabel', 'suzail']);
+    });
+
+    it('should attribute descendants left behind by a restored root to its operation', () => {
+      // Cormyr was restored on its own, so its cities remain in the trash
+      const groups = groupDeletedEntities(
+        [createEntity('suzail', ['faerun', 'cormyr']), createEntity('arabel', ['faerun', 'cormyr'])],
+        [createOperation('op-1', 'cormyr', '2026-02-01T00:00:00Z')],
+      );
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0].operation?.id).toBe('op-1');
+      expect(groups[0].roots.map((node) => node.entity.id)).toEqual(['arabel', 'suzail']);
+    });
+
+    it('should order groups newest first with unattributed entries last', () => {
+      const groups = groupDeletedEntities(
+        [
+          createEntity('waterdeep', []),
+          createEntity('cormyr', ['faerun']),
+          createEntity('sembia', ['faerun']),
+        ],
+        [
+          createOperation('op-old', 'cormyr', '2026-02-01T00:00:00Z'),
+          createOperation('op-new', 'sembia', '2026-03-01T00:00:00Z'),
+        ],
+      );
+
+      expect(groups.map((group) => group.id)).toEqual(['op-new', 'op-old', UNATTRIBUTED_GROUP_ID]);
+      expect(groups[2].operation).toBeNull();
+    });
+
+    it('should prefer the most recent operation that removed an entity', () => {
+      const groups = groupDeletedEntities(
+        [createEntity('cormyr', ['faerun'])],
+        [
+          createOperation('op-continent', 'faerun', '2026-02-01T00:00:00Z'),
+          createOperation('op-country', 'cormyr', '2026-03-01T00:00:00Z'),
+        ],
+      );
+
+      expect(groups.map((group) => group.id)).toEqual(['op-country']);
+    });
+  });
+
+  describe('countTrashNodes() and getTrashDescendantIds()', () => {
+    it('should include every level of descendants', () => {
+      const [group] = groupDeletedEntities(
+        [
+          createEntity('cormyr', []),
+          createEntity('suzail', ['cormyr']),
+          createEntity('palace', ['cormyr', 'suzail']),
+        ],
+        [],
+      );
+
+      expect(countTrashNodes(group.roots[0])).toBe(3);
+      expect(getTrashDescendantIds(group.roots[0])).toEqual(['suzail', 'palace']);
+    });
+  });
+});
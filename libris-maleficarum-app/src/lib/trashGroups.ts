@@ -0,0 +1,135 @@
+/**
+ * Trash Grouping Helpers
+ *
+ * Pure functions for arranging a world's soft-deleted entities for the Trash
+ * view: deleted entities are nested beneath their deleted parents, and each
+ * top-level deleted entity is attributed to the delete operation that removed it.
+ *
+ * @module lib/trashGroups
+ */
+
+import type { WorldEntity } from '@/services/types/worldEntity.types';
+import type { DeleteOperationDto } from '@/services/types/asyncOperations';
+
+/**
+ * Deleted entity with its deleted children
+ */
+export interface TrashNode {
+  entity: WorldEntity;
+  children: TrashNode[];
+}
+
+/**
+ * Deleted entities removed by one delete operation
+ */
+export interface TrashGroup {
+  /** Operation ID, or `UNATTRIBUTED_GROUP_ID` when no known operation removed them */
+  id: string;
+
+  /** Operation that removed the entries (null when it is no longer known) */
+  operation: DeleteOperationDto | null;
+
+  /** Top-level deleted entries of the group */
+  roots: TrashNode[];
+
+  /** Number of deleted entries in the group, descendants included */
+  entityCount: number;
+}
+
+/**
+ * Group ID for deleted entries whose delete operation is no longer listed
+ */
+export const UNATTRIBUTED_GROUP_ID = 'unattributed';
+
+const byName = (a: TrashNode, b: TrashNode) => a.entity.name.localeCompare(b.entity.name);
+
+/**
+ * Count a node and all of its descendants
+ */
+export function countTrashNodes(node: TrashNode): number {
+  return node.children.reduce((count, child) => count + countTrashNodes(child), 1);
+}
+
+/**
+ * Collect the IDs of a node's descendants
+ */
+export function getTrashDescendantIds(node: TrashNode): string[] {
+  return node.children.flatMap((child) => [child.entity.id, ...getTrashDescendantIds(child)]);
+}
+
+/**
+ * Find the delete operation that removed a top-level deleted entity
+ *
+ * The entity was removed either directly or as a descendant of the operation's
+ * root (whose own entry may since have been restored). The most recent
+ * matching operation wins.
+ */
+function findDeleteOperation(
+  entity: WorldEntity,
+  operations: DeleteOperationDto[],
+): DeleteOperationDto | null {
+  let match: DeleteOperationDto | null = null;
+
+  for (const operation of operations) {
+    const removedEntity =
+      operation.rootEntityId === entity.id || entity.path.includes(operation.rootEntityId);
+
+    if (removedEntity && (!match || operation.createdAt > match.createdAt)) {
+      match = operation;
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Arrange deleted entities into groups by the delete operation that removed them
+ *
+ * Groups are ordered newest operation first, with unattributed entries last;
+ * entries within a group are ordered by name.
+ *
+ * @param deletedEntities - Soft-deleted entities of a world
+ * @param operations - Delete operations of the same world
+ * @returns Trash groups
+ */
+export function groupDeletedEntities(
+  deletedEntities: WorldEntity[],
+  operations: DeleteOperationDto[],
+): TrashGroup[] {
+  const nodes = new Map<string, TrashNode>(
+    deletedEntities.map((entity) => [entity.id, { entity, children: [] }]),
+  );
+  const groups = new Map<string, TrashGroup>();
+
+  for (const node of nodes.values()) {
+    const parent = node.entity.parentId ? nodes.get(node.entity.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+      continue;
+    }
+
+    const operation = findDeleteOperation(node.entity, operations);
+    const id = operation?.id ?? UNATTRIBUTED_GROUP_ID;
+    const group = groups.get(id) ?? { id, operation, roots: [], entityCount: 0 };
+    group.roots.push(node);
+    groups.set(id, group);
+  }
+
+  const sortChildren = (node: TrashNode) => {
+    node.children.sort(byName);
+    node.children.forEach(sortChildren);
+  };
+
+  for (const group of groups.values()) {
+    group.roots.sort(byName);
+    group.roots.forEach(sortChildren);
+    group.entityCount = group.roots.reduce((count, root) => count + countTrashNodes(root), 0);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => {
+    if (!a.operation || !b.operation) {
+      return a.operation ? -1 : b.operation ? 1 : 0;
+    }
+    return b.operation.createdAt.localeCompare(a.operation.createdAt);
+  });
+}
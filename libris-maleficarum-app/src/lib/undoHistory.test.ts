@@ -0,0 +1,188 @@
+/**
+ * undoHistory Utility Tests
+ *
+ * Tests for describing changes to entries as operations that undo and redo
+ * them.
+ *
+ * @see undoHistory.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  combineChanges,
+  getEntityCreateChange,
+  getEntityDeleteChange,
+  getEntityMoveChange,
+  getEntityPatchChange,
+  getEntityUpdateChange,
+  getSortKeyChange,
+} from './undoHistory';
+import { WorldEntityType, type WorldEntity } from '@/services/types/worldEntity.types';
+
+const createEntity = (overrides: Partial<WorldEntity> = {}): WorldEntity => ({
+  id: 'cormyr',
+  worldId: 'world-1',
+  parentId: null,
+  entityType: WorldEntityType.Country,
+  name: 'Cormyr',
+  description: 'The Forest Kingdom',
+  tags: ['kingdom'],
+  path: [],
+  depth: 0,
+  hasChildren: false,
+  ownerId: 'user-1',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  isDeleted: false,
+  schemaVersion: 2,
+  ...overrides,
+});
+
+describe('getEntityUpdateChange', () => {
+  it('restores the fields of the entity before the update', () => {
+    const before = createEntity({ parentId: 'faerun', sortKey: 1024, schemaId: 'dnd5e-country' });
+    const after = createEntity({ parentId: 'faerun', name: 'Cormyr Reborn', tags: [], sortKey: 2048 });
+
+    const { undo, redo } = getEntityUpdateChange(before, after);
+
+    expect(undo).toEqual([
+      {
+        kind: 'update',
+        entityId: 'cormyr',
+        currentEntityType: WorldEntityType.Country,
+        data: {
+          parentId: 'faerun',
+          name: 'Cormyr',
+          description: 'The Forest Kingdom',
+          entityType: WorldEntityType.Country,
+          tags: ['kingdom'],
+          sortKey: 1024,
+          schemaId: 'dnd5e-country',
+          properties: undefined,
+          systemProperties: undefined,
+          schemaVersion: 2,
+        },
+      },
+    ]);
+    expect(redo[0]).toMatchObject({ kind: 'update', data: { name: 'Cormyr Reborn', tags: [], sortKey: 2048 } });
+  });
+
+  it('clears properties added by the update, since updates merge properties', () => {
+    const before = createEntity({ properties: { capital: 'Suzail' } });
+    const after = createEntity({ properties: { capital: 'Arabel', ruler: 'Azoun' } });
+
+    const { undo, redo } = getEntityUpdateChange(before, after);
+
+    expect(undo[0]).toMatchObject({ data: { properties: { capital: 'Suzail', ruler: null } } });
+    expect(redo[0]).toMatchObject({ data: { properties: { capital: 'Arabel', ruler: 'Azoun' } } });
+  });
+
+  it('does not downgrade the schema version of an unchanged entity type', () => {
+    const before = createEntity({ schemaVersion: 1 });
+    const after = createEntity({ schemaVersion: 2 });
+
+    expect(getEntityUpdateChange(before, after).undo[0]).toMatchObject({ data: { schemaVersion: 2 } });
+  });
+
+  it('restores the previous entity type and its schema version', () => {
+    const before = createEntity({ entityType: WorldEntityType.Region, schemaVersion: 1 });
+    const after = createEntity({ entityType: WorldEntityType.Country, schemaVersion: 2 });
+
+    expect(getEntityUpdateChange(before, after).undo[0]).toMatchObject({
+      currentEntityType: WorldEntityType.Country,
+      data: { entityType: WorldEntityType.Region, schemaVersion: 1 },
+    });
+  });
+});
+
+describe('getSortKeyChange', () => {
+  it('patches only the sort keys the reorder changed', () => {
+    const before = new Map([
+      ['a', 1024],
+      ['b', 2048],
+      ['c', 3072],
+    ]);
+    const after = new Map([
+      ['a', 1024],
+      ['b', 3072],
+      ['c', 2048],
+    ]);
+
+    expect(getSortKeyChange(before, after)).toEqual({
+      undo: [
+        { kind: 'patch', entityId: 'b', data: { sortKey: 2048 } },
+        { kind: 'patch', entityId: 'c', data: { sortKey: 3072 } },
+      ],
+      redo: [
+        { kind: 'patch', entityId: 'b', data: { sortKey: 3072 } },
+        { kind: 'patch', entityId: 'c', data: { sortKey: 2048 } },
+      ],
+    });
+  });
+});
+
+describe('getEntityPatchChange', () => {
+  it('sends back only the patched fields', () => {
+    const before = createEntity({ parentId: 'faerun', schemaId: 'dnd5e-country' });
+    const after = createEntity({ name: 'Cormyr Reborn', parentId: 'faerun', schemaId: 'dnd5e-country' });
+
+    expect(getEntityPatchChange(before, after, ['name'])).toEqual({
+      undo: [{ kind: 'patch', entityId: 'cormyr', data: { name: 'Cormyr' } }],
+      redo: [{ kind: 'patch', entityId: 'cormyr', data: { name: 'Cormyr Reborn' } }],
+    });
+  });
+
+  it('clears properties added by the patch', () => {
+    const before = createEntity({ entityType: WorldEntityType.Continent, properties: { area: 10 } });
+    const after = createEntity({ properties: { capital: 'Suzail' } });
+
+    const { undo } = getEntityPatchChange(before, after, ['entityType', 'properties']);
+
+    expect(undo[0]).toEqual({
+      kind: 'patch',
+      entityId: 'cormyr',
+      data: { entityType: WorldEntityType.Continent, properties: { area: 10, capital: null } },
+    });
+  });
+
+  it('does not downgrade the schema version of an unchanged entity type', () => {
+    const before = createEntity({ schemaVersion: 1, properties: { tongues: 'Common' } });
+    const after = createEntity({ schemaVersion: 2, properties: { languages: ['Common'] } });
+
+    const { undo } = getEntityPatchChange(before, after, ['properties', 'schemaVersion']);
+
+    expect(undo[0]).toMatchObject({ data: { schemaVersion: 2 } });
+  });
+});
+
+describe('single entity changes', () => {
+  it('moves an entity back to its previous parent', () => {
+    expect(getEntityMoveChange('suzail', 'cormyr', null)).toEqual({
+      undo: [{ kind: 'move', entityId: 'suzail', parentId: 'cormyr' }],
+      redo: [{ kind: 'move', entityId: 'suzail', parentId: null }],
+    });
+  });
+
+  it('deletes a created entity and restores it to redo', () => {
+    expect(getEntityCreateChange('suzail')).toEqual({
+      undo: [{ kind: 'delete', entityId: 'suzail' }],
+      redo: [{ kind: 'restore', entityId: 'suzail' }],
+    });
+  });
+
+  it('restores a deleted entity and deletes it to redo', () => {
+    expect(getEntityDeleteChange('suzail')).toEqual({
+      undo: [{ kind: 'restore', entityId: 'suzail' }],
+      redo: [{ kind: 'delete', entityId: 'suzail' }],
+    });
+  });
+});
+
+describe('combineChanges', () => {
+  it('undoes changes in reverse order and redoes them in order', () => {
+    const change = combineChanges([getEntityMoveChange('a', null, 'x'), getEntityMoveChange('b', null, 'x')]);
+
+    expect(change.undo.map((operation) => operation.entityId)).toEqual(['b', 'a']);
+    expect(change.redo.map((operation) => operation.entityId)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * Undo History
+ *
+ * Describes changes to a world's entries as the operations that reverse them
+ * (undo) and apply them again (redo). Operations are plain data, so they can
+ * live in the Redux store and be replayed through the same API mutations that
+ * made the change. Deletes are reversed by restoring from the trash, and
+ * creates are reversed by deleting (and redone by restoring).
+ *
+ * @module lib/undoHistory
+ */
+
+import type {
+  PatchWorldEntityRequest,
+  UpdateWorldEntityRequest,
+  WorldEntity,
+  WorldEntityType,
+} from '@/services/types/worldEntity.types';
+
+/**
+ * A single replayable step of an undo or redo
+ */
+export type UndoOperation =
+  | {
+      /** Overwrite the entity's fields */
+      kind: 'update';
+      entityId: string;
+      /** Entity type the entity has when the operation runs */
+      currentEntityType: WorldEntityType;
+      data: UpdateWorldEntityRequest;
+    }
+  | {
+      /** Change only some of the entity's fields */
+      kind: 'patch';
+      entityId: string;
+      data: PatchWorldEntityRequest;
+    }
+  | {
+      /** Move the entity beneath a parent (the root when null) */
+      kind: 'move';
+      entityId: string;
+      parentId: string | null;
+    }
+  | {
+      /** Delete the entity with its descendants */
+      kind: 'delete';
+      entityId: string;
+    }
+  | {
+      /** Restore the entity with its deleted descendants from the trash */
+      kind: 'restore';
+      entityId: string;
+    };
+
+/**
+ * The operations reversing and reapplying a change
+ */
+export interface UndoableChange {
+  /** Operations that reverse the change, in order */
+  undo: UndoOperation[];
+
+  /** Operations that apply the change again, in order */
+  redo: UndoOperation[];
+}
+
+/**
+ * A recorded change in the undo history
+ */
+export interface UndoEntry extends UndoableChange {
+  /** Unique identifier */
+  id: string;
+
+  /** World the change was made in */
+  worldId: string;
+
+  /** What was done, for toasts and the history list (e.g. 'Rename "Cormyr"') */
+  label: string;
+
+  /** When the change was made (ms since epoch) */
+  recordedAt: number;
+}
+
+/** Most changes kept in the history; older ones are forgotten */
+export const MAX_UNDO_HISTORY = 50;
+
+/**
+ * Property bag that turns `current` back into `target`
+ *
+ * Updates merge property bags, so keys missing from `target` are sent as null
+ * to clear them.
+ *
+ * @param target - Properties to end up with
+ * @param current - Properties stored now
+ * @returns Bag to send in an update (undefined when both are empty)
+ */
+export function getPropertyBagRestore(
+  target: Record<string, unknown> | undefined,
+  current: Record<string, unknown> | undefined,
+): Record<string, unknown> | undefined {
+  const bag: Record<string, unknown> = { ...target };
+  for (const key of Object.keys(current ?? {})) {
+    if (!(key in bag)) bag[key] = null;
+  }
+  return Object.keys(bag).length > 0 ? bag : undefined;
+}
+
+/**
+ * Update request that turns an entity back into an earlier version of itself
+ *
+ * Moves are undone separately, so the entity stays beneath its current parent.
+ *
+ * @param target - Version to return to
+ * @param current - Version the entity has now
+ * @returns Request overwriting every field of `current` with those of `target`
+ */
+export function getEntityRestoreRequest(target: WorldEntity, current: WorldEntity): UpdateWorldEntityRequest {
+  return {
+    parentId: current.parentId,
+    name: target.name,
+    description: target.description,
+    entityType: target.entityType,
+    tags: target.tags,
+    sortKey: target.sortKey ?? undefined,
+    schemaId: target.schemaId,
+    properties: getPropertyBagRestore(target.properties, current.properties),
+    systemProperties: getPropertyBagRestore(target.systemProperties, current.systemProperties),
+    // Schema versions cannot be downgraded within an entity type
+    schemaVersion:
+      target.entityType === current.entityType
+        ? Math.max(target.schemaVersion, current.schemaVersion)
+        : target.schemaVersion,
+  };
+}
+
+/**
+ * Update operation that turns `current` back into `target`
+ */
+function getUpdateOperation(target: WorldEntity, current: WorldEntity): UndoOperation {
+  return {
+    kind: 'update',
+    entityId: target.id,
+    currentEntityType: current.entityType,
+    data: getEntityRestoreRequest(target, current),
+  };
+}
+
+/**
+ * Describe an update of an entity
+ *
+ * @param before - Entity before the update
+ * @param after - Entity returned by the update
+ * @returns Operations restoring `before` and reapplying `after`
+ */
+export function getEntityUpdateChange(before: WorldEntity, after: WorldEntity): UndoableChange {
+  return {
+    undo: [getUpdateOperation(before, after)],
+    redo: [getUpdateOperation(after, before)],
+  };
+}
+
+/**
+ * Fields a patch can set back
+ */
+export type PatchableEntityField = 'name' | 'tags' | 'entityType' | 'properties' | 'schemaVersion';
+
+/**
+ * Patch operation that sets the given fields of `current` back to those of `target`
+ */
+function getPatchOperation(
+  target: WorldEntity,
+  current: WorldEntity,
+  fields: readonly PatchableEntityField[],
+): UndoOperation {
+  const data: PatchWorldEntityRequest = {};
+  for (const field of fields) {
+    switch (field) {
+      case 'name':
+        data.name = target.name;
+        break;
+      case 'tags':
+        data.tags = target.tags;
+        break;
+      case 'entityType':
+        data.entityType = target.entityType;
+        break;
+      case 'properties':
+        data.properties = getPropertyBagRestore(target.properties, current.properties);
+        break;
+      case 'schemaVersion':
+        // Schema versions cannot be downgraded within an entity type
+        data.schemaVersion =
+          target.entityType === current.entityType
+            ? Math.max(target.schemaVersion, current.schemaVersion)
+            : target.schemaVersion;
+        break;
+    }
+  }
+
+  return { kind: 'patch', entityId: target.id, data };
+}
+
+/**
+ * Describe a patch of some fields of an entity
+ *
+ * Unlike {@link getEntityUpdateChange}, undo and redo only send the patched
+ * fields, so they never touch the entity's parent or schema identifier.
+ *
+ * @param before - Entity before the patch
+ * @param after - Entity returned by the patch
+ * @param fields - Fields the patch changed
+ * @returns Operations setting the fields back and again
+ */
+export function getEntityPatchChange(
+  before: WorldEntity,
+  after: WorldEntity,
+  fields: readonly PatchableEntityField[],
+): UndoableChange {
+  return {
+    undo: [getPatchOperation(before, after, fields)],
+    redo: [getPatchOperation(after, before, fields)],
+  };
+}
+
+/**
+ * Describe a manual reorder of siblings
+ *
+ * A sort key cannot be cleared, so `before` must give every sibling a key,
+ * even those that had none (see getManualOrderSortKeys).
+ *
+ * @param before - Sort keys giving the order before the reorder
+ * @param after - Sort keys saved by the reorder
+ * @returns Operations patching the keys that differ back and again
+ */
+export function getSortKeyChange(
+  before: ReadonlyMap<string, number>,
+  after: ReadonlyMap<string, number>,
+): UndoableChange {
+  const changed = Array.from(after.keys()).filter((id) => before.has(id) && before.get(id) !== after.get(id));
+  return {
+    undo: changed.map((entityId) => ({ kind: 'patch', entityId, data: { sortKey: before.get(entityId) } })),
+    redo: changed.map((entityId) => ({ kind: 'patch', entityId, data: { sortKey: after.get(entityId) } })),
+  };
+}
+
+/**
+ * Describe a move of an entity
+ *
+ * @param entityId - Moved entity
+ * @param fromParentId - Previous parent (null for the root)
+ * @param toParentId - New parent (null for the root)
+ * @returns Operations moving the entity back and again
+ */
+export function getEntityMoveChange(
+  entityId: string,
+  fromParentId: string | null,
+  toParentId: string | null,
+): UndoableChange {
+  return {
+    undo: [{ kind: 'move', entityId, parentId: fromParentId }],
+    redo: [{ kind: 'move', entityId, parentId: toParentId }],
+  };
+}
+
+/**
+ * Describe the creation of an entity (with any descendants created beneath it)
+ *
+ * @param entityId - Created entity
+ * @returns Operations deleting the entity and restoring it from the trash
+ */
+export function getEntityCreateChange(entityId: string): UndoableChange {
+  return {
+    undo: [{ kind: 'delete', entityId }],
+    redo: [{ kind: 'restore', entityId }],
+  };
+}
+
+/**
+ * Describe the deletion of an entity (with its descendants)
+ *
+ * @param entityId - Deleted entity
+ * @returns Operations restoring the entity from the trash and deleting it again
+ */
+export function getEntityDeleteChange(entityId: string): UndoableChange {
+  return {
+    undo: [{ kind: 'restore', entityId }],
+    redo: [{ kind: 'delete', entityId }],
+  };
+}
+
+/**
+ * Combine changes made together (e.g. by a bulk action) into one
+ *
+ * @param changes - Changes in the order they were made
+ * @returns A change undone in reverse order and redone in the original order
+ */
+export function combineChanges(changes: UndoableChange[]): UndoableChange {
+  return {
+    undo: [...changes].reverse().flatMap((change) => change.undo),
+    redo: changes.flatMap((change) => change.redo),
+  };
+}
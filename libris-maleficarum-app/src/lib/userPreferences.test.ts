@@ -0,0 +1,54 @@
+/**
+ * userPreferences Utility Tests
+ *
+ * Tests for per-user, per-world preferences in localStorage.
+ *
+ * @see userPreferences.ts
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  getCurrentUserKey,
+  readUserPreference,
+  removeUserPreference,
+  writeUserPreference,
+} from './userPreferences';
+
+describe('userPreferences', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should scope preferences to the anonymous user without authentication', () => {
+    expect(getCurrentUserKey()).toBe('anonymous');
+  });
+
+  it('should store and read a preference per world', () => {
+    // Act
+    writeUserPreference('treeSort', 'world-1', { mode: 'alphabetical' });
+
+    // Assert
+    expect(localStorage.getItem('lm.prefs.anonymous.treeSort.world-1')).toBe('{"mode":"alphabetical"}');
+    expect(readUserPreference('treeSort', 'world-1', null)).toEqual({ mode: 'alphabetical' });
+    expect(readUserPreference('treeSort', 'world-2', null)).toBeNull();
+  });
+
+  it('should fall back to the default for unreadable values', () => {
+    // Arrange
+    localStorage.setItem('lm.prefs.anonymous.treeSort.world-1', '{not json');
+
+    // Act & Assert
+    expect(readUserPreference('treeSort', 'world-1', 'default')).toBe('default');
+  });
+
+  it('should remove a preference', () => {
+    // Arrange
+    writeUserPreference('treeSort', 'world-1', { mode: 'type' });
+
+    // Act
+    removeUserPreference('treeSort', 'world-1');
+
+    // Assert
+    expect(localStorage.getItem('lm.prefs.anonymous.treeSort.world-1')).toBeNull();
+  });
+});
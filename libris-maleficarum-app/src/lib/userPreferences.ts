@@ -0,0 +1,81 @@
+/**
+ * localStorage-backed preferences scoped to the signed-in user and a world
+ *
+ * Preferences survive reloads and are kept apart per account, so several people
+ * sharing a browser each keep their own tree layout. In anonymous single-user
+ * mode all preferences belong to one anonymous user.
+ *
+ * @module lib/userPreferences
+ */
+
+import { isAuthConfigured, msalInstance } from '@/auth/authConfig';
+
+const ANONYMOUS_USER = 'anonymous';
+
+/**
+ * Identify the current user for scoping preferences
+ *
+ * @returns The signed-in account's home account ID, or "anonymous"
+ */
+export function getCurrentUserKey(): string {
+  if (!isAuthConfigured) {
+    return ANONYMOUS_USER;
+  }
+
+  try {
+    const account = msalInstance.getActiveAccount() ?? msalInstance.getAllAccounts()[0];
+    return account?.homeAccountId ?? ANONYMOUS_USER;
+  } catch {
+    return ANONYMOUS_USER;
+  }
+}
+
+function preferenceKey(name: string, worldId: string): string {
+  return `lm.prefs.${getCurrentUserKey()}.${name}.${worldId}`;
+}
+
+/**
+ * Read a preference of the current user for a world
+ *
+ * @param name - Preference name (e.g. 'treeSort')
+ * @param worldId - World the preference applies to
+ * @param defaultValue - Value to return if nothing (readable) is stored
+ * @returns Stored value or defaultValue
+ */
+export function readUserPreference<T>(name: string, worldId: string, defaultValue: T): T {
+  try {
+    const raw = localStorage.getItem(preferenceKey(name, worldId));
+    return raw ? (JSON.parse(raw) as T) : defaultValue;
+  } catch {
+    return defaultValue;
+  }
+}
+
+/**
+ * Store a preference of the current user for a world
+ *
+ * @param name - Preference name
+ * @param worldId - World the preference applies to
+ * @param value - Value to store (JSON-serializable)
+ */
+export function writeUserPreference<T>(name: string, worldId: string, value: T): void {
+  try {
+    localStorage.setItem(preferenceKey(name, worldId), JSON.stringify(value));
+  } catch {
+    // Ignore quota / privacy restrictions; the preference then lasts for this session only
+  }
+}
+
+/**
+ * Forget a preference of the current user for a world
+ *
+ * @param name - Preference name
+ * @param worldId - World the preference applies to
+ */
+export function removeUserPreference(name: string, worldId: string): void {
+  try {
+    localStorage.removeItem(preferenceKey(name, worldId));
+  } catch {
+    // Ignore privacy restrictions; nothing could have been stored
+  }
+}
@@ -16,6 +16,7 @@ import {
   validateDecimal,
   type NumericValidationResult,
 } from './numericValidation';
+import { isEntityReferenceValue } from '@/lib/entityReferences';
 
 /**
  * Result object returned by property field validation
@@ -251,6 +252,27 @@ export function validateField(
       return { valid: true, coercedValue: value };
     }
 
+    case 'entityReference': {
+      // Legacy plain-text values are kept until a reference is chosen
+      if (!isEntityReferenceValue(value) && typeof value !== 'string') {
+        return { valid: false, error: 'Must be a reference to an entry' };
+      }
+
+      return { valid: true, coercedValue: value };
+    }
+
+    case 'entityReferenceArray': {
+      if (!Array.isArray(value)) {
+        return { valid: false, error: 'Must be an array' };
+      }
+
+      if (!value.every((item) => isEntityReferenceValue(item) || typeof item === 'string')) {
+        return { valid: false, error: 'All items must be references to entries' };
+      }
+
+      return { valid: true, coercedValue: value };
+    }
+
     case 'date': {
       // Validate and coerce date values
       // Accept Date objects, ISO strings, or timestamp numbers
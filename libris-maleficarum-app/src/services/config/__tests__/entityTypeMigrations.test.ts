@@ -0,0 +1,30 @@
+/**
+ * Unit tests for the entity type migrations
+ *
+ * @module __tests__/entityTypeMigrations
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getEntityTypeConfig } from '../entityTypeRegistry';
+import { ENTITY_TYPE_MIGRATIONS, getPropertyMigrations } from '../entityTypeMigrations';
+import { WorldEntityType } from '@/services/types/worldEntity.types';
+
+describe('entityTypeMigrations', () => {
+  it('leads each type one version at a time up to its schema version', () => {
+    for (const [entityType, migrations] of Object.entries(ENTITY_TYPE_MIGRATIONS)) {
+      const config = getEntityTypeConfig(entityType as WorldEntityType);
+      expect(config).toBeDefined();
+
+      migrations.forEach((migration, index) => {
+        if (index > 0) expect(migration.toVersion).toBe(migrations[index - 1].toVersion + 1);
+        expect(migration.toVersion).toBeLessThanOrEqual(config!.schemaVersion);
+      });
+    }
+  });
+
+  it('returns the migrations an older entry needs', () => {
+    expect(getPropertyMigrations(WorldEntityType.Country, 1).map((migration) => migration.toVersion)).toEqual([2]);
+    expect(getPropertyMigrations(WorldEntityType.Country, 2)).toEqual([]);
+    expect(getPropertyMigrations(WorldEntityType.Location, 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Unit tests for the game system registry
+ *
+ * @module __tests__/gameSystemRegistry
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getEntityTypeConfig } from '../entityTypeRegistry';
+import {
+  getAllGameSystems,
+  getGameSystemConfig,
+  getGameSystemForSchemaId,
+  getSystemPropertySchema,
+  getSystemSchemaId,
+} from '../gameSystemRegistry';
+import type { WorldEntityType } from '@/services/types/worldEntity.types';
+
+describe('gameSystemRegistry', () => {
+  it('describes only registered entity types', () => {
+    for (const system of getAllGameSystems()) {
+      for (const entityType of Object.keys(system.systemPropertySchemas)) {
+        expect(getEntityTypeConfig(entityType as WorldEntityType)).toBeDefined();
+      }
+    }
+  });
+
+  it('looks up game systems by ID', () => {
+    expect(getGameSystemConfig('dnd5e')?.abbreviation).toBe('D&D 5e');
+    expect(getGameSystemConfig('unknown')).toBeUndefined();
+    expect(getGameSystemConfig(null)).toBeUndefined();
+  });
+
+  it('returns the systemProperties schema of an entity type', () => {
+    const keys = getSystemPropertySchema('dnd5e', 'Character')?.map((field) => field.key);
+
+    expect(keys).toEqual(expect.arrayContaining(['armorClass', 'hitPoints', 'strength', 'challengeRating']));
+    expect(getSystemPropertySchema('dnd5e', 'Continent')).toBeUndefined();
+    expect(getSystemPropertySchema(null, 'Character')).toBeUndefined();
+  });
+
+  it('builds schema IDs and finds their game system', () => {
+    expect(getSystemSchemaId('dnd5e', 'PlayerCharacter')).toBe('dnd5e-player-character');
+    expect(getGameSystemForSchemaId('pathfinder2e-character')?.id).toBe('pathfinder2e');
+    expect(getGameSystemForSchemaId('geographic-region')).toBeUndefined();
+    expect(getGameSystemForSchemaId(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,14 @@
+/**
+ * This file is auto-generated by scripts/generate-registry.mjs.
+ * Do not edit this file directly.
+ */
+
+export const ENTITY_TYPE_MIGRATIONS = {
+  "Country": [
+    {
+      "toVersion": 2,
+      "description": "Capital City, Major Cities, Allied Nations and Rival Nations link to entries; names written before are kept as unlinked text",
+      "operations": []
+    }
+  ]
+} as const;
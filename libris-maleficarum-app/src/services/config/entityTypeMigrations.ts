@@ -0,0 +1,70 @@
+/**
+ * Entity Type Migrations
+ *
+ * Declarative steps that bring the `properties` of an entry written for an
+ * older `schemaVersion` of its type up to the current one. Migrations are
+ * declared per entity type in `registries/entity-types.json` (each one leads
+ * from the previous version to `toVersion`) and generated into
+ * `entityTypeMigrations.generated.ts`.
+ *
+ * @module services/config/entityTypeMigrations
+ */
+
+import type { WorldEntityType } from '../types/worldEntity.types';
+import { ENTITY_TYPE_MIGRATIONS as GENERATED_ENTITY_TYPE_MIGRATIONS } from './entityTypeMigrations.generated';
+
+/**
+ * A single step of a migration
+ *
+ * - `rename`: move the value of `from` to `to`
+ * - `split`: split the text of `from` at `separator` into the `to` keys (the last receives the remainder)
+ * - `merge`: join the `from` values as text with `separator` into `to`
+ * - `textToTagArray`: turn the text of `key` into tags, split at `separator` (a comma by default)
+ * - `default`: give `key` a `value` where it has none
+ */
+export type PropertyMigrationOperation =
+  | { readonly op: 'rename'; readonly from: string; readonly to: string }
+  | { readonly op: 'split'; readonly from: string; readonly to: readonly string[]; readonly separator: string }
+  | { readonly op: 'merge'; readonly from: readonly string[]; readonly to: string; readonly separator: string }
+  | { readonly op: 'textToTagArray'; readonly key: string; readonly separator?: string }
+  | { readonly op: 'default'; readonly key: string; readonly value: string | number | boolean | readonly string[] };
+
+/**
+ * Migration of an entity type's properties from the previous schema version
+ */
+export interface PropertyMigration {
+  /** Schema version the migration leads to */
+  readonly toVersion: number;
+
+  /** What changes, for the upgrade preview */
+  readonly description: string;
+
+  /** Steps, applied in order */
+  readonly operations: readonly PropertyMigrationOperation[];
+}
+
+/**
+ * Migrations of every entity type that has any, in version order
+ */
+export const ENTITY_TYPE_MIGRATIONS: Readonly<Record<string, readonly PropertyMigration[]>> =
+  GENERATED_ENTITY_TYPE_MIGRATIONS satisfies Readonly<Record<string, readonly PropertyMigration[]>>;
+
+/**
+ * Get the migrations an entry of an older schema version needs
+ *
+ * @param entityType - Entity type
+ * @param fromVersion - Schema version the entry was written for
+ * @returns Migrations to apply in order (empty when the entry is up to date)
+ *
+ * @example
+ * ```typescript
+ * getPropertyMigrations(WorldEntityType.Country, 1);
+ * // [{ toVersion: 2, description: '...', operations: [] }]
+ * ```
+ */
+export function getPropertyMigrations(
+  entityType: WorldEntityType,
+  fromVersion: number,
+): readonly PropertyMigration[] {
+  return (ENTITY_TYPE_MIGRATIONS[entityType] ?? []).filter((migration) => migration.toVersion > fromVersion);
+}
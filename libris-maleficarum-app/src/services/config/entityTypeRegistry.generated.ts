@@ -68,7 +68,7 @@ export const ENTITY_TYPE_REGISTRY = [
     "description": "A nation or political territory",
     "category": "Geography",
     "icon": "Map",
-    "schemaVersion": 1,
+    "schemaVersion": 2,
     "suggestedChildren": [
       "Region",
       "City",
@@ -87,9 +87,11 @@ export const ENTITY_TYPE_REGISTRY = [
       {
         "key": "capital",
         "label": "Capital City",
-        "type": "text",
-        "placeholder": "Name of the capital city",
-        "maxLength": 100
+        "type": "entityReference",
+        "placeholder": "Choose the capital city...",
+        "allowedTypes": [
+          "City"
+        ]
       },
       {
         "key": "population",
@@ -116,26 +118,32 @@ export const ENTITY_TYPE_REGISTRY = [
       {
         "key": "majorCities",
         "label": "Major Cities",
-        "type": "tagArray",
+        "type": "entityReferenceArray",
         "placeholder": "Add a city...",
         "description": "Important cities and settlements",
-        "maxLength": 50
+        "allowedTypes": [
+          "City"
+        ]
       },
       {
         "key": "allies",
         "label": "Allied Nations",
-        "type": "tagArray",
+        "type": "entityReferenceArray",
         "placeholder": "Add an ally...",
         "description": "Nations with formal alliances",
-        "maxLength": 50
+        "allowedTypes": [
+          "Country"
+        ]
       },
       {
         "key": "rivals",
         "label": "Rival Nations",
-        "type": "tagArray",
+        "type": "entityReferenceArray",
         "placeholder": "Add a rival...",
         "description": "Nations with conflicts or tensions",
-        "maxLength": 50
+        "allowedTypes": [
+          "Country"
+        ]
       }
     ]
   },
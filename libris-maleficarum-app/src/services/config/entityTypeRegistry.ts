@@ -39,7 +39,17 @@ export interface PropertyFieldSchema {
   label: string;
 
   /** Field type determines input control and validation */
-  type: 'text' | 'textarea' | 'integer' | 'decimal' | 'tagArray' | 'date' | 'datetime' | 'time';
+  type:
+    | 'text'
+    | 'textarea'
+    | 'integer'
+    | 'decimal'
+    | 'tagArray'
+    | 'date'
+    | 'datetime'
+    | 'time'
+    | 'entityReference'
+    | 'entityReferenceArray';
 
   /** Optional placeholder text for input fields */
   placeholder?: string;
@@ -52,8 +62,23 @@ export interface PropertyFieldSchema {
 
   /** Optional validation rules */
   validation?: PropertyFieldValidation;
+
+  /** Entity types that may be chosen (for entityReference fields; any type when omitted) */
+  allowedTypes?: readonly string[];
 }
 
+/**
+ * Category used to group entity types in selectors and filters
+ */
+export type EntityTypeCategory =
+  | 'Geography'
+  | 'Characters & Factions'
+  | 'Events & Quests'
+  | 'Items'
+  | 'Campaigns'
+  | 'Containers'
+  | 'Other';
+
 /**
  * Configuration for a world entity type
  */
@@ -68,14 +93,7 @@ export interface EntityTypeConfig {
   readonly description: string;
 
   /** Category for grouping in selectors */
-  readonly category:
-    | 'Geography'
-    | 'Characters & Factions'
-    | 'Events & Quests'
-    | 'Items'
-    | 'Campaigns'
-    | 'Containers'
-    | 'Other';
+  readonly category: EntityTypeCategory;
 
   /** Lucide icon component name */
   readonly icon: string;
@@ -157,3 +175,18 @@ export function getRootEntityTypes(): WorldEntityType[] {
 export function getAllEntityTypes(): readonly EntityTypeConfig[] {
   return ENTITY_TYPE_REGISTRY;
 }
+
+/**
+ * Get the entity type categories in registry order
+ *
+ * @returns Distinct categories of the registered entity types
+ *
+ * @example
+ * ```typescript
+ * const categories = getEntityTypeCategories();
+ * // Returns: ["Geography", "Characters & Factions", ...]
+ * ```
+ */
+export function getEntityTypeCategories(): EntityTypeCategory[] {
+  return Array.from(new Set(ENTITY_TYPE_REGISTRY.map((c) => c.category as EntityTypeCategory)));
+}
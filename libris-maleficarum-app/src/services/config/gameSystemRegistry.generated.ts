@@ -0,0 +1,706 @@
+/**
+ * This file is auto-generated by scripts/generate-registry.mjs.
+ * Do not edit this file directly.
+ */
+
+export const GAME_SYSTEM_REGISTRY = [
+  {
+    "id": "dnd5e",
+    "name": "Dungeons & Dragons 5th Edition",
+    "abbreviation": "D&D 5e",
+    "description": "Stat blocks for characters and creatures under the fifth edition rules",
+    "icon": "Dices",
+    "systemPropertySchemas": {
+      "Character": [
+        {
+          "key": "armorClass",
+          "label": "Armor Class",
+          "type": "integer",
+          "placeholder": "e.g., 15",
+          "validation": {
+            "min": 0,
+            "max": 30
+          }
+        },
+        {
+          "key": "hitPoints",
+          "label": "Hit Points",
+          "type": "integer",
+          "placeholder": "e.g., 45",
+          "description": "Maximum hit points",
+          "validation": {
+            "min": 0
+          }
+        },
+        {
+          "key": "hitDice",
+          "label": "Hit Dice",
+          "type": "text",
+          "placeholder": "e.g., 6d8 + 18",
+          "maxLength": 50
+        },
+        {
+          "key": "speed",
+          "label": "Speed",
+          "type": "text",
+          "placeholder": "e.g., 30 ft., fly 60 ft.",
+          "maxLength": 100
+        },
+        {
+          "key": "strength",
+          "label": "Strength",
+          "type": "integer",
+          "placeholder": "e.g., 10",
+          "validation": {
+            "min": 1,
+            "max": 30
+          }
+        },
+        {
+          "key": "dexterity",
+          "label": "Dexterity",
+          "type": "integer",
+          "placeholder": "e.g., 10",
+          "validation": {
+            "min": 1,
+            "max": 30
+          }
+        },
+        {
+          "key": "constitution",
+          "label": "Constitution",
+          "type": "integer",
+          "placeholder": "e.g., 10",
+          "validation": {
+            "min": 1,
+            "max": 30
+          }
+        },
+        {
+          "key": "intelligence",
+          "label": "Intelligence",
+          "type": "integer",
+          "placeholder": "e.g., 10",
+          "validation": {
+            "min": 1,
+            "max": 30
+          }
+        },
+        {
+          "key": "wisdom",
+          "label": "Wisdom",
+          "type": "integer",
+          "placeholder": "e.g., 10",
+          "validation": {
+            "min": 1,
+            "max": 30
+          }
+        },
+        {
+          "key": "charisma",
+          "label": "Charisma",
+          "type": "integer",
+          "placeholder": "e.g., 10",
+          "validation": {
+            "min": 1,
+            "max": 30
+          }
+        },
+        {
+          "key": "savingThrows",
+          "label": "Saving Throws",
+          "type": "tagArray",
+          "placeholder": "Add a saving throw...",
+          "description": "Saving throw bonuses, e.g., Dex +5",
+          "maxLength": 50
+        },
+        {
+          "key": "skills",
+          "label": "Skills",
+          "type": "tagArray",
+          "placeholder": "Add a skill...",
+          "description": "Skill bonuses, e.g., Perception +4",
+          "maxLength": 50
+        },
+        {
+          "key": "damageResistances",
+          "label": "Damage Resistances",
+          "type": "tagArray",
+          "placeholder": "Add a damage type...",
+          "maxLength": 50
+        },
+        {
+          "key": "damageImmunities",
+          "label": "Damage Immunities",
+          "type": "tagArray",
+          "placeholder": "Add a damage type...",
+          "maxLength": 50
+        },
+        {
+          "key": "conditionImmunities",
+          "label": "Condition Immunities",
+          "type": "tagArray",
+          "placeholder": "Add a condition...",
+          "maxLength": 50
+        },
+        {
+          "key": "senses",
+          "label": "Senses",
+          "type": "text",
+          "placeholder": "e.g., darkvision 60 ft., passive Perception 14",
+          "maxLength": 200
+        },
+        {
+          "key": "challengeRating",
+          "label": "Challenge Rating",
+          "type": "text",
+          "placeholder": "e.g., 1/4, 5, 17",
+          "maxLength": 5,
+          "validation": {
+            "pattern": "^(0|1/8|1/4|1/2|[1-9]|[12][0-9]|30)$"
+          }
+        },
+        {
+          "key": "traits",
+          "label": "Traits",
+          "type": "textarea",
+          "placeholder": "Special traits, e.g., Pack Tactics, Magic Resistance...",
+          "maxLength": 2000
+        },
+        {
+          "key": "actions",
+          "label": "Actions",
+          "type": "textarea",
+          "placeholder": "Attacks and actions, e.g., Multiattack. The creature makes two claw attacks...",
+          "maxLength": 2000
+        },
+        {
+          "key": "legendaryActions",
+          "label": "Legendary Actions",
+          "type": "textarea",
+          "placeholder": "Legendary and lair actions, if any...",
+          "maxLength": 1000
+        }
+      ],
+      "PlayerCharacter": [
+        {
+          "key": "armorClass",
+          "label": "Armor Class",
+          "type": "integer",
+          "placeholder": "e.g., 15",
+          "validation": {
+            "min": 0,
+            "max": 30
+          }
+        },
+        {
+          "key": "hitPoints",
+          "label": "Hit Points",
+          "type": "integer",
+          "placeholder": "e.g., 45",
+          "description": "Maximum hit points",
+          "validation": {
+            "min": 0
+          }
+        },
+        {
+          "key": "hitDice",
+          "label": "Hit Dice",
+          "type": "text",
+          "placeholder": "e.g., 6d8 + 18",
+          "maxLength": 50
+        },
+        {
+          "key": "speed",
+          "label": "Speed",
+          "type": "text",
+          "placeholder": "e.g., 30 ft., fly 60 ft.",
+          "maxLength": 100
+        },
+        {
+          "key": "strength",
+          "label": "Strength",
+          "type": "integer",
+          "placeholder": "e.g., 10",
+          "validation": {
+            "min": 1,
+            "max": 30
+          }
+        },
+        {
+          "key": "dexterity",
+          "label": "Dexterity",
+          "type": "integer",
+          "placeholder": "e.g., 10",
+          "validation": {
+            "min": 1,
+            "max": 30
+          }
+        },
+        {
+          "key": "constitution",
+          "label": "Constitution",
+          "type": "integer",
+          "placeholder": "e.g., 10",
+          "validation": {
+            "min": 1,
+            "max": 30
+          }
+        },
+        {
+          "key": "intelligence",
+          "label": "Intelligence",
+          "type": "integer",
+          "placeholder": "e.g., 10",
+          "validation": {
+            "min": 1,
+            "max": 30
+          }
+        },
+        {
+          "key": "wisdom",
+          "label": "Wisdom",
+          "type": "integer",
+          "placeholder": "e.g., 10",
+          "validation": {
+            "min": 1,
+            "max": 30
+          }
+        },
+        {
+          "key": "charisma",
+          "label": "Charisma",
+          "type": "integer",
+          "placeholder": "e.g., 10",
+          "validation": {
+            "min": 1,
+            "max": 30
+          }
+        },
+        {
+          "key": "proficiencyBonus",
+          "label": "Proficiency Bonus",
+          "type": "integer",
+          "placeholder": "e.g., 3",
+          "validation": {
+            "min": 2,
+            "max": 6
+          }
+        },
+        {
+          "key": "savingThrowProficiencies",
+          "label": "Saving Throw Proficiencies",
+          "type": "tagArray",
+          "placeholder": "Add an ability...",
+          "description": "e.g., Wisdom, Charisma",
+          "maxLength": 50
+        },
+        {
+          "key": "skillProficiencies",
+          "label": "Skill Proficiencies",
+          "type": "tagArray",
+          "placeholder": "Add a skill...",
+          "description": "e.g., Insight, Persuasion",
+          "maxLength": 50
+        },
+        {
+          "key": "passivePerception",
+          "label": "Passive Perception",
+          "type": "integer",
+          "placeholder": "e.g., 13",
+          "validation": {
+            "min": 0
+          }
+        },
+        {
+          "key": "spellSaveDc",
+          "label": "Spell Save DC",
+          "type": "integer",
+          "placeholder": "e.g., 14",
+          "validation": {
+            "min": 0
+          }
+        },
+        {
+          "key": "spellAttackBonus",
+          "label": "Spell Attack Bonus",
+          "type": "integer",
+          "placeholder": "e.g., 6"
+        },
+        {
+          "key": "features",
+          "label": "Features & Traits",
+          "type": "textarea",
+          "placeholder": "Class features, feats, and racial traits...",
+          "maxLength": 2000
+        }
+      ]
+    }
+  },
+  {
+    "id": "pathfinder2e",
+    "name": "Pathfinder 2nd Edition",
+    "abbreviation": "PF2e",
+    "description": "Stat blocks for characters and creatures under the Pathfinder second edition rules",
+    "icon": "Swords",
+    "systemPropertySchemas": {
+      "Character": [
+        {
+          "key": "level",
+          "label": "Creature Level",
+          "type": "integer",
+          "placeholder": "e.g., 4",
+          "validation": {
+            "min": -1,
+            "max": 25
+          }
+        },
+        {
+          "key": "perception",
+          "label": "Perception",
+          "type": "integer",
+          "placeholder": "e.g., 12",
+          "description": "Perception modifier"
+        },
+        {
+          "key": "armorClass",
+          "label": "Armor Class",
+          "type": "integer",
+          "placeholder": "e.g., 21",
+          "validation": {
+            "min": 0,
+            "max": 60
+          }
+        },
+        {
+          "key": "hitPoints",
+          "label": "Hit Points",
+          "type": "integer",
+          "placeholder": "e.g., 75",
+          "description": "Maximum hit points",
+          "validation": {
+            "min": 0
+          }
+        },
+        {
+          "key": "fortitude",
+          "label": "Fortitude",
+          "type": "integer",
+          "placeholder": "e.g., 11",
+          "description": "Fortitude save modifier"
+        },
+        {
+          "key": "reflex",
+          "label": "Reflex",
+          "type": "integer",
+          "placeholder": "e.g., 9",
+          "description": "Reflex save modifier"
+        },
+        {
+          "key": "will",
+          "label": "Will",
+          "type": "integer",
+          "placeholder": "e.g., 8",
+          "description": "Will save modifier"
+        },
+        {
+          "key": "speed",
+          "label": "Speed",
+          "type": "text",
+          "placeholder": "e.g., 25 feet, climb 15 feet",
+          "maxLength": 100
+        },
+        {
+          "key": "strength",
+          "label": "Strength",
+          "type": "integer",
+          "placeholder": "e.g., +3",
+          "description": "Attribute modifier",
+          "validation": {
+            "min": -5,
+            "max": 10
+          }
+        },
+        {
+          "key": "dexterity",
+          "label": "Dexterity",
+          "type": "integer",
+          "placeholder": "e.g., +3",
+          "description": "Attribute modifier",
+          "validation": {
+            "min": -5,
+            "max": 10
+          }
+        },
+        {
+          "key": "constitution",
+          "label": "Constitution",
+          "type": "integer",
+          "placeholder": "e.g., +3",
+          "description": "Attribute modifier",
+          "validation": {
+            "min": -5,
+            "max": 10
+          }
+        },
+        {
+          "key": "intelligence",
+          "label": "Intelligence",
+          "type": "integer",
+          "placeholder": "e.g., +3",
+          "description": "Attribute modifier",
+          "validation": {
+            "min": -5,
+            "max": 10
+          }
+        },
+        {
+          "key": "wisdom",
+          "label": "Wisdom",
+          "type": "integer",
+          "placeholder": "e.g., +3",
+          "description": "Attribute modifier",
+          "validation": {
+            "min": -5,
+            "max": 10
+          }
+        },
+        {
+          "key": "charisma",
+          "label": "Charisma",
+          "type": "integer",
+          "placeholder": "e.g., +3",
+          "description": "Attribute modifier",
+          "validation": {
+            "min": -5,
+            "max": 10
+          }
+        },
+        {
+          "key": "traits",
+          "label": "Traits",
+          "type": "tagArray",
+          "placeholder": "Add a trait...",
+          "description": "e.g., Uncommon, Medium, Undead",
+          "maxLength": 50
+        },
+        {
+          "key": "skills",
+          "label": "Skills",
+          "type": "tagArray",
+          "placeholder": "Add a skill...",
+          "description": "Skill modifiers, e.g., Stealth +10",
+          "maxLength": 50
+        },
+        {
+          "key": "immunities",
+          "label": "Immunities",
+          "type": "tagArray",
+          "placeholder": "Add an immunity...",
+          "maxLength": 50
+        },
+        {
+          "key": "resistances",
+          "label": "Resistances",
+          "type": "tagArray",
+          "placeholder": "Add a resistance...",
+          "description": "e.g., fire 5",
+          "maxLength": 50
+        },
+        {
+          "key": "weaknesses",
+          "label": "Weaknesses",
+          "type": "tagArray",
+          "placeholder": "Add a weakness...",
+          "description": "e.g., cold iron 5",
+          "maxLength": 50
+        },
+        {
+          "key": "actions",
+          "label": "Actions",
+          "type": "textarea",
+          "placeholder": "Strikes, activities, and reactions...",
+          "maxLength": 2000
+        }
+      ],
+      "PlayerCharacter": [
+        {
+          "key": "ancestry",
+          "label": "Ancestry",
+          "type": "text",
+          "placeholder": "e.g., Dwarf, Elf, Goblin...",
+          "maxLength": 100
+        },
+        {
+          "key": "heritage",
+          "label": "Heritage",
+          "type": "text",
+          "placeholder": "e.g., Rock Dwarf, Unbreakable Goblin...",
+          "maxLength": 100
+        },
+        {
+          "key": "keyAttribute",
+          "label": "Key Attribute",
+          "type": "text",
+          "placeholder": "e.g., Strength, Intelligence...",
+          "maxLength": 20
+        },
+        {
+          "key": "perception",
+          "label": "Perception",
+          "type": "integer",
+          "placeholder": "e.g., 12",
+          "description": "Perception modifier"
+        },
+        {
+          "key": "armorClass",
+          "label": "Armor Class",
+          "type": "integer",
+          "placeholder": "e.g., 21",
+          "validation": {
+            "min": 0,
+            "max": 60
+          }
+        },
+        {
+          "key": "hitPoints",
+          "label": "Hit Points",
+          "type": "integer",
+          "placeholder": "e.g., 75",
+          "description": "Maximum hit points",
+          "validation": {
+            "min": 0
+          }
+        },
+        {
+          "key": "fortitude",
+          "label": "Fortitude",
+          "type": "integer",
+          "placeholder": "e.g., 11",
+          "description": "Fortitude save modifier"
+        },
+        {
+          "key": "reflex",
+          "label": "Reflex",
+          "type": "integer",
+          "placeholder": "e.g., 9",
+          "description": "Reflex save modifier"
+        },
+        {
+          "key": "will",
+          "label": "Will",
+          "type": "integer",
+          "placeholder": "e.g., 8",
+          "description": "Will save modifier"
+        },
+        {
+          "key": "speed",
+          "label": "Speed",
+          "type": "text",
+          "placeholder": "e.g., 25 feet, climb 15 feet",
+          "maxLength": 100
+        },
+        {
+          "key": "strength",
+          "label": "Strength",
+          "type": "integer",
+          "placeholder": "e.g., +3",
+          "description": "Attribute modifier",
+          "validation": {
+            "min": -5,
+            "max": 10
+          }
+        },
+        {
+          "key": "dexterity",
+          "label": "Dexterity",
+          "type": "integer",
+          "placeholder": "e.g., +3",
+          "description": "Attribute modifier",
+          "validation": {
+            "min": -5,
+            "max": 10
+          }
+        },
+        {
+          "key": "constitution",
+          "label": "Constitution",
+          "type": "integer",
+          "placeholder": "e.g., +3",
+          "description": "Attribute modifier",
+          "validation": {
+            "min": -5,
+            "max": 10
+          }
+        },
+        {
+          "key": "intelligence",
+          "label": "Intelligence",
+          "type": "integer",
+          "placeholder": "e.g., +3",
+          "description": "Attribute modifier",
+          "validation": {
+            "min": -5,
+            "max": 10
+          }
+        },
+        {
+          "key": "wisdom",
+          "label": "Wisdom",
+          "type": "integer",
+          "placeholder": "e.g., +3",
+          "description": "Attribute modifier",
+          "validation": {
+            "min": -5,
+            "max": 10
+          }
+        },
+        {
+          "key": "charisma",
+          "label": "Charisma",
+          "type": "integer",
+          "placeholder": "e.g., +3",
+          "description": "Attribute modifier",
+          "validation": {
+            "min": -5,
+            "max": 10
+          }
+        },
+        {
+          "key": "classDc",
+          "label": "Class DC",
+          "type": "integer",
+          "placeholder": "e.g., 18",
+          "validation": {
+            "min": 0
+          }
+        },
+        {
+          "key": "heroPoints",
+          "label": "Hero Points",
+          "type": "integer",
+          "placeholder": "e.g., 1",
+          "validation": {
+            "min": 0,
+            "max": 3
+          }
+        },
+        {
+          "key": "skillProficiencies",
+          "label": "Skill Proficiencies",
+          "type": "tagArray",
+          "placeholder": "Add a skill...",
+          "description": "e.g., Athletics (Expert)",
+          "maxLength": 50
+        },
+        {
+          "key": "feats",
+          "label": "Feats",
+          "type": "textarea",
+          "placeholder": "Ancestry, class, general, and skill feats...",
+          "maxLength": 2000
+        }
+      ]
+    }
+  }
+] as const;
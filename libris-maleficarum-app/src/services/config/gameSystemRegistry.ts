@@ -0,0 +1,105 @@
+/**
+ * Game System Registry
+ *
+ * Single source of truth for the supported game systems (rulesets) and the
+ * `systemProperties` fields each of them defines per entity type. A world's
+ * entries keep their `properties` whatever system is played; only
+ * `systemProperties` follow the system.
+ *
+ * @module services/config/gameSystemRegistry
+ */
+
+import type { PropertyFieldSchema } from './entityTypeRegistry';
+import { GAME_SYSTEM_REGISTRY as GENERATED_GAME_SYSTEM_REGISTRY } from './gameSystemRegistry.generated';
+
+/**
+ * Configuration for a game system
+ */
+export interface GameSystemConfig {
+  /** Unique identifier (kebab-case, e.g. "dnd5e") */
+  readonly id: string;
+
+  /** Human-readable name */
+  readonly name: string;
+
+  /** Short name for section titles and badges (e.g. "D&D 5e") */
+  readonly abbreviation: string;
+
+  /** Descriptive text for UI hints */
+  readonly description: string;
+
+  /** Optional Lucide icon component name */
+  readonly icon?: string;
+
+  /** `systemProperties` schema per entity type (PascalCase WorldEntityType values) */
+  readonly systemPropertySchemas: Readonly<Record<string, readonly PropertyFieldSchema[]>>;
+}
+
+/**
+ * Complete registry of all game system configurations
+ */
+export const GAME_SYSTEM_REGISTRY: readonly GameSystemConfig[] =
+  GENERATED_GAME_SYSTEM_REGISTRY satisfies readonly GameSystemConfig[];
+
+/**
+ * Get the complete game system registry
+ *
+ * @returns Readonly array of all game system configurations
+ */
+export function getAllGameSystems(): readonly GameSystemConfig[] {
+  return GAME_SYSTEM_REGISTRY;
+}
+
+/**
+ * Get full configuration for a game system
+ *
+ * @param id - Game system ID
+ * @returns The game system configuration, or undefined if not found
+ */
+export function getGameSystemConfig(id: string | null | undefined): GameSystemConfig | undefined {
+  return id ? GAME_SYSTEM_REGISTRY.find((system) => system.id === id) : undefined;
+}
+
+/**
+ * Get the `systemProperties` schema of an entity type in a game system
+ *
+ * @param systemId - Game system ID
+ * @param entityType - Entity type
+ * @returns The fields, or undefined if the system does not describe the entity type
+ *
+ * @example
+ * ```typescript
+ * const fields = getSystemPropertySchema('dnd5e', WorldEntityType.Character);
+ * // fields?.[0].key === 'armorClass'
+ * ```
+ */
+export function getSystemPropertySchema(
+  systemId: string | null | undefined,
+  entityType: string,
+): readonly PropertyFieldSchema[] | undefined {
+  const schema = getGameSystemConfig(systemId)?.systemPropertySchemas[entityType];
+  return schema && schema.length > 0 ? schema : undefined;
+}
+
+/**
+ * Build the `schemaId` stored on entities whose `systemProperties` follow a game system
+ *
+ * @param systemId - Game system ID
+ * @param entityType - Entity type
+ * @returns Schema ID in the form `{systemId}-{entity-type}` (e.g. "dnd5e-player-character")
+ */
+export function getSystemSchemaId(systemId: string, entityType: string): string {
+  const kebabType = entityType.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+  return `${systemId}-${kebabType}`;
+}
+
+/**
+ * Find the game system an entity's `schemaId` refers to
+ *
+ * @param schemaId - Entity schema ID (e.g. "dnd5e-character")
+ * @returns The game system configuration, or undefined if the schema ID names none
+ */
+export function getGameSystemForSchemaId(schemaId: string | null | undefined): GameSystemConfig | undefined {
+  if (!schemaId) return undefined;
+  return GAME_SYSTEM_REGISTRY.find((system) => schemaId.startsWith(`${system.id}-`));
+}
@@ -127,6 +127,85 @@ export interface DeleteOperationMetadata {
   lastInteractionTimestamp: number;
 }
 
+/**
+ * Client-side grouping of delete operations started together (e.g. a bulk
+ * delete from the tree), shown as a single notification
+ */
+export interface DeleteOperationGroup {
+  /**
+   * Client-generated group identifier
+   */
+  id: string;
+
+  /**
+   * Display label for the group (e.g. "3 entries")
+   */
+  label: string;
+
+  /**
+   * Operation IDs belonging to this group
+   */
+  operationIds: string[];
+
+  /**
+   * Unix timestamp (ms) when the group was created
+   */
+  createdAt: number;
+}
+
+/**
+ * Status of a client-side duplicate operation
+ */
+export type DuplicateOperationStatus = 'in_progress' | 'completed' | 'failed';
+
+/**
+ * Client-side progress of duplicating an entity subtree (not from backend)
+ *
+ * Copies are created one entity at a time by the client, so large subtrees
+ * report their progress in the notification center alongside delete operations.
+ */
+export interface DuplicateOperation {
+  /**
+   * Client-generated operation identifier
+   */
+  id: string;
+
+  /**
+   * World identifier this operation belongs to
+   */
+  worldId: string;
+
+  /**
+   * Name of the entity being duplicated (for display purposes)
+   */
+  rootEntityName: string;
+
+  /**
+   * Current status of the operation
+   */
+  status: DuplicateOperationStatus;
+
+  /**
+   * Total number of entities to copy (including root and all descendants)
+   */
+  totalEntities: number;
+
+  /**
+   * Number of copies created so far
+   */
+  createdCount: number;
+
+  /**
+   * Error details if the operation failed
+   */
+  errorDetails: string | null;
+
+  /**
+   * Unix timestamp (ms) when the operation was started
+   */
+  createdAt: number;
+}
+
 /**
  * Combined state for Redux store
  */
@@ -142,6 +221,18 @@ export interface DeleteOperationsState {
    */
   metadata: Record<string, DeleteOperationMetadata>;
 
+  /**
+   * Groups of operations shown as a single notification
+   * Key: Group ID
+   */
+  groups: Record<string, DeleteOperationGroup>;
+
+  /**
+   * Client-side duplicate operations shown alongside delete operations
+   * Key: Operation ID
+   */
+  duplicates: Record<string, DuplicateOperation>;
+
   /**
    * Unix timestamp (ms) of last cleanup run
    */
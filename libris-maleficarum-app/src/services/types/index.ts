@@ -17,6 +17,7 @@ export type {
 export {
   isProblemDetails,
   isValidationProblemDetails,
+  getProblemDetailsMessage,
 } from './problemDetails.types';
 
 // Access control types
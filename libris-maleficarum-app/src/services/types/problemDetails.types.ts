@@ -92,3 +92,35 @@ export function isProblemDetails(value: unknown): value is ProblemDetails {
     typeof (value as ProblemDetails).status === 'number'
   );
 }
+
+/**
+ * Extract a human-readable message from an RTK Query error carrying ProblemDetails
+ *
+ * Prefers the first validation message, then `detail`, then `title`.
+ *
+ * @param error - Error thrown by a mutation's `unwrap()`
+ * @param fallback - Message used when no ProblemDetails payload is available
+ * @returns Message suitable for display to the user
+ */
+export function getProblemDetailsMessage(error: unknown, fallback: string): string {
+  if (!error || typeof error !== 'object' || !('data' in error)) {
+    return fallback;
+  }
+
+  const data = (error as { data?: unknown }).data;
+  if (!isProblemDetails(data)) {
+    return fallback;
+  }
+
+  if (isValidationProblemDetails(data)) {
+    const message = Object.values(data.errors)
+      .flat()
+      .find((item) => item.trim().length > 0);
+
+    if (message) {
+      return message;
+    }
+  }
+
+  return data.detail || data.title || fallback;
+}
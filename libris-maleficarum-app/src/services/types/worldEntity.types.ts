@@ -79,6 +79,9 @@ export interface WorldEntity {
   /** Optimization flag: skip children query if false */
   hasChildren: boolean;
 
+  /** Manual position among siblings (lower first); unset until the entity is manually ordered */
+  sortKey?: number | null;
+
   /** Owner user identifier */
   ownerId: string;
 
@@ -140,6 +143,9 @@ export interface CreateWorldEntityRequest {
  * API request to update an existing WorldEntity
  */
 export interface UpdateWorldEntityRequest {
+  /** Parent entity ID (null for root entities); the update replaces the parent with this */
+  parentId?: string | null;
+
   /** Updated name (1-100 characters) */
   name?: string;
 
@@ -152,7 +158,10 @@ export interface UpdateWorldEntityRequest {
   /** Updated entity type */
   entityType?: WorldEntityType;
 
-  /** Optional schema identifier for property template selection */
+  /** Manual position among siblings (the current position is kept when omitted) */
+  sortKey?: number;
+
+  /** Schema identifier for property template selection (cleared when omitted) */
   schemaId?: string;
 
   /** Optional common properties for entity-specific data */
@@ -165,6 +174,35 @@ export interface UpdateWorldEntityRequest {
   schemaVersion?: number;
 }
 
+/**
+ * API request to change some fields of an existing WorldEntity
+ *
+ * Unlike an update, fields left out keep their current values; the parent and
+ * schema identifier are never touched unless sent.
+ */
+export interface PatchWorldEntityRequest {
+  /** Updated name (1-100 characters) */
+  name?: string;
+
+  /** Updated description (max 500 characters) */
+  description?: string;
+
+  /** Updated tags (replaces all existing tags) */
+  tags?: string[];
+
+  /** Updated entity type */
+  entityType?: WorldEntityType;
+
+  /** Manual position among siblings */
+  sortKey?: number;
+
+  /** Common properties (merged key by key; a key sent as null is cleared) */
+  properties?: Record<string, unknown>;
+
+  /** Schema version for document compatibility */
+  schemaVersion?: number;
+}
+
 /**
  * API request to move an entity to a new parent
  */
@@ -197,6 +235,17 @@ export interface WorldEntityResponse {
   data: WorldEntity;
 }
 
+/**
+ * A tag in use within a world and how many entities carry it
+ */
+export interface TagUsage {
+  /** Tag text as stored on entities */
+  tag: string;
+
+  /** Number of entities in the world carrying this tag */
+  count: number;
+}
+
 /**
  * Query parameters for fetching WorldEntity list
  */
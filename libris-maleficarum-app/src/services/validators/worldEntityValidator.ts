@@ -6,7 +6,7 @@
  *
  * Validation Rules:
  * - Name: Required, 1-100 characters (after trim)
- * - Entity Type: Required in create mode, read-only in edit mode
+ * - Entity Type: Required in create mode (an edited entry always has one)
  * - Description: Optional, 0-500 characters
  * - Custom Properties: Must be JSON-serializable, type-specific schemas (future)
  *
@@ -89,14 +89,14 @@ export function validateName(name: string): string | null {
  * Validate entity type field
  *
  * @param entityType - The entity type to validate
- * @param isEditMode - Whether form is in edit mode (type is read-only)
+ * @param isEditMode - Whether form is in edit mode (the entry already has a type)
  * @returns Error message if invalid, null if valid
  */
 export function validateEntityType(
   entityType: WorldEntityType | '' | undefined,
   isEditMode: boolean = false
 ): string | null {
-  // In edit mode, type is read-only so skip validation
+  // In edit mode, the entry already has a type so skip validation
   if (isEditMode) {
     return null;
   }
@@ -15,11 +15,42 @@ import type {
   WorldEntityResponse,
   CreateWorldEntityRequest,
   UpdateWorldEntityRequest,
+  PatchWorldEntityRequest,
   MoveWorldEntityRequest,
   GetWorldEntitiesQueryParams,
   WorldEntityType,
 } from './types/worldEntity.types';
 import { ENTITY_SCHEMA_VERSIONS } from './types/worldEntity.types';
+import { recordEntityRevision } from '@/lib/entityRevisions';
+
+/**
+ * Number of children requested per page in the entity hierarchy
+ */
+const CHILDREN_PAGE_SIZE = 100;
+
+/**
+ * Number of entities requested per page of the flat world index (backend maximum)
+ */
+const INDEX_PAGE_SIZE = 200;
+
+/**
+ * Patched fields the world index is used for: names, types and tags in pickers
+ * and tag counts, descriptions and properties in the relationship graph
+ */
+const INDEX_FIELDS: readonly (keyof PatchWorldEntityRequest)[] = [
+  'name',
+  'entityType',
+  'tags',
+  'description',
+  'properties',
+];
+
+/**
+ * Tag of the world index, invalidated only by changes the index shows
+ */
+function indexTag(worldId: string) {
+  return { type: 'WorldEntity' as const, id: `INDEX_${worldId}` };
+}
 
 /**
  * WorldEntity API endpoints injected into base API slice
@@ -55,15 +86,23 @@ export const worldEntityApi = api.injectEndpoints({
     }),
 
     /**
-     * GET /api/v1/worlds/{worldId}/entities (filtered by parent)
+     * GET /api/v1/worlds/{worldId}/entities (filtered by parent, cursor-paginated)
+     *
+     * Each page is requested with the previous page's `meta.nextCursor`. All loaded
+     * pages share one cache entry, and invalidation refetches them from the first page.
      */
-    getEntitiesByParent: builder.query<
-      WorldEntity[],
-      { worldId: string; parentId: string | null }
+    getEntitiesByParent: builder.infiniteQuery<
+      WorldEntityListResponse,
+      { worldId: string; parentId: string | null },
+      string | null
     >({
-      query: ({ worldId, parentId }) => {
+      infiniteQueryOptions: {
+        initialPageParam: null,
+        getNextPageParam: (lastPage) => lastPage.meta?.nextCursor ?? null,
+      },
+      query: ({ queryArg: { worldId, parentId }, pageParam }) => {
         const params: Record<string, string | number> = {
-          limit: 100,
+          limit: CHILDREN_PAGE_SIZE,
         };
 
         if (parentId === null) {
@@ -72,28 +111,33 @@ export const worldEntityApi = api.injectEndpoints({
           params.parentId = parentId;
         }
 
+        if (pageParam) {
+          params.cursor = pageParam;
+        }
+
         return {
           url: `/api/v1/worlds/${worldId}/entities`,
           method: 'GET',
           params,
         };
       },
-      transformResponse: (response: WorldEntityListResponse) => response.data,
       providesTags: (result, _error, { worldId, parentId }) => {
         const parentTag = {
           type: 'WorldEntity' as const,
           id: `PARENT_${worldId}_${parentId ?? 'ROOT'}`,
         };
+        const entities = result?.pages.flatMap((page) => page.data);
 
         logger.debug('API', 'Entities fetched by parent', {
           worldId,
           parentId,
-          count: result?.length ?? 0,
+          count: entities?.length ?? 0,
+          pages: result?.pages.length ?? 0,
         });
 
-        return result
+        return entities
           ? [
-              ...result.map(({ id }) => ({
+              ...entities.map(({ id }) => ({
                 type: 'WorldEntity' as const,
                 id,
               })),
@@ -103,6 +147,61 @@ export const worldEntityApi = api.injectEndpoints({
       },
     }),
 
+    /**
+     * GET /api/v1/worlds/{worldId}/entities?parentId=all (every entity, cursor-paginated)
+     *
+     * Flat index of the whole world for client-side filtering. Callers that need
+     * the complete index keep requesting pages until there is no next cursor.
+     */
+    getWorldEntityIndex: builder.infiniteQuery<WorldEntityListResponse, string, string | null>({
+      infiniteQueryOptions: {
+        initialPageParam: null,
+        getNextPageParam: (lastPage) => lastPage.meta?.nextCursor ?? null,
+      },
+      query: ({ queryArg: worldId, pageParam }) => ({
+        url: `/api/v1/worlds/${worldId}/entities`,
+        method: 'GET',
+        params: {
+          parentId: 'all',
+          limit: INDEX_PAGE_SIZE,
+          ...(pageParam ? { cursor: pageParam } : {}),
+        },
+      }),
+      providesTags: (_result, _error, worldId) => [indexTag(worldId)],
+    }),
+
+    /**
+     * GET /api/v1/worlds/{worldId}/entities?parentId=all&includeDeleted=true (soft-deleted only)
+     *
+     * Contents of the world's trash. The list endpoint has no "deleted only" filter,
+     * so each page keeps just the soft-deleted entities; callers keep requesting
+     * pages until there is no next cursor.
+     */
+    getDeletedWorldEntities: builder.infiniteQuery<WorldEntityListResponse, string, string | null>({
+      infiniteQueryOptions: {
+        initialPageParam: null,
+        getNextPageParam: (lastPage) => lastPage.meta?.nextCursor ?? null,
+      },
+      query: ({ queryArg: worldId, pageParam }) => ({
+        url: `/api/v1/worlds/${worldId}/entities`,
+        method: 'GET',
+        params: {
+          parentId: 'all',
+          includeDeleted: true,
+          limit: INDEX_PAGE_SIZE,
+          ...(pageParam ? { cursor: pageParam } : {}),
+        },
+      }),
+      transformResponse: (response: WorldEntityListResponse) => ({
+        ...response,
+        data: response.data.filter((entity) => entity.isDeleted),
+      }),
+      providesTags: (_result, _error, worldId) => [
+        { type: 'WorldEntity', id: `TRASH_${worldId}` },
+        { type: 'WorldEntity', id: `LIST_${worldId}` },
+      ],
+    }),
+
     /**
      * GET /api/v1/worlds/{worldId}/entities/{entityId}
      */
@@ -137,6 +236,14 @@ export const worldEntityApi = api.injectEndpoints({
         },
       }),
       transformResponse: (response: WorldEntityResponse) => response.data,
+      async onQueryStarted(_arg, { queryFulfilled }) {
+        try {
+          const { data: created } = await queryFulfilled;
+          void recordEntityRevision(created);
+        } catch {
+          // Failed saves leave no revision
+        }
+      },
       invalidatesTags: (_result, _error, { worldId, data }) => {
         const parentTag = {
           type: 'WorldEntity' as const,
@@ -151,6 +258,7 @@ export const worldEntityApi = api.injectEndpoints({
 
         const tags: { type: 'WorldEntity'; id: string }[] = [
           { type: 'WorldEntity', id: `LIST_${worldId}` },
+          indexTag(worldId),
           parentTag,
         ];
 
@@ -185,9 +293,66 @@ export const worldEntityApi = api.injectEndpoints({
         },
       }),
       transformResponse: (response: WorldEntityResponse) => response.data,
+      async onQueryStarted({ worldId, entityId }, { getState, queryFulfilled }) {
+        // The entry before the save, in case it has no revisions yet
+        const previous = worldEntityApi.endpoints.getWorldEntityById.select({ worldId, entityId })(getState()).data;
+        try {
+          const { data: updated } = await queryFulfilled;
+          void recordEntityRevision(updated, previous);
+        } catch {
+          // Failed saves leave no revision
+        }
+      },
       invalidatesTags: (result, _error, { worldId, entityId }) => [
         { type: 'WorldEntity', id: entityId },
         { type: 'WorldEntity', id: `LIST_${worldId}` },
+        // A full update can change the name, type, tags or parent
+        indexTag(worldId),
+        ...(result?.parentId
+          ? [
+              {
+                type: 'WorldEntity' as const,
+                id: `PARENT_${worldId}_${result.parentId}`,
+              },
+            ]
+          : []),
+      ],
+    }),
+
+    /**
+     * PATCH /api/v1/worlds/{worldId}/entities/{entityId}
+     *
+     * Changes only the fields sent. Unlike PUT, which replaces the parent and
+     * schema identifier with what is sent, everything else is kept.
+     */
+    patchWorldEntity: builder.mutation<
+      WorldEntity,
+      { worldId: string; entityId: string; data: PatchWorldEntityRequest }
+    >({
+      query: ({ worldId, entityId, data }) => ({
+        url: `/api/v1/worlds/${worldId}/entities/${entityId}`,
+        method: 'PATCH',
+        data,
+      }),
+      transformResponse: (response: WorldEntityResponse) => response.data,
+      async onQueryStarted({ worldId, entityId, data }, { getState, queryFulfilled }) {
+        // Reorders change nothing shown in an entry's history
+        if (Object.keys(data).every((key) => key === 'sortKey')) return;
+
+        // The entry before the save, in case it has no revisions yet
+        const previous = worldEntityApi.endpoints.getWorldEntityById.select({ worldId, entityId })(getState()).data;
+        try {
+          const { data: updated } = await queryFulfilled;
+          void recordEntityRevision(updated, previous);
+        } catch {
+          // Failed saves leave no revision
+        }
+      },
+      invalidatesTags: (result, _error, { worldId, entityId, data }) => [
+        { type: 'WorldEntity', id: entityId },
+        { type: 'WorldEntity', id: `LIST_${worldId}` },
+        // Reorders (sort keys) and schema versions are not shown by the index
+        ...(INDEX_FIELDS.some((field) => data[field] !== undefined) ? [indexTag(worldId)] : []),
         ...(result?.parentId
           ? [
               {
@@ -213,6 +378,57 @@ export const worldEntityApi = api.injectEndpoints({
       invalidatesTags: (_result, _error, { worldId, entityId }) => [
         { type: 'WorldEntity', id: entityId },
         { type: 'WorldEntity', id: `LIST_${worldId}` },
+        indexTag(worldId),
+      ],
+    }),
+
+    /**
+     * POST /api/v1/worlds/{worldId}/entities/{entityId}/restore
+     *
+     * Restores a soft-deleted entity. With `cascade`, its soft-deleted descendants
+     * are restored as well. Returns 409 Conflict while the parent is still deleted.
+     */
+    restoreWorldEntity: builder.mutation<
+      WorldEntity,
+      { worldId: string; entityId: string; cascade?: boolean }
+    >({
+      query: ({ worldId, entityId, cascade = false }) => ({
+        url: `/api/v1/worlds/${worldId}/entities/${entityId}/restore`,
+        method: 'POST',
+        params: { cascade },
+      }),
+      transformResponse: (response: WorldEntityResponse) => response.data,
+      invalidatesTags: (result, _error, { worldId, entityId }) => [
+        { type: 'WorldEntity', id: entityId },
+        { type: 'WorldEntity', id: `LIST_${worldId}` },
+        indexTag(worldId),
+        { type: 'WorldEntity', id: `TRASH_${worldId}` },
+        {
+          type: 'WorldEntity',
+          id: `PARENT_${worldId}_${result?.parentId ?? 'ROOT'}`,
+        },
+        ...(result?.parentId
+          ? [{ type: 'WorldEntity' as const, id: result.parentId }]
+          : []),
+      ],
+    }),
+
+    /**
+     * DELETE /api/v1/worlds/{worldId}/entities/{entityId}/permanent
+     *
+     * Permanently removes a soft-deleted entity and its soft-deleted descendants.
+     * Returns 409 Conflict for entities that have not been deleted first.
+     */
+    purgeWorldEntity: builder.mutation<
+      void,
+      { worldId: string; entityId: string }
+    >({
+      query: ({ worldId, entityId }) => ({
+        url: `/api/v1/worlds/${worldId}/entities/${entityId}/permanent`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: (_result, _error, { worldId }) => [
+        { type: 'WorldEntity', id: `TRASH_${worldId}` },
       ],
     }),
 
@@ -233,6 +449,7 @@ export const worldEntityApi = api.injectEndpoints({
         const tags: { type: 'WorldEntity'; id: string }[] = [
           { type: 'WorldEntity', id: entityId },
           { type: 'WorldEntity', id: `LIST_${worldId}` },
+          indexTag(worldId),
           {
             type: 'WorldEntity',
             id: `PARENT_${worldId}_${data.newParentId ?? 'ROOT'}`,
@@ -262,10 +479,15 @@ export const worldEntityApi = api.injectEndpoints({
  */
 export const {
   useGetWorldEntitiesQuery,
-  useGetEntitiesByParentQuery,
+  useGetEntitiesByParentInfiniteQuery,
+  useGetWorldEntityIndexInfiniteQuery,
+  useGetDeletedWorldEntitiesInfiniteQuery,
   useGetWorldEntityByIdQuery,
   useCreateWorldEntityMutation,
   useUpdateWorldEntityMutation,
+  usePatchWorldEntityMutation,
   useDeleteWorldEntityMutation,
   useMoveWorldEntityMutation,
+  useRestoreWorldEntityMutation,
+  usePurgeWorldEntityMutation,
 } = worldEntityApi;
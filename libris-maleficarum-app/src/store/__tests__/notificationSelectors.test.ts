@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { selectUnreadCount, selectVisibleOperations } from '../notificationSelectors';
+import { selectNotificationEntries, selectUnreadCount, selectVisibleOperations } from '../notificationSelectors';
 import type { RootState } from '../store';
 import type { DeleteOperationDto } from '@/services/types/asyncOperations';
 
@@ -79,7 +79,12 @@ describe('notification selectors', () => {
         deletingEntityId: null,
         showDeleteConfirmation: false,
         movingEntityId: null,
+        duplicatingEntityId: null,
+        templateDialog: null,
         creatingEntityParentId: null,
+        draggedEntity: null,
+        multiSelectedEntityIds: [],
+        selectionAnchorId: null,
       },
       notifications: {
         sidebarOpen: false,
@@ -88,6 +93,8 @@ describe('notification selectors', () => {
           'op-2': { operationId: 'op-2', isRead: true, isDismissed: false, lastInteractionTimestamp: Date.now() },
           'op-3': { operationId: 'op-3', isRead: false, isDismissed: true, lastInteractionTimestamp: Date.now() },
         },
+        groups: {},
+        duplicates: {},
         lastCleanupTimestamp: Date.now(),
         pollingEnabled: true,
       },
@@ -269,4 +276,75 @@ describe('notification selectors', () => {
       expect(visible).toHaveLength(3);
     });
   });
+
+  describe('operation groups', () => {
+    const withGroup = (state: RootState, isDismissed = false): RootState => ({
+      ...state,
+      notifications: {
+        ...state.notifications,
+        metadata: {
+          'op-1': { operationId: 'op-1', isRead: false, isDismissed: false, lastInteractionTimestamp: Date.now() },
+          'op-2': { operationId: 'op-2', isRead: false, isDismissed: false, lastInteractionTimestamp: Date.now() },
+          'op-3': { operationId: 'op-3', isRead: false, isDismissed, lastInteractionTimestamp: Date.now() },
+        },
+        groups: {
+          'bulk-1': { id: 'bulk-1', label: 'Bulk deletion of 2 entries', operationIds: ['op-1', 'op-2'], createdAt: Date.now() },
+        },
+      },
+    }) as RootState;
+
+    it('should count an unread group once', () => {
+      // op-1 and op-2 are grouped, op-3 stands alone
+      expect(selectUnreadCount(withGroup(mockState))).toBe(2);
+    });
+
+    it('should collapse grouped operations into one entry positioned by its most recent operation', () => {
+      const entries = selectNotificationEntries(withGroup(mockState));
+
+      expect(entries.map((entry) => entry.kind === 'group' ? entry.group.id : entry.operation.id)).toEqual([
+        'op-3',
+        'bulk-1',
+      ]);
+      expect(entries[1].kind === 'group' && entries[1].operations.map((op) => op.id)).toEqual(['op-1', 'op-2']);
+    });
+  });
+
+  describe('duplicate operations', () => {
+    const createDuplicate = (id: string, worldId: string, createdAt: string) => ({
+      id,
+      worldId,
+      rootEntityName: 'The Yawning Portal',
+      status: 'in_progress' as const,
+      totalEntities: 12,
+      createdCount: 4,
+      errorDetails: null,
+      createdAt: new Date(createdAt).getTime(),
+    });
+
+    const withDuplicates = (state: RootState): RootState => ({
+      ...state,
+      notifications: {
+        ...state.notifications,
+        duplicates: {
+          'dup-1': createDuplicate('dup-1', 'test-world-id', '2026-02-03T07:30:00Z'),
+          'dup-2': createDuplicate('dup-2', 'other-world-id', '2026-02-03T07:45:00Z'),
+        },
+      },
+    }) as RootState;
+
+    it('should merge duplicate operations of the selected world into the entries by start time', () => {
+      const entries = selectNotificationEntries(withDuplicates(mockState));
+
+      expect(entries.map((entry) => `${entry.kind}:${entry.kind === 'group' ? entry.group.id : entry.operation.id}`)).toEqual([
+        'operation:op-1',
+        'duplicate:dup-1',
+        'operation:op-2',
+      ]);
+    });
+
+    it('should count unread duplicate operations', () => {
+      // op-1 and dup-1 are unread
+      expect(selectUnreadCount(withDuplicates(mockState))).toBe(2);
+    });
+  });
 });
@@ -5,6 +5,9 @@ import notificationsReducer, {
   markAsRead,
   dismissNotification,
   clearAllCompleted,
+  addOperationGroup,
+  startDuplicateOperation,
+  updateDuplicateOperation,
   performCleanup,
   setPollingEnabled,
 } from '../notificationsSlice';
@@ -17,6 +20,8 @@ describe('notificationsSlice', () => {
     initialState = {
       sidebarOpen: false,
       metadata: {},
+      groups: {},
+      duplicates: {},
       lastCleanupTimestamp: Date.now(),
       pollingEnabled: true,
     };
@@ -146,6 +151,68 @@ describe('notificationsSlice', () => {
     });
   });
 
+  describe('addOperationGroup', () => {
+    it('should store the group by id', () => {
+      const group = { id: 'bulk-1', label: 'Bulk deletion of 2 entries', operationIds: ['op-1', 'op-2'], createdAt: Date.now() };
+
+      const state = notificationsReducer(initialState, addOperationGroup(group));
+
+      expect(state.groups['bulk-1']).toEqual(group);
+    });
+
+    it('should remove groups older than the cleanup cutoff', () => {
+      const now = Date.now();
+      const stateWithGroups: DeleteOperationsState = {
+        ...initialState,
+        groups: {
+          old: { id: 'old', label: 'Old', operationIds: ['op-old'], createdAt: now - 25 * 60 * 60 * 1000 },
+          recent: { id: 'recent', label: 'Recent', operationIds: ['op-recent'], createdAt: now },
+        },
+      };
+
+      const state = notificationsReducer(stateWithGroups, performCleanup(now - 24 * 60 * 60 * 1000));
+
+      expect(Object.keys(state.groups)).toEqual(['recent']);
+    });
+  });
+
+  describe('duplicate operations', () => {
+    const createDuplicate = (id: string, createdAt: number, status: 'in_progress' | 'completed' = 'in_progress') => ({
+      id,
+      worldId: 'world-1',
+      rootEntityName: 'The Yawning Portal',
+      status,
+      totalEntities: 12,
+      createdCount: 0,
+      errorDetails: null,
+      createdAt,
+    });
+
+    it('should track and update a duplicate operation', () => {
+      let state = notificationsReducer(initialState, startDuplicateOperation(createDuplicate('dup-1', Date.now())));
+      state = notificationsReducer(state, updateDuplicateOperation({ id: 'dup-1', createdCount: 12, status: 'completed' }));
+
+      expect(state.duplicates['dup-1']).toMatchObject({ createdCount: 12, status: 'completed' });
+    });
+
+    it('should remove only finished duplicate operations older than the cleanup cutoff', () => {
+      const now = Date.now();
+      const dayAgo = now - 25 * 60 * 60 * 1000;
+      const stateWithDuplicates: DeleteOperationsState = {
+        ...initialState,
+        duplicates: {
+          running: createDuplicate('running', dayAgo),
+          old: createDuplicate('old', dayAgo, 'completed'),
+          recent: createDuplicate('recent', now, 'completed'),
+        },
+      };
+
+      const state = notificationsReducer(stateWithDuplicates, performCleanup(now - 24 * 60 * 60 * 1000));
+
+      expect(Object.keys(state.duplicates)).toEqual(['running', 'recent']);
+    });
+  });
+
   describe('performCleanup', () => {
     it('should remove metadata older than cutoff timestamp', () => {
       const now = Date.now();
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import undoHistoryReducer, {
+  changeRecorded,
+  changeRedone,
+  changeUndone,
+  clearUndoHistory,
+  type UndoHistoryState,
+} from '../undoHistorySlice';
+import { resetToHome, setSelectedWorld } from '../worldSidebarSlice';
+import { MAX_UNDO_HISTORY, getEntityCreateChange, type UndoEntry } from '@/lib/undoHistory';
+
+const createEntry = (id: string, worldId = 'world-1'): UndoEntry => ({
+  id,
+  worldId,
+  label: `Create "${id}"`,
+  recordedAt: 0,
+  ...getEntityCreateChange(id),
+});
+
+const initialState: UndoHistoryState = { past: [], future: [], applyingEntryId: null };
+
+function recordAll(entries: UndoEntry[], state = initialState) {
+  return entries.reduce((current, entry) => undoHistoryReducer(current, changeRecorded(entry)), state);
+}
+
+describe('undoHistorySlice', () => {
+  it('records changes and forgets the oldest beyond the limit', () => {
+    const entries = Array.from({ length: MAX_UNDO_HISTORY + 2 }, (_, i) => createEntry(`entry-${i}`));
+    const state = recordAll(entries);
+
+    expect(state.past).toHaveLength(MAX_UNDO_HISTORY);
+    expect(state.past[0].id).toBe('entry-2');
+  });
+
+  it('moves undone changes to the future and back when redone', () => {
+    let state = recordAll([createEntry('a'), createEntry('b')]);
+
+    state = undoHistoryReducer(state, changeUndone('b'));
+    expect(state.past.map((entry) => entry.id)).toEqual(['a']);
+    expect(state.future.map((entry) => entry.id)).toEqual(['b']);
+
+    state = undoHistoryReducer(state, changeRedone('b'));
+    expect(state.past.map((entry) => entry.id)).toEqual(['a', 'b']);
+    expect(state.future).toEqual([]);
+  });
+
+  it('ignores an undo of a change that is not the most recent', () => {
+    const state = recordAll([createEntry('a'), createEntry('b')]);
+
+    expect(undoHistoryReducer(state, changeUndone('a'))).toEqual(state);
+  });
+
+  it('forgets undone changes when a new change is recorded', () => {
+    let state = recordAll([createEntry('a'), createEntry('b')]);
+    state = undoHistoryReducer(state, changeUndone('b'));
+    state = undoHistoryReducer(state, changeRecorded(createEntry('c')));
+
+    expect(state.past.map((entry) => entry.id)).toEqual(['a', 'c']);
+    expect(state.future).toEqual([]);
+  });
+
+  it('keeps only the changes of a newly selected world', () => {
+    let state = recordAll([createEntry('a', 'world-1'), createEntry('b', 'world-2')]);
+    state = undoHistoryReducer(state, setSelectedWorld('world-2'));
+
+    expect(state.past.map((entry) => entry.id)).toEqual(['b']);
+  });
+
+  it('forgets all changes when returning home or clearing', () => {
+    const state = recordAll([createEntry('a')]);
+
+    expect(undoHistoryReducer(state, resetToHome()).past).toEqual([]);
+    expect(undoHistoryReducer(state, clearUndoHistory()).past).toEqual([]);
+  });
+});
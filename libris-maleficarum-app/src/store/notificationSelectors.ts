@@ -3,17 +3,61 @@
  *
  * Derived selectors that compute notification center state by combining
  * client-side metadata (from notificationsSlice) with server-side operation
- * data (from deleteOperationsApi RTK Query cache).
+ * data (from deleteOperationsApi RTK Query cache). Client-side duplicate
+ * operations are listed alongside the delete operations.
  *
  * @module notificationSelectors
  */
 
 import { createSelector } from '@reduxjs/toolkit';
 import type { RootState } from './store';
-import { selectNotificationMetadata } from './notificationsSlice';
+import {
+  selectDuplicateOperations,
+  selectNotificationMetadata,
+  selectOperationGroups,
+} from './notificationsSlice';
 import { selectSelectedWorldId } from './worldSidebarSlice';
 import { deleteOperationsApi } from '@/services/asyncOperationsApi';
-import type { DeleteOperationDto } from '@/services/types/asyncOperations';
+import type {
+  DeleteOperationDto,
+  DeleteOperationGroup,
+  DuplicateOperation,
+} from '@/services/types/asyncOperations';
+
+/**
+ * Entry rendered in the notification center: a single operation, a group of
+ * operations started together, or a duplicate operation
+ */
+export type NotificationEntry =
+  | { kind: 'operation'; operation: DeleteOperationDto }
+  | { kind: 'group'; group: DeleteOperationGroup; operations: DeleteOperationDto[] }
+  | { kind: 'duplicate'; operation: DuplicateOperation };
+
+/**
+ * Unix timestamp (ms) used to order notification entries
+ */
+function getEntryTimestamp(entry: NotificationEntry): number {
+  switch (entry.kind) {
+    case 'duplicate':
+      return entry.operation.createdAt;
+    case 'group':
+      // Operations are sorted most recent first
+      return new Date(entry.operations[0].createdAt).getTime();
+    case 'operation':
+      return new Date(entry.operation.createdAt).getTime();
+  }
+}
+
+/**
+ * Map each grouped operation ID to its group ID
+ */
+function indexGroupsByOperation(groups: Record<string, DeleteOperationGroup>): Map<string, string> {
+  const index = new Map<string, string>();
+  Object.values(groups).forEach((group) => {
+    group.operationIds.forEach((operationId) => index.set(operationId, group.id));
+  });
+  return index;
+}
 
 /**
  * Stable empty array reference to avoid selector recomputation warnings
@@ -43,6 +87,18 @@ const selectDeleteOperationsData = (state: RootState): DeleteOperationDto[] => {
   return result.data;
 };
 
+/**
+ * Get duplicate operations of the selected world that have not been dismissed,
+ * most recent first
+ */
+export const selectVisibleDuplicateOperations = createSelector(
+  [selectNotificationMetadata, selectDuplicateOperations, selectSelectedWorldId],
+  (metadata, duplicates, worldId): DuplicateOperation[] =>
+    Object.values(duplicates)
+      .filter((op) => op.worldId === worldId && !metadata[op.id]?.isDismissed)
+      .sort((a, b) => b.createdAt - a.createdAt)
+);
+
 /**
  * Compute unread count for badge
  *
@@ -50,17 +106,31 @@ const selectDeleteOperationsData = (state: RootState): DeleteOperationDto[] => {
  * - NOT marked as read in metadata
  * - NOT dismissed
  * - Currently exist in RTK Query cache (from API)
+ *
+ * A group of operations counts once, however many of its operations are unread.
+ * Unread duplicate operations are counted as well.
  */
 export const selectUnreadCount = createSelector(
-  [selectNotificationMetadata, selectDeleteOperationsData],
-  (metadata, operations): number => {
-    if (!operations) return 0;
+  [selectNotificationMetadata, selectOperationGroups, selectDeleteOperationsData, selectVisibleDuplicateOperations],
+  (metadata, groups, operations, duplicates): number => {
+    const unreadDuplicates = duplicates.filter((op) => !metadata[op.id]?.isRead).length;
+    if (!operations) return unreadDuplicates;
+
+    const groupIndex = indexGroupsByOperation(groups);
+    const unreadGroupIds = new Set<string>();
 
     return operations.filter((op) => {
       const meta = metadata[op.id];
       // Count if: no metadata (new operation) OR (metadata exists AND not read AND not dismissed)
-      return !meta?.isRead && !meta?.isDismissed;
-    }).length;
+      if (meta?.isRead || meta?.isDismissed) return false;
+
+      const groupId = groupIndex.get(op.id);
+      if (!groupId) return true;
+      if (unreadGroupIds.has(groupId)) return false;
+
+      unreadGroupIds.add(groupId);
+      return true;
+    }).length + unreadDuplicates;
   }
 );
 
@@ -85,6 +155,46 @@ export const selectVisibleOperations = createSelector(
   }
 );
 
+/**
+ * Get notification center entries, collapsing grouped operations into one entry
+ *
+ * A group is positioned by its most recent visible operation and only lists
+ * operations that have not been dismissed. Duplicate operations are merged in
+ * by start time.
+ */
+export const selectNotificationEntries = createSelector(
+  [selectVisibleOperations, selectOperationGroups, selectVisibleDuplicateOperations],
+  (operations, groups, duplicates): NotificationEntry[] => {
+    const groupIndex = indexGroupsByOperation(groups);
+    const emittedGroupIds = new Set<string>();
+    const entries: NotificationEntry[] = [];
+
+    operations.forEach((operation) => {
+      const groupId = groupIndex.get(operation.id);
+      if (!groupId) {
+        entries.push({ kind: 'operation', operation });
+        return;
+      }
+
+      if (emittedGroupIds.has(groupId)) return;
+      emittedGroupIds.add(groupId);
+      entries.push({
+        kind: 'group',
+        group: groups[groupId],
+        operations: operations.filter((op) => groupIndex.get(op.id) === groupId),
+      });
+    });
+
+    if (duplicates.length === 0) return entries;
+
+    // Stable sort keeps the delete entries in their existing order
+    return [
+      ...entries,
+      ...duplicates.map((operation): NotificationEntry => ({ kind: 'duplicate', operation })),
+    ].sort((a, b) => getEntryTimestamp(b) - getEntryTimestamp(a));
+  }
+);
+
 /**
  * Get active (in-progress or pending) operations
  */
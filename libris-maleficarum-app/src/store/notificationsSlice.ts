@@ -3,7 +3,8 @@
  *
  * Manages client-side state for delete operation notifications in the notification center.
  * Tracks client-side metadata (read/dismissed status) separate from server-side
- * operation data (fetched via RTK Query).
+ * operation data (fetched via RTK Query), plus the progress of duplicate
+ * operations, which run entirely on the client.
  *
  * @module notificationsSlice
  */
@@ -11,7 +12,12 @@
 import { createSlice } from '@reduxjs/toolkit';
 import type { PayloadAction } from '@reduxjs/toolkit';
 import type { RootState } from './store';
-import type { DeleteOperationMetadata, DeleteOperationsState } from '@/services/types/asyncOperations';
+import type {
+  DeleteOperationGroup,
+  DeleteOperationMetadata,
+  DeleteOperationsState,
+  DuplicateOperation,
+} from '@/services/types/asyncOperations';
 
 /**
  * Initial state
@@ -19,6 +25,8 @@ import type { DeleteOperationMetadata, DeleteOperationsState } from '@/services/
 const initialState: DeleteOperationsState = {
   sidebarOpen: false,
   metadata: {},
+  groups: {},
+  duplicates: {},
   lastCleanupTimestamp: Date.now(),
   pollingEnabled: true,
 };
@@ -122,6 +130,33 @@ const notificationsSlice = createSlice({
       });
     },
 
+    /**
+     * Group operations so they are shown as a single notification
+     */
+    addOperationGroup: (state, action: PayloadAction<DeleteOperationGroup>) => {
+      state.groups[action.payload.id] = action.payload;
+    },
+
+    /**
+     * Start tracking a client-side duplicate operation
+     */
+    startDuplicateOperation: (state, action: PayloadAction<DuplicateOperation>) => {
+      state.duplicates[action.payload.id] = action.payload;
+    },
+
+    /**
+     * Update the progress or outcome of a duplicate operation
+     */
+    updateDuplicateOperation: (
+      state,
+      action: PayloadAction<Pick<DuplicateOperation, 'id'> & Partial<Omit<DuplicateOperation, 'id'>>>
+    ) => {
+      const operation = state.duplicates[action.payload.id];
+      if (operation) {
+        Object.assign(operation, action.payload);
+      }
+    },
+
     /**
      * Perform 24-hour cleanup (remove old metadata)
      */
@@ -137,6 +172,21 @@ const notificationsSlice = createSlice({
         }
       });
 
+      // Remove groups created before cutoff
+      Object.keys(state.groups).forEach((groupId) => {
+        if (state.groups[groupId].createdAt < cutoffTimestamp) {
+          delete state.groups[groupId];
+        }
+      });
+
+      // Remove finished duplicate operations started before cutoff
+      Object.keys(state.duplicates).forEach((operationId) => {
+        const operation = state.duplicates[operationId];
+        if (operation.status !== 'in_progress' && operation.createdAt < cutoffTimestamp) {
+          delete state.duplicates[operationId];
+        }
+      });
+
       state.lastCleanupTimestamp = now;
     },
 
@@ -157,6 +207,9 @@ export const {
   markAllAsRead,
   dismissNotification,
   clearAllCompleted,
+  addOperationGroup,
+  startDuplicateOperation,
+  updateDuplicateOperation,
   performCleanup,
   setPollingEnabled,
 } = notificationsSlice.actions;
@@ -172,6 +225,14 @@ export const selectNotificationMetadata = (
   state: RootState
 ): Record<string, DeleteOperationMetadata> => state.notifications.metadata;
 
+export const selectOperationGroups = (
+  state: RootState
+): Record<string, DeleteOperationGroup> => state.notifications.groups;
+
+export const selectDuplicateOperations = (
+  state: RootState
+): Record<string, DuplicateOperation> => state.notifications.duplicates;
+
 export const selectOperationMetadata =
   (operationId: string) =>
   (state: RootState): DeleteOperationMetadata | undefined =>
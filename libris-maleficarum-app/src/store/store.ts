@@ -5,6 +5,7 @@ import type { TypedUseSelectorHook } from 'react-redux';
 import { api } from '@/services/api';
 import worldSidebarReducer from './worldSidebarSlice';
 import notificationsReducer from './notificationsSlice';
+import undoHistoryReducer from './undoHistorySlice';
 
 // Side panel slice for managing expand/collapse state
 interface SidePanelState {
@@ -36,6 +37,7 @@ export const store = configureStore({
     sidePanel: sidePanelSlice.reducer,
     worldSidebar: worldSidebarReducer,
     notifications: notificationsReducer,
+    undoHistory: undoHistoryReducer,
     // Add RTK Query API reducer
     [api.reducerPath]: api.reducer,
   },
@@ -0,0 +1,118 @@
+/**
+ * Undo History Redux Slice
+ *
+ * Keeps the changes that can be undone (`past`, most recent last) and those
+ * that were undone and can be redone (`future`, most recently undone last).
+ * Recording a new change forgets the redoable ones. Changes belong to the
+ * world they were made in and are dropped when another world is selected.
+ *
+ * The operations are replayed by the `useUndoHistory` hook.
+ *
+ * @module undoHistorySlice
+ */
+
+import { createSlice } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import type { RootState } from './store';
+import { resetToHome, setSelectedWorld } from './worldSidebarSlice';
+import { MAX_UNDO_HISTORY, type UndoEntry } from '@/lib/undoHistory';
+
+export interface UndoHistoryState {
+  /** Changes that can be undone, oldest first */
+  past: UndoEntry[];
+
+  /** Undone changes that can be redone, the next to redo last */
+  future: UndoEntry[];
+
+  /** Change being undone or redone */
+  applyingEntryId: string | null;
+}
+
+const initialState: UndoHistoryState = {
+  past: [],
+  future: [],
+  applyingEntryId: null,
+};
+
+const undoHistorySlice = createSlice({
+  name: 'undoHistory',
+  initialState,
+  reducers: {
+    /**
+     * Record a change that was just made
+     */
+    changeRecorded: (state, action: PayloadAction<UndoEntry>) => {
+      state.past.push(action.payload);
+      if (state.past.length > MAX_UNDO_HISTORY) {
+        state.past.splice(0, state.past.length - MAX_UNDO_HISTORY);
+      }
+      state.future = [];
+    },
+
+    /**
+     * Mark the most recent change as undone
+     */
+    changeUndone: (state, action: PayloadAction<string>) => {
+      const entry = state.past[state.past.length - 1];
+      if (entry?.id !== action.payload) return;
+
+      state.past.pop();
+      state.future.push(entry);
+    },
+
+    /**
+     * Mark the most recently undone change as redone
+     */
+    changeRedone: (state, action: PayloadAction<string>) => {
+      const entry = state.future[state.future.length - 1];
+      if (entry?.id !== action.payload) return;
+
+      state.future.pop();
+      state.past.push(entry);
+    },
+
+    /**
+     * Set the change being undone or redone (null when done)
+     */
+    setApplyingEntry: (state, action: PayloadAction<string | null>) => {
+      state.applyingEntryId = action.payload;
+    },
+
+    /**
+     * Forget all changes
+     */
+    clearUndoHistory: (state) => {
+      state.past = [];
+      state.future = [];
+    },
+  },
+  extraReducers: (builder) => {
+    // Changes cannot be replayed in another world
+    builder
+      .addCase(setSelectedWorld, (state, action) => {
+        state.past = state.past.filter((entry) => entry.worldId === action.payload);
+        state.future = state.future.filter((entry) => entry.worldId === action.payload);
+      })
+      .addCase(resetToHome, (state) => {
+        state.past = [];
+        state.future = [];
+      });
+  },
+});
+
+export const {
+  changeRecorded,
+  changeUndone,
+  changeRedone,
+  setApplyingEntry,
+  clearUndoHistory,
+} = undoHistorySlice.actions;
+
+export default undoHistorySlice.reducer;
+
+export const selectUndoPast = (state: RootState): UndoEntry[] => state.undoHistory.past;
+
+export const selectUndoFuture = (state: RootState): UndoEntry[] => state.undoHistory.future;
+
+export const selectApplyingUndoEntryId = (state: RootState): string | null =>
+  state.undoHistory.applyingEntryId;
@@ -5,6 +5,7 @@
  * - Selected world ID
  * - Selected entity ID
  * - Expanded tree nodes
+ * - Multi-selection for bulk actions
  * - Modal/form visibility states
  *
  * @module store/worldSidebarSlice
@@ -12,11 +13,29 @@
 
 import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
 import type { RootState } from './store';
+import type { WorldEntityType } from '@/services/types/worldEntity.types';
 
 /**
  * Main panel display modes
  */
-export type MainPanelMode = 'empty' | 'viewing_entity' | 'editing_world' | 'creating_world' | 'creating_entity' | 'editing_entity' | 'moving_entity';
+export type MainPanelMode = 'empty' | 'viewing_entity' | 'editing_world' | 'creating_world' | 'creating_entity' | 'editing_entity' | 'moving_entity' | 'viewing_trash' | 'viewing_graph';
+
+/**
+ * Open template dialog: saving an entity as a template, or creating entries from one
+ */
+export type TemplateDialogState =
+  | { kind: 'save'; entityId: string }
+  | { kind: 'create'; parentId: string | null };
+
+/**
+ * Entity being dragged (or picked up via keyboard) for reparenting in the tree
+ */
+export interface DraggedEntity {
+  id: string;
+  name: string;
+  parentId: string | null;
+  entityType: WorldEntityType;
+}
 
 /**
  * World Sidebar state shape
@@ -61,8 +80,23 @@ export interface WorldSidebarState {
   /** Entity ID being moved (null when not moving) */
   movingEntityId: string | null;
 
+  /** Entity ID whose copy is being placed with the duplicate dialog (null when closed) */
+  duplicatingEntityId: string | null;
+
+  /** Template dialog being shown (null when closed) */
+  templateDialog: TemplateDialogState | null;
+
   /** Parent ID for entity creation (used when right-clicking context menu) */
   creatingEntityParentId: string | null;
+
+  /** Entity currently being dragged or keyboard-picked-up for reparenting (null when idle) */
+  draggedEntity: DraggedEntity | null;
+
+  /** Entity IDs in the tree multi-selection (empty when only a single entity is selected) */
+  multiSelectedEntityIds: string[];
+
+  /** Entity ID that Shift-click ranges extend from (null falls back to selectedEntityId) */
+  selectionAnchorId: string | null;
 }
 
 /**
@@ -82,7 +116,12 @@ const initialState: WorldSidebarState = {
   deletingEntityName: null,
   showDeleteConfirmation: false,
   movingEntityId: null,
+  duplicatingEntityId: null,
+  templateDialog: null,
   creatingEntityParentId: null,
+  draggedEntity: null,
+  multiSelectedEntityIds: [],
+  selectionAnchorId: null,
 };
 
 /**
@@ -104,6 +143,8 @@ export const worldSidebarSlice = createSlice({
       state.selectedEntityId = null;
       // Clear expanded nodes when world changes (new world, new hierarchy)
       state.expandedNodeIds = [];
+      state.multiSelectedEntityIds = [];
+      state.selectionAnchorId = null;
     },
 
     /**
@@ -114,6 +155,9 @@ export const worldSidebarSlice = createSlice({
      */
     setSelectedEntity: (state, action: PayloadAction<string | null>) => {
       state.selectedEntityId = action.payload;
+      // A plain selection replaces any multi-selection and becomes the range anchor
+      state.multiSelectedEntityIds = [];
+      state.selectionAnchorId = action.payload;
       if (action.payload) {
         state.mainPanelMode = 'viewing_entity';
       } else {
@@ -160,6 +204,20 @@ export const worldSidebarSlice = createSlice({
       }
     },
 
+    /**
+     * Expand multiple nodes without collapsing any already expanded
+     *
+     * @param state - Current state
+     * @param action - Payload with array of entity IDs to expand
+     */
+    expandNodes: (state, action: PayloadAction<string[]>) => {
+      action.payload.forEach((nodeId) => {
+        if (!state.expandedNodeIds.includes(nodeId)) {
+          state.expandedNodeIds.push(nodeId);
+        }
+      });
+    },
+
     /**
      * Collapse a single node (without toggling)
      *
@@ -308,6 +366,151 @@ export const worldSidebarSlice = createSlice({
       state.movingEntityId = null;
     },
 
+    /**
+     * Show the selected world's trash in the main panel
+     *
+     * @param state - Current state
+     */
+    openTrash: (state) => {
+      state.mainPanelMode = 'viewing_trash';
+    },
+
+    /**
+     * Leave the trash view
+     *
+     * @param state - Current state
+     */
+    closeTrash: (state) => {
+      state.mainPanelMode = 'empty';
+    },
+
+    /**
+     * Show the selected world's relationship graph in the main panel
+     *
+     * @param state - Current state
+     */
+    openRelationshipGraph: (state) => {
+      state.mainPanelMode = 'viewing_graph';
+    },
+
+    /**
+     * Leave the relationship graph, returning to the selected entity if there is one
+     *
+     * @param state - Current state
+     */
+    closeRelationshipGraph: (state) => {
+      state.mainPanelMode = state.selectedEntityId ? 'viewing_entity' : 'empty';
+    },
+
+    /**
+     * Open the duplicate dialog for placing a copy of an entity
+     *
+     * @param state - Current state
+     * @param action - Payload with entity ID to duplicate
+     */
+    openDuplicateEntity: (state, action: PayloadAction<string>) => {
+      state.duplicatingEntityId = action.payload;
+    },
+
+    /**
+     * Close the duplicate dialog
+     *
+     * @param state - Current state
+     */
+    closeDuplicateEntity: (state) => {
+      state.duplicatingEntityId = null;
+    },
+
+    /**
+     * Open the dialog for saving an entity as a template
+     *
+     * @param state - Current state
+     * @param action - Payload with entity ID to save
+     */
+    openSaveAsTemplate: (state, action: PayloadAction<string>) => {
+      state.templateDialog = { kind: 'save', entityId: action.payload };
+    },
+
+    /**
+     * Open the dialog for creating entries from a template
+     *
+     * @param state - Current state
+     * @param action - Payload with parent entity ID (null for root entities)
+     */
+    openCreateFromTemplate: (state, action: PayloadAction<string | null>) => {
+      state.templateDialog = { kind: 'create', parentId: action.payload };
+    },
+
+    /**
+     * Close the template dialog
+     *
+     * @param state - Current state
+     */
+    closeTemplateDialog: (state) => {
+      state.templateDialog = null;
+    },
+
+    /**
+     * Start dragging (or keyboard pick-up of) an entity for reparenting
+     *
+     * @param state - Current state
+     * @param action - Payload with the dragged entity summary
+     */
+    startEntityDrag: (state, action: PayloadAction<DraggedEntity>) => {
+      state.draggedEntity = action.payload;
+    },
+
+    /**
+     * End the current drag (dropped or cancelled)
+     *
+     * @param state - Current state
+     */
+    endEntityDrag: (state) => {
+      state.draggedEntity = null;
+    },
+
+    /**
+     * Add or remove an entity from the multi-selection (Ctrl/Cmd-click)
+     *
+     * The currently selected entity seeds the multi-selection so that
+     * Ctrl-clicking a second entity selects both.
+     *
+     * @param state - Current state
+     * @param action - Payload with entity ID to toggle
+     */
+    toggleEntityInSelection: (state, action: PayloadAction<string>) => {
+      const entityId = action.payload;
+      const current = state.multiSelectedEntityIds.length > 0
+        ? state.multiSelectedEntityIds
+        : state.selectedEntityId
+          ? [state.selectedEntityId]
+          : [];
+
+      state.multiSelectedEntityIds = current.includes(entityId)
+        ? current.filter((id) => id !== entityId)
+        : [...current, entityId];
+      state.selectionAnchorId = entityId;
+    },
+
+    /**
+     * Replace the multi-selection (Shift-click ranges, Ctrl+A within a level)
+     *
+     * @param state - Current state
+     * @param action - Payload with entity IDs to select
+     */
+    setMultiSelectedEntities: (state, action: PayloadAction<string[]>) => {
+      state.multiSelectedEntityIds = action.payload;
+    },
+
+    /**
+     * Clear the multi-selection (the single selected entity is kept)
+     *
+     * @param state - Current state
+     */
+    clearMultiSelection: (state) => {
+      state.multiSelectedEntityIds = [];
+    },
+
     /**
      * Reset to home/welcome state by clearing all selections and forms
      *
@@ -327,7 +530,12 @@ export const worldSidebarSlice = createSlice({
       state.deletingEntityName = null;
       state.showDeleteConfirmation = false;
       state.movingEntityId = null;
+      state.duplicatingEntityId = null;
+      state.templateDialog = null;
       state.creatingEntityParentId = null;
+      state.draggedEntity = null;
+      state.multiSelectedEntityIds = [];
+      state.selectionAnchorId = null;
     },
   },
 });
@@ -341,6 +549,7 @@ export const {
   toggleNodeExpanded,
   setExpandedNodes,
   expandNode,
+  expandNodes,
   collapseNode,
   collapseAllNodes,
   openWorldFormCreate,
@@ -354,6 +563,20 @@ export const {
   closeDeleteConfirmation,
   openMoveEntity,
   closeMoveEntity,
+  openTrash,
+  closeTrash,
+  openRelationshipGraph,
+  closeRelationshipGraph,
+  openDuplicateEntity,
+  closeDuplicateEntity,
+  openSaveAsTemplate,
+  openCreateFromTemplate,
+  closeTemplateDialog,
+  startEntityDrag,
+  endEntityDrag,
+  toggleEntityInSelection,
+  setMultiSelectedEntities,
+  clearMultiSelection,
   resetToHome,
 } = worldSidebarSlice.actions;
 
@@ -393,6 +616,27 @@ export const selectNewEntityParentId = (state: RootState): string | null =>
 export const selectHasUnsavedChanges = (state: RootState): boolean =>
   state.worldSidebar.hasUnsavedChanges;
 
+export const selectMovingEntityId = (state: RootState): string | null =>
+  state.worldSidebar.movingEntityId;
+
+export const selectDuplicatingEntityId = (state: RootState): string | null =>
+  state.worldSidebar.duplicatingEntityId;
+
+export const selectTemplateDialog = (state: RootState): TemplateDialogState | null =>
+  state.worldSidebar.templateDialog;
+
+export const selectDraggedEntity = (state: RootState): DraggedEntity | null =>
+  state.worldSidebar.draggedEntity;
+
+export const selectMultiSelectedEntityIds = (state: RootState): string[] =>
+  state.worldSidebar.multiSelectedEntityIds;
+
+export const selectIsEntityMultiSelected = (entityId: string) => (state: RootState): boolean =>
+  state.worldSidebar.multiSelectedEntityIds.includes(entityId);
+
+export const selectSelectionAnchorId = (state: RootState): string | null =>
+  state.worldSidebar.selectionAnchorId;
+
 /**
  * Reducer export for store configuration
  */
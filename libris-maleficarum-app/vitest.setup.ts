@@ -49,6 +49,21 @@ if (!globalThis.PointerEvent) {
   } as unknown as typeof PointerEvent;
 }
 
+// Mock ResizeObserver for Radix UI ScrollArea (not available in JSDOM)
+if (!globalThis.ResizeObserver) {
+  globalThis.ResizeObserver = class ResizeObserver {
+    observe() {
+      // No-op in test environment
+    }
+    unobserve() {
+      // No-op in test environment
+    }
+    disconnect() {
+      // No-op in test environment
+    }
+  };
+}
+
 // Mock window.matchMedia for responsive components
 Object.defineProperty(window, 'matchMedia', {
   writable: true,
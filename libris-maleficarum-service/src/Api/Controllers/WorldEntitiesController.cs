@@ -323,6 +323,7 @@ public class WorldEntitiesController : ControllerBase
             mergedProperties,
             mergedSystemProperties,
             finalSchemaVersion);
+        entity.SetSortKey(request.SortKey ?? entity.SortKey);
 
         // Get If-Match header for ETag validation
         var ifMatch = Request.Headers["If-Match"].FirstOrDefault();
@@ -388,6 +389,7 @@ public class WorldEntitiesController : ControllerBase
             mergedProperties,
             mergedSystemProperties,
             request.SchemaVersion ?? entity.SchemaVersion);
+        entity.SetSortKey(request.SortKey ?? entity.SortKey);
 
         // Get If-Match header for ETag validation
         var ifMatch = Request.Headers["If-Match"].FirstOrDefault();
@@ -565,6 +567,7 @@ public class WorldEntitiesController : ControllerBase
             Path = entity.Path,
             Depth = entity.Depth,
             HasChildren = entity.HasChildren,
+            SortKey = entity.SortKey,
             OwnerId = entity.OwnerId,
             CreatedBy = entity.CreatedBy,
             ModifiedBy = entity.ModifiedBy,
@@ -50,6 +50,12 @@ public class PatchWorldEntityRequest
     /// </summary>
     public Dictionary<string, object>? SystemProperties { get; set; }
 
+    /// <summary>
+    /// Gets or sets the manual position among siblings (lower sorts first).
+    /// If omitted, the current sort key is kept.
+    /// </summary>
+    public double? SortKey { get; set; }
+
     /// <summary>
     /// Gets or sets the schema version for this entity type.
     /// Must be greater than or equal to entity's current schema version (no downgrades) and less than or equal to maximum supported version.
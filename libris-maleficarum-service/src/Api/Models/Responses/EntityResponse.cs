@@ -62,6 +62,11 @@ public class EntityResponse
     /// </summary>
     public required bool HasChildren { get; set; }
 
+    /// <summary>
+    /// Gets or sets the manual position among siblings (null when never manually ordered).
+    /// </summary>
+    public double? SortKey { get; set; }
+
     /// <summary>
     /// Gets or sets the identifier of the user who owns this entity.
     /// </summary>
@@ -60,6 +60,11 @@ public sealed class EntityResponse
     /// </summary>
     public required bool HasChildren { get; init; }
 
+    /// <summary>
+    /// Gets the manual position among siblings (null when never manually ordered).
+    /// </summary>
+    public double? SortKey { get; init; }
+
     /// <summary>
     /// Gets the identifier of the user who owns this entity.
     /// </summary>
@@ -64,6 +64,12 @@ public class WorldEntity
     /// </summary>
     public bool HasChildren { get; private set; }
 
+    /// <summary>
+    /// Gets the manual position of this entity among its siblings (lower sorts first).
+    /// Null when the entity has never been manually ordered.
+    /// </summary>
+    public double? SortKey { get; private set; }
+
     /// <summary>
     /// Gets the identifier of the user who owns this entity.
     /// </summary>
@@ -321,6 +327,20 @@ public class WorldEntity
         ModifiedBy = modifiedBy;
     }
 
+    /// <summary>
+    /// Sets the manual position of this entity among its siblings.
+    /// </summary>
+    /// <param name="sortKey">The new sort key (null to fall back to the default order).</param>
+    public void SetSortKey(double? sortKey)
+    {
+        if (sortKey.HasValue && !double.IsFinite(sortKey.Value))
+        {
+            throw new ArgumentException("Sort key must be a finite number.", nameof(sortKey));
+        }
+
+        SortKey = sortKey;
+    }
+
     /// <summary>
     /// Moves this entity to a new parent.
     /// </summary>
@@ -114,6 +114,10 @@ public class WorldEntityConfiguration : IEntityTypeConfiguration<WorldEntity>
             .ToJsonProperty("hasChildren")
             .IsRequired();
 
+        builder.Property(e => e.SortKey)
+            .ToJsonProperty("sortKey")
+            .IsRequired(false);
+
         builder.Property(e => e.OwnerId)
             .ToJsonProperty("ownerId")
             .IsRequired();
@@ -204,6 +204,35 @@ public class WorldEntityTests
         entity.UpdatedAt.Should().BeAfter(originalUpdatedAt);
     }
 
+    [TestMethod]
+    public void SetSortKey_ShouldUpdateSortKey()
+    {
+        // Arrange
+        var worldId = Guid.NewGuid();
+        var entity = WorldEntity.Create(worldId, EntityType.City, "Minas Tirith", TestOwnerId);
+
+        // Act
+        entity.SetSortKey(1536);
+
+        // Assert
+        entity.SortKey.Should().Be(1536);
+    }
+
+    [TestMethod]
+    public void SetSortKey_WithNonFiniteValue_ShouldThrowArgumentException()
+    {
+        // Arrange
+        var worldId = Guid.NewGuid();
+        var entity = WorldEntity.Create(worldId, EntityType.City, "Minas Tirith", TestOwnerId);
+
+        // Act
+        var action = () => entity.SetSortKey(double.NaN);
+
+        // Assert
+        action.Should().Throw<ArgumentException>()
+            .WithMessage("Sort key must be a finite number.*");
+    }
+
     [TestMethod]
     public void SoftDelete_ShouldMarkEntityAsDeleted()
     {